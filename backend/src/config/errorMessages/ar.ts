@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（アラビア語）
+ */
+export const ar: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'لم يتم إدخال أي نص',
+  TEXT_TOO_LONG: 'النص طويل جدًا',
+  MISSING_TARGET_LANGUAGE: 'لم يتم تحديد اللغة الهدف',
+  UNSUPPORTED_LANGUAGE_PAIR: 'مجموعة اللغات هذه غير مدعومة',
+  LANGUAGE_DETECTION_FAILED: 'تعذر اكتشاف اللغة. يرجى تحديد لغة المصدر',
+  TRANSLATION_SERVICE_ERROR: 'حدث خطأ في خدمة الترجمة',
+  DETECTION_SERVICE_ERROR: 'حدث خطأ في خدمة اكتشاف اللغة',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'حجم النص يتجاوز الحد المسموح',
+  EMPTY_TRANSLATION_RESULT: 'لم يتم الحصول على نتيجة الترجمة',
+  THROTTLING_ERROR: 'عدد كبير جدًا من الطلبات إلى خدمة الترجمة',
+  SERVICE_UNAVAILABLE: 'خدمة الترجمة غير متاحة مؤقتًا',
+  CIRCUIT_OPEN: 'خدمة الترجمة متوقفة مؤقتًا',
+  TRANSLATION_BUDGET_EXCEEDED: 'تم تجاوز الميزانية الشهرية للترجمة',
+  INVALID_USAGE_PERIOD: 'فترة تقرير الاستخدام غير صالحة (92 يومًا كحد أقصى)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'فترة إحصاءات ذاكرة التخزين المؤقت غير صالحة (92 يومًا كحد أقصى)',
+  GLOSSARY_TERM_EXISTS: 'هذا المصطلح موجود بالفعل في المسرد',
+  GLOSSARY_TERM_NOT_FOUND: 'لم يتم العثور على إدخال المسرد',
+  TRANSLATION_JOB_NOT_FOUND: 'لم يتم العثور على مهمة الترجمة',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'لا يمكن إلغاء مهمة ترجمة منتهية',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'لم يتم العثور على إدخال ذاكرة التخزين المؤقت للترجمة',
+  CACHE_WARMUP_IN_PROGRESS: 'عملية تهيئة ذاكرة التخزين المؤقت قيد التشغيل بالفعل',
+  CACHE_WARMUP_NOT_FOUND: 'لم يتم العثور على عملية تهيئة ذاكرة التخزين المؤقت',
+  INVALID_CACHE_AUDIT_QUERY: 'استعلام سجل التدقيق غير صالح',
+  INVALID_CACHE_ENTRY_FILTER: 'عامل تصفية إدخالات ذاكرة التخزين المؤقت غير صالح',
+  CACHE_INVALIDATION_NOT_FOUND: 'لم يتم العثور على عملية إبطال ذاكرة التخزين المؤقت',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'تم التراجع عن إبطال ذاكرة التخزين المؤقت بالفعل',
+  INVALID_CACHE_IMPORT_REQUEST: 'طلب استيراد ذاكرة التخزين المؤقت غير صالح',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'لم يتم العثور على اقتراح التصحيح',
+  TRANSLATION_CORRECTION_UNCHANGED: 'الترجمة المصححة مطابقة للترجمة الحالية',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'تمت مراجعة اقتراح التصحيح بالفعل',
+  TRANSLATION_ERROR: 'حدث خطأ أثناء الترجمة',
+  REQUEST_ABORTED: 'تم إيقاف الطلب، لذلك لم تتم ترجمة النص',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'هذا الحقل مطلوب',
+  VALIDATION_EMPTY: 'لا يمكن أن يكون فارغًا',
+  VALIDATION_NOT_STRING: 'يجب أن يكون سلسلة نصية',
+  VALIDATION_NOT_BOOLEAN: 'يجب أن يكون قيمة منطقية',
+  VALIDATION_NOT_NUMBER: 'يجب أن يكون رقمًا',
+  VALIDATION_NOT_ARRAY: 'يجب أن يكون مصفوفة',
+  VALIDATION_NOT_OBJECT: 'يجب أن يكون كائنًا',
+  VALIDATION_TOO_LONG: 'يجب ألا يتجاوز {limit} حرفًا',
+  VALIDATION_TOO_MANY_ITEMS: 'يجب ألا يتجاوز {limit} عنصرًا',
+  VALIDATION_TOO_SMALL: 'يجب أن يكون {limit} على الأقل',
+  VALIDATION_TOO_LARGE: 'يجب ألا يتجاوز {limit}',
+  VALIDATION_INVALID_VALUE: 'يجب أن يكون إحدى القيم التالية: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'لغة غير مدعومة: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'يجب أن يكون مصفوفة من رموز اللغات أو "all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'اللغة الهدف مطلوبة عند تحديد ترجمة',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'حدد ترجمة أو اضبط doNotTranslate على true',
+  VALIDATION_BODY_NOT_OBJECT: 'يجب أن يكون نص الطلب كائن JSON',
+  VALIDATION_ITEM: 'الفهرس {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'النص المراد ترجمته مطلوب',
+  INVALID_INPUT_TEXTS: 'مصفوفة النصوص المراد ترجمتها مطلوبة',
+  INVALID_INPUT_DETECTION: 'النص المراد اكتشاف لغته مطلوب',
+  INVALID_TARGET_LANGUAGE: 'اللغة الهدف مطلوبة',
+  TOO_MANY_TEXTS: 'تدعم الترجمة المجمعة {max} نصًا كحد أقصى',
+  BATCH_TRANSLATION_ERROR: 'حدث خطأ أثناء الترجمة المجمعة',
+  LANGUAGE_DETECTION_ERROR: 'حدث خطأ أثناء اكتشاف اللغة',
+  LANGUAGE_LIST_ERROR: 'حدث خطأ أثناء جلب اللغات المدعومة',
+  HEALTH_CHECK_ERROR: 'حدث خطأ أثناء فحص الحالة',
+  GLOSSARY_RETRIEVAL_ERROR: 'تعذر جلب المسرد',
+  GLOSSARY_SAVE_ERROR: 'تعذر حفظ إدخال المسرد',
+  GLOSSARY_DELETE_ERROR: 'تعذر حذف إدخال المسرد',
+  TRANSLATION_JOB_CREATE_ERROR: 'تعذر إنشاء مهمة الترجمة',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'تعذر جلب مهمة الترجمة',
+  TRANSLATION_JOB_CANCEL_ERROR: 'تعذر إلغاء مهمة الترجمة',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'تعذر جلب اقتراحات التصحيح',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'تعذر إرسال اقتراح التصحيح',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'تعذرت مراجعة اقتراح التصحيح',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'تعذر جلب استخدام الترجمة',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'تعذر تعيين ميزانية الترجمة',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'توجد معلمات مطلوبة مفقودة',
+  CACHE_STATISTICS_ERROR: 'تعذر جلب إحصائيات ذاكرة التخزين المؤقت',
+  CACHE_RETRIEVAL_ERROR: 'تعذر جلب إدخالات ذاكرة التخزين المؤقت',
+  CACHE_DELETE_ERROR: 'تعذر حذف إدخال ذاكرة التخزين المؤقت',
+  CACHE_CLEANUP_ERROR: 'تعذر تنظيف ذاكرة التخزين المؤقت',
+  CACHE_CLEAR_ERROR: 'تعذر مسح ذاكرة التخزين المؤقت بالكامل',
+  CONFIG_RETRIEVAL_ERROR: 'تعذر جلب إعدادات ذاكرة التخزين المؤقت',
+  CACHE_WARMUP_ERROR: 'تعذرت تهيئة ذاكرة التخزين المؤقت',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'تعذر استرداد سجل التدقيق',
+  CACHE_INVALIDATION_ERROR: 'تعذر إبطال إدخالات ذاكرة التخزين المؤقت',
+  CACHE_EXPORT_ERROR: 'تعذر تصدير ذاكرة التخزين المؤقت',
+  CACHE_IMPORT_ERROR: 'تعذر استيراد ذاكرة التخزين المؤقت',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'يحتوي الطلب على قيم غير صالحة',
+  REQUEST_TOO_LARGE: 'حجم الطلب كبير جدًا (1 ميغابايت كحد أقصى)',
+  INVALID_CONTENT_TYPE: 'يجب أن يكون Content-Type هو application/json',
+  RATE_LIMIT_EXCEEDED: 'عدد كبير جدًا من الطلبات. يرجى الانتظار قليلًا ثم المحاولة مرة أخرى',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'ترويسة Authorization مطلوبة',
+  INVALID_AUTH_FORMAT: 'تنسيق Authorization غير صالح (Bearer <token>)',
+  AUTH_ERROR: 'فشلت المصادقة',
+  TOKEN_EXPIRED: 'انتهت صلاحية الرمز المميز',
+  INVALID_TOKEN: 'الرمز المميز غير صالح',
+  AUTHENTICATION_REQUIRED: 'المصادقة مطلوبة',
+  INSUFFICIENT_PERMISSIONS: 'صلاحيات المسؤول مطلوبة',
+
+  UNKNOWN_ERROR: 'حدث خطأ غير معروف'
+};
@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（ドイツ語）
+ */
+export const de: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'Es wurde kein Text eingegeben',
+  TEXT_TOO_LONG: 'Der Text ist zu lang',
+  MISSING_TARGET_LANGUAGE: 'Es wurde keine Zielsprache angegeben',
+  UNSUPPORTED_LANGUAGE_PAIR: 'Diese Sprachkombination wird nicht unterstützt',
+  LANGUAGE_DETECTION_FAILED: 'Die Sprache konnte nicht erkannt werden. Bitte gib die Ausgangssprache an',
+  TRANSLATION_SERVICE_ERROR: 'Im Übersetzungsdienst ist ein Fehler aufgetreten',
+  DETECTION_SERVICE_ERROR: 'Im Spracherkennungsdienst ist ein Fehler aufgetreten',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'Der Text überschreitet die maximale Größe',
+  EMPTY_TRANSLATION_RESULT: 'Es wurde kein Übersetzungsergebnis zurückgegeben',
+  THROTTLING_ERROR: 'Zu viele Anfragen an den Übersetzungsdienst',
+  SERVICE_UNAVAILABLE: 'Der Übersetzungsdienst ist vorübergehend nicht verfügbar',
+  CIRCUIT_OPEN: 'Der Übersetzungsdienst ist vorübergehend ausgesetzt',
+  TRANSLATION_BUDGET_EXCEEDED: 'Das monatliche Übersetzungsbudget wurde überschritten',
+  INVALID_USAGE_PERIOD: 'Der Zeitraum des Nutzungsberichts ist ungültig (maximal 92 Tage)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Ungültiger Zeitraum für die Cache-Statistik (höchstens 92 Tage)',
+  GLOSSARY_TERM_EXISTS: 'Dieser Begriff ist bereits im Glossar vorhanden',
+  GLOSSARY_TERM_NOT_FOUND: 'Der Glossareintrag wurde nicht gefunden',
+  TRANSLATION_JOB_NOT_FOUND: 'Der Übersetzungsauftrag wurde nicht gefunden',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'Ein abgeschlossener Übersetzungsauftrag kann nicht abgebrochen werden',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'Der Eintrag im Übersetzungscache wurde nicht gefunden',
+  CACHE_WARMUP_IN_PROGRESS: 'Ein Cache-Aufwärmlauf wird bereits ausgeführt',
+  CACHE_WARMUP_NOT_FOUND: 'Der Cache-Aufwärmlauf wurde nicht gefunden',
+  INVALID_CACHE_AUDIT_QUERY: 'Ungültige Abfrage des Audit-Protokolls',
+  INVALID_CACHE_ENTRY_FILTER: 'Ungültiger Filter für Cache-Einträge',
+  CACHE_INVALIDATION_NOT_FOUND: 'Die Cache-Invalidierung wurde nicht gefunden',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'Die Cache-Invalidierung wurde bereits rückgängig gemacht',
+  INVALID_CACHE_IMPORT_REQUEST: 'Ungültige Anfrage zum Importieren des Caches',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'Der Korrekturvorschlag wurde nicht gefunden',
+  TRANSLATION_CORRECTION_UNCHANGED: 'Die korrigierte Übersetzung entspricht der aktuellen Übersetzung',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'Der Korrekturvorschlag wurde bereits geprüft',
+  TRANSLATION_ERROR: 'Bei der Übersetzung ist ein Fehler aufgetreten',
+  REQUEST_ABORTED: 'Die Anfrage wurde abgebrochen, der Text wurde nicht übersetzt',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'Dieses Feld ist erforderlich',
+  VALIDATION_EMPTY: 'Darf nicht leer sein',
+  VALIDATION_NOT_STRING: 'Muss eine Zeichenkette sein',
+  VALIDATION_NOT_BOOLEAN: 'Muss ein boolescher Wert sein',
+  VALIDATION_NOT_NUMBER: 'Muss eine Zahl sein',
+  VALIDATION_NOT_ARRAY: 'Muss ein Array sein',
+  VALIDATION_NOT_OBJECT: 'Muss ein Objekt sein',
+  VALIDATION_TOO_LONG: 'Darf höchstens {limit} Zeichen lang sein',
+  VALIDATION_TOO_MANY_ITEMS: 'Darf höchstens {limit} Elemente enthalten',
+  VALIDATION_TOO_SMALL: 'Muss mindestens {limit} sein',
+  VALIDATION_TOO_LARGE: 'Darf höchstens {limit} sein',
+  VALIDATION_INVALID_VALUE: 'Muss einer der folgenden Werte sein: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Nicht unterstützte Sprache: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Muss ein Array von Sprachcodes oder "all" sein',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'Wenn eine Übersetzung angegeben ist, ist eine Zielsprache erforderlich',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Gib eine Übersetzung an oder setze doNotTranslate auf true',
+  VALIDATION_BODY_NOT_OBJECT: 'Der Anfragetext muss ein JSON-Objekt sein',
+  VALIDATION_ITEM: 'Index {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'Der zu übersetzende Text ist erforderlich',
+  INVALID_INPUT_TEXTS: 'Ein Array mit zu übersetzenden Texten ist erforderlich',
+  INVALID_INPUT_DETECTION: 'Der Text für die Spracherkennung ist erforderlich',
+  INVALID_TARGET_LANGUAGE: 'Eine Zielsprache ist erforderlich',
+  TOO_MANY_TEXTS: 'Die Stapelübersetzung unterstützt höchstens {max} Texte',
+  BATCH_TRANSLATION_ERROR: 'Bei der Stapelübersetzung ist ein Fehler aufgetreten',
+  LANGUAGE_DETECTION_ERROR: 'Bei der Spracherkennung ist ein Fehler aufgetreten',
+  LANGUAGE_LIST_ERROR: 'Beim Abrufen der unterstützten Sprachen ist ein Fehler aufgetreten',
+  HEALTH_CHECK_ERROR: 'Bei der Zustandsprüfung ist ein Fehler aufgetreten',
+  GLOSSARY_RETRIEVAL_ERROR: 'Das Glossar konnte nicht abgerufen werden',
+  GLOSSARY_SAVE_ERROR: 'Der Glossareintrag konnte nicht gespeichert werden',
+  GLOSSARY_DELETE_ERROR: 'Der Glossareintrag konnte nicht gelöscht werden',
+  TRANSLATION_JOB_CREATE_ERROR: 'Der Übersetzungsauftrag konnte nicht erstellt werden',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'Der Übersetzungsauftrag konnte nicht abgerufen werden',
+  TRANSLATION_JOB_CANCEL_ERROR: 'Der Übersetzungsauftrag konnte nicht abgebrochen werden',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'Die Korrekturvorschläge konnten nicht abgerufen werden',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'Der Korrekturvorschlag konnte nicht eingereicht werden',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'Der Korrekturvorschlag konnte nicht geprüft werden',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'Die Übersetzungsnutzung konnte nicht abgerufen werden',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'Das Übersetzungsbudget konnte nicht festgelegt werden',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'Erforderliche Parameter fehlen',
+  CACHE_STATISTICS_ERROR: 'Die Cache-Statistiken konnten nicht abgerufen werden',
+  CACHE_RETRIEVAL_ERROR: 'Die Cache-Einträge konnten nicht abgerufen werden',
+  CACHE_DELETE_ERROR: 'Der Cache-Eintrag konnte nicht gelöscht werden',
+  CACHE_CLEANUP_ERROR: 'Der Cache konnte nicht bereinigt werden',
+  CACHE_CLEAR_ERROR: 'Der gesamte Cache konnte nicht geleert werden',
+  CONFIG_RETRIEVAL_ERROR: 'Die Cache-Konfiguration konnte nicht abgerufen werden',
+  CACHE_WARMUP_ERROR: 'Der Cache konnte nicht aufgewärmt werden',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'Das Audit-Protokoll konnte nicht abgerufen werden',
+  CACHE_INVALIDATION_ERROR: 'Cache-Einträge konnten nicht invalidiert werden',
+  CACHE_EXPORT_ERROR: 'Der Cache konnte nicht exportiert werden',
+  CACHE_IMPORT_ERROR: 'Der Cache konnte nicht importiert werden',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'Die Anfrage enthält ungültige Werte',
+  REQUEST_TOO_LARGE: 'Die Anfrage ist zu groß (maximal 1 MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type muss application/json sein',
+  RATE_LIMIT_EXCEEDED: 'Zu viele Anfragen. Bitte warte einen Moment und versuche es erneut',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'Der Authorization-Header ist erforderlich',
+  INVALID_AUTH_FORMAT: 'Ungültiges Authorization-Format (Bearer <token>)',
+  AUTH_ERROR: 'Die Authentifizierung ist fehlgeschlagen',
+  TOKEN_EXPIRED: 'Das Token ist abgelaufen',
+  INVALID_TOKEN: 'Das Token ist ungültig',
+  AUTHENTICATION_REQUIRED: 'Eine Authentifizierung ist erforderlich',
+  INSUFFICIENT_PERMISSIONS: 'Administratorrechte sind erforderlich',
+
+  UNKNOWN_ERROR: 'Ein unbekannter Fehler ist aufgetreten'
+};
@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（英語）
+ */
+export const en: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'No text was entered',
+  TEXT_TOO_LONG: 'The text is too long',
+  MISSING_TARGET_LANGUAGE: 'No target language was specified',
+  UNSUPPORTED_LANGUAGE_PAIR: 'This language combination is not supported',
+  LANGUAGE_DETECTION_FAILED: 'The language could not be detected. Please specify the source language',
+  TRANSLATION_SERVICE_ERROR: 'An error occurred in the translation service',
+  DETECTION_SERVICE_ERROR: 'An error occurred in the language detection service',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'The text exceeds the size limit',
+  EMPTY_TRANSLATION_RESULT: 'No translation result was returned',
+  THROTTLING_ERROR: 'Too many requests to the translation service',
+  SERVICE_UNAVAILABLE: 'The translation service is temporarily unavailable',
+  CIRCUIT_OPEN: 'The translation service is temporarily suspended',
+  TRANSLATION_BUDGET_EXCEEDED: 'The monthly translation budget has been exceeded',
+  INVALID_USAGE_PERIOD: 'The usage report period is invalid (up to 92 days)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Invalid cache statistics period (up to 92 days)',
+  GLOSSARY_TERM_EXISTS: 'This term is already in the glossary',
+  GLOSSARY_TERM_NOT_FOUND: 'The glossary entry was not found',
+  TRANSLATION_JOB_NOT_FOUND: 'The translation job was not found',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'A finished translation job cannot be cancelled',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'The translation cache entry was not found',
+  CACHE_WARMUP_IN_PROGRESS: 'A cache warm-up is already running',
+  CACHE_WARMUP_NOT_FOUND: 'The cache warm-up was not found',
+  INVALID_CACHE_AUDIT_QUERY: 'Invalid audit log query',
+  INVALID_CACHE_ENTRY_FILTER: 'Invalid cache entry filter',
+  CACHE_INVALIDATION_NOT_FOUND: 'The cache invalidation was not found',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'The cache invalidation has already been undone',
+  INVALID_CACHE_IMPORT_REQUEST: 'Invalid cache import request',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'The correction proposal was not found',
+  TRANSLATION_CORRECTION_UNCHANGED: 'The corrected translation is the same as the current translation',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'The correction proposal has already been reviewed',
+  TRANSLATION_ERROR: 'An error occurred during translation',
+  REQUEST_ABORTED: 'The request was aborted, so the text was not translated',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'This field is required',
+  VALIDATION_EMPTY: 'Must not be empty',
+  VALIDATION_NOT_STRING: 'Must be a string',
+  VALIDATION_NOT_BOOLEAN: 'Must be a boolean',
+  VALIDATION_NOT_NUMBER: 'Must be a number',
+  VALIDATION_NOT_ARRAY: 'Must be an array',
+  VALIDATION_NOT_OBJECT: 'Must be an object',
+  VALIDATION_TOO_LONG: 'Must be at most {limit} characters',
+  VALIDATION_TOO_MANY_ITEMS: 'Must contain at most {limit} items',
+  VALIDATION_TOO_SMALL: 'Must be at least {limit}',
+  VALIDATION_TOO_LARGE: 'Must be at most {limit}',
+  VALIDATION_INVALID_VALUE: 'Must be one of: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Unsupported language: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Must be an array of language codes or "all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'A target language is required when a translation is specified',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Specify a translation or set doNotTranslate to true',
+  VALIDATION_BODY_NOT_OBJECT: 'The request body must be a JSON object',
+  VALIDATION_ITEM: 'Index {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'Text to translate is required',
+  INVALID_INPUT_TEXTS: 'An array of texts to translate is required',
+  INVALID_INPUT_DETECTION: 'Text for language detection is required',
+  INVALID_TARGET_LANGUAGE: 'A target language is required',
+  TOO_MANY_TEXTS: 'Batch translation accepts at most {max} texts',
+  BATCH_TRANSLATION_ERROR: 'An error occurred during batch translation',
+  LANGUAGE_DETECTION_ERROR: 'An error occurred during language detection',
+  LANGUAGE_LIST_ERROR: 'An error occurred while retrieving the supported languages',
+  HEALTH_CHECK_ERROR: 'An error occurred during the health check',
+  GLOSSARY_RETRIEVAL_ERROR: 'Failed to retrieve the glossary',
+  GLOSSARY_SAVE_ERROR: 'Failed to save the glossary entry',
+  GLOSSARY_DELETE_ERROR: 'Failed to delete the glossary entry',
+  TRANSLATION_JOB_CREATE_ERROR: 'Failed to create the translation job',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'Failed to retrieve the translation job',
+  TRANSLATION_JOB_CANCEL_ERROR: 'Failed to cancel the translation job',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'Failed to retrieve the correction proposals',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'Failed to submit the correction proposal',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'Failed to review the correction proposal',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'Failed to retrieve translation usage',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'Failed to update the translation budget',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'Required parameters are missing',
+  CACHE_STATISTICS_ERROR: 'Failed to retrieve cache statistics',
+  CACHE_RETRIEVAL_ERROR: 'Failed to retrieve cache entries',
+  CACHE_DELETE_ERROR: 'Failed to delete the cache entry',
+  CACHE_CLEANUP_ERROR: 'Failed to clean up the cache',
+  CACHE_CLEAR_ERROR: 'Failed to clear the cache',
+  CONFIG_RETRIEVAL_ERROR: 'Failed to retrieve the cache configuration',
+  CACHE_WARMUP_ERROR: 'Failed to warm up the cache',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'Failed to retrieve the audit log',
+  CACHE_INVALIDATION_ERROR: 'Failed to invalidate cache entries',
+  CACHE_EXPORT_ERROR: 'Failed to export the cache',
+  CACHE_IMPORT_ERROR: 'Failed to import the cache',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'The request contains invalid values',
+  REQUEST_TOO_LARGE: 'The request is too large (maximum 1 MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type must be application/json',
+  RATE_LIMIT_EXCEEDED: 'Too many requests. Please wait a moment and try again',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'The Authorization header is required',
+  INVALID_AUTH_FORMAT: 'Invalid Authorization format (Bearer <token>)',
+  AUTH_ERROR: 'Authentication failed',
+  TOKEN_EXPIRED: 'The token has expired',
+  INVALID_TOKEN: 'The token is invalid',
+  AUTHENTICATION_REQUIRED: 'Authentication is required',
+  INSUFFICIENT_PERMISSIONS: 'Administrator privileges are required',
+
+  UNKNOWN_ERROR: 'An unknown error occurred'
+};
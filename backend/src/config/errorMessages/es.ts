@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（スペイン語）
+ */
+export const es: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'No se ha introducido ningún texto',
+  TEXT_TOO_LONG: 'El texto es demasiado largo',
+  MISSING_TARGET_LANGUAGE: 'No se ha especificado el idioma de destino',
+  UNSUPPORTED_LANGUAGE_PAIR: 'Esta combinación de idiomas no es compatible',
+  LANGUAGE_DETECTION_FAILED: 'No se pudo detectar el idioma. Especifica el idioma de origen',
+  TRANSLATION_SERVICE_ERROR: 'Se produjo un error en el servicio de traducción',
+  DETECTION_SERVICE_ERROR: 'Se produjo un error en el servicio de detección de idioma',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'El texto supera el tamaño máximo',
+  EMPTY_TRANSLATION_RESULT: 'No se obtuvo ningún resultado de traducción',
+  THROTTLING_ERROR: 'Demasiadas solicitudes al servicio de traducción',
+  SERVICE_UNAVAILABLE: 'El servicio de traducción no está disponible temporalmente',
+  CIRCUIT_OPEN: 'El servicio de traducción está suspendido temporalmente',
+  TRANSLATION_BUDGET_EXCEEDED: 'Se ha superado el presupuesto mensual de traducción',
+  INVALID_USAGE_PERIOD: 'El periodo del informe de uso no es válido (máximo 92 días)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Período de estadísticas de caché no válido (máximo 92 días)',
+  GLOSSARY_TERM_EXISTS: 'Este término ya existe en el glosario',
+  GLOSSARY_TERM_NOT_FOUND: 'No se encontró la entrada del glosario',
+  TRANSLATION_JOB_NOT_FOUND: 'No se encontró el trabajo de traducción',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'No se puede cancelar un trabajo de traducción finalizado',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'No se encontró la entrada de la caché de traducción',
+  CACHE_WARMUP_IN_PROGRESS: 'Ya hay un precalentamiento de la caché en curso',
+  CACHE_WARMUP_NOT_FOUND: 'No se encontró el precalentamiento de la caché',
+  INVALID_CACHE_AUDIT_QUERY: 'Consulta del registro de auditoría no válida',
+  INVALID_CACHE_ENTRY_FILTER: 'Filtro de entradas de caché no válido',
+  CACHE_INVALIDATION_NOT_FOUND: 'No se encontró la invalidación de la caché',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'La invalidación de la caché ya se deshizo',
+  INVALID_CACHE_IMPORT_REQUEST: 'Solicitud de importación de caché no válida',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'No se encontró la propuesta de corrección',
+  TRANSLATION_CORRECTION_UNCHANGED: 'La traducción corregida es igual a la traducción actual',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'La propuesta de corrección ya ha sido revisada',
+  TRANSLATION_ERROR: 'Se produjo un error durante la traducción',
+  REQUEST_ABORTED: 'La solicitud se interrumpió y el texto no se tradujo',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'Este campo es obligatorio',
+  VALIDATION_EMPTY: 'No puede estar vacío',
+  VALIDATION_NOT_STRING: 'Debe ser una cadena de texto',
+  VALIDATION_NOT_BOOLEAN: 'Debe ser un valor booleano',
+  VALIDATION_NOT_NUMBER: 'Debe ser un número',
+  VALIDATION_NOT_ARRAY: 'Debe ser un array',
+  VALIDATION_NOT_OBJECT: 'Debe ser un objeto',
+  VALIDATION_TOO_LONG: 'Debe tener como máximo {limit} caracteres',
+  VALIDATION_TOO_MANY_ITEMS: 'Debe contener como máximo {limit} elementos',
+  VALIDATION_TOO_SMALL: 'Debe ser como mínimo {limit}',
+  VALIDATION_TOO_LARGE: 'Debe ser como máximo {limit}',
+  VALIDATION_INVALID_VALUE: 'Debe ser uno de los siguientes valores: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Idioma no compatible: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Debe ser un array de códigos de idioma o "all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'Se requiere el idioma de destino cuando se especifica una traducción',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Especifica una traducción o establece doNotTranslate en true',
+  VALIDATION_BODY_NOT_OBJECT: 'El cuerpo de la solicitud debe ser un objeto JSON',
+  VALIDATION_ITEM: 'Índice {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'Se requiere el texto que se va a traducir',
+  INVALID_INPUT_TEXTS: 'Se requiere un array de textos para traducir',
+  INVALID_INPUT_DETECTION: 'Se requiere el texto para detectar el idioma',
+  INVALID_TARGET_LANGUAGE: 'Se requiere el idioma de destino',
+  TOO_MANY_TEXTS: 'La traducción por lotes admite como máximo {max} textos',
+  BATCH_TRANSLATION_ERROR: 'Se produjo un error durante la traducción por lotes',
+  LANGUAGE_DETECTION_ERROR: 'Se produjo un error durante la detección de idioma',
+  LANGUAGE_LIST_ERROR: 'Se produjo un error al obtener los idiomas compatibles',
+  HEALTH_CHECK_ERROR: 'Se produjo un error durante la comprobación de estado',
+  GLOSSARY_RETRIEVAL_ERROR: 'No se pudo obtener el glosario',
+  GLOSSARY_SAVE_ERROR: 'No se pudo guardar la entrada del glosario',
+  GLOSSARY_DELETE_ERROR: 'No se pudo eliminar la entrada del glosario',
+  TRANSLATION_JOB_CREATE_ERROR: 'No se pudo crear el trabajo de traducción',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'No se pudo obtener el trabajo de traducción',
+  TRANSLATION_JOB_CANCEL_ERROR: 'No se pudo cancelar el trabajo de traducción',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'No se pudieron obtener las propuestas de corrección',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'No se pudo enviar la propuesta de corrección',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'No se pudo revisar la propuesta de corrección',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'No se pudo obtener el uso de traducción',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'No se pudo establecer el presupuesto de traducción',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'Faltan parámetros obligatorios',
+  CACHE_STATISTICS_ERROR: 'No se pudieron obtener las estadísticas de la caché',
+  CACHE_RETRIEVAL_ERROR: 'No se pudieron obtener las entradas de la caché',
+  CACHE_DELETE_ERROR: 'No se pudo eliminar la entrada de la caché',
+  CACHE_CLEANUP_ERROR: 'No se pudo limpiar la caché',
+  CACHE_CLEAR_ERROR: 'No se pudo vaciar toda la caché',
+  CONFIG_RETRIEVAL_ERROR: 'No se pudo obtener la configuración de la caché',
+  CACHE_WARMUP_ERROR: 'No se pudo precalentar la caché',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'No se pudo obtener el registro de auditoría',
+  CACHE_INVALIDATION_ERROR: 'No se pudieron invalidar las entradas de la caché',
+  CACHE_EXPORT_ERROR: 'No se pudo exportar la caché',
+  CACHE_IMPORT_ERROR: 'No se pudo importar la caché',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'La solicitud contiene valores no válidos',
+  REQUEST_TOO_LARGE: 'La solicitud es demasiado grande (máximo 1 MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type debe ser application/json',
+  RATE_LIMIT_EXCEEDED: 'Demasiadas solicitudes. Espera un momento y vuelve a intentarlo',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'Se requiere el encabezado Authorization',
+  INVALID_AUTH_FORMAT: 'El formato de Authorization no es válido (Bearer <token>)',
+  AUTH_ERROR: 'Error de autenticación',
+  TOKEN_EXPIRED: 'El token ha caducado',
+  INVALID_TOKEN: 'El token no es válido',
+  AUTHENTICATION_REQUIRED: 'Se requiere autenticación',
+  INSUFFICIENT_PERMISSIONS: 'Se requieren privilegios de administrador',
+
+  UNKNOWN_ERROR: 'Se produjo un error desconocido'
+};
@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（フランス語）
+ */
+export const fr: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'Aucun texte n’a été saisi',
+  TEXT_TOO_LONG: 'Le texte est trop long',
+  MISSING_TARGET_LANGUAGE: 'Aucune langue cible n’a été indiquée',
+  UNSUPPORTED_LANGUAGE_PAIR: 'Cette combinaison de langues n’est pas prise en charge',
+  LANGUAGE_DETECTION_FAILED: 'Impossible de détecter la langue. Veuillez indiquer la langue source',
+  TRANSLATION_SERVICE_ERROR: 'Une erreur s’est produite dans le service de traduction',
+  DETECTION_SERVICE_ERROR: 'Une erreur s’est produite dans le service de détection de langue',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'Le texte dépasse la taille maximale',
+  EMPTY_TRANSLATION_RESULT: 'Aucun résultat de traduction n’a été obtenu',
+  THROTTLING_ERROR: 'Trop de requêtes vers le service de traduction',
+  SERVICE_UNAVAILABLE: 'Le service de traduction est temporairement indisponible',
+  CIRCUIT_OPEN: 'Le service de traduction est temporairement suspendu',
+  TRANSLATION_BUDGET_EXCEEDED: 'Le budget mensuel de traduction est dépassé',
+  INVALID_USAGE_PERIOD: 'La période du rapport d’utilisation n’est pas valide (92 jours maximum)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Période de statistiques du cache non valide (92 jours maximum)',
+  GLOSSARY_TERM_EXISTS: 'Ce terme figure déjà dans le glossaire',
+  GLOSSARY_TERM_NOT_FOUND: 'Entrée du glossaire introuvable',
+  TRANSLATION_JOB_NOT_FOUND: 'Tâche de traduction introuvable',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'Une tâche de traduction terminée ne peut pas être annulée',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'Entrée du cache de traduction introuvable',
+  CACHE_WARMUP_IN_PROGRESS: 'Un préchauffage du cache est déjà en cours',
+  CACHE_WARMUP_NOT_FOUND: 'Préchauffage du cache introuvable',
+  INVALID_CACHE_AUDIT_QUERY: "Requête du journal d'audit invalide",
+  INVALID_CACHE_ENTRY_FILTER: "Filtre d'entrées du cache invalide",
+  CACHE_INVALIDATION_NOT_FOUND: 'Invalidation du cache introuvable',
+  CACHE_INVALIDATION_ALREADY_UNDONE: "L'invalidation du cache a déjà été annulée",
+  INVALID_CACHE_IMPORT_REQUEST: "Requête d'importation du cache invalide",
+  TRANSLATION_CORRECTION_NOT_FOUND: 'Proposition de correction introuvable',
+  TRANSLATION_CORRECTION_UNCHANGED: 'La traduction corrigée est identique à la traduction actuelle',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'La proposition de correction a déjà été examinée',
+  TRANSLATION_ERROR: 'Une erreur s’est produite pendant la traduction',
+  REQUEST_ABORTED: 'La requête a été interrompue, le texte n’a pas été traduit',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'Ce champ est obligatoire',
+  VALIDATION_EMPTY: 'Ne doit pas être vide',
+  VALIDATION_NOT_STRING: 'Doit être une chaîne de caractères',
+  VALIDATION_NOT_BOOLEAN: 'Doit être un booléen',
+  VALIDATION_NOT_NUMBER: 'Doit être un nombre',
+  VALIDATION_NOT_ARRAY: 'Doit être un tableau',
+  VALIDATION_NOT_OBJECT: 'Doit être un objet',
+  VALIDATION_TOO_LONG: 'Doit comporter au plus {limit} caractères',
+  VALIDATION_TOO_MANY_ITEMS: 'Doit contenir au plus {limit} éléments',
+  VALIDATION_TOO_SMALL: 'Doit être supérieur ou égal à {limit}',
+  VALIDATION_TOO_LARGE: 'Doit être inférieur ou égal à {limit}',
+  VALIDATION_INVALID_VALUE: 'Doit être l’une des valeurs suivantes : {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Langue non prise en charge : {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Doit être un tableau de codes de langue ou "all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'Une langue cible est requise lorsqu’une traduction est indiquée',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Indiquez une traduction ou définissez doNotTranslate sur true',
+  VALIDATION_BODY_NOT_OBJECT: 'Le corps de la requête doit être un objet JSON',
+  VALIDATION_ITEM: 'Index {index} : {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'Le texte à traduire est requis',
+  INVALID_INPUT_TEXTS: 'Un tableau de textes à traduire est requis',
+  INVALID_INPUT_DETECTION: 'Le texte dont la langue doit être détectée est requis',
+  INVALID_TARGET_LANGUAGE: 'La langue cible est requise',
+  TOO_MANY_TEXTS: 'La traduction par lots accepte au maximum {max} textes',
+  BATCH_TRANSLATION_ERROR: 'Une erreur s’est produite pendant la traduction par lots',
+  LANGUAGE_DETECTION_ERROR: 'Une erreur s’est produite pendant la détection de langue',
+  LANGUAGE_LIST_ERROR: 'Une erreur s’est produite lors de la récupération des langues prises en charge',
+  HEALTH_CHECK_ERROR: 'Une erreur s’est produite pendant la vérification de l’état',
+  GLOSSARY_RETRIEVAL_ERROR: 'Impossible de récupérer le glossaire',
+  GLOSSARY_SAVE_ERROR: 'Impossible d’enregistrer l’entrée du glossaire',
+  GLOSSARY_DELETE_ERROR: 'Impossible de supprimer l’entrée du glossaire',
+  TRANSLATION_JOB_CREATE_ERROR: 'Impossible de créer la tâche de traduction',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'Impossible de récupérer la tâche de traduction',
+  TRANSLATION_JOB_CANCEL_ERROR: 'Impossible d’annuler la tâche de traduction',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'Impossible de récupérer les propositions de correction',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'Impossible d’envoyer la proposition de correction',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'Impossible d’examiner la proposition de correction',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'Impossible de récupérer l’utilisation de la traduction',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'Impossible de définir le budget de traduction',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'Des paramètres obligatoires sont manquants',
+  CACHE_STATISTICS_ERROR: 'Impossible de récupérer les statistiques du cache',
+  CACHE_RETRIEVAL_ERROR: 'Impossible de récupérer les entrées du cache',
+  CACHE_DELETE_ERROR: 'Impossible de supprimer l’entrée du cache',
+  CACHE_CLEANUP_ERROR: 'Impossible de nettoyer le cache',
+  CACHE_CLEAR_ERROR: 'Impossible de vider l’ensemble du cache',
+  CONFIG_RETRIEVAL_ERROR: 'Impossible de récupérer la configuration du cache',
+  CACHE_WARMUP_ERROR: 'Impossible de préchauffer le cache',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: "Impossible de récupérer le journal d'audit",
+  CACHE_INVALIDATION_ERROR: "Impossible d'invalider les entrées du cache",
+  CACHE_EXPORT_ERROR: "Impossible d'exporter le cache",
+  CACHE_IMPORT_ERROR: "Impossible d'importer le cache",
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'La requête contient des valeurs non valides',
+  REQUEST_TOO_LARGE: 'La requête est trop volumineuse (1 Mo maximum)',
+  INVALID_CONTENT_TYPE: 'Content-Type doit être application/json',
+  RATE_LIMIT_EXCEEDED: 'Trop de requêtes. Veuillez patienter un instant puis réessayer',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'L’en-tête Authorization est requis',
+  INVALID_AUTH_FORMAT: 'Format Authorization non valide (Bearer <token>)',
+  AUTH_ERROR: 'Échec de l’authentification',
+  TOKEN_EXPIRED: 'Le jeton a expiré',
+  INVALID_TOKEN: 'Le jeton n’est pas valide',
+  AUTHENTICATION_REQUIRED: 'Une authentification est requise',
+  INSUFFICIENT_PERMISSIONS: 'Des droits d’administrateur sont requis',
+
+  UNKNOWN_ERROR: 'Une erreur inconnue s’est produite'
+};
@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（ヒンディー語）
+ */
+export const hi: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'कोई टेक्स्ट दर्ज नहीं किया गया',
+  TEXT_TOO_LONG: 'टेक्स्ट बहुत लंबा है',
+  MISSING_TARGET_LANGUAGE: 'लक्ष्य भाषा निर्दिष्ट नहीं की गई',
+  UNSUPPORTED_LANGUAGE_PAIR: 'यह भाषा संयोजन समर्थित नहीं है',
+  LANGUAGE_DETECTION_FAILED: 'भाषा का पता नहीं लगाया जा सका। कृपया स्रोत भाषा निर्दिष्ट करें',
+  TRANSLATION_SERVICE_ERROR: 'अनुवाद सेवा में एक त्रुटि हुई',
+  DETECTION_SERVICE_ERROR: 'भाषा पहचान सेवा में एक त्रुटि हुई',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'टेक्स्ट का आकार सीमा से अधिक है',
+  EMPTY_TRANSLATION_RESULT: 'अनुवाद परिणाम प्राप्त नहीं हुआ',
+  THROTTLING_ERROR: 'अनुवाद सेवा को बहुत अधिक अनुरोध भेजे गए',
+  SERVICE_UNAVAILABLE: 'अनुवाद सेवा अस्थायी रूप से उपलब्ध नहीं है',
+  CIRCUIT_OPEN: 'अनुवाद सेवा अस्थायी रूप से रोकी गई है',
+  TRANSLATION_BUDGET_EXCEEDED: 'मासिक अनुवाद बजट पार हो गया है',
+  INVALID_USAGE_PERIOD: 'उपयोग रिपोर्ट की अवधि अमान्य है (अधिकतम 92 दिन)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'कैश आँकड़ों की अवधि अमान्य है (अधिकतम 92 दिन)',
+  GLOSSARY_TERM_EXISTS: 'यह शब्द पहले से शब्दावली में मौजूद है',
+  GLOSSARY_TERM_NOT_FOUND: 'शब्दावली प्रविष्टि नहीं मिली',
+  TRANSLATION_JOB_NOT_FOUND: 'अनुवाद कार्य नहीं मिला',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'समाप्त हो चुके अनुवाद कार्य को रद्द नहीं किया जा सकता',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'अनुवाद कैश प्रविष्टि नहीं मिली',
+  CACHE_WARMUP_IN_PROGRESS: 'कैश वार्म-अप पहले से चल रहा है',
+  CACHE_WARMUP_NOT_FOUND: 'कैश वार्म-अप नहीं मिला',
+  INVALID_CACHE_AUDIT_QUERY: 'ऑडिट लॉग क्वेरी अमान्य है',
+  INVALID_CACHE_ENTRY_FILTER: 'कैश प्रविष्टि फ़िल्टर अमान्य है',
+  CACHE_INVALIDATION_NOT_FOUND: 'कैश अमान्यकरण नहीं मिला',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'कैश अमान्यकरण पहले ही पूर्ववत किया जा चुका है',
+  INVALID_CACHE_IMPORT_REQUEST: 'कैश आयात अनुरोध अमान्य है',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'सुधार प्रस्ताव नहीं मिला',
+  TRANSLATION_CORRECTION_UNCHANGED: 'सुधारा गया अनुवाद वर्तमान अनुवाद के समान है',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'सुधार प्रस्ताव की समीक्षा पहले ही हो चुकी है',
+  TRANSLATION_ERROR: 'अनुवाद के दौरान एक त्रुटि हुई',
+  REQUEST_ABORTED: 'अनुरोध बीच में रुक गया, इसलिए टेक्स्ट का अनुवाद नहीं किया गया',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'यह फ़ील्ड आवश्यक है',
+  VALIDATION_EMPTY: 'खाली नहीं हो सकता',
+  VALIDATION_NOT_STRING: 'स्ट्रिंग होना चाहिए',
+  VALIDATION_NOT_BOOLEAN: 'बूलियन मान होना चाहिए',
+  VALIDATION_NOT_NUMBER: 'संख्या होना चाहिए',
+  VALIDATION_NOT_ARRAY: 'ऐरे होना चाहिए',
+  VALIDATION_NOT_OBJECT: 'ऑब्जेक्ट होना चाहिए',
+  VALIDATION_TOO_LONG: 'अधिकतम {limit} अक्षर होने चाहिए',
+  VALIDATION_TOO_MANY_ITEMS: 'अधिकतम {limit} आइटम हो सकते हैं',
+  VALIDATION_TOO_SMALL: 'कम से कम {limit} होना चाहिए',
+  VALIDATION_TOO_LARGE: 'अधिकतम {limit} होना चाहिए',
+  VALIDATION_INVALID_VALUE: 'इनमें से कोई एक होना चाहिए: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'असमर्थित भाषा: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'भाषा कोड का ऐरे या "all" होना चाहिए',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'अनुवाद निर्दिष्ट करने पर लक्ष्य भाषा आवश्यक है',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'अनुवाद निर्दिष्ट करें या doNotTranslate को true पर सेट करें',
+  VALIDATION_BODY_NOT_OBJECT: 'अनुरोध का बॉडी JSON ऑब्जेक्ट होना चाहिए',
+  VALIDATION_ITEM: 'इंडेक्स {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'अनुवाद के लिए टेक्स्ट आवश्यक है',
+  INVALID_INPUT_TEXTS: 'अनुवाद के लिए टेक्स्ट की सूची आवश्यक है',
+  INVALID_INPUT_DETECTION: 'भाषा पहचान के लिए टेक्स्ट आवश्यक है',
+  INVALID_TARGET_LANGUAGE: 'लक्ष्य भाषा आवश्यक है',
+  TOO_MANY_TEXTS: 'बैच अनुवाद में अधिकतम {max} टेक्स्ट हो सकते हैं',
+  BATCH_TRANSLATION_ERROR: 'बैच अनुवाद के दौरान एक त्रुटि हुई',
+  LANGUAGE_DETECTION_ERROR: 'भाषा पहचान के दौरान एक त्रुटि हुई',
+  LANGUAGE_LIST_ERROR: 'समर्थित भाषाएँ प्राप्त करते समय एक त्रुटि हुई',
+  HEALTH_CHECK_ERROR: 'स्वास्थ्य जाँच के दौरान एक त्रुटि हुई',
+  GLOSSARY_RETRIEVAL_ERROR: 'शब्दावली प्राप्त नहीं की जा सकी',
+  GLOSSARY_SAVE_ERROR: 'शब्दावली प्रविष्टि सहेजी नहीं जा सकी',
+  GLOSSARY_DELETE_ERROR: 'शब्दावली प्रविष्टि हटाई नहीं जा सकी',
+  TRANSLATION_JOB_CREATE_ERROR: 'अनुवाद कार्य बनाया नहीं जा सका',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'अनुवाद कार्य प्राप्त नहीं किया जा सका',
+  TRANSLATION_JOB_CANCEL_ERROR: 'अनुवाद कार्य रद्द नहीं किया जा सका',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'सुधार प्रस्ताव प्राप्त नहीं किए जा सके',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'सुधार प्रस्ताव भेजा नहीं जा सका',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'सुधार प्रस्ताव की समीक्षा नहीं की जा सकी',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'अनुवाद उपयोग प्राप्त नहीं किया जा सका',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'अनुवाद बजट सेट नहीं किया जा सका',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'आवश्यक पैरामीटर मौजूद नहीं हैं',
+  CACHE_STATISTICS_ERROR: 'कैश आँकड़े प्राप्त नहीं किए जा सके',
+  CACHE_RETRIEVAL_ERROR: 'कैश प्रविष्टियाँ प्राप्त नहीं की जा सकीं',
+  CACHE_DELETE_ERROR: 'कैश प्रविष्टि हटाई नहीं जा सकी',
+  CACHE_CLEANUP_ERROR: 'कैश साफ़ नहीं किया जा सका',
+  CACHE_CLEAR_ERROR: 'पूरा कैश खाली नहीं किया जा सका',
+  CONFIG_RETRIEVAL_ERROR: 'कैश कॉन्फ़िगरेशन प्राप्त नहीं किया जा सका',
+  CACHE_WARMUP_ERROR: 'कैश वार्म-अप नहीं किया जा सका',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'ऑडिट लॉग प्राप्त नहीं किया जा सका',
+  CACHE_INVALIDATION_ERROR: 'कैश प्रविष्टियों को अमान्य नहीं किया जा सका',
+  CACHE_EXPORT_ERROR: 'कैश निर्यात नहीं किया जा सका',
+  CACHE_IMPORT_ERROR: 'कैश आयात नहीं किया जा सका',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'अनुरोध में अमान्य मान हैं',
+  REQUEST_TOO_LARGE: 'अनुरोध बहुत बड़ा है (अधिकतम 1 MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type application/json होना चाहिए',
+  RATE_LIMIT_EXCEEDED: 'बहुत अधिक अनुरोध। कृपया कुछ देर प्रतीक्षा करके फिर से प्रयास करें',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'Authorization हेडर आवश्यक है',
+  INVALID_AUTH_FORMAT: 'Authorization का प्रारूप अमान्य है (Bearer <token>)',
+  AUTH_ERROR: 'प्रमाणीकरण विफल रहा',
+  TOKEN_EXPIRED: 'टोकन की समय-सीमा समाप्त हो गई है',
+  INVALID_TOKEN: 'टोकन अमान्य है',
+  AUTHENTICATION_REQUIRED: 'प्रमाणीकरण आवश्यक है',
+  INSUFFICIENT_PERMISSIONS: 'व्यवस्थापक अधिकार आवश्यक हैं',
+
+  UNKNOWN_ERROR: 'एक अज्ञात त्रुटि हुई'
+};
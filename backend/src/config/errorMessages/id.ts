@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（インドネシア語）
+ */
+export const id: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'Teks belum dimasukkan',
+  TEXT_TOO_LONG: 'Teks terlalu panjang',
+  MISSING_TARGET_LANGUAGE: 'Bahasa tujuan belum ditentukan',
+  UNSUPPORTED_LANGUAGE_PAIR: 'Kombinasi bahasa ini tidak didukung',
+  LANGUAGE_DETECTION_FAILED: 'Bahasa tidak dapat dideteksi. Tentukan bahasa sumber',
+  TRANSLATION_SERVICE_ERROR: 'Terjadi kesalahan pada layanan terjemahan',
+  DETECTION_SERVICE_ERROR: 'Terjadi kesalahan pada layanan deteksi bahasa',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'Ukuran teks melebihi batas',
+  EMPTY_TRANSLATION_RESULT: 'Hasil terjemahan tidak diperoleh',
+  THROTTLING_ERROR: 'Terlalu banyak permintaan ke layanan terjemahan',
+  SERVICE_UNAVAILABLE: 'Layanan terjemahan untuk sementara tidak tersedia',
+  CIRCUIT_OPEN: 'Layanan terjemahan untuk sementara dihentikan',
+  TRANSLATION_BUDGET_EXCEEDED: 'Anggaran terjemahan bulanan telah terlampaui',
+  INVALID_USAGE_PERIOD: 'Periode laporan penggunaan tidak valid (maksimal 92 hari)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Periode statistik cache tidak valid (maksimal 92 hari)',
+  GLOSSARY_TERM_EXISTS: 'Istilah ini sudah ada di glosarium',
+  GLOSSARY_TERM_NOT_FOUND: 'Entri glosarium tidak ditemukan',
+  TRANSLATION_JOB_NOT_FOUND: 'Tugas terjemahan tidak ditemukan',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'Tugas terjemahan yang sudah selesai tidak dapat dibatalkan',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'Entri cache terjemahan tidak ditemukan',
+  CACHE_WARMUP_IN_PROGRESS: 'Pemanasan cache sedang berjalan',
+  CACHE_WARMUP_NOT_FOUND: 'Pemanasan cache tidak ditemukan',
+  INVALID_CACHE_AUDIT_QUERY: 'Kueri log audit tidak valid',
+  INVALID_CACHE_ENTRY_FILTER: 'Filter entri cache tidak valid',
+  CACHE_INVALIDATION_NOT_FOUND: 'Invalidasi cache tidak ditemukan',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'Invalidasi cache sudah dibatalkan',
+  INVALID_CACHE_IMPORT_REQUEST: 'Permintaan impor cache tidak valid',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'Usulan koreksi tidak ditemukan',
+  TRANSLATION_CORRECTION_UNCHANGED: 'Terjemahan yang dikoreksi sama dengan terjemahan saat ini',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'Usulan koreksi sudah ditinjau',
+  TRANSLATION_ERROR: 'Terjadi kesalahan saat menerjemahkan',
+  REQUEST_ABORTED: 'Permintaan dihentikan sehingga teks tidak diterjemahkan',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'Kolom ini wajib diisi',
+  VALIDATION_EMPTY: 'Tidak boleh kosong',
+  VALIDATION_NOT_STRING: 'Harus berupa string',
+  VALIDATION_NOT_BOOLEAN: 'Harus berupa nilai boolean',
+  VALIDATION_NOT_NUMBER: 'Harus berupa angka',
+  VALIDATION_NOT_ARRAY: 'Harus berupa array',
+  VALIDATION_NOT_OBJECT: 'Harus berupa objek',
+  VALIDATION_TOO_LONG: 'Maksimal {limit} karakter',
+  VALIDATION_TOO_MANY_ITEMS: 'Maksimal {limit} item',
+  VALIDATION_TOO_SMALL: 'Minimal {limit}',
+  VALIDATION_TOO_LARGE: 'Maksimal {limit}',
+  VALIDATION_INVALID_VALUE: 'Harus salah satu dari: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Bahasa tidak didukung: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Harus berupa array kode bahasa atau "all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'Bahasa tujuan wajib diisi jika terjemahan ditentukan',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Tentukan terjemahan atau atur doNotTranslate ke true',
+  VALIDATION_BODY_NOT_OBJECT: 'Isi permintaan harus berupa objek JSON',
+  VALIDATION_ITEM: 'Indeks {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'Teks yang akan diterjemahkan wajib diisi',
+  INVALID_INPUT_TEXTS: 'Array teks yang akan diterjemahkan wajib diisi',
+  INVALID_INPUT_DETECTION: 'Teks untuk deteksi bahasa wajib diisi',
+  INVALID_TARGET_LANGUAGE: 'Bahasa tujuan wajib diisi',
+  TOO_MANY_TEXTS: 'Terjemahan batch mendukung paling banyak {max} teks',
+  BATCH_TRANSLATION_ERROR: 'Terjadi kesalahan saat terjemahan batch',
+  LANGUAGE_DETECTION_ERROR: 'Terjadi kesalahan saat mendeteksi bahasa',
+  LANGUAGE_LIST_ERROR: 'Terjadi kesalahan saat mengambil daftar bahasa yang didukung',
+  HEALTH_CHECK_ERROR: 'Terjadi kesalahan saat pemeriksaan kesehatan',
+  GLOSSARY_RETRIEVAL_ERROR: 'Gagal mengambil glosarium',
+  GLOSSARY_SAVE_ERROR: 'Gagal menyimpan entri glosarium',
+  GLOSSARY_DELETE_ERROR: 'Gagal menghapus entri glosarium',
+  TRANSLATION_JOB_CREATE_ERROR: 'Gagal membuat tugas terjemahan',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'Gagal mengambil tugas terjemahan',
+  TRANSLATION_JOB_CANCEL_ERROR: 'Gagal membatalkan tugas terjemahan',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'Gagal mengambil usulan koreksi',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'Gagal mengirim usulan koreksi',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'Gagal meninjau usulan koreksi',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'Gagal mengambil data penggunaan terjemahan',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'Gagal mengatur anggaran terjemahan',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'Parameter wajib tidak lengkap',
+  CACHE_STATISTICS_ERROR: 'Gagal mengambil statistik cache',
+  CACHE_RETRIEVAL_ERROR: 'Gagal mengambil entri cache',
+  CACHE_DELETE_ERROR: 'Gagal menghapus entri cache',
+  CACHE_CLEANUP_ERROR: 'Gagal membersihkan cache',
+  CACHE_CLEAR_ERROR: 'Gagal mengosongkan seluruh cache',
+  CONFIG_RETRIEVAL_ERROR: 'Gagal mengambil konfigurasi cache',
+  CACHE_WARMUP_ERROR: 'Gagal memanaskan cache',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'Gagal mengambil log audit',
+  CACHE_INVALIDATION_ERROR: 'Gagal menginvalidasi entri cache',
+  CACHE_EXPORT_ERROR: 'Gagal mengekspor cache',
+  CACHE_IMPORT_ERROR: 'Gagal mengimpor cache',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'Permintaan berisi nilai yang tidak valid',
+  REQUEST_TOO_LARGE: 'Permintaan terlalu besar (maksimal 1 MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type harus application/json',
+  RATE_LIMIT_EXCEEDED: 'Terlalu banyak permintaan. Tunggu sebentar lalu coba lagi',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'Header Authorization wajib diisi',
+  INVALID_AUTH_FORMAT: 'Format Authorization tidak valid (Bearer <token>)',
+  AUTH_ERROR: 'Autentikasi gagal',
+  TOKEN_EXPIRED: 'Token telah kedaluwarsa',
+  INVALID_TOKEN: 'Token tidak valid',
+  AUTHENTICATION_REQUIRED: 'Autentikasi diperlukan',
+  INSUFFICIENT_PERMISSIONS: 'Diperlukan hak akses administrator',
+
+  UNKNOWN_ERROR: 'Terjadi kesalahan yang tidak diketahui'
+};
@@ -0,0 +1,55 @@
+import { SupportedLanguage } from '../../types/translation';
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+import { ja } from './ja';
+import { en } from './en';
+import { zh } from './zh';
+import { zhTW } from './zh-TW';
+import { ko } from './ko';
+import { es } from './es';
+import { fr } from './fr';
+import { de } from './de';
+import { it } from './it';
+import { pt } from './pt';
+import { ru } from './ru';
+import { ar } from './ar';
+import { hi } from './hi';
+import { vi } from './vi';
+import { th } from './th';
+import { id } from './id';
+import { tr } from './tr';
+import { nl } from './nl';
+import { pl } from './pl';
+import { uk } from './uk';
+
+/**
+ * 言語ごとのエラーメッセージカタログ
+ * 言語レジストリのローカル定義のすべての言語（無効化されている言語を含む）を揃える
+ * Parameter Store で追加した言語など、カタログのない言語は DEFAULT_ERROR_LOCALE のメッセージを返す
+ */
+export const ERROR_MESSAGE_CATALOGS: Record<SupportedLanguage, ErrorMessageCatalog> = {
+  ja,
+  en,
+  zh,
+  'zh-TW': zhTW,
+  ko,
+  es,
+  fr,
+  de,
+  it,
+  pt,
+  ru,
+  ar,
+  hi,
+  vi,
+  th,
+  id,
+  tr,
+  nl,
+  pl,
+  uk
+};
+
+/**
+ * リクエストから言語を決定できない場合のエラーメッセージの言語
+ */
+export const DEFAULT_ERROR_LOCALE: SupportedLanguage = 'ja';
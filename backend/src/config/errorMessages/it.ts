@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（イタリア語）
+ */
+export const it: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'Non è stato inserito alcun testo',
+  TEXT_TOO_LONG: 'Il testo è troppo lungo',
+  MISSING_TARGET_LANGUAGE: 'Non è stata specificata la lingua di destinazione',
+  UNSUPPORTED_LANGUAGE_PAIR: 'Questa combinazione di lingue non è supportata',
+  LANGUAGE_DETECTION_FAILED: 'Impossibile rilevare la lingua. Specifica la lingua di origine',
+  TRANSLATION_SERVICE_ERROR: 'Si è verificato un errore nel servizio di traduzione',
+  DETECTION_SERVICE_ERROR: 'Si è verificato un errore nel servizio di rilevamento della lingua',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'Il testo supera la dimensione massima',
+  EMPTY_TRANSLATION_RESULT: 'Non è stato restituito alcun risultato di traduzione',
+  THROTTLING_ERROR: 'Troppe richieste al servizio di traduzione',
+  SERVICE_UNAVAILABLE: 'Il servizio di traduzione non è temporaneamente disponibile',
+  CIRCUIT_OPEN: 'Il servizio di traduzione è temporaneamente sospeso',
+  TRANSLATION_BUDGET_EXCEEDED: 'Il budget mensile di traduzione è stato superato',
+  INVALID_USAGE_PERIOD: 'Il periodo del report di utilizzo non è valido (massimo 92 giorni)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Periodo delle statistiche della cache non valido (massimo 92 giorni)',
+  GLOSSARY_TERM_EXISTS: 'Questo termine è già presente nel glossario',
+  GLOSSARY_TERM_NOT_FOUND: 'Voce del glossario non trovata',
+  TRANSLATION_JOB_NOT_FOUND: 'Processo di traduzione non trovato',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'Un processo di traduzione terminato non può essere annullato',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'Voce della cache di traduzione non trovata',
+  CACHE_WARMUP_IN_PROGRESS: 'Un preriscaldamento della cache è già in corso',
+  CACHE_WARMUP_NOT_FOUND: 'Preriscaldamento della cache non trovato',
+  INVALID_CACHE_AUDIT_QUERY: 'Query del registro di controllo non valida',
+  INVALID_CACHE_ENTRY_FILTER: 'Filtro delle voci della cache non valido',
+  CACHE_INVALIDATION_NOT_FOUND: 'Invalidazione della cache non trovata',
+  CACHE_INVALIDATION_ALREADY_UNDONE: "L'invalidazione della cache è già stata annullata",
+  INVALID_CACHE_IMPORT_REQUEST: 'Richiesta di importazione della cache non valida',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'Proposta di correzione non trovata',
+  TRANSLATION_CORRECTION_UNCHANGED: 'La traduzione corretta è uguale alla traduzione attuale',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'La proposta di correzione è già stata esaminata',
+  TRANSLATION_ERROR: 'Si è verificato un errore durante la traduzione',
+  REQUEST_ABORTED: 'La richiesta è stata interrotta e il testo non è stato tradotto',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'Questo campo è obbligatorio',
+  VALIDATION_EMPTY: 'Non può essere vuoto',
+  VALIDATION_NOT_STRING: 'Deve essere una stringa',
+  VALIDATION_NOT_BOOLEAN: 'Deve essere un valore booleano',
+  VALIDATION_NOT_NUMBER: 'Deve essere un numero',
+  VALIDATION_NOT_ARRAY: 'Deve essere un array',
+  VALIDATION_NOT_OBJECT: 'Deve essere un oggetto',
+  VALIDATION_TOO_LONG: 'Deve contenere al massimo {limit} caratteri',
+  VALIDATION_TOO_MANY_ITEMS: 'Deve contenere al massimo {limit} elementi',
+  VALIDATION_TOO_SMALL: 'Deve essere almeno {limit}',
+  VALIDATION_TOO_LARGE: 'Deve essere al massimo {limit}',
+  VALIDATION_INVALID_VALUE: 'Deve essere uno dei seguenti valori: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Lingua non supportata: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Deve essere un array di codici lingua o "all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'Quando si specifica una traduzione è richiesta la lingua di destinazione',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Specifica una traduzione o imposta doNotTranslate su true',
+  VALIDATION_BODY_NOT_OBJECT: 'Il corpo della richiesta deve essere un oggetto JSON',
+  VALIDATION_ITEM: 'Indice {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'È richiesto il testo da tradurre',
+  INVALID_INPUT_TEXTS: 'È richiesto un array di testi da tradurre',
+  INVALID_INPUT_DETECTION: 'È richiesto il testo di cui rilevare la lingua',
+  INVALID_TARGET_LANGUAGE: 'È richiesta la lingua di destinazione',
+  TOO_MANY_TEXTS: 'La traduzione in batch accetta al massimo {max} testi',
+  BATCH_TRANSLATION_ERROR: 'Si è verificato un errore durante la traduzione in batch',
+  LANGUAGE_DETECTION_ERROR: 'Si è verificato un errore durante il rilevamento della lingua',
+  LANGUAGE_LIST_ERROR: 'Si è verificato un errore durante il recupero delle lingue supportate',
+  HEALTH_CHECK_ERROR: 'Si è verificato un errore durante il controllo dello stato',
+  GLOSSARY_RETRIEVAL_ERROR: 'Impossibile recuperare il glossario',
+  GLOSSARY_SAVE_ERROR: 'Impossibile salvare la voce del glossario',
+  GLOSSARY_DELETE_ERROR: 'Impossibile eliminare la voce del glossario',
+  TRANSLATION_JOB_CREATE_ERROR: 'Impossibile creare il processo di traduzione',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'Impossibile recuperare il processo di traduzione',
+  TRANSLATION_JOB_CANCEL_ERROR: 'Impossibile annullare il processo di traduzione',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'Impossibile recuperare le proposte di correzione',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'Impossibile inviare la proposta di correzione',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'Impossibile esaminare la proposta di correzione',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'Impossibile recuperare l’utilizzo della traduzione',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'Impossibile impostare il budget di traduzione',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'Mancano parametri obbligatori',
+  CACHE_STATISTICS_ERROR: 'Impossibile recuperare le statistiche della cache',
+  CACHE_RETRIEVAL_ERROR: 'Impossibile recuperare le voci della cache',
+  CACHE_DELETE_ERROR: 'Impossibile eliminare la voce della cache',
+  CACHE_CLEANUP_ERROR: 'Impossibile pulire la cache',
+  CACHE_CLEAR_ERROR: 'Impossibile svuotare l’intera cache',
+  CONFIG_RETRIEVAL_ERROR: 'Impossibile recuperare la configurazione della cache',
+  CACHE_WARMUP_ERROR: 'Impossibile preriscaldare la cache',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'Impossibile recuperare il registro di controllo',
+  CACHE_INVALIDATION_ERROR: 'Impossibile invalidare le voci della cache',
+  CACHE_EXPORT_ERROR: 'Impossibile esportare la cache',
+  CACHE_IMPORT_ERROR: 'Impossibile importare la cache',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'La richiesta contiene valori non validi',
+  REQUEST_TOO_LARGE: 'La richiesta è troppo grande (massimo 1 MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type deve essere application/json',
+  RATE_LIMIT_EXCEEDED: 'Troppe richieste. Attendi un momento e riprova',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'L’intestazione Authorization è obbligatoria',
+  INVALID_AUTH_FORMAT: 'Formato Authorization non valido (Bearer <token>)',
+  AUTH_ERROR: 'Autenticazione non riuscita',
+  TOKEN_EXPIRED: 'Il token è scaduto',
+  INVALID_TOKEN: 'Il token non è valido',
+  AUTHENTICATION_REQUIRED: 'È richiesta l’autenticazione',
+  INSUFFICIENT_PERMISSIONS: 'Sono richiesti i privilegi di amministratore',
+
+  UNKNOWN_ERROR: 'Si è verificato un errore sconosciuto'
+};
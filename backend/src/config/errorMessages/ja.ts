@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（日本語）
+ */
+export const ja: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'テキストが入力されていません',
+  TEXT_TOO_LONG: 'テキストが長すぎます',
+  MISSING_TARGET_LANGUAGE: '翻訳先の言語が指定されていません',
+  UNSUPPORTED_LANGUAGE_PAIR: 'サポートされていない言語の組み合わせです',
+  LANGUAGE_DETECTION_FAILED: '言語の自動検出に失敗しました。翻訳元言語を指定してください',
+  TRANSLATION_SERVICE_ERROR: '翻訳サービスでエラーが発生しました',
+  DETECTION_SERVICE_ERROR: '言語検出サービスでエラーが発生しました',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'テキストサイズが制限を超えています',
+  EMPTY_TRANSLATION_RESULT: '翻訳結果が取得できませんでした',
+  THROTTLING_ERROR: '翻訳サービスへのリクエストが多すぎます',
+  SERVICE_UNAVAILABLE: '翻訳サービスが一時的に利用できません',
+  CIRCUIT_OPEN: '翻訳サービスが一時的に停止しています',
+  TRANSLATION_BUDGET_EXCEEDED: '翻訳の月間予算を超えています',
+  INVALID_USAGE_PERIOD: '使用量レポートの期間が無効です（最大92日）',
+  INVALID_CACHE_STATISTICS_PERIOD: 'キャッシュ統計の期間が無効です（最大92日）',
+  GLOSSARY_TERM_EXISTS: '同じ用語がすでに用語集に登録されています',
+  GLOSSARY_TERM_NOT_FOUND: '用語集エントリが見つかりません',
+  TRANSLATION_JOB_NOT_FOUND: '翻訳ジョブが見つかりません',
+  TRANSLATION_JOB_NOT_CANCELLABLE: '終了した翻訳ジョブはキャンセルできません',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: '翻訳キャッシュのエントリが見つかりません',
+  CACHE_WARMUP_IN_PROGRESS: 'キャッシュのウォームアップはすでに実行中です',
+  CACHE_WARMUP_NOT_FOUND: 'キャッシュのウォームアップが見つかりません',
+  INVALID_CACHE_AUDIT_QUERY: '監査ログの検索条件が無効です',
+  INVALID_CACHE_ENTRY_FILTER: 'キャッシュエントリの検索条件が無効です',
+  CACHE_INVALIDATION_NOT_FOUND: 'キャッシュの一括無効化が見つかりません',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'キャッシュの一括無効化はすでに取り消されています',
+  INVALID_CACHE_IMPORT_REQUEST: 'キャッシュの取り込みのリクエストが無効です',
+  TRANSLATION_CORRECTION_NOT_FOUND: '修正提案が見つかりません',
+  TRANSLATION_CORRECTION_UNCHANGED: '修正後の翻訳が現在の翻訳と同じです',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: '修正提案はすでに審査されています',
+  TRANSLATION_ERROR: '翻訳中にエラーが発生しました',
+  REQUEST_ABORTED: 'リクエストが中断されたため翻訳しませんでした',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: '必須項目です',
+  VALIDATION_EMPTY: '空にできません',
+  VALIDATION_NOT_STRING: '文字列である必要があります',
+  VALIDATION_NOT_BOOLEAN: 'boolean値である必要があります',
+  VALIDATION_NOT_NUMBER: '数値である必要があります',
+  VALIDATION_NOT_ARRAY: '配列である必要があります',
+  VALIDATION_NOT_OBJECT: 'オブジェクトである必要があります',
+  VALIDATION_TOO_LONG: '{limit}文字以下である必要があります',
+  VALIDATION_TOO_MANY_ITEMS: '最大{limit}件までです',
+  VALIDATION_TOO_SMALL: '{limit}以上である必要があります',
+  VALIDATION_TOO_LARGE: '{limit}以下である必要があります',
+  VALIDATION_INVALID_VALUE: '次のいずれかである必要があります: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'サポートされていない言語です: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: '言語コードの配列または"all"である必要があります',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: '訳語を指定する場合は翻訳先言語が必要です',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: '訳語を指定するか、doNotTranslateをtrueにしてください',
+  VALIDATION_BODY_NOT_OBJECT: 'リクエストボディはJSONオブジェクトである必要があります',
+  VALIDATION_ITEM: 'インデックス{index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: '翻訳対象のテキストが必要です',
+  INVALID_INPUT_TEXTS: '翻訳対象のテキスト配列が必要です',
+  INVALID_INPUT_DETECTION: '言語検出対象のテキストが必要です',
+  INVALID_TARGET_LANGUAGE: '翻訳先言語が必要です',
+  TOO_MANY_TEXTS: 'バッチ翻訳は最大{max}件までです',
+  BATCH_TRANSLATION_ERROR: 'バッチ翻訳中にエラーが発生しました',
+  LANGUAGE_DETECTION_ERROR: '言語検出中にエラーが発生しました',
+  LANGUAGE_LIST_ERROR: 'サポート言語の取得中にエラーが発生しました',
+  HEALTH_CHECK_ERROR: 'ヘルスチェック中にエラーが発生しました',
+  GLOSSARY_RETRIEVAL_ERROR: '用語集の取得に失敗しました',
+  GLOSSARY_SAVE_ERROR: '用語集エントリの保存に失敗しました',
+  GLOSSARY_DELETE_ERROR: '用語集エントリの削除に失敗しました',
+  TRANSLATION_JOB_CREATE_ERROR: '翻訳ジョブの作成に失敗しました',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: '翻訳ジョブの取得に失敗しました',
+  TRANSLATION_JOB_CANCEL_ERROR: '翻訳ジョブのキャンセルに失敗しました',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: '修正提案の取得に失敗しました',
+  TRANSLATION_CORRECTION_CREATE_ERROR: '修正の提案に失敗しました',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: '修正提案の審査に失敗しました',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: '翻訳使用量の取得に失敗しました',
+  TRANSLATION_BUDGET_UPDATE_ERROR: '翻訳予算の設定に失敗しました',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: '必要なパラメータが不足しています',
+  CACHE_STATISTICS_ERROR: 'キャッシュ統計情報の取得に失敗しました',
+  CACHE_RETRIEVAL_ERROR: 'キャッシュエントリの取得に失敗しました',
+  CACHE_DELETE_ERROR: 'キャッシュエントリの削除に失敗しました',
+  CACHE_CLEANUP_ERROR: 'キャッシュのクリーンアップに失敗しました',
+  CACHE_CLEAR_ERROR: '全キャッシュのクリアに失敗しました',
+  CONFIG_RETRIEVAL_ERROR: 'キャッシュ設定の取得に失敗しました',
+  CACHE_WARMUP_ERROR: 'キャッシュのウォームアップに失敗しました',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: '監査ログの取得に失敗しました',
+  CACHE_INVALIDATION_ERROR: 'キャッシュの一括無効化に失敗しました',
+  CACHE_EXPORT_ERROR: 'キャッシュの書き出しに失敗しました',
+  CACHE_IMPORT_ERROR: 'キャッシュの取り込みに失敗しました',
+
+  // リクエスト共通
+  VALIDATION_ERROR: '入力値に問題があります',
+  REQUEST_TOO_LARGE: 'リクエストサイズが大きすぎます（最大1MB）',
+  INVALID_CONTENT_TYPE: 'Content-Typeはapplication/jsonである必要があります',
+  RATE_LIMIT_EXCEEDED: 'リクエスト数が制限を超えました。しばらく待ってから再試行してください',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'Authorizationヘッダーが必要です',
+  INVALID_AUTH_FORMAT: 'Authorization形式が正しくありません（Bearer <token>）',
+  AUTH_ERROR: '認証に失敗しました',
+  TOKEN_EXPIRED: 'トークンの有効期限が切れています',
+  INVALID_TOKEN: 'トークンが無効です',
+  AUTHENTICATION_REQUIRED: '認証が必要です',
+  INSUFFICIENT_PERMISSIONS: '管理者権限が必要です',
+
+  UNKNOWN_ERROR: '不明なエラーが発生しました'
+};
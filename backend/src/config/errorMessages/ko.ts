@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（韓国語）
+ */
+export const ko: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: '텍스트가 입력되지 않았습니다',
+  TEXT_TOO_LONG: '텍스트가 너무 깁니다',
+  MISSING_TARGET_LANGUAGE: '번역할 언어가 지정되지 않았습니다',
+  UNSUPPORTED_LANGUAGE_PAIR: '지원되지 않는 언어 조합입니다',
+  LANGUAGE_DETECTION_FAILED: '언어를 자동으로 감지하지 못했습니다. 원본 언어를 지정해 주세요',
+  TRANSLATION_SERVICE_ERROR: '번역 서비스에서 오류가 발생했습니다',
+  DETECTION_SERVICE_ERROR: '언어 감지 서비스에서 오류가 발생했습니다',
+  TEXT_SIZE_LIMIT_EXCEEDED: '텍스트 크기가 제한을 초과했습니다',
+  EMPTY_TRANSLATION_RESULT: '번역 결과를 가져오지 못했습니다',
+  THROTTLING_ERROR: '번역 서비스에 대한 요청이 너무 많습니다',
+  SERVICE_UNAVAILABLE: '번역 서비스를 일시적으로 사용할 수 없습니다',
+  CIRCUIT_OPEN: '번역 서비스가 일시적으로 중지되었습니다',
+  TRANSLATION_BUDGET_EXCEEDED: '월간 번역 예산을 초과했습니다',
+  INVALID_USAGE_PERIOD: '사용량 보고서의 기간이 올바르지 않습니다(최대 92일)',
+  INVALID_CACHE_STATISTICS_PERIOD: '캐시 통계 기간이 잘못되었습니다(최대 92일)',
+  GLOSSARY_TERM_EXISTS: '같은 용어가 이미 용어집에 등록되어 있습니다',
+  GLOSSARY_TERM_NOT_FOUND: '용어집 항목을 찾을 수 없습니다',
+  TRANSLATION_JOB_NOT_FOUND: '번역 작업을 찾을 수 없습니다',
+  TRANSLATION_JOB_NOT_CANCELLABLE: '종료된 번역 작업은 취소할 수 없습니다',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: '번역 캐시 항목을 찾을 수 없습니다',
+  CACHE_WARMUP_IN_PROGRESS: '캐시 워밍업이 이미 실행 중입니다',
+  CACHE_WARMUP_NOT_FOUND: '캐시 워밍업을 찾을 수 없습니다',
+  INVALID_CACHE_AUDIT_QUERY: '감사 로그 검색 조건이 올바르지 않습니다',
+  INVALID_CACHE_ENTRY_FILTER: '캐시 항목 검색 조건이 올바르지 않습니다',
+  CACHE_INVALIDATION_NOT_FOUND: '캐시 일괄 무효화를 찾을 수 없습니다',
+  CACHE_INVALIDATION_ALREADY_UNDONE: '캐시 일괄 무효화가 이미 취소되었습니다',
+  INVALID_CACHE_IMPORT_REQUEST: '캐시 가져오기 요청이 올바르지 않습니다',
+  TRANSLATION_CORRECTION_NOT_FOUND: '수정 제안을 찾을 수 없습니다',
+  TRANSLATION_CORRECTION_UNCHANGED: '수정한 번역이 현재 번역과 같습니다',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: '이미 검토된 수정 제안입니다',
+  TRANSLATION_ERROR: '번역 중 오류가 발생했습니다',
+  REQUEST_ABORTED: '요청이 중단되어 번역하지 않았습니다',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: '필수 항목입니다',
+  VALIDATION_EMPTY: '비워 둘 수 없습니다',
+  VALIDATION_NOT_STRING: '문자열이어야 합니다',
+  VALIDATION_NOT_BOOLEAN: 'boolean 값이어야 합니다',
+  VALIDATION_NOT_NUMBER: '숫자여야 합니다',
+  VALIDATION_NOT_ARRAY: '배열이어야 합니다',
+  VALIDATION_NOT_OBJECT: '객체여야 합니다',
+  VALIDATION_TOO_LONG: '{limit}자 이하여야 합니다',
+  VALIDATION_TOO_MANY_ITEMS: '최대 {limit}개까지입니다',
+  VALIDATION_TOO_SMALL: '{limit} 이상이어야 합니다',
+  VALIDATION_TOO_LARGE: '{limit} 이하여야 합니다',
+  VALIDATION_INVALID_VALUE: '다음 중 하나여야 합니다: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: '지원되지 않는 언어입니다: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: '언어 코드 배열 또는 "all"이어야 합니다',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: '번역어를 지정하는 경우 번역할 언어가 필요합니다',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: '번역어를 지정하거나 doNotTranslate를 true로 설정해 주세요',
+  VALIDATION_BODY_NOT_OBJECT: '요청 본문은 JSON 객체여야 합니다',
+  VALIDATION_ITEM: '인덱스 {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: '번역할 텍스트가 필요합니다',
+  INVALID_INPUT_TEXTS: '번역할 텍스트 배열이 필요합니다',
+  INVALID_INPUT_DETECTION: '언어를 감지할 텍스트가 필요합니다',
+  INVALID_TARGET_LANGUAGE: '번역할 언어가 필요합니다',
+  TOO_MANY_TEXTS: '일괄 번역은 최대 {max}건까지 가능합니다',
+  BATCH_TRANSLATION_ERROR: '일괄 번역 중 오류가 발생했습니다',
+  LANGUAGE_DETECTION_ERROR: '언어 감지 중 오류가 발생했습니다',
+  LANGUAGE_LIST_ERROR: '지원 언어를 가져오는 중 오류가 발생했습니다',
+  HEALTH_CHECK_ERROR: '상태 확인 중 오류가 발생했습니다',
+  GLOSSARY_RETRIEVAL_ERROR: '용어집을 가져오지 못했습니다',
+  GLOSSARY_SAVE_ERROR: '용어집 항목을 저장하지 못했습니다',
+  GLOSSARY_DELETE_ERROR: '용어집 항목을 삭제하지 못했습니다',
+  TRANSLATION_JOB_CREATE_ERROR: '번역 작업을 만들지 못했습니다',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: '번역 작업을 가져오지 못했습니다',
+  TRANSLATION_JOB_CANCEL_ERROR: '번역 작업을 취소하지 못했습니다',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: '수정 제안을 가져오지 못했습니다',
+  TRANSLATION_CORRECTION_CREATE_ERROR: '수정 제안을 제출하지 못했습니다',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: '수정 제안을 검토하지 못했습니다',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: '번역 사용량을 가져오지 못했습니다',
+  TRANSLATION_BUDGET_UPDATE_ERROR: '번역 예산을 설정하지 못했습니다',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: '필요한 매개변수가 부족합니다',
+  CACHE_STATISTICS_ERROR: '캐시 통계를 가져오지 못했습니다',
+  CACHE_RETRIEVAL_ERROR: '캐시 항목을 가져오지 못했습니다',
+  CACHE_DELETE_ERROR: '캐시 항목을 삭제하지 못했습니다',
+  CACHE_CLEANUP_ERROR: '캐시를 정리하지 못했습니다',
+  CACHE_CLEAR_ERROR: '전체 캐시를 지우지 못했습니다',
+  CONFIG_RETRIEVAL_ERROR: '캐시 설정을 가져오지 못했습니다',
+  CACHE_WARMUP_ERROR: '캐시 워밍업에 실패했습니다',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: '감사 로그를 가져오지 못했습니다',
+  CACHE_INVALIDATION_ERROR: '캐시 일괄 무효화에 실패했습니다',
+  CACHE_EXPORT_ERROR: '캐시를 내보내지 못했습니다',
+  CACHE_IMPORT_ERROR: '캐시를 가져오지 못했습니다',
+
+  // リクエスト共通
+  VALIDATION_ERROR: '입력값에 문제가 있습니다',
+  REQUEST_TOO_LARGE: '요청 크기가 너무 큽니다(최대 1MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type은 application/json이어야 합니다',
+  RATE_LIMIT_EXCEEDED: '요청 수가 제한을 초과했습니다. 잠시 후 다시 시도해 주세요',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'Authorization 헤더가 필요합니다',
+  INVALID_AUTH_FORMAT: 'Authorization 형식이 올바르지 않습니다(Bearer <token>)',
+  AUTH_ERROR: '인증에 실패했습니다',
+  TOKEN_EXPIRED: '토큰이 만료되었습니다',
+  INVALID_TOKEN: '토큰이 유효하지 않습니다',
+  AUTHENTICATION_REQUIRED: '인증이 필요합니다',
+  INSUFFICIENT_PERMISSIONS: '관리자 권한이 필요합니다',
+
+  UNKNOWN_ERROR: '알 수 없는 오류가 발생했습니다'
+};
@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（オランダ語）
+ */
+export const nl: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'Er is geen tekst ingevoerd',
+  TEXT_TOO_LONG: 'De tekst is te lang',
+  MISSING_TARGET_LANGUAGE: 'Er is geen doeltaal opgegeven',
+  UNSUPPORTED_LANGUAGE_PAIR: 'Deze taalcombinatie wordt niet ondersteund',
+  LANGUAGE_DETECTION_FAILED: 'De taal kon niet worden herkend. Geef de brontaal op',
+  TRANSLATION_SERVICE_ERROR: 'Er is een fout opgetreden in de vertaaldienst',
+  DETECTION_SERVICE_ERROR: 'Er is een fout opgetreden in de taalherkenningsdienst',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'De tekst overschrijdt de maximale grootte',
+  EMPTY_TRANSLATION_RESULT: 'Er is geen vertaalresultaat ontvangen',
+  THROTTLING_ERROR: 'Te veel verzoeken aan de vertaaldienst',
+  SERVICE_UNAVAILABLE: 'De vertaaldienst is tijdelijk niet beschikbaar',
+  CIRCUIT_OPEN: 'De vertaaldienst is tijdelijk stopgezet',
+  TRANSLATION_BUDGET_EXCEEDED: 'Het maandelijkse vertaalbudget is overschreden',
+  INVALID_USAGE_PERIOD: 'De periode van het gebruiksrapport is ongeldig (maximaal 92 dagen)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Ongeldige periode voor cachestatistieken (maximaal 92 dagen)',
+  GLOSSARY_TERM_EXISTS: 'Deze term staat al in de woordenlijst',
+  GLOSSARY_TERM_NOT_FOUND: 'Het item in de woordenlijst is niet gevonden',
+  TRANSLATION_JOB_NOT_FOUND: 'De vertaaltaak is niet gevonden',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'Een voltooide vertaaltaak kan niet worden geannuleerd',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'Het item in de vertaalcache is niet gevonden',
+  CACHE_WARMUP_IN_PROGRESS: 'Er wordt al een cache-opwarming uitgevoerd',
+  CACHE_WARMUP_NOT_FOUND: 'De cache-opwarming is niet gevonden',
+  INVALID_CACHE_AUDIT_QUERY: 'Ongeldige zoekopdracht voor het auditlogboek',
+  INVALID_CACHE_ENTRY_FILTER: 'Ongeldig filter voor cachevermeldingen',
+  CACHE_INVALIDATION_NOT_FOUND: 'De cache-invalidatie is niet gevonden',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'De cache-invalidatie is al ongedaan gemaakt',
+  INVALID_CACHE_IMPORT_REQUEST: 'Ongeldig verzoek om de cache te importeren',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'Het correctievoorstel is niet gevonden',
+  TRANSLATION_CORRECTION_UNCHANGED: 'De gecorrigeerde vertaling is gelijk aan de huidige vertaling',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'Het correctievoorstel is al beoordeeld',
+  TRANSLATION_ERROR: 'Er is een fout opgetreden tijdens het vertalen',
+  REQUEST_ABORTED: 'Het verzoek is afgebroken, de tekst is niet vertaald',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'Dit veld is verplicht',
+  VALIDATION_EMPTY: 'Mag niet leeg zijn',
+  VALIDATION_NOT_STRING: 'Moet een tekenreeks zijn',
+  VALIDATION_NOT_BOOLEAN: 'Moet een booleaanse waarde zijn',
+  VALIDATION_NOT_NUMBER: 'Moet een getal zijn',
+  VALIDATION_NOT_ARRAY: 'Moet een array zijn',
+  VALIDATION_NOT_OBJECT: 'Moet een object zijn',
+  VALIDATION_TOO_LONG: 'Mag maximaal {limit} tekens bevatten',
+  VALIDATION_TOO_MANY_ITEMS: 'Mag maximaal {limit} items bevatten',
+  VALIDATION_TOO_SMALL: 'Moet minimaal {limit} zijn',
+  VALIDATION_TOO_LARGE: 'Mag maximaal {limit} zijn',
+  VALIDATION_INVALID_VALUE: 'Moet een van de volgende waarden zijn: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Niet-ondersteunde taal: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Moet een array van taalcodes of "all" zijn',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'Een doeltaal is verplicht wanneer een vertaling is opgegeven',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Geef een vertaling op of stel doNotTranslate in op true',
+  VALIDATION_BODY_NOT_OBJECT: 'De body van het verzoek moet een JSON-object zijn',
+  VALIDATION_ITEM: 'Index {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'De te vertalen tekst is verplicht',
+  INVALID_INPUT_TEXTS: 'Een array met te vertalen teksten is verplicht',
+  INVALID_INPUT_DETECTION: 'De tekst voor taaldetectie is verplicht',
+  INVALID_TARGET_LANGUAGE: 'Een doeltaal is verplicht',
+  TOO_MANY_TEXTS: 'Batchvertaling ondersteunt maximaal {max} teksten',
+  BATCH_TRANSLATION_ERROR: 'Er is een fout opgetreden tijdens de batchvertaling',
+  LANGUAGE_DETECTION_ERROR: 'Er is een fout opgetreden tijdens de taalherkenning',
+  LANGUAGE_LIST_ERROR: 'Er is een fout opgetreden bij het ophalen van de ondersteunde talen',
+  HEALTH_CHECK_ERROR: 'Er is een fout opgetreden tijdens de statuscontrole',
+  GLOSSARY_RETRIEVAL_ERROR: 'De woordenlijst kon niet worden opgehaald',
+  GLOSSARY_SAVE_ERROR: 'Het item in de woordenlijst kon niet worden opgeslagen',
+  GLOSSARY_DELETE_ERROR: 'Het item in de woordenlijst kon niet worden verwijderd',
+  TRANSLATION_JOB_CREATE_ERROR: 'De vertaaltaak kon niet worden aangemaakt',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'De vertaaltaak kon niet worden opgehaald',
+  TRANSLATION_JOB_CANCEL_ERROR: 'De vertaaltaak kon niet worden geannuleerd',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'De correctievoorstellen konden niet worden opgehaald',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'Het correctievoorstel kon niet worden ingediend',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'Het correctievoorstel kon niet worden beoordeeld',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'Het vertaalgebruik kon niet worden opgehaald',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'Het vertaalbudget kon niet worden ingesteld',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'Verplichte parameters ontbreken',
+  CACHE_STATISTICS_ERROR: 'De cachestatistieken konden niet worden opgehaald',
+  CACHE_RETRIEVAL_ERROR: 'De cache-items konden niet worden opgehaald',
+  CACHE_DELETE_ERROR: 'Het cache-item kon niet worden verwijderd',
+  CACHE_CLEANUP_ERROR: 'De cache kon niet worden opgeschoond',
+  CACHE_CLEAR_ERROR: 'De volledige cache kon niet worden gewist',
+  CONFIG_RETRIEVAL_ERROR: 'De cacheconfiguratie kon niet worden opgehaald',
+  CACHE_WARMUP_ERROR: 'De cache kon niet worden opgewarmd',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'Het auditlogboek kon niet worden opgehaald',
+  CACHE_INVALIDATION_ERROR: 'Cachevermeldingen konden niet worden ongeldig gemaakt',
+  CACHE_EXPORT_ERROR: 'De cache kon niet worden geëxporteerd',
+  CACHE_IMPORT_ERROR: 'De cache kon niet worden geïmporteerd',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'Het verzoek bevat ongeldige waarden',
+  REQUEST_TOO_LARGE: 'Het verzoek is te groot (maximaal 1 MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type moet application/json zijn',
+  RATE_LIMIT_EXCEEDED: 'Te veel verzoeken. Wacht even en probeer het opnieuw',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'De Authorization-header is verplicht',
+  INVALID_AUTH_FORMAT: 'Ongeldig Authorization-formaat (Bearer <token>)',
+  AUTH_ERROR: 'Authenticatie mislukt',
+  TOKEN_EXPIRED: 'Het token is verlopen',
+  INVALID_TOKEN: 'Het token is ongeldig',
+  AUTHENTICATION_REQUIRED: 'Authenticatie is vereist',
+  INSUFFICIENT_PERMISSIONS: 'Beheerdersrechten zijn vereist',
+
+  UNKNOWN_ERROR: 'Er is een onbekende fout opgetreden'
+};
@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（ポーランド語）
+ */
+export const pl: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'Nie wprowadzono tekstu',
+  TEXT_TOO_LONG: 'Tekst jest za długi',
+  MISSING_TARGET_LANGUAGE: 'Nie określono języka docelowego',
+  UNSUPPORTED_LANGUAGE_PAIR: 'Ta kombinacja języków nie jest obsługiwana',
+  LANGUAGE_DETECTION_FAILED: 'Nie udało się rozpoznać języka. Określ język źródłowy',
+  TRANSLATION_SERVICE_ERROR: 'Wystąpił błąd usługi tłumaczenia',
+  DETECTION_SERVICE_ERROR: 'Wystąpił błąd usługi rozpoznawania języka',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'Tekst przekracza limit rozmiaru',
+  EMPTY_TRANSLATION_RESULT: 'Nie otrzymano wyniku tłumaczenia',
+  THROTTLING_ERROR: 'Zbyt wiele żądań do usługi tłumaczenia',
+  SERVICE_UNAVAILABLE: 'Usługa tłumaczenia jest tymczasowo niedostępna',
+  CIRCUIT_OPEN: 'Usługa tłumaczenia została tymczasowo wstrzymana',
+  TRANSLATION_BUDGET_EXCEEDED: 'Przekroczono miesięczny budżet tłumaczeń',
+  INVALID_USAGE_PERIOD: 'Nieprawidłowy okres raportu użycia (maksymalnie 92 dni)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Nieprawidłowy okres statystyk pamięci podręcznej (maksymalnie 92 dni)',
+  GLOSSARY_TERM_EXISTS: 'Ten termin jest już w glosariuszu',
+  GLOSSARY_TERM_NOT_FOUND: 'Nie znaleziono wpisu w glosariuszu',
+  TRANSLATION_JOB_NOT_FOUND: 'Nie znaleziono zadania tłumaczenia',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'Zakończonego zadania tłumaczenia nie można anulować',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'Nie znaleziono wpisu w pamięci podręcznej tłumaczeń',
+  CACHE_WARMUP_IN_PROGRESS: 'Rozgrzewanie pamięci podręcznej jest już w toku',
+  CACHE_WARMUP_NOT_FOUND: 'Nie znaleziono rozgrzewania pamięci podręcznej',
+  INVALID_CACHE_AUDIT_QUERY: 'Nieprawidłowe zapytanie o dziennik audytu',
+  INVALID_CACHE_ENTRY_FILTER: 'Nieprawidłowy filtr wpisów pamięci podręcznej',
+  CACHE_INVALIDATION_NOT_FOUND: 'Nie znaleziono unieważnienia pamięci podręcznej',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'Unieważnienie pamięci podręcznej zostało już cofnięte',
+  INVALID_CACHE_IMPORT_REQUEST: 'Nieprawidłowe żądanie importu pamięci podręcznej',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'Nie znaleziono propozycji poprawki',
+  TRANSLATION_CORRECTION_UNCHANGED: 'Poprawione tłumaczenie jest takie samo jak obecne',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'Propozycja poprawki została już rozpatrzona',
+  TRANSLATION_ERROR: 'Wystąpił błąd podczas tłumaczenia',
+  REQUEST_ABORTED: 'Żądanie zostało przerwane, więc tekst nie został przetłumaczony',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'To pole jest wymagane',
+  VALIDATION_EMPTY: 'Nie może być puste',
+  VALIDATION_NOT_STRING: 'Musi być ciągiem znaków',
+  VALIDATION_NOT_BOOLEAN: 'Musi być wartością logiczną',
+  VALIDATION_NOT_NUMBER: 'Musi być liczbą',
+  VALIDATION_NOT_ARRAY: 'Musi być tablicą',
+  VALIDATION_NOT_OBJECT: 'Musi być obiektem',
+  VALIDATION_TOO_LONG: 'Może mieć maksymalnie {limit} znaków',
+  VALIDATION_TOO_MANY_ITEMS: 'Może zawierać maksymalnie {limit} elementów',
+  VALIDATION_TOO_SMALL: 'Musi wynosić co najmniej {limit}',
+  VALIDATION_TOO_LARGE: 'Może wynosić maksymalnie {limit}',
+  VALIDATION_INVALID_VALUE: 'Musi być jedną z wartości: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Nieobsługiwany język: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Musi być tablicą kodów języków lub "all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'Język docelowy jest wymagany, gdy podano tłumaczenie',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Podaj tłumaczenie lub ustaw doNotTranslate na true',
+  VALIDATION_BODY_NOT_OBJECT: 'Treść żądania musi być obiektem JSON',
+  VALIDATION_ITEM: 'Indeks {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'Tekst do przetłumaczenia jest wymagany',
+  INVALID_INPUT_TEXTS: 'Wymagana jest tablica tekstów do przetłumaczenia',
+  INVALID_INPUT_DETECTION: 'Wymagany jest tekst do wykrycia języka',
+  INVALID_TARGET_LANGUAGE: 'Język docelowy jest wymagany',
+  TOO_MANY_TEXTS: 'Tłumaczenie wsadowe obsługuje maksymalnie {max} tekstów',
+  BATCH_TRANSLATION_ERROR: 'Wystąpił błąd podczas tłumaczenia wsadowego',
+  LANGUAGE_DETECTION_ERROR: 'Wystąpił błąd podczas rozpoznawania języka',
+  LANGUAGE_LIST_ERROR: 'Wystąpił błąd podczas pobierania obsługiwanych języków',
+  HEALTH_CHECK_ERROR: 'Wystąpił błąd podczas sprawdzania stanu',
+  GLOSSARY_RETRIEVAL_ERROR: 'Nie udało się pobrać glosariusza',
+  GLOSSARY_SAVE_ERROR: 'Nie udało się zapisać wpisu w glosariuszu',
+  GLOSSARY_DELETE_ERROR: 'Nie udało się usunąć wpisu z glosariusza',
+  TRANSLATION_JOB_CREATE_ERROR: 'Nie udało się utworzyć zadania tłumaczenia',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'Nie udało się pobrać zadania tłumaczenia',
+  TRANSLATION_JOB_CANCEL_ERROR: 'Nie udało się anulować zadania tłumaczenia',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'Nie udało się pobrać propozycji poprawek',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'Nie udało się przesłać propozycji poprawki',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'Nie udało się rozpatrzyć propozycji poprawki',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'Nie udało się pobrać danych o użyciu tłumaczeń',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'Nie udało się ustawić budżetu tłumaczeń',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'Brak wymaganych parametrów',
+  CACHE_STATISTICS_ERROR: 'Nie udało się pobrać statystyk pamięci podręcznej',
+  CACHE_RETRIEVAL_ERROR: 'Nie udało się pobrać wpisów pamięci podręcznej',
+  CACHE_DELETE_ERROR: 'Nie udało się usunąć wpisu pamięci podręcznej',
+  CACHE_CLEANUP_ERROR: 'Nie udało się wyczyścić pamięci podręcznej',
+  CACHE_CLEAR_ERROR: 'Nie udało się wyczyścić całej pamięci podręcznej',
+  CONFIG_RETRIEVAL_ERROR: 'Nie udało się pobrać konfiguracji pamięci podręcznej',
+  CACHE_WARMUP_ERROR: 'Nie udało się rozgrzać pamięci podręcznej',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'Nie udało się pobrać dziennika audytu',
+  CACHE_INVALIDATION_ERROR: 'Nie udało się unieważnić wpisów pamięci podręcznej',
+  CACHE_EXPORT_ERROR: 'Nie udało się wyeksportować pamięci podręcznej',
+  CACHE_IMPORT_ERROR: 'Nie udało się zaimportować pamięci podręcznej',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'Żądanie zawiera nieprawidłowe wartości',
+  REQUEST_TOO_LARGE: 'Żądanie jest za duże (maksymalnie 1 MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type musi mieć wartość application/json',
+  RATE_LIMIT_EXCEEDED: 'Zbyt wiele żądań. Odczekaj chwilę i spróbuj ponownie',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'Nagłówek Authorization jest wymagany',
+  INVALID_AUTH_FORMAT: 'Nieprawidłowy format Authorization (Bearer <token>)',
+  AUTH_ERROR: 'Uwierzytelnianie nie powiodło się',
+  TOKEN_EXPIRED: 'Token wygasł',
+  INVALID_TOKEN: 'Token jest nieprawidłowy',
+  AUTHENTICATION_REQUIRED: 'Wymagane jest uwierzytelnienie',
+  INSUFFICIENT_PERMISSIONS: 'Wymagane są uprawnienia administratora',
+
+  UNKNOWN_ERROR: 'Wystąpił nieznany błąd'
+};
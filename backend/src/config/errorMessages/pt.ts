@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（ポルトガル語）
+ */
+export const pt: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'Nenhum texto foi inserido',
+  TEXT_TOO_LONG: 'O texto é muito longo',
+  MISSING_TARGET_LANGUAGE: 'O idioma de destino não foi especificado',
+  UNSUPPORTED_LANGUAGE_PAIR: 'Esta combinação de idiomas não é suportada',
+  LANGUAGE_DETECTION_FAILED: 'Não foi possível detectar o idioma. Especifique o idioma de origem',
+  TRANSLATION_SERVICE_ERROR: 'Ocorreu um erro no serviço de tradução',
+  DETECTION_SERVICE_ERROR: 'Ocorreu um erro no serviço de detecção de idioma',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'O texto excede o tamanho máximo',
+  EMPTY_TRANSLATION_RESULT: 'Nenhum resultado de tradução foi retornado',
+  THROTTLING_ERROR: 'Muitas solicitações ao serviço de tradução',
+  SERVICE_UNAVAILABLE: 'O serviço de tradução está temporariamente indisponível',
+  CIRCUIT_OPEN: 'O serviço de tradução está temporariamente suspenso',
+  TRANSLATION_BUDGET_EXCEEDED: 'O orçamento mensal de tradução foi excedido',
+  INVALID_USAGE_PERIOD: 'O período do relatório de uso é inválido (máximo de 92 dias)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Período de estatísticas do cache inválido (máximo de 92 dias)',
+  GLOSSARY_TERM_EXISTS: 'Este termo já existe no glossário',
+  GLOSSARY_TERM_NOT_FOUND: 'Entrada do glossário não encontrada',
+  TRANSLATION_JOB_NOT_FOUND: 'Tarefa de tradução não encontrada',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'Uma tarefa de tradução finalizada não pode ser cancelada',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'Entrada do cache de tradução não encontrada',
+  CACHE_WARMUP_IN_PROGRESS: 'Já existe um pré-aquecimento do cache em execução',
+  CACHE_WARMUP_NOT_FOUND: 'Pré-aquecimento do cache não encontrado',
+  INVALID_CACHE_AUDIT_QUERY: 'Consulta do registro de auditoria inválida',
+  INVALID_CACHE_ENTRY_FILTER: 'Filtro de entradas do cache inválido',
+  CACHE_INVALIDATION_NOT_FOUND: 'Invalidação do cache não encontrada',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'A invalidação do cache já foi desfeita',
+  INVALID_CACHE_IMPORT_REQUEST: 'Solicitação de importação do cache inválida',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'Proposta de correção não encontrada',
+  TRANSLATION_CORRECTION_UNCHANGED: 'A tradução corrigida é igual à tradução atual',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'A proposta de correção já foi revisada',
+  TRANSLATION_ERROR: 'Ocorreu um erro durante a tradução',
+  REQUEST_ABORTED: 'A solicitação foi interrompida e o texto não foi traduzido',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'Este campo é obrigatório',
+  VALIDATION_EMPTY: 'Não pode estar vazio',
+  VALIDATION_NOT_STRING: 'Deve ser uma string',
+  VALIDATION_NOT_BOOLEAN: 'Deve ser um valor booleano',
+  VALIDATION_NOT_NUMBER: 'Deve ser um número',
+  VALIDATION_NOT_ARRAY: 'Deve ser um array',
+  VALIDATION_NOT_OBJECT: 'Deve ser um objeto',
+  VALIDATION_TOO_LONG: 'Deve ter no máximo {limit} caracteres',
+  VALIDATION_TOO_MANY_ITEMS: 'Deve conter no máximo {limit} itens',
+  VALIDATION_TOO_SMALL: 'Deve ser no mínimo {limit}',
+  VALIDATION_TOO_LARGE: 'Deve ser no máximo {limit}',
+  VALIDATION_INVALID_VALUE: 'Deve ser um dos seguintes valores: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Idioma não suportado: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Deve ser um array de códigos de idioma ou "all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'O idioma de destino é obrigatório quando uma tradução é especificada',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Especifique uma tradução ou defina doNotTranslate como true',
+  VALIDATION_BODY_NOT_OBJECT: 'O corpo da solicitação deve ser um objeto JSON',
+  VALIDATION_ITEM: 'Índice {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'O texto a ser traduzido é obrigatório',
+  INVALID_INPUT_TEXTS: 'É obrigatório um array de textos a serem traduzidos',
+  INVALID_INPUT_DETECTION: 'O texto para detecção de idioma é obrigatório',
+  INVALID_TARGET_LANGUAGE: 'O idioma de destino é obrigatório',
+  TOO_MANY_TEXTS: 'A tradução em lote aceita no máximo {max} textos',
+  BATCH_TRANSLATION_ERROR: 'Ocorreu um erro durante a tradução em lote',
+  LANGUAGE_DETECTION_ERROR: 'Ocorreu um erro durante a detecção de idioma',
+  LANGUAGE_LIST_ERROR: 'Ocorreu um erro ao obter os idiomas suportados',
+  HEALTH_CHECK_ERROR: 'Ocorreu um erro durante a verificação de integridade',
+  GLOSSARY_RETRIEVAL_ERROR: 'Não foi possível obter o glossário',
+  GLOSSARY_SAVE_ERROR: 'Não foi possível salvar a entrada do glossário',
+  GLOSSARY_DELETE_ERROR: 'Não foi possível excluir a entrada do glossário',
+  TRANSLATION_JOB_CREATE_ERROR: 'Não foi possível criar a tarefa de tradução',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'Não foi possível obter a tarefa de tradução',
+  TRANSLATION_JOB_CANCEL_ERROR: 'Não foi possível cancelar a tarefa de tradução',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'Não foi possível obter as propostas de correção',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'Não foi possível enviar a proposta de correção',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'Não foi possível revisar a proposta de correção',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'Não foi possível obter o uso de tradução',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'Não foi possível definir o orçamento de tradução',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'Parâmetros obrigatórios ausentes',
+  CACHE_STATISTICS_ERROR: 'Não foi possível obter as estatísticas do cache',
+  CACHE_RETRIEVAL_ERROR: 'Não foi possível obter as entradas do cache',
+  CACHE_DELETE_ERROR: 'Não foi possível excluir a entrada do cache',
+  CACHE_CLEANUP_ERROR: 'Não foi possível limpar o cache',
+  CACHE_CLEAR_ERROR: 'Não foi possível limpar todo o cache',
+  CONFIG_RETRIEVAL_ERROR: 'Não foi possível obter a configuração do cache',
+  CACHE_WARMUP_ERROR: 'Não foi possível pré-aquecer o cache',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'Não foi possível obter o registro de auditoria',
+  CACHE_INVALIDATION_ERROR: 'Não foi possível invalidar as entradas do cache',
+  CACHE_EXPORT_ERROR: 'Não foi possível exportar o cache',
+  CACHE_IMPORT_ERROR: 'Não foi possível importar o cache',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'A solicitação contém valores inválidos',
+  REQUEST_TOO_LARGE: 'A solicitação é muito grande (máximo de 1 MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type deve ser application/json',
+  RATE_LIMIT_EXCEEDED: 'Muitas solicitações. Aguarde um momento e tente novamente',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'O cabeçalho Authorization é obrigatório',
+  INVALID_AUTH_FORMAT: 'Formato de Authorization inválido (Bearer <token>)',
+  AUTH_ERROR: 'Falha na autenticação',
+  TOKEN_EXPIRED: 'O token expirou',
+  INVALID_TOKEN: 'O token é inválido',
+  AUTHENTICATION_REQUIRED: 'É necessária autenticação',
+  INSUFFICIENT_PERMISSIONS: 'São necessários privilégios de administrador',
+
+  UNKNOWN_ERROR: 'Ocorreu um erro desconhecido'
+};
@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（ロシア語）
+ */
+export const ru: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'Текст не введён',
+  TEXT_TOO_LONG: 'Текст слишком длинный',
+  MISSING_TARGET_LANGUAGE: 'Не указан язык перевода',
+  UNSUPPORTED_LANGUAGE_PAIR: 'Эта языковая пара не поддерживается',
+  LANGUAGE_DETECTION_FAILED: 'Не удалось определить язык. Укажите исходный язык',
+  TRANSLATION_SERVICE_ERROR: 'В сервисе перевода произошла ошибка',
+  DETECTION_SERVICE_ERROR: 'В сервисе определения языка произошла ошибка',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'Размер текста превышает допустимый',
+  EMPTY_TRANSLATION_RESULT: 'Не удалось получить результат перевода',
+  THROTTLING_ERROR: 'Слишком много запросов к сервису перевода',
+  SERVICE_UNAVAILABLE: 'Сервис перевода временно недоступен',
+  CIRCUIT_OPEN: 'Сервис перевода временно приостановлен',
+  TRANSLATION_BUDGET_EXCEEDED: 'Превышен месячный бюджет на перевод',
+  INVALID_USAGE_PERIOD: 'Недопустимый период отчёта об использовании (не более 92 дней)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Недопустимый период статистики кэша (не более 92 дней)',
+  GLOSSARY_TERM_EXISTS: 'Этот термин уже есть в глоссарии',
+  GLOSSARY_TERM_NOT_FOUND: 'Запись глоссария не найдена',
+  TRANSLATION_JOB_NOT_FOUND: 'Задание перевода не найдено',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'Завершённое задание перевода нельзя отменить',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'Запись кэша переводов не найдена',
+  CACHE_WARMUP_IN_PROGRESS: 'Прогрев кэша уже выполняется',
+  CACHE_WARMUP_NOT_FOUND: 'Прогрев кэша не найден',
+  INVALID_CACHE_AUDIT_QUERY: 'Недопустимый запрос журнала аудита',
+  INVALID_CACHE_ENTRY_FILTER: 'Недопустимый фильтр записей кэша',
+  CACHE_INVALIDATION_NOT_FOUND: 'Инвалидация кэша не найдена',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'Инвалидация кэша уже отменена',
+  INVALID_CACHE_IMPORT_REQUEST: 'Недопустимый запрос на импорт кэша',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'Предложение исправления не найдено',
+  TRANSLATION_CORRECTION_UNCHANGED: 'Исправленный перевод совпадает с текущим',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'Предложение исправления уже рассмотрено',
+  TRANSLATION_ERROR: 'При переводе произошла ошибка',
+  REQUEST_ABORTED: 'Запрос был прерван, текст не переведён',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'Обязательное поле',
+  VALIDATION_EMPTY: 'Не может быть пустым',
+  VALIDATION_NOT_STRING: 'Должно быть строкой',
+  VALIDATION_NOT_BOOLEAN: 'Должно быть логическим значением',
+  VALIDATION_NOT_NUMBER: 'Должно быть числом',
+  VALIDATION_NOT_ARRAY: 'Должно быть массивом',
+  VALIDATION_NOT_OBJECT: 'Должно быть объектом',
+  VALIDATION_TOO_LONG: 'Не более {limit} символов',
+  VALIDATION_TOO_MANY_ITEMS: 'Не более {limit} элементов',
+  VALIDATION_TOO_SMALL: 'Должно быть не меньше {limit}',
+  VALIDATION_TOO_LARGE: 'Должно быть не больше {limit}',
+  VALIDATION_INVALID_VALUE: 'Допустимые значения: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Неподдерживаемый язык: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Должно быть массивом кодов языков или "all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'Если указан перевод, необходимо указать язык перевода',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Укажите перевод или установите doNotTranslate в true',
+  VALIDATION_BODY_NOT_OBJECT: 'Тело запроса должно быть JSON-объектом',
+  VALIDATION_ITEM: 'Индекс {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'Требуется текст для перевода',
+  INVALID_INPUT_TEXTS: 'Требуется массив текстов для перевода',
+  INVALID_INPUT_DETECTION: 'Требуется текст для определения языка',
+  INVALID_TARGET_LANGUAGE: 'Требуется язык перевода',
+  TOO_MANY_TEXTS: 'Пакетный перевод поддерживает не более {max} текстов',
+  BATCH_TRANSLATION_ERROR: 'При пакетном переводе произошла ошибка',
+  LANGUAGE_DETECTION_ERROR: 'При определении языка произошла ошибка',
+  LANGUAGE_LIST_ERROR: 'При получении списка поддерживаемых языков произошла ошибка',
+  HEALTH_CHECK_ERROR: 'При проверке состояния произошла ошибка',
+  GLOSSARY_RETRIEVAL_ERROR: 'Не удалось получить глоссарий',
+  GLOSSARY_SAVE_ERROR: 'Не удалось сохранить запись глоссария',
+  GLOSSARY_DELETE_ERROR: 'Не удалось удалить запись глоссария',
+  TRANSLATION_JOB_CREATE_ERROR: 'Не удалось создать задание перевода',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'Не удалось получить задание перевода',
+  TRANSLATION_JOB_CANCEL_ERROR: 'Не удалось отменить задание перевода',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'Не удалось получить предложения исправлений',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'Не удалось отправить предложение исправления',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'Не удалось рассмотреть предложение исправления',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'Не удалось получить данные об использовании перевода',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'Не удалось задать бюджет на перевод',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'Отсутствуют обязательные параметры',
+  CACHE_STATISTICS_ERROR: 'Не удалось получить статистику кэша',
+  CACHE_RETRIEVAL_ERROR: 'Не удалось получить записи кэша',
+  CACHE_DELETE_ERROR: 'Не удалось удалить запись кэша',
+  CACHE_CLEANUP_ERROR: 'Не удалось очистить устаревшие записи кэша',
+  CACHE_CLEAR_ERROR: 'Не удалось полностью очистить кэш',
+  CONFIG_RETRIEVAL_ERROR: 'Не удалось получить настройки кэша',
+  CACHE_WARMUP_ERROR: 'Не удалось прогреть кэш',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'Не удалось получить журнал аудита',
+  CACHE_INVALIDATION_ERROR: 'Не удалось инвалидировать записи кэша',
+  CACHE_EXPORT_ERROR: 'Не удалось экспортировать кэш',
+  CACHE_IMPORT_ERROR: 'Не удалось импортировать кэш',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'Запрос содержит недопустимые значения',
+  REQUEST_TOO_LARGE: 'Запрос слишком большой (не более 1 МБ)',
+  INVALID_CONTENT_TYPE: 'Content-Type должен быть application/json',
+  RATE_LIMIT_EXCEEDED: 'Слишком много запросов. Подождите немного и повторите попытку',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'Требуется заголовок Authorization',
+  INVALID_AUTH_FORMAT: 'Неверный формат Authorization (Bearer <token>)',
+  AUTH_ERROR: 'Ошибка аутентификации',
+  TOKEN_EXPIRED: 'Срок действия токена истёк',
+  INVALID_TOKEN: 'Недействительный токен',
+  AUTHENTICATION_REQUIRED: 'Требуется аутентификация',
+  INSUFFICIENT_PERMISSIONS: 'Требуются права администратора',
+
+  UNKNOWN_ERROR: 'Произошла неизвестная ошибка'
+};
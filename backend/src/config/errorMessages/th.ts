@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（タイ語）
+ */
+export const th: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'ไม่ได้ป้อนข้อความ',
+  TEXT_TOO_LONG: 'ข้อความยาวเกินไป',
+  MISSING_TARGET_LANGUAGE: 'ไม่ได้ระบุภาษาปลายทาง',
+  UNSUPPORTED_LANGUAGE_PAIR: 'ไม่รองรับคู่ภาษานี้',
+  LANGUAGE_DETECTION_FAILED: 'ไม่สามารถตรวจหาภาษาได้ กรุณาระบุภาษาต้นทาง',
+  TRANSLATION_SERVICE_ERROR: 'เกิดข้อผิดพลาดในบริการแปลภาษา',
+  DETECTION_SERVICE_ERROR: 'เกิดข้อผิดพลาดในบริการตรวจหาภาษา',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'ขนาดข้อความเกินขีดจำกัด',
+  EMPTY_TRANSLATION_RESULT: 'ไม่ได้รับผลการแปล',
+  THROTTLING_ERROR: 'มีคำขอไปยังบริการแปลภาษามากเกินไป',
+  SERVICE_UNAVAILABLE: 'บริการแปลภาษาไม่พร้อมใช้งานชั่วคราว',
+  CIRCUIT_OPEN: 'บริการแปลภาษาหยุดทำงานชั่วคราว',
+  TRANSLATION_BUDGET_EXCEEDED: 'เกินงบประมาณการแปลรายเดือนแล้ว',
+  INVALID_USAGE_PERIOD: 'ช่วงเวลาของรายงานการใช้งานไม่ถูกต้อง (สูงสุด 92 วัน)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'ช่วงเวลาของสถิติแคชไม่ถูกต้อง (สูงสุด 92 วัน)',
+  GLOSSARY_TERM_EXISTS: 'มีคำศัพท์นี้อยู่ในอภิธานศัพท์แล้ว',
+  GLOSSARY_TERM_NOT_FOUND: 'ไม่พบรายการในอภิธานศัพท์',
+  TRANSLATION_JOB_NOT_FOUND: 'ไม่พบงานแปล',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'ไม่สามารถยกเลิกงานแปลที่สิ้นสุดแล้ว',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'ไม่พบรายการในแคชการแปล',
+  CACHE_WARMUP_IN_PROGRESS: 'กำลังวอร์มอัปแคชอยู่แล้ว',
+  CACHE_WARMUP_NOT_FOUND: 'ไม่พบการวอร์มอัปแคช',
+  INVALID_CACHE_AUDIT_QUERY: 'เงื่อนไขการค้นหาบันทึกการตรวจสอบไม่ถูกต้อง',
+  INVALID_CACHE_ENTRY_FILTER: 'ตัวกรองรายการแคชไม่ถูกต้อง',
+  CACHE_INVALIDATION_NOT_FOUND: 'ไม่พบการยกเลิกแคช',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'การยกเลิกแคชถูกย้อนกลับแล้ว',
+  INVALID_CACHE_IMPORT_REQUEST: 'คำขอนำเข้าแคชไม่ถูกต้อง',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'ไม่พบข้อเสนอการแก้ไข',
+  TRANSLATION_CORRECTION_UNCHANGED: 'คำแปลที่แก้ไขเหมือนกับคำแปลปัจจุบัน',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'ข้อเสนอการแก้ไขได้รับการตรวจสอบแล้ว',
+  TRANSLATION_ERROR: 'เกิดข้อผิดพลาดระหว่างการแปล',
+  REQUEST_ABORTED: 'คำขอถูกยกเลิก จึงไม่ได้แปลข้อความ',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'จำเป็นต้องระบุช่องนี้',
+  VALIDATION_EMPTY: 'ต้องไม่เว้นว่าง',
+  VALIDATION_NOT_STRING: 'ต้องเป็นสตริง',
+  VALIDATION_NOT_BOOLEAN: 'ต้องเป็นค่าบูลีน',
+  VALIDATION_NOT_NUMBER: 'ต้องเป็นตัวเลข',
+  VALIDATION_NOT_ARRAY: 'ต้องเป็นอาร์เรย์',
+  VALIDATION_NOT_OBJECT: 'ต้องเป็นออบเจ็กต์',
+  VALIDATION_TOO_LONG: 'ต้องมีความยาวไม่เกิน {limit} อักขระ',
+  VALIDATION_TOO_MANY_ITEMS: 'ต้องมีไม่เกิน {limit} รายการ',
+  VALIDATION_TOO_SMALL: 'ต้องมีค่าอย่างน้อย {limit}',
+  VALIDATION_TOO_LARGE: 'ต้องมีค่าไม่เกิน {limit}',
+  VALIDATION_INVALID_VALUE: 'ต้องเป็นค่าใดค่าหนึ่งต่อไปนี้: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'ภาษาที่ไม่รองรับ: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'ต้องเป็นอาร์เรย์ของรหัสภาษาหรือ "all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'ต้องระบุภาษาปลายทางเมื่อระบุคำแปล',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'ระบุคำแปล หรือตั้งค่า doNotTranslate เป็น true',
+  VALIDATION_BODY_NOT_OBJECT: 'เนื้อหาคำขอต้องเป็นออบเจ็กต์ JSON',
+  VALIDATION_ITEM: 'ลำดับที่ {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'ต้องระบุข้อความที่จะแปล',
+  INVALID_INPUT_TEXTS: 'ต้องระบุอาร์เรย์ของข้อความที่จะแปล',
+  INVALID_INPUT_DETECTION: 'ต้องระบุข้อความที่จะตรวจหาภาษา',
+  INVALID_TARGET_LANGUAGE: 'ต้องระบุภาษาปลายทาง',
+  TOO_MANY_TEXTS: 'การแปลแบบกลุ่มรองรับข้อความได้สูงสุด {max} รายการ',
+  BATCH_TRANSLATION_ERROR: 'เกิดข้อผิดพลาดระหว่างการแปลแบบกลุ่ม',
+  LANGUAGE_DETECTION_ERROR: 'เกิดข้อผิดพลาดระหว่างการตรวจหาภาษา',
+  LANGUAGE_LIST_ERROR: 'เกิดข้อผิดพลาดขณะดึงรายการภาษาที่รองรับ',
+  HEALTH_CHECK_ERROR: 'เกิดข้อผิดพลาดระหว่างการตรวจสอบสถานะ',
+  GLOSSARY_RETRIEVAL_ERROR: 'ไม่สามารถดึงอภิธานศัพท์ได้',
+  GLOSSARY_SAVE_ERROR: 'ไม่สามารถบันทึกรายการในอภิธานศัพท์ได้',
+  GLOSSARY_DELETE_ERROR: 'ไม่สามารถลบรายการในอภิธานศัพท์ได้',
+  TRANSLATION_JOB_CREATE_ERROR: 'ไม่สามารถสร้างงานแปลได้',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'ไม่สามารถดึงงานแปลได้',
+  TRANSLATION_JOB_CANCEL_ERROR: 'ไม่สามารถยกเลิกงานแปลได้',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'ไม่สามารถดึงข้อเสนอการแก้ไขได้',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'ไม่สามารถส่งข้อเสนอการแก้ไขได้',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'ไม่สามารถตรวจสอบข้อเสนอการแก้ไขได้',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'ไม่สามารถดึงข้อมูลการใช้งานการแปลได้',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'ไม่สามารถตั้งงบประมาณการแปลได้',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'ขาดพารามิเตอร์ที่จำเป็น',
+  CACHE_STATISTICS_ERROR: 'ไม่สามารถดึงสถิติของแคชได้',
+  CACHE_RETRIEVAL_ERROR: 'ไม่สามารถดึงรายการในแคชได้',
+  CACHE_DELETE_ERROR: 'ไม่สามารถลบรายการในแคชได้',
+  CACHE_CLEANUP_ERROR: 'ไม่สามารถล้างแคชที่หมดอายุได้',
+  CACHE_CLEAR_ERROR: 'ไม่สามารถล้างแคชทั้งหมดได้',
+  CONFIG_RETRIEVAL_ERROR: 'ไม่สามารถดึงการตั้งค่าแคชได้',
+  CACHE_WARMUP_ERROR: 'ไม่สามารถวอร์มอัปแคชได้',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'ไม่สามารถดึงบันทึกการตรวจสอบได้',
+  CACHE_INVALIDATION_ERROR: 'ไม่สามารถยกเลิกรายการแคชได้',
+  CACHE_EXPORT_ERROR: 'ไม่สามารถส่งออกแคชได้',
+  CACHE_IMPORT_ERROR: 'ไม่สามารถนำเข้าแคชได้',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'คำขอมีค่าที่ไม่ถูกต้อง',
+  REQUEST_TOO_LARGE: 'คำขอมีขนาดใหญ่เกินไป (สูงสุด 1 MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type ต้องเป็น application/json',
+  RATE_LIMIT_EXCEEDED: 'มีคำขอมากเกินไป กรุณารอสักครู่แล้วลองอีกครั้ง',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'ต้องมีส่วนหัว Authorization',
+  INVALID_AUTH_FORMAT: 'รูปแบบ Authorization ไม่ถูกต้อง (Bearer <token>)',
+  AUTH_ERROR: 'การยืนยันตัวตนล้มเหลว',
+  TOKEN_EXPIRED: 'โทเค็นหมดอายุแล้ว',
+  INVALID_TOKEN: 'โทเค็นไม่ถูกต้อง',
+  AUTHENTICATION_REQUIRED: 'ต้องยืนยันตัวตน',
+  INSUFFICIENT_PERMISSIONS: 'ต้องมีสิทธิ์ผู้ดูแลระบบ',
+
+  UNKNOWN_ERROR: 'เกิดข้อผิดพลาดที่ไม่ทราบสาเหตุ'
+};
@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（トルコ語）
+ */
+export const tr: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'Metin girilmedi',
+  TEXT_TOO_LONG: 'Metin çok uzun',
+  MISSING_TARGET_LANGUAGE: 'Hedef dil belirtilmedi',
+  UNSUPPORTED_LANGUAGE_PAIR: 'Bu dil kombinasyonu desteklenmiyor',
+  LANGUAGE_DETECTION_FAILED: 'Dil algılanamadı. Lütfen kaynak dili belirtin',
+  TRANSLATION_SERVICE_ERROR: 'Çeviri hizmetinde bir hata oluştu',
+  DETECTION_SERVICE_ERROR: 'Dil algılama hizmetinde bir hata oluştu',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'Metin boyutu sınırı aşıyor',
+  EMPTY_TRANSLATION_RESULT: 'Çeviri sonucu alınamadı',
+  THROTTLING_ERROR: 'Çeviri hizmetine çok fazla istek gönderildi',
+  SERVICE_UNAVAILABLE: 'Çeviri hizmeti geçici olarak kullanılamıyor',
+  CIRCUIT_OPEN: 'Çeviri hizmeti geçici olarak durduruldu',
+  TRANSLATION_BUDGET_EXCEEDED: 'Aylık çeviri bütçesi aşıldı',
+  INVALID_USAGE_PERIOD: 'Kullanım raporu dönemi geçersiz (en fazla 92 gün)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Geçersiz önbellek istatistikleri dönemi (en fazla 92 gün)',
+  GLOSSARY_TERM_EXISTS: 'Bu terim sözlükte zaten var',
+  GLOSSARY_TERM_NOT_FOUND: 'Sözlük girdisi bulunamadı',
+  TRANSLATION_JOB_NOT_FOUND: 'Çeviri işi bulunamadı',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'Tamamlanmış bir çeviri işi iptal edilemez',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'Çeviri önbelleği girdisi bulunamadı',
+  CACHE_WARMUP_IN_PROGRESS: 'Önbellek ısıtma zaten çalışıyor',
+  CACHE_WARMUP_NOT_FOUND: 'Önbellek ısıtma bulunamadı',
+  INVALID_CACHE_AUDIT_QUERY: 'Geçersiz denetim günlüğü sorgusu',
+  INVALID_CACHE_ENTRY_FILTER: 'Geçersiz önbellek girdisi filtresi',
+  CACHE_INVALIDATION_NOT_FOUND: 'Önbellek geçersiz kılma işlemi bulunamadı',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'Önbellek geçersiz kılma işlemi zaten geri alındı',
+  INVALID_CACHE_IMPORT_REQUEST: 'Geçersiz önbellek içe aktarma isteği',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'Düzeltme önerisi bulunamadı',
+  TRANSLATION_CORRECTION_UNCHANGED: 'Düzeltilmiş çeviri mevcut çeviriyle aynı',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'Düzeltme önerisi zaten incelendi',
+  TRANSLATION_ERROR: 'Çeviri sırasında bir hata oluştu',
+  REQUEST_ABORTED: 'İstek yarıda kesildiği için metin çevrilmedi',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'Bu alan zorunludur',
+  VALIDATION_EMPTY: 'Boş olamaz',
+  VALIDATION_NOT_STRING: 'Metin (string) olmalıdır',
+  VALIDATION_NOT_BOOLEAN: 'Boolean değer olmalıdır',
+  VALIDATION_NOT_NUMBER: 'Sayı olmalıdır',
+  VALIDATION_NOT_ARRAY: 'Dizi olmalıdır',
+  VALIDATION_NOT_OBJECT: 'Nesne olmalıdır',
+  VALIDATION_TOO_LONG: 'En fazla {limit} karakter olmalıdır',
+  VALIDATION_TOO_MANY_ITEMS: 'En fazla {limit} öğe içermelidir',
+  VALIDATION_TOO_SMALL: 'En az {limit} olmalıdır',
+  VALIDATION_TOO_LARGE: 'En fazla {limit} olmalıdır',
+  VALIDATION_INVALID_VALUE: 'Şu değerlerden biri olmalıdır: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Desteklenmeyen dil: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Dil kodlarından oluşan bir dizi veya "all" olmalıdır',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'Çeviri belirtildiğinde hedef dil zorunludur',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Bir çeviri belirtin veya doNotTranslate değerini true yapın',
+  VALIDATION_BODY_NOT_OBJECT: 'İstek gövdesi bir JSON nesnesi olmalıdır',
+  VALIDATION_ITEM: 'Dizin {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'Çevrilecek metin gereklidir',
+  INVALID_INPUT_TEXTS: 'Çevrilecek metin dizisi gereklidir',
+  INVALID_INPUT_DETECTION: 'Dil algılama için metin gereklidir',
+  INVALID_TARGET_LANGUAGE: 'Hedef dil gereklidir',
+  TOO_MANY_TEXTS: 'Toplu çeviri en fazla {max} metni destekler',
+  BATCH_TRANSLATION_ERROR: 'Toplu çeviri sırasında bir hata oluştu',
+  LANGUAGE_DETECTION_ERROR: 'Dil algılama sırasında bir hata oluştu',
+  LANGUAGE_LIST_ERROR: 'Desteklenen diller alınırken bir hata oluştu',
+  HEALTH_CHECK_ERROR: 'Durum denetimi sırasında bir hata oluştu',
+  GLOSSARY_RETRIEVAL_ERROR: 'Sözlük alınamadı',
+  GLOSSARY_SAVE_ERROR: 'Sözlük girdisi kaydedilemedi',
+  GLOSSARY_DELETE_ERROR: 'Sözlük girdisi silinemedi',
+  TRANSLATION_JOB_CREATE_ERROR: 'Çeviri işi oluşturulamadı',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'Çeviri işi alınamadı',
+  TRANSLATION_JOB_CANCEL_ERROR: 'Çeviri işi iptal edilemedi',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'Düzeltme önerileri alınamadı',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'Düzeltme önerisi gönderilemedi',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'Düzeltme önerisi incelenemedi',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'Çeviri kullanımı alınamadı',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'Çeviri bütçesi ayarlanamadı',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'Zorunlu parametreler eksik',
+  CACHE_STATISTICS_ERROR: 'Önbellek istatistikleri alınamadı',
+  CACHE_RETRIEVAL_ERROR: 'Önbellek girdileri alınamadı',
+  CACHE_DELETE_ERROR: 'Önbellek girdisi silinemedi',
+  CACHE_CLEANUP_ERROR: 'Önbellek temizlenemedi',
+  CACHE_CLEAR_ERROR: 'Önbelleğin tamamı temizlenemedi',
+  CONFIG_RETRIEVAL_ERROR: 'Önbellek yapılandırması alınamadı',
+  CACHE_WARMUP_ERROR: 'Önbellek ısıtılamadı',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'Denetim günlüğü alınamadı',
+  CACHE_INVALIDATION_ERROR: 'Önbellek girdileri geçersiz kılınamadı',
+  CACHE_EXPORT_ERROR: 'Önbellek dışa aktarılamadı',
+  CACHE_IMPORT_ERROR: 'Önbellek içe aktarılamadı',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'İstek geçersiz değerler içeriyor',
+  REQUEST_TOO_LARGE: 'İstek çok büyük (en fazla 1 MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type application/json olmalıdır',
+  RATE_LIMIT_EXCEEDED: 'Çok fazla istek. Lütfen biraz bekleyip tekrar deneyin',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'Authorization başlığı gereklidir',
+  INVALID_AUTH_FORMAT: 'Geçersiz Authorization biçimi (Bearer <token>)',
+  AUTH_ERROR: 'Kimlik doğrulama başarısız oldu',
+  TOKEN_EXPIRED: 'Belirtecin süresi doldu',
+  INVALID_TOKEN: 'Belirteç geçersiz',
+  AUTHENTICATION_REQUIRED: 'Kimlik doğrulama gereklidir',
+  INSUFFICIENT_PERMISSIONS: 'Yönetici yetkisi gereklidir',
+
+  UNKNOWN_ERROR: 'Bilinmeyen bir hata oluştu'
+};
@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（ウクライナ語）
+ */
+export const uk: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'Текст не введено',
+  TEXT_TOO_LONG: 'Текст занадто довгий',
+  MISSING_TARGET_LANGUAGE: 'Не вказано мову перекладу',
+  UNSUPPORTED_LANGUAGE_PAIR: 'Ця комбінація мов не підтримується',
+  LANGUAGE_DETECTION_FAILED: 'Не вдалося визначити мову. Вкажіть мову оригіналу',
+  TRANSLATION_SERVICE_ERROR: 'Сталася помилка служби перекладу',
+  DETECTION_SERVICE_ERROR: 'Сталася помилка служби визначення мови',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'Розмір тексту перевищує ліміт',
+  EMPTY_TRANSLATION_RESULT: 'Результат перекладу не отримано',
+  THROTTLING_ERROR: 'Забагато запитів до служби перекладу',
+  SERVICE_UNAVAILABLE: 'Служба перекладу тимчасово недоступна',
+  CIRCUIT_OPEN: 'Службу перекладу тимчасово призупинено',
+  TRANSLATION_BUDGET_EXCEEDED: 'Місячний бюджет на переклад перевищено',
+  INVALID_USAGE_PERIOD: 'Неприпустимий період звіту про використання (не більше 92 днів)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Неприпустимий період статистики кешу (не більше 92 днів)',
+  GLOSSARY_TERM_EXISTS: 'Цей термін уже є в глосарії',
+  GLOSSARY_TERM_NOT_FOUND: 'Запис глосарію не знайдено',
+  TRANSLATION_JOB_NOT_FOUND: 'Завдання перекладу не знайдено',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'Завершене завдання перекладу не можна скасувати',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'Запис у кеші перекладів не знайдено',
+  CACHE_WARMUP_IN_PROGRESS: 'Прогрів кешу вже виконується',
+  CACHE_WARMUP_NOT_FOUND: 'Прогрів кешу не знайдено',
+  INVALID_CACHE_AUDIT_QUERY: 'Недійсний запит журналу аудиту',
+  INVALID_CACHE_ENTRY_FILTER: 'Недійсний фільтр записів кешу',
+  CACHE_INVALIDATION_NOT_FOUND: 'Інвалідацію кешу не знайдено',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'Інвалідацію кешу вже скасовано',
+  INVALID_CACHE_IMPORT_REQUEST: 'Недійсний запит на імпорт кешу',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'Пропозицію виправлення не знайдено',
+  TRANSLATION_CORRECTION_UNCHANGED: 'Виправлений переклад збігається з поточним',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'Пропозицію виправлення вже розглянуто',
+  TRANSLATION_ERROR: 'Під час перекладу сталася помилка',
+  REQUEST_ABORTED: 'Запит перервано, тому текст не перекладено',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: "Це поле обов'язкове",
+  VALIDATION_EMPTY: 'Не може бути порожнім',
+  VALIDATION_NOT_STRING: 'Має бути рядком',
+  VALIDATION_NOT_BOOLEAN: 'Має бути логічним значенням',
+  VALIDATION_NOT_NUMBER: 'Має бути числом',
+  VALIDATION_NOT_ARRAY: 'Має бути масивом',
+  VALIDATION_NOT_OBJECT: "Має бути об'єктом",
+  VALIDATION_TOO_LONG: 'Не більше {limit} символів',
+  VALIDATION_TOO_MANY_ITEMS: 'Не більше {limit} елементів',
+  VALIDATION_TOO_SMALL: 'Має бути не менше {limit}',
+  VALIDATION_TOO_LARGE: 'Має бути не більше {limit}',
+  VALIDATION_INVALID_VALUE: 'Має бути одним із значень: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Непідтримувана мова: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Має бути масивом кодів мов або "all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: "Якщо вказано переклад, мова перекладу обов'язкова",
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Вкажіть переклад або встановіть doNotTranslate у true',
+  VALIDATION_BODY_NOT_OBJECT: "Тіло запиту має бути JSON-об'єктом",
+  VALIDATION_ITEM: 'Індекс {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: "Текст для перекладу обов'язковий",
+  INVALID_INPUT_TEXTS: 'Потрібен масив текстів для перекладу',
+  INVALID_INPUT_DETECTION: 'Потрібен текст для визначення мови',
+  INVALID_TARGET_LANGUAGE: "Мова перекладу обов'язкова",
+  TOO_MANY_TEXTS: 'Пакетний переклад підтримує не більше {max} текстів',
+  BATCH_TRANSLATION_ERROR: 'Під час пакетного перекладу сталася помилка',
+  LANGUAGE_DETECTION_ERROR: 'Під час визначення мови сталася помилка',
+  LANGUAGE_LIST_ERROR: 'Під час отримання підтримуваних мов сталася помилка',
+  HEALTH_CHECK_ERROR: 'Під час перевірки стану сталася помилка',
+  GLOSSARY_RETRIEVAL_ERROR: 'Не вдалося отримати глосарій',
+  GLOSSARY_SAVE_ERROR: 'Не вдалося зберегти запис глосарію',
+  GLOSSARY_DELETE_ERROR: 'Не вдалося видалити запис глосарію',
+  TRANSLATION_JOB_CREATE_ERROR: 'Не вдалося створити завдання перекладу',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'Не вдалося отримати завдання перекладу',
+  TRANSLATION_JOB_CANCEL_ERROR: 'Не вдалося скасувати завдання перекладу',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'Не вдалося отримати пропозиції виправлень',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'Не вдалося надіслати пропозицію виправлення',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'Не вдалося розглянути пропозицію виправлення',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'Не вдалося отримати дані про використання перекладу',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'Не вдалося встановити бюджет на переклад',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: "Відсутні обов'язкові параметри",
+  CACHE_STATISTICS_ERROR: 'Не вдалося отримати статистику кешу',
+  CACHE_RETRIEVAL_ERROR: 'Не вдалося отримати записи кешу',
+  CACHE_DELETE_ERROR: 'Не вдалося видалити запис кешу',
+  CACHE_CLEANUP_ERROR: 'Не вдалося очистити кеш',
+  CACHE_CLEAR_ERROR: 'Не вдалося повністю очистити кеш',
+  CONFIG_RETRIEVAL_ERROR: 'Не вдалося отримати конфігурацію кешу',
+  CACHE_WARMUP_ERROR: 'Не вдалося прогріти кеш',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'Не вдалося отримати журнал аудиту',
+  CACHE_INVALIDATION_ERROR: 'Не вдалося інвалідувати записи кешу',
+  CACHE_EXPORT_ERROR: 'Не вдалося експортувати кеш',
+  CACHE_IMPORT_ERROR: 'Не вдалося імпортувати кеш',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'Запит містить неприпустимі значення',
+  REQUEST_TOO_LARGE: 'Запит завеликий (не більше 1 МБ)',
+  INVALID_CONTENT_TYPE: 'Content-Type має бути application/json',
+  RATE_LIMIT_EXCEEDED: 'Забагато запитів. Зачекайте трохи й спробуйте знову',
+
+  // 認証
+  MISSING_AUTH_HEADER: "Заголовок Authorization обов'язковий",
+  INVALID_AUTH_FORMAT: 'Неприпустимий формат Authorization (Bearer <token>)',
+  AUTH_ERROR: 'Помилка автентифікації',
+  TOKEN_EXPIRED: 'Термін дії токена минув',
+  INVALID_TOKEN: 'Токен недійсний',
+  AUTHENTICATION_REQUIRED: 'Потрібна автентифікація',
+  INSUFFICIENT_PERMISSIONS: 'Потрібні права адміністратора',
+
+  UNKNOWN_ERROR: 'Сталася невідома помилка'
+};
@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（ベトナム語）
+ */
+export const vi: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: 'Chưa nhập văn bản',
+  TEXT_TOO_LONG: 'Văn bản quá dài',
+  MISSING_TARGET_LANGUAGE: 'Chưa chỉ định ngôn ngữ đích',
+  UNSUPPORTED_LANGUAGE_PAIR: 'Cặp ngôn ngữ này không được hỗ trợ',
+  LANGUAGE_DETECTION_FAILED: 'Không thể tự động nhận diện ngôn ngữ. Vui lòng chỉ định ngôn ngữ nguồn',
+  TRANSLATION_SERVICE_ERROR: 'Đã xảy ra lỗi trong dịch vụ dịch',
+  DETECTION_SERVICE_ERROR: 'Đã xảy ra lỗi trong dịch vụ nhận diện ngôn ngữ',
+  TEXT_SIZE_LIMIT_EXCEEDED: 'Kích thước văn bản vượt quá giới hạn',
+  EMPTY_TRANSLATION_RESULT: 'Không nhận được kết quả dịch',
+  THROTTLING_ERROR: 'Có quá nhiều yêu cầu gửi đến dịch vụ dịch',
+  SERVICE_UNAVAILABLE: 'Dịch vụ dịch tạm thời không khả dụng',
+  CIRCUIT_OPEN: 'Dịch vụ dịch đang tạm ngừng',
+  TRANSLATION_BUDGET_EXCEEDED: 'Đã vượt quá ngân sách dịch hằng tháng',
+  INVALID_USAGE_PERIOD: 'Khoảng thời gian của báo cáo sử dụng không hợp lệ (tối đa 92 ngày)',
+  INVALID_CACHE_STATISTICS_PERIOD: 'Khoảng thời gian thống kê bộ nhớ đệm không hợp lệ (tối đa 92 ngày)',
+  GLOSSARY_TERM_EXISTS: 'Thuật ngữ này đã có trong bảng thuật ngữ',
+  GLOSSARY_TERM_NOT_FOUND: 'Không tìm thấy mục trong bảng thuật ngữ',
+  TRANSLATION_JOB_NOT_FOUND: 'Không tìm thấy tác vụ dịch',
+  TRANSLATION_JOB_NOT_CANCELLABLE: 'Không thể hủy tác vụ dịch đã kết thúc',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 'Không tìm thấy mục trong bộ nhớ đệm bản dịch',
+  CACHE_WARMUP_IN_PROGRESS: 'Đang làm nóng bộ nhớ đệm',
+  CACHE_WARMUP_NOT_FOUND: 'Không tìm thấy lần làm nóng bộ nhớ đệm',
+  INVALID_CACHE_AUDIT_QUERY: 'Truy vấn nhật ký kiểm tra không hợp lệ',
+  INVALID_CACHE_ENTRY_FILTER: 'Bộ lọc mục bộ nhớ đệm không hợp lệ',
+  CACHE_INVALIDATION_NOT_FOUND: 'Không tìm thấy lần vô hiệu hóa bộ nhớ đệm',
+  CACHE_INVALIDATION_ALREADY_UNDONE: 'Lần vô hiệu hóa bộ nhớ đệm đã được hoàn tác',
+  INVALID_CACHE_IMPORT_REQUEST: 'Yêu cầu nhập bộ nhớ đệm không hợp lệ',
+  TRANSLATION_CORRECTION_NOT_FOUND: 'Không tìm thấy đề xuất chỉnh sửa',
+  TRANSLATION_CORRECTION_UNCHANGED: 'Bản dịch đã chỉnh sửa giống với bản dịch hiện tại',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 'Đề xuất chỉnh sửa đã được xem xét',
+  TRANSLATION_ERROR: 'Đã xảy ra lỗi trong quá trình dịch',
+  REQUEST_ABORTED: 'Yêu cầu đã bị hủy nên văn bản không được dịch',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: 'Trường này là bắt buộc',
+  VALIDATION_EMPTY: 'Không được để trống',
+  VALIDATION_NOT_STRING: 'Phải là chuỗi ký tự',
+  VALIDATION_NOT_BOOLEAN: 'Phải là giá trị boolean',
+  VALIDATION_NOT_NUMBER: 'Phải là số',
+  VALIDATION_NOT_ARRAY: 'Phải là mảng',
+  VALIDATION_NOT_OBJECT: 'Phải là đối tượng',
+  VALIDATION_TOO_LONG: 'Tối đa {limit} ký tự',
+  VALIDATION_TOO_MANY_ITEMS: 'Tối đa {limit} mục',
+  VALIDATION_TOO_SMALL: 'Phải lớn hơn hoặc bằng {limit}',
+  VALIDATION_TOO_LARGE: 'Phải nhỏ hơn hoặc bằng {limit}',
+  VALIDATION_INVALID_VALUE: 'Phải là một trong các giá trị sau: {values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: 'Ngôn ngữ không được hỗ trợ: {value}',
+  VALIDATION_LANGUAGES_OR_ALL: 'Phải là mảng mã ngôn ngữ hoặc "all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: 'Cần chỉ định ngôn ngữ đích khi chỉ định bản dịch',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: 'Hãy chỉ định bản dịch hoặc đặt doNotTranslate thành true',
+  VALIDATION_BODY_NOT_OBJECT: 'Nội dung yêu cầu phải là đối tượng JSON',
+  VALIDATION_ITEM: 'Chỉ mục {index}: {message}',
+
+  // 翻訳API
+  INVALID_INPUT: 'Cần có văn bản để dịch',
+  INVALID_INPUT_TEXTS: 'Cần có mảng văn bản để dịch',
+  INVALID_INPUT_DETECTION: 'Cần có văn bản để nhận diện ngôn ngữ',
+  INVALID_TARGET_LANGUAGE: 'Cần chỉ định ngôn ngữ đích',
+  TOO_MANY_TEXTS: 'Dịch hàng loạt hỗ trợ tối đa {max} văn bản',
+  BATCH_TRANSLATION_ERROR: 'Đã xảy ra lỗi khi dịch hàng loạt',
+  LANGUAGE_DETECTION_ERROR: 'Đã xảy ra lỗi khi nhận diện ngôn ngữ',
+  LANGUAGE_LIST_ERROR: 'Đã xảy ra lỗi khi lấy danh sách ngôn ngữ được hỗ trợ',
+  HEALTH_CHECK_ERROR: 'Đã xảy ra lỗi khi kiểm tra trạng thái',
+  GLOSSARY_RETRIEVAL_ERROR: 'Không thể lấy bảng thuật ngữ',
+  GLOSSARY_SAVE_ERROR: 'Không thể lưu mục thuật ngữ',
+  GLOSSARY_DELETE_ERROR: 'Không thể xóa mục thuật ngữ',
+  TRANSLATION_JOB_CREATE_ERROR: 'Không thể tạo tác vụ dịch',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: 'Không thể lấy tác vụ dịch',
+  TRANSLATION_JOB_CANCEL_ERROR: 'Không thể hủy tác vụ dịch',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: 'Không thể lấy các đề xuất chỉnh sửa',
+  TRANSLATION_CORRECTION_CREATE_ERROR: 'Không thể gửi đề xuất chỉnh sửa',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: 'Không thể xem xét đề xuất chỉnh sửa',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: 'Không thể lấy dữ liệu sử dụng dịch',
+  TRANSLATION_BUDGET_UPDATE_ERROR: 'Không thể thiết lập ngân sách dịch',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: 'Thiếu tham số bắt buộc',
+  CACHE_STATISTICS_ERROR: 'Không thể lấy thống kê bộ nhớ đệm',
+  CACHE_RETRIEVAL_ERROR: 'Không thể lấy các mục trong bộ nhớ đệm',
+  CACHE_DELETE_ERROR: 'Không thể xóa mục trong bộ nhớ đệm',
+  CACHE_CLEANUP_ERROR: 'Không thể dọn dẹp bộ nhớ đệm',
+  CACHE_CLEAR_ERROR: 'Không thể xóa toàn bộ bộ nhớ đệm',
+  CONFIG_RETRIEVAL_ERROR: 'Không thể lấy cấu hình bộ nhớ đệm',
+  CACHE_WARMUP_ERROR: 'Không thể làm nóng bộ nhớ đệm',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: 'Không thể lấy nhật ký kiểm tra',
+  CACHE_INVALIDATION_ERROR: 'Không thể vô hiệu hóa các mục bộ nhớ đệm',
+  CACHE_EXPORT_ERROR: 'Không thể xuất bộ nhớ đệm',
+  CACHE_IMPORT_ERROR: 'Không thể nhập bộ nhớ đệm',
+
+  // リクエスト共通
+  VALIDATION_ERROR: 'Yêu cầu chứa giá trị không hợp lệ',
+  REQUEST_TOO_LARGE: 'Yêu cầu quá lớn (tối đa 1 MB)',
+  INVALID_CONTENT_TYPE: 'Content-Type phải là application/json',
+  RATE_LIMIT_EXCEEDED: 'Quá nhiều yêu cầu. Vui lòng đợi một lát rồi thử lại',
+
+  // 認証
+  MISSING_AUTH_HEADER: 'Cần có header Authorization',
+  INVALID_AUTH_FORMAT: 'Định dạng Authorization không hợp lệ (Bearer <token>)',
+  AUTH_ERROR: 'Xác thực thất bại',
+  TOKEN_EXPIRED: 'Token đã hết hạn',
+  INVALID_TOKEN: 'Token không hợp lệ',
+  AUTHENTICATION_REQUIRED: 'Cần xác thực',
+  INSUFFICIENT_PERMISSIONS: 'Cần quyền quản trị viên',
+
+  UNKNOWN_ERROR: 'Đã xảy ra lỗi không xác định'
+};
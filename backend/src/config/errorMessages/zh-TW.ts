@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（中国語・繁体字）
+ */
+export const zhTW: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: '未輸入文字',
+  TEXT_TOO_LONG: '文字過長',
+  MISSING_TARGET_LANGUAGE: '未指定目標語言',
+  UNSUPPORTED_LANGUAGE_PAIR: '不支援此語言組合',
+  LANGUAGE_DETECTION_FAILED: '無法自動偵測語言，請指定來源語言',
+  TRANSLATION_SERVICE_ERROR: '翻譯服務發生錯誤',
+  DETECTION_SERVICE_ERROR: '語言偵測服務發生錯誤',
+  TEXT_SIZE_LIMIT_EXCEEDED: '文字大小超出限制',
+  EMPTY_TRANSLATION_RESULT: '無法取得翻譯結果',
+  THROTTLING_ERROR: '對翻譯服務的請求過多',
+  SERVICE_UNAVAILABLE: '翻譯服務暫時無法使用',
+  CIRCUIT_OPEN: '翻譯服務暫時停止',
+  TRANSLATION_BUDGET_EXCEEDED: '已超出每月翻譯預算',
+  INVALID_USAGE_PERIOD: '使用量報告的期間無效（最多92天）',
+  INVALID_CACHE_STATISTICS_PERIOD: '快取統計的期間無效（最多92天）',
+  GLOSSARY_TERM_EXISTS: '詞彙表中已有相同的詞彙',
+  GLOSSARY_TERM_NOT_FOUND: '找不到詞彙表項目',
+  TRANSLATION_JOB_NOT_FOUND: '找不到翻譯工作',
+  TRANSLATION_JOB_NOT_CANCELLABLE: '已結束的翻譯工作無法取消',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: '找不到翻譯快取項目',
+  CACHE_WARMUP_IN_PROGRESS: '快取預熱已在執行中',
+  CACHE_WARMUP_NOT_FOUND: '找不到快取預熱作業',
+  INVALID_CACHE_AUDIT_QUERY: '稽核記錄查詢條件無效',
+  INVALID_CACHE_ENTRY_FILTER: '快取項目篩選條件無效',
+  CACHE_INVALIDATION_NOT_FOUND: '找不到快取批次失效記錄',
+  CACHE_INVALIDATION_ALREADY_UNDONE: '快取批次失效已被復原',
+  INVALID_CACHE_IMPORT_REQUEST: '快取匯入請求無效',
+  TRANSLATION_CORRECTION_NOT_FOUND: '找不到修正建議',
+  TRANSLATION_CORRECTION_UNCHANGED: '修正後的譯文與目前的譯文相同',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: '此修正建議已審核',
+  TRANSLATION_ERROR: '翻譯時發生錯誤',
+  REQUEST_ABORTED: '請求已中斷，未進行翻譯',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: '此欄位為必填',
+  VALIDATION_EMPTY: '不可為空',
+  VALIDATION_NOT_STRING: '必須是字串',
+  VALIDATION_NOT_BOOLEAN: '必須是布林值',
+  VALIDATION_NOT_NUMBER: '必須是數字',
+  VALIDATION_NOT_ARRAY: '必須是陣列',
+  VALIDATION_NOT_OBJECT: '必須是物件',
+  VALIDATION_TOO_LONG: '不可超過{limit}個字元',
+  VALIDATION_TOO_MANY_ITEMS: '最多{limit}項',
+  VALIDATION_TOO_SMALL: '必須大於或等於{limit}',
+  VALIDATION_TOO_LARGE: '必須小於或等於{limit}',
+  VALIDATION_INVALID_VALUE: '必須是下列其中之一：{values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: '不支援的語言：{value}',
+  VALIDATION_LANGUAGES_OR_ALL: '必須是語言代碼陣列或"all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: '指定譯文時必須指定目標語言',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: '請指定譯文，或將doNotTranslate設為true',
+  VALIDATION_BODY_NOT_OBJECT: '請求內容必須是JSON物件',
+  VALIDATION_ITEM: '索引{index}：{message}',
+
+  // 翻訳API
+  INVALID_INPUT: '需要提供要翻譯的文字',
+  INVALID_INPUT_TEXTS: '需要提供要翻譯的文字陣列',
+  INVALID_INPUT_DETECTION: '需要提供要偵測語言的文字',
+  INVALID_TARGET_LANGUAGE: '需要指定目標語言',
+  TOO_MANY_TEXTS: '批次翻譯最多支援{max}筆文字',
+  BATCH_TRANSLATION_ERROR: '批次翻譯時發生錯誤',
+  LANGUAGE_DETECTION_ERROR: '語言偵測時發生錯誤',
+  LANGUAGE_LIST_ERROR: '取得支援的語言時發生錯誤',
+  HEALTH_CHECK_ERROR: '健康檢查時發生錯誤',
+  GLOSSARY_RETRIEVAL_ERROR: '取得詞彙表失敗',
+  GLOSSARY_SAVE_ERROR: '儲存詞彙表項目失敗',
+  GLOSSARY_DELETE_ERROR: '刪除詞彙表項目失敗',
+  TRANSLATION_JOB_CREATE_ERROR: '建立翻譯工作失敗',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: '取得翻譯工作失敗',
+  TRANSLATION_JOB_CANCEL_ERROR: '取消翻譯工作失敗',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: '取得修正建議失敗',
+  TRANSLATION_CORRECTION_CREATE_ERROR: '提交修正建議失敗',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: '審核修正建議失敗',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: '取得翻譯使用量失敗',
+  TRANSLATION_BUDGET_UPDATE_ERROR: '設定翻譯預算失敗',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: '缺少必要的參數',
+  CACHE_STATISTICS_ERROR: '取得快取統計資訊失敗',
+  CACHE_RETRIEVAL_ERROR: '取得快取項目失敗',
+  CACHE_DELETE_ERROR: '刪除快取項目失敗',
+  CACHE_CLEANUP_ERROR: '清理快取失敗',
+  CACHE_CLEAR_ERROR: '清除全部快取失敗',
+  CONFIG_RETRIEVAL_ERROR: '取得快取設定失敗',
+  CACHE_WARMUP_ERROR: '快取預熱失敗',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: '取得稽核記錄失敗',
+  CACHE_INVALIDATION_ERROR: '快取批次失效失敗',
+  CACHE_EXPORT_ERROR: '快取匯出失敗',
+  CACHE_IMPORT_ERROR: '快取匯入失敗',
+
+  // リクエスト共通
+  VALIDATION_ERROR: '輸入值有誤',
+  REQUEST_TOO_LARGE: '請求過大（最大1MB）',
+  INVALID_CONTENT_TYPE: 'Content-Type必須是application/json',
+  RATE_LIMIT_EXCEEDED: '請求次數超出限制，請稍後再試',
+
+  // 認証
+  MISSING_AUTH_HEADER: '需要Authorization標頭',
+  INVALID_AUTH_FORMAT: 'Authorization格式不正確（Bearer <token>）',
+  AUTH_ERROR: '驗證失敗',
+  TOKEN_EXPIRED: '權杖已過期',
+  INVALID_TOKEN: '權杖無效',
+  AUTHENTICATION_REQUIRED: '需要驗證',
+  INSUFFICIENT_PERMISSIONS: '需要管理員權限',
+
+  UNKNOWN_ERROR: '發生未知錯誤'
+};
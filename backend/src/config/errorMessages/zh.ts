@@ -0,0 +1,113 @@
+import { ErrorMessageCatalog } from '../../types/errorMessages';
+
+/**
+ * エラーメッセージ（中国語・簡体字）
+ */
+export const zh: ErrorMessageCatalog = {
+  // 翻訳
+  EMPTY_TEXT: '未输入文本',
+  TEXT_TOO_LONG: '文本过长',
+  MISSING_TARGET_LANGUAGE: '未指定目标语言',
+  UNSUPPORTED_LANGUAGE_PAIR: '不支持该语言组合',
+  LANGUAGE_DETECTION_FAILED: '无法自动检测语言，请指定源语言',
+  TRANSLATION_SERVICE_ERROR: '翻译服务发生错误',
+  DETECTION_SERVICE_ERROR: '语言检测服务发生错误',
+  TEXT_SIZE_LIMIT_EXCEEDED: '文本大小超出限制',
+  EMPTY_TRANSLATION_RESULT: '未能获取翻译结果',
+  THROTTLING_ERROR: '对翻译服务的请求过多',
+  SERVICE_UNAVAILABLE: '翻译服务暂时不可用',
+  CIRCUIT_OPEN: '翻译服务暂时停止',
+  TRANSLATION_BUDGET_EXCEEDED: '已超出每月翻译预算',
+  INVALID_USAGE_PERIOD: '使用量报告的期间无效（最多92天）',
+  INVALID_CACHE_STATISTICS_PERIOD: '缓存统计的期间无效（最多92天）',
+  GLOSSARY_TERM_EXISTS: '术语表中已存在相同的术语',
+  GLOSSARY_TERM_NOT_FOUND: '未找到术语表条目',
+  TRANSLATION_JOB_NOT_FOUND: '未找到翻译任务',
+  TRANSLATION_JOB_NOT_CANCELLABLE: '已结束的翻译任务无法取消',
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: '未找到翻译缓存条目',
+  CACHE_WARMUP_IN_PROGRESS: '缓存预热已在运行中',
+  CACHE_WARMUP_NOT_FOUND: '未找到缓存预热任务',
+  INVALID_CACHE_AUDIT_QUERY: '审计日志查询条件无效',
+  INVALID_CACHE_ENTRY_FILTER: '缓存条目筛选条件无效',
+  CACHE_INVALIDATION_NOT_FOUND: '未找到缓存批量失效记录',
+  CACHE_INVALIDATION_ALREADY_UNDONE: '缓存批量失效已被撤销',
+  INVALID_CACHE_IMPORT_REQUEST: '缓存导入请求无效',
+  TRANSLATION_CORRECTION_NOT_FOUND: '未找到修改建议',
+  TRANSLATION_CORRECTION_UNCHANGED: '修改后的译文与当前译文相同',
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: '该修改建议已审核',
+  TRANSLATION_ERROR: '翻译时发生错误',
+  REQUEST_ABORTED: '请求已中断，未进行翻译',
+
+  // 入力値検証
+  VALIDATION_REQUIRED: '此项为必填项',
+  VALIDATION_EMPTY: '不能为空',
+  VALIDATION_NOT_STRING: '必须是字符串',
+  VALIDATION_NOT_BOOLEAN: '必须是布尔值',
+  VALIDATION_NOT_NUMBER: '必须是数字',
+  VALIDATION_NOT_ARRAY: '必须是数组',
+  VALIDATION_NOT_OBJECT: '必须是对象',
+  VALIDATION_TOO_LONG: '不能超过{limit}个字符',
+  VALIDATION_TOO_MANY_ITEMS: '最多{limit}项',
+  VALIDATION_TOO_SMALL: '必须大于或等于{limit}',
+  VALIDATION_TOO_LARGE: '必须小于或等于{limit}',
+  VALIDATION_INVALID_VALUE: '必须是以下值之一：{values}',
+  VALIDATION_UNSUPPORTED_LANGUAGE: '不支持的语言：{value}',
+  VALIDATION_LANGUAGES_OR_ALL: '必须是语言代码数组或"all"',
+  VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED: '指定译文时必须指定目标语言',
+  VALIDATION_GLOSSARY_TRANSLATION_REQUIRED: '请指定译文，或将doNotTranslate设为true',
+  VALIDATION_BODY_NOT_OBJECT: '请求体必须是JSON对象',
+  VALIDATION_ITEM: '索引{index}：{message}',
+
+  // 翻訳API
+  INVALID_INPUT: '需要提供要翻译的文本',
+  INVALID_INPUT_TEXTS: '需要提供要翻译的文本数组',
+  INVALID_INPUT_DETECTION: '需要提供要检测语言的文本',
+  INVALID_TARGET_LANGUAGE: '需要指定目标语言',
+  TOO_MANY_TEXTS: '批量翻译最多支持{max}条文本',
+  BATCH_TRANSLATION_ERROR: '批量翻译时发生错误',
+  LANGUAGE_DETECTION_ERROR: '语言检测时发生错误',
+  LANGUAGE_LIST_ERROR: '获取支持的语言时发生错误',
+  HEALTH_CHECK_ERROR: '健康检查时发生错误',
+  GLOSSARY_RETRIEVAL_ERROR: '获取术语表失败',
+  GLOSSARY_SAVE_ERROR: '保存术语表条目失败',
+  GLOSSARY_DELETE_ERROR: '删除术语表条目失败',
+  TRANSLATION_JOB_CREATE_ERROR: '创建翻译任务失败',
+  TRANSLATION_JOB_RETRIEVAL_ERROR: '获取翻译任务失败',
+  TRANSLATION_JOB_CANCEL_ERROR: '取消翻译任务失败',
+  TRANSLATION_CORRECTION_RETRIEVAL_ERROR: '获取修改建议失败',
+  TRANSLATION_CORRECTION_CREATE_ERROR: '提交修改建议失败',
+  TRANSLATION_CORRECTION_REVIEW_ERROR: '审核修改建议失败',
+  TRANSLATION_USAGE_RETRIEVAL_ERROR: '获取翻译使用量失败',
+  TRANSLATION_BUDGET_UPDATE_ERROR: '设置翻译预算失败',
+
+  // 翻訳キャッシュ管理API
+  MISSING_PARAMETERS: '缺少必要的参数',
+  CACHE_STATISTICS_ERROR: '获取缓存统计信息失败',
+  CACHE_RETRIEVAL_ERROR: '获取缓存条目失败',
+  CACHE_DELETE_ERROR: '删除缓存条目失败',
+  CACHE_CLEANUP_ERROR: '清理缓存失败',
+  CACHE_CLEAR_ERROR: '清空全部缓存失败',
+  CONFIG_RETRIEVAL_ERROR: '获取缓存配置失败',
+  CACHE_WARMUP_ERROR: '缓存预热失败',
+  CACHE_AUDIT_LOG_RETRIEVAL_ERROR: '获取审计日志失败',
+  CACHE_INVALIDATION_ERROR: '缓存批量失效失败',
+  CACHE_EXPORT_ERROR: '缓存导出失败',
+  CACHE_IMPORT_ERROR: '缓存导入失败',
+
+  // リクエスト共通
+  VALIDATION_ERROR: '输入值有误',
+  REQUEST_TOO_LARGE: '请求过大（最大1MB）',
+  INVALID_CONTENT_TYPE: 'Content-Type必须是application/json',
+  RATE_LIMIT_EXCEEDED: '请求次数超出限制，请稍后重试',
+
+  // 認証
+  MISSING_AUTH_HEADER: '需要Authorization请求头',
+  INVALID_AUTH_FORMAT: 'Authorization格式不正确（Bearer <token>）',
+  AUTH_ERROR: '认证失败',
+  TOKEN_EXPIRED: '令牌已过期',
+  INVALID_TOKEN: '令牌无效',
+  AUTHENTICATION_REQUIRED: '需要认证',
+  INSUFFICIENT_PERMISSIONS: '需要管理员权限',
+
+  UNKNOWN_ERROR: '发生未知错误'
+};
@@ -1,4 +1,4 @@
-import { SupportedLanguage } from '../types/translation';
+import { LanguageDefinition } from '../types/translation';
 
 /**
  * 翻訳サービスの設定定数
@@ -7,53 +7,53 @@ export const TRANSLATION_CONFIG = {
   // Amazon Translate の制限
   MAX_TEXT_LENGTH: 5000,
   MAX_BATCH_SIZE: 25,
+  MAX_DOCUMENT_LENGTH: 50000, // チャンク分割して翻訳できる最大文字数
+  MAX_JOB_SIZE: 1000, // 非同期翻訳ジョブの最大テキスト数
   
   // デフォルト設定
   DEFAULT_CONFIDENCE_THRESHOLD: 0.7,
   DEFAULT_CACHE_TTL: 86400, // 24時間（秒）
   DEFAULT_RETRY_ATTEMPTS: 3,
   DEFAULT_RETRY_DELAY: 1000, // 1秒（ミリ秒）
+  DEFAULT_RETRY_MAX_DELAY: 10000, // 10秒（ミリ秒）
+  DEFAULT_CIRCUIT_BREAKER_THRESHOLD: 5, // 連続失敗回数
+  DEFAULT_CIRCUIT_BREAKER_RESET_TIMEOUT: 30000, // 30秒（ミリ秒）
+  DEFAULT_WORKER_CONCURRENCY: 10, // ワーカープールの同時実行数
+  DEFAULT_BACK_TRANSLATION_RATE: 0.05, // 逆翻訳で品質を検証する割合
+  DEFAULT_BACK_TRANSLATION_MAX_LENGTH: 1000, // 逆翻訳で検証する最大文字数
   DEFAULT_RATE_LIMIT: 10, // 1秒あたりのリクエスト数
+  DEFAULT_LANGUAGE_REGISTRY_TTL: 300, // 言語レジストリを Parameter Store から読み直す間隔（秒）
   
-  // サポート言語
-  SUPPORTED_LANGUAGES: [
-    'ja', 'en', 'zh', 'ko', 'es', 'fr', 
-    'de', 'it', 'pt', 'ru', 'ar', 'hi'
-  ] as SupportedLanguage[],
-  
-  // 言語名マッピング
-  LANGUAGE_NAMES: {
-    'ja': '日本語',
-    'en': 'English',
-    'zh': '中文',
-    'ko': '한국어',
-    'es': 'Español',
-    'fr': 'Français',
-    'de': 'Deutsch',
-    'it': 'Italiano',
-    'pt': 'Português',
-    'ru': 'Русский',
-    'ar': 'العربية',
-    'hi': 'हिन्दी'
-  } as Record<SupportedLanguage, string>,
-  
-  // エラーメッセージ
-  ERROR_MESSAGES: {
-    'EMPTY_TEXT': 'テキストが入力されていません',
-    'TEXT_TOO_LONG': 'テキストが長すぎます',
-    'MISSING_TARGET_LANGUAGE': '翻訳先の言語が指定されていません',
-    'UNSUPPORTED_LANGUAGE_PAIR': 'サポートされていない言語の組み合わせです',
-    'LANGUAGE_DETECTION_FAILED': '言語の自動検出に失敗しました',
-    'TRANSLATION_SERVICE_ERROR': '翻訳サービスでエラーが発生しました',
-    'DETECTION_SERVICE_ERROR': '言語検出サービスでエラーが発生しました',
-    'TEXT_SIZE_LIMIT_EXCEEDED': 'テキストサイズが制限を超えています',
-    'EMPTY_TRANSLATION_RESULT': '翻訳結果が取得できませんでした'
-  } as Record<string, string>,
+  // 言語レジストリのローカル定義（Parameter Store から取得できない場合に使用）
+  // enabled: false の言語は Parameter Store の定義で有効化できる
+  LANGUAGE_DEFINITIONS: [
+    { code: 'ja', nativeName: '日本語', englishName: 'Japanese', direction: 'ltr', providerCodes: {}, enabled: true },
+    { code: 'en', nativeName: 'English', englishName: 'English', direction: 'ltr', providerCodes: {}, enabled: true },
+    { code: 'zh', nativeName: '中文', englishName: 'Chinese (Simplified)', direction: 'ltr', providerCodes: {}, enabled: true },
+    { code: 'ko', nativeName: '한국어', englishName: 'Korean', direction: 'ltr', providerCodes: {}, enabled: true },
+    { code: 'es', nativeName: 'Español', englishName: 'Spanish', direction: 'ltr', providerCodes: {}, enabled: true },
+    { code: 'fr', nativeName: 'Français', englishName: 'French', direction: 'ltr', providerCodes: {}, enabled: true },
+    { code: 'de', nativeName: 'Deutsch', englishName: 'German', direction: 'ltr', providerCodes: {}, enabled: true },
+    { code: 'it', nativeName: 'Italiano', englishName: 'Italian', direction: 'ltr', providerCodes: {}, enabled: true },
+    { code: 'pt', nativeName: 'Português', englishName: 'Portuguese', direction: 'ltr', providerCodes: {}, enabled: true },
+    { code: 'ru', nativeName: 'Русский', englishName: 'Russian', direction: 'ltr', providerCodes: {}, enabled: true },
+    { code: 'ar', nativeName: 'العربية', englishName: 'Arabic', direction: 'rtl', providerCodes: {}, enabled: true },
+    { code: 'hi', nativeName: 'हिन्दी', englishName: 'Hindi', direction: 'ltr', providerCodes: {}, enabled: true },
+    { code: 'zh-TW', nativeName: '繁體中文', englishName: 'Chinese (Traditional)', direction: 'ltr', providerCodes: {}, enabled: false },
+    { code: 'vi', nativeName: 'Tiếng Việt', englishName: 'Vietnamese', direction: 'ltr', providerCodes: {}, enabled: false },
+    { code: 'th', nativeName: 'ไทย', englishName: 'Thai', direction: 'ltr', providerCodes: {}, enabled: false },
+    { code: 'id', nativeName: 'Bahasa Indonesia', englishName: 'Indonesian', direction: 'ltr', providerCodes: {}, enabled: false },
+    { code: 'tr', nativeName: 'Türkçe', englishName: 'Turkish', direction: 'ltr', providerCodes: {}, enabled: false },
+    { code: 'nl', nativeName: 'Nederlands', englishName: 'Dutch', direction: 'ltr', providerCodes: {}, enabled: false },
+    { code: 'pl', nativeName: 'Polski', englishName: 'Polish', direction: 'ltr', providerCodes: {}, enabled: false },
+    { code: 'uk', nativeName: 'Українська', englishName: 'Ukrainian', direction: 'ltr', providerCodes: {}, enabled: false }
+  ] as LanguageDefinition[],
   
   // AWS Parameter Store のパラメータ名
   PARAMETER_NAMES: {
     REGION: '/multilingual-community/prod/app/region',
     SUPPORTED_LANGUAGES: '/multilingual-community/prod/translate/source-languages',
+    LANGUAGES: '/multilingual-community/prod/translate/languages',
     CONFIDENCE_THRESHOLD: '/multilingual-community/prod/translate/confidence-threshold',
     CACHE_TTL: '/multilingual-community/prod/translate/cache-ttl',
     MAX_TEXT_LENGTH: '/multilingual-community/prod/translate/max-text-length',
@@ -74,28 +74,25 @@ export const TRANSLATION_CONFIG = {
 export function getTranslationConfig() {
   return {
     region: process.env.AWS_REGION || 'ap-northeast-1',
+    provider: process.env.TRANSLATION_PROVIDER || 'amazon',
     maxTextLength: parseInt(process.env.TRANSLATE_MAX_TEXT_LENGTH || '5000'),
     confidenceThreshold: parseFloat(process.env.TRANSLATE_CONFIDENCE_THRESHOLD || '0.7'),
     cacheEnabled: process.env.TRANSLATE_CACHE_ENABLED !== 'false',
     cacheTtl: parseInt(process.env.TRANSLATE_CACHE_TTL || '86400'),
     retryAttempts: parseInt(process.env.TRANSLATE_RETRY_ATTEMPTS || '3'),
     retryDelay: parseInt(process.env.TRANSLATE_RETRY_DELAY || '1000'),
-    rateLimit: parseInt(process.env.TRANSLATE_RATE_LIMIT || '10')
+    retryMaxDelay: parseInt(process.env.TRANSLATE_RETRY_MAX_DELAY || '10000'),
+    circuitBreakerThreshold: parseInt(process.env.TRANSLATE_CIRCUIT_BREAKER_THRESHOLD || '5'),
+    circuitBreakerResetTimeout: parseInt(process.env.TRANSLATE_CIRCUIT_BREAKER_RESET_TIMEOUT || '30000'),
+    workerConcurrency: parseInt(process.env.TRANSLATE_WORKER_CONCURRENCY || '10'),
+    backTranslationRate: parseFloat(process.env.TRANSLATE_BACK_TRANSLATION_RATE || '0.05'),
+    backTranslationMaxLength: parseInt(process.env.TRANSLATE_BACK_TRANSLATION_MAX_LENGTH || '1000'),
+    sentenceCache: process.env.TRANSLATE_SENTENCE_CACHE === 'true',
+    rateLimit: parseInt(process.env.TRANSLATE_RATE_LIMIT || '10'),
+    languageRegistryTtl: parseInt(process.env.TRANSLATE_LANGUAGE_REGISTRY_TTL || '300')
   };
 }
 
-/**
- * 言語ペアがサポートされているかチェック
- */
-export function isSupportedLanguagePair(
-  sourceLanguage: string, 
-  targetLanguage: string
-): boolean {
-  const supported = TRANSLATION_CONFIG.SUPPORTED_LANGUAGES;
-  return supported.includes(sourceLanguage as SupportedLanguage) && 
-         supported.includes(targetLanguage as SupportedLanguage);
-}
-
 /**
  * 翻訳コストを計算（概算）
  */
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { TranslationController } from '../translationController';
 import { translationService } from '../../services/translationService';
+import { TRANSLATION_CONFIG } from '../../config/translation';
 
 // モック設定
 jest.mock('../../services/translationService');
@@ -65,7 +66,8 @@ describe('TranslationController', () => {
       expect(mockTranslationService.translateText).toHaveBeenCalledWith({
         text: 'Hello, world!',
         sourceLanguage: 'en',
-        targetLanguage: 'ja'
+        targetLanguage: 'ja',
+        usage: { userId: undefined, route: 'POST /api/translate' }
       });
 
       expect(mockStatus).toHaveBeenCalledWith(200);
@@ -145,7 +147,31 @@ describe('TranslationController', () => {
           success: false,
           error: expect.objectContaining({
             code: 'TRANSLATION_SERVICE_ERROR',
-            message: 'Translation service error'
+            message: '翻訳サービスでエラーが発生しました'
+          })
+        })
+      );
+    });
+
+    it('Accept-Language の言語でエラーメッセージを返す', async () => {
+      mockRequest.headers = { 'accept-language': 'en-US,en;q=0.9,ja;q=0.5' };
+      mockRequest.body = {
+        text: 'Hello, world!',
+        targetLanguage: 'ja'
+      };
+
+      const error = new Error('Translation service error');
+      (error as any).code = 'TRANSLATION_SERVICE_ERROR';
+      mockTranslationService.translateText.mockRejectedValue(error);
+
+      await controller.translateText(mockRequest as Request, mockResponse as Response);
+
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: false,
+          error: expect.objectContaining({
+            code: 'TRANSLATION_SERVICE_ERROR',
+            message: 'An error occurred in the translation service'
           })
         })
       );
@@ -251,6 +277,25 @@ describe('TranslationController', () => {
         })
       );
     });
+
+    it('テキスト数の上限をリクエストの言語のメッセージに含める', async () => {
+      mockRequest.headers = { 'accept-language': 'en' };
+      mockRequest.body = {
+        texts: new Array(101).fill('test text'),
+        targetLanguage: 'ja'
+      };
+
+      await controller.translateBatch(mockRequest as Request, mockResponse as Response);
+
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          error: expect.objectContaining({
+            code: 'TOO_MANY_TEXTS',
+            message: 'Batch translation accepts at most 100 texts'
+          })
+        })
+      );
+    });
   });
 
   describe('detectLanguage', () => {
@@ -261,7 +306,8 @@ describe('TranslationController', () => {
 
       const detectionResult = {
         languageCode: 'ja',
-        score: 0.95
+        confidence: 0.95,
+        alternatives: []
       };
 
       mockTranslationService.detectLanguage.mockResolvedValue(detectionResult);
@@ -306,11 +352,9 @@ describe('TranslationController', () => {
     it('サポート言語一覧を取得できる', async () => {
       const supportedLanguages = ['ja', 'en', 'zh', 'ko'];
       mockTranslationService.getSupportedLanguages.mockResolvedValue(supportedLanguages);
-      mockTranslationService.getLanguageName
-        .mockReturnValueOnce('日本語')
-        .mockReturnValueOnce('English')
-        .mockReturnValueOnce('中文')
-        .mockReturnValueOnce('한국어');
+      mockTranslationService.getLanguageDefinition.mockImplementation(code =>
+        TRANSLATION_CONFIG.LANGUAGE_DEFINITIONS.find(definition => definition.code === code)
+      );
 
       await controller.getSupportedLanguages(mockRequest as Request, mockResponse as Response);
 
@@ -320,10 +364,10 @@ describe('TranslationController', () => {
           success: true,
           data: expect.objectContaining({
             languages: [
-              { code: 'ja', name: '日本語' },
-              { code: 'en', name: 'English' },
-              { code: 'zh', name: '中文' },
-              { code: 'ko', name: '한국어' }
+              { code: 'ja', name: '日本語', englishName: 'Japanese', direction: 'ltr' },
+              { code: 'en', name: 'English', englishName: 'English', direction: 'ltr' },
+              { code: 'zh', name: '中文', englishName: 'Chinese (Simplified)', direction: 'ltr' },
+              { code: 'ko', name: '한국어', englishName: 'Korean', direction: 'ltr' }
             ],
             count: 4
           })
@@ -1,43 +1,60 @@
 import { Request, Response } from 'express';
+import { createInterface } from 'readline';
 import { translationCacheService } from '../services/translationCacheService';
-import { getLocalizedErrorMessage } from '../utils/translationUtils';
+import { translationCacheWarmupService } from '../services/translationCacheWarmupService';
+import { translationCacheAuditService } from '../services/translationCacheAuditService';
+import { translationCacheInvalidationService } from '../services/translationCacheInvalidationService';
+import { translationCacheTransferService } from '../services/translationCacheTransferService';
+import { TranslationError } from '../services/translationError';
+import { CacheEntryFilter, CacheImportConflictPolicy } from '../models/translationCache';
+import { CacheAuditOperation } from '../models/translationCacheAudit';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  createResponseContext,
+  sendTranslationResponse,
+  sendTranslationError,
+  sendServiceError,
+  TranslationResponseContext
+} from '../utils/translationResponse';
+import { TranslationErrorCode } from '../types/translation';
+
+/**
+ * キャッシュ管理のエラーコードと HTTP ステータス（これ以外のエラーは 500）
+ */
+const CACHE_ERROR_STATUS_CODES: Partial<Record<TranslationErrorCode, number>> = {
+  INVALID_CACHE_STATISTICS_PERIOD: 400,
+  INVALID_CACHE_AUDIT_QUERY: 400,
+  INVALID_CACHE_ENTRY_FILTER: 400,
+  INVALID_CACHE_IMPORT_REQUEST: 400,
+  CACHE_WARMUP_NOT_FOUND: 404,
+  CACHE_INVALIDATION_NOT_FOUND: 404,
+  CACHE_WARMUP_IN_PROGRESS: 409,
+  CACHE_INVALIDATION_ALREADY_UNDONE: 409
+};
 
 /**
  * 翻訳キャッシュ管理用のコントローラー
  */
 export class TranslationCacheController {
   /**
-   * キャッシュ統計情報を取得
+   * キャッシュ統計情報を取得（期間内の日別・言語ペア別のヒット率を含む）
+   * GET /api/translation-cache/statistics?from=2024-01-01&to=2024-01-31&sourceLanguage=en&targetLanguage=ja
    */
   async getStatistics(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
     try {
-      const statistics = await translationCacheService.getStatistics();
-      
-      res.json({
-        success: true,
-        data: statistics,
-        metadata: {
-          requestId: req.headers['x-request-id'] || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        }
+      const statistics = await translationCacheService.getStatistics({
+        from: req.query.from as string | undefined,
+        to: req.query.to as string | undefined,
+        sourceLanguage: req.query.sourceLanguage as string | undefined,
+        targetLanguage: req.query.targetLanguage as string | undefined
       });
+      
+      sendTranslationResponse(res, context, statistics);
     } catch (error) {
       console.error('キャッシュ統計取得エラー:', error);
-      
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'CACHE_STATISTICS_ERROR',
-          message: 'キャッシュ統計情報の取得に失敗しました',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        metadata: {
-          requestId: req.headers['x-request-id'] || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        }
-      });
+      sendServiceError(res, context, error, 'CACHE_STATISTICS_ERROR', CACHE_ERROR_STATUS_CODES);
     }
   }
 
@@ -45,23 +62,16 @@ export class TranslationCacheController {
    * 言語ペア別のキャッシュエントリを取得
    */
   async getByLanguagePair(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
     try {
       const { sourceLanguage, targetLanguage } = req.params;
       const limit = parseInt(req.query.limit as string) || 100;
 
       if (!sourceLanguage || !targetLanguage) {
-        res.status(400).json({
-          success: false,
-          error: {
-            code: 'MISSING_PARAMETERS',
-            message: '言語パラメータが不足しています',
-            details: 'sourceLanguage と targetLanguage が必要です'
-          },
-          metadata: {
-            requestId: req.headers['x-request-id'] || 'unknown',
-            timestamp: new Date().toISOString(),
-            version: '1.0.0'
-          }
+        sendTranslationError(res, context, 400, {
+          code: 'MISSING_PARAMETERS',
+          details: 'sourceLanguage と targetLanguage が必要です'
         });
         return;
       }
@@ -72,60 +82,86 @@ export class TranslationCacheController {
         limit
       );
 
-      res.json({
-        success: true,
-        data: {
-          entries,
-          count: entries.length,
-          sourceLanguage,
-          targetLanguage,
-          limit
-        },
-        metadata: {
-          requestId: req.headers['x-request-id'] || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        }
+      sendTranslationResponse(res, context, {
+        entries,
+        count: entries.length,
+        sourceLanguage,
+        targetLanguage,
+        limit
       });
     } catch (error) {
       console.error('言語ペア別キャッシュ取得エラー:', error);
       
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'CACHE_RETRIEVAL_ERROR',
-          message: '言語ペア別キャッシュの取得に失敗しました',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        metadata: {
-          requestId: req.headers['x-request-id'] || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        }
+      sendTranslationError(res, context, 500, {
+        code: 'CACHE_RETRIEVAL_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * 条件に一致するキャッシュエントリを取得（管理者用、カーソルでページング）
+   * GET /api/translation-cache/entries?sourceLanguage=en&targetLanguage=ja&text=lambda&from=2024-01-01&to=2024-01-31&minQualityScore=0&maxQualityScore=0.5&minHitCount=10&limit=50&cursor=...
+   */
+  async listEntries(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const result = await translationCacheService.listEntries(
+        this.parseEntryFilter(req),
+        req.query.limit ? Number(req.query.limit) : undefined,
+        req.query.cursor as string | undefined
+      );
+
+      sendTranslationResponse(res, context, {
+        entries: result.entries,
+        count: result.entries.length,
+        ...(result.nextCursor && { nextCursor: result.nextCursor })
       });
+    } catch (error) {
+      console.error('キャッシュエントリ一覧取得エラー:', error);
+      sendServiceError(res, context, error, 'CACHE_RETRIEVAL_ERROR', CACHE_ERROR_STATUS_CODES);
     }
   }
 
   /**
-   * 特定のキャッシュエントリを削除
+   * contentHash でキャッシュエントリを取得（管理者用、期限切れのエントリも含む）
+   * GET /api/translation-cache/entries/:contentHash
+   */
+  async getEntry(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const entry = await translationCacheService.getEntry(req.params.contentHash!);
+      if (!entry) {
+        sendTranslationError(res, context, 404, {
+          code: 'TRANSLATION_CACHE_ENTRY_NOT_FOUND'
+        });
+        return;
+      }
+
+      sendTranslationResponse(res, context, entry);
+    } catch (error) {
+      console.error('キャッシュエントリ取得エラー:', error);
+      sendServiceError(res, context, error, 'CACHE_RETRIEVAL_ERROR', CACHE_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 特定のキャッシュエントリを削除（管理者用）
+   * ?dryRun=true の場合は削除せず、削除対象のエントリを返す
    */
   async deleteEntry(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+    const dryRun = this.isDryRun(req);
+
     try {
       const { originalText, sourceLanguage, targetLanguage } = req.body;
 
       if (!originalText || !sourceLanguage || !targetLanguage) {
-        res.status(400).json({
-          success: false,
-          error: {
-            code: 'MISSING_PARAMETERS',
-            message: '必要なパラメータが不足しています',
-            details: 'originalText, sourceLanguage, targetLanguage が必要です'
-          },
-          metadata: {
-            requestId: req.headers['x-request-id'] || 'unknown',
-            timestamp: new Date().toISOString(),
-            version: '1.0.0'
-          }
+        sendTranslationError(res, context, 400, {
+          code: 'MISSING_PARAMETERS',
+          details: 'originalText, sourceLanguage, targetLanguage が必要です'
         });
         return;
       }
@@ -133,163 +169,362 @@ export class TranslationCacheController {
       const result = await translationCacheService.delete(
         originalText,
         sourceLanguage,
-        targetLanguage
+        targetLanguage,
+        dryRun
       );
 
+      if (!dryRun) {
+        // 原文は記録せず、削除に使ったキャッシュキー（用語集のバージョンを含む）で対象を特定できるようにする
+        await this.recordAudit(req, context, 'delete_entry', {
+          contentHash: result.contentHash,
+          sourceLanguage,
+          targetLanguage
+        }, result.affectedCount || 0, result.error);
+      }
+
       if (result.success) {
-        res.json({
-          success: true,
-          data: {
-            message: 'キャッシュエントリを削除しました',
-            originalText,
-            sourceLanguage,
-            targetLanguage
-          },
-          metadata: {
-            requestId: req.headers['x-request-id'] || 'unknown',
-            timestamp: new Date().toISOString(),
-            version: '1.0.0'
-          }
+        sendTranslationResponse(res, context, {
+          message: dryRun ? '削除対象のキャッシュエントリを確認しました（削除していません）' : 'キャッシュエントリを削除しました',
+          originalText,
+          sourceLanguage,
+          targetLanguage,
+          dryRun,
+          affectedCount: result.affectedCount || 0,
+          ...(dryRun && { entry: result.entry || null })
         });
       } else {
-        res.status(500).json({
-          success: false,
-          error: {
-            code: 'CACHE_DELETE_ERROR',
-            message: result.error || 'キャッシュエントリの削除に失敗しました'
-          },
-          metadata: {
-            requestId: req.headers['x-request-id'] || 'unknown',
-            timestamp: new Date().toISOString(),
-            version: '1.0.0'
-          }
+        sendTranslationError(res, context, 500, {
+          code: 'CACHE_DELETE_ERROR',
+          details: result.error
         });
       }
     } catch (error) {
       console.error('キャッシュ削除エラー:', error);
       
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'CACHE_DELETE_ERROR',
-          message: 'キャッシュエントリの削除に失敗しました',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        metadata: {
-          requestId: req.headers['x-request-id'] || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        }
+      sendTranslationError(res, context, 500, {
+        code: 'CACHE_DELETE_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   }
 
   /**
-   * 期限切れキャッシュエントリをクリーンアップ
+   * 期限切れキャッシュエントリをクリーンアップ（管理者用）
+   * ?dryRun=true の場合は削除せず、対象の件数だけを返す
    */
   async cleanupExpired(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+    const dryRun = this.isDryRun(req);
+
     try {
-      const deletedCount = await translationCacheService.cleanupExpiredEntries();
-
-      res.json({
-        success: true,
-        data: {
-          message: '期限切れキャッシュエントリをクリーンアップしました',
-          deletedCount
-        },
-        metadata: {
-          requestId: req.headers['x-request-id'] || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        }
+      const affectedCount = await translationCacheService.cleanupExpiredEntries(dryRun);
+
+      if (!dryRun) {
+        await this.recordAudit(req, context, 'cleanup_expired', {}, affectedCount);
+      }
+
+      sendTranslationResponse(res, context, {
+        message: dryRun
+          ? '期限切れキャッシュエントリの件数を確認しました（削除していません）'
+          : '期限切れキャッシュエントリをクリーンアップしました',
+        dryRun,
+        affectedCount,
+        ...(!dryRun && { deletedCount: affectedCount })
       });
     } catch (error) {
       console.error('キャッシュクリーンアップエラー:', error);
       
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'CACHE_CLEANUP_ERROR',
-          message: 'キャッシュクリーンアップに失敗しました',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        metadata: {
-          requestId: req.headers['x-request-id'] || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        }
+      sendTranslationError(res, context, 500, {
+        code: 'CACHE_CLEANUP_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   }
 
   /**
    * 全キャッシュエントリを削除（管理者用）
+   * ?dryRun=true の場合は削除せず、対象の件数だけを返す
    */
   async clearAll(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+    const dryRun = this.isDryRun(req);
+
     try {
-      // 管理者権限チェック（実装は認証システムに依存）
-      const isAdmin = req.headers['x-admin-token'] === process.env.ADMIN_TOKEN;
-      
-      if (!isAdmin) {
-        res.status(403).json({
-          success: false,
-          error: {
-            code: 'INSUFFICIENT_PERMISSIONS',
-            message: '管理者権限が必要です'
-          },
-          metadata: {
-            requestId: req.headers['x-request-id'] || 'unknown',
-            timestamp: new Date().toISOString(),
-            version: '1.0.0'
-          }
-        });
-        return;
-      }
+      const result = await translationCacheService.clearAll(dryRun);
 
-      const result = await translationCacheService.clearAll();
+      if (!dryRun) {
+        await this.recordAudit(req, context, 'clear_all', {}, result.affectedCount || 0, result.error);
+      }
 
       if (result.success) {
-        res.json({
-          success: true,
-          data: {
-            message: '全キャッシュエントリを削除しました'
-          },
-          metadata: {
-            requestId: req.headers['x-request-id'] || 'unknown',
-            timestamp: new Date().toISOString(),
-            version: '1.0.0'
-          }
+        sendTranslationResponse(res, context, {
+          message: dryRun ? '削除対象のキャッシュエントリ数を確認しました（削除していません）' : '全キャッシュエントリを削除しました',
+          dryRun,
+          affectedCount: result.affectedCount || 0
         });
       } else {
-        res.status(500).json({
-          success: false,
-          error: {
-            code: 'CACHE_CLEAR_ERROR',
-            message: result.error || '全キャッシュクリアに失敗しました'
-          },
-          metadata: {
-            requestId: req.headers['x-request-id'] || 'unknown',
-            timestamp: new Date().toISOString(),
-            version: '1.0.0'
-          }
+        sendTranslationError(res, context, 500, {
+          code: 'CACHE_CLEAR_ERROR',
+          details: result.error
         });
       }
     } catch (error) {
       console.error('全キャッシュクリアエラー:', error);
       
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'CACHE_CLEAR_ERROR',
-          message: '全キャッシュクリアに失敗しました',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        metadata: {
-          requestId: req.headers['x-request-id'] || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
+      sendTranslationError(res, context, 500, {
+        code: 'CACHE_CLEAR_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * 条件に一致するキャッシュエントリをまとめて削除（管理者用）
+   * ?dryRun=true の場合は削除せず、対象の件数と先頭のエントリを返す
+   * POST /api/translation-cache/invalidations
+   */
+  async createInvalidation(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+    const filter = req.body as CacheEntryFilter;
+
+    try {
+      if (this.isDryRun(req)) {
+        const preview = await translationCacheInvalidationService.preview(filter);
+        sendTranslationResponse(res, context, { ...preview, dryRun: true });
+        return;
+      }
+
+      const invalidation = await translationCacheInvalidationService.invalidate(
+        filter,
+        (req as AuthenticatedRequest).user.id,
+        context.requestId
+      );
+      await this.recordAudit(req, context, 'bulk_invalidate', {
+        filter,
+        invalidationId: invalidation.invalidationId
+      }, invalidation.affectedCount);
+
+      sendTranslationResponse(res, context, invalidation, 201);
+    } catch (error) {
+      console.error('キャッシュ一括無効化エラー:', error);
+      // 条件の誤りなどで削除していない場合は記録しない
+      if (!(error instanceof TranslationError)) {
+        await this.recordAudit(req, context, 'bulk_invalidate', { filter }, 0,
+          error instanceof Error ? error.message : 'Unknown error');
+      }
+      sendServiceError(res, context, error, 'CACHE_INVALIDATION_ERROR', CACHE_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 一括無効化の記録を取得（管理者用）
+   * GET /api/translation-cache/invalidations/:invalidationId
+   */
+  async getInvalidation(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const invalidation = await translationCacheInvalidationService.get(req.params.invalidationId!);
+
+      sendTranslationResponse(res, context, invalidation);
+    } catch (error) {
+      console.error('キャッシュ一括無効化取得エラー:', error);
+      sendServiceError(res, context, error, 'CACHE_INVALIDATION_ERROR', CACHE_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 一括無効化を取り消し、削除したエントリを復元（管理者用）
+   * POST /api/translation-cache/invalidations/:invalidationId/undo
+   */
+  async undoInvalidation(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+    const invalidationId = req.params.invalidationId!;
+
+    try {
+      const invalidation = await translationCacheInvalidationService.undo(
+        invalidationId,
+        (req as AuthenticatedRequest).user.id
+      );
+      await this.recordAudit(req, context, 'undo_invalidation', { invalidationId }, invalidation.restoredCount || 0);
+
+      sendTranslationResponse(res, context, invalidation);
+    } catch (error) {
+      console.error('キャッシュ一括無効化の取り消しエラー:', error);
+      if (!(error instanceof TranslationError)) {
+        await this.recordAudit(req, context, 'undo_invalidation', { invalidationId }, 0,
+          error instanceof Error ? error.message : 'Unknown error');
+      }
+      sendServiceError(res, context, error, 'CACHE_INVALIDATION_ERROR', CACHE_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 条件に一致するキャッシュエントリを NDJSON で書き出す（管理者用、期限切れのエントリも含む）
+   * 書き出しを始めた後に失敗した場合は、エラーレスポンスを返せないため接続を切る
+   * GET /api/translation-cache/export
+   */
+  async exportEntries(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+    const startResponse = () => {
+      if (!res.headersSent) {
+        res.status(200);
+        res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+        res.setHeader('Content-Disposition',
+          `attachment; filename="translation-cache-${new Date().toISOString().slice(0, 10)}.ndjson"`);
+      }
+    };
+
+    try {
+      const exportedCount = await translationCacheTransferService.exportEntries(this.parseEntryFilter(req), async line => {
+        startResponse();
+        if (!res.write(line)) {
+          await new Promise(resolve => {
+            res.once('drain', resolve);
+            res.once('close', resolve);
+          });
+        }
+        if (res.destroyed) {
+          throw new Error('クライアントとの接続が切れました');
         }
       });
+
+      startResponse();
+      res.end();
+      console.log(`キャッシュを書き出しました（${exportedCount}件、リクエストID: ${context.requestId}）`);
+    } catch (error) {
+      console.error('キャッシュ書き出しエラー:', error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      sendServiceError(res, context, error, 'CACHE_EXPORT_ERROR', CACHE_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * NDJSON（Content-Type: application/x-ndjson）のキャッシュエントリを取り込む（管理者用）
+   * ?conflictPolicy=skip|overwrite|keep-higher-quality（デフォルト: skip）、?dryRun=true で件数のみ
+   * POST /api/translation-cache/import
+   */
+  async importEntries(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+    const conflictPolicy = ((req.query.conflictPolicy as string | undefined) || 'skip') as CacheImportConflictPolicy;
+    const dryRun = this.isDryRun(req);
+
+    try {
+      if (!req.is('application/x-ndjson')) {
+        throw new TranslationError('Content-Type には application/x-ndjson を指定してください', 'INVALID_CACHE_IMPORT_REQUEST');
+      }
+
+      const result = await translationCacheTransferService.importEntries(
+        createInterface({ input: req, crlfDelay: Infinity }),
+        { conflictPolicy, dryRun }
+      );
+      if (!dryRun) {
+        await this.recordAudit(req, context, 'import_entries', {
+          conflictPolicy,
+          total: result.total,
+          created: result.created,
+          overwritten: result.overwritten,
+          skipped: result.skipped,
+          expired: result.expired,
+          invalid: result.invalid
+        }, result.created + result.overwritten);
+      }
+
+      sendTranslationResponse(res, context, result);
+    } catch (error) {
+      console.error('キャッシュ取り込みエラー:', error);
+      // リクエストの誤りで取り込んでいない場合は記録しない
+      if (!dryRun && !(error instanceof TranslationError)) {
+        await this.recordAudit(req, context, 'import_entries', { conflictPolicy }, 0,
+          error instanceof Error ? error.message : 'Unknown error');
+      }
+      sendServiceError(res, context, error, 'CACHE_IMPORT_ERROR', CACHE_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 人気の投稿とよく参照されるエントリを事前に翻訳（管理者用）
+   * dryRun が true の場合は件数と概算コストの見積もりだけを返す
+   * POST /api/translation-cache/warmup
+   */
+  async startWarmup(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const run = await translationCacheWarmupService.start(req.body, (req as AuthenticatedRequest).user?.id);
+
+      sendTranslationResponse(res, context, run, run.dryRun ? 200 : 202);
+    } catch (error) {
+      console.error('キャッシュウォームアップエラー:', error);
+      sendServiceError(res, context, error, 'CACHE_WARMUP_ERROR', CACHE_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 最近のウォームアップの進捗を取得（管理者用）
+   * GET /api/translation-cache/warmup
+   */
+  async listWarmups(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const runs = translationCacheWarmupService.listRuns();
+
+      sendTranslationResponse(res, context, {
+        runs,
+        count: runs.length
+      });
+    } catch (error) {
+      console.error('キャッシュウォームアップ取得エラー:', error);
+      sendServiceError(res, context, error, 'CACHE_WARMUP_ERROR', CACHE_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * ウォームアップの進捗を取得（管理者用）
+   * GET /api/translation-cache/warmup/:runId
+   */
+  async getWarmup(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const run = translationCacheWarmupService.getRun(req.params.runId!);
+
+      sendTranslationResponse(res, context, run);
+    } catch (error) {
+      console.error('キャッシュウォームアップ取得エラー:', error);
+      sendServiceError(res, context, error, 'CACHE_WARMUP_ERROR', CACHE_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 削除・クリーンアップの監査ログを新しい順に取得（管理者用）
+   * GET /api/translation-cache/audit-logs?from=2024-01-01&to=2024-01-31&actorId=user-1&operation=clear_all&limit=50&cursor=...
+   */
+  async getAuditLogs(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const result = await translationCacheAuditService.query({
+        from: req.query.from as string | undefined,
+        to: req.query.to as string | undefined,
+        actorId: req.query.actorId as string | undefined,
+        operation: req.query.operation as string | undefined,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        cursor: req.query.cursor as string | undefined
+      });
+
+      sendTranslationResponse(res, context, {
+        logs: result.logs,
+        count: result.logs.length,
+        ...(result.nextCursor && { nextCursor: result.nextCursor })
+      });
+    } catch (error) {
+      console.error('監査ログ取得エラー:', error);
+      sendServiceError(res, context, error, 'CACHE_AUDIT_LOG_RETRIEVAL_ERROR', CACHE_ERROR_STATUS_CODES);
     }
   }
 
@@ -297,33 +532,18 @@ export class TranslationCacheController {
    * キャッシュ設定を取得
    */
   async getConfig(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
     try {
       const config = translationCacheService.getConfig();
 
-      res.json({
-        success: true,
-        data: config,
-        metadata: {
-          requestId: req.headers['x-request-id'] || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        }
-      });
+      sendTranslationResponse(res, context, config);
     } catch (error) {
       console.error('キャッシュ設定取得エラー:', error);
       
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'CONFIG_RETRIEVAL_ERROR',
-          message: 'キャッシュ設定の取得に失敗しました',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        metadata: {
-          requestId: req.headers['x-request-id'] || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        }
+      sendTranslationError(res, context, 500, {
+        code: 'CONFIG_RETRIEVAL_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   }
@@ -332,6 +552,8 @@ export class TranslationCacheController {
    * キャッシュヘルスチェック
    */
   async healthCheck(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
     try {
       const health = await translationCacheService.healthCheck();
 
@@ -342,7 +564,7 @@ export class TranslationCacheController {
         success: health.status === 'healthy' || health.status === 'disabled',
         data: health,
         metadata: {
-          requestId: req.headers['x-request-id'] || 'unknown',
+          requestId: context.requestId,
           timestamp: new Date().toISOString(),
           version: '1.0.0'
         }
@@ -350,21 +572,63 @@ export class TranslationCacheController {
     } catch (error) {
       console.error('キャッシュヘルスチェックエラー:', error);
       
-      res.status(503).json({
-        success: false,
-        error: {
-          code: 'HEALTH_CHECK_ERROR',
-          message: 'キャッシュヘルスチェックに失敗しました',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        metadata: {
-          requestId: req.headers['x-request-id'] || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        }
+      sendTranslationError(res, context, 503, {
+        code: 'HEALTH_CHECK_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   }
+
+  /**
+   * クエリ文字列からキャッシュエントリの検索条件を作成（値の検証はキャッシュサービスで行う）
+   */
+  private parseEntryFilter(req: Request): CacheEntryFilter {
+    const text = (name: string) => req.query[name] as string | undefined;
+    const number = (name: string) => req.query[name] !== undefined ? Number(req.query[name]) : undefined;
+
+    return {
+      sourceLanguage: text('sourceLanguage'),
+      targetLanguage: text('targetLanguage'),
+      text: text('text'),
+      from: text('from'),
+      to: text('to'),
+      minQualityScore: number('minQualityScore'),
+      maxQualityScore: number('maxQualityScore'),
+      minHitCount: number('minHitCount'),
+      maxHitCount: number('maxHitCount')
+    };
+  }
+
+  /**
+   * ?dryRun=true が指定されているか
+   */
+  private isDryRun(req: Request): boolean {
+    return req.query.dryRun === 'true';
+  }
+
+  /**
+   * 削除操作を監査ログに記録（dryRun は記録しない）
+   */
+  private async recordAudit(
+    req: Request,
+    context: TranslationResponseContext,
+    operation: CacheAuditOperation,
+    parameters: Record<string, unknown>,
+    affectedCount: number,
+    error?: string
+  ): Promise<void> {
+    const user = (req as AuthenticatedRequest).user;
+
+    await translationCacheAuditService.record({
+      operation,
+      actor: { id: user.id, email: user.email },
+      requestId: context.requestId,
+      parameters,
+      affectedCount,
+      success: !error,
+      ...(error && { error })
+    });
+  }
 }
 
 // シングルトンインスタンスをエクスポート
@@ -1,13 +1,48 @@
 import { Request, Response } from 'express';
 import { translationService } from '../services/translationService';
-import { 
-  BaseTranslationRequest, 
+import { TranslationError } from '../services/translationError';
+import { translationWorkerPool } from '../services/translationWorkerPool';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
   ExtendedTranslationRequest,
+  ExtendedTranslationResult,
   BatchTranslationRequest,
-  TranslationApiResponse,
-  SupportedLanguage 
+  BatchTranslationResult,
+  BatchTranslationItemEvent,
+  MultiTargetTranslationRequest,
+  MultiTargetTranslationResult,
+  TranslationResult,
+  TranslationErrorCode,
+  TranslationErrorDetail,
+  LanguageTranslationError,
+  TranslationProgressEvent,
+  TranslationPriority,
+  TranslationUsageContext,
+  SupportedLanguage
 } from '../types/translation';
-import { v4 as uuidv4 } from 'uuid';
+import { openEventStream, EventStream } from '../utils/sse';
+import {
+  createResponseContext,
+  sendTranslationResponse,
+  sendTranslationError
+} from '../utils/translationResponse';
+import { getLocalizedErrorMessage } from '../utils/errorMessages';
+import { ErrorMessageCode } from '../types/errorMessages';
+
+/**
+ * バッチ翻訳で1リクエストに指定できるテキスト数の上限
+ */
+const MAX_BATCH_TEXTS = 100;
+
+/**
+ * バッチ翻訳の各テキストの実行結果
+ */
+type BatchItemOutcome = {
+  success: boolean;
+  result: ExtendedTranslationResult | null;
+  error: TranslationErrorDetail | null;
+  index?: number;
+};
 
 /**
  * 翻訳APIコントローラー
@@ -20,102 +55,54 @@ export class TranslationController {
    * POST /api/translate
    */
   async translateText(req: Request, res: Response): Promise<void> {
-    const startTime = Date.now();
-    const requestId = uuidv4();
+    const context = createResponseContext(req);
+    const { requestId } = context;
 
     try {
-      const { text, sourceLanguage, targetLanguage, useCache = true }: ExtendedTranslationRequest = req.body;
+      const { text, sourceLanguage, targetLanguage, preserveFormatting, priority }: ExtendedTranslationRequest = req.body;
 
       // 入力値検証
       if (!text || typeof text !== 'string' || text.trim().length === 0) {
-        const response: TranslationApiResponse = {
-          success: false,
-          error: {
-            code: 'INVALID_INPUT',
-            message: '翻訳対象のテキストが必要です'
-          },
-          metadata: {
-            requestId,
-            timestamp: new Date(),
-            processingTime: Date.now() - startTime,
-            version: '1.0.0'
-          }
-        };
-        res.status(400).json(response);
+        sendTranslationError(res, context, 400, {
+          code: 'INVALID_INPUT'
+        });
         return;
       }
 
       if (!targetLanguage || typeof targetLanguage !== 'string') {
-        const response: TranslationApiResponse = {
-          success: false,
-          error: {
-            code: 'INVALID_TARGET_LANGUAGE',
-            message: '翻訳先言語が必要です'
-          },
-          metadata: {
-            requestId,
-            timestamp: new Date(),
-            processingTime: Date.now() - startTime,
-            version: '1.0.0'
-          }
-        };
-        res.status(400).json(response);
+        sendTranslationError(res, context, 400, {
+          code: 'INVALID_TARGET_LANGUAGE'
+        });
         return;
       }
 
-      // 翻訳実行
-      const result = await translationService.translateText({
-        text: text.trim(),
-        sourceLanguage: sourceLanguage as SupportedLanguage,
-        targetLanguage: targetLanguage as SupportedLanguage
+      // 翻訳実行（共有ワーカープール経由）
+      let queueWaitTime = 0;
+      const result = await translationWorkerPool.submit(waitTime => {
+        queueWaitTime = waitTime;
+        return translationService.translateText({
+          text: text.trim(),
+          sourceLanguage,
+          targetLanguage,
+          ...(preserveFormatting !== undefined && { preserveFormatting }),
+          usage: { userId: (req as AuthenticatedRequest).user?.id, route: 'POST /api/translate' }
+        });
+      }, {
+        priority,
+        userId: (req as AuthenticatedRequest).user?.id
       });
 
-      const processingTime = Date.now() - startTime;
-
-      const response: TranslationApiResponse = {
-        success: true,
-        data: {
-          originalText: result.originalText,
-          translatedText: result.translatedText,
-          sourceLanguage: result.sourceLanguage as SupportedLanguage,
-          targetLanguage: result.targetLanguage as SupportedLanguage,
-          timestamp: new Date(),
-          confidence: result.confidence,
-          processingTime: result.processingTime,
-          fromCache: result.fromCache
-        },
-        metadata: {
-          requestId,
-          timestamp: new Date(),
-          processingTime,
-          version: '1.0.0'
-        }
-      };
-
+      const processingTime = Date.now() - context.startTime;
       console.log(`翻訳API完了 [${requestId}]: ${processingTime}ms, キャッシュ: ${result.fromCache}`);
-      res.status(200).json(response);
+      sendTranslationResponse(res, context, this.toExtendedResult(result, queueWaitTime));
 
     } catch (error) {
       console.error(`翻訳APIエラー [${requestId}]:`, error);
-      
-      const processingTime = Date.now() - startTime;
-      const response: TranslationApiResponse = {
-        success: false,
-        error: {
-          code: error instanceof Error && 'code' in error ? (error as any).code : 'TRANSLATION_ERROR',
-          message: error instanceof Error ? error.message : '翻訳中にエラーが発生しました',
-          details: error instanceof Error && 'originalError' in error ? { originalError: (error as any).originalError?.message } : undefined
-        },
-        metadata: {
-          requestId,
-          timestamp: new Date(),
-          processingTime,
-          version: '1.0.0'
-        }
-      };
 
-      const statusCode = this.getErrorStatusCode(error);
-      res.status(statusCode).json(response);
+      sendTranslationError(res, context, this.getErrorStatusCode(error), {
+        code: this.getErrorCode(error, 'TRANSLATION_ERROR'),
+        details: error instanceof Error && 'originalError' in error ? { originalError: (error as any).originalError?.message } : undefined
+      });
     }
   }
 
@@ -124,8 +111,8 @@ export class TranslationController {
    * POST /api/translate/batch
    */
   async translateBatch(req: Request, res: Response): Promise<void> {
-    const startTime = Date.now();
-    const requestId = uuidv4();
+    const context = createResponseContext(req);
+    const { requestId } = context;
 
     try {
       const { 
@@ -133,116 +120,247 @@ export class TranslationController {
         sourceLanguage, 
         targetLanguage, 
         preserveOrder = true,
-        maxConcurrency = 5 
+        maxConcurrency = 5,
+        priority = 'normal'
       }: BatchTranslationRequest = req.body;
 
       // 入力値検証
       if (!Array.isArray(texts) || texts.length === 0) {
-        const response: TranslationApiResponse = {
-          success: false,
-          error: {
-            code: 'INVALID_INPUT',
-            message: '翻訳対象のテキスト配列が必要です'
-          },
-          metadata: {
-            requestId,
-            timestamp: new Date(),
-            processingTime: Date.now() - startTime,
-            version: '1.0.0'
-          }
-        };
-        res.status(400).json(response);
+        sendTranslationError(res, context, 400, {
+          code: 'INVALID_INPUT',
+          messageCode: 'INVALID_INPUT_TEXTS'
+        });
         return;
       }
 
-      if (texts.length > 100) {
-        const response: TranslationApiResponse = {
-          success: false,
-          error: {
-            code: 'TOO_MANY_TEXTS',
-            message: 'バッチ翻訳は最大100件までです'
-          },
-          metadata: {
-            requestId,
-            timestamp: new Date(),
-            processingTime: Date.now() - startTime,
-            version: '1.0.0'
-          }
-        };
-        res.status(400).json(response);
+      if (texts.length > MAX_BATCH_TEXTS) {
+        sendTranslationError(res, context, 400, {
+          code: 'TOO_MANY_TEXTS',
+          params: { max: MAX_BATCH_TEXTS }
+        });
         return;
       }
 
       if (!targetLanguage) {
-        const response: TranslationApiResponse = {
-          success: false,
-          error: {
-            code: 'INVALID_TARGET_LANGUAGE',
-            message: '翻訳先言語が必要です'
-          },
-          metadata: {
-            requestId,
-            timestamp: new Date(),
-            processingTime: Date.now() - startTime,
-            version: '1.0.0'
-          }
-        };
-        res.status(400).json(response);
+        sendTranslationError(res, context, 400, {
+          code: 'INVALID_TARGET_LANGUAGE'
+        });
         return;
       }
 
       // バッチ翻訳実行
       const results = await this.executeBatchTranslation(
         texts,
-        sourceLanguage as SupportedLanguage,
-        targetLanguage as SupportedLanguage,
+        sourceLanguage,
+        targetLanguage,
         maxConcurrency,
-        preserveOrder
+        preserveOrder,
+        priority,
+        { userId: (req as AuthenticatedRequest).user?.id, route: 'POST /api/translate/batch' },
+        requestId,
+        context.locale
       );
 
-      const processingTime = Date.now() - startTime;
-      const successCount = results.filter(r => r.success).length;
-      const errorCount = results.length - successCount;
-
-      const response = {
-        success: true,
-        data: {
-          results: results.map(r => r.result).filter(r => r !== null),
-          totalProcessingTime: processingTime,
-          successCount,
-          errorCount,
-          errors: results.filter(r => !r.success).map(r => r.error).filter(e => e !== null)
-        },
-        metadata: {
-          requestId,
-          timestamp: new Date(),
-          processingTime,
-          version: '1.0.0'
-        }
-      };
+      const processingTime = Date.now() - context.startTime;
+      const data = this.createBatchResult(results, processingTime);
 
-      console.log(`バッチ翻訳API完了 [${requestId}]: ${processingTime}ms, 成功: ${successCount}/${texts.length}`);
-      res.status(200).json(response);
+      console.log(`バッチ翻訳API完了 [${requestId}]: ${processingTime}ms, 成功: ${data.successCount}/${texts.length}`);
+      sendTranslationResponse(res, context, data);
 
     } catch (error) {
       console.error(`バッチ翻訳APIエラー [${requestId}]:`, error);
-      
+
+      sendTranslationError(res, context, 500, {
+        code: 'BATCH_TRANSLATION_ERROR'
+      });
+    }
+  }
+
+  /**
+   * 単一テキストのストリーミング翻訳（Server-Sent Events）
+   * POST /api/translate/stream
+   *
+   * チャンクの翻訳が終わるたびに chunk / progress イベントを送り、最後に result イベントを送る
+   */
+  async translateTextStream(req: Request, res: Response): Promise<void> {
+    const { requestId, startTime, locale } = createResponseContext(req);
+    const { text, sourceLanguage, targetLanguage, preserveFormatting, priority }: ExtendedTranslationRequest = req.body;
+    const stream = openEventStream(res);
+
+    stream.send('start', { requestId });
+
+    try {
+      let successCount = 0;
+      let errorCount = 0;
+      let queueWaitTime = 0;
+
+      const result = await translationWorkerPool.submit(waitTime => {
+        queueWaitTime = waitTime;
+        return translationService.translateText({
+          text: text.trim(),
+          sourceLanguage,
+          targetLanguage,
+          ...(preserveFormatting !== undefined && { preserveFormatting }),
+          usage: { userId: (req as AuthenticatedRequest).user?.id, route: 'POST /api/translate/stream' }
+        }, chunk => {
+          if (chunk.error) {
+            errorCount++;
+          } else {
+            successCount++;
+          }
+          stream.send('chunk', chunk);
+          stream.send('progress', this.createProgressEvent(successCount, errorCount, chunk.total));
+        });
+      }, {
+        priority,
+        userId: (req as AuthenticatedRequest).user?.id
+      });
+
       const processingTime = Date.now() - startTime;
-      const response: TranslationApiResponse = {
-        success: false,
-        error: {
-          code: 'BATCH_TRANSLATION_ERROR',
-          message: error instanceof Error ? error.message : 'バッチ翻訳中にエラーが発生しました'
-        },
-        metadata: {
-          requestId,
-          timestamp: new Date(),
-          processingTime,
-          version: '1.0.0'
+      stream.send('result', this.toExtendedResult(result, queueWaitTime));
+
+      console.log(`ストリーミング翻訳API完了 [${requestId}]: ${processingTime}ms, キャッシュ: ${result.fromCache}`);
+
+    } catch (error) {
+      console.error(`ストリーミング翻訳APIエラー [${requestId}]:`, error);
+      this.sendStreamError(stream, error, 'TRANSLATION_ERROR', locale);
+    } finally {
+      stream.close();
+    }
+  }
+
+  /**
+   * バッチ翻訳のストリーミング版（Server-Sent Events）
+   * POST /api/translate/batch/stream
+   *
+   * テキストの翻訳が終わった順に item / progress イベントを送り、
+   * 最後に BatchTranslationResult 形式の summary イベントを送る
+   * クライアントが切断した場合、未実行のテキストは翻訳しない
+   */
+  async translateBatchStream(req: Request, res: Response): Promise<void> {
+    const { requestId, startTime, locale } = createResponseContext(req);
+    const {
+      texts,
+      sourceLanguage,
+      targetLanguage,
+      preserveOrder = true,
+      maxConcurrency = 5,
+      priority = 'normal'
+    }: BatchTranslationRequest = req.body;
+    const stream = openEventStream(res);
+
+    stream.send('start', { requestId, totalCount: texts.length });
+
+    try {
+      let successCount = 0;
+      let errorCount = 0;
+
+      const results = await this.executeBatchTranslation(
+        texts,
+        sourceLanguage,
+        targetLanguage,
+        maxConcurrency,
+        preserveOrder,
+        priority,
+        { userId: (req as AuthenticatedRequest).user?.id, route: 'POST /api/translate/batch/stream' },
+        requestId,
+        locale,
+        {
+          signal: stream.signal,
+          onSettled: (outcome, index) => {
+            if (outcome.success) {
+              successCount++;
+            } else {
+              errorCount++;
+            }
+            const itemEvent: BatchTranslationItemEvent = {
+              index,
+              success: outcome.success,
+              ...(outcome.success ? { result: outcome.result! } : { error: outcome.error! })
+            };
+            stream.send('item', itemEvent);
+            stream.send('progress', this.createProgressEvent(successCount, errorCount, texts.length));
+          }
         }
+      );
+
+      const processingTime = Date.now() - startTime;
+      stream.send('summary', this.createBatchResult(results, processingTime));
+
+      console.log(`ストリーミングバッチ翻訳API完了 [${requestId}]: ${processingTime}ms, 成功: ${successCount}/${texts.length}`);
+
+    } catch (error) {
+      console.error(`ストリーミングバッチ翻訳APIエラー [${requestId}]:`, error);
+      this.sendStreamError(stream, error, 'BATCH_TRANSLATION_ERROR', locale);
+    } finally {
+      stream.close();
+    }
+  }
+
+  /**
+   * 複数言語への翻訳
+   * POST /api/translate/multi
+   */
+  async translateMultiTarget(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+    const { requestId } = context;
+
+    try {
+      const {
+        text,
+        targetLanguages,
+        sourceLanguage,
+        preserveFormatting,
+        priority = 'normal'
+      }: MultiTargetTranslationRequest = req.body;
+
+      if (!text || typeof text !== 'string' || text.trim().length === 0) {
+        sendTranslationError(res, context, 400, {
+          code: 'INVALID_INPUT'
+        });
+        return;
+      }
+
+      const languages = targetLanguages === 'all'
+        ? await translationService.getSupportedLanguages()
+        : targetLanguages;
+      const userId = (req as AuthenticatedRequest).user?.id;
+
+      // キャッシュにない言語の翻訳は共有ワーカープールで実行
+      const result = await translationService.translateToLanguages({
+        text: text.trim(),
+        sourceLanguage,
+        targetLanguages: languages,
+        ...(preserveFormatting !== undefined && { preserveFormatting }),
+        usage: { userId, route: 'POST /api/translate/multi' }
+      }, task => translationWorkerPool.submit(task, { priority, userId, groupId: requestId }));
+
+      const processingTime = Date.now() - context.startTime;
+      const translations: MultiTargetTranslationResult['translations'] = {};
+      for (const [language, translation] of Object.entries(result.results) as Array<[SupportedLanguage, TranslationResult]>) {
+        translations[language] = this.toExtendedResult(translation);
+      }
+      const data: MultiTargetTranslationResult = {
+        originalText: result.originalText,
+        sourceLanguage: result.sourceLanguage,
+        confidence: result.confidence,
+        translations,
+        errors: this.localizeErrors(result.errors, context.locale),
+        totalProcessingTime: processingTime,
+        successCount: Object.keys(result.results).length,
+        errorCount: Object.keys(result.errors).length,
+        cacheHitCount: Object.values(result.results).filter(translation => translation.fromCache).length
       };
 
-      res.status(500).json(response);
+      console.log(`多言語翻訳API完了 [${requestId}]: ${processingTime}ms, 成功: ${data.successCount}/${languages.length}, キャッシュ: ${data.cacheHitCount}`);
+      sendTranslationResponse(res, context, data);
+
+    } catch (error) {
+      console.error(`多言語翻訳APIエラー [${requestId}]:`, error);
+
+      sendTranslationError(res, context, this.getErrorStatusCode(error), {
+        code: this.getErrorCode(error, 'TRANSLATION_ERROR')
+      });
     }
   }
 
@@ -251,71 +369,37 @@ export class TranslationController {
    * POST /api/translate/detect
    */
   async detectLanguage(req: Request, res: Response): Promise<void> {
-    const startTime = Date.now();
-    const requestId = uuidv4();
+    const context = createResponseContext(req);
+    const { requestId } = context;
 
     try {
-      const { text } = req.body;
+      const { text } = req.body as { text: string };
 
       if (!text || typeof text !== 'string' || text.trim().length === 0) {
-        const response: TranslationApiResponse = {
-          success: false,
-          error: {
-            code: 'INVALID_INPUT',
-            message: '言語検出対象のテキストが必要です'
-          },
-          metadata: {
-            requestId,
-            timestamp: new Date(),
-            processingTime: Date.now() - startTime,
-            version: '1.0.0'
-          }
-        };
-        res.status(400).json(response);
+        sendTranslationError(res, context, 400, {
+          code: 'INVALID_INPUT',
+          messageCode: 'INVALID_INPUT_DETECTION'
+        });
         return;
       }
 
       const result = await translationService.detectLanguage(text.trim());
-      const processingTime = Date.now() - startTime;
-
-      const response = {
-        success: true,
-        data: {
-          languageCode: result.languageCode,
-          confidence: result.score,
-          text: text.trim()
-        },
-        metadata: {
-          requestId,
-          timestamp: new Date(),
-          processingTime,
-          version: '1.0.0'
-        }
-      };
+      const processingTime = Date.now() - context.startTime;
 
       console.log(`言語検出API完了 [${requestId}]: ${processingTime}ms, 検出言語: ${result.languageCode}`);
-      res.status(200).json(response);
+      sendTranslationResponse(res, context, {
+        languageCode: result.languageCode,
+        confidence: result.confidence,
+        alternatives: result.alternatives || [],
+        text: text.trim()
+      });
 
     } catch (error) {
       console.error(`言語検出APIエラー [${requestId}]:`, error);
-      
-      const processingTime = Date.now() - startTime;
-      const response: TranslationApiResponse = {
-        success: false,
-        error: {
-          code: 'LANGUAGE_DETECTION_ERROR',
-          message: error instanceof Error ? error.message : '言語検出中にエラーが発生しました'
-        },
-        metadata: {
-          requestId,
-          timestamp: new Date(),
-          processingTime,
-          version: '1.0.0'
-        }
-      };
 
-      const statusCode = this.getErrorStatusCode(error);
-      res.status(statusCode).json(response);
+      sendTranslationError(res, context, this.getErrorStatusCode(error), {
+        code: 'LANGUAGE_DETECTION_ERROR'
+      });
     }
   }
 
@@ -324,55 +408,34 @@ export class TranslationController {
    * GET /api/translate/languages
    */
   async getSupportedLanguages(req: Request, res: Response): Promise<void> {
-    const startTime = Date.now();
-    const requestId = uuidv4();
+    const context = createResponseContext(req);
+    const { requestId } = context;
 
     try {
       const languages = await translationService.getSupportedLanguages();
       
-      const languageList = languages.map(code => ({
-        code,
-        name: translationService.getLanguageName(code)
-      }));
-
-      const processingTime = Date.now() - startTime;
-
-      const response = {
-        success: true,
-        data: {
-          languages: languageList,
-          count: languageList.length
-        },
-        metadata: {
-          requestId,
-          timestamp: new Date(),
-          processingTime,
-          version: '1.0.0'
-        }
-      };
+      const languageList = languages.map(code => {
+        const definition = translationService.getLanguageDefinition(code);
+        return {
+          code,
+          name: definition?.nativeName || code,
+          englishName: definition?.englishName || code,
+          direction: definition?.direction || 'ltr'
+        };
+      });
 
-      console.log(`サポート言語取得API完了 [${requestId}]: ${processingTime}ms`);
-      res.status(200).json(response);
+      console.log(`サポート言語取得API完了 [${requestId}]: ${Date.now() - context.startTime}ms`);
+      sendTranslationResponse(res, context, {
+        languages: languageList,
+        count: languageList.length
+      });
 
     } catch (error) {
       console.error(`サポート言語取得APIエラー [${requestId}]:`, error);
-      
-      const processingTime = Date.now() - startTime;
-      const response: TranslationApiResponse = {
-        success: false,
-        error: {
-          code: 'LANGUAGE_LIST_ERROR',
-          message: error instanceof Error ? error.message : 'サポート言語取得中にエラーが発生しました'
-        },
-        metadata: {
-          requestId,
-          timestamp: new Date(),
-          processingTime,
-          version: '1.0.0'
-        }
-      };
 
-      res.status(500).json(response);
+      sendTranslationError(res, context, 500, {
+        code: 'LANGUAGE_LIST_ERROR'
+      });
     }
   }
 
@@ -381,101 +444,93 @@ export class TranslationController {
    * GET /api/translate/health
    */
   async healthCheck(req: Request, res: Response): Promise<void> {
-    const startTime = Date.now();
-    const requestId = uuidv4();
+    const context = createResponseContext(req);
+    const { requestId } = context;
 
     try {
       const healthResult = await translationService.healthCheck();
-      const processingTime = Date.now() - startTime;
-
-      const response = {
-        success: true,
-        data: {
-          status: healthResult.status,
-          message: healthResult.message,
-          timestamp: new Date()
-        },
-        metadata: {
-          requestId,
-          timestamp: new Date(),
-          processingTime,
-          version: '1.0.0'
-        }
-      };
-
       const statusCode = healthResult.status === 'healthy' ? 200 : 503;
-      console.log(`翻訳ヘルスチェックAPI完了 [${requestId}]: ${processingTime}ms, ステータス: ${healthResult.status}`);
-      res.status(statusCode).json(response);
+
+      console.log(`翻訳ヘルスチェックAPI完了 [${requestId}]: ${Date.now() - context.startTime}ms, ステータス: ${healthResult.status}`);
+      sendTranslationResponse(res, context, {
+        status: healthResult.status,
+        message: healthResult.message,
+        provider: healthResult.provider,
+        circuitBreaker: healthResult.circuitBreaker,
+        workerPool: translationWorkerPool.getMetrics(),
+        timestamp: new Date()
+      }, statusCode);
 
     } catch (error) {
       console.error(`翻訳ヘルスチェックAPIエラー [${requestId}]:`, error);
-      
-      const processingTime = Date.now() - startTime;
-      const response: TranslationApiResponse = {
-        success: false,
-        error: {
-          code: 'HEALTH_CHECK_ERROR',
-          message: error instanceof Error ? error.message : 'ヘルスチェック中にエラーが発生しました'
-        },
-        metadata: {
-          requestId,
-          timestamp: new Date(),
-          processingTime,
-          version: '1.0.0'
-        }
-      };
 
-      res.status(500).json(response);
+      sendTranslationError(res, context, 500, {
+        code: 'HEALTH_CHECK_ERROR'
+      });
     }
   }
 
   /**
    * バッチ翻訳の実行（内部メソッド）
+   * 各テキストを共有ワーカープールに投入し、バッチ単位では maxConcurrency 件まで同時に実行する
    */
   private async executeBatchTranslation(
     texts: string[],
     sourceLanguage: SupportedLanguage | undefined,
     targetLanguage: SupportedLanguage,
     maxConcurrency: number,
-    preserveOrder: boolean
-  ): Promise<Array<{ success: boolean; result: any; error: any; index?: number }>> {
-    const results: Array<{ success: boolean; result: any; error: any; index?: number }> = [];
-    
-    // 同時実行数を制限するためのセマフォ
-    const semaphore = new Array(maxConcurrency).fill(null);
-    let currentIndex = 0;
-
-    const executeTranslation = async (text: string, index: number) => {
+    preserveOrder: boolean,
+    priority: TranslationPriority,
+    usage: TranslationUsageContext,
+    batchId: string,
+    locale: SupportedLanguage, // エラーメッセージの言語
+    hooks: {
+      signal?: AbortSignal; // 中断後に実行順が回ってきたテキストは翻訳しない
+      onSettled?: (outcome: BatchItemOutcome, index: number) => void; // テキストごとの完了通知
+    } = {}
+  ): Promise<BatchItemOutcome[]> {
+    const executeTranslation = async (text: string, index: number, queueWaitTime: number): Promise<BatchItemOutcome> => {
+      if (hooks.signal?.aborted) {
+        return {
+          success: false,
+          result: null,
+          error: {
+            code: 'REQUEST_ABORTED',
+            message: getLocalizedErrorMessage('REQUEST_ABORTED', locale),
+            retryable: true,
+            originalText: text,
+            queueWaitTime,
+            index: preserveOrder ? index : undefined
+          },
+          index: preserveOrder ? index : undefined
+        };
+      }
+
       try {
         const result = await translationService.translateText({
           text: text.trim(),
           sourceLanguage,
-          targetLanguage
+          targetLanguage,
+          usage
         });
 
         return {
           success: true,
-          result: {
-            originalText: result.originalText,
-            translatedText: result.translatedText,
-            sourceLanguage: result.sourceLanguage as SupportedLanguage,
-            targetLanguage: result.targetLanguage as SupportedLanguage,
-            timestamp: new Date(),
-            confidence: result.confidence,
-            processingTime: result.processingTime,
-            fromCache: result.fromCache
-          },
+          result: this.toExtendedResult(result, queueWaitTime),
           error: null,
           index: preserveOrder ? index : undefined
         };
       } catch (error) {
+        const code = this.getErrorCode(error, 'TRANSLATION_ERROR');
         return {
           success: false,
           result: null,
           error: {
-            code: error instanceof Error && 'code' in error ? (error as any).code : 'TRANSLATION_ERROR',
-            message: error instanceof Error ? error.message : '翻訳中にエラーが発生しました',
+            code,
+            message: getLocalizedErrorMessage(code, locale),
+            retryable: error instanceof TranslationError ? error.retryable : false,
             originalText: text,
+            queueWaitTime,
             index: preserveOrder ? index : undefined
           },
           index: preserveOrder ? index : undefined
@@ -483,16 +538,109 @@ export class TranslationController {
       }
     };
 
-    // 並列実行
-    const promises = texts.map((text, index) => executeTranslation(text, index));
-    const allResults = await Promise.all(promises);
+    // ワーカープールで実行（完了順に結果が揃う）
+    const completed: BatchItemOutcome[] = [];
+    await Promise.all(texts.map((text, index) =>
+      translationWorkerPool.submit(
+        queueWaitTime => executeTranslation(text, index, queueWaitTime),
+        { priority, userId: usage.userId, groupId: batchId, groupLimit: maxConcurrency }
+      ).then(result => {
+        completed.push(result);
+        hooks.onSettled?.(result, index);
+      })
+    ));
 
     // 順序保持が必要な場合はソート
     if (preserveOrder) {
-      allResults.sort((a, b) => (a.index || 0) - (b.index || 0));
+      completed.sort((a, b) => (a.index || 0) - (b.index || 0));
+    }
+
+    return completed;
+  }
+
+  /**
+   * バッチ翻訳の実行結果を集計
+   */
+  private createBatchResult(results: BatchItemOutcome[], processingTime: number): BatchTranslationResult {
+    const successCount = results.filter(r => r.success).length;
+    return {
+      results: results.flatMap(r => r.result ? [r.result] : []),
+      totalProcessingTime: processingTime,
+      successCount,
+      errorCount: results.length - successCount,
+      errors: results.flatMap(r => !r.success && r.error ? [r.error] : [])
+    };
+  }
+
+  /**
+   * 翻訳サービスの結果を API で返す翻訳結果に変換
+   */
+  private toExtendedResult(result: TranslationResult, queueWaitTime?: number): ExtendedTranslationResult {
+    return {
+      originalText: result.originalText,
+      translatedText: result.translatedText,
+      sourceLanguage: result.sourceLanguage,
+      targetLanguage: result.targetLanguage,
+      timestamp: new Date(),
+      confidence: result.confidence,
+      qualityScore: result.qualityScore,
+      qualityFlags: result.qualityFlags,
+      processingTime: result.processingTime,
+      fromCache: result.fromCache,
+      stale: result.stale,
+      queueWaitTime,
+      chunkCount: result.chunkCount,
+      chunkErrors: result.chunkErrors
+    };
+  }
+
+  /**
+   * 翻訳サービスが返したエラーのメッセージをリクエストの言語に置き換える
+   */
+  private localizeErrors(
+    errors: MultiTargetTranslationResult['errors'],
+    locale: SupportedLanguage
+  ): MultiTargetTranslationResult['errors'] {
+    const localized: MultiTargetTranslationResult['errors'] = {};
+    for (const [language, detail] of Object.entries(errors) as Array<[SupportedLanguage, LanguageTranslationError]>) {
+      localized[language] = { ...detail, message: getLocalizedErrorMessage(detail.code, locale) };
     }
+    return localized;
+  }
+
+  /**
+   * ストリーミング翻訳の進捗イベントを作成
+   */
+  private createProgressEvent(successCount: number, errorCount: number, total: number): TranslationProgressEvent {
+    const completed = successCount + errorCount;
+    return {
+      completed,
+      total,
+      percentage: total > 0 ? Math.floor((completed / total) * 100) : 100,
+      successCount,
+      errorCount
+    };
+  }
 
-    return allResults;
+  /**
+   * ストリーミング中のエラーを error イベントとして送信
+   * ヘッダー送信済みのため、HTTPステータスコードの代わりに status を含める
+   */
+  private sendStreamError(stream: EventStream, error: unknown, defaultCode: ErrorMessageCode, locale: SupportedLanguage): void {
+    const code = this.getErrorCode(error, defaultCode);
+    stream.send('error', {
+      code,
+      message: getLocalizedErrorMessage(code, locale),
+      retryable: error instanceof TranslationError ? error.retryable : false,
+      status: this.getErrorStatusCode(error)
+    });
+  }
+
+  /**
+   * エラーのコードを取得（コードを持たないエラーは既定のコード）
+   */
+  private getErrorCode<T extends string>(error: unknown, defaultCode: T): TranslationErrorCode | T {
+    return error instanceof Error && 'code' in error ? (error as TranslationError).code : defaultCode;
   }
 
   /**
@@ -506,9 +654,15 @@ export class TranslationController {
         case 'TEXT_TOO_LONG':
           return 400; // Bad Request
         case 'UNSUPPORTED_LANGUAGE_PAIR':
+        case 'LANGUAGE_DETECTION_FAILED':
           return 422; // Unprocessable Entity
+        case 'THROTTLING_ERROR':
+        case 'TRANSLATION_BUDGET_EXCEEDED':
+          return 429; // Too Many Requests
         case 'TRANSLATION_SERVICE_ERROR':
         case 'DETECTION_SERVICE_ERROR':
+        case 'SERVICE_UNAVAILABLE':
+        case 'CIRCUIT_OPEN':
           return 503; // Service Unavailable
         default:
           return 500; // Internal Server Error
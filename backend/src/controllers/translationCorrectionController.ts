@@ -0,0 +1,184 @@
+import { Request, Response } from 'express';
+import { translationCorrectionService, TranslationCorrectionInput } from '../services/translationCorrectionService';
+import { TranslationCorrectionStatus } from '../models/translationCorrection';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  createResponseContext,
+  sendTranslationResponse,
+  sendTranslationError,
+  sendServiceError
+} from '../utils/translationResponse';
+import { TranslationErrorCode } from '../types/translation';
+import { getLocalizedErrorMessage } from '../utils/errorMessages';
+
+/**
+ * 修正提案の状態
+ */
+const CORRECTION_STATUSES: TranslationCorrectionStatus[] = ['pending', 'approved', 'rejected'];
+
+/**
+ * 修正提案のエラーコードと HTTP ステータス（これ以外のエラーは 500）
+ */
+const CORRECTION_ERROR_STATUS_CODES: Partial<Record<TranslationErrorCode, number>> = {
+  TRANSLATION_CACHE_ENTRY_NOT_FOUND: 404,
+  TRANSLATION_CORRECTION_NOT_FOUND: 404,
+  TRANSLATION_CORRECTION_UNCHANGED: 409,
+  TRANSLATION_CORRECTION_ALREADY_REVIEWED: 409
+};
+
+/**
+ * 翻訳の修正提案用のコントローラー
+ */
+export class TranslationCorrectionController {
+  /**
+   * 修正提案一覧を取得（モデレーション用）
+   * GET /api/translate/corrections?status=pending&limit=50
+   */
+  async listCorrections(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const status = (req.query.status as string | undefined) || 'pending';
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      if (!CORRECTION_STATUSES.includes(status as TranslationCorrectionStatus)) {
+        sendTranslationError(res, context, 400, {
+          code: 'VALIDATION_ERROR',
+          details: {
+            status: [getLocalizedErrorMessage('VALIDATION_INVALID_VALUE', context.locale, { values: CORRECTION_STATUSES.join(', ') })]
+          }
+        });
+        return;
+      }
+
+      const corrections = await translationCorrectionService.listCorrections(status as TranslationCorrectionStatus, limit);
+
+      sendTranslationResponse(res, context, {
+        corrections,
+        count: corrections.length
+      });
+    } catch (error) {
+      console.error('修正提案一覧取得エラー:', error);
+      sendServiceError(res, context, error, 'TRANSLATION_CORRECTION_RETRIEVAL_ERROR', CORRECTION_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * キャッシュエントリの現在の翻訳と編集履歴を取得
+   * GET /api/translate/corrections/:contentHash
+   */
+  async getHistory(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const contentHash = req.params.contentHash as string;
+      const { entry, corrections } = await translationCorrectionService.getHistory(contentHash);
+
+      sendTranslationResponse(res, context, {
+        entry: {
+          contentHash: entry.contentHash,
+          originalText: entry.originalText,
+          translatedText: entry.translatedText,
+          sourceLanguage: entry.sourceLanguage,
+          targetLanguage: entry.targetLanguage,
+          correctionId: entry.correctionId,
+          correctedBy: entry.correctedBy,
+          correctedAt: entry.correctedAt
+        },
+        corrections
+      });
+    } catch (error) {
+      console.error('編集履歴取得エラー:', error);
+      sendServiceError(res, context, error, 'TRANSLATION_CORRECTION_RETRIEVAL_ERROR', CORRECTION_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 修正を提案
+   * POST /api/translate/corrections/:contentHash
+   */
+  async proposeCorrection(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const contentHash = req.params.contentHash as string;
+      const { translatedText, comment } = req.body as TranslationCorrectionInput;
+      const user = (req as AuthenticatedRequest).user;
+
+      const correction = await translationCorrectionService.proposeCorrection(contentHash, {
+        translatedText,
+        ...(comment !== undefined && { comment })
+      }, user?.id);
+
+      sendTranslationResponse(res, context, correction, 201);
+    } catch (error) {
+      console.error('修正提案エラー:', error);
+      sendServiceError(res, context, error, 'TRANSLATION_CORRECTION_CREATE_ERROR', CORRECTION_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 修正提案を承認し、キャッシュに反映
+   * POST /api/translate/corrections/:contentHash/:correctionId/approve
+   */
+  async approveCorrection(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const contentHash = req.params.contentHash as string;
+      const correctionId = req.params.correctionId as string;
+      const { reviewComment } = req.body || {};
+      const user = (req as AuthenticatedRequest).user;
+
+      const { correction, entry } = await translationCorrectionService.approveCorrection(
+        contentHash,
+        correctionId,
+        user?.id,
+        reviewComment
+      );
+
+      sendTranslationResponse(res, context, {
+        correction,
+        entry: {
+          contentHash: entry.contentHash,
+          translatedText: entry.translatedText,
+          correctedBy: entry.correctedBy,
+          correctedAt: entry.correctedAt
+        }
+      });
+    } catch (error) {
+      console.error('修正提案承認エラー:', error);
+      sendServiceError(res, context, error, 'TRANSLATION_CORRECTION_REVIEW_ERROR', CORRECTION_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 修正提案を却下
+   * POST /api/translate/corrections/:contentHash/:correctionId/reject
+   */
+  async rejectCorrection(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const contentHash = req.params.contentHash as string;
+      const correctionId = req.params.correctionId as string;
+      const { reviewComment } = req.body || {};
+      const user = (req as AuthenticatedRequest).user;
+
+      const correction = await translationCorrectionService.rejectCorrection(
+        contentHash,
+        correctionId,
+        user?.id,
+        reviewComment
+      );
+
+      sendTranslationResponse(res, context, { correction });
+    } catch (error) {
+      console.error('修正提案却下エラー:', error);
+      sendServiceError(res, context, error, 'TRANSLATION_CORRECTION_REVIEW_ERROR', CORRECTION_ERROR_STATUS_CODES);
+    }
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationCorrectionController = new TranslationCorrectionController();
@@ -0,0 +1,134 @@
+import { Request, Response } from 'express';
+import { translationGlossaryService, GlossaryEntryInput } from '../services/translationGlossaryService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  createResponseContext,
+  sendTranslationResponse,
+  sendServiceError
+} from '../utils/translationResponse';
+import { TranslationErrorCode } from '../types/translation';
+
+/**
+ * 用語集のエラーコードと HTTP ステータス（これ以外のエラーは 500）
+ */
+const GLOSSARY_ERROR_STATUS_CODES: Partial<Record<TranslationErrorCode, number>> = {
+  GLOSSARY_TERM_NOT_FOUND: 404,
+  GLOSSARY_TERM_EXISTS: 409
+};
+
+/**
+ * 翻訳用語集管理用のコントローラー
+ */
+export class TranslationGlossaryController {
+  /**
+   * 用語集エントリの一覧を取得
+   * GET /api/translate/glossary
+   */
+  async listEntries(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const sourceLanguage = req.query.sourceLanguage as string | undefined;
+      const targetLanguage = req.query.targetLanguage as string | undefined;
+
+      const entries = await translationGlossaryService.listEntries(sourceLanguage, targetLanguage);
+      const version = sourceLanguage && targetLanguage
+        ? (await translationGlossaryService.getGlossary(sourceLanguage, targetLanguage)).version
+        : undefined;
+
+      sendTranslationResponse(res, context, {
+        entries,
+        count: entries.length,
+        sourceLanguage,
+        targetLanguage,
+        version
+      });
+    } catch (error) {
+      console.error('用語集一覧取得エラー:', error);
+      sendServiceError(res, context, error, 'GLOSSARY_RETRIEVAL_ERROR', GLOSSARY_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 用語集エントリを取得
+   * GET /api/translate/glossary/:termId
+   */
+  async getEntry(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const termId = req.params.termId as string;
+      const entry = await translationGlossaryService.getEntry(termId);
+
+      sendTranslationResponse(res, context, entry);
+    } catch (error) {
+      console.error('用語集エントリ取得エラー:', error);
+      sendServiceError(res, context, error, 'GLOSSARY_RETRIEVAL_ERROR', GLOSSARY_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 用語集エントリを作成
+   * POST /api/translate/glossary
+   */
+  async createEntry(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const entry = await translationGlossaryService.createEntry(req.body as GlossaryEntryInput, user?.id);
+
+      sendTranslationResponse(res, context, entry, 201);
+    } catch (error) {
+      console.error('用語集エントリ作成エラー:', error);
+      sendServiceError(res, context, error, 'GLOSSARY_SAVE_ERROR', GLOSSARY_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 用語集エントリを更新
+   * PUT /api/translate/glossary/:termId
+   */
+  async updateEntry(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const termId = req.params.termId as string;
+      const user = (req as AuthenticatedRequest).user;
+      const entry = await translationGlossaryService.updateEntry(
+        termId,
+        req.body as GlossaryEntryInput,
+        user?.id
+      );
+
+      sendTranslationResponse(res, context, entry);
+    } catch (error) {
+      console.error('用語集エントリ更新エラー:', error);
+      sendServiceError(res, context, error, 'GLOSSARY_SAVE_ERROR', GLOSSARY_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 用語集エントリを削除
+   * DELETE /api/translate/glossary/:termId
+   */
+  async deleteEntry(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const termId = req.params.termId as string;
+      await translationGlossaryService.deleteEntry(termId);
+
+      sendTranslationResponse(res, context, {
+        message: '用語集エントリを削除しました',
+        termId
+      });
+    } catch (error) {
+      console.error('用語集エントリ削除エラー:', error);
+      sendServiceError(res, context, error, 'GLOSSARY_DELETE_ERROR', GLOSSARY_ERROR_STATUS_CODES);
+    }
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationGlossaryController = new TranslationGlossaryController();
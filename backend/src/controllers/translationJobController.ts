@@ -0,0 +1,136 @@
+import { Request, Response } from 'express';
+import { translationJobService, TranslationJobInput } from '../services/translationJobService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  createResponseContext,
+  sendTranslationResponse,
+  sendServiceError
+} from '../utils/translationResponse';
+import { TranslationErrorCode } from '../types/translation';
+import { getLocalizedErrorMessage } from '../utils/errorMessages';
+
+/**
+ * 翻訳ジョブのエラーコードと HTTP ステータス（これ以外のエラーは 500）
+ */
+const JOB_ERROR_STATUS_CODES: Partial<Record<TranslationErrorCode, number>> = {
+  TRANSLATION_JOB_NOT_FOUND: 404,
+  TRANSLATION_JOB_NOT_CANCELLABLE: 409
+};
+
+/**
+ * 非同期翻訳ジョブ用のコントローラー
+ */
+export class TranslationJobController {
+  /**
+   * 翻訳ジョブを作成
+   * POST /api/translate/jobs
+   */
+  async createJob(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const { texts, sourceLanguage, targetLanguage, priority, preserveFormatting } = req.body as TranslationJobInput;
+      const user = (req as AuthenticatedRequest).user;
+
+      const job = await translationJobService.createJob({
+        texts,
+        targetLanguage,
+        ...(sourceLanguage !== undefined && { sourceLanguage }),
+        ...(priority !== undefined && { priority }),
+        ...(preserveFormatting !== undefined && { preserveFormatting })
+      }, user?.id);
+
+      sendTranslationResponse(res, context, {
+        jobId: job.jobId,
+        status: job.status,
+        totalCount: job.totalCount,
+        priority: job.priority,
+        createdAt: job.createdAt
+      }, 202);
+    } catch (error) {
+      console.error('翻訳ジョブ作成エラー:', error);
+      sendServiceError(res, context, error, 'TRANSLATION_JOB_CREATE_ERROR', JOB_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 翻訳ジョブの進捗と途中結果を取得
+   * GET /api/translate/jobs/:jobId
+   */
+  async getJob(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const jobId = req.params.jobId as string;
+      const user = (req as AuthenticatedRequest).user;
+      const job = await translationJobService.getJob(jobId, user?.id);
+
+      sendTranslationResponse(res, context, {
+        jobId: job.jobId,
+        status: job.status,
+        sourceLanguage: job.sourceLanguage,
+        targetLanguage: job.targetLanguage,
+        priority: job.priority,
+        totalCount: job.totalCount,
+        completedCount: job.completedCount,
+        errorCount: job.errorCount,
+        progress: job.progress,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt,
+        results: job.items
+          .filter(item => item.itemStatus === 'completed')
+          .map(item => ({
+            index: item.index,
+            originalText: item.originalText,
+            translatedText: item.translatedText,
+            sourceLanguage: item.sourceLanguage,
+            targetLanguage: job.targetLanguage,
+            confidence: item.confidence,
+            fromCache: item.fromCache,
+            processingTime: item.processingTime
+          })),
+        errors: job.items
+          .filter(item => item.itemStatus === 'failed')
+          .map(item => ({
+            index: item.index,
+            originalText: item.originalText,
+            ...item.error,
+            ...(item.error && { message: getLocalizedErrorMessage(item.error.code, context.locale) })
+          }))
+      });
+    } catch (error) {
+      console.error('翻訳ジョブ取得エラー:', error);
+      sendServiceError(res, context, error, 'TRANSLATION_JOB_RETRIEVAL_ERROR', JOB_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 翻訳ジョブをキャンセル
+   * DELETE /api/translate/jobs/:jobId
+   */
+  async cancelJob(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const jobId = req.params.jobId as string;
+      const user = (req as AuthenticatedRequest).user;
+      const job = await translationJobService.cancelJob(jobId, user?.id);
+
+      sendTranslationResponse(res, context, {
+        message: '翻訳ジョブをキャンセルしました',
+        jobId: job.jobId,
+        status: job.status,
+        completedCount: job.completedCount,
+        errorCount: job.errorCount,
+        totalCount: job.totalCount
+      });
+    } catch (error) {
+      console.error('翻訳ジョブキャンセルエラー:', error);
+      sendServiceError(res, context, error, 'TRANSLATION_JOB_CANCEL_ERROR', JOB_ERROR_STATUS_CODES);
+    }
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationJobController = new TranslationJobController();
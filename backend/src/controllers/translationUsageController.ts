@@ -0,0 +1,64 @@
+import { Request, Response } from 'express';
+import { translationUsageService } from '../services/translationUsageService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  createResponseContext,
+  sendTranslationResponse,
+  sendServiceError
+} from '../utils/translationResponse';
+import { TranslationErrorCode } from '../types/translation';
+
+/**
+ * 使用量のエラーコードと HTTP ステータス（これ以外のエラーは 500）
+ */
+const USAGE_ERROR_STATUS_CODES: Partial<Record<TranslationErrorCode, number>> = {
+  INVALID_USAGE_PERIOD: 400
+};
+
+/**
+ * 翻訳の使用量・予算管理用のコントローラー
+ */
+export class TranslationUsageController {
+  /**
+   * 使用量レポートを取得（キャッシュによる節約額を含む）
+   * GET /api/translate/usage?from=2024-01-01&to=2024-01-31
+   */
+  async getReport(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const report = await translationUsageService.getReport(
+        req.query.from as string | undefined,
+        req.query.to as string | undefined
+      );
+
+      sendTranslationResponse(res, context, report);
+    } catch (error) {
+      console.error('翻訳使用量レポート取得エラー:', error);
+      sendServiceError(res, context, error, 'TRANSLATION_USAGE_RETRIEVAL_ERROR', USAGE_ERROR_STATUS_CODES);
+    }
+  }
+
+  /**
+   * 月間予算を設定
+   * PUT /api/translate/usage/budget
+   */
+  async setBudget(req: Request, res: Response): Promise<void> {
+    const context = createResponseContext(req);
+
+    try {
+      const { userId, monthlyBudget } = req.body as { userId?: string; monthlyBudget: number | null };
+      const user = (req as AuthenticatedRequest).user;
+
+      const status = await translationUsageService.setBudget(userId, monthlyBudget, user?.id);
+
+      sendTranslationResponse(res, context, status);
+    } catch (error) {
+      console.error('翻訳予算設定エラー:', error);
+      sendServiceError(res, context, error, 'TRANSLATION_BUDGET_UPDATE_ERROR', USAGE_ERROR_STATUS_CODES);
+    }
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationUsageController = new TranslationUsageController();
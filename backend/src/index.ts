@@ -29,6 +29,9 @@ import {
 // サービスのインポート
 import { logger } from './services/loggerService';
 import { monitoringService } from './services/monitoringService';
+import { translationJobService } from './services/translationJobService';
+import { translationCacheService } from './services/translationCacheService';
+import { languageRegistry } from './services/languageRegistry';
 
 // 環境変数の読み込み
 dotenv.config();
@@ -126,6 +129,12 @@ app.listen(PORT, () => {
   
   // 定期監視レポートを開始
   MonitoringReporter.startPeriodicReporting(5); // 5分間隔
+
+  // 言語レジストリを Parameter Store から読み込む（失敗した場合はローカル定義を使用）
+  void languageRegistry.refresh();
+
+  // 非同期翻訳ジョブのワーカーを開始（未完了のジョブを再開）
+  translationJobService.start();
   
   console.log(`🚀 Server is running on port ${PORT}`);
   console.log(`📍 Health check: http://localhost:${PORT}/health`);
@@ -134,18 +143,41 @@ app.listen(PORT, () => {
 });
 
 // グレースフルシャットダウン
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
+// 翻訳キャッシュ（Redis）の切断を待つ上限（ミリ秒）
+const SHUTDOWN_TIMEOUT_MS = 5000;
+
+const shutdown = async (signal: NodeJS.Signals) => {
+  logger.info(`${signal} received, shutting down gracefully`);
   MonitoringReporter.stopPeriodicReporting();
   monitoringService.stop();
+  translationJobService.stop();
+
+  // Redis の接続を閉じてから終了する（応答がない場合は上限の時間で打ち切る）
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      translationCacheService.close(),
+      new Promise<void>(resolve => {
+        timer = setTimeout(() => {
+          logger.warn('Translation cache did not close in time, exiting anyway');
+          resolve();
+        }, SHUTDOWN_TIMEOUT_MS);
+      })
+    ]);
+  } catch (error) {
+    logger.error('Failed to close translation cache', error as Error);
+  } finally {
+    clearTimeout(timer);
+  }
+
   logger.destroy();
   process.exit(0);
+};
+
+process.on('SIGTERM', () => {
+  void shutdown('SIGTERM');
 });
 
 process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully');
-  MonitoringReporter.stopPeriodicReporting();
-  monitoringService.stop();
-  logger.destroy();
-  process.exit(0);
+  void shutdown('SIGINT');
 });
\ No newline at end of file
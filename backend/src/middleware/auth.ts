@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { ErrorMessageCode } from '../types/errorMessages';
+import { getLocalizedErrorMessage, resolveErrorLocale } from '../utils/errorMessages';
 
 /**
  * 認証エラーレスポンス
@@ -23,6 +25,8 @@ interface JWTPayload {
   userId: string;
   email: string;
   username?: string;
+  locale?: string; // プロフィールの言語設定（エラーメッセージの言語に使用）
+  roles?: string[]; // 'admin' を含む場合は管理者
   iat: number;
   exp: number;
 }
@@ -35,6 +39,8 @@ export interface AuthenticatedRequest extends Request {
     id: string;
     email: string;
     username?: string;
+    locale?: string;
+    roles?: string[];
   };
 }
 
@@ -52,7 +58,7 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
         success: false,
         error: {
           code: 'MISSING_AUTH_HEADER',
-          message: 'Authorizationヘッダーが必要です'
+          message: getLocalizedErrorMessage('MISSING_AUTH_HEADER', resolveErrorLocale(req))
         },
         metadata: {
           timestamp: new Date(),
@@ -70,7 +76,7 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
         success: false,
         error: {
           code: 'INVALID_AUTH_FORMAT',
-          message: 'Authorization形式が正しくありません（Bearer <token>）'
+          message: getLocalizedErrorMessage('INVALID_AUTH_FORMAT', resolveErrorLocale(req))
         },
         metadata: {
           timestamp: new Date(),
@@ -93,7 +99,9 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
     (req as AuthenticatedRequest).user = {
       id: decoded.userId,
       email: decoded.email,
-      username: decoded.username
+      username: decoded.username,
+      locale: decoded.locale,
+      roles: decoded.roles
     };
 
     console.log(`認証成功: ユーザーID ${decoded.userId}, メール ${decoded.email}`);
@@ -102,16 +110,13 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
   } catch (error) {
     console.error('認証エラー:', error);
 
-    let errorCode = 'AUTH_ERROR';
-    let errorMessage = '認証に失敗しました';
+    let errorCode: ErrorMessageCode = 'AUTH_ERROR';
 
     if (error instanceof jwt.JsonWebTokenError) {
       if (error.name === 'TokenExpiredError') {
         errorCode = 'TOKEN_EXPIRED';
-        errorMessage = 'トークンの有効期限が切れています';
       } else if (error.name === 'JsonWebTokenError') {
         errorCode = 'INVALID_TOKEN';
-        errorMessage = 'トークンが無効です';
       }
     }
 
@@ -119,7 +124,7 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
       success: false,
       error: {
         code: errorCode,
-        message: errorMessage
+        message: getLocalizedErrorMessage(errorCode, resolveErrorLocale(req))
       },
       metadata: {
         timestamp: new Date(),
@@ -160,7 +165,7 @@ export function adminMiddleware(req: Request, res: Response, next: NextFunction)
       success: false,
       error: {
         code: 'AUTHENTICATION_REQUIRED',
-        message: '認証が必要です'
+        message: getLocalizedErrorMessage('AUTHENTICATION_REQUIRED', resolveErrorLocale(req))
       },
       metadata: {
         timestamp: new Date(),
@@ -171,9 +176,10 @@ export function adminMiddleware(req: Request, res: Response, next: NextFunction)
     return;
   }
 
-  // 管理者権限チェック（実装は要件に応じて調整）
-  // 現在は簡易実装として特定のメールドメインをチェック
-  const isAdmin = user.email.endsWith('@admin.example.com') || 
+  // 管理者権限チェック
+  // トークンの admin ロールに加え、ロール導入前に発行したトークン向けに特定のメールドメインも許可
+  const isAdmin = user.roles?.includes('admin') ||
+                  user.email.endsWith('@admin.example.com') || 
                   user.email === 'admin@multilingual-community.com';
 
   if (!isAdmin) {
@@ -181,7 +187,7 @@ export function adminMiddleware(req: Request, res: Response, next: NextFunction)
       success: false,
       error: {
         code: 'INSUFFICIENT_PERMISSIONS',
-        message: '管理者権限が必要です'
+        message: getLocalizedErrorMessage('INSUFFICIENT_PERMISSIONS', resolveErrorLocale(req))
       },
       metadata: {
         timestamp: new Date(),
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { getLocalizedErrorMessage, resolveErrorLocale } from '../utils/errorMessages';
 
 /**
  * レート制限設定
@@ -6,7 +7,8 @@ import { Request, Response, NextFunction } from 'express';
 interface RateLimitConfig {
   windowMs: number;  // 時間窓（ミリ秒）
   max: number;       // 最大リクエスト数
-  message?: string;  // カスタムエラーメッセージ
+  key?: string;      // 複数のルートで回数を共有する場合のキー（省略時はルートのパス）
+  message?: string;  // カスタムエラーメッセージ（省略時はリクエストの言語の RATE_LIMIT_EXCEEDED）
   skipSuccessfulRequests?: boolean; // 成功したリクエストをカウントしないか
   skipFailedRequests?: boolean;     // 失敗したリクエストをカウントしないか
 }
@@ -123,7 +125,8 @@ export function rateLimitMiddleware(config: RateLimitConfig) {
   const {
     windowMs,
     max,
-    message = 'リクエスト数が制限を超えました。しばらく待ってから再試行してください。',
+    message,
+    key: sharedKey,
     skipSuccessfulRequests = false,
     skipFailedRequests = false
   } = config;
@@ -131,7 +134,7 @@ export function rateLimitMiddleware(config: RateLimitConfig) {
   return (req: Request, res: Response, next: NextFunction): void => {
     // クライアント識別子を生成（IPアドレス + ユーザーID）
     const clientId = getClientIdentifier(req);
-    const key = `rate_limit:${clientId}:${req.route?.path || req.path}`;
+    const key = `rate_limit:${clientId}:${sharedKey || req.route?.path || req.path}`;
 
     // レート制限チェック
     const rateLimitInfo = globalStore.hit(key, windowMs);
@@ -154,7 +157,7 @@ export function rateLimitMiddleware(config: RateLimitConfig) {
         success: false,
         error: {
           code: 'RATE_LIMIT_EXCEEDED',
-          message,
+          message: message || getLocalizedErrorMessage('RATE_LIMIT_EXCEEDED', resolveErrorLocale(req)),
           details: {
             limit: max,
             windowMs,
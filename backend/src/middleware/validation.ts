@@ -1,5 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
-import { SupportedLanguage } from '../types/translation';
+import Joi from 'joi';
+import {
+  BatchTranslationRequest,
+  ExtendedTranslationRequest,
+  MultiTargetTranslationRequest,
+  SupportedLanguage
+} from '../types/translation';
+import { ValidationMessageCode } from '../types/errorMessages';
+import { TRANSLATION_CONFIG } from '../config/translation';
+import { languageRegistry } from '../services/languageRegistry';
+import { TranslationJobInput } from '../services/translationJobService';
+import { GlossaryEntryInput } from '../services/translationGlossaryService';
+import { TranslationCorrectionInput } from '../services/translationCorrectionService';
+import { CacheWarmupOptions } from '../services/translationCacheWarmupService';
+import { CacheEntryFilter } from '../models/translationCache';
+import { createResponseContext, sendTranslationError } from '../utils/translationResponse';
+import { getLocalizedErrorMessage, resolveErrorLocale } from '../utils/errorMessages';
 
 /**
  * バリデーションエラーレスポンス
@@ -17,197 +33,355 @@ interface ValidationErrorResponse {
   };
 }
 
+/**
+ * Joi のエラー種別に対応する入力値検証メッセージのコード
+ * スキーマの messages() でコードを指定した場合はそちらを優先する
+ */
+const JOI_ERROR_MESSAGE_CODES: Record<string, ValidationMessageCode> = {
+  'any.required': 'VALIDATION_REQUIRED',
+  'any.only': 'VALIDATION_INVALID_VALUE',
+  'string.base': 'VALIDATION_NOT_STRING',
+  'string.empty': 'VALIDATION_EMPTY',
+  'string.pattern.base': 'VALIDATION_EMPTY',
+  'string.max': 'VALIDATION_TOO_LONG',
+  'boolean.base': 'VALIDATION_NOT_BOOLEAN',
+  'number.base': 'VALIDATION_NOT_NUMBER',
+  'number.infinity': 'VALIDATION_NOT_NUMBER',
+  'number.min': 'VALIDATION_TOO_SMALL',
+  'number.max': 'VALIDATION_TOO_LARGE',
+  'array.base': 'VALIDATION_NOT_ARRAY',
+  'array.min': 'VALIDATION_EMPTY',
+  'array.max': 'VALIDATION_TOO_MANY_ITEMS',
+  'object.base': 'VALIDATION_NOT_OBJECT'
+};
+
+/**
+ * 言語コードのスキーマ（言語レジストリで有効な言語のみ許可）
+ */
+function languageSchema(): Joi.StringSchema {
+  return Joi.string()
+    .custom((value, helpers) => languageRegistry.isEnabled(value) ? value : helpers.error('any.only', { value }))
+    .messages({ 'any.only': 'VALIDATION_UNSUPPORTED_LANGUAGE' });
+}
+
+/**
+ * 翻訳対象テキストのスキーマ
+ * 空白のみのテキストは空として扱う
+ */
+function textSchema(maxLength: number): Joi.StringSchema {
+  return Joi.string()
+    .pattern(/\S/)
+    .max(maxLength);
+}
+
+/**
+ * 優先度のスキーマ
+ */
+const prioritySchema = Joi.string().valid('low', 'normal', 'high');
+
+/**
+ * テキスト配列のスキーマ（バッチ翻訳・翻訳ジョブ）
+ */
+function textsSchema(maxCount: number, maxLength: number): Joi.ArraySchema {
+  return Joi.array()
+    .items(textSchema(maxLength))
+    .min(1)
+    .max(maxCount)
+    .required();
+}
+
+/**
+ * 用語集の言語のスキーマ（'*' は全言語）
+ */
+const glossaryLanguageSchema = Joi.any()
+  .custom((value, helpers) => value === '*' || languageRegistry.isEnabled(value) ? value : helpers.error('any.only', { value }))
+  .messages({ 'any.only': 'VALIDATION_UNSUPPORTED_LANGUAGE' });
+
+/**
+ * 「訳語を指定する」場合（doNotTranslate が true でない場合）の条件
+ */
+const DO_NOT_TRANSLATE = Joi.valid(true).required();
+
 /**
  * バリデーションミドルウェア
+ * 翻訳APIのリクエストボディはスキーマで検証し、検証済みの値（未定義の項目は除去）で req.body を置き換える
  */
 export class ValidationMiddleware {
-  
+
   /**
-   * サポートされている言語コードのリスト
+   * スキーマ検証のオプション
+   * 型の自動変換は行わず、未定義の項目は除去する
    */
-  private static readonly SUPPORTED_LANGUAGES: SupportedLanguage[] = [
-    'ja', 'en', 'zh', 'ko', 'es', 'fr', 'de', 'it', 'pt', 'ru', 'ar', 'hi'
-  ];
+  private static readonly VALIDATION_OPTIONS: Joi.ValidationOptions = {
+    abortEarly: false,
+    convert: false,
+    stripUnknown: true
+  };
 
   /**
-   * 翻訳リクエストのバリデーション
+   * 翻訳リクエスト（POST /api/translate, /stream）のスキーマ
    */
-  static validateTranslationRequest(req: Request, res: Response, next: NextFunction): void {
-    const errors: Record<string, string[]> = {};
-    const { text, targetLanguage, sourceLanguage } = req.body;
-
-    // テキストの検証
-    if (!text) {
-      errors.text = ['翻訳対象のテキストが必要です'];
-    } else if (typeof text !== 'string') {
-      errors.text = ['テキストは文字列である必要があります'];
-    } else if (text.trim().length === 0) {
-      errors.text = ['テキストが空です'];
-    } else if (text.length > 5000) {
-      errors.text = ['テキストは5000文字以下である必要があります'];
-    }
+  private static readonly translationRequestSchema = Joi.object<ExtendedTranslationRequest>({
+    // 5000文字を超えるテキストはサービス側でチャンク分割して翻訳する
+    text: textSchema(TRANSLATION_CONFIG.MAX_DOCUMENT_LENGTH).required(),
+    targetLanguage: languageSchema().required(),
+    sourceLanguage: languageSchema(),
+    preserveFormatting: Joi.boolean(),
+    useCache: Joi.boolean(),
+    priority: prioritySchema,
+    metadata: Joi.object().unknown(true)
+  });
 
-    // 翻訳先言語の検証
-    if (!targetLanguage) {
-      errors.targetLanguage = ['翻訳先言語が必要です'];
-    } else if (typeof targetLanguage !== 'string') {
-      errors.targetLanguage = ['翻訳先言語は文字列である必要があります'];
-    } else if (!ValidationMiddleware.SUPPORTED_LANGUAGES.includes(targetLanguage as SupportedLanguage)) {
-      errors.targetLanguage = [`サポートされていない言語です: ${targetLanguage}`];
-    }
+  /**
+   * バッチ翻訳リクエストのスキーマ
+   */
+  private static readonly batchTranslationRequestSchema = Joi.object<BatchTranslationRequest>({
+    texts: textsSchema(100, 5000),
+    targetLanguage: languageSchema().required(),
+    sourceLanguage: languageSchema(),
+    maxConcurrency: Joi.number().min(1).max(10),
+    preserveOrder: Joi.boolean(),
+    priority: prioritySchema
+  });
 
-    // 翻訳元言語の検証（オプション）
-    if (sourceLanguage !== undefined) {
-      if (typeof sourceLanguage !== 'string') {
-        errors.sourceLanguage = ['翻訳元言語は文字列である必要があります'];
-      } else if (!ValidationMiddleware.SUPPORTED_LANGUAGES.includes(sourceLanguage as SupportedLanguage)) {
-        errors.sourceLanguage = [`サポートされていない言語です: ${sourceLanguage}`];
-      }
-    }
+  /**
+   * 複数言語への翻訳リクエストのスキーマ
+   */
+  private static readonly multiTargetTranslationRequestSchema = Joi.object<MultiTargetTranslationRequest>({
+    text: textSchema(TRANSLATION_CONFIG.MAX_DOCUMENT_LENGTH).required(),
+    // 配列または 'all'
+    targetLanguages: Joi.alternatives()
+      .conditional(Joi.string(), {
+        then: Joi.string().valid('all'),
+        otherwise: Joi.array().items(languageSchema()).min(1)
+      })
+      .required()
+      .messages({
+        'any.only': 'VALIDATION_LANGUAGES_OR_ALL',
+        'array.base': 'VALIDATION_LANGUAGES_OR_ALL'
+      }),
+    sourceLanguage: languageSchema(),
+    preserveFormatting: Joi.boolean(),
+    priority: prioritySchema
+  });
 
-    if (Object.keys(errors).length > 0) {
-      const response: ValidationErrorResponse = {
-        success: false,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: '入力値に問題があります',
-          details: errors
-        },
-        metadata: {
-          timestamp: new Date(),
-          version: '1.0.0'
-        }
-      };
-      res.status(400).json(response);
-      return;
-    }
+  /**
+   * 非同期翻訳ジョブ作成リクエストのスキーマ
+   */
+  private static readonly translationJobRequestSchema = Joi.object<TranslationJobInput>({
+    texts: textsSchema(TRANSLATION_CONFIG.MAX_JOB_SIZE, TRANSLATION_CONFIG.MAX_DOCUMENT_LENGTH),
+    targetLanguage: languageSchema().required(),
+    sourceLanguage: languageSchema(),
+    priority: prioritySchema,
+    preserveFormatting: Joi.boolean()
+  });
 
-    next();
+  /**
+   * 言語検出リクエストのスキーマ
+   */
+  private static readonly languageDetectionRequestSchema = Joi.object<{ text: string }>({
+    text: textSchema(1000).required()
+  });
+
+  /**
+   * 用語集エントリのスキーマ
+   * 訳語は doNotTranslate が true でない場合に必須で、その場合は翻訳先言語（'*' 以外）も必要
+   */
+  private static readonly glossaryEntryRequestSchema = Joi.object<GlossaryEntryInput>({
+    term: Joi.string().pattern(/\S/).max(200).required(),
+    sourceLanguage: glossaryLanguageSchema,
+    targetLanguage: glossaryLanguageSchema
+      .when('doNotTranslate', { is: DO_NOT_TRANSLATE, otherwise: Joi.required().invalid('*') })
+      .messages({
+        'any.required': 'VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED',
+        'any.invalid': 'VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED'
+      }),
+    translation: Joi.string().pattern(/\S/).max(200)
+      .when('doNotTranslate', { is: DO_NOT_TRANSLATE, otherwise: Joi.required() })
+      .messages({ 'any.required': 'VALIDATION_GLOSSARY_TRANSLATION_REQUIRED' }),
+    doNotTranslate: Joi.boolean(),
+    caseSensitive: Joi.boolean(),
+    description: Joi.string().allow('').max(500)
+  });
+
+  /**
+   * 翻訳の修正提案のスキーマ
+   */
+  private static readonly translationCorrectionRequestSchema = Joi.object<TranslationCorrectionInput>({
+    translatedText: Joi.string().pattern(/\S/).max(TRANSLATION_CONFIG.MAX_DOCUMENT_LENGTH).required(),
+    comment: Joi.string().allow('').max(1000)
+  });
+
+  /**
+   * 翻訳の月間予算設定のスキーマ
+   * userId を省略した場合は全体の予算、null は既定値に戻す、0 は無制限
+   */
+  private static readonly translationBudgetRequestSchema = Joi.object<{ userId?: string; monthlyBudget: number | null }>({
+    userId: Joi.string().pattern(/\S/),
+    monthlyBudget: Joi.number().min(0).allow(null).required()
+  });
+
+  /**
+   * 修正提案の審査（承認・却下）のスキーマ
+   */
+  private static readonly correctionReviewRequestSchema = Joi.object<{ reviewComment?: string }>({
+    reviewComment: Joi.string().allow('').max(1000)
+  });
+
+  /**
+   * 翻訳キャッシュのウォームアップのスキーマ
+   */
+  private static readonly cacheWarmupRequestSchema = Joi.object<CacheWarmupOptions>({
+    dryRun: Joi.boolean(),
+    maxCost: Joi.number().min(0),
+    postLimit: Joi.number().integer().min(0).max(1000),
+    entryLimit: Joi.number().integer().min(0).max(1000),
+    lookbackDays: Joi.number().integer().min(1).max(365),
+    targetLanguages: Joi.array().items(languageSchema()).min(1)
+  });
+
+  // 無効化した言語のエントリも対象にするため、言語コードは言語レジストリで検証しない
+  // 日付の形式・範囲や条件が空でないことはキャッシュ側で検証する
+  private static readonly cacheInvalidationRequestSchema = Joi.object<CacheEntryFilter>({
+    sourceLanguage: Joi.string().max(20),
+    targetLanguage: Joi.string().max(20),
+    text: textSchema(1000),
+    from: Joi.string().max(10),
+    to: Joi.string().max(10),
+    minQualityScore: Joi.number().min(0).max(1),
+    maxQualityScore: Joi.number().min(0).max(1),
+    minHitCount: Joi.number().integer().min(0),
+    maxHitCount: Joi.number().integer().min(0)
+  });
+
+  /**
+   * 翻訳リクエストのバリデーション
+   */
+  static validateTranslationRequest(req: Request, res: Response, next: NextFunction): void {
+    ValidationMiddleware.validateBody(ValidationMiddleware.translationRequestSchema, req, res, next);
   }
 
   /**
    * バッチ翻訳リクエストのバリデーション
    */
   static validateBatchTranslationRequest(req: Request, res: Response, next: NextFunction): void {
-    const errors: Record<string, string[]> = {};
-    const { texts, targetLanguage, sourceLanguage, maxConcurrency, preserveOrder } = req.body;
-
-    // テキスト配列の検証
-    if (!texts) {
-      errors.texts = ['翻訳対象のテキスト配列が必要です'];
-    } else if (!Array.isArray(texts)) {
-      errors.texts = ['textsは配列である必要があります'];
-    } else if (texts.length === 0) {
-      errors.texts = ['テキスト配列が空です'];
-    } else if (texts.length > 100) {
-      errors.texts = ['バッチ翻訳は最大100件までです'];
-    } else {
-      // 各テキストの検証
-      const textErrors: string[] = [];
-      texts.forEach((text, index) => {
-        if (typeof text !== 'string') {
-          textErrors.push(`インデックス${index}: テキストは文字列である必要があります`);
-        } else if (text.trim().length === 0) {
-          textErrors.push(`インデックス${index}: テキストが空です`);
-        } else if (text.length > 5000) {
-          textErrors.push(`インデックス${index}: テキストは5000文字以下である必要があります`);
-        }
-      });
-      if (textErrors.length > 0) {
-        errors.texts = textErrors;
-      }
-    }
+    ValidationMiddleware.validateBody(ValidationMiddleware.batchTranslationRequestSchema, req, res, next);
+  }
 
-    // 翻訳先言語の検証
-    if (!targetLanguage) {
-      errors.targetLanguage = ['翻訳先言語が必要です'];
-    } else if (typeof targetLanguage !== 'string') {
-      errors.targetLanguage = ['翻訳先言語は文字列である必要があります'];
-    } else if (!ValidationMiddleware.SUPPORTED_LANGUAGES.includes(targetLanguage as SupportedLanguage)) {
-      errors.targetLanguage = [`サポートされていない言語です: ${targetLanguage}`];
-    }
+  /**
+   * 複数言語への翻訳リクエストのバリデーション
+   */
+  static validateMultiTargetTranslationRequest(req: Request, res: Response, next: NextFunction): void {
+    ValidationMiddleware.validateBody(ValidationMiddleware.multiTargetTranslationRequestSchema, req, res, next);
+  }
 
-    // 翻訳元言語の検証（オプション）
-    if (sourceLanguage !== undefined) {
-      if (typeof sourceLanguage !== 'string') {
-        errors.sourceLanguage = ['翻訳元言語は文字列である必要があります'];
-      } else if (!ValidationMiddleware.SUPPORTED_LANGUAGES.includes(sourceLanguage as SupportedLanguage)) {
-        errors.sourceLanguage = [`サポートされていない言語です: ${sourceLanguage}`];
-      }
-    }
+  /**
+   * 非同期翻訳ジョブ作成リクエストのバリデーション
+   */
+  static validateTranslationJobRequest(req: Request, res: Response, next: NextFunction): void {
+    ValidationMiddleware.validateBody(ValidationMiddleware.translationJobRequestSchema, req, res, next);
+  }
 
-    // 最大同時実行数の検証（オプション）
-    if (maxConcurrency !== undefined) {
-      if (typeof maxConcurrency !== 'number') {
-        errors.maxConcurrency = ['最大同時実行数は数値である必要があります'];
-      } else if (maxConcurrency < 1 || maxConcurrency > 10) {
-        errors.maxConcurrency = ['最大同時実行数は1〜10の範囲で指定してください'];
-      }
-    }
+  /**
+   * 言語検出リクエストのバリデーション
+   */
+  static validateLanguageDetectionRequest(req: Request, res: Response, next: NextFunction): void {
+    ValidationMiddleware.validateBody(ValidationMiddleware.languageDetectionRequestSchema, req, res, next);
+  }
 
-    // 順序保持フラグの検証（オプション）
-    if (preserveOrder !== undefined && typeof preserveOrder !== 'boolean') {
-      errors.preserveOrder = ['順序保持フラグはboolean値である必要があります'];
-    }
+  /**
+   * 用語集エントリのバリデーション
+   */
+  static validateGlossaryEntryRequest(req: Request, res: Response, next: NextFunction): void {
+    ValidationMiddleware.validateBody(ValidationMiddleware.glossaryEntryRequestSchema, req, res, next);
+  }
 
-    if (Object.keys(errors).length > 0) {
-      const response: ValidationErrorResponse = {
-        success: false,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: '入力値に問題があります',
-          details: errors
-        },
-        metadata: {
-          timestamp: new Date(),
-          version: '1.0.0'
-        }
-      };
-      res.status(400).json(response);
-      return;
-    }
+  /**
+   * 翻訳の修正提案のバリデーション
+   */
+  static validateTranslationCorrectionRequest(req: Request, res: Response, next: NextFunction): void {
+    ValidationMiddleware.validateBody(ValidationMiddleware.translationCorrectionRequestSchema, req, res, next);
+  }
 
-    next();
+  /**
+   * 翻訳の月間予算設定のバリデーション
+   */
+  static validateTranslationBudgetRequest(req: Request, res: Response, next: NextFunction): void {
+    ValidationMiddleware.validateBody(ValidationMiddleware.translationBudgetRequestSchema, req, res, next);
   }
 
   /**
-   * 言語検出リクエストのバリデーション
+   * 修正提案の審査（承認・却下）のバリデーション
    */
-  static validateLanguageDetectionRequest(req: Request, res: Response, next: NextFunction): void {
-    const errors: Record<string, string[]> = {};
-    const { text } = req.body;
-
-    // テキストの検証
-    if (!text) {
-      errors.text = ['言語検出対象のテキストが必要です'];
-    } else if (typeof text !== 'string') {
-      errors.text = ['テキストは文字列である必要があります'];
-    } else if (text.trim().length === 0) {
-      errors.text = ['テキストが空です'];
-    } else if (text.length > 1000) {
-      errors.text = ['言語検出用テキストは1000文字以下である必要があります'];
-    }
+  static validateCorrectionReviewRequest(req: Request, res: Response, next: NextFunction): void {
+    ValidationMiddleware.validateBody(ValidationMiddleware.correctionReviewRequestSchema, req, res, next);
+  }
 
-    if (Object.keys(errors).length > 0) {
-      const response: ValidationErrorResponse = {
-        success: false,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: '入力値に問題があります',
-          details: errors
-        },
-        metadata: {
-          timestamp: new Date(),
-          version: '1.0.0'
-        }
-      };
-      res.status(400).json(response);
+  /**
+   * 翻訳キャッシュのウォームアップのバリデーション
+   */
+  static validateCacheWarmupRequest(req: Request, res: Response, next: NextFunction): void {
+    ValidationMiddleware.validateBody(ValidationMiddleware.cacheWarmupRequestSchema, req, res, next);
+  }
+
+  /**
+   * 翻訳キャッシュの一括無効化のバリデーション
+   */
+  static validateCacheInvalidationRequest(req: Request, res: Response, next: NextFunction): void {
+    ValidationMiddleware.validateBody(ValidationMiddleware.cacheInvalidationRequestSchema, req, res, next);
+  }
+
+  /**
+   * リクエストボディをスキーマで検証
+   * エラーは項目ごとにまとめ、翻訳APIのレスポンス形式（VALIDATION_ERROR）で返す
+   */
+  private static validateBody<T>(schema: Joi.ObjectSchema<T>, req: Request, res: Response, next: NextFunction): void {
+    const { value, error } = schema.validate(req.body, ValidationMiddleware.VALIDATION_OPTIONS);
+
+    if (error) {
+      const locale = resolveErrorLocale(req);
+      const errors: Record<string, string[]> = {};
+      for (const detail of error.details) {
+        const field = detail.path.length > 0 ? String(detail.path[0]) : 'body';
+        const message = ValidationMiddleware.localizeDetail(detail, locale);
+        errors[field] = [...(errors[field] || []), message];
+      }
+
+      sendTranslationError(res, createResponseContext(req), 400, {
+        code: 'VALIDATION_ERROR',
+        details: errors
+      });
       return;
     }
 
+    req.body = value ?? {};
     next();
   }
 
+  /**
+   * Joi のエラー詳細を指定言語のメッセージに変換
+   * 配列の要素のエラーは「インデックス{index}: 」を前置する
+   */
+  private static localizeDetail(detail: Joi.ValidationErrorItem, locale: SupportedLanguage): string {
+    const code: ValidationMessageCode = detail.path.length === 0 && detail.type === 'object.base'
+      ? 'VALIDATION_BODY_NOT_OBJECT'
+      : detail.message.startsWith('VALIDATION_')
+        ? detail.message as ValidationMessageCode
+        : JOI_ERROR_MESSAGE_CODES[detail.type] || 'VALIDATION_INVALID_VALUE';
+
+    const context = detail.context || {};
+    const message = getLocalizedErrorMessage(code, locale, {
+      limit: context.limit,
+      value: context.value,
+      values: Array.isArray(context.valids) ? context.valids.join(', ') : ''
+    });
+
+    const index = detail.path[1];
+    return typeof index === 'number'
+      ? getLocalizedErrorMessage('VALIDATION_ITEM', locale, { index, message })
+      : message;
+  }
+
   /**
    * 共通のリクエストボディサイズ制限
    */
@@ -219,7 +393,7 @@ export class ValidationMiddleware {
         success: false,
         error: {
           code: 'REQUEST_TOO_LARGE',
-          message: 'リクエストサイズが大きすぎます（最大1MB）'
+          message: getLocalizedErrorMessage('REQUEST_TOO_LARGE', resolveErrorLocale(req))
         },
         metadata: {
           timestamp: new Date(),
@@ -245,7 +419,7 @@ export class ValidationMiddleware {
           success: false,
           error: {
             code: 'INVALID_CONTENT_TYPE',
-            message: 'Content-Typeはapplication/jsonである必要があります'
+            message: getLocalizedErrorMessage('INVALID_CONTENT_TYPE', resolveErrorLocale(req))
           },
           metadata: {
             timestamp: new Date(),
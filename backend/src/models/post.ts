@@ -0,0 +1,125 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  QueryCommand,
+  QueryCommandOutput,
+  ScanCommand,
+  ScanCommandOutput
+} from '@aws-sdk/lib-dynamodb';
+
+/**
+ * 翻訳キャッシュのウォームアップに使う投稿の属性
+ */
+export interface PopularPost {
+  id: string;
+  categoryId: string;
+  title: string;
+  content: string;
+  originalLanguage?: string;
+  viewCount: number;
+  createdAt: string;
+}
+
+/**
+ * 人気の投稿の取得条件
+ */
+export interface PopularPostQuery {
+  limit: number;
+  since: string;           // この日時（ISO 8601）以降に作成された投稿が対象
+  perCategoryLimit: number; // カテゴリごとに読み込む投稿数の上限
+}
+
+/**
+ * 投稿の読み取り専用モデル
+ * 投稿の作成・更新はフロントエンドの API が行うため、ここでは翻訳に必要な属性だけを読む
+ */
+export class PostModel {
+  private client: DynamoDBDocumentClient;
+  private tableName: string;
+  private categoriesTableName: string;
+
+  constructor() {
+    const dynamoClient = new DynamoDBClient({
+      region: process.env.AWS_REGION || 'ap-northeast-1'
+    });
+
+    this.client = DynamoDBDocumentClient.from(dynamoClient);
+    this.tableName = process.env.POSTS_TABLE || 'Posts';
+    this.categoriesTableName = process.env.CATEGORIES_TABLE || 'Categories';
+  }
+
+  /**
+   * 閲覧数の多い投稿を取得
+   * カテゴリごとに category-created-index で期間内の新しい投稿を読み、閲覧数の多い順に並べる
+   */
+  async getPopularPosts(query: PopularPostQuery): Promise<PopularPost[]> {
+    const categoryIds = await this.listCategoryIds();
+    const posts: PopularPost[] = [];
+
+    for (const categoryId of categoryIds) {
+      posts.push(...await this.queryByCategory(categoryId, query.since, query.perCategoryLimit));
+    }
+
+    return posts
+      .sort((a, b) => b.viewCount - a.viewCount || b.createdAt.localeCompare(a.createdAt))
+      .slice(0, query.limit);
+  }
+
+  /**
+   * カテゴリIDの一覧を取得（カテゴリは少数のためスキャンする）
+   */
+  private async listCategoryIds(): Promise<string[]> {
+    const categoryIds: string[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response: ScanCommandOutput = await this.client.send(new ScanCommand({
+        TableName: this.categoriesTableName,
+        ProjectionExpression: 'id',
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+
+      categoryIds.push(...(response.Items || []).map(item => item.id as string));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return categoryIds;
+  }
+
+  /**
+   * カテゴリ内の投稿を新しい順に取得（category-created-index を使用）
+   */
+  private async queryByCategory(categoryId: string, since: string, limit: number): Promise<PopularPost[]> {
+    const posts: PopularPost[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response: QueryCommandOutput = await this.client.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: 'category-created-index',
+        KeyConditionExpression: 'categoryId = :categoryId AND createdAt >= :since',
+        ProjectionExpression: 'id, categoryId, title, content, originalLanguage, viewCount, createdAt',
+        ExpressionAttributeValues: {
+          ':categoryId': categoryId,
+          ':since': since
+        },
+        ScanIndexForward: false,
+        Limit: limit - posts.length,
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+
+      posts.push(...(response.Items || []).map(item => ({
+        id: item.id,
+        categoryId: item.categoryId,
+        title: item.title || '',
+        content: item.content || '',
+        originalLanguage: item.originalLanguage,
+        viewCount: item.viewCount || 0,
+        createdAt: item.createdAt
+      })));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey && posts.length < limit);
+
+    return posts;
+  }
+}
@@ -3,11 +3,120 @@ import {
   DynamoDBDocumentClient, 
   PutCommand, 
   GetCommand, 
+  UpdateCommand,
   DeleteCommand,
+  QueryCommand,
+  QueryCommandOutput,
+  BatchGetCommand,
+  BatchGetCommandOutput,
+  BatchWriteCommand,
   ScanCommand,
-  QueryCommand
+  ScanCommandOutput
 } from '@aws-sdk/lib-dynamodb';
 import { generateContentHash } from '../utils/translationUtils';
+import { waitBeforeUnprocessedRetry } from '../utils/retry';
+
+/**
+ * BatchGetCommand の1回あたりの最大件数
+ */
+const BATCH_GET_LIMIT = 100;
+
+/**
+ * BatchWriteCommand の1回あたりの最大件数
+ */
+const BATCH_WRITE_LIMIT = 25;
+
+/**
+ * 一覧取得でインデックスを1回に読む件数
+ */
+const LIST_PAGE_SIZE = 100;
+
+/**
+ * 一覧取得の1回の呼び出しで読む最大件数（条件に一致しなかった分を含む）
+ */
+const MAX_LIST_EVALUATED = 1000;
+
+/**
+ * 統計情報のカウンターアイテムのキー（contentHash は16進数のため衝突しない）
+ * 書き込みを分散するため '#statistics#<n>' に分け、読むときに合計する（'#statistics' は分ける前のアイテム）
+ */
+const STATISTICS_KEY = '#statistics';
+
+/**
+ * 日別の参照回数アイテムのキーの接頭辞（'#daily#2024-01-01#<n>' 形式。'#daily#2024-01-01' は分ける前のアイテム）
+ */
+const DAILY_STATISTICS_PREFIX = '#daily#';
+
+/**
+ * カウンターアイテムを分ける数（書き込むアイテムは無作為に選ぶ）
+ */
+const STATISTICS_SHARDS = 10;
+
+/**
+ * キャッシュエントリの entryType の接頭辞
+ * last-accessed-index・expires-index のパーティションキーで、カウンターアイテムには付けない
+ */
+const ENTRY_TYPE = 'translation';
+
+/**
+ * last-accessed-index・expires-index のパーティションの数
+ * 書き込みが1つのパーティションに集中しないよう、entryType を contentHash から決めた 'translation#<n>' にする
+ * 変更した場合は scripts/backfill-translation-cache-index.ts で既存のエントリの entryType を付け直す
+ */
+const ENTRY_TYPE_SHARDS = 10;
+
+/**
+ * last-accessed-index・expires-index のパーティションキーの一覧
+ */
+const ENTRY_TYPE_PARTITIONS = Array.from({ length: ENTRY_TYPE_SHARDS }, (_, index) => `${ENTRY_TYPE}#${index}`);
+
+/**
+ * 分割したカウンターアイテムのキー（分ける前のアイテムを先頭に含む）
+ */
+function statisticsKeys(baseKey: string): string[] {
+  return [baseKey, ...Array.from({ length: STATISTICS_SHARDS }, (_, index) => `${baseKey}#${index}`)];
+}
+
+/**
+ * 書き込むカウンターアイテムのキー
+ */
+function statisticsShardKey(baseKey: string): string {
+  return `${baseKey}#${Math.floor(Math.random() * STATISTICS_SHARDS)}`;
+}
+
+/**
+ * contentHash から entryType（last-accessed-index・expires-index のパーティションキー）を決める
+ */
+function entryTypePartition(contentHash: string): string {
+  const shard = parseInt(contentHash.slice(0, 8), 16);
+  return ENTRY_TYPE_PARTITIONS[Number.isNaN(shard) ? 0 : shard % ENTRY_TYPE_SHARDS]!;
+}
+
+/**
+ * 一覧取得の続きのキーから読むパーティションの番号を決める
+ */
+function entryTypePartitionIndex(key?: Record<string, any>): number {
+  const index = ENTRY_TYPE_PARTITIONS.indexOf(key?.entryType);
+  return index === -1 ? 0 : index;
+}
+
+/**
+ * インデックス用の属性（API には返さない）
+ */
+interface CacheIndexAttributes {
+  entryType: string;
+  languagePair: string; // 'en#ja' 形式
+}
+
+/**
+ * キャッシュの一括取得キー
+ */
+export interface CacheLookupKey {
+  originalText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  glossaryVersion?: string;
+}
 
 /**
  * 翻訳キャッシュエントリの型定義
@@ -20,10 +129,55 @@ export interface TranslationCacheEntry {
   targetLanguage: string;
   confidence?: number;
   qualityScore?: number;
+  glossaryVersion?: string; // 翻訳時に適用した用語集のバージョン
   createdAt: string;
-  expiresAt: number; // TTL用のUnixタイムスタンプ
+  translatedAt?: string; // 現在の翻訳結果を保存した日時（有効期限の起点。ない場合は createdAt）
+  expiresAt?: number; // TTL用のUnixタイムスタンプ（人が修正したエントリは期限なし）
   hitCount: number;
   lastAccessedAt: string;
+  correctionId?: string; // 適用した修正提案
+  correctedBy?: string;
+  correctedAt?: string;
+}
+
+/**
+ * キャッシュエントリに適用する修正
+ */
+export interface CacheCorrection {
+  originalText: string;
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  glossaryVersion?: string;
+  correctionId: string;
+  correctedBy?: string;
+  correctedAt: string;
+}
+
+/**
+ * まとめて加算するヒット数（DynamoDB より手前の階層でヒットした回数）
+ */
+export interface CacheHitIncrement {
+  entry: TranslationCacheEntry;
+  count: number;
+  lastAccessedAt: string; // 最後にヒットした日時
+}
+
+/**
+ * キャッシュの階層（参照順）
+ */
+export type CacheTierName = 'memory' | 'redis' | 'dynamodb';
+
+/**
+ * 階層ごとのヒット・ミス統計（プロセス起動後の累計）
+ */
+export interface CacheTierStatistics {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  errors: number;
+  entries?: number; // 件数を把握できる階層のみ
 }
 
 /**
@@ -34,30 +188,219 @@ export interface CacheStatistics {
   hitCount: number;
   missCount: number;
   hitRate: number;
+  oldestEntry?: string; // 削除では更新しないため、削除済みのエントリの作成日時のことがある
+  newestEntry?: string;
+  tiers?: Partial<Record<CacheTierName, CacheTierStatistics>>;
+  timeSeries?: CacheHitRateSeries; // 期間を指定した場合のみ
+}
+
+/**
+ * ヒット数・ミス数とヒット率
+ */
+export interface CacheHitRate {
+  hitCount: number;
+  missCount: number;
+  hitRate: number;
+}
+
+/**
+ * 言語ペア別のキャッシュ参照回数（日別集計に加算する単位）
+ */
+export interface CacheAccessCount {
+  sourceLanguage: string;
+  targetLanguage: string;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * 1日分のキャッシュ参照回数
+ */
+export interface CacheDailyStatistics {
+  date: string; // YYYY-MM-DD（UTC）
+  hitCount: number;
+  missCount: number;
+  byLanguagePair: Record<string, CacheLanguagePairCount>; // キーは 'en-ja' 形式
+}
+
+/**
+ * 言語ペア別のヒット数・ミス数
+ */
+export interface CacheLanguagePairCount {
+  sourceLanguage: string;
+  targetLanguage: string;
+  hitCount: number;
+  missCount: number;
+}
+
+/**
+ * 期間内のヒット率の推移
+ */
+export interface CacheHitRateSeries {
+  from: string;
+  to: string;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  totals: CacheHitRate;
+  daily: Array<CacheHitRate & { date: string }>;
+  byLanguagePair: Record<string, CacheHitRate>;
+}
+
+/**
+ * キャッシュエントリの検索条件
+ * from・to（YYYY-MM-DD、UTC）は作成日時の範囲。範囲の条件はすべて両端を含む
+ */
+export interface CacheEntryFilter {
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  text?: string; // 原文・翻訳文の部分一致（大文字・小文字を区別しない）
+  from?: string;
+  to?: string;
+  minQualityScore?: number;
+  maxQualityScore?: number;
+  minHitCount?: number;
+  maxHitCount?: number;
+}
+
+/**
+ * キャッシュエントリの一覧の1ページ
+ */
+export interface CacheEntryPage {
+  entries: TranslationCacheEntry[];
+  lastEvaluatedKey?: Record<string, any>;
+}
+
+/**
+ * インデックス用の属性のバックフィルで1ページ分を処理した結果
+ */
+export interface CacheIndexBackfillPage {
+  scanned: number; // カウンターアイテムを含む
+  entries: number;
+  updated: number; // 属性を付与した（dryRun の場合は付与が必要な）エントリ
   oldestEntry?: string;
   newestEntry?: string;
+  lastEvaluatedKey?: Record<string, any>;
+}
+
+/**
+ * キャッシュエントリを取り込むときに、同じ contentHash のエントリがある場合の扱い
+ * - skip: 既存のエントリを残す
+ * - overwrite: 取り込むエントリで上書きする
+ * - keep-higher-quality: 品質スコアが既存より高い場合のみ上書きする（人が修正したエントリは上書きしない）
+ */
+export type CacheImportConflictPolicy = 'skip' | 'overwrite' | 'keep-higher-quality';
+
+/**
+ * キャッシュエントリを取り込んだ結果
+ */
+export type CacheImportOutcome = 'created' | 'overwritten' | 'skipped';
+
+/**
+ * エントリが検索条件に一致するか
+ * 品質スコアの条件を指定した場合、スコアのないエントリは一致しない
+ */
+export function matchesCacheEntryFilter(entry: TranslationCacheEntry, filter: CacheEntryFilter): boolean {
+  const createdDate = entry.createdAt.slice(0, 10);
+  const text = filter.text?.toLowerCase();
+
+  return (!filter.sourceLanguage || entry.sourceLanguage === filter.sourceLanguage) &&
+    (!filter.targetLanguage || entry.targetLanguage === filter.targetLanguage) &&
+    (!text || entry.originalText.toLowerCase().includes(text) || entry.translatedText.toLowerCase().includes(text)) &&
+    (!filter.from || createdDate >= filter.from) &&
+    (!filter.to || createdDate <= filter.to) &&
+    (filter.minQualityScore === undefined || (entry.qualityScore !== undefined && entry.qualityScore >= filter.minQualityScore)) &&
+    (filter.maxQualityScore === undefined || (entry.qualityScore !== undefined && entry.qualityScore <= filter.maxQualityScore)) &&
+    (filter.minHitCount === undefined || entry.hitCount >= filter.minHitCount) &&
+    (filter.maxHitCount === undefined || entry.hitCount <= filter.maxHitCount);
+}
+
+/**
+ * 取り込むエントリと既存のエントリから取り込みの結果を決める
+ */
+export function resolveImportConflict(
+  entry: TranslationCacheEntry,
+  existing: TranslationCacheEntry | undefined,
+  policy: CacheImportConflictPolicy
+): CacheImportOutcome {
+  if (!existing) {
+    return 'created';
+  }
+
+  switch (policy) {
+    case 'overwrite':
+      return 'overwritten';
+    case 'keep-higher-quality':
+      return !existing.correctedAt && entry.qualityScore !== undefined &&
+        (existing.qualityScore === undefined || entry.qualityScore > existing.qualityScore)
+        ? 'overwritten'
+        : 'skipped';
+    default:
+      return 'skipped';
+  }
+}
+
+/**
+ * 保存する翻訳キャッシュエントリを作成
+ */
+export function createCacheEntry(
+  originalText: string,
+  translatedText: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  confidence: number | undefined,
+  qualityScore: number | undefined,
+  ttl: number,
+  glossaryVersion?: string
+): TranslationCacheEntry {
+  const now = new Date();
+
+  return {
+    contentHash: generateContentHash(originalText, sourceLanguage, targetLanguage, glossaryVersion),
+    originalText,
+    translatedText,
+    sourceLanguage,
+    targetLanguage,
+    confidence,
+    qualityScore,
+    glossaryVersion,
+    createdAt: now.toISOString(),
+    expiresAt: Math.floor(now.getTime() / 1000) + ttl,
+    hitCount: 0,
+    lastAccessedAt: now.toISOString()
+  };
 }
 
 /**
  * 翻訳キャッシュのDynamoDBモデル
+ * パーティションキー contentHash。次のインデックスで Scan を使わずに参照する
+ * - language-pair-index: languagePair + createdAt（言語ペア別の一覧）
+ * - last-accessed-index: entryType + lastAccessedAt（LRU による件数制限・全件削除・言語ペアを指定しない一覧）
+ * - expires-index: entryType + expiresAt（期限切れエントリの削除。期限のない修正済みエントリは含まれない）
+ * entryType は 'translation#<n>' に分けてあるため、last-accessed-index・expires-index は全パーティションを読んで併合する
+ * 件数・ヒット数・ミス数は contentHash '#statistics#<n>' のカウンターアイテムで、
+ * 言語ペア別・日別の参照回数は '#daily#YYYY-MM-DD#<n>' のアイテムで管理する
  */
 export class TranslationCacheModel {
   private client: DynamoDBDocumentClient;
   private tableName: string;
   private defaultTtl: number; // 秒単位
+  private staleGracePeriod: number; // 期限切れ後も障害時に提供できる期間（秒単位）
 
   constructor() {
     const dynamoClient = new DynamoDBClient({
-      region: process.env.AWS_REGION || 'ap-northeast-1'
+      region: process.env.AWS_REGION || 'ap-northeast-1',
+      endpoint: process.env.DYNAMODB_ENDPOINT || undefined // DynamoDB Local との間でエントリを移す場合など
     });
     
     this.client = DynamoDBDocumentClient.from(dynamoClient);
     this.tableName = process.env.TRANSLATION_CACHE_TABLE || 'TranslationCache';
     this.defaultTtl = parseInt(process.env.TRANSLATION_CACHE_TTL || '86400'); // 24時間
+    this.staleGracePeriod = parseInt(process.env.TRANSLATION_CACHE_STALE_GRACE_PERIOD || '604800'); // 7日間
   }
 
   /**
    * キャッシュエントリを保存
+   * 人が修正したエントリは機械翻訳で上書きしない
    */
   async put(
     originalText: string,
@@ -66,50 +409,153 @@ export class TranslationCacheModel {
     targetLanguage: string,
     confidence?: number,
     qualityScore?: number,
-    customTtl?: number
+    customTtl?: number,
+    glossaryVersion?: string
   ): Promise<TranslationCacheEntry> {
-    const contentHash = generateContentHash(originalText, sourceLanguage, targetLanguage);
-    const now = new Date();
-    const ttl = customTtl || this.defaultTtl;
-    const expiresAt = Math.floor(now.getTime() / 1000) + ttl;
-
-    const entry: TranslationCacheEntry = {
-      contentHash,
+    const entry = createCacheEntry(
       originalText,
       translatedText,
       sourceLanguage,
       targetLanguage,
       confidence,
       qualityScore,
-      createdAt: now.toISOString(),
-      expiresAt,
-      hitCount: 0,
-      lastAccessedAt: now.toISOString()
-    };
+      customTtl || this.defaultTtl,
+      glossaryVersion
+    );
+    const contentHash = entry.contentHash;
 
     try {
-      await this.client.send(new PutCommand({
+      const response = await this.client.send(new PutCommand({
         TableName: this.tableName,
-        Item: entry
+        Item: { ...entry, ...this.indexAttributes(entry) },
+        ConditionExpression: 'attribute_not_exists(correctedAt)',
+        ReturnValues: 'ALL_OLD'
       }));
 
+      if (!response.Attributes) {
+        await this.updateStatistics({ totalEntries: 1 }, entry.createdAt);
+      }
+
       console.log(`翻訳キャッシュを保存しました: ${contentHash}`);
       return entry;
     } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        console.log(`修正済みのキャッシュエントリのため上書きしません: ${contentHash}`);
+        return (await this.getByHash(contentHash)) || entry;
+      }
       console.error('翻訳キャッシュの保存に失敗:', error);
       throw new Error(`キャッシュ保存エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * キャッシュエントリを作成するか、既存のエントリの翻訳結果を置き換える（期限切れのエントリを翻訳し直した場合など）
+   * 事前に読み取らず1回の条件付き更新で行い、既存のエントリのヒット数・作成日時・最終アクセス日時は残す
+   * translatedAt を現在にし、有効期限はそこから customTtl 後にする。人が修正したエントリは機械翻訳で上書きしない
+   */
+  async refresh(
+    originalText: string,
+    translatedText: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    confidence?: number,
+    qualityScore?: number,
+    customTtl?: number,
+    glossaryVersion?: string
+  ): Promise<TranslationCacheEntry> {
+    const created = createCacheEntry(
+      originalText,
+      translatedText,
+      sourceLanguage,
+      targetLanguage,
+      confidence,
+      qualityScore,
+      customTtl || this.defaultTtl,
+      glossaryVersion
+    );
+    const contentHash = created.contentHash;
+
+    const values: Record<string, any> = {
+      ':originalText': originalText,
+      ':translatedText': translatedText,
+      ':sourceLanguage': sourceLanguage,
+      ':targetLanguage': targetLanguage,
+      ':expiresAt': created.expiresAt,
+      ':now': created.createdAt,
+      ':zero': 0,
+      ...this.indexAttributeValues(created)
+    };
+    const assignments = [
+      'originalText = :originalText',
+      'translatedText = :translatedText',
+      'sourceLanguage = :sourceLanguage',
+      'targetLanguage = :targetLanguage',
+      'expiresAt = :expiresAt',
+      'entryType = :entryType',
+      'languagePair = :languagePair',
+      'translatedAt = :now',
+      'createdAt = if_not_exists(createdAt, :now)',
+      'hitCount = if_not_exists(hitCount, :zero)',
+      'lastAccessedAt = if_not_exists(lastAccessedAt, :now)'
+    ];
+    // 値のない項目は前の翻訳の値を残さない
+    const removals: string[] = [];
+    for (const [name, value] of Object.entries({ confidence, qualityScore, glossaryVersion })) {
+      if (value === undefined) {
+        removals.push(name);
+      } else {
+        values[`:${name}`] = value;
+        assignments.push(`${name} = :${name}`);
+      }
+    }
+
+    try {
+      const response = await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { contentHash },
+        UpdateExpression: `SET ${assignments.join(', ')}${removals.length > 0 ? ` REMOVE ${removals.join(', ')}` : ''}`,
+        ConditionExpression: 'attribute_not_exists(correctedAt)',
+        ExpressionAttributeValues: values,
+        ReturnValues: 'ALL_OLD'
+      }));
+
+      const previous = response.Attributes;
+      if (!previous) {
+        await this.updateStatistics({ totalEntries: 1 }, created.createdAt);
+        console.log(`翻訳キャッシュを保存しました: ${contentHash}`);
+        return { ...created, translatedAt: created.createdAt };
+      }
+
+      console.log(`翻訳キャッシュを更新しました: ${contentHash}`);
+      return {
+        ...created,
+        translatedAt: created.createdAt,
+        createdAt: previous.createdAt ?? created.createdAt,
+        hitCount: previous.hitCount ?? 0,
+        lastAccessedAt: previous.lastAccessedAt ?? created.lastAccessedAt
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        console.log(`修正済みのキャッシュエントリのため上書きしません: ${contentHash}`);
+        return (await this.getByHash(contentHash)) || created;
+      }
+      console.error('翻訳キャッシュの更新に失敗:', error);
+      throw new Error(`キャッシュ更新エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * キャッシュエントリを取得
+   * allowStale が true の場合は猶予期間内の期限切れエントリも返す（翻訳プロバイダー障害時用）
    */
   async get(
     originalText: string,
     sourceLanguage: string,
-    targetLanguage: string
+    targetLanguage: string,
+    glossaryVersion?: string,
+    allowStale: boolean = false
   ): Promise<TranslationCacheEntry | null> {
-    const contentHash = generateContentHash(originalText, sourceLanguage, targetLanguage);
+    const contentHash = generateContentHash(originalText, sourceLanguage, targetLanguage, glossaryVersion);
 
     try {
       const response = await this.client.send(new GetCommand({
@@ -121,20 +567,22 @@ export class TranslationCacheModel {
         return null;
       }
 
-      const entry = response.Item as TranslationCacheEntry;
+      const entry = this.toEntry(response.Item);
 
       // TTLチェック（DynamoDBのTTLが有効でない場合の手動チェック）
+      // 猶予期間内の期限切れエントリは障害時に提供できるよう残しておく
       const now = Math.floor(Date.now() / 1000);
-      if (entry.expiresAt && entry.expiresAt < now) {
+      if (entry.expiresAt && entry.expiresAt + this.staleGracePeriod < now) {
         console.log(`期限切れのキャッシュエントリを削除: ${contentHash}`);
         await this.delete(contentHash);
         return null;
       }
+      if (entry.expiresAt && entry.expiresAt < now && !allowStale) {
+        return null;
+      }
 
       // ヒット数を更新
-      await this.updateHitCount(contentHash, entry.hitCount + 1);
-      entry.hitCount += 1;
-      entry.lastAccessedAt = new Date().toISOString();
+      await this.updateHitCount(entry);
 
       console.log(`翻訳キャッシュヒット: ${contentHash}`);
       return entry;
@@ -145,16 +593,138 @@ export class TranslationCacheModel {
   }
 
   /**
-   * キャッシュエントリを削除
+   * contentHash でキャッシュエントリを取得（ヒット数は更新せず、期限切れも返す）
    */
-  async delete(contentHash: string): Promise<void> {
+  async getByHash(contentHash: string): Promise<TranslationCacheEntry | null> {
     try {
-      await this.client.send(new DeleteCommand({
+      const response = await this.client.send(new GetCommand({
         TableName: this.tableName,
         Key: { contentHash }
       }));
 
+      return response.Item ? this.toEntry(response.Item) : null;
+    } catch (error) {
+      console.error('翻訳キャッシュの取得に失敗:', error);
+      throw new Error(`キャッシュ取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 人による修正をキャッシュエントリに適用
+   * 修正後のエントリは有効期限を持たず、期限切れで削除されない
+   * エントリが既に削除されている場合は修正内容で作り直す
+   */
+  async applyCorrection(contentHash: string, correction: CacheCorrection): Promise<TranslationCacheEntry> {
+    const values: Record<string, any> = {
+      ':originalText': correction.originalText,
+      ':translatedText': correction.translatedText,
+      ':sourceLanguage': correction.sourceLanguage,
+      ':targetLanguage': correction.targetLanguage,
+      ':correctionId': correction.correctionId,
+      ':correctedBy': correction.correctedBy ?? null,
+      ':correctedAt': correction.correctedAt,
+      ':entryType': entryTypePartition(contentHash),
+      ':languagePair': `${correction.sourceLanguage}#${correction.targetLanguage}`,
+      ':zero': 0
+    };
+    let glossaryAssignment = '';
+    if (correction.glossaryVersion !== undefined) {
+      values[':glossaryVersion'] = correction.glossaryVersion;
+      glossaryAssignment = ', glossaryVersion = :glossaryVersion';
+    }
+
+    try {
+      const existing = await this.getByHash(contentHash);
+      const response = await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { contentHash },
+        UpdateExpression: 'SET originalText = :originalText, translatedText = :translatedText, ' +
+          'sourceLanguage = :sourceLanguage, targetLanguage = :targetLanguage, ' +
+          'correctionId = :correctionId, correctedBy = :correctedBy, correctedAt = :correctedAt, ' +
+          'entryType = :entryType, languagePair = :languagePair, ' +
+          'createdAt = if_not_exists(createdAt, :correctedAt), hitCount = if_not_exists(hitCount, :zero), ' +
+          `lastAccessedAt = if_not_exists(lastAccessedAt, :correctedAt)${glossaryAssignment} ` +
+          'REMOVE expiresAt',
+        ExpressionAttributeValues: values,
+        ReturnValues: 'ALL_NEW'
+      }));
+
+      if (!existing) {
+        await this.updateStatistics({ totalEntries: 1 }, correction.correctedAt);
+      }
+
+      console.log(`翻訳キャッシュに修正を適用しました: ${contentHash} (${correction.correctionId})`);
+      return this.toEntry(response.Attributes || {});
+    } catch (error) {
+      console.error('翻訳キャッシュへの修正の適用に失敗:', error);
+      throw new Error(`キャッシュ修正エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 複数のキャッシュエントリをまとめて取得
+   * 有効期限内のエントリのみを contentHash をキーにして返す
+   * updateHitCount が false の場合はヒット数を更新しない（ウォームアップの存在確認など）
+   */
+  async getMany(keys: CacheLookupKey[], updateHitCount: boolean = true): Promise<Map<string, TranslationCacheEntry>> {
+    const contentHashes = Array.from(new Set(keys.map(key =>
+      generateContentHash(key.originalText, key.sourceLanguage, key.targetLanguage, key.glossaryVersion)
+    )));
+
+    try {
+      const entries = await this.batchGetEntries(contentHashes);
+
+      // ヒット数を更新
+      if (updateHitCount) {
+        await Promise.all(Array.from(entries.values()).map(entry => this.updateHitCount(entry)));
+      }
+
+      console.log(`翻訳キャッシュ一括取得: ${entries.size}/${contentHashes.length}件ヒット`);
+      return entries;
+    } catch (error) {
+      console.error('翻訳キャッシュの一括取得に失敗:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * 最近参照されたエントリのうちヒット数の多いものを取得（last-accessed-index を使用）
+   * 最終参照日時の新しい順に candidates 件を読み、ヒット数の多い順に limit 件を返す
+   */
+  async getHotEntries(limit: number, candidates: number = limit * 5): Promise<TranslationCacheEntry[]> {
+    try {
+      const contentHashes = await this.queryEntryTypePartitions({
+        IndexName: 'last-accessed-index',
+        ScanIndexForward: false
+      }, Math.max(limit, candidates));
+      const entries = await this.batchGetEntries(contentHashes);
+
+      return Array.from(entries.values())
+        .sort((a, b) => b.hitCount - a.hitCount)
+        .slice(0, limit);
+    } catch (error) {
+      console.error('よく参照されるキャッシュエントリの取得に失敗:', error);
+      return [];
+    }
+  }
+
+  /**
+   * キャッシュエントリを削除し、削除したかどうかを返す
+   */
+  async delete(contentHash: string): Promise<boolean> {
+    try {
+      const response = await this.client.send(new DeleteCommand({
+        TableName: this.tableName,
+        Key: { contentHash },
+        ReturnValues: 'ALL_OLD'
+      }));
+
+      if (response.Attributes) {
+        await this.updateStatistics({ totalEntries: -1 });
+      }
+
       console.log(`翻訳キャッシュを削除しました: ${contentHash}`);
+      return !!response.Attributes;
     } catch (error) {
       console.error('翻訳キャッシュの削除に失敗:', error);
       throw new Error(`キャッシュ削除エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -162,46 +732,124 @@ export class TranslationCacheModel {
   }
 
   /**
-   * ヒット数を更新
+   * DynamoDB より手前の階層でヒットしたエントリのヒット数をまとめて加算し、加算後のエントリを返す
+   * 削除済みのエントリと、加算に失敗したエントリは返さない
+   */
+  async addHitCounts(increments: CacheHitIncrement[]): Promise<TranslationCacheEntry[]> {
+    const entries: TranslationCacheEntry[] = [];
+
+    for (let i = 0; i < increments.length; i += BATCH_WRITE_LIMIT) {
+      const updated = await Promise.all(increments.slice(i, i + BATCH_WRITE_LIMIT).map(increment =>
+        this.addHitCount(increment.entry, increment.count, increment.lastAccessedAt)
+      ));
+      entries.push(...updated.filter((entry): entry is TranslationCacheEntry => entry !== null));
+    }
+
+    return entries;
+  }
+
+  /**
+   * ヒット数を加算し、entry に加算後の値と最終アクセス日時を反映する
    */
-  private async updateHitCount(contentHash: string, newHitCount: number): Promise<void> {
+  private async updateHitCount(entry: TranslationCacheEntry): Promise<void> {
+    const updated = await this.addHitCount(entry, 1, new Date().toISOString());
+    if (updated) {
+      entry.hitCount = updated.hitCount;
+      entry.lastAccessedAt = updated.lastAccessedAt;
+    }
+  }
+
+  /**
+   * ヒット数を加算し、加算後のエントリを返す（失敗した場合は null）
+   * 同時に参照されても加算が失われないよう ADD で更新する
+   * インデックス用の属性がない古いエントリにはここで付与する
+   */
+  private async addHitCount(
+    entry: TranslationCacheEntry,
+    count: number,
+    lastAccessedAt: string
+  ): Promise<TranslationCacheEntry | null> {
     try {
-      await this.client.send(new PutCommand({
+      // 既存のアイテムの一部のみを更新（Put だと翻訳結果や修正履歴が消える）
+      const response = await this.client.send(new UpdateCommand({
         TableName: this.tableName,
-        Item: {
-          contentHash,
-          hitCount: newHitCount,
-          lastAccessedAt: new Date().toISOString()
+        Key: { contentHash: entry.contentHash },
+        UpdateExpression: 'ADD hitCount :count ' +
+          'SET lastAccessedAt = :lastAccessedAt, entryType = :entryType, languagePair = :languagePair',
+        ConditionExpression: 'attribute_exists(contentHash)',
+        ExpressionAttributeValues: {
+          ':count': count,
+          ':lastAccessedAt': lastAccessedAt,
+          ...this.indexAttributeValues(entry)
         },
-        // 既存のアイテムの一部のみを更新
-        ConditionExpression: 'attribute_exists(contentHash)'
+        ReturnValues: 'ALL_NEW'
       }));
+
+      return response.Attributes
+        ? this.toEntry(response.Attributes)
+        : { ...entry, hitCount: entry.hitCount + count, lastAccessedAt };
     } catch (error) {
       // ヒット数の更新に失敗してもキャッシュ取得は継続
       console.warn('ヒット数の更新に失敗:', error);
+      return null;
     }
   }
 
   /**
-   * 言語ペア別のキャッシュエントリを取得
+   * エントリの有効期限を延長し、entry に反映する（ヒット数が増えて TTL が長くなった場合）
+   * 期限のない修正済みエントリと、既に expiresAt 以降まで有効なエントリは更新しない
+   */
+  async extendExpiry(entry: TranslationCacheEntry, expiresAt: number): Promise<void> {
+    try {
+      await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { contentHash: entry.contentHash },
+        UpdateExpression: 'SET expiresAt = :expiresAt',
+        ConditionExpression: 'attribute_exists(expiresAt) AND expiresAt < :expiresAt',
+        ExpressionAttributeValues: { ':expiresAt': expiresAt }
+      }));
+
+      entry.expiresAt = expiresAt;
+      console.log(`翻訳キャッシュの有効期限を延長しました: ${entry.contentHash}`);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        return;
+      }
+      // 延長に失敗してもキャッシュ取得は継続（次に参照されたときに再度延長する）
+      console.warn('有効期限の延長に失敗:', error);
+    }
+  }
+
+  /**
+   * 言語ペア別のキャッシュエントリを新しい順に取得（language-pair-index を使用）
    */
   async getByLanguagePair(
     sourceLanguage: string,
     targetLanguage: string,
     limit: number = 100
   ): Promise<TranslationCacheEntry[]> {
+    const entries: TranslationCacheEntry[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
     try {
-      const response = await this.client.send(new ScanCommand({
-        TableName: this.tableName,
-        FilterExpression: 'sourceLanguage = :source AND targetLanguage = :target',
-        ExpressionAttributeValues: {
-          ':source': sourceLanguage,
-          ':target': targetLanguage
-        },
-        Limit: limit
-      }));
+      do {
+        const response: QueryCommandOutput = await this.client.send(new QueryCommand({
+          TableName: this.tableName,
+          IndexName: 'language-pair-index',
+          KeyConditionExpression: 'languagePair = :languagePair',
+          ExpressionAttributeValues: {
+            ':languagePair': `${sourceLanguage}#${targetLanguage}`
+          },
+          ScanIndexForward: false,
+          Limit: limit - entries.length,
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        entries.push(...(response.Items || []).map(item => this.toEntry(item)));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey && entries.length < limit);
 
-      return (response.Items || []) as TranslationCacheEntry[];
+      return entries;
     } catch (error) {
       console.error('言語ペア別キャッシュ取得に失敗:', error);
       return [];
@@ -209,28 +857,194 @@ export class TranslationCacheModel {
   }
 
   /**
-   * 期限切れのキャッシュエントリをクリーンアップ
+   * 条件に一致するキャッシュエントリを取得（期限切れのエントリも含む）
+   * 言語ペアを指定した場合は language-pair-index を作成日時の新しい順に、
+   * それ以外は last-accessed-index をパーティションごとに最終参照日時の新しい順に読む（パーティションをまたいだ順序は保証しない）
+   * 条件はインデックスから読んだ後に適用するため、読んだ件数が MAX_LIST_EVALUATED に達した場合は limit 件に満たなくても続きのキーを返す
    */
-  async cleanupExpiredEntries(): Promise<number> {
-    const now = Math.floor(Date.now() / 1000);
-    let deletedCount = 0;
+  async listEntries(
+    filter: CacheEntryFilter,
+    limit: number,
+    exclusiveStartKey?: Record<string, any>
+  ): Promise<CacheEntryPage> {
+    const byLanguagePair = !!(filter.sourceLanguage && filter.targetLanguage);
+    const entries: TranslationCacheEntry[] = [];
+    let startKey = exclusiveStartKey;
+    let evaluated = 0;
 
     try {
-      const response = await this.client.send(new ScanCommand({
-        TableName: this.tableName,
-        FilterExpression: 'expiresAt < :now',
-        ExpressionAttributeValues: {
-          ':now': now
+      do {
+        // パーティションの先頭から読む場合、続きのキーは entryType だけを持つ
+        const partition = entryTypePartitionIndex(startKey);
+        const entryType = ENTRY_TYPE_PARTITIONS[partition]!;
+        const response: QueryCommandOutput = await this.client.send(new QueryCommand({
+          TableName: this.tableName,
+          ...(byLanguagePair ? this.languagePairKeyCondition(filter) : {
+            IndexName: 'last-accessed-index',
+            KeyConditionExpression: 'entryType = :entryType',
+            ExpressionAttributeValues: { ':entryType': entryType }
+          }),
+          ScanIndexForward: false,
+          Limit: LIST_PAGE_SIZE,
+          ExclusiveStartKey: byLanguagePair || (startKey?.contentHash && startKey.entryType === entryType)
+            ? startKey
+            : undefined
+        }));
+
+        // last-accessed-index はキーしか持たないため、エントリをまとめて取得する
+        const items = response.Items || [];
+        const fetched = byLanguagePair
+          ? null
+          : await this.batchGetEntries(items.map(item => item.contentHash), true);
+        startKey = response.LastEvaluatedKey;
+        if (!startKey && !byLanguagePair && partition < ENTRY_TYPE_SHARDS - 1) {
+          startKey = { entryType: ENTRY_TYPE_PARTITIONS[partition + 1] };
         }
-      }));
 
-      const expiredEntries = response.Items || [];
+        for (let i = 0; i < items.length; i++) {
+          const item = items[i]!;
+          const entry = fetched ? fetched.get(item.contentHash) : this.toEntry(item);
+          evaluated++;
+
+          if (entry && matchesCacheEntryFilter(entry, filter)) {
+            entries.push(entry);
+          }
+          // ページの途中で打ち切る場合は、最後に読んだアイテムを続きのキーにする
+          if (entries.length >= limit && i < items.length - 1) {
+            startKey = byLanguagePair
+              ? { contentHash: item.contentHash, languagePair: item.languagePair, createdAt: item.createdAt }
+              : { contentHash: item.contentHash, entryType: item.entryType, lastAccessedAt: item.lastAccessedAt };
+            break;
+          }
+        }
+      } while (startKey && entries.length < limit && evaluated < MAX_LIST_EVALUATED);
+
+      return { entries, lastEvaluatedKey: startKey };
+    } catch (error) {
+      console.error('キャッシュエントリ一覧の取得に失敗:', error);
+      throw new Error(`キャッシュ一覧取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * contentHash を指定してエントリをまとめて削除し、削除件数を返す
+   */
+  async deleteEntries(contentHashes: string[]): Promise<number> {
+    try {
+      const deletedCount = await this.batchDelete(contentHashes);
+
+      console.log(`翻訳キャッシュを${deletedCount}件削除しました`);
+      return deletedCount;
+    } catch (error) {
+      console.error('翻訳キャッシュの一括削除に失敗:', error);
+      throw new Error(`キャッシュ削除エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 削除したエントリを元の内容で保存し直し、復元した件数を返す
+   * 削除後に同じ contentHash で保存されたエントリは上書きせず、猶予期間を過ぎたエントリは復元しない
+   */
+  async restoreEntries(entries: TranslationCacheEntry[]): Promise<number> {
+    const threshold = Math.floor(Date.now() / 1000) - this.staleGracePeriod;
+    let restoredCount = 0;
 
-      for (const entry of expiredEntries) {
-        await this.delete(entry.contentHash);
-        deletedCount++;
+    try {
+      for (const entry of entries) {
+        if (entry.expiresAt && entry.expiresAt < threshold) {
+          continue;
+        }
+
+        try {
+          await this.client.send(new PutCommand({
+            TableName: this.tableName,
+            Item: { ...entry, ...this.indexAttributes(entry) },
+            ConditionExpression: 'attribute_not_exists(contentHash)'
+          }));
+          restoredCount++;
+        } catch (error) {
+          if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+            throw error;
+          }
+        }
       }
 
+      return restoredCount;
+    } catch (error) {
+      console.error('翻訳キャッシュの復元に失敗:', error);
+      throw new Error(`キャッシュ復元エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await this.updateStatistics({ totalEntries: restoredCount });
+    }
+  }
+
+  /**
+   * 別の環境から書き出したエントリを内容を変えずに保存し、エントリごとの結果を返す
+   * 同じ contentHash のエントリがある場合は policy に従う。条件付き書き込みのため、読み込み後に保存されたエントリも policy どおりに扱う
+   * dryRun が true の場合は保存せず、既存のエントリと比べた結果だけを返す
+   */
+  async importEntries(
+    entries: TranslationCacheEntry[],
+    policy: CacheImportConflictPolicy,
+    dryRun: boolean = false
+  ): Promise<CacheImportOutcome[]> {
+    if (dryRun) {
+      try {
+        const existing = await this.batchGetEntries(entries.map(entry => entry.contentHash), true);
+        return entries.map(entry => resolveImportConflict(entry, existing.get(entry.contentHash), policy));
+      } catch (error) {
+        console.error('取り込むキャッシュエントリの確認に失敗:', error);
+        throw new Error(`キャッシュ取り込みエラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const outcomes: CacheImportOutcome[] = [];
+
+    try {
+      for (const entry of entries) {
+        try {
+          const response = await this.client.send(new PutCommand({
+            TableName: this.tableName,
+            Item: { ...entry, ...this.indexAttributes(entry) },
+            ...this.importCondition(entry, policy),
+            ReturnValues: 'ALL_OLD'
+          }));
+          outcomes.push(response.Attributes ? 'overwritten' : 'created');
+        } catch (error) {
+          if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+            throw error;
+          }
+          outcomes.push('skipped');
+        }
+      }
+
+      return outcomes;
+    } catch (error) {
+      console.error('キャッシュエントリの取り込みに失敗:', error);
+      throw new Error(`キャッシュ取り込みエラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await this.updateStatistics({ totalEntries: outcomes.filter(outcome => outcome === 'created').length });
+    }
+  }
+
+  /**
+   * 期限切れのキャッシュエントリをクリーンアップ（expires-index を使用）
+   * dryRun が true の場合は削除せず、対象の件数だけを返す
+   */
+  async cleanupExpiredEntries(dryRun: boolean = false): Promise<number> {
+    const threshold = Math.floor(Date.now() / 1000) - this.staleGracePeriod;
+
+    try {
+      const contentHashes = await this.queryEntryTypePartitions({
+        IndexName: 'expires-index',
+        RangeKeyCondition: 'expiresAt < :threshold',
+        ExpressionAttributeValues: { ':threshold': threshold }
+      });
+      if (dryRun) {
+        return contentHashes.length;
+      }
+      const deletedCount = await this.batchDelete(contentHashes);
+
       console.log(`期限切れキャッシュエントリを${deletedCount}件削除しました`);
       return deletedCount;
     } catch (error) {
@@ -240,41 +1054,23 @@ export class TranslationCacheModel {
   }
 
   /**
-   * キャッシュ統計情報を取得
+   * キャッシュ統計情報を取得（分割したカウンターアイテムを合計する）
    */
   async getStatistics(): Promise<CacheStatistics> {
     try {
-      const response = await this.client.send(new ScanCommand({
-        TableName: this.tableName,
-        Select: 'ALL_ATTRIBUTES'
-      }));
-
-      const entries = (response.Items || []) as TranslationCacheEntry[];
-      const totalEntries = entries.length;
-      const totalHits = entries.reduce((sum, entry) => sum + (entry.hitCount || 0), 0);
-      
-      // ヒット率の計算（簡易版）
-      const hitRate = totalEntries > 0 ? totalHits / totalEntries : 0;
-
-      // 最古・最新エントリの検索
-      let oldestEntry: string | undefined;
-      let newestEntry: string | undefined;
-
-      if (entries.length > 0) {
-        const sortedByCreated = entries.sort((a, b) => 
-          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-        );
-        oldestEntry = sortedByCreated[0].createdAt;
-        newestEntry = sortedByCreated[sortedByCreated.length - 1].createdAt;
-      }
+      const items = await this.batchGetItems(statisticsKeys(STATISTICS_KEY));
+      const sum = (name: string) => items.reduce((total, item) => total + (item[name] || 0), 0);
+      const createdAts = (name: string) => items.map(item => item[name]).filter(Boolean).sort() as string[];
+      const hitCount = sum('hitCount');
+      const missCount = sum('missCount');
 
       return {
-        totalEntries,
-        hitCount: totalHits,
-        missCount: 0, // 実際のミス数は別途追跡が必要
-        hitRate,
-        oldestEntry,
-        newestEntry
+        totalEntries: Math.max(sum('totalEntries'), 0),
+        hitCount,
+        missCount,
+        hitRate: hitCount + missCount > 0 ? hitCount / (hitCount + missCount) : 0,
+        oldestEntry: createdAts('oldestEntry')[0],
+        newestEntry: createdAts('newestEntry').pop()
       };
     } catch (error) {
       console.error('キャッシュ統計情報の取得に失敗:', error);
@@ -288,34 +1084,115 @@ export class TranslationCacheModel {
   }
 
   /**
-   * キャッシュサイズを制限（最も古いエントリから削除）
+   * 言語ペア別のヒット数・ミス数を、全体のカウンターと日別のアイテムに加算
+   * 日別のアイテムも書き込みを分散するため、分割したアイテムのうち1つに加算する
+   * 日別のアイテムは ttl（Unixタイムスタンプ）を過ぎると DynamoDB の TTL で削除される
    */
-  async limitCacheSize(maxEntries: number): Promise<number> {
+  async recordAccess(date: string, counts: CacheAccessCount[], ttl: number): Promise<void> {
+    const hitCount = counts.reduce((sum, count) => sum + count.hits, 0);
+    const missCount = counts.reduce((sum, count) => sum + count.misses, 0);
+    if (hitCount + missCount === 0) {
+      return;
+    }
+
+    const names: Record<string, string> = { '#date': 'date', '#ttl': 'ttl' };
+    const values: Record<string, any> = {
+      ':hitCount': hitCount,
+      ':missCount': missCount,
+      ':date': date,
+      ':ttl': ttl,
+      ':updatedAt': new Date().toISOString()
+    };
+    const additions = ['hitCount :hitCount', 'missCount :missCount'];
+
+    // 言語コードに '-' を含むものがあるため（zh-TW）、属性名は '#' で区切る
+    counts.forEach((count, index) => {
+      const pair = `${count.sourceLanguage}#${count.targetLanguage}`;
+      if (count.hits > 0) {
+        names[`#hits${index}`] = `hits#${pair}`;
+        values[`:hits${index}`] = count.hits;
+        additions.push(`#hits${index} :hits${index}`);
+      }
+      if (count.misses > 0) {
+        names[`#misses${index}`] = `misses#${pair}`;
+        values[`:misses${index}`] = count.misses;
+        additions.push(`#misses${index} :misses${index}`);
+      }
+    });
+
     try {
-      const response = await this.client.send(new ScanCommand({
-        TableName: this.tableName,
-        Select: 'ALL_ATTRIBUTES'
-      }));
+      await Promise.all([
+        this.client.send(new UpdateCommand({
+          TableName: this.tableName,
+          Key: { contentHash: statisticsShardKey(`${DAILY_STATISTICS_PREFIX}${date}`) },
+          UpdateExpression: `ADD ${additions.join(', ')} SET #date = :date, #ttl = :ttl, updatedAt = :updatedAt`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values
+        })),
+        this.updateStatistics({ hitCount, missCount })
+      ]);
+    } catch (error) {
+      console.error('キャッシュ参照回数の記録に失敗:', error);
+      throw new Error(`キャッシュ統計更新エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      const entries = (response.Items || []) as TranslationCacheEntry[];
+  /**
+   * 日別の参照回数を取得（分割したアイテムを合計し、記録のない日は0件として dates の順に返す）
+   */
+  async getDailyStatistics(dates: string[]): Promise<CacheDailyStatistics[]> {
+    const itemsByDate = new Map<string, Record<string, any>[]>();
 
-      if (entries.length <= maxEntries) {
-        return 0;
+    try {
+      const items = await this.batchGetItems(dates.flatMap(date => statisticsKeys(`${DAILY_STATISTICS_PREFIX}${date}`)));
+      for (const item of items) {
+        itemsByDate.set(item.date, [...(itemsByDate.get(item.date) || []), item]);
       }
+    } catch (error) {
+      console.error('日別のキャッシュ統計の取得に失敗:', error);
+      throw new Error(`キャッシュ統計取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return dates.map(date => {
+      const daily: CacheDailyStatistics = { date, hitCount: 0, missCount: 0, byLanguagePair: {} };
 
-      // 最後にアクセスされた時間でソート（古い順）
-      const sortedEntries = entries.sort((a, b) => 
-        new Date(a.lastAccessedAt).getTime() - new Date(b.lastAccessedAt).getTime()
-      );
+      for (const item of itemsByDate.get(date) || []) {
+        daily.hitCount += item.hitCount || 0;
+        daily.missCount += item.missCount || 0;
 
-      const entriesToDelete = sortedEntries.slice(0, entries.length - maxEntries);
-      let deletedCount = 0;
+        for (const [name, value] of Object.entries(item)) {
+          const [kind, sourceLanguage, targetLanguage] = name.split('#');
+          if (sourceLanguage && targetLanguage && (kind === 'hits' || kind === 'misses')) {
+            const counters = daily.byLanguagePair[`${sourceLanguage}-${targetLanguage}`] ??=
+              { sourceLanguage, targetLanguage, hitCount: 0, missCount: 0 };
+            counters[kind === 'hits' ? 'hitCount' : 'missCount'] += value;
+          }
+        }
+      }
+
+      return daily;
+    });
+  }
 
-      for (const entry of entriesToDelete) {
-        await this.delete(entry.contentHash);
-        deletedCount++;
+  /**
+   * キャッシュサイズを制限（最後のアクセスが古いエントリから削除、last-accessed-index を使用）
+   * 人が修正したエントリは削除しない
+   */
+  async limitCacheSize(maxEntries: number): Promise<number> {
+    try {
+      const { totalEntries } = await this.getStatistics();
+      const excess = totalEntries - maxEntries;
+      if (excess <= 0) {
+        return 0;
       }
 
+      const contentHashes = await this.queryEntryTypePartitions({
+        IndexName: 'last-accessed-index',
+        FilterExpression: 'attribute_not_exists(correctedAt)',
+        ScanIndexForward: true
+      }, excess);
+      const deletedCount = await this.batchDelete(contentHashes);
+
       console.log(`キャッシュサイズ制限により${deletedCount}件のエントリを削除しました`);
       return deletedCount;
     } catch (error) {
@@ -325,28 +1202,395 @@ export class TranslationCacheModel {
   }
 
   /**
-   * 全キャッシュエントリを削除（テスト用）
+   * 全キャッシュエントリを削除し、統計をリセットして削除件数を返す
+   * dryRun が true の場合は削除せず、対象の件数だけを返す
    */
-  async clearAll(): Promise<void> {
+  async clearAll(dryRun: boolean = false): Promise<number> {
     try {
-      const response = await this.client.send(new ScanCommand({
+      const contentHashes = await this.queryEntryTypePartitions({ IndexName: 'last-accessed-index' });
+      if (dryRun) {
+        return contentHashes.length;
+      }
+      await this.batchWriteDelete([...contentHashes, ...statisticsKeys(STATISTICS_KEY)]);
+
+      console.log(`全キャッシュエントリ（${contentHashes.length}件）を削除しました`);
+      return contentHashes.length;
+    } catch (error) {
+      console.error('全キャッシュクリアに失敗:', error);
+      throw new Error(`キャッシュクリアエラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * テーブルを1ページ分 Scan し、インデックス用の属性がない（entryType のパーティションが異なる）エントリに付与する
+   * インデックスに載っていないエントリを読めるようにする一度きりのバックフィル用で、通常の処理では使わない
+   * dryRun が true の場合は付与せず、付与が必要な件数だけを返す
+   */
+  async backfillIndexAttributes(
+    exclusiveStartKey?: Record<string, any>,
+    dryRun: boolean = false
+  ): Promise<CacheIndexBackfillPage> {
+    const page: CacheIndexBackfillPage = { scanned: 0, entries: 0, updated: 0 };
+
+    try {
+      const response: ScanCommandOutput = await this.client.send(new ScanCommand({
         TableName: this.tableName,
-        ProjectionExpression: 'contentHash'
+        ExclusiveStartKey: exclusiveStartKey
       }));
 
-      const entries = response.Items || [];
+      for (const item of response.Items || []) {
+        page.scanned++;
+        // カウンターアイテムは '#' から始まる
+        if (String(item.contentHash).startsWith('#')) {
+          continue;
+        }
 
-      for (const entry of entries) {
-        await this.delete(entry.contentHash);
+        const entry = this.toEntry(item);
+        page.entries++;
+        if (!page.oldestEntry || entry.createdAt < page.oldestEntry) {
+          page.oldestEntry = entry.createdAt;
+        }
+        if (!page.newestEntry || entry.createdAt > page.newestEntry) {
+          page.newestEntry = entry.createdAt;
+        }
+
+        const { entryType, languagePair } = this.indexAttributes(entry);
+        if (item.entryType === entryType && item.languagePair === languagePair) {
+          continue;
+        }
+        page.updated++;
+        if (dryRun) {
+          continue;
+        }
+
+        try {
+          await this.client.send(new UpdateCommand({
+            TableName: this.tableName,
+            Key: { contentHash: entry.contentHash },
+            UpdateExpression: 'SET entryType = :entryType, languagePair = :languagePair',
+            ConditionExpression: 'attribute_exists(contentHash)',
+            ExpressionAttributeValues: this.indexAttributeValues(entry)
+          }));
+        } catch (error) {
+          // Scan の後に削除されたエントリは付与しない
+          if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+            throw error;
+          }
+          page.updated--;
+        }
       }
 
-      console.log(`全キャッシュエントリ（${entries.length}件）を削除しました`);
+      page.lastEvaluatedKey = response.LastEvaluatedKey;
+      return page;
     } catch (error) {
-      console.error('全キャッシュクリアに失敗:', error);
-      throw new Error(`キャッシュクリアエラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('インデックス用の属性のバックフィルに失敗:', error);
+      throw new Error(`キャッシュバックフィルエラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 数え直したエントリ数と最古・最新の作成日時でカウンターアイテムを置き換える（ヒット数・ミス数は変えない）
+   * 数え直している間に保存・削除されたエントリの分はずれるため、書き込みの少ない時間帯に実行する
+   */
+  async resetEntryCount(totalEntries: number, oldestEntry?: string, newestEntry?: string): Promise<void> {
+    const [firstKey, ...otherKeys] = statisticsKeys(STATISTICS_KEY).slice(1);
+    const updatedAt = new Date().toISOString();
+
+    try {
+      await Promise.all([
+        this.client.send(new UpdateCommand({
+          TableName: this.tableName,
+          Key: { contentHash: firstKey },
+          UpdateExpression: oldestEntry && newestEntry
+            ? 'SET totalEntries = :totalEntries, oldestEntry = :oldestEntry, newestEntry = :newestEntry, updatedAt = :updatedAt'
+            : 'SET totalEntries = :totalEntries, updatedAt = :updatedAt REMOVE oldestEntry, newestEntry',
+          ExpressionAttributeValues: {
+            ':totalEntries': totalEntries,
+            ':updatedAt': updatedAt,
+            ...(oldestEntry && newestEntry && { ':oldestEntry': oldestEntry, ':newestEntry': newestEntry })
+          }
+        })),
+        // 分ける前のアイテムを含め、ほかのカウンターアイテムの件数は0にする
+        ...[STATISTICS_KEY, ...otherKeys].map(contentHash => this.client.send(new UpdateCommand({
+          TableName: this.tableName,
+          Key: { contentHash },
+          UpdateExpression: 'SET totalEntries = :zero, updatedAt = :updatedAt REMOVE oldestEntry, newestEntry',
+          ExpressionAttributeValues: { ':zero': 0, ':updatedAt': updatedAt }
+        })))
+      ]);
+    } catch (error) {
+      console.error('キャッシュのエントリ数の更新に失敗:', error);
+      throw new Error(`キャッシュ統計更新エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * contentHash を指定してエントリをまとめて取得（includeExpired が false の場合は有効期限内のエントリのみ）
+   */
+  private async batchGetEntries(
+    contentHashes: string[],
+    includeExpired: boolean = false
+  ): Promise<Map<string, TranslationCacheEntry>> {
+    const entries = new Map<string, TranslationCacheEntry>();
+    const now = Math.floor(Date.now() / 1000);
+
+    for (const item of await this.batchGetItems(contentHashes)) {
+      const entry = this.toEntry(item);
+      if (includeExpired || !entry.expiresAt || entry.expiresAt >= now) {
+        entries.set(entry.contentHash, entry);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * contentHash を指定してアイテムをまとめて取得（エントリ・カウンターアイテムの両方に使う）
+   */
+  private async batchGetItems(contentHashes: string[]): Promise<Record<string, any>[]> {
+    const items: Record<string, any>[] = [];
+
+    for (let i = 0; i < contentHashes.length; i += BATCH_GET_LIMIT) {
+      let requestItems: Record<string, any> | undefined = {
+        [this.tableName]: {
+          Keys: contentHashes.slice(i, i + BATCH_GET_LIMIT).map(contentHash => ({ contentHash }))
+        }
+      };
+
+      // 未処理のキーがあれば待機してから再取得する
+      for (let attempt = 1; requestItems && Object.keys(requestItems).length > 0; attempt++) {
+        const response: BatchGetCommandOutput = await this.client.send(new BatchGetCommand({ RequestItems: requestItems }));
+
+        items.push(...(response.Responses?.[this.tableName] || []));
+        requestItems = response.UnprocessedKeys;
+        if (requestItems && Object.keys(requestItems).length > 0) {
+          await waitBeforeUnprocessedRetry(attempt);
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * last-accessed-index・expires-index の全パーティションを読み、ソートキーの順に併合した contentHash を返す
+   * limit を指定した場合は各パーティションから limit 件ずつ読み、併合した先頭の limit 件を返す
+   */
+  private async queryEntryTypePartitions(
+    query: {
+      IndexName: 'last-accessed-index' | 'expires-index';
+      RangeKeyCondition?: string;
+      FilterExpression?: string;
+      ExpressionAttributeValues?: Record<string, any>;
+      ScanIndexForward?: boolean;
+    },
+    limit: number = Infinity
+  ): Promise<string[]> {
+    const { RangeKeyCondition, ...rest } = query;
+    const sortKey = query.IndexName === 'last-accessed-index' ? 'lastAccessedAt' : 'expiresAt';
+    const direction = query.ScanIndexForward === false ? -1 : 1;
+
+    const partitions = await Promise.all(ENTRY_TYPE_PARTITIONS.map(entryType => this.queryIndexItems({
+      ...rest,
+      KeyConditionExpression: RangeKeyCondition ? `entryType = :entryType AND ${RangeKeyCondition}` : 'entryType = :entryType',
+      ExpressionAttributeValues: { ...query.ExpressionAttributeValues, ':entryType': entryType }
+    }, limit)));
+
+    return partitions
+      .flat()
+      .sort((a, b) => (a[sortKey] < b[sortKey] ? -1 : a[sortKey] > b[sortKey] ? 1 : 0) * direction)
+      .slice(0, limit)
+      .map(item => item.contentHash);
+  }
+
+  /**
+   * インデックスをページングしながらアイテムを取得
+   * limit を指定した場合はその件数で打ち切る
+   */
+  private async queryIndexItems(
+    query: {
+      IndexName: string;
+      KeyConditionExpression: string;
+      FilterExpression?: string;
+      ExpressionAttributeValues: Record<string, any>;
+      ScanIndexForward?: boolean;
+    },
+    limit: number = Infinity
+  ): Promise<Record<string, any>[]> {
+    const items: Record<string, any>[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response: QueryCommandOutput = await this.client.send(new QueryCommand({
+        TableName: this.tableName,
+        ...query,
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+
+      items.push(...(response.Items || []).slice(0, limit - items.length));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey && items.length < limit);
+
+    return items;
+  }
+
+  /**
+   * エントリをまとめて削除し、実際に削除した件数を返す
+   * 既に削除されていたエントリを数えないよう、DeleteCommand（ReturnValues: ALL_OLD）を BATCH_WRITE_LIMIT 件ずつ並列に送る
+   */
+  private async batchDelete(contentHashes: string[]): Promise<number> {
+    let deletedCount = 0;
+
+    try {
+      for (let i = 0; i < contentHashes.length; i += BATCH_WRITE_LIMIT) {
+        const responses = await Promise.all(contentHashes.slice(i, i + BATCH_WRITE_LIMIT).map(contentHash =>
+          this.client.send(new DeleteCommand({
+            TableName: this.tableName,
+            Key: { contentHash },
+            ReturnValues: 'ALL_OLD'
+          }))
+        ));
+        deletedCount += responses.filter(response => response.Attributes).length;
+      }
+
+      return deletedCount;
+    } finally {
+      await this.updateStatistics({ totalEntries: -deletedCount });
+    }
+  }
+
+  /**
+   * BatchWriteCommand でアイテムをまとめて削除する（削除件数を数えない全件削除用）
+   */
+  private async batchWriteDelete(contentHashes: string[]): Promise<void> {
+    for (let i = 0; i < contentHashes.length; i += BATCH_WRITE_LIMIT) {
+      let requestItems: Record<string, any[]> | undefined = {
+        [this.tableName]: contentHashes.slice(i, i + BATCH_WRITE_LIMIT).map(contentHash => ({
+          DeleteRequest: { Key: { contentHash } }
+        }))
+      };
+
+      // 未処理のアイテムがあれば待機してから再送する
+      for (let attempt = 1; requestItems && Object.keys(requestItems).length > 0; attempt++) {
+        const response = await this.client.send(new BatchWriteCommand({ RequestItems: requestItems }));
+        requestItems = response.UnprocessedItems as Record<string, any[]> | undefined;
+        if (requestItems && Object.keys(requestItems).length > 0) {
+          await waitBeforeUnprocessedRetry(attempt);
+        }
+      }
+    }
+  }
+
+  /**
+   * 統計情報のカウンターアイテムを加算
+   * createdAt を指定した場合は最古・最新の作成日時も更新する
+   */
+  private async updateStatistics(
+    increments: Partial<Record<'totalEntries' | 'hitCount' | 'missCount', number>>,
+    createdAt?: string
+  ): Promise<void> {
+    const counters = Object.entries(increments).filter(([, value]) => value);
+    if (counters.length === 0) {
+      return;
+    }
+
+    const values: Record<string, any> = { ':updatedAt': new Date().toISOString() };
+    counters.forEach(([name, value]) => {
+      values[`:${name}`] = value;
+    });
+    let setExpression = 'SET updatedAt = :updatedAt';
+    if (createdAt) {
+      values[':createdAt'] = createdAt;
+      setExpression += ', oldestEntry = if_not_exists(oldestEntry, :createdAt), newestEntry = :createdAt';
+    }
+
+    try {
+      await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { contentHash: statisticsShardKey(STATISTICS_KEY) },
+        UpdateExpression: `ADD ${counters.map(([name]) => `${name} :${name}`).join(', ')} ${setExpression}`,
+        ExpressionAttributeValues: values
+      }));
+    } catch (error) {
+      // 統計の更新に失敗してもキャッシュ操作は継続
+      console.warn('キャッシュ統計の更新に失敗:', error);
+    }
+  }
+
+  /**
+   * 言語ペア（と作成日時の範囲）で language-pair-index を読む条件
+   */
+  private languagePairKeyCondition(filter: CacheEntryFilter): {
+    IndexName: string;
+    KeyConditionExpression: string;
+    ExpressionAttributeValues: Record<string, any>;
+  } {
+    const conditions = ['languagePair = :languagePair'];
+    const values: Record<string, any> = { ':languagePair': `${filter.sourceLanguage}#${filter.targetLanguage}` };
+
+    // to の日の最後まで含めるよう、日付の後ろに時刻より大きい文字を付ける
+    if (filter.from && filter.to) {
+      conditions.push('createdAt BETWEEN :from AND :to');
+      values[':from'] = filter.from;
+      values[':to'] = `${filter.to}~`;
+    } else if (filter.from) {
+      conditions.push('createdAt >= :from');
+      values[':from'] = filter.from;
+    } else if (filter.to) {
+      conditions.push('createdAt <= :to');
+      values[':to'] = `${filter.to}~`;
+    }
+
+    return {
+      IndexName: 'language-pair-index',
+      KeyConditionExpression: conditions.join(' AND '),
+      ExpressionAttributeValues: values
+    };
+  }
+
+  /**
+   * 取り込みの条件付き書き込みの条件（resolveImportConflict と同じ判定）
+   */
+  private importCondition(entry: TranslationCacheEntry, policy: CacheImportConflictPolicy): {
+    ConditionExpression?: string;
+    ExpressionAttributeValues?: Record<string, any>;
+  } {
+    switch (policy) {
+      case 'overwrite':
+        return {};
+      case 'keep-higher-quality':
+        return entry.qualityScore === undefined
+          ? { ConditionExpression: 'attribute_not_exists(contentHash)' }
+          : {
+              ConditionExpression: 'attribute_not_exists(contentHash) OR ' +
+                '(attribute_not_exists(correctedAt) AND (attribute_not_exists(qualityScore) OR qualityScore < :qualityScore))',
+              ExpressionAttributeValues: { ':qualityScore': entry.qualityScore }
+            };
+      default:
+        return { ConditionExpression: 'attribute_not_exists(contentHash)' };
     }
   }
+
+  private indexAttributes(entry: TranslationCacheEntry): CacheIndexAttributes {
+    return {
+      entryType: entryTypePartition(entry.contentHash),
+      languagePair: `${entry.sourceLanguage}#${entry.targetLanguage}`
+    };
+  }
+
+  private indexAttributeValues(entry: TranslationCacheEntry): Record<string, string> {
+    const { entryType, languagePair } = this.indexAttributes(entry);
+    return { ':entryType': entryType, ':languagePair': languagePair };
+  }
+
+  /**
+   * DynamoDB のアイテムからインデックス用の属性を除いてエントリに変換
+   */
+  private toEntry(item: Record<string, any>): TranslationCacheEntry {
+    const { entryType, languagePair, ...entry } = item;
+    return entry as TranslationCacheEntry;
+  }
 }
 
 // シングルトンインスタンスをエクスポート
-export const translationCacheModel = new TranslationCacheModel();
\ No newline at end of file
+export const translationCacheModel = new TranslationCacheModel();
@@ -0,0 +1,155 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  QueryCommand,
+  QueryCommandOutput
+} from '@aws-sdk/lib-dynamodb';
+
+/**
+ * 監査ログのパーティションキー（管理操作は少ないため1パーティションにまとめ、時系列で参照する）
+ */
+const LOG_TYPE = 'translation-cache';
+
+/**
+ * 監査ログに記録するキャッシュの管理操作
+ */
+export type CacheAuditOperation =
+  | 'delete_entry'
+  | 'cleanup_expired'
+  | 'clear_all'
+  | 'bulk_invalidate'
+  | 'undo_invalidation'
+  | 'import_entries';
+
+/**
+ * 翻訳キャッシュの監査ログ
+ */
+export interface CacheAuditLog {
+  logId: string; // 'タイムスタンプ#UUID' 形式（時系列に並ぶ）
+  operation: CacheAuditOperation;
+  actorId: string;
+  actorEmail?: string;
+  timestamp: string;
+  requestId: string;
+  parameters: Record<string, unknown>;
+  affectedCount: number;
+  success: boolean;
+  error?: string;
+  ttl: number;
+}
+
+/**
+ * 監査ログの検索条件
+ * from・to は logId（タイムスタンプで始まる）の範囲で、to は接頭辞が一致するものまで含む
+ */
+export interface CacheAuditLogQuery {
+  from?: string;
+  to?: string;
+  actorId?: string;
+  operation?: CacheAuditOperation;
+  limit: number;
+  exclusiveStartKey?: Record<string, any>;
+}
+
+/**
+ * 監査ログの検索結果
+ */
+export interface CacheAuditLogPage {
+  logs: CacheAuditLog[];
+  lastEvaluatedKey?: Record<string, any>;
+}
+
+/**
+ * 翻訳キャッシュの監査ログのDynamoDBモデル
+ * パーティションキー logType、ソートキー logId。実行者での検索には actor-index（actorId + logId）を使う
+ */
+export class TranslationCacheAuditModel {
+  private client: DynamoDBDocumentClient;
+  private tableName: string;
+
+  constructor() {
+    const dynamoClient = new DynamoDBClient({
+      region: process.env.AWS_REGION || 'ap-northeast-1'
+    });
+
+    this.client = DynamoDBDocumentClient.from(dynamoClient);
+    this.tableName = process.env.TRANSLATION_CACHE_AUDIT_TABLE || 'TranslationCacheAudit';
+  }
+
+  /**
+   * 監査ログを保存
+   */
+  async put(log: CacheAuditLog): Promise<void> {
+    try {
+      await this.client.send(new PutCommand({
+        TableName: this.tableName,
+        Item: { logType: LOG_TYPE, ...log }
+      }));
+    } catch (error) {
+      console.error('監査ログの保存に失敗:', error);
+      throw new Error(`監査ログ保存エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 監査ログを新しい順に検索
+   * 操作の種類はフィルターで絞り込むため、1ページが limit 件に満たないことがある
+   */
+  async query(query: CacheAuditLogQuery): Promise<CacheAuditLogPage> {
+    const logs: CacheAuditLog[] = [];
+    const conditions = [query.actorId ? 'actorId = :partition' : 'logType = :partition'];
+    const values: Record<string, any> = { ':partition': query.actorId || LOG_TYPE };
+
+    if (query.from && query.to) {
+      conditions.push('logId BETWEEN :from AND :to');
+      values[':from'] = query.from;
+      values[':to'] = `${query.to}~`;
+    } else if (query.from) {
+      conditions.push('logId >= :from');
+      values[':from'] = query.from;
+    } else if (query.to) {
+      conditions.push('logId <= :to');
+      values[':to'] = `${query.to}~`;
+    }
+    if (query.operation) {
+      values[':operation'] = query.operation;
+    }
+
+    let exclusiveStartKey = query.exclusiveStartKey;
+
+    try {
+      do {
+        const response: QueryCommandOutput = await this.client.send(new QueryCommand({
+          TableName: this.tableName,
+          ...(query.actorId && { IndexName: 'actor-index' }),
+          KeyConditionExpression: conditions.join(' AND '),
+          ...(query.operation && {
+            FilterExpression: '#operation = :operation',
+            ExpressionAttributeNames: { '#operation': 'operation' }
+          }),
+          ExpressionAttributeValues: values,
+          ScanIndexForward: false,
+          Limit: query.limit - logs.length,
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        logs.push(...(response.Items || []).map(item => this.toLog(item)));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey && logs.length < query.limit);
+
+      return { logs, lastEvaluatedKey: exclusiveStartKey };
+    } catch (error) {
+      console.error('監査ログの検索に失敗:', error);
+      throw new Error(`監査ログ取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * パーティションキーを除いて監査ログに変換
+   */
+  private toLog(item: Record<string, any>): CacheAuditLog {
+    const { logType, ...log } = item;
+    return log as CacheAuditLog;
+  }
+}
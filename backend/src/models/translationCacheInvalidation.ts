@@ -0,0 +1,195 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  UpdateCommand,
+  QueryCommand,
+  QueryCommandOutput,
+  BatchWriteCommand
+} from '@aws-sdk/lib-dynamodb';
+import { TranslationCacheEntry, CacheEntryFilter } from './translationCache';
+
+/**
+ * BatchWriteCommand の1回あたりの最大件数
+ */
+const BATCH_WRITE_LIMIT = 25;
+
+/**
+ * 一括無効化の概要アイテムのソートキー
+ */
+const SUMMARY_KEY = '#summary';
+
+/**
+ * 削除したエントリのアイテムのソートキーの接頭辞（'entry#<contentHash>' 形式）
+ */
+const ENTRY_KEY_PREFIX = 'entry#';
+
+/**
+ * 一括無効化の状態
+ */
+export type CacheInvalidationStatus = 'applied' | 'undone';
+
+/**
+ * キャッシュエントリの一括無効化の記録
+ */
+export interface CacheInvalidation {
+  invalidationId: string;
+  filter: CacheEntryFilter;
+  status: CacheInvalidationStatus;
+  affectedCount: number;
+  actorId: string;
+  requestId: string;
+  createdAt: string;
+  undoneAt?: string;
+  undoneBy?: string;
+  restoredCount?: number; // 取り消しで復元したエントリ数（保存し直されていた・猶予期間を過ぎたエントリは除く）
+  ttl: number;
+}
+
+/**
+ * キャッシュエントリの一括無効化のDynamoDBモデル
+ * パーティションキー invalidationId、ソートキー itemKey。
+ * 概要は '#summary'、取り消し用に保存する削除前のエントリは 'entry#<contentHash>' のアイテムで管理する
+ */
+export class TranslationCacheInvalidationModel {
+  private client: DynamoDBDocumentClient;
+  private tableName: string;
+
+  constructor() {
+    const dynamoClient = new DynamoDBClient({
+      region: process.env.AWS_REGION || 'ap-northeast-1'
+    });
+
+    this.client = DynamoDBDocumentClient.from(dynamoClient);
+    this.tableName = process.env.TRANSLATION_CACHE_INVALIDATIONS_TABLE || 'TranslationCacheInvalidations';
+  }
+
+  /**
+   * 一括無効化の記録と削除前のエントリを保存
+   * エントリを先に保存し、すべて保存できてから概要を保存する
+   */
+  async create(invalidation: CacheInvalidation, entries: TranslationCacheEntry[]): Promise<void> {
+    try {
+      for (let i = 0; i < entries.length; i += BATCH_WRITE_LIMIT) {
+        let requestItems: Record<string, any[]> | undefined = {
+          [this.tableName]: entries.slice(i, i + BATCH_WRITE_LIMIT).map(entry => ({
+            PutRequest: {
+              Item: {
+                invalidationId: invalidation.invalidationId,
+                itemKey: `${ENTRY_KEY_PREFIX}${entry.contentHash}`,
+                entry,
+                ttl: invalidation.ttl
+              }
+            }
+          }))
+        };
+
+        // 未処理のアイテムがあれば再送する
+        while (requestItems && Object.keys(requestItems).length > 0) {
+          const response = await this.client.send(new BatchWriteCommand({ RequestItems: requestItems }));
+          requestItems = response.UnprocessedItems as Record<string, any[]> | undefined;
+        }
+      }
+
+      await this.client.send(new PutCommand({
+        TableName: this.tableName,
+        Item: { ...invalidation, itemKey: SUMMARY_KEY }
+      }));
+    } catch (error) {
+      console.error('キャッシュの一括無効化の保存に失敗:', error);
+      throw new Error(`一括無効化保存エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 一括無効化の記録を取得
+   */
+  async get(invalidationId: string): Promise<CacheInvalidation | null> {
+    try {
+      const response = await this.client.send(new GetCommand({
+        TableName: this.tableName,
+        Key: { invalidationId, itemKey: SUMMARY_KEY }
+      }));
+
+      return response.Item ? this.toInvalidation(response.Item) : null;
+    } catch (error) {
+      console.error('キャッシュの一括無効化の取得に失敗:', error);
+      throw new Error(`一括無効化取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 一括無効化で削除したエントリを取得
+   */
+  async getEntries(invalidationId: string): Promise<TranslationCacheEntry[]> {
+    const entries: TranslationCacheEntry[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    try {
+      do {
+        const response: QueryCommandOutput = await this.client.send(new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'invalidationId = :invalidationId AND begins_with(itemKey, :prefix)',
+          ExpressionAttributeValues: {
+            ':invalidationId': invalidationId,
+            ':prefix': ENTRY_KEY_PREFIX
+          },
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        entries.push(...(response.Items || []).map(item => item.entry as TranslationCacheEntry));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return entries;
+    } catch (error) {
+      console.error('無効化したキャッシュエントリの取得に失敗:', error);
+      throw new Error(`一括無効化取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 一括無効化を取り消し済みにする
+   * 既に取り消し済みの場合は null を返す（同時に取り消された場合も二重に記録しない）
+   */
+  async markUndone(
+    invalidationId: string,
+    undoneBy: string,
+    restoredCount: number
+  ): Promise<CacheInvalidation | null> {
+    try {
+      const response = await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { invalidationId, itemKey: SUMMARY_KEY },
+        UpdateExpression: 'SET #status = :undone, undoneAt = :undoneAt, undoneBy = :undoneBy, restoredCount = :restoredCount',
+        ConditionExpression: '#status = :applied',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':undone': 'undone',
+          ':applied': 'applied',
+          ':undoneAt': new Date().toISOString(),
+          ':undoneBy': undoneBy,
+          ':restoredCount': restoredCount
+        },
+        ReturnValues: 'ALL_NEW'
+      }));
+
+      return response.Attributes ? this.toInvalidation(response.Attributes) : null;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        return null;
+      }
+      console.error('キャッシュの一括無効化の更新に失敗:', error);
+      throw new Error(`一括無効化更新エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * ソートキーを除いて一括無効化の記録に変換
+   */
+  private toInvalidation(item: Record<string, any>): CacheInvalidation {
+    const { itemKey, ...invalidation } = item;
+    return invalidation as CacheInvalidation;
+  }
+}
@@ -0,0 +1,182 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  UpdateCommand,
+  QueryCommand
+} from '@aws-sdk/lib-dynamodb';
+
+/**
+ * 修正提案の状態
+ */
+export type TranslationCorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * 翻訳キャッシュエントリへの修正提案
+ * 承認・却下後も削除せず、エントリの編集履歴として残す
+ */
+export interface TranslationCorrection {
+  contentHash: string;
+  correctionId: string; // 作成日時で始まるため、エントリ内では時系列に並ぶ
+  status: TranslationCorrectionStatus;
+  originalText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  glossaryVersion?: string;
+  previousText: string; // 提案時点の翻訳
+  proposedText: string;
+  comment?: string;
+  proposedBy?: string;
+  createdAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewComment?: string;
+}
+
+/**
+ * 修正提案のDynamoDBモデル
+ * パーティションキー contentHash、ソートキー correctionId
+ */
+export class TranslationCorrectionModel {
+  private client: DynamoDBDocumentClient;
+  private tableName: string;
+
+  constructor() {
+    const dynamoClient = new DynamoDBClient({
+      region: process.env.AWS_REGION || 'ap-northeast-1'
+    });
+
+    this.client = DynamoDBDocumentClient.from(dynamoClient);
+    this.tableName = process.env.TRANSLATION_CORRECTIONS_TABLE || 'TranslationCorrections';
+  }
+
+  /**
+   * 修正提案を作成
+   */
+  async create(correction: TranslationCorrection): Promise<TranslationCorrection> {
+    try {
+      await this.client.send(new PutCommand({
+        TableName: this.tableName,
+        Item: correction
+      }));
+
+      console.log(`修正提案を作成しました: ${correction.contentHash} (${correction.correctionId})`);
+      return correction;
+    } catch (error) {
+      console.error('修正提案の作成に失敗:', error);
+      throw new Error(`修正提案保存エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 修正提案を取得
+   */
+  async get(contentHash: string, correctionId: string): Promise<TranslationCorrection | null> {
+    try {
+      const response = await this.client.send(new GetCommand({
+        TableName: this.tableName,
+        Key: { contentHash, correctionId }
+      }));
+
+      return (response.Item as TranslationCorrection) || null;
+    } catch (error) {
+      console.error('修正提案の取得に失敗:', error);
+      throw new Error(`修正提案取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * キャッシュエントリの修正提案を古い順に取得（編集履歴）
+   */
+  async listByEntry(contentHash: string): Promise<TranslationCorrection[]> {
+    const corrections: TranslationCorrection[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    try {
+      do {
+        const response = await this.client.send(new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'contentHash = :contentHash',
+          ExpressionAttributeValues: { ':contentHash': contentHash },
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        corrections.push(...(response.Items || []) as TranslationCorrection[]);
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return corrections;
+    } catch (error) {
+      console.error('修正履歴の取得に失敗:', error);
+      throw new Error(`修正提案取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 指定した状態の修正提案を古い順に取得（status-created-index を使用）
+   */
+  async listByStatus(status: TranslationCorrectionStatus, limit: number): Promise<TranslationCorrection[]> {
+    const corrections: TranslationCorrection[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    try {
+      do {
+        const response = await this.client.send(new QueryCommand({
+          TableName: this.tableName,
+          IndexName: 'status-created-index',
+          KeyConditionExpression: '#status = :status',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: { ':status': status },
+          Limit: limit - corrections.length,
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        corrections.push(...(response.Items || []) as TranslationCorrection[]);
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey && corrections.length < limit);
+
+      return corrections;
+    } catch (error) {
+      console.error('修正提案一覧の取得に失敗:', error);
+      throw new Error(`修正提案取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 審査結果を記録
+   * 審査待ちの提案のみ更新し、既に審査済みの場合は null を返す
+   */
+  async review(
+    contentHash: string,
+    correctionId: string,
+    status: Exclude<TranslationCorrectionStatus, 'pending'>,
+    review: { reviewedBy?: string; reviewedAt: string; reviewComment?: string }
+  ): Promise<TranslationCorrection | null> {
+    try {
+      const response = await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { contentHash, correctionId },
+        UpdateExpression: 'SET #status = :status, reviewedBy = :reviewedBy, reviewedAt = :reviewedAt, reviewComment = :reviewComment',
+        ConditionExpression: '#status = :pending',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':status': status,
+          ':pending': 'pending',
+          ':reviewedBy': review.reviewedBy ?? null,
+          ':reviewedAt': review.reviewedAt,
+          ':reviewComment': review.reviewComment ?? null
+        },
+        ReturnValues: 'ALL_NEW'
+      }));
+
+      return response.Attributes as TranslationCorrection;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        return null;
+      }
+      console.error('修正提案の審査結果の保存に失敗:', error);
+      throw new Error(`修正提案保存エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
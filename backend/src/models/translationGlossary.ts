@@ -0,0 +1,127 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  DeleteCommand,
+  ScanCommand
+} from '@aws-sdk/lib-dynamodb';
+
+/**
+ * 全言語に適用する場合の言語コード
+ */
+export const GLOSSARY_ANY_LANGUAGE = '*';
+
+/**
+ * 用語集エントリの型定義
+ * doNotTranslate が true の場合は原文のまま保持し、false の場合は translation に置き換える
+ */
+export interface GlossaryEntry {
+  termId: string;
+  term: string;
+  sourceLanguage: string; // '*' は全言語
+  targetLanguage: string; // '*' は全言語（doNotTranslate の場合のみ）
+  translation?: string;
+  doNotTranslate: boolean;
+  caseSensitive: boolean;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+/**
+ * 翻訳用語集のDynamoDBモデル
+ */
+export class TranslationGlossaryModel {
+  private client: DynamoDBDocumentClient;
+  private tableName: string;
+
+  constructor() {
+    const dynamoClient = new DynamoDBClient({
+      region: process.env.AWS_REGION || 'ap-northeast-1'
+    });
+
+    this.client = DynamoDBDocumentClient.from(dynamoClient);
+    this.tableName = process.env.TRANSLATION_GLOSSARY_TABLE || 'TranslationGlossary';
+  }
+
+  /**
+   * 用語集エントリを保存（作成・更新）
+   */
+  async put(entry: GlossaryEntry): Promise<GlossaryEntry> {
+    try {
+      await this.client.send(new PutCommand({
+        TableName: this.tableName,
+        Item: entry
+      }));
+
+      console.log(`用語集エントリを保存しました: ${entry.termId}`);
+      return entry;
+    } catch (error) {
+      console.error('用語集エントリの保存に失敗:', error);
+      throw new Error(`用語集保存エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 用語集エントリを取得
+   */
+  async get(termId: string): Promise<GlossaryEntry | null> {
+    try {
+      const response = await this.client.send(new GetCommand({
+        TableName: this.tableName,
+        Key: { termId }
+      }));
+
+      return (response.Item as GlossaryEntry) || null;
+    } catch (error) {
+      console.error('用語集エントリの取得に失敗:', error);
+      throw new Error(`用語集取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 用語集エントリを削除
+   */
+  async delete(termId: string): Promise<void> {
+    try {
+      await this.client.send(new DeleteCommand({
+        TableName: this.tableName,
+        Key: { termId }
+      }));
+
+      console.log(`用語集エントリを削除しました: ${termId}`);
+    } catch (error) {
+      console.error('用語集エントリの削除に失敗:', error);
+      throw new Error(`用語集削除エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 全ての用語集エントリを取得
+   * 用語集は小規模なため全件を読み込み、サービス側でメモリに保持する
+   */
+  async getAll(): Promise<GlossaryEntry[]> {
+    const entries: GlossaryEntry[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    try {
+      do {
+        const response = await this.client.send(new ScanCommand({
+          TableName: this.tableName,
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        entries.push(...((response.Items || []) as GlossaryEntry[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return entries;
+    } catch (error) {
+      console.error('用語集の取得に失敗:', error);
+      throw new Error(`用語集取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,419 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+  QueryCommand,
+  BatchWriteCommand
+} from '@aws-sdk/lib-dynamodb';
+import { SupportedLanguage, TranslationPriority, LanguageTranslationError } from '../types/translation';
+import { waitBeforeUnprocessedRetry } from '../utils/retry';
+
+/**
+ * ジョブヘッダー行のソートキー
+ * 1つのジョブはヘッダー行と、テキストごとのアイテム行で構成される
+ */
+export const JOB_HEADER_ITEM_ID = '#job';
+
+/**
+ * アイテム行のソートキーの接頭辞
+ */
+const JOB_ITEM_PREFIX = 'item#';
+
+/**
+ * BatchWriteCommand の1回あたりの最大件数
+ */
+const BATCH_WRITE_LIMIT = 25;
+
+/**
+ * 翻訳ジョブの状態
+ */
+export type TranslationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * 翻訳ジョブ内の各テキストの状態
+ */
+export type TranslationJobItemStatus = 'pending' | 'completed' | 'failed';
+
+/**
+ * 翻訳ジョブ（ヘッダー行）
+ */
+export interface TranslationJob {
+  jobId: string;
+  status: TranslationJobStatus;
+  userId?: string;
+  sourceLanguage?: SupportedLanguage;
+  targetLanguage: SupportedLanguage;
+  priority: TranslationPriority;
+  preserveFormatting?: boolean;
+  totalCount: number;
+  completedCount: number;
+  errorCount: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  ttl: number;
+}
+
+/**
+ * 翻訳ジョブ内の各テキスト（アイテム行）
+ */
+export interface TranslationJobItem {
+  jobId: string;
+  index: number;
+  itemStatus: TranslationJobItemStatus;
+  originalText: string;
+  translatedText?: string;
+  sourceLanguage?: SupportedLanguage;
+  confidence?: number;
+  fromCache?: boolean;
+  processingTime?: number;
+  error?: LanguageTranslationError;
+  updatedAt: string;
+  ttl: number;
+}
+
+/**
+ * 翻訳ジョブのDynamoDBモデル
+ * パーティションキー jobId、ソートキー itemId（ヘッダーは '#job'、アイテムは 'item#00000' 形式）
+ */
+export class TranslationJobModel {
+  private client: DynamoDBDocumentClient;
+  private tableName: string;
+
+  constructor() {
+    const dynamoClient = new DynamoDBClient({
+      region: process.env.AWS_REGION || 'ap-northeast-1'
+    });
+
+    this.client = DynamoDBDocumentClient.from(dynamoClient);
+    this.tableName = process.env.TRANSLATION_JOBS_TABLE || 'TranslationJobs';
+  }
+
+  /**
+   * ジョブとアイテムを作成
+   */
+  async create(job: TranslationJob, items: TranslationJobItem[]): Promise<void> {
+    const rows = [
+      { ...job, itemId: JOB_HEADER_ITEM_ID },
+      ...items.map(item => ({ ...item, itemId: this.itemId(item.index) }))
+    ];
+
+    try {
+      for (let i = 0; i < rows.length; i += BATCH_WRITE_LIMIT) {
+        let requestItems: Record<string, any[]> | undefined = {
+          [this.tableName]: rows.slice(i, i + BATCH_WRITE_LIMIT).map(row => ({ PutRequest: { Item: row } }))
+        };
+
+        // 未処理のアイテムがあれば待機してから再送する
+        for (let attempt = 1; requestItems && Object.keys(requestItems).length > 0; attempt++) {
+          const response = await this.client.send(new BatchWriteCommand({ RequestItems: requestItems }));
+          requestItems = response.UnprocessedItems as Record<string, any[]> | undefined;
+          if (requestItems && Object.keys(requestItems).length > 0) {
+            await waitBeforeUnprocessedRetry(attempt);
+          }
+        }
+      }
+
+      console.log(`翻訳ジョブを作成しました: ${job.jobId} (${items.length}件)`);
+    } catch (error) {
+      console.error('翻訳ジョブの作成に失敗:', error);
+      throw new Error(`翻訳ジョブ作成エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * ジョブを取得
+   */
+  async get(jobId: string): Promise<TranslationJob | null> {
+    try {
+      const response = await this.client.send(new GetCommand({
+        TableName: this.tableName,
+        Key: { jobId, itemId: JOB_HEADER_ITEM_ID }
+      }));
+
+      return response.Item ? this.toJob(response.Item) : null;
+    } catch (error) {
+      console.error('翻訳ジョブの取得に失敗:', error);
+      throw new Error(`翻訳ジョブ取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * ジョブのアイテムをインデックス順に取得
+   */
+  async getItems(jobId: string): Promise<TranslationJobItem[]> {
+    const items: TranslationJobItem[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    try {
+      do {
+        const response = await this.client.send(new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'jobId = :jobId AND begins_with(itemId, :prefix)',
+          ExpressionAttributeValues: {
+            ':jobId': jobId,
+            ':prefix': JOB_ITEM_PREFIX
+          },
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        for (const row of response.Items || []) {
+          const { itemId, ...item } = row;
+          items.push(item as TranslationJobItem);
+        }
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return items;
+    } catch (error) {
+      console.error('翻訳ジョブアイテムの取得に失敗:', error);
+      throw new Error(`翻訳ジョブ取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 指定した状態のジョブを作成日時順に取得（status-created-index を使用）
+   */
+  async listByStatus(status: TranslationJobStatus): Promise<TranslationJob[]> {
+    const jobs: TranslationJob[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    try {
+      do {
+        const response = await this.client.send(new QueryCommand({
+          TableName: this.tableName,
+          IndexName: 'status-created-index',
+          KeyConditionExpression: '#status = :status',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: { ':status': status },
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        jobs.push(...(response.Items || []).map(item => this.toJob(item)));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return jobs;
+    } catch (error) {
+      console.error('翻訳ジョブ一覧の取得に失敗:', error);
+      throw new Error(`翻訳ジョブ取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * アイテムの結果を保存し、ジョブの進捗を加算
+   * 既に結果のあるアイテム（再開・重複実行した場合）は上書きせず、進捗も加算しない
+   * 更新後のジョブを返す（キャンセルの検知に使用）
+   */
+  async saveItemResult(item: TranslationJobItem): Promise<TranslationJob> {
+    try {
+      if (!(await this.savePendingItem(item))) {
+        console.log(`保存済みの翻訳ジョブアイテムのため進捗を加算しません: ${item.jobId} #${item.index}`);
+        return (await this.get(item.jobId)) || this.toJob({});
+      }
+
+      const response = await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { jobId: item.jobId, itemId: JOB_HEADER_ITEM_ID },
+        UpdateExpression: 'ADD #counter :one SET updatedAt = :updatedAt',
+        ExpressionAttributeNames: {
+          '#counter': item.itemStatus === 'completed' ? 'completedCount' : 'errorCount'
+        },
+        ExpressionAttributeValues: {
+          ':one': 1,
+          ':updatedAt': item.updatedAt
+        },
+        ReturnValues: 'ALL_NEW'
+      }));
+
+      return this.toJob(response.Attributes || {});
+    } catch (error) {
+      console.error('翻訳ジョブアイテムの保存に失敗:', error);
+      throw new Error(`翻訳ジョブ保存エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * ジョブの状態を更新
+   * expectedStatuses を指定した場合は、現在の状態がいずれかに一致するときのみ更新する
+   * 条件に一致せず更新しなかった場合は null を返す
+   */
+  async updateStatus(
+    jobId: string,
+    status: TranslationJobStatus,
+    updates: Partial<Pick<TranslationJob, 'completedCount' | 'errorCount' | 'startedAt' | 'finishedAt'>> = {},
+    expectedStatuses?: TranslationJobStatus[]
+  ): Promise<TranslationJob | null> {
+    const fields: Record<string, any> = {
+      ...updates,
+      status,
+      updatedAt: new Date().toISOString()
+    };
+    const names: Record<string, string> = {};
+    const values: Record<string, any> = {};
+    const assignments = Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => {
+        names[`#${key}`] = key;
+        values[`:${key}`] = value;
+        return `#${key} = :${key}`;
+      });
+
+    let conditionExpression: string | undefined;
+    if (expectedStatuses && expectedStatuses.length > 0) {
+      conditionExpression = `#status IN (${expectedStatuses.map((_, i) => `:expected${i}`).join(', ')})`;
+      expectedStatuses.forEach((expected, i) => {
+        values[`:expected${i}`] = expected;
+      });
+    }
+
+    try {
+      const response = await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { jobId, itemId: JOB_HEADER_ITEM_ID },
+        UpdateExpression: `SET ${assignments.join(', ')}`,
+        ConditionExpression: conditionExpression,
+        ExpressionAttributeNames: names,
+        ExpressionAttributeValues: values,
+        ReturnValues: 'ALL_NEW'
+      }));
+
+      return this.toJob(response.Attributes || {});
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        return null;
+      }
+      console.error('翻訳ジョブの更新に失敗:', error);
+      throw new Error(`翻訳ジョブ更新エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * ジョブの実行権（リース）を取得
+   * 未完了のジョブで、リースが無い・自分のもの・期限切れのいずれかの場合のみ取得できる
+   * 他のインスタンスが実行中のため取得できなかった場合は false を返す
+   */
+  async claim(jobId: string, owner: string, leaseExpiresAt: number): Promise<boolean> {
+    try {
+      await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { jobId, itemId: JOB_HEADER_ITEM_ID },
+        UpdateExpression: 'SET leaseOwner = :owner, leaseExpiresAt = :leaseExpiresAt',
+        ConditionExpression: '#status IN (:queued, :running) AND ' +
+          '(attribute_not_exists(leaseOwner) OR leaseOwner = :owner OR leaseExpiresAt < :now)',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':owner': owner,
+          ':leaseExpiresAt': leaseExpiresAt,
+          ':queued': 'queued',
+          ':running': 'running',
+          ':now': Date.now()
+        }
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      console.error('翻訳ジョブの実行権の取得に失敗:', error);
+      throw new Error(`翻訳ジョブ更新エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 保持しているリースの期限を延長
+   * リースを失っていた場合（期限切れ後に他のインスタンスが取得した場合）は false を返す
+   */
+  async renewLease(jobId: string, owner: string, leaseExpiresAt: number): Promise<boolean> {
+    try {
+      await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { jobId, itemId: JOB_HEADER_ITEM_ID },
+        UpdateExpression: 'SET leaseExpiresAt = :leaseExpiresAt',
+        ConditionExpression: 'leaseOwner = :owner',
+        ExpressionAttributeValues: {
+          ':owner': owner,
+          ':leaseExpiresAt': leaseExpiresAt
+        }
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      console.error('翻訳ジョブのリースの延長に失敗:', error);
+      throw new Error(`翻訳ジョブ更新エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 保持しているリースを解放（他のインスタンスが取得済みの場合は何もしない）
+   */
+  async releaseLease(jobId: string, owner: string): Promise<void> {
+    try {
+      await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { jobId, itemId: JOB_HEADER_ITEM_ID },
+        UpdateExpression: 'REMOVE leaseOwner, leaseExpiresAt',
+        ConditionExpression: 'leaseOwner = :owner',
+        ExpressionAttributeValues: { ':owner': owner }
+      }));
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        return;
+      }
+      console.error('翻訳ジョブのリースの解放に失敗:', error);
+      throw new Error(`翻訳ジョブ更新エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 未処理（pending）のアイテムに結果を保存し、保存したかどうかを返す
+   */
+  private async savePendingItem(item: TranslationJobItem): Promise<boolean> {
+    try {
+      await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { jobId: item.jobId, itemId: this.itemId(item.index) },
+        UpdateExpression: 'SET itemStatus = :itemStatus, translatedText = :translatedText, sourceLanguage = :sourceLanguage, ' +
+          'confidence = :confidence, fromCache = :fromCache, processingTime = :processingTime, #error = :error, updatedAt = :updatedAt',
+        ConditionExpression: 'itemStatus = :pending',
+        ExpressionAttributeNames: { '#error': 'error' },
+        ExpressionAttributeValues: {
+          ':pending': 'pending',
+          ':itemStatus': item.itemStatus,
+          ':translatedText': item.translatedText ?? null,
+          ':sourceLanguage': item.sourceLanguage ?? null,
+          ':confidence': item.confidence ?? null,
+          ':fromCache': item.fromCache ?? null,
+          ':processingTime': item.processingTime ?? null,
+          ':error': item.error ?? null,
+          ':updatedAt': item.updatedAt
+        }
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * アイテムのソートキー
+   */
+  private itemId(index: number): string {
+    return `${JOB_ITEM_PREFIX}${String(index).padStart(5, '0')}`;
+  }
+
+  /**
+   * ヘッダー行をジョブに変換（リースは内部の管理用のため含めない）
+   */
+  private toJob(row: Record<string, any>): TranslationJob {
+    const { itemId, leaseOwner, leaseExpiresAt, ...job } = row;
+    return job as TranslationJob;
+  }
+}
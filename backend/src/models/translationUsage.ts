@@ -0,0 +1,204 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  UpdateCommand,
+  DeleteCommand,
+  QueryCommand,
+  BatchGetCommand,
+  BatchGetCommandOutput
+} from '@aws-sdk/lib-dynamodb';
+
+/**
+ * BatchGetCommand の1回あたりの最大件数
+ */
+const BATCH_GET_LIMIT = 100;
+
+/**
+ * 予算設定を保存するパーティション（日付の代わりに使用）
+ */
+const BUDGET_PARTITION = 'budget';
+
+/**
+ * 翻訳使用量の集計値
+ */
+export interface TranslationUsageCounters {
+  characters: number;       // プロバイダーで翻訳した文字数
+  cost: number;             // 概算コスト（USD）
+  requests: number;         // プロバイダーの呼び出し回数
+  cachedCharacters: number; // キャッシュで応答した文字数
+  cacheHits: number;        // キャッシュで応答した回数
+}
+
+/**
+ * 日別の翻訳使用量
+ * scope は集計の単位（global / user#<userId> / route#<route> / pair#<source>-<target>）
+ */
+export interface TranslationUsageRecord extends TranslationUsageCounters {
+  date: string; // YYYY-MM-DD（UTC）
+  scope: string;
+  updatedAt: string;
+  ttl: number;
+}
+
+/**
+ * 月間予算の設定
+ */
+export interface TranslationBudgetRecord {
+  scope: string; // global / user#<userId>
+  monthlyBudget: number; // USD
+  updatedBy?: string;
+  updatedAt: string;
+}
+
+/**
+ * 翻訳使用量のDynamoDBモデル
+ * パーティションキー date、ソートキー scope で日別に集計する
+ */
+export class TranslationUsageModel {
+  private client: DynamoDBDocumentClient;
+  private tableName: string;
+
+  constructor() {
+    const dynamoClient = new DynamoDBClient({
+      region: process.env.AWS_REGION || 'ap-northeast-1'
+    });
+
+    this.client = DynamoDBDocumentClient.from(dynamoClient);
+    this.tableName = process.env.TRANSLATION_USAGE_TABLE || 'TranslationUsage';
+  }
+
+  /**
+   * 日別の集計値に加算（複数のスコープに同じ値を加算）
+   */
+  async addUsage(date: string, scopes: string[], increment: TranslationUsageCounters, ttl: number): Promise<void> {
+    try {
+      await Promise.all(scopes.map(scope => this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { date, scope },
+        UpdateExpression: 'ADD characters :characters, cost :cost, requests :requests, ' +
+          'cachedCharacters :cachedCharacters, cacheHits :cacheHits SET updatedAt = :updatedAt, #ttl = :ttl',
+        ExpressionAttributeNames: { '#ttl': 'ttl' },
+        ExpressionAttributeValues: {
+          ':characters': increment.characters,
+          ':cost': increment.cost,
+          ':requests': increment.requests,
+          ':cachedCharacters': increment.cachedCharacters,
+          ':cacheHits': increment.cacheHits,
+          ':updatedAt': new Date().toISOString(),
+          ':ttl': ttl
+        }
+      }))));
+    } catch (error) {
+      console.error('翻訳使用量の保存に失敗:', error);
+      throw new Error(`使用量保存エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 指定したスコープの複数日分の集計値を取得
+   */
+  async getByScope(scope: string, dates: string[]): Promise<TranslationUsageRecord[]> {
+    const records: TranslationUsageRecord[] = [];
+
+    try {
+      for (let i = 0; i < dates.length; i += BATCH_GET_LIMIT) {
+        let requestItems: Record<string, any> | undefined = {
+          [this.tableName]: {
+            Keys: dates.slice(i, i + BATCH_GET_LIMIT).map(date => ({ date, scope }))
+          }
+        };
+
+        // 未処理のキーがあれば再取得する
+        while (requestItems && Object.keys(requestItems).length > 0) {
+          const response: BatchGetCommandOutput = await this.client.send(new BatchGetCommand({ RequestItems: requestItems }));
+
+          records.push(...(response.Responses?.[this.tableName] || []) as TranslationUsageRecord[]);
+          requestItems = response.UnprocessedKeys;
+        }
+      }
+
+      return records;
+    } catch (error) {
+      console.error('翻訳使用量の取得に失敗:', error);
+      throw new Error(`使用量取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 指定した日の全スコープの集計値を取得
+   */
+  async listByDate(date: string): Promise<TranslationUsageRecord[]> {
+    return this.queryPartition(date) as Promise<TranslationUsageRecord[]>;
+  }
+
+  /**
+   * 月間予算の設定を全件取得
+   */
+  async listBudgets(): Promise<TranslationBudgetRecord[]> {
+    return this.queryPartition(BUDGET_PARTITION) as Promise<TranslationBudgetRecord[]>;
+  }
+
+  /**
+   * 月間予算を設定
+   */
+  async putBudget(budget: TranslationBudgetRecord): Promise<TranslationBudgetRecord> {
+    try {
+      await this.client.send(new PutCommand({
+        TableName: this.tableName,
+        Item: { date: BUDGET_PARTITION, ...budget }
+      }));
+
+      console.log(`翻訳の月間予算を設定しました: ${budget.scope} = $${budget.monthlyBudget}`);
+      return budget;
+    } catch (error) {
+      console.error('月間予算の保存に失敗:', error);
+      throw new Error(`予算保存エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 月間予算の設定を削除（既定値に戻す）
+   */
+  async deleteBudget(scope: string): Promise<void> {
+    try {
+      await this.client.send(new DeleteCommand({
+        TableName: this.tableName,
+        Key: { date: BUDGET_PARTITION, scope }
+      }));
+
+      console.log(`翻訳の月間予算の設定を削除しました: ${scope}`);
+    } catch (error) {
+      console.error('月間予算の削除に失敗:', error);
+      throw new Error(`予算削除エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * パーティション内の全アイテムを取得
+   */
+  private async queryPartition(date: string): Promise<Record<string, any>[]> {
+    const items: Record<string, any>[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    try {
+      do {
+        const response = await this.client.send(new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: '#date = :date',
+          ExpressionAttributeNames: { '#date': 'date' },
+          ExpressionAttributeValues: { ':date': date },
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        items.push(...(response.Items || []));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return items;
+    } catch (error) {
+      console.error('翻訳使用量の取得に失敗:', error);
+      throw new Error(`使用量取得エラー: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
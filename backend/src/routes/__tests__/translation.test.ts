@@ -2,17 +2,49 @@ import request from 'supertest';
 import express from 'express';
 import translationRoutes from '../translation';
 import { translationService } from '../../services/translationService';
+import { translationGlossaryService } from '../../services/translationGlossaryService';
+import { translationJobService } from '../../services/translationJobService';
+import { TranslationError } from '../../services/translationError';
+import { TRANSLATION_CONFIG } from '../../config/translation';
+import { clearAllRateLimits } from '../../middleware/rateLimit';
 
 // モック設定
+jest.mock('@aws-sdk/client-ssm');
 jest.mock('../../services/translationService');
+jest.mock('../../services/translationGlossaryService');
+jest.mock('../../services/translationJobService');
 jest.mock('../../middleware/auth', () => ({
   authMiddleware: (req: any, res: any, next: any) => {
     req.user = { id: 'test-user-123', email: 'test@example.com' };
     next();
-  }
+  },
+  adminMiddleware: (req: any, res: any, next: any) => next()
 }));
 
 const mockTranslationService = translationService as jest.Mocked<typeof translationService>;
+const mockGlossaryService = translationGlossaryService as jest.Mocked<typeof translationGlossaryService>;
+const mockJobService = translationJobService as jest.Mocked<typeof translationJobService>;
+
+/**
+ * Server-Sent Events のレスポンスをイベントの配列として読み取る
+ */
+const parseEventStream = (res: any, callback: (error: Error | null, body: any) => void) => {
+  let raw = '';
+  res.setEncoding('utf8');
+  res.on('data', (chunk: string) => {
+    raw += chunk;
+  });
+  res.on('end', () => {
+    const events = raw
+      .split('\n\n')
+      .filter(block => block.includes('event: '))
+      .map(block => ({
+        event: block.match(/^event: (.*)$/m)![1],
+        data: JSON.parse(block.match(/^data: (.*)$/m)![1]!)
+      }));
+    callback(null, events);
+  });
+};
 
 describe('Translation Routes', () => {
   let app: express.Application;
@@ -67,7 +99,8 @@ describe('Translation Routes', () => {
       expect(mockTranslationService.translateText).toHaveBeenCalledWith({
         text: 'Hello, world!',
         sourceLanguage: 'en',
-        targetLanguage: 'ja'
+        targetLanguage: 'ja',
+        usage: { userId: 'test-user-123', route: 'POST /api/translate' }
       });
     });
 
@@ -86,7 +119,7 @@ describe('Translation Routes', () => {
           code: 'VALIDATION_ERROR',
           message: '入力値に問題があります',
           details: {
-            text: ['テキストが空です']
+            text: ['空にできません']
           }
         }
       });
@@ -111,6 +144,81 @@ describe('Translation Routes', () => {
         }
       });
     });
+
+    it('Accept-Language の言語で検証エラーのメッセージを返す', async () => {
+      const response = await request(app)
+        .post('/api/translate')
+        .set('Accept-Language', 'en-US,en;q=0.9')
+        .send({
+          text: '',
+          targetLanguage: 'invalid-lang'
+        })
+        .expect(400);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'The request contains invalid values',
+          details: {
+            text: ['Must not be empty'],
+            targetLanguage: ['Unsupported language: invalid-lang']
+          }
+        }
+      });
+    });
+
+    it('型の異なる値は変換せずにエラーを返し、共通のメタデータを含める', async () => {
+      const response = await request(app)
+        .post('/api/translate')
+        .set('X-Request-Id', 'client-request-1')
+        .send({
+          text: 'Hello, world!',
+          targetLanguage: 'ja',
+          preserveFormatting: 'true'
+        })
+        .expect(400);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          details: {
+            preserveFormatting: ['boolean値である必要があります']
+          }
+        },
+        metadata: {
+          requestId: 'client-request-1',
+          processingTime: expect.any(Number),
+          version: '1.0.0'
+        }
+      });
+      expect(mockTranslationService.translateText).not.toHaveBeenCalled();
+    });
+
+    it('スキーマにない項目は除去してから翻訳サービスに渡す', async () => {
+      mockTranslationService.translateText.mockResolvedValue({
+        originalText: 'Hello',
+        translatedText: 'こんにちは',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja'
+      });
+
+      await request(app)
+        .post('/api/translate')
+        .send({
+          text: 'Hello',
+          targetLanguage: 'ja',
+          usage: { userId: 'someone-else' }
+        })
+        .expect(200);
+
+      expect(mockTranslationService.translateText).toHaveBeenCalledWith({
+        text: 'Hello',
+        targetLanguage: 'ja',
+        usage: { userId: 'test-user-123', route: 'POST /api/translate' }
+      });
+    });
   });
 
   describe('POST /api/translate/batch', () => {
@@ -184,7 +292,7 @@ describe('Translation Routes', () => {
         error: {
           code: 'VALIDATION_ERROR',
           details: {
-            texts: ['テキスト配列が空です']
+            texts: ['空にできません']
           }
         }
       });
@@ -206,18 +314,220 @@ describe('Translation Routes', () => {
         error: {
           code: 'VALIDATION_ERROR',
           details: {
-            texts: ['バッチ翻訳は最大100件までです']
+            texts: ['最大100件までです']
           }
         }
       });
     });
+
+    it('配列の要素のエラーはインデックス付きで返す', async () => {
+      const response = await request(app)
+        .post('/api/translate/batch')
+        .send({
+          texts: ['Hello', '   '],
+          targetLanguage: 'ja'
+        })
+        .expect(400);
+
+      expect(response.body.error.details.texts).toEqual(['インデックス1: 空にできません']);
+    });
+  });
+
+  describe('POST /api/translate/stream', () => {
+    it('チャンクごとの翻訳結果と進捗を送信し、最後に結果を送る', async () => {
+      mockTranslationService.translateText.mockImplementation(async (request, onChunk) => {
+        onChunk!({ index: 0, total: 2, translatedText: 'こんにちは。\n\n', fromCache: true });
+        onChunk!({ index: 1, total: 2, translatedText: '世界。', fromCache: false });
+        return {
+          originalText: request.text,
+          translatedText: 'こんにちは。\n\n世界。',
+          sourceLanguage: 'en',
+          targetLanguage: 'ja',
+          fromCache: false,
+          processingTime: 200,
+          chunkCount: 2
+        };
+      });
+
+      const response = await request(app)
+        .post('/api/translate/stream')
+        .send({ text: 'Hello.\n\nWorld.', targetLanguage: 'ja' })
+        .buffer(true)
+        .parse(parseEventStream)
+        .expect(200)
+        .expect('Content-Type', /text\/event-stream/);
+
+      expect(response.body.map((e: any) => e.event)).toEqual(['start', 'chunk', 'progress', 'chunk', 'progress', 'result']);
+      expect(response.body[2].data).toEqual({ completed: 1, total: 2, percentage: 50, successCount: 1, errorCount: 0 });
+      expect(response.body[5].data).toMatchObject({
+        translatedText: 'こんにちは。\n\n世界。',
+        chunkCount: 2
+      });
+    });
+
+    it('翻訳に失敗した場合は error イベントを送る', async () => {
+      mockTranslationService.translateText.mockRejectedValue(
+        new TranslationError('翻訳サービスが一時的に利用できません', 'SERVICE_UNAVAILABLE', undefined, true)
+      );
+
+      const response = await request(app)
+        .post('/api/translate/stream')
+        .send({ text: 'Hello', targetLanguage: 'ja' })
+        .buffer(true)
+        .parse(parseEventStream)
+        .expect(200);
+
+      expect(response.body.slice(-1)[0]).toEqual({
+        event: 'error',
+        data: {
+          code: 'SERVICE_UNAVAILABLE',
+          message: '翻訳サービスが一時的に利用できません',
+          retryable: true,
+          status: 503
+        }
+      });
+    });
+
+    it('バリデーションエラーはストリームを開始せずに返す', async () => {
+      const response = await request(app)
+        .post('/api/translate/stream')
+        .send({ text: '', targetLanguage: 'ja' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(mockTranslationService.translateText).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/translate/batch/stream', () => {
+    it('テキストごとの結果を送信し、最後にバッチ翻訳結果のサマリーを送る', async () => {
+      mockTranslationService.translateText.mockImplementation(async (request) => {
+        if (request.text === 'Broken') {
+          throw new TranslationError('翻訳中にエラーが発生しました', 'TRANSLATION_SERVICE_ERROR');
+        }
+        return {
+          originalText: request.text,
+          translatedText: `[ja] ${request.text}`,
+          sourceLanguage: 'en',
+          targetLanguage: 'ja',
+          fromCache: false,
+          processingTime: 10
+        };
+      });
+
+      const response = await request(app)
+        .post('/api/translate/batch/stream')
+        .send({ texts: ['Hello', 'Broken', 'World'], targetLanguage: 'ja' })
+        .buffer(true)
+        .parse(parseEventStream)
+        .expect(200);
+
+      const events = response.body;
+      expect(events[0]).toMatchObject({ event: 'start', data: { totalCount: 3 } });
+      expect(events.filter((e: any) => e.event === 'item')).toHaveLength(3);
+      expect(events.filter((e: any) => e.event === 'item').map((e: any) => e.data.index).sort()).toEqual([0, 1, 2]);
+      expect(events.filter((e: any) => e.event === 'progress').slice(-1)[0].data).toEqual({
+        completed: 3,
+        total: 3,
+        percentage: 100,
+        successCount: 2,
+        errorCount: 1
+      });
+      expect(events.slice(-1)[0]).toMatchObject({
+        event: 'summary',
+        data: {
+          successCount: 2,
+          errorCount: 1,
+          results: [
+            expect.objectContaining({ translatedText: '[ja] Hello' }),
+            expect.objectContaining({ translatedText: '[ja] World' })
+          ],
+          errors: [expect.objectContaining({ code: 'TRANSLATION_SERVICE_ERROR', originalText: 'Broken' })]
+        }
+      });
+    });
+
+    it('レート制限の回数はバッチ翻訳と共有する', async () => {
+      clearAllRateLimits();
+
+      const batch = await request(app)
+        .post('/api/translate/batch')
+        .send({ texts: [], targetLanguage: 'ja' })
+        .expect(400);
+      const stream = await request(app)
+        .post('/api/translate/batch/stream')
+        .send({ texts: [], targetLanguage: 'ja' })
+        .expect(400);
+
+      expect(batch.headers['x-ratelimit-remaining']).toBe('9');
+      expect(stream.headers['x-ratelimit-remaining']).toBe('8');
+    });
+  });
+
+  describe('POST /api/translate/multi', () => {
+    it('全言語を指定した場合はサポート言語に翻訳する', async () => {
+      mockTranslationService.getSupportedLanguages.mockResolvedValue(['ja', 'en', 'zh']);
+      mockTranslationService.translateToLanguages.mockImplementation(async (request, schedule) => {
+        const ja = await schedule!(async () => ({
+          originalText: 'Hello', translatedText: 'こんにちは', sourceLanguage: 'en', targetLanguage: 'ja', fromCache: false
+        }));
+        return {
+          originalText: 'Hello',
+          sourceLanguage: 'en',
+          confidence: 0.9,
+          results: {
+            ja,
+            en: { originalText: 'Hello', translatedText: 'Hello', sourceLanguage: 'en', targetLanguage: 'en', fromCache: false },
+            zh: { originalText: 'Hello', translatedText: '你好', sourceLanguage: 'en', targetLanguage: 'zh', fromCache: true }
+          },
+          errors: {},
+          processingTime: 20
+        };
+      });
+
+      const response = await request(app)
+        .post('/api/translate/multi')
+        .send({ text: 'Hello', targetLanguages: 'all' })
+        .expect(200);
+
+      expect(mockTranslationService.translateToLanguages).toHaveBeenCalledWith(
+        {
+          text: 'Hello',
+          sourceLanguage: undefined,
+          targetLanguages: ['ja', 'en', 'zh'],
+          usage: { userId: 'test-user-123', route: 'POST /api/translate/multi' }
+        },
+        expect.any(Function)
+      );
+      expect(response.body.data).toMatchObject({
+        sourceLanguage: 'en',
+        successCount: 3,
+        errorCount: 0,
+        cacheHitCount: 1,
+        translations: {
+          ja: { translatedText: 'こんにちは' },
+          zh: { translatedText: '你好', fromCache: true }
+        }
+      });
+    });
+
+    it('サポートされていない翻訳先言語はエラーを返す', async () => {
+      const response = await request(app)
+        .post('/api/translate/multi')
+        .send({ text: 'Hello', targetLanguages: ['ja', 'xx'] })
+        .expect(400);
+
+      expect(response.body.error.details.targetLanguages).toBeDefined();
+      expect(mockTranslationService.translateToLanguages).not.toHaveBeenCalled();
+    });
   });
 
   describe('POST /api/translate/detect', () => {
     it('正常な言語検出リクエストを処理できる', async () => {
       const detectionResult = {
         languageCode: 'ja',
-        score: 0.95
+        confidence: 0.95,
+        alternatives: []
       };
 
       mockTranslationService.detectLanguage.mockResolvedValue(detectionResult);
@@ -254,7 +564,7 @@ describe('Translation Routes', () => {
         error: {
           code: 'VALIDATION_ERROR',
           details: {
-            text: ['テキストが空です']
+            text: ['空にできません']
           }
         }
       });
@@ -265,11 +575,9 @@ describe('Translation Routes', () => {
     it('サポート言語一覧を取得できる', async () => {
       const supportedLanguages = ['ja', 'en', 'zh', 'ko'];
       mockTranslationService.getSupportedLanguages.mockResolvedValue(supportedLanguages);
-      mockTranslationService.getLanguageName
-        .mockReturnValueOnce('日本語')
-        .mockReturnValueOnce('English')
-        .mockReturnValueOnce('中文')
-        .mockReturnValueOnce('한국어');
+      mockTranslationService.getLanguageDefinition.mockImplementation(code =>
+        TRANSLATION_CONFIG.LANGUAGE_DEFINITIONS.find(definition => definition.code === code)
+      );
 
       const response = await request(app)
         .get('/api/translate/languages')
@@ -279,10 +587,10 @@ describe('Translation Routes', () => {
         success: true,
         data: {
           languages: [
-            { code: 'ja', name: '日本語' },
-            { code: 'en', name: 'English' },
-            { code: 'zh', name: '中文' },
-            { code: 'ko', name: '한국어' }
+            { code: 'ja', name: '日本語', englishName: 'Japanese', direction: 'ltr' },
+            { code: 'en', name: 'English', englishName: 'English', direction: 'ltr' },
+            { code: 'zh', name: '中文', englishName: 'Chinese (Simplified)', direction: 'ltr' },
+            { code: 'ko', name: '한국어', englishName: 'Korean', direction: 'ltr' }
           ],
           count: 4
         }
@@ -333,4 +641,175 @@ describe('Translation Routes', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('/api/translate/glossary', () => {
+    const entry = {
+      termId: 'term-1',
+      term: 'Step Functions',
+      sourceLanguage: '*',
+      targetLanguage: '*',
+      doNotTranslate: true,
+      caseSensitive: true,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    };
+
+    it('用語集エントリの一覧と言語ペアのバージョンを取得できる', async () => {
+      mockGlossaryService.listEntries.mockResolvedValue([entry]);
+      mockGlossaryService.getGlossary.mockResolvedValue({
+        version: 'abc123',
+        terms: [{ term: 'Step Functions', caseSensitive: true }]
+      });
+
+      const response = await request(app)
+        .get('/api/translate/glossary?sourceLanguage=en&targetLanguage=ja')
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ count: 1, version: 'abc123' });
+      expect(mockGlossaryService.listEntries).toHaveBeenCalledWith('en', 'ja');
+    });
+
+    it('用語集エントリを作成できる', async () => {
+      mockGlossaryService.createEntry.mockResolvedValue(entry);
+
+      const response = await request(app)
+        .post('/api/translate/glossary')
+        .send({ term: 'Step Functions', doNotTranslate: true })
+        .expect(201);
+
+      expect(response.body.data.termId).toBe('term-1');
+      expect(mockGlossaryService.createEntry).toHaveBeenCalledWith(
+        { term: 'Step Functions', doNotTranslate: true },
+        'test-user-123'
+      );
+    });
+
+    it('訳語も doNotTranslate もない場合はエラーを返す', async () => {
+      const response = await request(app)
+        .post('/api/translate/glossary')
+        .send({ term: 'Step Functions' })
+        .expect(400);
+
+      expect(response.body.error.details.translation).toBeDefined();
+      expect(mockGlossaryService.createEntry).not.toHaveBeenCalled();
+    });
+
+    it('重複した用語は409を返す', async () => {
+      mockGlossaryService.createEntry.mockRejectedValue(
+        new TranslationError('同じ言語ペアに既に登録されている用語です: Step Functions', 'GLOSSARY_TERM_EXISTS')
+      );
+
+      const response = await request(app)
+        .post('/api/translate/glossary')
+        .send({ term: 'Step Functions', doNotTranslate: true })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('GLOSSARY_TERM_EXISTS');
+    });
+
+    it('存在しないエントリの削除は404を返す', async () => {
+      mockGlossaryService.deleteEntry.mockRejectedValue(
+        new TranslationError('用語集エントリが見つかりません: missing', 'GLOSSARY_TERM_NOT_FOUND')
+      );
+
+      await request(app)
+        .delete('/api/translate/glossary/missing')
+        .expect(404);
+    });
+  });
+
+  describe('/api/translate/jobs', () => {
+    const job = {
+      jobId: 'job-1',
+      status: 'queued' as const,
+      userId: 'test-user-123',
+      targetLanguage: 'en',
+      priority: 'low' as const,
+      totalCount: 2,
+      completedCount: 0,
+      errorCount: 0,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      ttl: 1704672000
+    };
+
+    it('翻訳ジョブを作成して202を返す', async () => {
+      mockJobService.createJob.mockResolvedValue(job);
+
+      const response = await request(app)
+        .post('/api/translate/jobs')
+        .send({ texts: ['こんにちは', '世界'], targetLanguage: 'en' })
+        .expect(202);
+
+      expect(response.body.data).toMatchObject({ jobId: 'job-1', status: 'queued', totalCount: 2 });
+      expect(mockJobService.createJob).toHaveBeenCalledWith(
+        { texts: ['こんにちは', '世界'], targetLanguage: 'en' },
+        'test-user-123'
+      );
+    });
+
+    it('無効な優先度はエラーを返す', async () => {
+      const response = await request(app)
+        .post('/api/translate/jobs')
+        .send({ texts: ['こんにちは'], targetLanguage: 'en', priority: 'urgent' })
+        .expect(400);
+
+      expect(response.body.error.details.priority).toBeDefined();
+      expect(mockJobService.createJob).not.toHaveBeenCalled();
+    });
+
+    it('進捗と途中結果を取得できる', async () => {
+      mockJobService.getJob.mockResolvedValue({
+        ...job,
+        status: 'running',
+        completedCount: 1,
+        errorCount: 1,
+        progress: 100,
+        items: [
+          {
+            jobId: 'job-1', index: 0, itemStatus: 'completed', originalText: 'こんにちは',
+            translatedText: 'Hello', updatedAt: job.updatedAt, ttl: job.ttl
+          },
+          {
+            jobId: 'job-1', index: 1, itemStatus: 'failed', originalText: '世界', updatedAt: job.updatedAt, ttl: job.ttl,
+            error: { code: 'SERVICE_UNAVAILABLE', message: '翻訳サービスが一時的に利用できません', retryable: true }
+          }
+        ]
+      });
+
+      const response = await request(app)
+        .get('/api/translate/jobs/job-1')
+        .expect(200);
+
+      expect(response.body.data.results).toEqual([
+        expect.objectContaining({ index: 0, translatedText: 'Hello', targetLanguage: 'en' })
+      ]);
+      expect(response.body.data.errors).toEqual([
+        expect.objectContaining({ index: 1, code: 'SERVICE_UNAVAILABLE', retryable: true })
+      ]);
+      expect(mockJobService.getJob).toHaveBeenCalledWith('job-1', 'test-user-123');
+    });
+
+    it('存在しないジョブは404を返す', async () => {
+      mockJobService.getJob.mockRejectedValue(
+        new TranslationError('翻訳ジョブが見つかりません: missing', 'TRANSLATION_JOB_NOT_FOUND')
+      );
+
+      await request(app)
+        .get('/api/translate/jobs/missing')
+        .expect(404);
+    });
+
+    it('終了済みのジョブのキャンセルは409を返す', async () => {
+      mockJobService.cancelJob.mockRejectedValue(
+        new TranslationError('完了したジョブはキャンセルできません: job-1', 'TRANSLATION_JOB_NOT_CANCELLABLE')
+      );
+
+      const response = await request(app)
+        .delete('/api/translate/jobs/job-1')
+        .expect(409);
+
+      expect(response.body.error.code).toBe('TRANSLATION_JOB_NOT_CANCELLABLE');
+    });
+  });
+});
@@ -0,0 +1,394 @@
+import request from 'supertest';
+import express from 'express';
+import translationCacheRoutes from '../translationCache';
+import { translationCacheService } from '../../services/translationCacheService';
+import { translationCacheAuditService } from '../../services/translationCacheAuditService';
+import { translationCacheInvalidationService } from '../../services/translationCacheInvalidationService';
+import { TranslationError } from '../../services/translationError';
+import { generateContentHash } from '../../utils/translationUtils';
+import { createCacheEntry } from '../../models/translationCache';
+
+// モック設定
+jest.mock('../../services/translationCacheService');
+jest.mock('../../services/translationCacheAuditService');
+jest.mock('../../services/translationCacheInvalidationService');
+jest.mock('../../services/translationCacheWarmupService');
+jest.mock('../../middleware/auth', () => ({
+  authMiddleware: (req: any, res: any, next: any) => {
+    if (!req.headers.authorization) {
+      res.status(401).json({ success: false, error: { code: 'MISSING_AUTH_HEADER' } });
+      return;
+    }
+    req.user = {
+      id: 'admin-1',
+      email: 'admin-1@example.com',
+      roles: req.headers.authorization === 'Bearer admin' ? ['admin'] : []
+    };
+    next();
+  },
+  adminMiddleware: (req: any, res: any, next: any) => {
+    if (!req.user.roles.includes('admin')) {
+      res.status(403).json({ success: false, error: { code: 'INSUFFICIENT_PERMISSIONS' } });
+      return;
+    }
+    next();
+  }
+}));
+
+const mockCacheService = translationCacheService as jest.Mocked<typeof translationCacheService>;
+const mockAuditService = translationCacheAuditService as jest.Mocked<typeof translationCacheAuditService>;
+const mockInvalidationService = translationCacheInvalidationService as jest.Mocked<typeof translationCacheInvalidationService>;
+
+describe('Translation Cache Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/translation-cache', translationCacheRoutes);
+
+    jest.clearAllMocks();
+    mockAuditService.record.mockResolvedValue(null);
+  });
+
+  describe('管理者の権限', () => {
+    it('認証なしでは全件削除できない', async () => {
+      const response = await request(app).delete('/api/translation-cache/all');
+
+      expect(response.status).toBe(401);
+      expect(mockCacheService.clearAll).not.toHaveBeenCalled();
+    });
+
+    it('admin ロールのないユーザーはエントリを参照できない', async () => {
+      const response = await request(app)
+        .get('/api/translation-cache/entries/en/ja')
+        .set('Authorization', 'Bearer user');
+
+      expect(response.status).toBe(403);
+      expect(mockCacheService.getByLanguagePair).not.toHaveBeenCalled();
+    });
+
+    it('統計は認証なしでは取得できない', async () => {
+      const response = await request(app).get('/api/translation-cache/statistics');
+
+      expect(response.status).toBe(401);
+      expect(mockCacheService.getStatistics).not.toHaveBeenCalled();
+    });
+
+    it('admin ロールのないユーザーは統計を取得できない', async () => {
+      const response = await request(app)
+        .get('/api/translation-cache/statistics')
+        .set('Authorization', 'Bearer user');
+
+      expect(response.status).toBe(403);
+      expect(mockCacheService.getStatistics).not.toHaveBeenCalled();
+    });
+
+    it('管理者は統計を取得できる', async () => {
+      mockCacheService.getStatistics.mockResolvedValue({
+        totalEntries: 0,
+        hitCount: 0,
+        missCount: 0,
+        hitRate: 0
+      } as any);
+
+      const response = await request(app)
+        .get('/api/translation-cache/statistics')
+        .set('Authorization', 'Bearer admin');
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('DELETE /api/translation-cache/entries', () => {
+    const body = { originalText: 'Hello', sourceLanguage: 'en', targetLanguage: 'ja' };
+
+    it('削除を実行者・リクエストID・件数とともに監査ログに記録する', async () => {
+      // 用語集が適用される言語ペアでは、キャッシュキーに用語集のバージョンが含まれる
+      const contentHash = generateContentHash('Hello', 'en', 'ja', 'glossary-v1');
+      mockCacheService.delete.mockResolvedValue({ success: true, fromCache: false, contentHash, affectedCount: 1 });
+
+      const response = await request(app)
+        .delete('/api/translation-cache/entries')
+        .set('Authorization', 'Bearer admin')
+        .set('X-Request-Id', 'req-123')
+        .send(body);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(expect.objectContaining({ dryRun: false, affectedCount: 1 }));
+      expect(mockCacheService.delete).toHaveBeenCalledWith('Hello', 'en', 'ja', false);
+      expect(mockAuditService.record).toHaveBeenCalledWith({
+        operation: 'delete_entry',
+        actor: { id: 'admin-1', email: 'admin-1@example.com' },
+        requestId: 'req-123',
+        parameters: {
+          contentHash,
+          sourceLanguage: 'en',
+          targetLanguage: 'ja'
+        },
+        affectedCount: 1,
+        success: true
+      });
+    });
+
+    it('dryRun では削除対象を返し、監査ログに記録しない', async () => {
+      mockCacheService.delete.mockResolvedValue({ success: true, fromCache: false, affectedCount: 0 });
+
+      const response = await request(app)
+        .delete('/api/translation-cache/entries?dryRun=true')
+        .set('Authorization', 'Bearer admin')
+        .send(body);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(expect.objectContaining({ dryRun: true, affectedCount: 0, entry: null }));
+      expect(mockCacheService.delete).toHaveBeenCalledWith('Hello', 'en', 'ja', true);
+      expect(mockAuditService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/translation-cache/cleanup', () => {
+    it('削除件数を返して監査ログに記録する', async () => {
+      mockCacheService.cleanupExpiredEntries.mockResolvedValue(12);
+
+      const response = await request(app)
+        .post('/api/translation-cache/cleanup')
+        .set('Authorization', 'Bearer admin');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(expect.objectContaining({ dryRun: false, affectedCount: 12, deletedCount: 12 }));
+      expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        operation: 'cleanup_expired',
+        affectedCount: 12,
+        success: true
+      }));
+    });
+  });
+
+  describe('DELETE /api/translation-cache/all', () => {
+    it('dryRun では削除される件数だけを返す', async () => {
+      mockCacheService.clearAll.mockResolvedValue({ success: true, fromCache: false, affectedCount: 1520 });
+
+      const response = await request(app)
+        .delete('/api/translation-cache/all?dryRun=true')
+        .set('Authorization', 'Bearer admin');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(expect.objectContaining({ dryRun: true, affectedCount: 1520 }));
+      expect(mockCacheService.clearAll).toHaveBeenCalledWith(true);
+      expect(mockAuditService.record).not.toHaveBeenCalled();
+    });
+
+    it('失敗した削除もエラーとともに記録する', async () => {
+      mockCacheService.clearAll.mockResolvedValue({ success: false, fromCache: false, error: 'throttled' });
+
+      const response = await request(app)
+        .delete('/api/translation-cache/all')
+        .set('Authorization', 'Bearer admin');
+
+      expect(response.status).toBe(500);
+      expect(response.body.error.code).toBe('CACHE_CLEAR_ERROR');
+      expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        operation: 'clear_all',
+        affectedCount: 0,
+        success: false,
+        error: 'throttled'
+      }));
+    });
+  });
+
+  describe('GET /api/translation-cache/entries', () => {
+    it('クエリ文字列を検索条件にして一覧を返す', async () => {
+      mockCacheService.listEntries.mockResolvedValue({ entries: [], nextCursor: 'next' });
+
+      const response = await request(app)
+        .get('/api/translation-cache/entries?sourceLanguage=en&text=lambda&maxQualityScore=0.5&minHitCount=10&limit=20&cursor=abc')
+        .set('Authorization', 'Bearer admin');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ entries: [], count: 0, nextCursor: 'next' });
+      expect(mockCacheService.listEntries).toHaveBeenCalledWith(
+        expect.objectContaining({ sourceLanguage: 'en', text: 'lambda', maxQualityScore: 0.5, minHitCount: 10 }),
+        20,
+        'abc'
+      );
+    });
+
+    it('contentHash で取得し、ない場合は 404 を返す', async () => {
+      mockCacheService.getEntry.mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/translation-cache/entries/unknown-hash')
+        .set('Authorization', 'Bearer admin');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('TRANSLATION_CACHE_ENTRY_NOT_FOUND');
+      expect(mockCacheService.getEntry).toHaveBeenCalledWith('unknown-hash');
+    });
+  });
+
+  describe('POST /api/translation-cache/invalidations', () => {
+    const filter = { sourceLanguage: 'en', targetLanguage: 'ja', text: 'Lambda function' };
+
+    it('dryRun では対象の件数を返し、削除も記録もしない', async () => {
+      mockInvalidationService.preview.mockResolvedValue({
+        filter,
+        affectedCount: 42,
+        exceedsLimit: false,
+        maxEntries: 10000,
+        sample: []
+      });
+
+      const response = await request(app)
+        .post('/api/translation-cache/invalidations?dryRun=true')
+        .set('Authorization', 'Bearer admin')
+        .send(filter);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(expect.objectContaining({ dryRun: true, affectedCount: 42 }));
+      expect(mockInvalidationService.invalidate).not.toHaveBeenCalled();
+      expect(mockAuditService.record).not.toHaveBeenCalled();
+    });
+
+    it('一括削除して監査ログに記録する', async () => {
+      mockInvalidationService.invalidate.mockResolvedValue({
+        invalidationId: 'invalidation-1',
+        filter,
+        status: 'applied',
+        affectedCount: 42,
+        actorId: 'admin-1',
+        requestId: 'req-123',
+        createdAt: '2024-01-31T12:00:00.000Z',
+        ttl: 1709294400
+      });
+
+      const response = await request(app)
+        .post('/api/translation-cache/invalidations')
+        .set('Authorization', 'Bearer admin')
+        .set('X-Request-Id', 'req-123')
+        .send(filter);
+
+      expect(response.status).toBe(201);
+      expect(mockInvalidationService.invalidate).toHaveBeenCalledWith(filter, 'admin-1', 'req-123');
+      expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        operation: 'bulk_invalidate',
+        parameters: { filter, invalidationId: 'invalidation-1' },
+        affectedCount: 42
+      }));
+    });
+
+    it('取り消し済みの一括削除は 409 を返す', async () => {
+      mockInvalidationService.undo.mockRejectedValue(
+        new TranslationError('取り消し済みです', 'CACHE_INVALIDATION_ALREADY_UNDONE')
+      );
+
+      const response = await request(app)
+        .post('/api/translation-cache/invalidations/invalidation-1/undo')
+        .set('Authorization', 'Bearer admin');
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('CACHE_INVALIDATION_ALREADY_UNDONE');
+      expect(mockAuditService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('キャッシュの書き出しと取り込み', () => {
+    const entries = [
+      createCacheEntry('Lambda function', 'ラムダ関数', 'en', 'ja', 0.9, 0.8, 3600),
+      createCacheEntry('Lambda layer', 'Lambda レイヤー', 'en', 'ja', 0.9, 0.9, 3600)
+    ];
+
+    it('条件に一致するエントリを NDJSON で書き出す', async () => {
+      mockCacheService.listEntries.mockResolvedValue({ entries });
+
+      const response = await request(app)
+        .get('/api/translation-cache/export?sourceLanguage=en&targetLanguage=ja&from=2024-01-01')
+        .set('Authorization', 'Bearer admin');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+      expect(response.text.trim().split('\n').map(line => JSON.parse(line))).toEqual(entries);
+      expect(mockCacheService.listEntries).toHaveBeenCalledWith(
+        expect.objectContaining({ sourceLanguage: 'en', targetLanguage: 'ja', from: '2024-01-01' }),
+        100,
+        undefined
+      );
+    });
+
+    it('書き出しの条件が無効な場合は JSON のエラーを返す', async () => {
+      mockCacheService.listEntries.mockRejectedValue(
+        new TranslationError('日付は YYYY-MM-DD 形式で指定してください', 'INVALID_CACHE_ENTRY_FILTER')
+      );
+
+      const response = await request(app)
+        .get('/api/translation-cache/export?from=yesterday')
+        .set('Authorization', 'Bearer admin');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_CACHE_ENTRY_FILTER');
+    });
+
+    it('NDJSON を取り込み、監査ログに記録する', async () => {
+      mockCacheService.importEntries.mockResolvedValue(['created', 'overwritten']);
+
+      const response = await request(app)
+        .post('/api/translation-cache/import?conflictPolicy=keep-higher-quality')
+        .set('Authorization', 'Bearer admin')
+        .set('Content-Type', 'application/x-ndjson')
+        .send(entries.map(entry => JSON.stringify(entry)).join('\n'));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(expect.objectContaining({ total: 2, created: 1, overwritten: 1, invalid: 0 }));
+      expect(mockCacheService.importEntries).toHaveBeenCalledWith(
+        [expect.objectContaining({ contentHash: entries[0]!.contentHash }), expect.objectContaining({ contentHash: entries[1]!.contentHash })],
+        'keep-higher-quality',
+        false
+      );
+      expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        operation: 'import_entries',
+        parameters: expect.objectContaining({ conflictPolicy: 'keep-higher-quality', total: 2 }),
+        affectedCount: 2
+      }));
+    });
+
+    it('NDJSON 以外は取り込まない', async () => {
+      const response = await request(app)
+        .post('/api/translation-cache/import')
+        .set('Authorization', 'Bearer admin')
+        .send(entries);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_CACHE_IMPORT_REQUEST');
+      expect(mockCacheService.importEntries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/translation-cache/audit-logs', () => {
+    it('検索条件を渡して監査ログを返す', async () => {
+      mockAuditService.query.mockResolvedValue({ logs: [], nextCursor: 'next' });
+
+      const response = await request(app)
+        .get('/api/translation-cache/audit-logs?from=2024-01-01&to=2024-01-31&operation=clear_all&limit=10')
+        .set('Authorization', 'Bearer admin');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ logs: [], count: 0, nextCursor: 'next' });
+      expect(mockAuditService.query).toHaveBeenCalledWith(expect.objectContaining({
+        from: '2024-01-01',
+        to: '2024-01-31',
+        operation: 'clear_all',
+        limit: 10
+      }));
+    });
+
+    it('無効な検索条件は 400 を返す', async () => {
+      mockAuditService.query.mockRejectedValue(new TranslationError('無効な期間です', 'INVALID_CACHE_AUDIT_QUERY'));
+
+      const response = await request(app)
+        .get('/api/translation-cache/audit-logs?from=2024-02-01&to=2024-01-01')
+        .set('Authorization', 'Bearer admin');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_CACHE_AUDIT_QUERY');
+    });
+  });
+});
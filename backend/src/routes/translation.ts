@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import { translationController } from '../controllers/translationController';
-import { authMiddleware } from '../middleware/auth';
+import { translationGlossaryController } from '../controllers/translationGlossaryController';
+import { translationJobController } from '../controllers/translationJobController';
+import { translationCorrectionController } from '../controllers/translationCorrectionController';
+import { translationUsageController } from '../controllers/translationUsageController';
+import { authMiddleware, adminMiddleware } from '../middleware/auth';
 import { validationMiddleware } from '../middleware/validation';
 import { rateLimitMiddleware } from '../middleware/rateLimit';
 
@@ -13,6 +17,18 @@ const router = Router();
  * レート制限を適用してサービス保護
  */
 
+/**
+ * 単一テキスト翻訳とそのストリーミング版で共有するレート制限
+ * 1分間に100回まで
+ */
+const translateRateLimit = rateLimitMiddleware({ windowMs: 60000, max: 100, key: 'translate' });
+
+/**
+ * バッチ翻訳とそのストリーミング版で共有するレート制限
+ * 5分間に10回まで（重い処理のため制限強化）
+ */
+const batchRateLimit = rateLimitMiddleware({ windowMs: 300000, max: 10, key: 'translate/batch' });
+
 /**
  * 単一テキスト翻訳
  * POST /api/translate
@@ -27,11 +43,27 @@ const router = Router();
 router.post(
   '/',
   authMiddleware, // 認証必須
-  rateLimitMiddleware({ windowMs: 60000, max: 100 }), // 1分間に100回まで
+  translateRateLimit, // ストリーミング版と回数を共有
   validationMiddleware.validateTranslationRequest,
   translationController.translateText.bind(translationController)
 );
 
+/**
+ * 単一テキストのストリーミング翻訳（Server-Sent Events）
+ * POST /api/translate/stream
+ *
+ * Body: POST /api/translate と同じ
+ *
+ * Events: start → chunk / progress（チャンクごと）→ result、失敗時は error
+ */
+router.post(
+  '/stream',
+  authMiddleware, // 認証必須
+  translateRateLimit, // 通常版と回数を共有
+  validationMiddleware.validateTranslationRequest,
+  translationController.translateTextStream.bind(translationController)
+);
+
 /**
  * バッチ翻訳（複数テキストの一括翻訳）
  * POST /api/translate/batch
@@ -48,11 +80,94 @@ router.post(
 router.post(
   '/batch',
   authMiddleware, // 認証必須
-  rateLimitMiddleware({ windowMs: 300000, max: 10 }), // 5分間に10回まで（重い処理のため制限強化）
+  batchRateLimit, // ストリーミング版と回数を共有
   validationMiddleware.validateBatchTranslationRequest,
   translationController.translateBatch.bind(translationController)
 );
 
+/**
+ * バッチ翻訳のストリーミング版（Server-Sent Events）
+ * POST /api/translate/batch/stream
+ *
+ * Body: POST /api/translate/batch と同じ
+ *
+ * Events: start → item / progress（テキストごと、完了順）→ summary、失敗時は error
+ */
+router.post(
+  '/batch/stream',
+  authMiddleware, // 認証必須
+  batchRateLimit, // 通常版と回数を共有
+  validationMiddleware.validateBatchTranslationRequest,
+  translationController.translateBatchStream.bind(translationController)
+);
+
+/**
+ * 複数言語への翻訳
+ * POST /api/translate/multi
+ *
+ * Body:
+ * {
+ *   "text": "翻訳したいテキスト",
+ *   "targetLanguages": ["en", "zh", "ko"] または "all",
+ *   "sourceLanguage": "ja" (optional),
+ *   "preserveFormatting": true (optional)
+ * }
+ *
+ * 言語検出は1回のみ行い、言語ごとの翻訳結果をまとめて返す
+ */
+router.post(
+  '/multi',
+  authMiddleware, // 認証必須
+  rateLimitMiddleware({ windowMs: 60000, max: 30 }), // 1分間に30回まで（1回で最大12言語を翻訳するため）
+  validationMiddleware.validateMultiTargetTranslationRequest,
+  translationController.translateMultiTarget.bind(translationController)
+);
+
+/**
+ * 非同期翻訳ジョブ作成
+ * POST /api/translate/jobs
+ *
+ * Body:
+ * {
+ *   "texts": ["テキスト1", "テキスト2", ...] (最大1000件),
+ *   "targetLanguage": "en",
+ *   "sourceLanguage": "ja" (optional),
+ *   "priority": "low" (optional),
+ *   "preserveFormatting": true (optional)
+ * }
+ *
+ * ジョブIDを返し、翻訳はバックグラウンドで実行する
+ */
+router.post(
+  '/jobs',
+  authMiddleware, // 認証必須
+  rateLimitMiddleware({ windowMs: 300000, max: 20 }), // 5分間に20回まで
+  validationMiddleware.validateTranslationJobRequest,
+  translationJobController.createJob.bind(translationJobController)
+);
+
+/**
+ * 非同期翻訳ジョブの進捗・途中結果取得
+ * GET /api/translate/jobs/:jobId
+ */
+router.get(
+  '/jobs/:jobId',
+  authMiddleware, // 認証必須
+  rateLimitMiddleware({ windowMs: 60000, max: 60 }), // 1分間に60回まで（ポーリング用）
+  translationJobController.getJob.bind(translationJobController)
+);
+
+/**
+ * 非同期翻訳ジョブのキャンセル
+ * DELETE /api/translate/jobs/:jobId
+ */
+router.delete(
+  '/jobs/:jobId',
+  authMiddleware, // 認証必須
+  rateLimitMiddleware({ windowMs: 60000, max: 20 }), // 1分間に20回まで
+  translationJobController.cancelJob.bind(translationJobController)
+);
+
 /**
  * 言語検出
  * POST /api/translate/detect
@@ -92,6 +207,188 @@ router.get(
   translationController.getSupportedLanguages.bind(translationController)
 );
 
+/**
+ * 用語集エントリ一覧取得
+ * GET /api/translate/glossary?sourceLanguage=en&targetLanguage=ja
+ *
+ * 言語ペアを指定した場合は、その言語ペアに適用される用語集のバージョンも返す
+ */
+router.get(
+  '/glossary',
+  authMiddleware, // 認証必須
+  rateLimitMiddleware({ windowMs: 60000, max: 20 }), // 1分間に20回まで
+  translationGlossaryController.listEntries.bind(translationGlossaryController)
+);
+
+/**
+ * 用語集エントリ取得
+ * GET /api/translate/glossary/:termId
+ */
+router.get(
+  '/glossary/:termId',
+  authMiddleware, // 認証必須
+  rateLimitMiddleware({ windowMs: 60000, max: 20 }), // 1分間に20回まで
+  translationGlossaryController.getEntry.bind(translationGlossaryController)
+);
+
+/**
+ * 用語集エントリ作成
+ * POST /api/translate/glossary
+ *
+ * Body:
+ * {
+ *   "term": "Step Functions",
+ *   "sourceLanguage": "en" (optional, 省略時は全言語),
+ *   "targetLanguage": "ja" (optional, 省略時は全言語),
+ *   "translation": "Step Functions" (doNotTranslate でない場合は必須),
+ *   "doNotTranslate": true (optional),
+ *   "caseSensitive": true (optional)
+ * }
+ */
+router.post(
+  '/glossary',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 20 }), // 1分間に20回まで
+  validationMiddleware.validateGlossaryEntryRequest,
+  translationGlossaryController.createEntry.bind(translationGlossaryController)
+);
+
+/**
+ * 用語集エントリ更新
+ * PUT /api/translate/glossary/:termId
+ */
+router.put(
+  '/glossary/:termId',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 20 }), // 1分間に20回まで
+  validationMiddleware.validateGlossaryEntryRequest,
+  translationGlossaryController.updateEntry.bind(translationGlossaryController)
+);
+
+/**
+ * 用語集エントリ削除
+ * DELETE /api/translate/glossary/:termId
+ */
+router.delete(
+  '/glossary/:termId',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 20 }), // 1分間に20回まで
+  translationGlossaryController.deleteEntry.bind(translationGlossaryController)
+);
+
+/**
+ * 修正提案一覧取得（モデレーション用）
+ * GET /api/translate/corrections?status=pending&limit=50
+ */
+router.get(
+  '/corrections',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 20 }), // 1分間に20回まで
+  translationCorrectionController.listCorrections.bind(translationCorrectionController)
+);
+
+/**
+ * キャッシュエントリの現在の翻訳と編集履歴取得
+ * GET /api/translate/corrections/:contentHash
+ */
+router.get(
+  '/corrections/:contentHash',
+  authMiddleware, // 認証必須
+  rateLimitMiddleware({ windowMs: 60000, max: 20 }), // 1分間に20回まで
+  translationCorrectionController.getHistory.bind(translationCorrectionController)
+);
+
+/**
+ * 翻訳の修正提案
+ * POST /api/translate/corrections/:contentHash
+ *
+ * Body:
+ * {
+ *   "translatedText": "修正後の翻訳",
+ *   "comment": "修正理由" (optional)
+ * }
+ *
+ * モデレーターが承認するまでキャッシュには反映しない
+ */
+router.post(
+  '/corrections/:contentHash',
+  authMiddleware, // 認証必須
+  rateLimitMiddleware({ windowMs: 300000, max: 20 }), // 5分間に20回まで
+  validationMiddleware.validateTranslationCorrectionRequest,
+  translationCorrectionController.proposeCorrection.bind(translationCorrectionController)
+);
+
+/**
+ * 修正提案の承認
+ * POST /api/translate/corrections/:contentHash/:correctionId/approve
+ *
+ * Body:
+ * {
+ *   "reviewComment": "審査コメント" (optional)
+ * }
+ *
+ * 承認した翻訳は有効期限なしでキャッシュに保持される
+ */
+router.post(
+  '/corrections/:contentHash/:correctionId/approve',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 20 }), // 1分間に20回まで
+  validationMiddleware.validateCorrectionReviewRequest,
+  translationCorrectionController.approveCorrection.bind(translationCorrectionController)
+);
+
+/**
+ * 修正提案の却下
+ * POST /api/translate/corrections/:contentHash/:correctionId/reject
+ */
+router.post(
+  '/corrections/:contentHash/:correctionId/reject',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 20 }), // 1分間に20回まで
+  validationMiddleware.validateCorrectionReviewRequest,
+  translationCorrectionController.rejectCorrection.bind(translationCorrectionController)
+);
+
+/**
+ * 翻訳使用量レポート取得
+ * GET /api/translate/usage?from=2024-01-01&to=2024-01-31
+ *
+ * 期間を省略した場合は今月（最大92日）
+ * プロバイダーで翻訳した文字数・概算コストと、キャッシュによる節約額をユーザー・ルート・言語ペア別に返す
+ */
+router.get(
+  '/usage',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 10 }), // 1分間に10回まで
+  translationUsageController.getReport.bind(translationUsageController)
+);
+
+/**
+ * 翻訳の月間予算設定
+ * PUT /api/translate/usage/budget
+ *
+ * Body:
+ * {
+ *   "userId": "user-1" (optional, 省略時は全体の予算),
+ *   "monthlyBudget": 50 (USD、0 は無制限、null は既定値に戻す)
+ * }
+ */
+router.put(
+  '/usage/budget',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 20 }), // 1分間に20回まで
+  validationMiddleware.validateTranslationBudgetRequest,
+  translationUsageController.setBudget.bind(translationUsageController)
+);
+
 /**
  * 翻訳サービスヘルスチェック
  * GET /api/translate/health
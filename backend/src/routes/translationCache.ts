@@ -1,26 +1,159 @@
 import { Router } from 'express';
 import { translationCacheController } from '../controllers/translationCacheController';
+import { authMiddleware, adminMiddleware } from '../middleware/auth';
+import { validationMiddleware } from '../middleware/validation';
+import { rateLimitMiddleware } from '../middleware/rateLimit';
 
 const router = Router();
 
 /**
  * 翻訳キャッシュ管理用のルート
+ * 設定・ヘルスチェック以外は管理者のみ。削除系は ?dryRun=true で対象件数だけを返し、実行時は監査ログに記録する
  */
 
-// キャッシュ統計情報を取得
-router.get('/statistics', translationCacheController.getStatistics.bind(translationCacheController));
+// キャッシュ統計情報を取得（?from=&to= で期間内の日別ヒット率、?sourceLanguage=&targetLanguage= で言語ペアを絞り込み）
+// 言語ペア別・日別の利用状況を含むため管理者のみ
+router.get(
+  '/statistics',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 60 }), // 1分間に60回まで
+  translationCacheController.getStatistics.bind(translationCacheController)
+);
 
-// 言語ペア別のキャッシュエントリを取得
-router.get('/entries/:sourceLanguage/:targetLanguage', translationCacheController.getByLanguagePair.bind(translationCacheController));
+// 条件に一致するキャッシュエントリを取得（?sourceLanguage=&targetLanguage=&text=&from=&to=&minQualityScore=&maxQualityScore=&minHitCount=&maxHitCount=&limit=&cursor=）
+router.get(
+  '/entries',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 60 }), // 1分間に60回まで
+  translationCacheController.listEntries.bind(translationCacheController)
+);
 
-// 特定のキャッシュエントリを削除
-router.delete('/entries', translationCacheController.deleteEntry.bind(translationCacheController));
+// contentHash でキャッシュエントリを取得
+router.get(
+  '/entries/:contentHash',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 60 }), // 1分間に60回まで
+  translationCacheController.getEntry.bind(translationCacheController)
+);
 
-// 期限切れキャッシュエントリをクリーンアップ
-router.post('/cleanup', translationCacheController.cleanupExpired.bind(translationCacheController));
+// 言語ペア別のキャッシュエントリを取得（利用者の投稿内容を含むため管理者のみ）
+router.get(
+  '/entries/:sourceLanguage/:targetLanguage',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 60 }), // 1分間に60回まで
+  translationCacheController.getByLanguagePair.bind(translationCacheController)
+);
 
-// 全キャッシュエントリを削除（管理者用）
-router.delete('/all', translationCacheController.clearAll.bind(translationCacheController));
+// 特定のキャッシュエントリを削除（?dryRun=true で削除対象の確認のみ）
+router.delete(
+  '/entries',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 20 }), // 1分間に20回まで
+  translationCacheController.deleteEntry.bind(translationCacheController)
+);
+
+// 期限切れキャッシュエントリをクリーンアップ（?dryRun=true で件数のみ）
+router.post(
+  '/cleanup',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 300000, max: 5 }), // 5分間に5回まで（全件走査のため）
+  translationCacheController.cleanupExpired.bind(translationCacheController)
+);
+
+// 全キャッシュエントリを削除（?dryRun=true で件数のみ）
+router.delete(
+  '/all',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 300000, max: 5 }), // 5分間に5回まで（全件走査のため）
+  translationCacheController.clearAll.bind(translationCacheController)
+);
+
+// 条件に一致するキャッシュエントリをまとめて削除（?dryRun=true で対象の件数と先頭のエントリのみ）
+router.post(
+  '/invalidations',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 300000, max: 20 }), // 5分間に20回まで（全件走査のことがあるため）
+  validationMiddleware.validateCacheInvalidationRequest,
+  translationCacheController.createInvalidation.bind(translationCacheController)
+);
+
+// 一括無効化の記録を取得
+router.get(
+  '/invalidations/:invalidationId',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  translationCacheController.getInvalidation.bind(translationCacheController)
+);
+
+// 一括無効化を取り消し、削除したエントリを復元
+router.post(
+  '/invalidations/:invalidationId/undo',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 300000, max: 20 }), // 5分間に20回まで
+  translationCacheController.undoInvalidation.bind(translationCacheController)
+);
+
+// 条件に一致するキャッシュエントリを NDJSON で書き出す（?sourceLanguage=&targetLanguage=&from=&to= など一覧と同じ条件）
+router.get(
+  '/export',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 300000, max: 5 }), // 5分間に5回まで（全件走査のことがあるため）
+  translationCacheController.exportEntries.bind(translationCacheController)
+);
+
+// NDJSON のキャッシュエントリを取り込む（?conflictPolicy=skip|overwrite|keep-higher-quality、?dryRun=true で件数のみ）
+router.post(
+  '/import',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 300000, max: 5 }), // 5分間に5回まで
+  translationCacheController.importEntries.bind(translationCacheController)
+);
+
+// 削除・クリーンアップの監査ログを新しい順に取得（?from=&to=&actorId=&operation=&limit=&cursor=）
+router.get(
+  '/audit-logs',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 60 }), // 1分間に60回まで
+  translationCacheController.getAuditLogs.bind(translationCacheController)
+);
+
+// 人気の投稿とよく参照されるエントリを事前に翻訳（dryRun: true で見積もりのみ）
+router.post(
+  '/warmup',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  rateLimitMiddleware({ windowMs: 60000, max: 10 }), // 1分間に10回まで
+  validationMiddleware.validateCacheWarmupRequest,
+  translationCacheController.startWarmup.bind(translationCacheController)
+);
+
+// 最近のウォームアップの進捗を取得
+router.get(
+  '/warmup',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  translationCacheController.listWarmups.bind(translationCacheController)
+);
+
+// ウォームアップの進捗を取得
+router.get(
+  '/warmup/:runId',
+  authMiddleware, // 認証必須
+  adminMiddleware, // 管理者のみ
+  translationCacheController.getWarmup.bind(translationCacheController)
+);
 
 // キャッシュ設定を取得
 router.get('/config', translationCacheController.getConfig.bind(translationCacheController));
@@ -28,4 +161,4 @@ router.get('/config', translationCacheController.getConfig.bind(translationCache
 // キャッシュヘルスチェック
 router.get('/health', translationCacheController.healthCheck.bind(translationCacheController));
 
-export default router;
\ No newline at end of file
+export default router;
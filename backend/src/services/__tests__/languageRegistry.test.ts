@@ -0,0 +1,102 @@
+import { SSMClient } from '@aws-sdk/client-ssm';
+import { LanguageRegistry } from '../languageRegistry';
+import { TRANSLATION_CONFIG } from '../../config/translation';
+
+jest.mock('@aws-sdk/client-ssm');
+
+/**
+ * パラメータ名 → 値 のマップから SSMClient のモックを作成（存在しないパラメータは ParameterNotFound）
+ */
+const createSsmClient = (parameters: Record<string, string>) => {
+  const send = jest.fn(async (command: any) => {
+    const value = parameters[command.input.Name];
+    if (value === undefined) {
+      throw Object.assign(new Error('Parameter not found'), { name: 'ParameterNotFound' });
+    }
+    return { Parameter: { Value: value } };
+  });
+  return { client: { send } as unknown as SSMClient, send };
+};
+
+// GetParameterCommand の自動モックは入力を保持しないため、入力をそのまま持たせる
+jest.requireMock('@aws-sdk/client-ssm').GetParameterCommand.mockImplementation((input: any) => ({ input }));
+
+describe('LanguageRegistry', () => {
+  const { SUPPORTED_LANGUAGES, LANGUAGES } = TRANSLATION_CONFIG.PARAMETER_NAMES;
+
+  it('Parameter Store に定義がない場合はローカル定義を使用する', async () => {
+    const { client } = createSsmClient({});
+    const registry = new LanguageRegistry(client);
+
+    await registry.ensureLoaded();
+
+    expect(registry.getEnabledLanguageCodes()).toEqual([
+      'ja', 'en', 'zh', 'ko', 'es', 'fr', 'de', 'it', 'pt', 'ru', 'ar', 'hi'
+    ]);
+    expect(registry.isEnabled('vi')).toBe(false);
+    expect(registry.isEnabled('xx')).toBe(false);
+    expect(registry.getLanguage('ar')).toMatchObject({ nativeName: 'العربية', direction: 'rtl' });
+  });
+
+  it('source-languages で有効な言語を限定し、languages の定義で上書きする', async () => {
+    const { client } = createSsmClient({
+      [SUPPORTED_LANGUAGES]: 'ja, en, ko',
+      [LANGUAGES]: JSON.stringify([
+        { code: 'vi', enabled: true, providerCodes: { amazon: 'vi' } },
+        { code: 'zh-TW', enabled: true, nativeName: '繁體中文（台灣）', providerCodes: { local: 'zh-Hant' } },
+        { code: 'xx', enabled: true },
+        { code: 'ko', direction: 'sideways' }
+      ])
+    });
+    const registry = new LanguageRegistry(client);
+
+    await registry.ensureLoaded();
+
+    expect(registry.getEnabledLanguageCodes()).toEqual(['ja', 'en', 'ko', 'zh-TW', 'vi']);
+    expect(registry.getLanguage('zh-TW')!.nativeName).toBe('繁體中文（台灣）');
+    expect(registry.getLanguage('ko')!.direction).toBe('ltr');
+    expect(registry.toProviderCode('zh-TW', 'local')).toBe('zh-Hant');
+    expect(registry.toProviderCode('zh-TW', 'amazon')).toBe('zh-TW');
+    expect(registry.fromProviderCode('zh-Hant', 'local')).toBe('zh-TW');
+  });
+
+  it('ローカル定義にない言語は表示名がある場合に追加する', async () => {
+    const { client } = createSsmClient({
+      [LANGUAGES]: JSON.stringify([
+        { code: 'sv', nativeName: 'Svenska', englishName: 'Swedish', enabled: true },
+        { code: 'he', nativeName: 'עברית', englishName: 'Hebrew', direction: 'rtl' }
+      ])
+    });
+    const registry = new LanguageRegistry(client);
+
+    await registry.ensureLoaded();
+
+    expect(registry.isEnabled('sv')).toBe(true);
+    expect(registry.getLanguage('sv')).toMatchObject({ englishName: 'Swedish', direction: 'ltr', providerCodes: {} });
+    expect(registry.isEnabled('he')).toBe(false);
+    expect(registry.getLanguage('he')!.direction).toBe('rtl');
+    expect(registry.getEnabledLanguageCodes().slice(-1)).toEqual(['sv']);
+  });
+
+  it('読み込みに失敗した場合は直前の定義を使い続ける', async () => {
+    const { client, send } = createSsmClient({ [SUPPORTED_LANGUAGES]: 'ja,en' });
+    const registry = new LanguageRegistry(client);
+    await registry.refresh();
+
+    send.mockRejectedValue(new Error('AccessDenied'));
+    await registry.refresh();
+
+    expect(registry.getEnabledLanguageCodes()).toEqual(['ja', 'en']);
+  });
+
+  it('期限内は Parameter Store を読み直さない', async () => {
+    const { client, send } = createSsmClient({});
+    const registry = new LanguageRegistry(client);
+
+    await registry.ensureLoaded();
+    await registry.ensureLoaded();
+    registry.isEnabled('ja');
+
+    expect(send).toHaveBeenCalledTimes(2); // source-languages と languages を1回ずつ
+  });
+});
@@ -0,0 +1,84 @@
+import { TranslationCacheAuditService } from '../translationCacheAuditService';
+import { TranslationCacheAuditModel } from '../../models/translationCacheAudit';
+
+jest.mock('../../models/translationCacheAudit');
+
+describe('TranslationCacheAuditService', () => {
+  let auditService: TranslationCacheAuditService;
+  let mockAuditModel: jest.Mocked<TranslationCacheAuditModel>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    auditService = new TranslationCacheAuditService();
+    mockAuditModel = (TranslationCacheAuditModel as jest.MockedClass<typeof TranslationCacheAuditModel>).mock.instances.slice(-1)[0] as jest.Mocked<TranslationCacheAuditModel>;
+    mockAuditModel.put.mockResolvedValue(undefined);
+    mockAuditModel.query.mockResolvedValue({ logs: [] });
+  });
+
+  describe('record', () => {
+    it('実行者・リクエストID・パラメータ・件数を時系列のIDで保存する', async () => {
+      const log = await auditService.record({
+        operation: 'clear_all',
+        actor: { id: 'admin-1', email: 'admin@multilingual-community.com' },
+        requestId: 'req-123',
+        parameters: {},
+        affectedCount: 1520,
+        success: true
+      });
+
+      expect(log?.logId).toMatch(new RegExp(`^${log?.timestamp}#`));
+      expect(log?.ttl).toBeGreaterThan(Date.now() / 1000 + 364 * 86400);
+      expect(mockAuditModel.put).toHaveBeenCalledWith(expect.objectContaining({
+        operation: 'clear_all',
+        actorId: 'admin-1',
+        actorEmail: 'admin@multilingual-community.com',
+        requestId: 'req-123',
+        affectedCount: 1520,
+        success: true
+      }));
+    });
+
+    it('保存に失敗しても例外を投げない', async () => {
+      mockAuditModel.put.mockRejectedValue(new Error('throttled'));
+
+      await expect(auditService.record({
+        operation: 'cleanup_expired',
+        actor: { id: 'admin-1' },
+        requestId: 'req-123',
+        parameters: {},
+        affectedCount: 3,
+        success: true
+      })).resolves.toBeNull();
+    });
+  });
+
+  describe('query', () => {
+    it('続きのキーをカーソルとして返し、次の検索で復元する', async () => {
+      const lastEvaluatedKey = { logType: 'translation-cache', logId: '2024-01-31T12:00:00.000Z#abc' };
+      mockAuditModel.query.mockResolvedValueOnce({ logs: [], lastEvaluatedKey });
+
+      const first = await auditService.query({ from: '2024-01-01', to: '2024-01-31', operation: 'clear_all' });
+      await auditService.query({ cursor: first.nextCursor });
+
+      expect(mockAuditModel.query).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        from: '2024-01-01',
+        to: '2024-01-31',
+        operation: 'clear_all',
+        limit: 50
+      }));
+      expect(mockAuditModel.query).toHaveBeenNthCalledWith(2, expect.objectContaining({ exclusiveStartKey: lastEvaluatedKey }));
+    });
+
+    it.each([
+      [{ from: '2024-02-01', to: '2024-01-01' }],
+      [{ from: '2024/01/01' }],
+      [{ operation: 'drop_table' }],
+      [{ limit: 0 }],
+      [{ cursor: 'not-a-cursor' }]
+    ])('無効な検索条件はエラーになる: %j', async query => {
+      await expect(auditService.query(query)).rejects.toMatchObject({ code: 'INVALID_CACHE_AUDIT_QUERY' });
+      expect(mockAuditModel.query).not.toHaveBeenCalled();
+    });
+  });
+});
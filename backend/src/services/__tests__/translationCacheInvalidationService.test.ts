@@ -0,0 +1,122 @@
+import { TranslationCacheInvalidationService } from '../translationCacheInvalidationService';
+import { TranslationCacheInvalidationModel, CacheInvalidation } from '../../models/translationCacheInvalidation';
+import { createCacheEntry } from '../../models/translationCache';
+import { translationCacheService } from '../translationCacheService';
+
+jest.mock('../../models/translationCacheInvalidation');
+jest.mock('../translationCacheService');
+
+const mockCacheService = translationCacheService as jest.Mocked<typeof translationCacheService>;
+
+const ENTRIES = [
+  createCacheEntry('Lambda function', 'ラムダ関数', 'en', 'ja', 0.9, 0.4, 3600),
+  createCacheEntry('Lambda functions', 'ラムダ関数群', 'en', 'ja', 0.9, 0.4, 3600),
+  createCacheEntry('Lambda function URL', 'ラムダ関数のURL', 'en', 'ja', 0.9, 0.4, 3600)
+];
+
+describe('TranslationCacheInvalidationService', () => {
+  let invalidationService: TranslationCacheInvalidationService;
+  let mockInvalidationModel: jest.Mocked<TranslationCacheInvalidationModel>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    invalidationService = new TranslationCacheInvalidationService();
+    mockInvalidationModel = (TranslationCacheInvalidationModel as jest.MockedClass<typeof TranslationCacheInvalidationModel>).mock.instances.slice(-1)[0] as jest.Mocked<TranslationCacheInvalidationModel>;
+    mockInvalidationModel.create.mockResolvedValue(undefined);
+
+    // 2件ずつのページで返す
+    mockCacheService.listEntries.mockImplementation(async (_filter, _limit, cursor) => {
+      const offset = cursor ? Number(cursor) : 0;
+      return {
+        entries: ENTRIES.slice(offset, offset + 2),
+        ...(offset + 2 < ENTRIES.length && { nextCursor: String(offset + 2) })
+      };
+    });
+    mockCacheService.deleteEntries.mockResolvedValue(ENTRIES.length);
+  });
+
+  describe('preview', () => {
+    it('すべてのページを数え、先頭のエントリを返す', async () => {
+      const preview = await invalidationService.preview({ text: 'lambda function' });
+
+      expect(preview.affectedCount).toBe(3);
+      expect(preview.exceedsLimit).toBe(false);
+      expect(preview.sample).toHaveLength(3);
+      expect(mockCacheService.deleteEntries).not.toHaveBeenCalled();
+    });
+
+    it('条件がない場合はエラーになる', async () => {
+      await expect(invalidationService.preview({ text: '' })).rejects.toMatchObject({ code: 'INVALID_CACHE_ENTRY_FILTER' });
+      expect(mockCacheService.listEntries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invalidate', () => {
+    it('削除前のエントリを保存してから削除する', async () => {
+      const invalidation = await invalidationService.invalidate({ text: 'lambda function' }, 'admin-1', 'req-123');
+
+      expect(invalidation).toEqual(expect.objectContaining({
+        status: 'applied',
+        affectedCount: 3,
+        actorId: 'admin-1',
+        requestId: 'req-123'
+      }));
+      expect(mockInvalidationModel.create).toHaveBeenCalledWith(invalidation, ENTRIES);
+      expect(mockCacheService.deleteEntries).toHaveBeenCalledWith(ENTRIES.map(entry => entry.contentHash));
+      expect(mockInvalidationModel.create.mock.invocationCallOrder[0])
+        .toBeLessThan(mockCacheService.deleteEntries.mock.invocationCallOrder[0]!);
+    });
+
+    it('上限を超える場合は削除しない', async () => {
+      process.env.TRANSLATION_CACHE_INVALIDATION_MAX_ENTRIES = '2';
+      const limitedService = new TranslationCacheInvalidationService();
+      delete process.env.TRANSLATION_CACHE_INVALIDATION_MAX_ENTRIES;
+
+      await expect(limitedService.invalidate({ text: 'lambda' }, 'admin-1', 'req-123'))
+        .rejects.toMatchObject({ code: 'INVALID_CACHE_ENTRY_FILTER' });
+      expect(mockCacheService.deleteEntries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('undo', () => {
+    const applied: CacheInvalidation = {
+      invalidationId: 'invalidation-1',
+      filter: { text: 'lambda function' },
+      status: 'applied',
+      affectedCount: 3,
+      actorId: 'admin-1',
+      requestId: 'req-123',
+      createdAt: '2024-01-31T12:00:00.000Z',
+      ttl: 1709294400
+    };
+
+    it('削除したエントリを復元して取り消し済みにする', async () => {
+      mockInvalidationModel.get.mockResolvedValue(applied);
+      mockInvalidationModel.getEntries.mockResolvedValue(ENTRIES);
+      mockCacheService.restoreEntries.mockResolvedValue(2);
+      mockInvalidationModel.markUndone.mockResolvedValue({ ...applied, status: 'undone', restoredCount: 2 });
+
+      const undone = await invalidationService.undo('invalidation-1', 'admin-2');
+
+      expect(undone.status).toBe('undone');
+      expect(mockCacheService.restoreEntries).toHaveBeenCalledWith(ENTRIES);
+      expect(mockInvalidationModel.markUndone).toHaveBeenCalledWith('invalidation-1', 'admin-2', 2);
+    });
+
+    it('取り消し済みの場合はエラーになる', async () => {
+      mockInvalidationModel.get.mockResolvedValue({ ...applied, status: 'undone' });
+
+      await expect(invalidationService.undo('invalidation-1', 'admin-2'))
+        .rejects.toMatchObject({ code: 'CACHE_INVALIDATION_ALREADY_UNDONE' });
+      expect(mockCacheService.restoreEntries).not.toHaveBeenCalled();
+    });
+
+    it('存在しない場合はエラーになる', async () => {
+      mockInvalidationModel.get.mockResolvedValue(null);
+
+      await expect(invalidationService.undo('unknown', 'admin-2'))
+        .rejects.toMatchObject({ code: 'CACHE_INVALIDATION_NOT_FOUND' });
+    });
+  });
+});
@@ -89,7 +89,7 @@ describe('TranslationCacheService', () => {
         lastAccessedAt: new Date().toISOString()
       };
 
-      mockCacheModel.put = jest.fn().mockResolvedValue(mockEntry);
+      mockCacheModel.refresh = jest.fn().mockResolvedValue(mockEntry);
       mockCacheModel.limitCacheSize = jest.fn().mockResolvedValue(0);
 
       const result = await cacheService.put('Hello', 'こんにちは', 'en', 'ja', 0.9);
@@ -97,7 +97,7 @@ describe('TranslationCacheService', () => {
       expect(result.success).toBe(true);
       expect(result.fromCache).toBe(false);
       expect(result.entry).toEqual(mockEntry);
-      expect(mockCacheModel.put).toHaveBeenCalled();
+      expect(mockCacheModel.refresh).toHaveBeenCalled();
     });
 
     it('低品質な翻訳結果は保存しない', async () => {
@@ -106,7 +106,7 @@ describe('TranslationCacheService', () => {
 
       expect(result.success).toBe(true);
       expect(result.fromCache).toBe(false);
-      expect(mockCacheModel.put).not.toHaveBeenCalled();
+      expect(mockCacheModel.refresh).not.toHaveBeenCalled();
     });
   });
 
@@ -201,4 +201,30 @@ describe('TranslationCacheService', () => {
       expect(health.message).toContain('無効');
     });
   });
+  describe('ヒット率の推移', () => {
+    const today = new Date().toISOString().slice(0, 10);
+
+    it('DynamoDB を使う構成では参照回数をモデルに記録する', async () => {
+      const model = new TranslationCacheModel() as jest.Mocked<TranslationCacheModel>;
+      model.get = jest.fn().mockResolvedValue(null);
+      model.recordAccess = jest.fn().mockResolvedValue(undefined);
+      const dynamoCacheService = new TranslationCacheService({ tiers: ['dynamodb'], cacheModel: model });
+
+      await dynamoCacheService.get('Hello', 'en', 'ja');
+      dynamoCacheService.stopPeriodicCleanup();
+
+      expect(model.recordAccess).toHaveBeenCalledWith(
+        today,
+        [{ sourceLanguage: 'en', targetLanguage: 'ja', hits: 0, misses: 1 }],
+        expect.any(Number)
+      );
+    });
+
+    it('無効な期間や92日を超える期間はエラーになる', async () => {
+      await expect(cacheService.getStatistics({ from: '2024-02-01', to: '2024-01-01' }))
+        .rejects.toMatchObject({ code: 'INVALID_CACHE_STATISTICS_PERIOD' });
+      await expect(cacheService.getStatistics({ from: '2024-01-01', to: '2024-06-30' }))
+        .rejects.toMatchObject({ code: 'INVALID_CACHE_STATISTICS_PERIOD' });
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,543 @@
+import { TranslationCacheService } from '../translationCacheService';
+import { MemoryCacheTier, RedisCacheTier, RedisCacheClient } from '../translationCacheTiers';
+import { createCacheEntry, TranslationCacheModel } from '../../models/translationCache';
+import { translationGlossaryService } from '../translationGlossaryService';
+
+jest.mock('../translationGlossaryService');
+
+const mockGlossaryService = translationGlossaryService as jest.Mocked<typeof translationGlossaryService>;
+
+/**
+ * テスト用のインメモリ Redis クライアント
+ */
+function createFakeRedisClient(): RedisCacheClient & { store: Map<string, string> } {
+  const store = new Map<string, string>();
+
+  return {
+    store,
+    isReady: true,
+    connect: jest.fn().mockResolvedValue(undefined),
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    mGet: jest.fn(async (keys: string[]) => keys.map(key => store.get(key) ?? null)),
+    set: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    }),
+    del: jest.fn(async (keys: string | string[]) => {
+      const targets = Array.isArray(keys) ? keys : [keys];
+      return targets.filter(key => store.delete(key)).length;
+    }),
+    scanIterator: async function* () {
+      yield* Array.from(store.keys());
+    },
+    quit: jest.fn().mockResolvedValue('OK'),
+    on: jest.fn()
+  };
+}
+
+describe('RedisCacheTier', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('接続に失敗した場合は待機してから次の参照で接続し直す', async () => {
+    const client = { ...createFakeRedisClient(), isReady: false };
+    (client.connect as jest.Mock).mockRejectedValue(new Error('ECONNREFUSED'));
+    const tier = new RedisCacheTier(300, { client });
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    expect(await tier.get('hash')).toBeNull();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(client.connect).toHaveBeenCalledTimes(1);
+
+    // 待機時間内は接続し直さない
+    expect(await tier.get('hash')).toBeNull();
+    expect(client.connect).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_000_000 + 1000);
+    await tier.get('hash');
+    expect(client.connect).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('MemoryCacheTier', () => {
+  it('上限を超えると最も長く参照されていないエントリから削除する', async () => {
+    const tier = new MemoryCacheTier(2, 300);
+    await tier.set(createCacheEntry('one', '一', 'en', 'ja', 0.9, 0.9, 3600));
+    await tier.set(createCacheEntry('two', '二', 'en', 'ja', 0.9, 0.9, 3600));
+
+    const first = createCacheEntry('one', '一', 'en', 'ja', 0.9, 0.9, 3600);
+    expect(await tier.get(first.contentHash)).not.toBeNull();
+
+    await tier.set(createCacheEntry('three', '三', 'en', 'ja', 0.9, 0.9, 3600));
+
+    expect(tier.size()).toBe(2);
+    expect(await tier.get(first.contentHash)).not.toBeNull();
+    expect(await tier.get(createCacheEntry('two', '二', 'en', 'ja', 0.9, 0.9, 3600).contentHash)).toBeNull();
+  });
+
+  it('エントリの有効期限を過ぎたものは保持しない', async () => {
+    const tier = new MemoryCacheTier(10, 300);
+    const entry = createCacheEntry('old', '古い', 'en', 'ja', 0.9, 0.9, 3600);
+    entry.expiresAt = Math.floor(Date.now() / 1000) - 1;
+
+    await tier.set(entry);
+
+    expect(await tier.get(entry.contentHash)).toBeNull();
+  });
+});
+
+describe('TranslationCacheService（階層キャッシュ）', () => {
+  beforeEach(() => {
+    mockGlossaryService.getGlossary.mockResolvedValue({ terms: [] });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('プロセス内キャッシュのみの構成', () => {
+    let cacheService: TranslationCacheService;
+
+    beforeEach(() => {
+      cacheService = new TranslationCacheService({ tiers: ['memory'] });
+    });
+
+    afterEach(async () => {
+      await cacheService.close();
+    });
+
+    it('AWS を使わずに保存・取得できる', async () => {
+      await cacheService.put('Hello', 'こんにちは', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+
+      const result = await cacheService.get('Hello', 'en', 'ja');
+
+      expect(result.fromCache).toBe(true);
+      expect(result.entry?.translatedText).toBe('こんにちは');
+      expect(cacheService.getConfig().tiers).toEqual(['memory']);
+    });
+
+    it('人が修正したエントリは機械翻訳で上書きしない', async () => {
+      const put = await cacheService.put('Hello', 'こんにちは', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+      await cacheService.applyCorrection(put.entry!.contentHash, {
+        originalText: 'Hello',
+        translatedText: 'やあ',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja',
+        correctionId: 'correction-1',
+        correctedAt: new Date().toISOString()
+      });
+
+      await cacheService.put('Hello', 'こんにちは', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+      const result = await cacheService.get('Hello', 'en', 'ja');
+
+      expect(result.entry?.translatedText).toBe('やあ');
+      expect(result.entry?.correctionId).toBe('correction-1');
+    });
+
+    it('階層ごとのヒット・ミスを統計に含める', async () => {
+      await cacheService.get('Hello', 'en', 'ja');
+      await cacheService.put('Hello', 'こんにちは', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+      await cacheService.get('Hello', 'en', 'ja');
+
+      const statistics = await cacheService.getStatistics();
+
+      expect(statistics.totalEntries).toBe(1);
+      expect(statistics.hitCount).toBe(1);
+      expect(statistics.missCount).toBe(1);
+      expect(statistics.hitRate).toBe(0.5);
+      expect(statistics.tiers?.memory).toEqual(expect.objectContaining({ enabled: true, hits: 1, misses: 1, entries: 1 }));
+      expect(statistics.tiers?.redis?.enabled).toBe(false);
+      expect(statistics.tiers?.dynamodb?.enabled).toBe(false);
+    });
+
+    it('保存済みかの確認はヒット・ミスに含めない', async () => {
+      await cacheService.put('Hello', 'こんにちは', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+
+      const cached = await cacheService.findCached([
+        { originalText: 'Hello', sourceLanguage: 'en', targetLanguage: 'ja' },
+        { originalText: 'Hello', sourceLanguage: 'en', targetLanguage: 'ko' }
+      ]);
+
+      expect(cached).toEqual([true, false]);
+      const statistics = await cacheService.getStatistics();
+      expect(statistics.hitCount).toBe(0);
+      expect(statistics.missCount).toBe(0);
+    });
+
+    it('dryRun の削除は件数だけを返し、エントリを残す', async () => {
+      await cacheService.put('Hello', 'こんにちは', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+      await cacheService.put('Bye', 'さようなら', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+
+      const entry = await cacheService.delete('Hello', 'en', 'ja', true);
+      const all = await cacheService.clearAll(true);
+
+      expect(entry).toEqual(expect.objectContaining({ affectedCount: 1 }));
+      expect(entry.entry?.translatedText).toBe('こんにちは');
+      expect(all.affectedCount).toBe(2);
+      expect((await cacheService.get('Hello', 'en', 'ja')).fromCache).toBe(true);
+
+      expect((await cacheService.delete('Hello', 'en', 'ja')).affectedCount).toBe(1);
+      expect((await cacheService.delete('Hello', 'en', 'ja')).affectedCount).toBe(0);
+      expect((await cacheService.clearAll()).affectedCount).toBe(1);
+    });
+
+    it('用語集が適用される言語ペアのエントリも削除できる', async () => {
+      mockGlossaryService.getGlossary.mockResolvedValue({ terms: [{ term: 'Lambda', caseSensitive: true }], version: 'glossary-v1' });
+      const put = await cacheService.put('Lambda function', 'Lambda 関数', 'en', 'ja', 0.9, undefined, 'glossary-v1', 0.9);
+
+      const dryRun = await cacheService.delete('Lambda function', 'en', 'ja', true);
+      const result = await cacheService.delete('Lambda function', 'en', 'ja');
+
+      expect(dryRun).toEqual(expect.objectContaining({ affectedCount: 1, contentHash: put.entry!.contentHash }));
+      expect(result).toEqual(expect.objectContaining({ affectedCount: 1, contentHash: put.entry!.contentHash }));
+      expect((await cacheService.get('Lambda function', 'en', 'ja', 'glossary-v1')).fromCache).toBe(false);
+    });
+
+    describe('エントリの検索と一括削除', () => {
+      beforeEach(async () => {
+        await cacheService.put('Lambda function', 'ラムダ関数', 'en', 'ja', 0.9, undefined, undefined, 0.75);
+        await cacheService.put('Lambda layer', 'Lambda レイヤー', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+        await cacheService.put('Lambda function', 'Lambda 함수', 'en', 'ko', 0.9, undefined, undefined, 0.9);
+      });
+
+      it('条件に一致するエントリをカーソルでページングして返す', async () => {
+        const first = await cacheService.listEntries({ text: 'lambda' }, 2);
+        const second = await cacheService.listEntries({ text: 'lambda' }, 2, first.nextCursor);
+
+        expect(first.entries).toHaveLength(2);
+        expect(first.nextCursor).toBeDefined();
+        expect(second.entries).toHaveLength(1);
+        expect(second.nextCursor).toBeUndefined();
+        expect(new Set([...first.entries, ...second.entries].map(entry => entry.contentHash)).size).toBe(3);
+
+        const lowQuality = await cacheService.listEntries({ sourceLanguage: 'en', targetLanguage: 'ja', maxQualityScore: 0.8 });
+        expect(lowQuality.entries.map(entry => entry.translatedText)).toEqual(['ラムダ関数']);
+      });
+
+      it('無効な条件はエラーになる', async () => {
+        await expect(cacheService.listEntries({ from: '2024-02-01', to: '2024-01-01' }))
+          .rejects.toMatchObject({ code: 'INVALID_CACHE_ENTRY_FILTER' });
+        await expect(cacheService.listEntries({ minHitCount: -1 }))
+          .rejects.toMatchObject({ code: 'INVALID_CACHE_ENTRY_FILTER' });
+        await expect(cacheService.listEntries({}, 10, 'not-a-cursor'))
+          .rejects.toMatchObject({ code: 'INVALID_CACHE_ENTRY_FILTER' });
+      });
+
+      it('削除したエントリを復元し、保存し直されたエントリは上書きしない', async () => {
+        const { entries } = await cacheService.listEntries({ text: 'function' });
+
+        expect(await cacheService.deleteEntries(entries.map(entry => entry.contentHash))).toBe(2);
+        expect((await cacheService.get('Lambda function', 'en', 'ja')).fromCache).toBe(false);
+
+        await cacheService.put('Lambda function', 'Lambda 関数', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+
+        expect(await cacheService.restoreEntries(entries)).toBe(1);
+        expect((await cacheService.get('Lambda function', 'en', 'ja')).entry?.translatedText).toBe('Lambda 関数');
+        expect((await cacheService.get('Lambda function', 'en', 'ko')).entry?.translatedText).toBe('Lambda 함수');
+      });
+    });
+
+    it('表記の揺れだけが異なるテキストは同じエントリを返す', async () => {
+      await cacheService.put('Deploy the stack.', 'スタックをデプロイします。', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+
+      const result = await cacheService.get('Deploy  the stack. \r\n', 'en', 'ja');
+
+      expect(result.fromCache).toBe(true);
+      expect(result.entry?.translatedText).toBe('スタックをデプロイします。');
+    });
+
+    describe('エントリの取り込み', () => {
+      const imported = (translatedText: string, qualityScore?: number) =>
+        createCacheEntry('Lambda function', translatedText, 'en', 'ja', 0.9, qualityScore, 3600);
+
+      beforeEach(async () => {
+        await cacheService.put('Lambda function', 'ラムダ関数', 'en', 'ja', 0.9, undefined, undefined, 0.8);
+      });
+
+      it('競合時の扱いに従って既存のエントリを残すか上書きする', async () => {
+        expect(await cacheService.importEntries([imported('Lambda 関数', 0.9)], 'skip')).toEqual(['skipped']);
+        expect(await cacheService.importEntries([imported('Lambda 関数', 0.75)], 'keep-higher-quality')).toEqual(['skipped']);
+        expect((await cacheService.get('Lambda function', 'en', 'ja')).entry?.translatedText).toBe('ラムダ関数');
+
+        expect(await cacheService.importEntries([imported('Lambda 関数', 0.9)], 'keep-higher-quality')).toEqual(['overwritten']);
+        expect((await cacheService.get('Lambda function', 'en', 'ja')).entry?.translatedText).toBe('Lambda 関数');
+
+        expect(await cacheService.importEntries([imported('Lambda の関数', 0.5)], 'overwrite')).toEqual(['overwritten']);
+        expect((await cacheService.get('Lambda function', 'en', 'ja')).entry?.translatedText).toBe('Lambda の関数');
+      });
+
+      it('dryRun では保存せずに結果だけを返す', async () => {
+        const entries = [imported('Lambda 関数', 0.9), createCacheEntry('Lambda layer', 'Lambda レイヤー', 'en', 'ja', 0.9, 0.9, 3600)];
+
+        expect(await cacheService.importEntries(entries, 'overwrite', true)).toEqual(['overwritten', 'created']);
+        expect((await cacheService.get('Lambda function', 'en', 'ja')).entry?.translatedText).toBe('ラムダ関数');
+        expect((await cacheService.get('Lambda layer', 'en', 'ja')).fromCache).toBe(false);
+      });
+    });
+
+    describe('ヒット率の推移', () => {
+      const today = new Date().toISOString().slice(0, 10);
+
+      it('言語ペア別のヒット・ミスを日別に集計する', async () => {
+        await cacheService.get('Hello', 'en', 'ja');
+        await cacheService.put('Hello', 'こんにちは', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+        await cacheService.get('Hello', 'en', 'ja');
+        await cacheService.getMany([
+          { originalText: 'Hello', sourceLanguage: 'en', targetLanguage: 'ja' },
+          { originalText: 'Hello', sourceLanguage: 'en', targetLanguage: 'zh-TW' }
+        ]);
+
+        const { timeSeries } = await cacheService.getStatistics({ from: today, to: today });
+
+        expect(timeSeries?.totals).toEqual({ hitCount: 2, missCount: 2, hitRate: 0.5 });
+        expect(timeSeries?.daily).toEqual([{ date: today, hitCount: 2, missCount: 2, hitRate: 0.5 }]);
+        expect(timeSeries?.byLanguagePair['en-ja']).toEqual({ hitCount: 2, missCount: 1, hitRate: 2 / 3 });
+        expect(timeSeries?.byLanguagePair['en-zh-TW']).toEqual({ hitCount: 0, missCount: 1, hitRate: 0 });
+      });
+
+      it('言語ペアで絞り込める', async () => {
+        await cacheService.get('Hello', 'en', 'ja');
+        await cacheService.get('Hello', 'en', 'zh-TW');
+
+        const { timeSeries } = await cacheService.getStatistics({ targetLanguage: 'zh-TW' });
+
+        expect(timeSeries?.daily).toHaveLength(7);
+        expect(timeSeries?.to).toBe(today);
+        expect(timeSeries?.totals.missCount).toBe(1);
+        expect(Object.keys(timeSeries?.byLanguagePair || {})).toEqual(['en-zh-TW']);
+      });
+    });
+  });
+
+  describe('TTL ポリシー', () => {
+    const now = () => Math.floor(Date.now() / 1000);
+    let cacheModel: jest.Mocked<Pick<
+      TranslationCacheModel,
+      'get' | 'getMany' | 'getByHash' | 'put' | 'refresh' | 'extendExpiry' | 'recordAccess'
+    >>;
+    let cacheService: TranslationCacheService;
+
+    beforeEach(() => {
+      cacheModel = {
+        get: jest.fn(),
+        getMany: jest.fn().mockResolvedValue(new Map()),
+        getByHash: jest.fn().mockResolvedValue(null),
+        put: jest.fn(async (...args: Parameters<TranslationCacheModel['put']>) =>
+          createCacheEntry(args[0], args[1], args[2], args[3], args[4], args[5], args[6]!, args[7])
+        ),
+        refresh: jest.fn(async (...args: Parameters<TranslationCacheModel['refresh']>) =>
+          createCacheEntry(args[0], args[1], args[2], args[3], args[4], args[5], args[6]!, args[7])
+        ),
+        extendExpiry: jest.fn(async (entry, expiresAt) => {
+          entry.expiresAt = expiresAt;
+        }),
+        recordAccess: jest.fn().mockResolvedValue(undefined)
+      };
+      cacheService = new TranslationCacheService({
+        tiers: ['dynamodb'],
+        cacheModel: cacheModel as unknown as TranslationCacheModel
+      });
+    });
+
+    afterEach(async () => {
+      await cacheService.close();
+    });
+
+    it('品質スコアに応じた TTL で保存する', async () => {
+      const memoryService = new TranslationCacheService({ tiers: ['memory'] });
+
+      const high = await memoryService.put('Hello', 'こんにちは', 'en', 'ja', 0.9, undefined, undefined, 0.95);
+      const low = await memoryService.put('Bye', 'さようなら', 'en', 'ja', 0.9, undefined, undefined, 0.75);
+      await memoryService.close();
+
+      expect(high.entry!.expiresAt! - now()).toBeGreaterThan(86400 * 2 - 10);
+      expect(low.entry!.expiresAt! - now()).toBeLessThanOrEqual(86400 / 2);
+      expect(memoryService.getConfig().ttlPolicy.mode).toBe('adaptive');
+    });
+
+    it('期限切れでも stale-while-revalidate の期間内のエントリは stale として返す', async () => {
+      const entry = createCacheEntry('Hello', 'こんにちは', 'en', 'ja', 0.9, 0.9, 3600);
+      entry.createdAt = new Date(Date.now() - 3 * 86400 * 1000).toISOString();
+      entry.expiresAt = now() - 60;
+      cacheModel.get.mockResolvedValue(entry);
+
+      const result = await cacheService.get('Hello', 'en', 'ja');
+
+      expect(result).toEqual(expect.objectContaining({ fromCache: true, stale: true }));
+      expect(cacheModel.get).toHaveBeenCalledWith('Hello', 'en', 'ja', undefined, true);
+      expect(cacheModel.extendExpiry).not.toHaveBeenCalled();
+    });
+
+    it('stale-while-revalidate の期間を過ぎたエントリはミスとして扱う', async () => {
+      const entry = createCacheEntry('Hello', 'こんにちは', 'en', 'ja', 0.9, 0.9, 3600);
+      entry.createdAt = new Date(Date.now() - 4 * 86400 * 1000).toISOString();
+      entry.expiresAt = now() - 86400 * 2;
+      cacheModel.get.mockResolvedValue(entry);
+
+      const result = await cacheService.get('Hello', 'en', 'ja');
+
+      expect(result.fromCache).toBe(false);
+      expect(result.stale).toBeUndefined();
+    });
+
+    it('既存のエントリはヒット数を残して更新し、翻訳し直した日時から残したヒット数の TTL まで延長する', async () => {
+      const existing = createCacheEntry('Hello', 'こんにちは！', 'en', 'ja', 0.9, 0.95, 86400 * 2);
+      const createdAt = new Date(Date.now() - 10 * 86400 * 1000).toISOString();
+      cacheModel.refresh.mockResolvedValueOnce({ ...existing, createdAt, translatedAt: existing.createdAt, hitCount: 12 });
+
+      await cacheService.put('Hello', 'こんにちは！', 'en', 'ja', 0.9, undefined, undefined, 0.95);
+
+      // 事前に読み取らず1回の条件付き更新で保存する
+      expect(cacheModel.getByHash).not.toHaveBeenCalled();
+      expect(cacheModel.put).not.toHaveBeenCalled();
+      expect(cacheModel.refresh).toHaveBeenCalledWith('Hello', 'こんにちは！', 'en', 'ja', 0.9, 0.95, 86400 * 2, undefined);
+      expect(cacheModel.extendExpiry).toHaveBeenCalledWith(
+        expect.objectContaining({ hitCount: 12, createdAt }),
+        Math.floor(Date.parse(existing.createdAt) / 1000) + 86400 * 4
+      );
+    });
+
+    it('新しいエントリは1回の更新で作成し、ヒット数0として TTL を決める', async () => {
+      await cacheService.put('Hello', 'こんにちは', 'en', 'ja', 0.9, undefined, undefined, 0.95);
+
+      expect(cacheModel.getByHash).not.toHaveBeenCalled();
+      expect(cacheModel.put).not.toHaveBeenCalled();
+      expect(cacheModel.refresh).toHaveBeenCalledWith('Hello', 'こんにちは', 'en', 'ja', 0.9, 0.95, 86400 * 2, undefined);
+      expect(cacheModel.extendExpiry).not.toHaveBeenCalled();
+    });
+
+    it('ヒット数が閾値を超えたエントリの有効期限を作成日時から延長する', async () => {
+      const entry = createCacheEntry('Hello', 'こんにちは', 'en', 'ja', 0.9, 0.9, 86400 * 2);
+      const createdAt = Math.floor(Date.parse(entry.createdAt) / 1000);
+      cacheModel.get.mockResolvedValueOnce({ ...entry, hitCount: 3 });
+      cacheModel.get.mockResolvedValueOnce({ ...entry, hitCount: 10 });
+
+      await cacheService.get('Hello', 'en', 'ja');
+      expect(cacheModel.extendExpiry).not.toHaveBeenCalled();
+
+      const result = await cacheService.get('Hello', 'en', 'ja');
+      expect(cacheModel.extendExpiry).toHaveBeenCalledWith(expect.objectContaining({ hitCount: 10 }), createdAt + 86400 * 4);
+      expect(result.entry?.expiresAt).toBe(createdAt + 86400 * 4);
+    });
+  });
+
+  describe('DynamoDB より手前の階層でのヒット', () => {
+    let cacheModel: jest.Mocked<Pick<TranslationCacheModel, 'get' | 'getMany' | 'addHitCounts' | 'extendExpiry' | 'recordAccess'>>;
+    let cacheService: TranslationCacheService;
+
+    beforeEach(() => {
+      cacheModel = {
+        get: jest.fn(),
+        getMany: jest.fn().mockResolvedValue(new Map()),
+        addHitCounts: jest.fn().mockResolvedValue([]),
+        extendExpiry: jest.fn().mockResolvedValue(undefined),
+        recordAccess: jest.fn().mockResolvedValue(undefined)
+      };
+      cacheService = new TranslationCacheService({
+        tiers: ['memory', 'dynamodb'],
+        cacheModel: cacheModel as unknown as TranslationCacheModel
+      });
+    });
+
+    afterEach(async () => {
+      await cacheService.close();
+    });
+
+    it('プロセス内キャッシュでのヒットをまとめて DynamoDB のヒット数に加算する', async () => {
+      const entry = createCacheEntry('Hello', 'こんにちは', 'en', 'ja', 0.9, 0.9, 86400);
+      cacheModel.get.mockResolvedValue(entry);
+
+      await cacheService.get('Hello', 'en', 'ja');
+      await cacheService.get('Hello', 'en', 'ja');
+      await cacheService.getMany([{ originalText: 'Hello', sourceLanguage: 'en', targetLanguage: 'ja' }]);
+      expect(cacheModel.get).toHaveBeenCalledTimes(1);
+      expect(cacheModel.addHitCounts).not.toHaveBeenCalled();
+
+      await cacheService.close();
+
+      expect(cacheModel.addHitCounts).toHaveBeenCalledTimes(1);
+      expect(cacheModel.addHitCounts).toHaveBeenCalledWith([
+        expect.objectContaining({ entry: expect.objectContaining({ contentHash: entry.contentHash }), count: 2 })
+      ]);
+    });
+
+    it('加算後のヒット数で TTL が長くなったエントリの有効期限を延長する', async () => {
+      const entry = createCacheEntry('Hello', 'こんにちは', 'en', 'ja', 0.9, 0.9, 86400 * 2);
+      const createdAt = Math.floor(Date.parse(entry.createdAt) / 1000);
+      cacheModel.get.mockResolvedValue(entry);
+      cacheModel.addHitCounts.mockResolvedValue([{ ...entry, hitCount: 10 }]);
+
+      await cacheService.get('Hello', 'en', 'ja');
+      await cacheService.get('Hello', 'en', 'ja');
+      await cacheService.close();
+
+      expect(cacheModel.extendExpiry).toHaveBeenCalledWith(expect.objectContaining({ hitCount: 10 }), createdAt + 86400 * 4);
+    });
+  });
+
+  describe('Redis を含む構成', () => {
+    let redisClient: ReturnType<typeof createFakeRedisClient>;
+    let cacheService: TranslationCacheService;
+
+    beforeEach(() => {
+      redisClient = createFakeRedisClient();
+      cacheService = new TranslationCacheService({ tiers: ['memory', 'redis'], redisClient });
+    });
+
+    afterEach(async () => {
+      await cacheService.close();
+    });
+
+    it('保存はすべての階層に書き込む', async () => {
+      const result = await cacheService.put('Hello', 'こんにちは', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+
+      expect(redisClient.store.has(`translation-cache:${result.entry!.contentHash}`)).toBe(true);
+      expect(redisClient.set).toHaveBeenCalledWith(
+        `translation-cache:${result.entry!.contentHash}`,
+        expect.any(String),
+        { EX: 3600 }
+      );
+    });
+
+    it('Redis でヒットしたエントリをプロセス内キャッシュに昇格する', async () => {
+      const entry = createCacheEntry('Hello', 'こんにちは', 'en', 'ja', 0.9, 0.9, 3600);
+      redisClient.store.set(`translation-cache:${entry.contentHash}`, JSON.stringify(entry));
+
+      const first = await cacheService.get('Hello', 'en', 'ja');
+      const second = await cacheService.get('Hello', 'en', 'ja');
+
+      expect(first.entry?.translatedText).toBe('こんにちは');
+      expect(second.fromCache).toBe(true);
+      expect(redisClient.get).toHaveBeenCalledTimes(1);
+
+      const { tiers } = await cacheService.getStatistics();
+      expect(tiers?.memory).toEqual(expect.objectContaining({ hits: 1, misses: 1 }));
+      expect(tiers?.redis).toEqual(expect.objectContaining({ hits: 1, misses: 0 }));
+    });
+
+    it('Redis のエラーはミスとして扱い、エラー数を記録する', async () => {
+      (redisClient.get as jest.Mock).mockRejectedValueOnce(new Error('connection lost'));
+
+      const result = await cacheService.get('Hello', 'en', 'ja');
+
+      expect(result.success).toBe(true);
+      expect(result.fromCache).toBe(false);
+      const { tiers } = await cacheService.getStatistics();
+      expect(tiers?.redis?.errors).toBe(1);
+    });
+
+    it('削除と全件削除はすべての階層に反映する', async () => {
+      await cacheService.put('Hello', 'こんにちは', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+      await cacheService.put('Bye', 'さようなら', 'en', 'ja', 0.9, undefined, undefined, 0.9);
+
+      await cacheService.delete('Hello', 'en', 'ja');
+      expect((await cacheService.get('Hello', 'en', 'ja')).fromCache).toBe(false);
+      expect(redisClient.store.size).toBe(1);
+
+      await cacheService.clearAll();
+      expect((await cacheService.get('Bye', 'en', 'ja')).fromCache).toBe(false);
+      expect(redisClient.store.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { TranslationCacheTransferService } from '../translationCacheTransferService';
+import { createCacheEntry } from '../../models/translationCache';
+import { translationCacheService } from '../translationCacheService';
+import { generateContentHash } from '../../utils/translationUtils';
+
+jest.mock('../translationCacheService');
+
+const mockCacheService = translationCacheService as jest.Mocked<typeof translationCacheService>;
+
+const ENTRIES = [
+  createCacheEntry('Lambda function', 'ラムダ関数', 'en', 'ja', 0.9, 0.8, 3600),
+  createCacheEntry('Lambda layer', 'Lambda レイヤー', 'en', 'ja', 0.9, 0.9, 3600, 'v2'),
+  createCacheEntry('Amazon S3 bucket', 'Amazon S3 バケット', 'en', 'ja', 0.9, 0.9, 3600)
+];
+
+/**
+ * 行の配列を取り込み用の非同期イテレーターにする
+ */
+async function* toLines(lines: string[]): AsyncGenerator<string> {
+  yield* lines;
+}
+
+describe('TranslationCacheTransferService', () => {
+  let transferService: TranslationCacheTransferService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transferService = new TranslationCacheTransferService();
+  });
+
+  describe('exportEntries', () => {
+    it('すべてのページのエントリを1行1件の JSON で書き出す', async () => {
+      mockCacheService.listEntries
+        .mockResolvedValueOnce({ entries: ENTRIES.slice(0, 2), nextCursor: 'next' })
+        .mockResolvedValueOnce({ entries: ENTRIES.slice(2) });
+      const lines: string[] = [];
+
+      const exportedCount = await transferService.exportEntries(
+        { sourceLanguage: 'en', targetLanguage: 'ja', from: '2024-01-01' },
+        line => {
+          lines.push(line);
+        }
+      );
+
+      expect(exportedCount).toBe(3);
+      expect(lines.map(line => JSON.parse(line))).toEqual(ENTRIES);
+      expect(lines.every(line => line.endsWith('\n'))).toBe(true);
+      expect(mockCacheService.listEntries).toHaveBeenLastCalledWith(
+        { sourceLanguage: 'en', targetLanguage: 'ja', from: '2024-01-01' },
+        100,
+        'next'
+      );
+    });
+  });
+
+  describe('importEntries', () => {
+    beforeEach(() => {
+      mockCacheService.importEntries.mockImplementation(async entries => entries.map(() => 'created' as const));
+    });
+
+    it('書き出したエントリを取り込み、結果を集計する', async () => {
+      mockCacheService.importEntries.mockResolvedValueOnce(['created', 'overwritten', 'skipped']);
+
+      const result = await transferService.importEntries(
+        toLines([...ENTRIES.map(entry => JSON.stringify(entry)), '']),
+        { conflictPolicy: 'keep-higher-quality' }
+      );
+
+      expect(result).toEqual(expect.objectContaining({
+        total: 3,
+        created: 1,
+        overwritten: 1,
+        skipped: 1,
+        invalid: 0,
+        dryRun: false
+      }));
+      expect(mockCacheService.importEntries).toHaveBeenCalledWith(ENTRIES, 'keep-higher-quality', false);
+    });
+
+    it('contentHash が一致しない行や不正な行は取り込まない', async () => {
+      const tampered = { ...ENTRIES[0]!, originalText: 'Lambda functions' };
+      const expired = { ...ENTRIES[1]!, expiresAt: Math.floor(Date.now() / 1000) - 60 };
+      const withoutHitCount: Partial<typeof ENTRIES[number]> = { ...ENTRIES[2]! };
+      delete withoutHitCount.hitCount;
+
+      const result = await transferService.importEntries(
+        toLines([JSON.stringify(tampered), '{not json', JSON.stringify(withoutHitCount), JSON.stringify(expired)]),
+        { conflictPolicy: 'skip' }
+      );
+
+      expect(result).toEqual(expect.objectContaining({ total: 4, created: 0, expired: 1, invalid: 3 }));
+      expect(result.errors.map(error => error.line)).toEqual([1, 2, 3]);
+      expect(result.errors[0]!.reason).toContain('contentHash');
+      expect(mockCacheService.importEntries).not.toHaveBeenCalled();
+    });
+
+    it('エントリ以外の項目は取り込まない', async () => {
+      await transferService.importEntries(
+        toLines([JSON.stringify({ ...ENTRIES[0], entryType: 'entry', languagePair: 'en#ja' })]),
+        { conflictPolicy: 'skip', dryRun: true }
+      );
+
+      expect(mockCacheService.importEntries).toHaveBeenCalledWith([ENTRIES[0]], 'skip', true);
+    });
+
+    it('正規化を導入する前に書き出したエントリは正規化後の contentHash で取り込む', async () => {
+      const legacy = {
+        ...ENTRIES[0]!,
+        originalText: 'Lambda function ',
+        contentHash: generateContentHash('Lambda function ', 'en', 'ja', undefined, { normalize: false })
+      };
+
+      const result = await transferService.importEntries(toLines([JSON.stringify(legacy)]), { conflictPolicy: 'skip' });
+
+      expect(result.invalid).toBe(0);
+      expect(mockCacheService.importEntries).toHaveBeenCalledWith(
+        [expect.objectContaining({ originalText: 'Lambda function ', contentHash: ENTRIES[0]!.contentHash })],
+        'skip',
+        false
+      );
+    });
+
+    it('不明な競合時の扱いはエラーになる', async () => {
+      await expect(transferService.importEntries(toLines([]), { conflictPolicy: 'merge' as any }))
+        .rejects.toMatchObject({ code: 'INVALID_CACHE_IMPORT_REQUEST' });
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { loadCacheTtlPolicy, resolveCacheTtl, CacheTtlPolicy } from '../translationCacheTtlPolicy';
+
+const POLICY: CacheTtlPolicy = {
+  mode: 'adaptive',
+  maxTtl: 864000,
+  qualityTiers: [
+    { minQualityScore: 0.9, multiplier: 2 },
+    { minQualityScore: 0.8, multiplier: 1 },
+    { minQualityScore: 0, multiplier: 0.5 }
+  ],
+  hitCountTiers: [
+    { minHitCount: 100, multiplier: 7 },
+    { minHitCount: 10, multiplier: 2 }
+  ],
+  staleWhileRevalidate: 3600
+};
+
+describe('translationCacheTtlPolicy', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('loadCacheTtlPolicy', () => {
+    it('環境変数の倍率を閾値の高い順に並べ、不正な項目は無視する', () => {
+      process.env.TRANSLATION_CACHE_TTL_POLICY = 'fixed';
+      process.env.TRANSLATION_CACHE_TTL_HIT_COUNT_TIERS = '5:1.5, 50:3, abc, 20:-1';
+      process.env.TRANSLATION_CACHE_STALE_WHILE_REVALIDATE = '0';
+
+      const policy = loadCacheTtlPolicy();
+
+      expect(policy.mode).toBe('fixed');
+      expect(policy.hitCountTiers).toEqual([
+        { minHitCount: 50, multiplier: 3 },
+        { minHitCount: 5, multiplier: 1.5 }
+      ]);
+      expect(policy.qualityTiers[0]).toEqual({ minQualityScore: 0.9, multiplier: 2 });
+      expect(policy.staleWhileRevalidate).toBe(0);
+    });
+  });
+
+  describe('resolveCacheTtl', () => {
+    it('品質スコアとヒット数の倍率をかける', () => {
+      expect(resolveCacheTtl(POLICY, 86400, { qualityScore: 0.95, hitCount: 0 })).toBe(172800);
+      expect(resolveCacheTtl(POLICY, 86400, { qualityScore: 0.85, hitCount: 12 })).toBe(172800);
+      expect(resolveCacheTtl(POLICY, 86400, { qualityScore: 0.75, hitCount: 0 })).toBe(43200);
+      expect(resolveCacheTtl(POLICY, 86400, { hitCount: 0 })).toBe(86400);
+    });
+
+    it('上限を超えない', () => {
+      expect(resolveCacheTtl(POLICY, 86400, { qualityScore: 0.95, hitCount: 150 })).toBe(864000);
+    });
+
+    it('fixed の場合は倍率をかけず、人が修正したエントリは期限なし', () => {
+      expect(resolveCacheTtl({ ...POLICY, mode: 'fixed' }, 86400, { qualityScore: 0.95, hitCount: 150 })).toBe(86400);
+      expect(resolveCacheTtl(POLICY, 86400, { qualityScore: 0.95, hitCount: 0, correctedAt: '2024-01-01T00:00:00.000Z' }))
+        .toBeUndefined();
+    });
+  });
+});
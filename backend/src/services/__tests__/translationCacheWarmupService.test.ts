@@ -0,0 +1,165 @@
+import { TranslationCacheWarmupService } from '../translationCacheWarmupService';
+import { PostModel, PopularPost } from '../../models/post';
+import { createCacheEntry } from '../../models/translationCache';
+import { translationService } from '../translationService';
+import { translationCacheService } from '../translationCacheService';
+import { translationGlossaryService } from '../translationGlossaryService';
+import { languageRegistry } from '../languageRegistry';
+import { calculateTranslationCost } from '../../config/translation';
+
+jest.mock('../../models/post');
+jest.mock('../translationService');
+jest.mock('../translationCacheService');
+jest.mock('../translationGlossaryService');
+jest.mock('../languageRegistry');
+
+const mockTranslationService = translationService as jest.Mocked<typeof translationService>;
+const mockCacheService = translationCacheService as jest.Mocked<typeof translationCacheService>;
+const mockGlossaryService = translationGlossaryService as jest.Mocked<typeof translationGlossaryService>;
+const mockLanguageRegistry = languageRegistry as jest.Mocked<typeof languageRegistry>;
+
+const ENABLED_LANGUAGES = ['ja', 'en', 'ko'] as const;
+
+const createPost = (overrides: Partial<PopularPost> = {}): PopularPost => ({
+  id: 'post-1',
+  categoryId: 'category-compute',
+  title: 'Lambdaの使い方',
+  content: 'Lambdaでサーバーレスアプリを作ります',
+  originalLanguage: 'ja',
+  viewCount: 100,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+/**
+ * ウォームアップが終了するまで待つ
+ */
+const waitForFinish = async (service: TranslationCacheWarmupService, runId: string) => {
+  for (let i = 0; i < 50; i++) {
+    if (service.getRun(runId).status !== 'running') {
+      return;
+    }
+    await new Promise(resolve => setImmediate(resolve));
+  }
+};
+
+describe('TranslationCacheWarmupService', () => {
+  let warmupService: TranslationCacheWarmupService;
+  let mockPostModel: jest.Mocked<PostModel>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    warmupService = new TranslationCacheWarmupService();
+    mockPostModel = (PostModel as jest.MockedClass<typeof PostModel>).mock.instances.slice(-1)[0] as jest.Mocked<PostModel>;
+    mockPostModel.getPopularPosts.mockResolvedValue([createPost()]);
+
+    mockLanguageRegistry.ensureLoaded.mockResolvedValue(undefined);
+    mockLanguageRegistry.getEnabledLanguageCodes.mockReturnValue([...ENABLED_LANGUAGES]);
+    mockLanguageRegistry.isEnabled.mockImplementation((code: unknown): code is any =>
+      (ENABLED_LANGUAGES as readonly unknown[]).includes(code)
+    );
+    mockGlossaryService.getGlossary.mockResolvedValue({ terms: [] });
+    mockCacheService.getHotEntries.mockResolvedValue([
+      createCacheEntry('Hello', 'こんにちは', 'en', 'ja', 0.9, 0.9, 3600)
+    ]);
+    mockCacheService.findCached.mockImplementation(async keys => keys.map(() => false));
+    mockTranslationService.translateText.mockImplementation(async request => ({
+      originalText: request.text,
+      translatedText: `[${request.targetLanguage}] ${request.text}`,
+      sourceLanguage: request.sourceLanguage!,
+      targetLanguage: request.targetLanguage,
+      fromCache: false,
+      processingTime: 1
+    }));
+  });
+
+  describe('estimate', () => {
+    it('人気の投稿とよく参照されるエントリを翻訳元の言語以外のすべての言語で見積もる', async () => {
+      const run = await warmupService.estimate();
+
+      expect(run.status).toBe('estimated');
+      expect(run.sources).toEqual({ posts: 1, cacheEntries: 1, texts: 3, skippedTexts: 0 });
+      // 投稿のタイトル・本文（ja → en, ko）とエントリの原文（en → ja, ko）
+      expect(run.plannedTranslations).toBe(6);
+      expect(mockTranslationService.translateText).not.toHaveBeenCalled();
+    });
+
+    it('キャッシュ済みの翻訳は見積もりに含めない', async () => {
+      mockCacheService.findCached.mockImplementation(async keys =>
+        keys.map(key => key.targetLanguage === 'ko')
+      );
+
+      const run = await warmupService.estimate();
+
+      expect(run.cachedTranslations).toBe(3);
+      expect(run.plannedTranslations).toBe(3);
+      expect(run.targetLanguages).toEqual(['ja', 'en', 'ko']);
+    });
+
+    it('コストの上限を超える翻訳は見送る', async () => {
+      const titleCost = calculateTranslationCost('Lambdaの使い方'.length);
+
+      const run = await warmupService.estimate({ maxCost: titleCost * 2, targetLanguages: ['en', 'ko'] });
+
+      expect(run.plannedTranslations).toBe(2);
+      expect(run.skippedByCostCap).toBe(3);
+      expect(run.estimatedCost).toBeCloseTo(titleCost * 2);
+    });
+
+    it('翻訳元の言語が無効な投稿は対象外として数える', async () => {
+      mockPostModel.getPopularPosts.mockResolvedValue([createPost({ originalLanguage: 'xx' })]);
+
+      const run = await warmupService.estimate({ entryLimit: 0 });
+
+      expect(run.sources.skippedTexts).toBe(2);
+      expect(run.plannedTranslations).toBe(0);
+      expect(mockCacheService.getHotEntries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('start', () => {
+    it('キャッシュにない翻訳を実行し、進捗を更新する', async () => {
+      const run = await warmupService.start({}, 'admin-1');
+
+      expect(run.status).toBe('running');
+      await waitForFinish(warmupService, run.runId);
+
+      const finished = warmupService.getRun(run.runId);
+      expect(finished.status).toBe('completed');
+      expect(finished.progress).toBe(100);
+      expect(finished.completedTranslations).toBe(6);
+      expect(finished.translatedCharacters).toBe(finished.estimatedCharacters);
+      expect(mockTranslationService.translateText).toHaveBeenCalledWith(expect.objectContaining({
+        text: 'Lambdaの使い方',
+        sourceLanguage: 'ja',
+        targetLanguage: 'en',
+        usage: { userId: 'admin-1', route: 'POST /api/translation-cache/warmup' }
+      }));
+    });
+
+    it('失敗した翻訳を数え、すべて失敗した場合は failed にする', async () => {
+      mockTranslationService.translateText.mockRejectedValue(new Error('provider down'));
+
+      const run = await warmupService.start();
+      await waitForFinish(warmupService, run.runId);
+
+      const finished = warmupService.getRun(run.runId);
+      expect(finished.status).toBe('failed');
+      expect(finished.failedTranslations).toBe(6);
+    });
+
+    it('実行中は新しいウォームアップを開始できない', async () => {
+      mockTranslationService.translateText.mockImplementation(() => new Promise(() => undefined));
+
+      await warmupService.start();
+
+      await expect(warmupService.start()).rejects.toMatchObject({ code: 'CACHE_WARMUP_IN_PROGRESS' });
+      await expect(warmupService.start({ dryRun: true })).resolves.toMatchObject({ status: 'estimated' });
+    });
+
+    it('存在しない実行はエラーになる', () => {
+      expect(() => warmupService.getRun('unknown')).toThrow(expect.objectContaining({ code: 'CACHE_WARMUP_NOT_FOUND' }));
+    });
+  });
+});
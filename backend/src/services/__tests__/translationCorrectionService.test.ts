@@ -0,0 +1,181 @@
+import { TranslationCorrectionService } from '../translationCorrectionService';
+import { TranslationCorrectionModel, TranslationCorrection } from '../../models/translationCorrection';
+import { TranslationCacheEntry } from '../../models/translationCache';
+import { translationCacheService } from '../translationCacheService';
+
+// DynamoDB関連のモック
+jest.mock('@aws-sdk/client-dynamodb');
+jest.mock('@aws-sdk/lib-dynamodb');
+jest.mock('../translationCacheService');
+jest.mock('../../models/translationCorrection', () => ({
+  ...jest.requireActual('../../models/translationCorrection'),
+  TranslationCorrectionModel: jest.fn().mockImplementation(() => ({
+    create: jest.fn(async (correction) => correction),
+    get: jest.fn(),
+    listByEntry: jest.fn(async () => []),
+    listByStatus: jest.fn(async () => []),
+    review: jest.fn()
+  }))
+}));
+
+const mockCacheService = translationCacheService as jest.Mocked<typeof translationCacheService>;
+
+const createEntry = (overrides: Partial<TranslationCacheEntry> = {}): TranslationCacheEntry => ({
+  contentHash: 'hash-1',
+  originalText: 'Hello',
+  translatedText: 'ハロー',
+  sourceLanguage: 'en',
+  targetLanguage: 'ja',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  expiresAt: 1704153600,
+  hitCount: 3,
+  lastAccessedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const createCorrection = (overrides: Partial<TranslationCorrection> = {}): TranslationCorrection => ({
+  contentHash: 'hash-1',
+  correctionId: '2024-01-01T12:00:00.000Z_correction-1',
+  status: 'pending',
+  originalText: 'Hello',
+  sourceLanguage: 'en',
+  targetLanguage: 'ja',
+  previousText: 'ハロー',
+  proposedText: 'こんにちは',
+  proposedBy: 'user-1',
+  createdAt: '2024-01-01T12:00:00.000Z',
+  ...overrides
+});
+
+describe('TranslationCorrectionService', () => {
+  let correctionService: TranslationCorrectionService;
+  let mockCorrectionModel: jest.Mocked<TranslationCorrectionModel>;
+
+  beforeEach(() => {
+    correctionService = new TranslationCorrectionService();
+    mockCorrectionModel = (TranslationCorrectionModel as jest.MockedClass<typeof TranslationCorrectionModel>)
+      .mock.results.slice(-1)[0]!.value;
+
+    mockCacheService.getEntry.mockResolvedValue(createEntry());
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('修正の提案', () => {
+    it('キャッシュエントリの現在の翻訳を記録して審査待ちで保存する', async () => {
+      const correction = await correctionService.proposeCorrection('hash-1', {
+        translatedText: ' こんにちは ',
+        comment: '挨拶として不自然'
+      }, 'user-1');
+
+      expect(correction).toMatchObject({
+        contentHash: 'hash-1',
+        status: 'pending',
+        previousText: 'ハロー',
+        proposedText: 'こんにちは',
+        comment: '挨拶として不自然',
+        proposedBy: 'user-1'
+      });
+      // 作成日時で始まるため、エントリ内で時系列に並ぶ
+      expect(correction.correctionId.startsWith(correction.createdAt)).toBe(true);
+      expect(mockCorrectionModel.create).toHaveBeenCalledWith(correction);
+      expect(mockCacheService.applyCorrection).not.toHaveBeenCalled();
+    });
+
+    it('存在しないエントリには提案できない', async () => {
+      mockCacheService.getEntry.mockResolvedValue(null);
+
+      await expect(correctionService.proposeCorrection('missing', { translatedText: 'こんにちは' }))
+        .rejects.toMatchObject({ code: 'TRANSLATION_CACHE_ENTRY_NOT_FOUND' });
+      expect(mockCorrectionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('現在の翻訳と同じ内容は提案できない', async () => {
+      await expect(correctionService.proposeCorrection('hash-1', { translatedText: 'ハロー' }))
+        .rejects.toMatchObject({ code: 'TRANSLATION_CORRECTION_UNCHANGED' });
+    });
+  });
+
+  describe('修正提案の審査', () => {
+    it('承認するとキャッシュエントリに承認者と日時を記録して反映する', async () => {
+      mockCorrectionModel.get.mockResolvedValue(createCorrection());
+      mockCorrectionModel.review.mockImplementation(async (contentHash, correctionId, status, review) =>
+        createCorrection({ status, ...review })
+      );
+      mockCacheService.applyCorrection.mockImplementation(async (contentHash, correction) =>
+        createEntry({ translatedText: correction.translatedText, correctedBy: correction.correctedBy, correctedAt: correction.correctedAt })
+      );
+
+      const { correction, entry } = await correctionService.approveCorrection(
+        'hash-1',
+        '2024-01-01T12:00:00.000Z_correction-1',
+        'moderator-1',
+        '確認しました'
+      );
+
+      expect(mockCorrectionModel.review).toHaveBeenCalledWith(
+        'hash-1',
+        '2024-01-01T12:00:00.000Z_correction-1',
+        'approved',
+        expect.objectContaining({ reviewedBy: 'moderator-1', reviewComment: '確認しました' })
+      );
+      expect(mockCacheService.applyCorrection).toHaveBeenCalledWith('hash-1', expect.objectContaining({
+        originalText: 'Hello',
+        translatedText: 'こんにちは',
+        correctionId: '2024-01-01T12:00:00.000Z_correction-1',
+        correctedBy: 'moderator-1',
+        correctedAt: correction.reviewedAt
+      }));
+      expect(entry.translatedText).toBe('こんにちは');
+    });
+
+    it('却下した提案はキャッシュに反映しない', async () => {
+      mockCorrectionModel.get.mockResolvedValue(createCorrection());
+      mockCorrectionModel.review.mockImplementation(async (contentHash, correctionId, status, review) =>
+        createCorrection({ status, ...review })
+      );
+
+      const correction = await correctionService.rejectCorrection('hash-1', '2024-01-01T12:00:00.000Z_correction-1', 'moderator-1');
+
+      expect(correction.status).toBe('rejected');
+      expect(mockCacheService.applyCorrection).not.toHaveBeenCalled();
+    });
+
+    it('審査済みの提案は再度審査できない', async () => {
+      mockCorrectionModel.get.mockResolvedValue(createCorrection({ status: 'rejected' }));
+      mockCorrectionModel.review.mockResolvedValue(null);
+
+      await expect(correctionService.approveCorrection('hash-1', '2024-01-01T12:00:00.000Z_correction-1', 'moderator-1'))
+        .rejects.toMatchObject({ code: 'TRANSLATION_CORRECTION_ALREADY_REVIEWED' });
+      expect(mockCacheService.applyCorrection).not.toHaveBeenCalled();
+    });
+
+    it('存在しない提案は審査できない', async () => {
+      mockCorrectionModel.get.mockResolvedValue(null);
+
+      await expect(correctionService.rejectCorrection('hash-1', 'missing', 'moderator-1'))
+        .rejects.toMatchObject({ code: 'TRANSLATION_CORRECTION_NOT_FOUND' });
+      expect(mockCorrectionModel.review).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('編集履歴', () => {
+    it('エントリと修正提案を返す', async () => {
+      const corrections = [createCorrection({ status: 'approved' }), createCorrection({ correctionId: 'later', status: 'pending' })];
+      mockCorrectionModel.listByEntry.mockResolvedValue(corrections);
+
+      const history = await correctionService.getHistory('hash-1');
+
+      expect(history.entry.contentHash).toBe('hash-1');
+      expect(history.corrections).toEqual(corrections);
+    });
+
+    it('一覧の件数は上限までに制限する', async () => {
+      await correctionService.listCorrections('pending', 1000);
+
+      expect(mockCorrectionModel.listByStatus).toHaveBeenCalledWith('pending', 100);
+    });
+  });
+});
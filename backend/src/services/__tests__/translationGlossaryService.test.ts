@@ -0,0 +1,189 @@
+import { TranslationGlossaryService } from '../translationGlossaryService';
+import { TranslationGlossaryModel, GlossaryEntry } from '../../models/translationGlossary';
+import { TranslationError } from '../translationError';
+
+// DynamoDB関連のモック
+jest.mock('@aws-sdk/client-dynamodb');
+jest.mock('@aws-sdk/lib-dynamodb');
+jest.mock('../../models/translationGlossary', () => ({
+  ...jest.requireActual('../../models/translationGlossary'),
+  TranslationGlossaryModel: jest.fn().mockImplementation(() => ({
+    put: jest.fn(async (entry: GlossaryEntry) => entry),
+    get: jest.fn(),
+    delete: jest.fn(),
+    getAll: jest.fn()
+  }))
+}));
+
+const createEntry = (overrides: Partial<GlossaryEntry>): GlossaryEntry => ({
+  termId: 'term-1',
+  term: 'Lambda',
+  sourceLanguage: '*',
+  targetLanguage: '*',
+  doNotTranslate: true,
+  caseSensitive: true,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('TranslationGlossaryService', () => {
+  let glossaryService: TranslationGlossaryService;
+  let mockGlossaryModel: jest.Mocked<TranslationGlossaryModel>;
+
+  beforeEach(() => {
+    process.env.TRANSLATION_GLOSSARY_ENABLED = 'true';
+    process.env.TRANSLATION_GLOSSARY_REFRESH_INTERVAL = '60';
+
+    glossaryService = new TranslationGlossaryService();
+    mockGlossaryModel = (TranslationGlossaryModel as jest.MockedClass<typeof TranslationGlossaryModel>)
+      .mock.results.slice(-1)[0]!.value;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('用語集の解決', () => {
+    it('言語ペアに適用される用語とバージョンを返す', async () => {
+      mockGlossaryModel.getAll.mockResolvedValue([
+        createEntry({ termId: '1', term: 'Lambda' }),
+        createEntry({ termId: '2', term: 'Security Hub', sourceLanguage: 'en', targetLanguage: 'ja', doNotTranslate: false, translation: 'Security Hub' }),
+        createEntry({ termId: '3', term: 'Bucket', sourceLanguage: 'en', targetLanguage: 'fr', doNotTranslate: false, translation: 'Bucket' })
+      ]);
+
+      const glossary = await glossaryService.getGlossary('en', 'ja');
+
+      expect(glossary.terms.map(term => term.term)).toEqual(['Lambda', 'Security Hub']);
+      expect(glossary.terms[0]!.replacement).toBeUndefined();
+      expect(glossary.terms[1]!.replacement).toBe('Security Hub');
+      expect(glossary.version).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('適用される用語がない場合はバージョンを返さない', async () => {
+      mockGlossaryModel.getAll.mockResolvedValue([]);
+
+      const glossary = await glossaryService.getGlossary('en', 'ja');
+
+      expect(glossary).toEqual({ terms: [] });
+    });
+
+    it('言語ペア指定のエントリを全言語のエントリより優先する', async () => {
+      mockGlossaryModel.getAll.mockResolvedValue([
+        createEntry({ termId: '1', term: 'Lambda' }),
+        createEntry({ termId: '2', term: 'Lambda', sourceLanguage: 'en', targetLanguage: 'ja', doNotTranslate: false, translation: 'AWS Lambda' })
+      ]);
+
+      const glossary = await glossaryService.getGlossary('en', 'ja');
+
+      expect(glossary.terms).toEqual([{ term: 'Lambda', replacement: 'AWS Lambda', caseSensitive: true }]);
+    });
+
+    it('用語集が変更されるとバージョンが変わる', async () => {
+      mockGlossaryModel.getAll.mockResolvedValue([createEntry({ term: 'Lambda' })]);
+      const before = await glossaryService.getGlossary('en', 'ja');
+
+      mockGlossaryModel.getAll.mockResolvedValue([createEntry({ term: 'Lambda' }), createEntry({ termId: '2', term: 'Step Functions' })]);
+      glossaryService.invalidate();
+      const after = await glossaryService.getGlossary('en', 'ja');
+
+      expect(after.version).not.toBe(before.version);
+    });
+
+    it('更新間隔内は再読み込みしない', async () => {
+      mockGlossaryModel.getAll.mockResolvedValue([createEntry({})]);
+
+      await glossaryService.getGlossary('en', 'ja');
+      await glossaryService.getGlossary('en', 'ja');
+
+      expect(mockGlossaryModel.getAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('読み込みに失敗した場合は前回の内容を使用する', async () => {
+      mockGlossaryModel.getAll.mockResolvedValueOnce([createEntry({})]);
+      const before = await glossaryService.getGlossary('en', 'ja');
+
+      mockGlossaryModel.getAll.mockRejectedValueOnce(new Error('DynamoDB error'));
+      glossaryService.invalidate();
+      const after = await glossaryService.getGlossary('en', 'ja');
+
+      expect(after).toEqual(before);
+    });
+
+    it('用語集が無効な場合は空の用語集を返す', async () => {
+      process.env.TRANSLATION_GLOSSARY_ENABLED = 'false';
+      const disabledService = new TranslationGlossaryService();
+
+      const glossary = await disabledService.getGlossary('en', 'ja');
+
+      expect(glossary).toEqual({ terms: [] });
+    });
+  });
+
+  describe('用語集の管理', () => {
+    it('訳語のないエントリは翻訳しない用語として作成する', async () => {
+      mockGlossaryModel.getAll.mockResolvedValue([]);
+
+      const entry = await glossaryService.createEntry({ term: ' Step Functions ' }, 'user-1');
+
+      expect(entry).toEqual(expect.objectContaining({
+        term: 'Step Functions',
+        sourceLanguage: '*',
+        targetLanguage: '*',
+        doNotTranslate: true,
+        caseSensitive: true,
+        createdBy: 'user-1'
+      }));
+      expect(mockGlossaryModel.put).toHaveBeenCalledWith(entry);
+    });
+
+    it('同じ言語ペアに同じ用語がある場合はエラーになる', async () => {
+      mockGlossaryModel.getAll.mockResolvedValue([createEntry({ term: 'Lambda' })]);
+
+      await expect(glossaryService.createEntry({ term: 'lambda' })).rejects.toMatchObject({
+        code: 'GLOSSARY_TERM_EXISTS'
+      });
+      expect(mockGlossaryModel.put).not.toHaveBeenCalled();
+    });
+
+    it('存在しないエントリの更新はエラーになる', async () => {
+      mockGlossaryModel.get.mockResolvedValue(null);
+
+      await expect(glossaryService.updateEntry('missing', { term: 'Lambda' })).rejects.toThrow(TranslationError);
+    });
+
+    it('エントリを更新すると作成情報を保持する', async () => {
+      const existing = createEntry({ termId: 'term-1', createdBy: 'user-1' });
+      mockGlossaryModel.get.mockResolvedValue(existing);
+      mockGlossaryModel.getAll.mockResolvedValue([existing]);
+
+      const entry = await glossaryService.updateEntry('term-1', {
+        term: 'Lambda',
+        targetLanguage: 'ja',
+        translation: 'AWS Lambda'
+      }, 'user-2');
+
+      expect(entry).toEqual(expect.objectContaining({
+        termId: 'term-1',
+        doNotTranslate: false,
+        translation: 'AWS Lambda',
+        createdAt: existing.createdAt,
+        createdBy: 'user-1',
+        updatedBy: 'user-2'
+      }));
+    });
+
+    it('変更後は次回参照時に用語集を再読み込みする', async () => {
+      mockGlossaryModel.getAll.mockResolvedValue([]);
+      await glossaryService.getGlossary('en', 'ja');
+
+      await glossaryService.createEntry({ term: 'Lambda' });
+      mockGlossaryModel.getAll.mockClear();
+      mockGlossaryModel.getAll.mockResolvedValue([createEntry({ term: 'Lambda' })]);
+      const glossary = await glossaryService.getGlossary('en', 'ja');
+
+      expect(mockGlossaryModel.getAll).toHaveBeenCalledTimes(1);
+      expect(glossary.terms).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { TranslationJobService } from '../translationJobService';
+import { TranslationJobModel, TranslationJob, TranslationJobItem } from '../../models/translationJob';
+import { translationService } from '../translationService';
+import { TranslationError } from '../translationError';
+
+// DynamoDB関連のモック
+jest.mock('@aws-sdk/client-dynamodb');
+jest.mock('@aws-sdk/lib-dynamodb');
+jest.mock('../translationService');
+jest.mock('../../models/translationJob', () => ({
+  ...jest.requireActual('../../models/translationJob'),
+  TranslationJobModel: jest.fn().mockImplementation(() => ({
+    create: jest.fn(),
+    get: jest.fn(),
+    getItems: jest.fn(),
+    listByStatus: jest.fn(async () => []),
+    saveItemResult: jest.fn(),
+    updateStatus: jest.fn(),
+    claim: jest.fn(async () => true),
+    renewLease: jest.fn(async () => true),
+    releaseLease: jest.fn(async () => undefined)
+  }))
+}));
+
+const mockTranslationService = translationService as jest.Mocked<typeof translationService>;
+
+const createJob = (overrides: Partial<TranslationJob> = {}): TranslationJob => ({
+  jobId: 'job-1',
+  status: 'queued',
+  userId: 'user-1',
+  targetLanguage: 'en',
+  priority: 'low',
+  totalCount: 2,
+  completedCount: 0,
+  errorCount: 0,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ttl: 1704672000,
+  ...overrides
+});
+
+const createItem = (index: number, overrides: Partial<TranslationJobItem> = {}): TranslationJobItem => ({
+  jobId: 'job-1',
+  index,
+  itemStatus: 'pending',
+  originalText: `テキスト${index}`,
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ttl: 1704672000,
+  ...overrides
+});
+
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * ワーカーがジョブを終了状態にするまで待つ
+ */
+const waitForFinish = async (mockJobModel: jest.Mocked<TranslationJobModel>) => {
+  for (let i = 0; i < 50; i++) {
+    if (mockJobModel.updateStatus.mock.calls.some(call => call[1] === 'completed' || call[1] === 'failed')) {
+      return;
+    }
+    await flushPromises();
+  }
+};
+
+describe('TranslationJobService', () => {
+  let jobService: TranslationJobService;
+  let mockJobModel: jest.Mocked<TranslationJobModel>;
+  let storedJob: TranslationJob;
+
+  beforeEach(() => {
+    jobService = new TranslationJobService();
+    mockJobModel = (TranslationJobModel as jest.MockedClass<typeof TranslationJobModel>)
+      .mock.results.slice(-1)[0]!.value;
+
+    storedJob = createJob();
+    mockJobModel.get.mockImplementation(async () => storedJob);
+    mockJobModel.updateStatus.mockImplementation(async (jobId, status, updates) => {
+      storedJob = { ...storedJob, ...updates, status };
+      return storedJob;
+    });
+    mockJobModel.saveItemResult.mockImplementation(async (item) => {
+      storedJob = item.itemStatus === 'completed'
+        ? { ...storedJob, completedCount: storedJob.completedCount + 1 }
+        : { ...storedJob, errorCount: storedJob.errorCount + 1 };
+      return storedJob;
+    });
+    mockTranslationService.translateText.mockImplementation(async (request) => ({
+      originalText: request.text,
+      translatedText: `[en] ${request.text}`,
+      sourceLanguage: 'ja',
+      targetLanguage: request.targetLanguage,
+      fromCache: false,
+      processingTime: 10
+    }));
+  });
+
+  afterEach(() => {
+    jobService.stop();
+    jest.clearAllMocks();
+  });
+
+  describe('ジョブの作成と実行', () => {
+    it('ジョブを保存して全テキストを翻訳する', async () => {
+      mockJobModel.getItems.mockResolvedValue([createItem(0), createItem(1)]);
+      await jobService.start();
+
+      const job = await jobService.createJob({ texts: ['テキスト0', 'テキスト1'], targetLanguage: 'en' }, 'user-1');
+      storedJob = { ...job };
+      await waitForFinish(mockJobModel);
+
+      expect(job.status).toBe('queued');
+      expect(job.priority).toBe('low');
+      expect(mockJobModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ jobId: job.jobId, totalCount: 2, userId: 'user-1' }),
+        [
+          expect.objectContaining({ index: 0, itemStatus: 'pending', originalText: 'テキスト0' }),
+          expect.objectContaining({ index: 1, itemStatus: 'pending', originalText: 'テキスト1' })
+        ]
+      );
+      expect(mockTranslationService.translateText).toHaveBeenCalledTimes(2);
+      expect(mockJobModel.saveItemResult).toHaveBeenCalledWith(expect.objectContaining({
+        index: 0,
+        itemStatus: 'completed',
+        translatedText: '[en] テキスト0'
+      }));
+      expect(storedJob.status).toBe('completed');
+      expect(storedJob.completedCount).toBe(2);
+    });
+
+    it('失敗したテキストはエラーとして記録し、全件失敗ならジョブを失敗にする', async () => {
+      mockJobModel.getItems.mockResolvedValue([createItem(0), createItem(1)]);
+      mockTranslationService.translateText.mockRejectedValue(
+        new TranslationError('翻訳サービスが一時的に利用できません', 'SERVICE_UNAVAILABLE', undefined, true)
+      );
+      await jobService.start();
+
+      await jobService.createJob({ texts: ['テキスト0', 'テキスト1'], targetLanguage: 'en' });
+      await waitForFinish(mockJobModel);
+
+      expect(mockJobModel.saveItemResult).toHaveBeenCalledWith(expect.objectContaining({
+        itemStatus: 'failed',
+        error: { code: 'SERVICE_UNAVAILABLE', message: '翻訳サービスが一時的に利用できません', retryable: true }
+      }));
+      expect(storedJob.status).toBe('failed');
+    });
+
+    it('ワーカー停止中に作成したジョブは実行しない', async () => {
+      await jobService.createJob({ texts: ['テキスト0'], targetLanguage: 'en' });
+      await flushPromises();
+
+      expect(mockJobModel.create).toHaveBeenCalled();
+      expect(mockJobModel.getItems).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('再起動後の再開', () => {
+    it('未完了のジョブを再開し、翻訳済みのテキストは飛ばす', async () => {
+      storedJob = createJob({ status: 'running', startedAt: '2024-01-01T00:00:01.000Z', completedCount: 0 });
+      mockJobModel.listByStatus.mockImplementation(async (status) => status === 'running' ? [storedJob] : []);
+      mockJobModel.getItems.mockResolvedValue([
+        createItem(0, { itemStatus: 'completed', translatedText: '[en] テキスト0' }),
+        createItem(1)
+      ]);
+
+      await jobService.start();
+      await waitForFinish(mockJobModel);
+
+      expect(mockTranslationService.translateText).toHaveBeenCalledTimes(1);
+      expect(mockTranslationService.translateText).toHaveBeenCalledWith(expect.objectContaining({ text: 'テキスト1' }));
+      // 保存済みの結果から進捗を数え直す
+      expect(mockJobModel.updateStatus).toHaveBeenCalledWith('job-1', 'running', {
+        completedCount: 1,
+        errorCount: 0,
+        startedAt: '2024-01-01T00:00:01.000Z'
+      }, ['running', 'queued']);
+      expect(storedJob.status).toBe('completed');
+    });
+
+    it('他のインスタンスがリースを保持しているジョブは実行しない', async () => {
+      storedJob = createJob({ status: 'running', startedAt: '2024-01-01T00:00:01.000Z' });
+      mockJobModel.listByStatus.mockImplementation(async (status) => status === 'running' ? [storedJob] : []);
+      mockJobModel.claim.mockResolvedValue(false);
+
+      await jobService.start();
+      await flushPromises();
+
+      expect(mockJobModel.claim).toHaveBeenCalledWith('job-1', expect.any(String), expect.any(Number));
+      expect(mockJobModel.getItems).not.toHaveBeenCalled();
+      expect(mockJobModel.updateStatus).not.toHaveBeenCalled();
+      expect(mockTranslationService.translateText).not.toHaveBeenCalled();
+    });
+
+    it('実行を終えたジョブのリースを解放する', async () => {
+      storedJob = createJob({ status: 'running', startedAt: '2024-01-01T00:00:01.000Z' });
+      mockJobModel.listByStatus.mockImplementation(async (status) => status === 'running' ? [storedJob] : []);
+      mockJobModel.getItems.mockResolvedValue([createItem(0), createItem(1)]);
+
+      await jobService.start();
+      await waitForFinish(mockJobModel);
+      await flushPromises();
+
+      const owner = mockJobModel.claim.mock.calls[0]![1];
+      expect(mockJobModel.releaseLease).toHaveBeenCalledWith('job-1', owner);
+    });
+  });
+
+  describe('ジョブの取得とキャンセル', () => {
+    it('進捗率と途中結果を返す', async () => {
+      storedJob = createJob({ status: 'running', totalCount: 4, completedCount: 2, errorCount: 1 });
+      mockJobModel.getItems.mockResolvedValue([createItem(0, { itemStatus: 'completed' })]);
+
+      const job = await jobService.getJob('job-1', 'user-1');
+
+      expect(job.progress).toBe(75);
+      expect(job.items).toHaveLength(1);
+    });
+
+    it('他のユーザーのジョブは見つからないものとして扱う', async () => {
+      await expect(jobService.getJob('job-1', 'user-2')).rejects.toMatchObject({
+        code: 'TRANSLATION_JOB_NOT_FOUND'
+      });
+      expect(mockJobModel.getItems).not.toHaveBeenCalled();
+    });
+
+    it('実行中のジョブをキャンセルすると残りのテキストを翻訳しない', async () => {
+      const items = [0, 1, 2, 3, 4, 5, 6, 7].map(index => createItem(index));
+      storedJob = createJob({ totalCount: items.length });
+      mockJobModel.getItems.mockResolvedValue(items);
+      mockJobModel.saveItemResult.mockImplementation(async () => {
+        // 最初の結果を保存した時点でキャンセルされたとする
+        storedJob = { ...storedJob, status: 'cancelled', completedCount: storedJob.completedCount + 1 };
+        return storedJob;
+      });
+      mockJobModel.listByStatus.mockImplementation(async (status) => status === 'queued' ? [storedJob] : []);
+
+      await jobService.start();
+      for (let i = 0; i < 20; i++) {
+        await flushPromises();
+      }
+
+      // ジョブ単位の同時実行数（5件）までは翻訳済みのため、それ以降は実行しない
+      expect(mockTranslationService.translateText.mock.calls.length).toBeLessThan(items.length);
+      expect(mockJobModel.updateStatus).not.toHaveBeenCalledWith('job-1', 'completed', expect.anything(), expect.anything());
+    });
+
+    it('終了済みのジョブはキャンセルできない', async () => {
+      mockJobModel.updateStatus.mockResolvedValue(null);
+
+      await expect(jobService.cancelJob('job-1', 'user-1')).rejects.toMatchObject({
+        code: 'TRANSLATION_JOB_NOT_CANCELLABLE'
+      });
+      expect(mockJobModel.updateStatus).toHaveBeenCalledWith(
+        'job-1',
+        'cancelled',
+        expect.objectContaining({ finishedAt: expect.any(String) }),
+        ['queued', 'running']
+      );
+    });
+  });
+});
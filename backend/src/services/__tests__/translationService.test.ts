@@ -1,18 +1,44 @@
 import { TranslationService, TranslationError } from '../translationService';
+import { TranslatedChunk } from '../../types/translation';
+import { LocalTranslationProvider } from '../localTranslationProvider';
+import { createTranslationProvider } from '../translationProvider';
+import { translationCacheService } from '../translationCacheService';
+import { translationGlossaryService } from '../translationGlossaryService';
+import { translationUsageService } from '../translationUsageService';
 import { 
   generateContentHash, 
+  normalizeCacheText,
   normalizeLanguageCode, 
   isSupportedLanguage,
   getTextLength,
   splitTextByLength,
   evaluateConfidence,
-  getLocalizedErrorMessage
+  protectMarkdown,
+  restoreMarkdown,
+  restoreMarkdownWithReport,
+  protectTerms,
+  calculateChrF,
+  assessTranslationQuality
 } from '../../utils/translationUtils';
+import { getLocalizedErrorMessage, parseAcceptLanguage, resolveErrorLocale } from '../../utils/errorMessages';
+import { detectLanguage, stripNonLinguisticContent } from '../../utils/languageDetector';
+import { withRetry, calculateBackoffDelay } from '../../utils/retry';
+import { CircuitBreaker, CircuitOpenError } from '../../utils/circuitBreaker';
 
 // AWS SDK のモック
 jest.mock('@aws-sdk/client-translate');
 jest.mock('@aws-sdk/client-secrets-manager');
 jest.mock('@aws-sdk/client-ssm');
+jest.mock('../translationCacheService');
+jest.mock('../translationGlossaryService');
+jest.mock('../translationUsageService');
+
+const mockCacheService = translationCacheService as jest.Mocked<typeof translationCacheService>;
+
+// 逆翻訳による品質検証は「翻訳品質の評価」でのみ有効にする（プロバイダーの呼び出し回数を固定するため）
+process.env.TRANSLATE_BACK_TRANSLATION_RATE = '0';
+const mockGlossaryService = translationGlossaryService as jest.Mocked<typeof translationGlossaryService>;
+const mockUsageService = translationUsageService as jest.Mocked<typeof translationUsageService>;
 
 describe('TranslationService', () => {
   let translationService: TranslationService;
@@ -99,10 +125,18 @@ describe('TranslationService', () => {
       expect(languages.length).toBeGreaterThan(0);
     });
 
-    it('言語名を正しく取得できる', () => {
-      expect(translationService.getLanguageName('ja')).toBe('日本語');
-      expect(translationService.getLanguageName('en')).toBe('English');
-      expect(translationService.getLanguageName('unknown')).toBe('unknown');
+    it('言語の定義を言語レジストリから取得できる', () => {
+      expect(translationService.getLanguageDefinition('ja')).toMatchObject({ nativeName: '日本語', direction: 'ltr', enabled: true });
+      expect(translationService.getLanguageDefinition('ar')).toMatchObject({ nativeName: 'العربية', direction: 'rtl' });
+      expect(translationService.getLanguageDefinition('unknown')).toBeUndefined();
+    });
+
+    it('言語レジストリで無効な言語への翻訳はエラーになる', async () => {
+      await expect(translationService.translateText({
+        text: 'Hello, world!',
+        sourceLanguage: 'en',
+        targetLanguage: 'vi'
+      })).rejects.toMatchObject({ code: 'UNSUPPORTED_LANGUAGE_PAIR' });
     });
   });
 
@@ -116,6 +150,849 @@ describe('TranslationService', () => {
   });
 });
 
+describe('TranslationService（ローカルプロバイダー）', () => {
+  let translationService: TranslationService;
+
+  beforeEach(() => {
+    translationService = new TranslationService(new LocalTranslationProvider());
+    mockCacheService.get.mockResolvedValue({ success: true, fromCache: false });
+    mockCacheService.put.mockResolvedValue({ success: true, fromCache: false });
+    mockCacheService.getStale.mockResolvedValue({ success: true, fromCache: false });
+    mockGlossaryService.getGlossary.mockResolvedValue({ terms: [] });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('辞書に登録されたテキストを翻訳してキャッシュに保存する', async () => {
+    const result = await translationService.translateText({
+      text: 'Hello',
+      sourceLanguage: 'en',
+      targetLanguage: 'ja'
+    });
+
+    expect(result.translatedText).toBe('こんにちは');
+    expect(result.fromCache).toBe(false);
+    expect(mockCacheService.put).toHaveBeenCalledWith('Hello', 'こんにちは', 'en', 'ja', undefined, undefined, undefined, 1);
+  });
+
+  it('辞書にないテキストは原文をそのまま返す', async () => {
+    const result = await translationService.translateText({
+      text: 'Deploy the stack',
+      sourceLanguage: 'en',
+      targetLanguage: 'ja'
+    });
+
+    expect(result.translatedText).toBe('Deploy the stack');
+  });
+
+  it('キャッシュヒット時はプロバイダーを呼ばずに返す', async () => {
+    mockCacheService.get.mockResolvedValue({
+      success: true,
+      fromCache: true,
+      entry: {
+        contentHash: 'hash',
+        originalText: 'Hello',
+        translatedText: 'やあ',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja',
+        createdAt: new Date().toISOString(),
+        expiresAt: Math.floor(Date.now() / 1000) + 3600,
+        hitCount: 1,
+        lastAccessedAt: new Date().toISOString()
+      }
+    });
+
+    const result = await translationService.translateText({
+      text: 'Hello',
+      sourceLanguage: 'en',
+      targetLanguage: 'ja'
+    });
+
+    expect(result.translatedText).toBe('やあ');
+    expect(result.fromCache).toBe(true);
+    expect(mockCacheService.put).not.toHaveBeenCalled();
+  });
+
+  it('ソース言語未指定の場合は検出結果を使用する', async () => {
+    const result = await translationService.translateText({
+      text: 'こんにちは',
+      targetLanguage: 'en'
+    });
+
+    expect(result.sourceLanguage).toBe('ja');
+    expect(result.translatedText).toBe('Hello');
+  });
+
+  it('長文はチャンクに分割して翻訳し、結果を結合する', async () => {
+    const paragraph = 'Deploy the stack. '.repeat(150).trim();
+    const text = `${paragraph}\n\n${paragraph}\n\n${paragraph}`;
+
+    const result = await translationService.translateText({
+      text,
+      sourceLanguage: 'en',
+      targetLanguage: 'ja'
+    });
+
+    expect(result.chunkCount).toBeGreaterThan(1);
+    expect(result.translatedText).toBe(text);
+    expect(result.chunkErrors).toBeUndefined();
+    expect(mockCacheService.put).toHaveBeenCalledTimes(result.chunkCount!);
+  });
+
+  it('チャンクの翻訳が終わるたびに通知し、連結すると翻訳結果全体になる', async () => {
+    const paragraph = 'Deploy the stack. '.repeat(150).trim();
+    const text = `${paragraph}\n\n${paragraph}\n\n${paragraph}`;
+    const chunks: TranslatedChunk[] = [];
+
+    const result = await translationService.translateText({
+      text,
+      sourceLanguage: 'en',
+      targetLanguage: 'ja'
+    }, chunk => chunks.push(chunk));
+
+    expect(chunks).toHaveLength(result.chunkCount!);
+    expect(chunks.map(chunk => chunk.index)).toEqual(chunks.map((_, index) => index));
+    expect(chunks.every(chunk => chunk.total === result.chunkCount)).toBe(true);
+    expect(chunks.map(chunk => chunk.translatedText).join('')).toBe(result.translatedText);
+  });
+
+  it('一部のチャンクが失敗しても他のチャンクの結果を返す', async () => {
+    const provider = new LocalTranslationProvider();
+    const translate = provider.translate.bind(provider);
+    jest.spyOn(provider, 'translate').mockImplementation(async (request) => {
+      if (request.text.startsWith('Broken')) {
+        throw new TranslationError('翻訳中にエラーが発生しました', 'TRANSLATION_SERVICE_ERROR');
+      }
+      return translate(request);
+    });
+    const service = new TranslationService(provider);
+
+    const first = 'Hello. '.repeat(600).trim();
+    const second = 'Broken. '.repeat(500).trim();
+    const result = await service.translateText({
+      text: `${first}\n\n${second}`,
+      sourceLanguage: 'en',
+      targetLanguage: 'ja'
+    });
+
+    expect(result.chunkCount).toBe(2);
+    expect(result.chunkErrors).toEqual([
+      expect.objectContaining({ index: 1, code: 'TRANSLATION_SERVICE_ERROR' })
+    ]);
+    expect(result.translatedText).toContain(second);
+  });
+
+  it('ヘルスチェックにプロバイダー名が含まれる', async () => {
+    const health = await translationService.healthCheck();
+
+    expect(health.status).toBe('healthy');
+    expect(health.provider).toBe('local');
+  });
+
+  it('設定値からプロバイダーを生成できる', () => {
+    expect(createTranslationProvider('local').name).toBe('local');
+    expect(createTranslationProvider('amazon').name).toBe('amazon');
+  });
+
+  describe('再試行とサーキットブレーカー', () => {
+    const throttlingError = () => new TranslationError('Rate exceeded', 'THROTTLING_ERROR', undefined, true);
+
+    beforeEach(() => {
+      process.env.TRANSLATE_RETRY_ATTEMPTS = '3';
+      process.env.TRANSLATE_RETRY_DELAY = '1';
+      process.env.TRANSLATE_RETRY_MAX_DELAY = '2';
+      process.env.TRANSLATE_CIRCUIT_BREAKER_THRESHOLD = '2';
+      process.env.TRANSLATE_CIRCUIT_BREAKER_RESET_TIMEOUT = '60000';
+    });
+
+    afterEach(() => {
+      delete process.env.TRANSLATE_RETRY_ATTEMPTS;
+      delete process.env.TRANSLATE_RETRY_DELAY;
+      delete process.env.TRANSLATE_RETRY_MAX_DELAY;
+      delete process.env.TRANSLATE_CIRCUIT_BREAKER_THRESHOLD;
+      delete process.env.TRANSLATE_CIRCUIT_BREAKER_RESET_TIMEOUT;
+    });
+
+    it('再試行可能なエラーは再試行して成功する', async () => {
+      const provider = new LocalTranslationProvider();
+      const translateSpy = jest.spyOn(provider, 'translate')
+        .mockRejectedValueOnce(throttlingError())
+        .mockResolvedValueOnce({ translatedText: 'こんにちは', sourceLanguage: 'en', targetLanguage: 'ja' });
+      const service = new TranslationService(provider);
+
+      const result = await service.translateText({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'ja' });
+
+      expect(result.translatedText).toBe('こんにちは');
+      expect(translateSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('再試行できないエラーは1回で失敗する', async () => {
+      const provider = new LocalTranslationProvider();
+      const translateSpy = jest.spyOn(provider, 'translate')
+        .mockRejectedValue(new TranslationError('unsupported', 'UNSUPPORTED_LANGUAGE_PAIR'));
+      const service = new TranslationService(provider);
+
+      await expect(service.translateText({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'ja' }))
+        .rejects.toMatchObject({ code: 'UNSUPPORTED_LANGUAGE_PAIR' });
+      expect(translateSpy).toHaveBeenCalledTimes(1);
+      expect(service.getCircuitBreakerStatus().failureCount).toBe(0);
+    });
+
+    it('連続失敗でブレーカーが開き、プロバイダーを呼ばずに失敗する', async () => {
+      const provider = new LocalTranslationProvider();
+      const translateSpy = jest.spyOn(provider, 'translate').mockRejectedValue(throttlingError());
+      const service = new TranslationService(provider);
+      const request = { text: 'Hello', sourceLanguage: 'en', targetLanguage: 'ja' };
+
+      await expect(service.translateText(request)).rejects.toMatchObject({ code: 'THROTTLING_ERROR' });
+      await expect(service.translateText(request)).rejects.toMatchObject({ code: 'THROTTLING_ERROR' });
+      expect(translateSpy).toHaveBeenCalledTimes(6);
+
+      await expect(service.translateText(request)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN', retryable: true });
+      expect(translateSpy).toHaveBeenCalledTimes(6);
+      expect(service.getCircuitBreakerStatus().state).toBe('open');
+    });
+
+    it('プロバイダー障害時は期限切れのキャッシュで応答する', async () => {
+      const provider = new LocalTranslationProvider();
+      jest.spyOn(provider, 'translate').mockRejectedValue(throttlingError());
+      mockCacheService.getStale.mockResolvedValue({
+        success: true,
+        fromCache: true,
+        stale: true,
+        entry: {
+          contentHash: 'hash',
+          originalText: 'Hello',
+          translatedText: 'こんにちは（古い翻訳）',
+          sourceLanguage: 'en',
+          targetLanguage: 'ja',
+          createdAt: new Date().toISOString(),
+          expiresAt: 0,
+          hitCount: 1,
+          lastAccessedAt: new Date().toISOString()
+        }
+      });
+      const service = new TranslationService(provider);
+
+      const result = await service.translateText({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'ja' });
+
+      expect(result.translatedText).toBe('こんにちは（古い翻訳）');
+      expect(result.fromCache).toBe(true);
+      expect(result.stale).toBe(true);
+    });
+
+    it('ヘルスチェックにブレーカーの状態が含まれる', async () => {
+      const provider = new LocalTranslationProvider();
+      jest.spyOn(provider, 'translate').mockRejectedValue(throttlingError());
+      const service = new TranslationService(provider);
+
+      expect((await service.healthCheck()).circuitBreaker.state).toBe('closed');
+
+      for (let i = 0; i < 2; i++) {
+        await service.translateText({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'ja' }).catch(() => undefined);
+      }
+      const health = await service.healthCheck();
+
+      expect(health.status).toBe('unhealthy');
+      expect(health.circuitBreaker).toMatchObject({ state: 'open', failureCount: 2 });
+      expect(health.circuitBreaker.nextAttemptAt).toBeDefined();
+    });
+  });
+
+  describe('用語集の適用', () => {
+    const createMangleProvider = () => {
+      const provider = new LocalTranslationProvider();
+      // 用語を直訳してしまうプロバイダーを再現
+      jest.spyOn(provider, 'translate').mockImplementation(async request => ({
+        translatedText: request.text.replace(/Step Functions/g, 'ステップ関数').replace(/Hello/g, 'こんにちは'),
+        sourceLanguage: request.sourceLanguage,
+        targetLanguage: request.targetLanguage
+      }));
+      return provider;
+    };
+
+    it('翻訳しない用語は原文のまま保持する', async () => {
+      mockGlossaryService.getGlossary.mockResolvedValue({
+        version: 'v1',
+        terms: [{ term: 'Step Functions', caseSensitive: true }]
+      });
+      const service = new TranslationService(createMangleProvider());
+
+      const result = await service.translateText({
+        text: 'Hello Step Functions',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja'
+      });
+
+      expect(result.translatedText).toBe('こんにちは Step Functions');
+    });
+
+    it('訳語が登録された用語は訳語に置き換える', async () => {
+      mockGlossaryService.getGlossary.mockResolvedValue({
+        version: 'v1',
+        terms: [{ term: 'Step Functions', replacement: 'AWS Step Functions', caseSensitive: true }]
+      });
+      const service = new TranslationService(createMangleProvider());
+
+      const result = await service.translateText({
+        text: 'Hello Step Functions',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja'
+      });
+
+      expect(result.translatedText).toBe('こんにちは AWS Step Functions');
+    });
+
+    it('用語集のバージョンをキャッシュキーに含める', async () => {
+      mockGlossaryService.getGlossary.mockResolvedValue({
+        version: 'v2',
+        terms: [{ term: 'Step Functions', caseSensitive: true }]
+      });
+      const service = new TranslationService(createMangleProvider());
+
+      await service.translateText({
+        text: 'Hello Step Functions',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja'
+      });
+
+      expect(mockGlossaryService.getGlossary).toHaveBeenCalledWith('en', 'ja');
+      expect(mockCacheService.get).toHaveBeenCalledWith('Hello Step Functions', 'en', 'ja', 'v2');
+      expect(mockCacheService.put).toHaveBeenCalledWith(
+        'Hello Step Functions',
+        'こんにちは Step Functions',
+        'en',
+        'ja',
+        undefined,
+        undefined,
+        'v2',
+        expect.any(Number)
+      );
+    });
+  });
+
+  describe('翻訳品質の評価', () => {
+    const dictionary = {
+      'en:ja': {
+        'the price is 100 dollars': '価格は100ドルです',
+        'see https://example.com/docs for 3 steps': '3つの手順はドキュメントを参照してください'
+      },
+      'ja:en': {
+        '価格は100ドルです': 'The price is 100 dollars',
+        '3つの手順はドキュメントを参照してください': 'Please refer to the documentation for the three steps'
+      }
+    };
+
+    beforeEach(() => {
+      process.env.TRANSLATE_BACK_TRANSLATION_RATE = '1';
+    });
+
+    afterEach(() => {
+      process.env.TRANSLATE_BACK_TRANSLATION_RATE = '0';
+    });
+
+    it('逆翻訳で検証した品質スコアを結果とキャッシュに含める', async () => {
+      const provider = new LocalTranslationProvider(dictionary);
+      const translateSpy = jest.spyOn(provider, 'translate');
+      const service = new TranslationService(provider);
+
+      const result = await service.translateText({
+        text: 'The price is 100 dollars',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja'
+      });
+
+      expect(translateSpy).toHaveBeenCalledTimes(2);
+      expect(translateSpy).toHaveBeenLastCalledWith({ text: '価格は100ドルです', sourceLanguage: 'ja', targetLanguage: 'en' });
+      expect(result.qualityScore).toBe(1);
+      expect(result.qualityFlags).toBeUndefined();
+      expect(mockCacheService.put).toHaveBeenCalledWith(
+        'The price is 100 dollars', '価格は100ドルです', 'en', 'ja', undefined, undefined, undefined, 1
+      );
+    });
+
+    it('URLが欠落し逆翻訳も原文と異なる翻訳は低いスコアと警告を返す', async () => {
+      const service = new TranslationService(new LocalTranslationProvider(dictionary));
+
+      const result = await service.translateText({
+        text: 'See https://example.com/docs for 3 steps',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja'
+      });
+
+      expect(result.qualityFlags).toEqual(expect.arrayContaining(['MISSING_URLS', 'LOW_BACK_TRANSLATION_SCORE']));
+      expect(result.qualityScore).toBeLessThan(0.7);
+      expect(mockCacheService.put).toHaveBeenCalledWith(
+        expect.any(String), expect.any(String), 'en', 'ja', undefined, undefined, undefined, result.qualityScore
+      );
+    });
+
+    it('逆翻訳に失敗しても翻訳結果は返す', async () => {
+      const provider = new LocalTranslationProvider(dictionary);
+      const translate = provider.translate.bind(provider);
+      jest.spyOn(provider, 'translate').mockImplementation(async (request) => {
+        if (request.sourceLanguage === 'ja') {
+          throw new TranslationError('翻訳中にエラーが発生しました', 'TRANSLATION_SERVICE_ERROR');
+        }
+        return translate(request);
+      });
+      const service = new TranslationService(provider);
+
+      const result = await service.translateText({
+        text: 'The price is 100 dollars',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja'
+      });
+
+      expect(result.translatedText).toBe('価格は100ドルです');
+      expect(result.qualityScore).toBe(1);
+    });
+
+    it('逆翻訳はユーザーではなくシステムの使用量として記録する', async () => {
+      const usage = { userId: 'user-1', route: 'POST /api/translate' };
+      const service = new TranslationService(new LocalTranslationProvider(dictionary));
+
+      await service.translateText({ text: 'The price is 100 dollars', sourceLanguage: 'en', targetLanguage: 'ja', usage });
+
+      expect(mockUsageService.assertWithinBudget).toHaveBeenCalledWith(usage, 24);
+      expect(mockUsageService.recordProviderUsage).toHaveBeenCalledWith(usage, 'en', 'ja', 24);
+      expect(mockUsageService.assertWithinBudget).toHaveBeenCalledWith({ route: 'quality:back-translation' }, 10);
+      expect(mockUsageService.recordProviderUsage).toHaveBeenCalledWith({ route: 'quality:back-translation' }, 'ja', 'en', 10);
+      expect(mockUsageService.recordProviderUsage).toHaveBeenCalledTimes(2);
+    });
+
+    it('逆翻訳が予算を超える場合は品質検証を省略して翻訳結果を返す', async () => {
+      const provider = new LocalTranslationProvider(dictionary);
+      const translateSpy = jest.spyOn(provider, 'translate');
+      const service = new TranslationService(provider);
+      // 翻訳は予算内、逆翻訳は予算超過
+      mockUsageService.assertWithinBudget
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new TranslationError('今月の翻訳予算を使い切りました', 'TRANSLATION_BUDGET_EXCEEDED'));
+
+      const result = await service.translateText({
+        text: 'The price is 100 dollars',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja',
+        usage: { userId: 'user-1', route: 'POST /api/translate' }
+      });
+
+      expect(result.translatedText).toBe('価格は100ドルです');
+      expect(translateSpy).toHaveBeenCalledTimes(1);
+      expect(mockUsageService.recordProviderUsage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('フォーマット保持翻訳', () => {
+    const markdown = [
+      '# Hello',
+      '',
+      '- Thank you',
+      '',
+      'Run `npm install` and see https://example.com/docs for details.',
+      '',
+      '```bash',
+      'aws s3 ls s3://my-bucket',
+      '```',
+      '',
+      'Role: arn:aws:iam::123456789012:role/MyRole'
+    ].join('\n');
+
+    it('見出し・リスト記号を保持し本文のみを翻訳する', async () => {
+      const provider = new LocalTranslationProvider();
+      jest.spyOn(provider, 'translate').mockImplementation(async request => ({
+        translatedText: request.text.split('\n').map(line => `[ja] ${line}`).join('\n'),
+        sourceLanguage: request.sourceLanguage,
+        targetLanguage: request.targetLanguage
+      }));
+      const service = new TranslationService(provider);
+
+      const result = await service.translateText({
+        text: markdown,
+        sourceLanguage: 'en',
+        targetLanguage: 'ja',
+        preserveFormatting: true
+      });
+
+      expect(result.translatedText).toContain('# [ja] Hello');
+      expect(result.translatedText).toContain('- [ja] Thank you');
+      expect(result.translatedText).toContain('`npm install`');
+      expect(result.translatedText).toContain('https://example.com/docs');
+      expect(result.translatedText).toContain('```bash\naws s3 ls s3://my-bucket\n```');
+      expect(result.translatedText).toContain('arn:aws:iam::123456789012:role/MyRole');
+      expect(result.originalText).toBe(markdown);
+    });
+
+    it('コードやURLをプロバイダーに送信しない', async () => {
+      const provider = new LocalTranslationProvider();
+      const translateSpy = jest.spyOn(provider, 'translate');
+      const service = new TranslationService(provider);
+
+      await service.translateText({
+        text: markdown,
+        sourceLanguage: 'en',
+        targetLanguage: 'ja',
+        preserveFormatting: true
+      });
+
+      const sentText = translateSpy.mock.calls.map(([request]) => request.text).join('\n');
+      expect(sentText).not.toContain('npm install');
+      expect(sentText).not.toContain('example.com');
+      expect(sentText).not.toContain('arn:aws');
+      expect(sentText).not.toContain('# ');
+    });
+
+    it('プロバイダーが崩したプレースホルダーを復元する', async () => {
+      const provider = new LocalTranslationProvider();
+      jest.spyOn(provider, 'translate').mockImplementation(async request => ({
+        translatedText: request.text.replace(/__PH_(\d+)__/g, '＿＿ PH_$1 ＿＿'),
+        sourceLanguage: request.sourceLanguage,
+        targetLanguage: request.targetLanguage
+      }));
+      const service = new TranslationService(provider);
+
+      const result = await service.translateText({
+        text: 'Run `npm install` now',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja',
+        preserveFormatting: true
+      });
+
+      expect(result.translatedText).toBe('Run `npm install` now');
+    });
+
+    it('preserveFormatting未指定の場合は従来通り全文を翻訳する', async () => {
+      const provider = new LocalTranslationProvider();
+      const translateSpy = jest.spyOn(provider, 'translate');
+      const service = new TranslationService(provider);
+
+      await service.translateText({
+        text: 'Run `npm install` now',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja'
+      });
+
+      expect(translateSpy).toHaveBeenCalledWith(expect.objectContaining({ text: 'Run `npm install` now' }));
+    });
+  });
+
+  describe('多言語翻訳', () => {
+    const createSpyProvider = () => {
+      const provider = new LocalTranslationProvider();
+      const translateSpy = jest.spyOn(provider, 'translate').mockImplementation(async request => ({
+        translatedText: `[${request.targetLanguage}] ${request.text}`,
+        sourceLanguage: request.sourceLanguage,
+        targetLanguage: request.targetLanguage
+      }));
+      const detectSpy = jest.spyOn(provider, 'detect');
+      return { provider, translateSpy, detectSpy };
+    };
+
+    it('言語検出を1回だけ行い、キャッシュにない言語のみ翻訳する', async () => {
+      const { provider, translateSpy, detectSpy } = createSpyProvider();
+      const service = new TranslationService(provider);
+      mockCacheService.getMany.mockResolvedValue([
+        { success: true, fromCache: false },
+        {
+          success: true,
+          fromCache: true,
+          entry: {
+            contentHash: 'hash',
+            originalText: 'Hello, how are you today?',
+            translatedText: '你好',
+            sourceLanguage: 'en',
+            targetLanguage: 'zh',
+            createdAt: '2024-01-01T00:00:00.000Z',
+            expiresAt: 9999999999,
+            hitCount: 1,
+            lastAccessedAt: '2024-01-01T00:00:00.000Z'
+          }
+        }
+      ]);
+
+      const result = await service.translateToLanguages({
+        text: 'Hello, how are you today?',
+        targetLanguages: ['ja', 'zh', 'en']
+      });
+
+      expect(detectSpy).toHaveBeenCalledTimes(1);
+      expect(result.sourceLanguage).toBe('en');
+      expect(Object.keys(result.results)).toEqual(['ja', 'zh', 'en']);
+      expect(result.results.ja).toMatchObject({ translatedText: '[ja] Hello, how are you today?', fromCache: false });
+      expect(result.results.zh).toMatchObject({ translatedText: '你好', fromCache: true });
+      expect(result.results.en).toMatchObject({ translatedText: 'Hello, how are you today?', fromCache: false });
+      // キャッシュはまとめて1回だけ確認し、翻訳時に再確認しない
+      expect(mockCacheService.getMany).toHaveBeenCalledTimes(1);
+      expect(mockCacheService.getMany).toHaveBeenCalledWith([
+        expect.objectContaining({ sourceLanguage: 'en', targetLanguage: 'ja' }),
+        expect.objectContaining({ sourceLanguage: 'en', targetLanguage: 'zh' })
+      ]);
+      expect(mockCacheService.get).not.toHaveBeenCalled();
+      expect(translateSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('一部の言語が失敗しても他の言語の結果を返す', async () => {
+      const { provider, translateSpy } = createSpyProvider();
+      translateSpy.mockImplementation(async request => {
+        if (request.targetLanguage === 'ko') {
+          throw new TranslationError('サポートされていない言語ペアです', 'UNSUPPORTED_LANGUAGE_PAIR');
+        }
+        return {
+          translatedText: `[${request.targetLanguage}] ${request.text}`,
+          sourceLanguage: request.sourceLanguage,
+          targetLanguage: request.targetLanguage
+        };
+      });
+      const service = new TranslationService(provider);
+      mockCacheService.getMany.mockResolvedValue([
+        { success: true, fromCache: false },
+        { success: true, fromCache: false }
+      ]);
+
+      const result = await service.translateToLanguages({
+        text: 'Hello',
+        sourceLanguage: 'en',
+        targetLanguages: ['ja', 'ko']
+      });
+
+      expect(result.results.ja?.translatedText).toBe('[ja] Hello');
+      expect(result.results.ko).toBeUndefined();
+      expect(result.errors.ko).toEqual({
+        code: 'UNSUPPORTED_LANGUAGE_PAIR',
+        message: 'サポートされていない言語ペアです',
+        retryable: false
+      });
+    });
+
+    it('キャッシュにない言語の翻訳を schedule 経由で実行する', async () => {
+      const { provider } = createSpyProvider();
+      const service = new TranslationService(provider);
+      mockCacheService.getMany.mockResolvedValue([
+        { success: true, fromCache: false },
+        { success: true, fromCache: false }
+      ]);
+      const schedule = jest.fn(<T>(task: () => Promise<T>) => task());
+
+      await service.translateToLanguages({
+        text: 'Hello',
+        sourceLanguage: 'en',
+        targetLanguages: ['ja', 'fr']
+      }, schedule);
+
+      expect(schedule).toHaveBeenCalledTimes(2);
+    });
+
+    it('翻訳先言語が空の場合はエラーになる', async () => {
+      await expect(translationService.translateToLanguages({
+        text: 'Hello',
+        targetLanguages: []
+      })).rejects.toMatchObject({ code: 'MISSING_TARGET_LANGUAGE' });
+    });
+  });
+
+  describe('文単位のキャッシュ', () => {
+    const sentenceEntry = (originalText: string, translatedText: string) => ({
+      contentHash: generateContentHash(originalText, 'en', 'ja'),
+      originalText,
+      translatedText,
+      sourceLanguage: 'en',
+      targetLanguage: 'ja',
+      qualityScore: 0.9,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      expiresAt: 9999999999,
+      hitCount: 1,
+      lastAccessedAt: '2024-01-01T00:00:00.000Z'
+    });
+    let service: TranslationService;
+    let translateSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      process.env.TRANSLATE_SENTENCE_CACHE = 'true';
+      const provider = new LocalTranslationProvider();
+      translateSpy = jest.spyOn(provider, 'translate').mockImplementation(async request => ({
+        translatedText: `[${request.targetLanguage}] ${request.text}`,
+        sourceLanguage: request.sourceLanguage,
+        targetLanguage: request.targetLanguage
+      }));
+      service = new TranslationService(provider);
+      delete process.env.TRANSLATE_SENTENCE_CACHE;
+    });
+
+    it('編集された投稿はキャッシュにない文だけを翻訳して組み立てる', async () => {
+      mockCacheService.getMany.mockResolvedValue([
+        { success: true, fromCache: true, entry: sentenceEntry('Deploy the stack.', 'スタックをデプロイします。') },
+        { success: true, fromCache: false },
+        { success: true, fromCache: true, entry: sentenceEntry('Delete the stack.', 'スタックを削除します。') }
+      ]);
+
+      const result = await service.translateText({
+        text: 'Deploy the stack.  Then check the new logs.\nDelete the stack.',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja'
+      });
+
+      expect(result.translatedText).toBe('スタックをデプロイします。  [ja] Then check the new logs.\nスタックを削除します。');
+      expect(result.fromCache).toBe(false);
+      expect(translateSpy).toHaveBeenCalledTimes(1);
+      expect(translateSpy).toHaveBeenCalledWith(expect.objectContaining({ text: 'Then check the new logs.' }));
+      expect(mockCacheService.getMany).toHaveBeenCalledWith([
+        expect.objectContaining({ originalText: 'Deploy the stack.' }),
+        expect.objectContaining({ originalText: 'Then check the new logs.' }),
+        expect.objectContaining({ originalText: 'Delete the stack.' })
+      ]);
+      // 翻訳した文と、組み立てた全文をキャッシュに保存する
+      expect(mockCacheService.put).toHaveBeenCalledWith(
+        'Then check the new logs.', '[ja] Then check the new logs.', 'en', 'ja', undefined, undefined, undefined, expect.any(Number)
+      );
+      expect(mockCacheService.put).toHaveBeenCalledWith(
+        'Deploy the stack.  Then check the new logs.\nDelete the stack.', result.translatedText,
+        'en', 'ja', undefined, undefined, undefined, result.qualityScore
+      );
+      expect(mockUsageService.recordCacheHit).toHaveBeenCalledTimes(2);
+    });
+
+    it('1文だけのテキストは文単位に分けない', async () => {
+      await service.translateText({ text: 'Deploy the stack.', sourceLanguage: 'en', targetLanguage: 'ja' });
+
+      expect(mockCacheService.getMany).not.toHaveBeenCalled();
+      expect(translateSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    const staleEntry = {
+      contentHash: generateContentHash('Deploy the stack.', 'en', 'ja'),
+      originalText: 'Deploy the stack.',
+      translatedText: 'スタックを展開します。',
+      sourceLanguage: 'en',
+      targetLanguage: 'ja',
+      qualityScore: 0.9,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      expiresAt: Math.floor(Date.now() / 1000) - 60,
+      hitCount: 3,
+      lastAccessedAt: '2024-01-01T00:00:00.000Z'
+    };
+    let service: TranslationService;
+    let translateSpy: jest.SpyInstance;
+
+    /**
+     * バックグラウンドの翻訳し直しが終わるまで待つ
+     */
+    const flushBackground = async () => {
+      for (let i = 0; i < 20; i++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    };
+
+    beforeEach(() => {
+      const provider = new LocalTranslationProvider();
+      translateSpy = jest.spyOn(provider, 'translate').mockImplementation(async request => ({
+        translatedText: 'スタックをデプロイします。',
+        sourceLanguage: request.sourceLanguage,
+        targetLanguage: request.targetLanguage
+      }));
+      service = new TranslationService(provider);
+      mockCacheService.get.mockResolvedValue({ success: true, fromCache: true, entry: staleEntry, stale: true });
+    });
+
+    it('期限切れのエントリで即座に応答し、バックグラウンドで翻訳し直す', async () => {
+      const result = await service.translateText({ text: 'Deploy the stack.', sourceLanguage: 'en', targetLanguage: 'ja' });
+
+      expect(result).toEqual(expect.objectContaining({
+        translatedText: 'スタックを展開します。',
+        fromCache: true,
+        stale: true
+      }));
+
+      await flushBackground();
+      expect(translateSpy).toHaveBeenCalledTimes(1);
+      expect(mockCacheService.put).toHaveBeenCalledWith(
+        'Deploy the stack.', 'スタックをデプロイします。', 'en', 'ja', undefined, undefined, undefined, expect.any(Number)
+      );
+    });
+
+    it('同じエントリの翻訳し直しは同時に1つだけ行う', async () => {
+      await Promise.all([
+        service.translateText({ text: 'Deploy the stack.', sourceLanguage: 'en', targetLanguage: 'ja' }),
+        service.translateText({ text: 'Deploy the stack.', sourceLanguage: 'en', targetLanguage: 'ja' })
+      ]);
+
+      await flushBackground();
+      expect(translateSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('翻訳し直しは参照したユーザーではなくシステムの使用量として記録する', async () => {
+      const usage = { userId: 'user-1', route: 'POST /api/translate' };
+      await service.translateText({ text: 'Deploy the stack.', sourceLanguage: 'en', targetLanguage: 'ja', usage });
+
+      await flushBackground();
+      expect(mockUsageService.recordCacheHit).toHaveBeenCalledWith(usage, 'en', 'ja', 17);
+      expect(mockUsageService.assertWithinBudget).toHaveBeenCalledWith({ route: 'cache:revalidate' }, 17);
+      expect(mockUsageService.recordProviderUsage).toHaveBeenCalledWith({ route: 'cache:revalidate' }, 'en', 'ja', 17);
+      expect(mockUsageService.recordProviderUsage).not.toHaveBeenCalledWith(usage, expect.anything(), expect.anything(), expect.anything());
+    });
+  });
+
+  describe('使用量と予算', () => {
+    const usage = { userId: 'user-1', route: 'POST /api/translate' };
+
+    it('プロバイダーで翻訳した文字数を記録する', async () => {
+      await translationService.translateText({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'ja', usage });
+
+      expect(mockUsageService.assertWithinBudget).toHaveBeenCalledWith(usage, 5);
+      expect(mockUsageService.recordProviderUsage).toHaveBeenCalledWith(usage, 'en', 'ja', 5);
+      expect(mockUsageService.recordCacheHit).not.toHaveBeenCalled();
+    });
+
+    it('キャッシュヒットは節約分として記録し、予算を確認しない', async () => {
+      mockCacheService.get.mockResolvedValue({
+        success: true,
+        fromCache: true,
+        entry: {
+          contentHash: 'hash',
+          originalText: 'Hello',
+          translatedText: 'やあ',
+          sourceLanguage: 'en',
+          targetLanguage: 'ja',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          expiresAt: 9999999999,
+          hitCount: 1,
+          lastAccessedAt: '2024-01-01T00:00:00.000Z'
+        }
+      });
+
+      await translationService.translateText({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'ja', usage });
+
+      expect(mockUsageService.recordCacheHit).toHaveBeenCalledWith(usage, 'en', 'ja', 5);
+      expect(mockUsageService.assertWithinBudget).not.toHaveBeenCalled();
+      expect(mockUsageService.recordProviderUsage).not.toHaveBeenCalled();
+    });
+
+    it('翻訳元と同じ言語は使用量に含めない', async () => {
+      await translationService.translateText({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'en', usage });
+
+      expect(mockUsageService.recordProviderUsage).not.toHaveBeenCalled();
+      expect(mockUsageService.recordCacheHit).not.toHaveBeenCalled();
+    });
+
+    it('予算を超える場合はプロバイダーを呼ばずにエラーを返す', async () => {
+      const provider = new LocalTranslationProvider();
+      const translateSpy = jest.spyOn(provider, 'translate');
+      const service = new TranslationService(provider);
+      mockUsageService.assertWithinBudget.mockRejectedValueOnce(
+        new TranslationError('今月の翻訳予算を使い切りました', 'TRANSLATION_BUDGET_EXCEEDED')
+      );
+
+      await expect(service.translateText({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'ja', usage }))
+        .rejects.toMatchObject({ code: 'TRANSLATION_BUDGET_EXCEEDED' });
+      expect(translateSpy).not.toHaveBeenCalled();
+      expect(mockUsageService.recordProviderUsage).not.toHaveBeenCalled();
+    });
+  });
+});
+
 describe('TranslationUtils', () => {
   describe('generateContentHash', () => {
     it('同じ内容で同じハッシュが生成される', () => {
@@ -129,6 +1006,35 @@ describe('TranslationUtils', () => {
       const hash2 = generateContentHash('Hi', 'en', 'ja');
       expect(hash1).not.toBe(hash2);
     });
+
+    it('表記の揺れだけが異なるテキストは同じハッシュになる', () => {
+      const hash = generateContentHash('Use the "Lambda" console - it\'s fast.\nＡＰＩ Gatewayも', 'en', 'ja');
+
+      expect(generateContentHash('Use  the “Lambda” console ‐ it’s fast. \r\nAPI Gatewayも ', 'en', 'ja')).toBe(hash);
+      expect(generateContentHash('Use the "Lambda" console - it\'s fast.\n\nAPI Gatewayも', 'en', 'ja')).not.toBe(hash);
+    });
+
+    it('正規化で変わらないテキストは正規化を導入する前と同じハッシュになる', () => {
+      expect(generateContentHash('Hello', 'en', 'ja')).toBe(generateContentHash('Hello', 'en', 'ja', undefined, { normalize: false }));
+      expect(generateContentHash('Hello ', 'en', 'ja')).not.toBe(generateContentHash('Hello ', 'en', 'ja', undefined, { normalize: false }));
+    });
+
+    it('用語集のバージョンが異なると異なるハッシュが生成される', () => {
+      const withoutGlossary = generateContentHash('Hello', 'en', 'ja');
+      const v1 = generateContentHash('Hello', 'en', 'ja', 'v1');
+      const v2 = generateContentHash('Hello', 'en', 'ja', 'v2');
+      expect(new Set([withoutGlossary, v1, v2]).size).toBe(3);
+    });
+  });
+
+  describe('normalizeCacheText', () => {
+    it('NFKC・改行コード・空白・記号を統一する', () => {
+      expect(normalizeCacheText('ｽﾀｯｸを　作成！\r\n\r\n\r\n\r\n“done”\u200B ')).toBe('スタックを 作成!\n\n"done"');
+    });
+
+    it('行頭のインデントは残す', () => {
+      expect(normalizeCacheText('steps:\n    - run:   npm test  ')).toBe('steps:\n    - run: npm test');
+    });
   });
 
   describe('normalizeLanguageCode', () => {
@@ -162,6 +1068,13 @@ describe('TranslationUtils', () => {
   });
 
   describe('splitTextByLength', () => {
+    it('分割結果を連結すると元のテキストに戻る', () => {
+      const text = 'First paragraph. Version v1.2 is used!\n\n第二段落です。次の文？\n\n' + 'word '.repeat(30);
+      const result = splitTextByLength(text, 40);
+      expect(result.join('')).toBe(text);
+      expect(result.every(chunk => getTextLength(chunk) <= 40)).toBe(true);
+    });
+
     it('短いテキストはそのまま返す', () => {
       const result = splitTextByLength('Hello', 100);
       expect(result).toEqual(['Hello']);
@@ -175,6 +1088,161 @@ describe('TranslationUtils', () => {
     });
   });
 
+  describe('protectMarkdown / restoreMarkdown', () => {
+    it('保護と復元で元のテキストに戻る', () => {
+      const text = '---\ntitle: Test\n---\n\n# Title\n\n![diagram](https://example.com/a.png)\n\nSee [docs](https://example.com "Docs") and `x = 1`.\n\n    indented code\n';
+      const { text: protectedText, placeholders } = protectMarkdown(text);
+
+      expect(protectedText).not.toContain('https://example.com');
+      expect(restoreMarkdown(protectedText, placeholders)).toBe(text);
+    });
+
+    it('リンクテキストは翻訳対象として残す', () => {
+      const { text } = protectMarkdown('See [the docs](https://example.com) here');
+      expect(text).toContain('[the docs]');
+    });
+
+    it('順序が入れ替わったプレースホルダーも復元する', () => {
+      const { text, placeholders } = protectMarkdown('Use `a` then `b`');
+      const reordered = text.replace(/(__PH_\d+__)(.*)(__PH_\d+__)/, '$3$2$1');
+      expect(restoreMarkdown(reordered, placeholders)).toBe('Use `b` then `a`');
+    });
+
+    it('欠落したプレースホルダーを報告し末尾に追加する', () => {
+      const { text, placeholders } = protectMarkdown('Run `npm test` please');
+      const result = restoreMarkdownWithReport(text.replace(/__PH_\d+__/, ''), placeholders);
+
+      expect(result.missing).toHaveLength(1);
+      expect(result.text).toContain('`npm test`');
+    });
+
+    it('置換パターン文字列を含むコードを壊さない', () => {
+      const text = 'Use `s.replace(/a/, "$&")` here';
+      const { text: protectedText, placeholders } = protectMarkdown(text);
+      expect(restoreMarkdown(protectedText, placeholders)).toBe(text);
+    });
+  });
+
+  describe('protectTerms', () => {
+    const terms = [
+      { term: 'Lambda', caseSensitive: true },
+      { term: 'Lambda@Edge', caseSensitive: true },
+      { term: 'security hub', replacement: 'Security Hub', caseSensitive: false }
+    ];
+
+    it('長い用語を優先して置換し、復元できる', () => {
+      const { text, placeholders } = protectTerms('Use Lambda@Edge and Lambda with SECURITY HUB', terms);
+
+      expect(text).not.toContain('Lambda');
+      expect(restoreMarkdown(text, placeholders)).toBe('Use Lambda@Edge and Lambda with Security Hub');
+    });
+
+    it('単語の途中には一致しない', () => {
+      const { text } = protectTerms('LambdaFunction and myLambda', terms);
+      expect(text).toBe('LambdaFunction and myLambda');
+    });
+
+    it('既存のプレースホルダーと番号が衝突しない', () => {
+      const { text: formatted, placeholders: formatPlaceholders } = protectMarkdown('Run `npm test` on Lambda');
+      const { text, placeholders } = protectTerms(formatted, terms);
+
+      expect(restoreMarkdown(restoreMarkdown(text, placeholders), formatPlaceholders)).toBe('Run `npm test` on Lambda');
+      expect(Array.from(placeholders.keys()).some(key => formatPlaceholders.has(key))).toBe(false);
+    });
+  });
+
+  describe('withRetry', () => {
+    const sleep = jest.fn(async () => undefined);
+
+    it('試行回数を使い切ると最後のエラーを投げる', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('transient'));
+
+      await expect(withRetry(operation, {
+        attempts: 3, baseDelay: 100, maxDelay: 1000, isRetryable: () => true, sleep
+      })).rejects.toThrow('transient');
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(sleep).toHaveBeenCalledTimes(2);
+    });
+
+    it('待機時間は指数的に増える上限内のランダム値になる', () => {
+      expect(calculateBackoffDelay(1, 100, 1000, () => 0.999)).toBe(99);
+      expect(calculateBackoffDelay(3, 100, 1000, () => 0.999)).toBe(399);
+      expect(calculateBackoffDelay(10, 100, 1000, () => 0.999)).toBe(999);
+      expect(calculateBackoffDelay(3, 100, 1000, () => 0)).toBe(0);
+    });
+  });
+
+  describe('CircuitBreaker', () => {
+    it('リセット時間経過後に1件だけ試行し、成功すると閉じる', async () => {
+      let now = 0;
+      const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, now: () => now });
+
+      await expect(breaker.execute(async () => { throw new Error('down'); })).rejects.toThrow('down');
+      await expect(breaker.execute(async () => 'ok')).rejects.toThrow(CircuitOpenError);
+
+      now = 1000;
+      expect(breaker.getStatus().state).toBe('half_open');
+      await expect(breaker.execute(async () => 'ok')).resolves.toBe('ok');
+      expect(breaker.getStatus()).toMatchObject({ state: 'closed', failureCount: 0 });
+    });
+
+    it('失敗として数えないエラーではブレーカーが開かない', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+
+      await expect(breaker.execute(async () => { throw new Error('bad request'); }, () => false)).rejects.toThrow();
+      expect(breaker.getStatus().state).toBe('closed');
+    });
+  });
+
+  describe('calculateChrF', () => {
+    it('同じテキストは1、共通する文字がないテキストは0を返す', () => {
+      expect(calculateChrF('Deploy the stack', 'Deploy the stack')).toBe(1);
+      expect(calculateChrF('abc', 'xyz')).toBe(0);
+    });
+
+    it('似ているテキストほど高いスコアを返す', () => {
+      const reference = 'The price is 100 dollars';
+      expect(calculateChrF('The price is 100 dollar', reference))
+        .toBeGreaterThan(calculateChrF('Cost: a hundred bucks', reference));
+    });
+  });
+
+  describe('assessTranslationQuality', () => {
+    it('数値・URL・プレースホルダーの欠落を検出する', () => {
+      const assessment = assessTranslationQuality(
+        'Run `npm install` with {name} and see https://example.com/docs (1,000 items)',
+        '{name} で実行し、1.000 件を確認してください'
+      );
+
+      expect(assessment.missing).toEqual({
+        numbers: [],
+        urls: ['https://example.com/docs'],
+        placeholders: ['`npm install`']
+      });
+      expect(assessment.flags).toEqual(['MISSING_URLS', 'MISSING_PLACEHOLDERS']);
+    });
+
+    it('原文のまま返された翻訳は未翻訳として減点する', () => {
+      const assessment = assessTranslationQuality('Deploy the stack', 'Deploy the stack');
+
+      expect(assessment.flags).toContain('UNTRANSLATED');
+      expect(assessment.score).toBeLessThan(0.7);
+    });
+
+    it('逆翻訳のスコアを品質スコアに反映する', () => {
+      const good = assessTranslationQuality('Deploy the stack', 'スタックをデプロイする', { backTranslatedText: 'Deploy the stack' });
+      const bad = assessTranslationQuality('Deploy the stack', 'スタックをデプロイする', { backTranslatedText: 'Remove every bucket' });
+
+      expect(good.backTranslationScore).toBe(1);
+      expect(bad.flags).toContain('LOW_BACK_TRANSLATION_SCORE');
+      expect(bad.score).toBeLessThan(good.score);
+    });
+
+    it('空の翻訳結果はスコア0を返す', () => {
+      expect(assessTranslationQuality('Hello', '  ')).toMatchObject({ score: 0, flags: ['EMPTY_TRANSLATION'] });
+    });
+  });
+
   describe('evaluateConfidence', () => {
     it('信頼度を正しく評価する', () => {
       expect(evaluateConfidence(0.95)).toBe('high');
@@ -189,20 +1257,129 @@ describe('TranslationUtils', () => {
       expect(getLocalizedErrorMessage('TEXT_TOO_LONG')).toBe('テキストが長すぎます');
       expect(getLocalizedErrorMessage('UNKNOWN_ERROR')).toBe('不明なエラーが発生しました');
     });
+
+    it('指定した言語のメッセージを返し、プレースホルダーを置き換える', () => {
+      expect(getLocalizedErrorMessage('EMPTY_TEXT', 'en')).toBe('No text was entered');
+      expect(getLocalizedErrorMessage('VALIDATION_TOO_MANY_ITEMS', 'en', { limit: 100 })).toBe('Must contain at most 100 items');
+      expect(getLocalizedErrorMessage('VALIDATION_TOO_MANY_ITEMS', 'ja', { limit: 100 })).toBe('最大100件までです');
+    });
+
+    it('カタログにないコードは UNKNOWN_ERROR のメッセージを返す', () => {
+      expect(getLocalizedErrorMessage('NO_SUCH_CODE', 'en')).toBe('An unknown error occurred');
+    });
+  });
+
+  describe('parseAcceptLanguage', () => {
+    it('品質値の高い順に対応する言語を返す', () => {
+      expect(parseAcceptLanguage('fr;q=0.5, en-US, xx;q=0.9, ja;q=0.8')).toEqual(['en', 'ja', 'fr']);
+    });
+
+    it('繁体字の中国語は zh-TW として扱う', () => {
+      expect(parseAcceptLanguage('zh-Hant-TW, zh-CN;q=0.5')).toEqual(['zh-TW', 'zh']);
+      expect(parseAcceptLanguage('zh-HK')).toEqual(['zh-TW']);
+    });
+
+    it('q=0 の言語とワイルドカードは無視する', () => {
+      expect(parseAcceptLanguage('*, en;q=0')).toEqual([]);
+      expect(parseAcceptLanguage(undefined)).toEqual([]);
+    });
+  });
+
+  describe('resolveErrorLocale', () => {
+    it('ユーザーの言語設定を Accept-Language より優先する', () => {
+      const req = { headers: { 'accept-language': 'en' }, user: { id: 'user-1', email: 'a@example.com', locale: 'ko' } } as any;
+      expect(resolveErrorLocale(req)).toBe('ko');
+    });
+
+    it('Accept-Language から言語を決定し、決定できない場合は日本語にする', () => {
+      expect(resolveErrorLocale({ headers: { 'accept-language': 'de-DE,de;q=0.9' } } as any)).toBe('de');
+      expect(resolveErrorLocale({ headers: { 'accept-language': 'xx' } } as any)).toBe('ja');
+      expect(resolveErrorLocale({ headers: {} } as any)).toBe('ja');
+    });
+  });
+});
+
+describe('languageDetector', () => {
+  it.each([
+    ['en', 'I am trying to set up a VPC endpoint but the connection keeps timing out.'],
+    ['es', 'Estoy intentando configurar un endpoint de VPC pero la conexión sigue fallando.'],
+    ['fr', "J'essaie de configurer un point de terminaison VPC mais la connexion échoue toujours."],
+    ['de', 'Ich versuche einen VPC-Endpunkt einzurichten, aber die Verbindung bricht immer wieder ab.'],
+    ['it', 'Sto cercando di configurare un endpoint VPC ma la connessione continua a fallire.'],
+    ['pt', 'Estou tentando configurar um endpoint de VPC mas a conexão continua falhando.'],
+    ['ja', 'Lambda関数のタイムアウトを設定する方法を教えてください。'],
+    ['zh', '我想知道如何配置这个服务的网络'],
+    ['ko', '람다 함수의 타임아웃을 설정하는 방법을 알려주세요.'],
+    ['ru', 'Я пытаюсь настроить конечную точку VPC, но соединение обрывается.'],
+    ['ar', 'أحاول إعداد نقطة نهاية VPC لكن الاتصال ينقطع باستمرار.'],
+    ['hi', 'मैं VPC एंडपॉइंट सेट करने की कोशिश कर रहा हूं लेकिन कनेक्शन टूट जाता है।'],
+    ['zh-TW', '請問這個錯誤訊息是什麼意思？我們的伺服器連線一直失敗。'],
+    ['vi', 'Tôi đang cố gắng cấu hình một endpoint VPC nhưng kết nối liên tục bị gián đoạn.'],
+    ['th', 'ฉันพยายามตั้งค่า VPC endpoint แต่การเชื่อมต่อหมดเวลาอยู่เรื่อยๆ'],
+    ['id', 'Saya sedang mencoba mengatur endpoint VPC tetapi koneksinya selalu terputus.'],
+    ['tr', 'Bir VPC uç noktası kurmaya çalışıyorum ama bağlantı sürekli zaman aşımına uğruyor.'],
+    ['nl', 'Ik probeer een VPC-endpoint in te stellen, maar de verbinding valt steeds weg.'],
+    ['pl', 'Próbuję skonfigurować punkt końcowy VPC, ale połączenie ciągle się zrywa.'],
+    ['uk', 'Я намагаюся налаштувати кінцеву точку VPC, але з’єднання постійно обривається.']
+  ])('%s のテキストを検出できる', (expected, text) => {
+    const result = detectLanguage(text);
+    expect(result.languageCode).toBe(expected);
+    expect(result.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('漢字のみのテキストを日本語と決めつけない', () => {
+    expect(detectLanguage('数据库连接失败').languageCode).toBe('zh');
+    expect(detectLanguage('東京駅周辺の天気予報').languageCode).toBe('ja');
+  });
+
+  it('プロファイルのない文字種を含むテキストは信頼度を下げる', () => {
+    const english = detectLanguage('Please check the configuration of the service.');
+    const mixed = detectLanguage('Please check the configuration. Παρακαλώ ελέγξτε τη διαμόρφωση της υπηρεσίας.');
+
+    expect(mixed.confidence).toBeLessThan(english.confidence);
+    expect(mixed.confidence).toBeLessThan(0.5);
+  });
+
+  it('候補言語を信頼度の高い順に返す', () => {
+    const result = detectLanguage('Estou tentando configurar um endpoint de VPC.');
+    const confidences = [result.confidence, ...result.alternatives.map(a => a.confidence)];
+
+    expect(result.alternatives.length).toBeGreaterThan(0);
+    expect(confidences).toEqual([...confidences].sort((a, b) => b - a));
+    expect(confidences.reduce((a, b) => a + b, 0)).toBeLessThanOrEqual(1.001);
+  });
+
+  it('短いテキストほど信頼度が低くなる', () => {
+    const short = detectLanguage('Merci');
+    const long = detectLanguage('Merci beaucoup pour votre aide, la configuration fonctionne maintenant correctement.');
+    expect(short.confidence).toBeLessThan(long.confidence);
+  });
+
+  it('CLIコマンドやARNが判定に影響しない', () => {
+    const text = [
+      '以下のコマンドを実行するとエラーになります。',
+      '```',
+      'aws s3 cp ./build s3://my-bucket/ --recursive --profile prod',
+      '```',
+      'arn:aws:iam::123456789012:role/MyRole を使っています。'
+    ].join('\n');
+
+    expect(detectLanguage(text).languageCode).toBe('ja');
+    expect(stripNonLinguisticContent('arn:aws:lambda:us-east-1:123456789012:function:demo')).not.toContain('arn');
   });
 });
 
 describe('TranslationError', () => {
   it('エラーオブジェクトが正しく作成される', () => {
-    const error = new TranslationError('Test error', 'TEST_ERROR');
+    const error = new TranslationError('Test error', 'TRANSLATION_SERVICE_ERROR');
     expect(error.message).toBe('Test error');
-    expect(error.code).toBe('TEST_ERROR');
+    expect(error.code).toBe('TRANSLATION_SERVICE_ERROR');
     expect(error.name).toBe('TranslationError');
   });
 
   it('元のエラーを含むエラーオブジェクトが作成される', () => {
     const originalError = new Error('Original error');
-    const error = new TranslationError('Test error', 'TEST_ERROR', originalError);
+    const error = new TranslationError('Test error', 'TRANSLATION_SERVICE_ERROR', originalError);
     expect(error.originalError).toBe(originalError);
   });
 });
\ No newline at end of file
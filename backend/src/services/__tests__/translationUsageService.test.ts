@@ -0,0 +1,181 @@
+import { TranslationUsageService } from '../translationUsageService';
+import { TranslationUsageModel, TranslationUsageRecord } from '../../models/translationUsage';
+
+// DynamoDB関連のモック
+jest.mock('@aws-sdk/client-dynamodb');
+jest.mock('@aws-sdk/lib-dynamodb');
+jest.mock('../../models/translationUsage', () => ({
+  ...jest.requireActual('../../models/translationUsage'),
+  TranslationUsageModel: jest.fn().mockImplementation(() => ({
+    addUsage: jest.fn(async () => undefined),
+    getByScope: jest.fn(async () => []),
+    listByDate: jest.fn(async () => []),
+    listBudgets: jest.fn(async () => []),
+    putBudget: jest.fn(async (budget) => budget),
+    deleteBudget: jest.fn(async () => undefined)
+  }))
+}));
+
+const createRecord = (scope: string, overrides: Partial<TranslationUsageRecord> = {}): TranslationUsageRecord => ({
+  date: '2024-01-15',
+  scope,
+  characters: 0,
+  cost: 0,
+  requests: 0,
+  cachedCharacters: 0,
+  cacheHits: 0,
+  updatedAt: '2024-01-15T00:00:00.000Z',
+  ttl: 1739577600,
+  ...overrides
+});
+
+describe('TranslationUsageService', () => {
+  let usageService: TranslationUsageService;
+  let mockUsageModel: jest.Mocked<TranslationUsageModel>;
+
+  beforeEach(() => {
+    process.env.TRANSLATION_MONTHLY_BUDGET = '100';
+    process.env.TRANSLATION_USER_MONTHLY_BUDGET = '1';
+    usageService = new TranslationUsageService();
+    mockUsageModel = (TranslationUsageModel as jest.MockedClass<typeof TranslationUsageModel>)
+      .mock.results.slice(-1)[0]!.value;
+  });
+
+  afterEach(() => {
+    delete process.env.TRANSLATION_MONTHLY_BUDGET;
+    delete process.env.TRANSLATION_USER_MONTHLY_BUDGET;
+    jest.clearAllMocks();
+  });
+
+  describe('使用量の記録', () => {
+    it('プロバイダーの呼び出しを全体・ユーザー・ルート・言語ペアに加算する', () => {
+      usageService.recordProviderUsage({ userId: 'user-1', route: 'POST /api/translate' }, 'en', 'ja', 1000);
+
+      expect(mockUsageModel.addUsage).toHaveBeenCalledWith(
+        expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
+        ['global', 'user#user-1', 'route#POST /api/translate', 'pair#en-ja'],
+        { characters: 1000, cost: expect.closeTo(0.015), requests: 1, cachedCharacters: 0, cacheHits: 0 },
+        expect.any(Number)
+      );
+    });
+
+    it('キャッシュヒットは節約分として記録し、コストには含めない', () => {
+      usageService.recordCacheHit({ userId: 'user-1' }, 'en', 'ja', 500);
+
+      expect(mockUsageModel.addUsage).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.arrayContaining(['user#user-1', 'route#internal']),
+        { characters: 0, cost: 0, requests: 0, cachedCharacters: 500, cacheHits: 1 },
+        expect.any(Number)
+      );
+    });
+
+    it('保存に失敗しても例外を投げない', async () => {
+      mockUsageModel.addUsage.mockRejectedValueOnce(new Error('DynamoDB error'));
+
+      expect(() => usageService.recordProviderUsage({}, 'en', 'ja', 10)).not.toThrow();
+      await new Promise(resolve => setImmediate(resolve));
+    });
+  });
+
+  describe('月間予算', () => {
+    it('予算内であれば翻訳を許可する', async () => {
+      mockUsageModel.getByScope.mockResolvedValue([createRecord('user#user-1', { cost: 0.5 })]);
+
+      await expect(usageService.assertWithinBudget({ userId: 'user-1' }, 1000)).resolves.toBeUndefined();
+    });
+
+    it('ユーザーの予算を超える場合は TRANSLATION_BUDGET_EXCEEDED を返す', async () => {
+      mockUsageModel.getByScope.mockImplementation(async (scope) =>
+        scope === 'user#user-1' ? [createRecord(scope, { cost: 0.999 })] : []
+      );
+
+      await expect(usageService.assertWithinBudget({ userId: 'user-1' }, 1000)).rejects.toMatchObject({
+        code: 'TRANSLATION_BUDGET_EXCEEDED',
+        retryable: false
+      });
+    });
+
+    it('全体の予算を超える場合は全ユーザーの翻訳を拒否する', async () => {
+      mockUsageModel.getByScope.mockImplementation(async (scope) =>
+        scope === 'global' ? [createRecord(scope, { cost: 100 })] : []
+      );
+
+      await expect(usageService.assertWithinBudget({ userId: 'user-2' }, 10)).rejects.toMatchObject({
+        code: 'TRANSLATION_BUDGET_EXCEEDED'
+      });
+    });
+
+    it('ユーザーごとに設定した予算を既定値より優先する', async () => {
+      mockUsageModel.listBudgets.mockResolvedValue([
+        { scope: 'user#user-1', monthlyBudget: 0, updatedAt: '2024-01-01T00:00:00.000Z' }
+      ]);
+      mockUsageModel.getByScope.mockImplementation(async (scope) =>
+        scope === 'user#user-1' ? [createRecord(scope, { cost: 5 })] : []
+      );
+
+      // 0 は無制限
+      await expect(usageService.assertWithinBudget({ userId: 'user-1' }, 1000)).resolves.toBeUndefined();
+    });
+
+    it('記録した使用額は読み直す前でも予算の判定に反映する', async () => {
+      mockUsageModel.getByScope.mockImplementation(async (scope) =>
+        scope === 'user#user-1' ? [createRecord(scope, { cost: 0.99 })] : []
+      );
+
+      await usageService.assertWithinBudget({ userId: 'user-1' }, 100);
+      usageService.recordProviderUsage({ userId: 'user-1' }, 'en', 'ja', 1000);
+
+      await expect(usageService.assertWithinBudget({ userId: 'user-1' }, 100)).rejects.toMatchObject({
+        code: 'TRANSLATION_BUDGET_EXCEEDED'
+      });
+      expect(mockUsageModel.getByScope).toHaveBeenCalledTimes(2); // 全体とユーザーを1回ずつ
+    });
+
+    it('予算を設定すると次の判定で読み直す', async () => {
+      await usageService.setBudget('user-1', 20, 'admin-1');
+
+      expect(mockUsageModel.putBudget).toHaveBeenCalledWith(expect.objectContaining({
+        scope: 'user#user-1',
+        monthlyBudget: 20,
+        updatedBy: 'admin-1'
+      }));
+
+      await usageService.setBudget(undefined, null);
+      expect(mockUsageModel.deleteBudget).toHaveBeenCalledWith('global');
+    });
+  });
+
+  describe('使用量レポート', () => {
+    it('スコープ別に集計し、キャッシュによる節約額を含める', async () => {
+      mockUsageModel.listByDate.mockImplementation(async (date) => date === '2024-01-15'
+        ? [
+            createRecord('global', { characters: 3000, cost: 0.045, requests: 3, cachedCharacters: 1000, cacheHits: 1 }),
+            createRecord('user#user-1', { characters: 3000, cost: 0.045, requests: 3 }),
+            createRecord('route#POST /api/translate', { characters: 3000, cost: 0.045, requests: 3 }),
+            createRecord('pair#en-ja', { characters: 3000, cost: 0.045, requests: 3 })
+          ]
+        : []);
+
+      const report = await usageService.getReport('2024-01-01', '2024-01-31');
+
+      expect(mockUsageModel.listByDate).toHaveBeenCalledTimes(31);
+      expect(report.totals).toMatchObject({ characters: 3000, requests: 3, cacheHits: 1, cacheHitRate: 0.25 });
+      expect(report.totals.savedCost).toBeCloseTo(0.015);
+      expect(report.daily).toHaveLength(1);
+      expect(report.byUser['user-1']!.characters).toBe(3000);
+      expect(report.byRoute['POST /api/translate']!.requests).toBe(3);
+      expect(report.byLanguagePair['en-ja']!.cost).toBeCloseTo(0.045);
+      expect(report.budgets.global.monthlyBudget).toBe(100);
+    });
+
+    it('無効な期間はエラーを返す', async () => {
+      await expect(usageService.getReport('2024-02-01', '2024-01-01')).rejects.toMatchObject({
+        code: 'INVALID_USAGE_PERIOD'
+      });
+      await expect(usageService.getReport('2024-01-01', '2024-12-31')).rejects.toMatchObject({
+        code: 'INVALID_USAGE_PERIOD'
+      });
+    });
+  });
+});
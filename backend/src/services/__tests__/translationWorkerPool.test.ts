@@ -0,0 +1,144 @@
+import { TranslationWorkerPool } from '../translationWorkerPool';
+
+/**
+ * 外部から完了させられるタスクを作成
+ */
+const createDeferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => {
+    resolve = r;
+  });
+  return { promise, resolve };
+};
+
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('TranslationWorkerPool', () => {
+  it('同時実行数を上限までに制限する', async () => {
+    const pool = new TranslationWorkerPool(2);
+    const deferreds = [createDeferred(), createDeferred(), createDeferred()];
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = deferreds.map((deferred, index) => pool.submit(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await deferred.promise;
+      running--;
+      return index;
+    }));
+
+    await flushPromises();
+    expect(pool.getMetrics().active).toBe(2);
+    expect(pool.getMetrics().queueDepth.total).toBe(1);
+
+    deferreds.forEach(deferred => deferred.resolve());
+
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('優先度の高いタスクを先に実行する', async () => {
+    const pool = new TranslationWorkerPool(1);
+    const blocker = createDeferred();
+    const order: string[] = [];
+
+    const first = pool.submit(() => blocker.promise);
+    const tasks = [
+      pool.submit(async () => { order.push('low'); }, { priority: 'low' }),
+      pool.submit(async () => { order.push('normal'); }),
+      pool.submit(async () => { order.push('high'); }, { priority: 'high' })
+    ];
+
+    blocker.resolve();
+    await Promise.all([first, ...tasks]);
+
+    expect(order).toEqual(['high', 'normal', 'low']);
+  });
+
+  it('同じ優先度ではユーザーごとに交互に実行する', async () => {
+    const pool = new TranslationWorkerPool(1);
+    const blocker = createDeferred();
+    const order: string[] = [];
+
+    const first = pool.submit(() => blocker.promise);
+    const tasks = [
+      ...[1, 2, 3].map(n => pool.submit(async () => { order.push(`a${n}`); }, { userId: 'user-a' })),
+      ...[1, 2].map(n => pool.submit(async () => { order.push(`b${n}`); }, { userId: 'user-b' }))
+    ];
+
+    blocker.resolve();
+    await Promise.all([first, ...tasks]);
+
+    expect(order).toEqual(['a1', 'b1', 'a2', 'b2', 'a3']);
+  });
+
+  it('グループごとの同時実行数の上限を守る', async () => {
+    const pool = new TranslationWorkerPool(4);
+    const deferreds = [createDeferred(), createDeferred(), createDeferred()];
+    const started: string[] = [];
+
+    const tasks = [
+      ...deferreds.map((deferred, index) => pool.submit(async () => {
+        started.push(`batch-${index}`);
+        await deferred.promise;
+      }, { groupId: 'batch', groupLimit: 1 })),
+      pool.submit(async () => { started.push('other'); })
+    ];
+
+    await flushPromises();
+    // バッチは1件ずつだが、他のタスクは空いているワーカーで実行される
+    expect(started).toEqual(['batch-0', 'other']);
+
+    deferreds[0]!.resolve();
+    await flushPromises();
+    expect(started).toEqual(['batch-0', 'other', 'batch-1']);
+
+    deferreds.forEach(deferred => deferred.resolve());
+    await Promise.all(tasks);
+    expect(pool.getMetrics().active).toBe(0);
+  });
+
+  it('タスクが失敗しても後続のタスクを実行する', async () => {
+    const pool = new TranslationWorkerPool(1);
+
+    const failing = pool.submit(async () => {
+      throw new Error('translation failed');
+    });
+    const succeeding = pool.submit(async () => 'ok');
+
+    await expect(failing).rejects.toThrow('translation failed');
+    await expect(succeeding).resolves.toBe('ok');
+  });
+
+  it('キューの待機時間とメトリクスを記録する', async () => {
+    const pool = new TranslationWorkerPool(1);
+    const blocker = createDeferred();
+    let waited = -1;
+
+    const first = pool.submit(() => blocker.promise);
+    const second = pool.submit(async (queueWaitTime) => {
+      waited = queueWaitTime;
+    }, { priority: 'low', userId: 'user-a' });
+
+    await flushPromises();
+    expect(pool.getMetrics()).toEqual(expect.objectContaining({
+      concurrency: 1,
+      active: 1,
+      queueDepth: { high: 0, normal: 0, low: 1, total: 1 },
+      queuedUsers: 1
+    }));
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    blocker.resolve();
+    await Promise.all([first, second]);
+
+    expect(waited).toBeGreaterThanOrEqual(15);
+    expect(pool.getMetrics()).toEqual(expect.objectContaining({
+      active: 0,
+      queueDepth: { high: 0, normal: 0, low: 0, total: 0 },
+      processed: 2,
+      maxQueueWaitTime: waited
+    }));
+  });
+});
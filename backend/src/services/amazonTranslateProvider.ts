@@ -0,0 +1,187 @@
+import { TranslateClient, TranslateTextCommand, ListLanguagesCommand } from '@aws-sdk/client-translate';
+import { TranslationError } from './translationError';
+import {
+  TranslationProvider,
+  ProviderTranslateRequest,
+  ProviderTranslateResult,
+  ProviderHealthResult
+} from './translationProvider';
+import { detectLanguage } from '../utils/languageDetector';
+import { LanguageDetectionResult } from '../types/translation';
+
+/**
+ * スロットリングを示すAWSエラー名
+ */
+const THROTTLING_ERRORS = ['ThrottlingException', 'TooManyRequestsException', 'LimitExceededException'];
+
+/**
+ * 一時的な障害を示すAWSエラー名・ネットワークエラーコード
+ */
+const TRANSIENT_ERRORS = [
+  'ServiceUnavailableException',
+  'InternalServerException',
+  'RequestTimeout',
+  'TimeoutError',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ECONNREFUSED',
+  'EAI_AGAIN'
+];
+
+/**
+ * エラー名・メッセージ・コードのいずれかが候補に一致するか判定
+ */
+function matchesAwsError(error: Error, names: string[]): boolean {
+  const code = (error as Error & { code?: string }).code;
+  return names.some(name => error.name === name || code === name || error.message.includes(name));
+}
+
+/**
+ * Amazon Translateを使用した翻訳プロバイダー
+ */
+export class AmazonTranslateProvider implements TranslationProvider {
+  readonly name = 'amazon';
+  private translateClient: TranslateClient;
+
+  constructor(region: string = process.env.AWS_REGION || 'ap-northeast-1') {
+    this.translateClient = new TranslateClient({ region });
+  }
+
+  /**
+   * Amazon Translateでテキストを翻訳
+   */
+  async translate(request: ProviderTranslateRequest): Promise<ProviderTranslateResult> {
+    try {
+      const command = new TranslateTextCommand({
+        Text: request.text,
+        SourceLanguageCode: request.sourceLanguage,
+        TargetLanguageCode: request.targetLanguage
+      });
+
+      const response = await this.translateClient.send(command);
+
+      if (!response.TranslatedText) {
+        throw new TranslationError(
+          '翻訳結果が空です',
+          'EMPTY_TRANSLATION_RESULT'
+        );
+      }
+
+      return {
+        translatedText: response.TranslatedText,
+        sourceLanguage: response.SourceLanguageCode || request.sourceLanguage,
+        targetLanguage: response.TargetLanguageCode || request.targetLanguage
+      };
+    } catch (error) {
+      if (error instanceof TranslationError) {
+        throw error;
+      }
+
+      // AWS Translateの特定エラーをハンドリング
+      if (error instanceof Error) {
+        if (error.message.includes('UnsupportedLanguagePairException')) {
+          throw new TranslationError(
+            `サポートされていない言語ペアです: ${request.sourceLanguage} → ${request.targetLanguage}`,
+            'UNSUPPORTED_LANGUAGE_PAIR',
+            error
+          );
+        }
+
+        if (error.message.includes('TextSizeLimitExceededException')) {
+          throw new TranslationError(
+            'テキストサイズが制限を超えています',
+            'TEXT_SIZE_LIMIT_EXCEEDED',
+            error
+          );
+        }
+
+        // スロットリング・一時的な障害は再試行対象
+        if (matchesAwsError(error, THROTTLING_ERRORS)) {
+          throw new TranslationError(
+            '翻訳サービスへのリクエストが多すぎます',
+            'THROTTLING_ERROR',
+            error,
+            true
+          );
+        }
+
+        const statusCode = (error as Error & { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+        if (matchesAwsError(error, TRANSIENT_ERRORS) || (statusCode !== undefined && statusCode >= 500)) {
+          throw new TranslationError(
+            '翻訳サービスが一時的に利用できません',
+            'SERVICE_UNAVAILABLE',
+            error,
+            true
+          );
+        }
+      }
+
+      throw new TranslationError(
+        '翻訳中にエラーが発生しました',
+        'TRANSLATION_SERVICE_ERROR',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * 言語検出
+   * Amazon Translate単体には検出APIがないため、プロセス内の検出を使用する
+   */
+  async detect(text: string): Promise<LanguageDetectionResult> {
+    return detectLanguage(text);
+  }
+
+  /**
+   * Amazon Translateが対応している言語コードの一覧を取得
+   */
+  async listLanguages(): Promise<string[]> {
+    const languages: string[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const response = await this.translateClient.send(new ListLanguagesCommand({
+        NextToken: nextToken
+      }));
+
+      for (const language of response.Languages || []) {
+        if (language.LanguageCode) {
+          languages.push(language.LanguageCode);
+        }
+      }
+      nextToken = response.NextToken;
+    } while (nextToken);
+
+    return languages;
+  }
+
+  /**
+   * 簡単な翻訳を実行して疎通を確認
+   */
+  async healthCheck(): Promise<ProviderHealthResult> {
+    try {
+      const result = await this.translate({
+        text: 'Hello',
+        sourceLanguage: 'en',
+        targetLanguage: 'ja'
+      });
+
+      if (result.translatedText) {
+        return {
+          status: 'healthy',
+          message: 'Amazon Translateは正常に応答しています'
+        };
+      }
+
+      return {
+        status: 'unhealthy',
+        message: 'Amazon Translateのテストに失敗しました'
+      };
+    } catch (error) {
+      return {
+        status: 'unhealthy',
+        message: `Amazon Translateでエラーが発生しました: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+}
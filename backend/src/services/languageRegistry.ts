@@ -0,0 +1,240 @@
+import { SSMClient, GetParameterCommand } from '@aws-sdk/client-ssm';
+import { getTranslationConfig, TRANSLATION_CONFIG } from '../config/translation';
+import { LanguageDefinition, SupportedLanguage } from '../types/translation';
+
+/**
+ * Parameter Store に保存する言語定義（code 以外の省略した項目はローカル定義の値を使用）
+ */
+type LanguageDefinitionOverride = Partial<Omit<LanguageDefinition, 'code'>> & { code: string };
+
+/**
+ * 言語レジストリ
+ * 翻訳に使用できる言語と、そのメタデータ（表示名・書字方向・プロバイダーの言語コード）を管理する
+ *
+ * 定義は次の順に重ねて作成する
+ * 1. ローカル定義（TRANSLATION_CONFIG.LANGUAGE_DEFINITIONS）
+ * 2. /translate/source-languages（カンマ区切り）があれば、有効な言語をその一覧に限定
+ * 3. /translate/languages（JSON配列）の定義で言語ごとに上書き、またはローカル定義にない言語を追加
+ *
+ * Parameter Store は languageRegistryTtl ごとに読み直すため、デプロイせずに言語を有効化できる
+ * 取得に失敗した場合は直前の定義（初回はローカル定義）を使い続ける
+ */
+export class LanguageRegistry {
+  private ssmClient: SSMClient;
+  private definitions: Map<SupportedLanguage, LanguageDefinition>;
+  private ttl: number;
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(ssmClient?: SSMClient) {
+    const config = getTranslationConfig();
+    this.ssmClient = ssmClient || new SSMClient({ region: config.region });
+    this.ttl = config.languageRegistryTtl * 1000;
+    this.definitions = LanguageRegistry.createLocalDefinitions();
+  }
+
+  /**
+   * 定義を最新にする（前回の読み込みから ttl 以内であれば何もしない）
+   */
+  async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < this.ttl) return;
+    await this.refresh();
+  }
+
+  /**
+   * Parameter Store から定義を読み直す（読み込み中に呼ばれた場合は同じ読み込みを待つ）
+   */
+  refresh(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * 言語コードが有効な言語かチェック（型ガード）
+   */
+  isEnabled(languageCode: unknown): languageCode is SupportedLanguage {
+    this.refreshIfStale();
+    return typeof languageCode === 'string' && this.definitions.get(languageCode)?.enabled === true;
+  }
+
+  /**
+   * 言語の定義を取得（無効な言語も含む）
+   */
+  getLanguage(languageCode: string): LanguageDefinition | undefined {
+    this.refreshIfStale();
+    return this.definitions.get(languageCode);
+  }
+
+  /**
+   * 言語の定義を定義順にすべて取得（無効な言語も含む）
+   */
+  getLanguages(): LanguageDefinition[] {
+    this.refreshIfStale();
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * 有効な言語の定義を定義順に取得
+   */
+  getEnabledLanguages(): LanguageDefinition[] {
+    return this.getLanguages().filter(definition => definition.enabled);
+  }
+
+  /**
+   * 有効な言語コードを定義順に取得
+   */
+  getEnabledLanguageCodes(): SupportedLanguage[] {
+    return this.getEnabledLanguages().map(definition => definition.code);
+  }
+
+  /**
+   * プロバイダーに渡す言語コードに変換（'auto' などの未定義のコードはそのまま）
+   */
+  toProviderCode(languageCode: string, providerName: string): string {
+    return this.getLanguage(languageCode)?.providerCodes[providerName] || languageCode;
+  }
+
+  /**
+   * プロバイダーの言語コードを言語レジストリのコードに変換
+   */
+  fromProviderCode(providerCode: string, providerName: string): SupportedLanguage | undefined {
+    for (const definition of this.definitions.values()) {
+      if ((definition.providerCodes[providerName] || definition.code) === providerCode) {
+        return definition.code;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 期限切れの場合はバックグラウンドで読み直す（今回の判定は現在の定義で行う）
+   */
+  private refreshIfStale(): void {
+    if (!this.loading && Date.now() - this.loadedAt >= this.ttl) {
+      void this.refresh();
+    }
+  }
+
+  /**
+   * Parameter Store の値から定義を作成して置き換える
+   */
+  private async load(): Promise<void> {
+    try {
+      const [languageList, languageDefinitions] = await Promise.all([
+        this.getParameter(TRANSLATION_CONFIG.PARAMETER_NAMES.SUPPORTED_LANGUAGES),
+        this.getParameter(TRANSLATION_CONFIG.PARAMETER_NAMES.LANGUAGES)
+      ]);
+
+      const definitions = LanguageRegistry.createLocalDefinitions();
+
+      const enabledCodes = languageList ? new Set(languageList.split(',').map(code => code.trim())) : null;
+      if (enabledCodes) {
+        for (const definition of definitions.values()) {
+          definition.enabled = enabledCodes.has(definition.code);
+        }
+      }
+
+      if (languageDefinitions) {
+        for (const override of LanguageRegistry.parseOverrides(languageDefinitions)) {
+          const current = definitions.get(override.code);
+          if (!current) {
+            // ローカル定義にない言語は表示名がそろっている場合のみ追加する
+            if (!override.nativeName || !override.englishName) {
+              console.warn(`言語レジストリに追加する言語には nativeName と englishName が必要です: ${override.code}`);
+              continue;
+            }
+            definitions.set(override.code, {
+              code: override.code,
+              nativeName: override.nativeName,
+              englishName: override.englishName,
+              direction: override.direction || 'ltr',
+              providerCodes: override.providerCodes || {},
+              enabled: override.enabled ?? (enabledCodes?.has(override.code) || false)
+            });
+            continue;
+          }
+          definitions.set(override.code, {
+            ...current,
+            ...override,
+            code: current.code,
+            providerCodes: { ...current.providerCodes, ...override.providerCodes }
+          });
+        }
+      }
+
+      this.definitions = definitions;
+    } catch (error) {
+      console.warn('言語レジストリの読み込みに失敗、現在の定義を使用します:', error);
+    } finally {
+      this.loadedAt = Date.now();
+    }
+  }
+
+  /**
+   * Parameter Store からパラメータを取得（存在しない場合は null）
+   */
+  private async getParameter(name: string): Promise<string | null> {
+    try {
+      const response = await this.ssmClient.send(new GetParameterCommand({ Name: name }));
+      return response?.Parameter?.Value || null;
+    } catch (error) {
+      if ((error as Error)?.name === 'ParameterNotFound') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * /translate/languages の値（JSON配列）を解析
+   * 形式が不正な要素は無視する
+   */
+  private static parseOverrides(value: string): LanguageDefinitionOverride[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      console.warn('言語レジストリの定義がJSONではありません:', error);
+      return [];
+    }
+
+    if (!Array.isArray(parsed)) {
+      console.warn('言語レジストリの定義は配列で指定してください');
+      return [];
+    }
+
+    return parsed.flatMap((item): LanguageDefinitionOverride[] => {
+      if (!item || typeof item !== 'object' || typeof item.code !== 'string') {
+        return [];
+      }
+      const override: LanguageDefinitionOverride = { code: item.code };
+      if (typeof item.nativeName === 'string') override.nativeName = item.nativeName;
+      if (typeof item.englishName === 'string') override.englishName = item.englishName;
+      if (item.direction === 'ltr' || item.direction === 'rtl') override.direction = item.direction;
+      if (typeof item.enabled === 'boolean') override.enabled = item.enabled;
+      if (item.providerCodes && typeof item.providerCodes === 'object') {
+        override.providerCodes = Object.fromEntries(
+          Object.entries(item.providerCodes).filter(([, code]) => typeof code === 'string')
+        ) as Record<string, string>;
+      }
+      return [override];
+    });
+  }
+
+  /**
+   * ローカル定義のコピーを作成
+   */
+  private static createLocalDefinitions(): Map<SupportedLanguage, LanguageDefinition> {
+    return new Map(TRANSLATION_CONFIG.LANGUAGE_DEFINITIONS.map(definition => [
+      definition.code,
+      { ...definition, providerCodes: { ...definition.providerCodes } }
+    ]));
+  }
+}
+
+// シングルトンインスタンス
+export const languageRegistry = new LanguageRegistry();
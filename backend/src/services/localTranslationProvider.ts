@@ -0,0 +1,115 @@
+import fs from 'fs';
+import { TranslationError } from './translationError';
+import {
+  TranslationProvider,
+  ProviderTranslateRequest,
+  ProviderTranslateResult,
+  ProviderHealthResult
+} from './translationProvider';
+import { languageRegistry } from './languageRegistry';
+import { detectLanguage } from '../utils/languageDetector';
+import { LanguageDetectionResult } from '../types/translation';
+
+/**
+ * ローカル辞書の型定義
+ * キーは "ソース言語:ターゲット言語"（例: "en:ja"）、値は原文→訳文のマップ
+ */
+export type LocalDictionary = Record<string, Record<string, string>>;
+
+/**
+ * 組み込みの最小辞書（ヘルスチェック・開発用）
+ */
+const DEFAULT_DICTIONARY: LocalDictionary = {
+  'en:ja': {
+    'hello': 'こんにちは',
+    'hello, world!': 'こんにちは、世界！',
+    'thank you': 'ありがとうございます'
+  },
+  'ja:en': {
+    'こんにちは': 'Hello',
+    'こんにちは、世界！': 'Hello, world!',
+    'ありがとうございます': 'Thank you'
+  }
+};
+
+/**
+ * 外部サービスに依存しない決定的な翻訳プロバイダー
+ * 辞書に一致するテキストは訳文を返し、それ以外は原文をそのまま返す
+ * ローカル開発・CI 用
+ */
+export class LocalTranslationProvider implements TranslationProvider {
+  readonly name = 'local';
+  private dictionary: LocalDictionary;
+
+  constructor(dictionary?: LocalDictionary) {
+    this.dictionary = dictionary || {
+      ...DEFAULT_DICTIONARY,
+      ...LocalTranslationProvider.loadDictionaryFile(process.env.TRANSLATION_LOCAL_DICTIONARY)
+    };
+  }
+
+  /**
+   * JSONファイルから辞書を読み込む
+   */
+  private static loadDictionaryFile(path?: string): LocalDictionary {
+    if (!path) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(path, 'utf8')) as LocalDictionary;
+    } catch (error) {
+      console.warn(`ローカル翻訳辞書の読み込みに失敗: ${path}`, error);
+      return {};
+    }
+  }
+
+  /**
+   * 辞書照合で翻訳（一致しない場合は原文を返す）
+   */
+  async translate(request: ProviderTranslateRequest): Promise<ProviderTranslateResult> {
+    if (!languageRegistry.fromProviderCode(request.targetLanguage, this.name)) {
+      throw new TranslationError(
+        `サポートされていない言語ペアです: ${request.sourceLanguage} → ${request.targetLanguage}`,
+        'UNSUPPORTED_LANGUAGE_PAIR'
+      );
+    }
+
+    const sourceLanguage = request.sourceLanguage === 'auto'
+      ? (await this.detect(request.text)).languageCode
+      : request.sourceLanguage;
+
+    const pair = this.dictionary[`${sourceLanguage}:${request.targetLanguage}`] || {};
+    const translatedText = pair[request.text.trim().toLowerCase()] ?? pair[request.text.trim()] ?? request.text;
+
+    return {
+      translatedText,
+      sourceLanguage,
+      targetLanguage: request.targetLanguage
+    };
+  }
+
+  /**
+   * 言語検出（プロセス内）
+   */
+  async detect(text: string): Promise<LanguageDetectionResult> {
+    return detectLanguage(text);
+  }
+
+  /**
+   * サポート言語の一覧（言語レジストリで定義されているすべての言語）
+   */
+  async listLanguages(): Promise<string[]> {
+    return languageRegistry.getLanguages().map(definition => languageRegistry.toProviderCode(definition.code, this.name));
+  }
+
+  /**
+   * ローカルプロバイダーは常に利用可能
+   */
+  async healthCheck(): Promise<ProviderHealthResult> {
+    return {
+      status: 'healthy',
+      message: 'ローカル翻訳プロバイダーは利用可能です'
+    };
+  }
+}
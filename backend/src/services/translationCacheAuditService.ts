@@ -0,0 +1,157 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  TranslationCacheAuditModel,
+  CacheAuditLog,
+  CacheAuditOperation
+} from '../models/translationCacheAudit';
+import { TranslationError } from './translationError';
+import { encodePageCursor, decodePageCursor } from '../utils/pagination';
+
+/**
+ * 監査ログに記録する操作の種類
+ */
+const CACHE_AUDIT_OPERATIONS: CacheAuditOperation[] = [
+  'delete_entry',
+  'cleanup_expired',
+  'clear_all',
+  'bulk_invalidate',
+  'undo_invalidation',
+  'import_entries'
+];
+
+/**
+ * 1回の検索で返す監査ログの件数（既定値と上限）
+ */
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 100;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 操作の実行者
+ */
+export interface CacheAuditActor {
+  id: string;
+  email?: string;
+}
+
+/**
+ * 監査ログの記録内容
+ */
+export interface CacheAuditInput {
+  operation: CacheAuditOperation;
+  actor: CacheAuditActor;
+  requestId: string;
+  parameters: Record<string, unknown>;
+  affectedCount: number;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * 監査ログの検索条件（期間は YYYY-MM-DD、UTC）
+ * cursor には前回の検索結果の nextCursor を指定する
+ */
+export interface CacheAuditQuery {
+  from?: string;
+  to?: string;
+  actorId?: string;
+  operation?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * 監査ログの検索結果
+ */
+export interface CacheAuditQueryResult {
+  logs: CacheAuditLog[];
+  nextCursor?: string;
+}
+
+/**
+ * 翻訳キャッシュの監査ログサービス
+ * 削除・クリーンアップなどの破壊的な管理操作を、実行者・リクエストID・パラメータ・影響件数とともに保存する
+ */
+export class TranslationCacheAuditService {
+  private auditModel: TranslationCacheAuditModel;
+  private retentionDays: number;
+
+  constructor() {
+    this.auditModel = new TranslationCacheAuditModel();
+    this.retentionDays = parseInt(process.env.TRANSLATION_CACHE_AUDIT_RETENTION_DAYS || '365');
+  }
+
+  /**
+   * 監査ログを記録
+   * 保存に失敗しても操作自体は完了しているため、例外は投げずにエラーを出力する
+   */
+  async record(input: CacheAuditInput): Promise<CacheAuditLog | null> {
+    const now = new Date();
+    const timestamp = now.toISOString();
+    const log: CacheAuditLog = {
+      logId: `${timestamp}#${uuidv4()}`,
+      operation: input.operation,
+      actorId: input.actor.id,
+      actorEmail: input.actor.email,
+      timestamp,
+      requestId: input.requestId,
+      parameters: input.parameters,
+      affectedCount: input.affectedCount,
+      success: input.success,
+      error: input.error,
+      ttl: Math.floor(now.getTime() / 1000) + this.retentionDays * 86400
+    };
+
+    try {
+      await this.auditModel.put(log);
+      console.log(`キャッシュ管理操作を記録しました: ${log.operation} by ${log.actorId}（${log.affectedCount}件）`);
+      return log;
+    } catch (error) {
+      console.error('監査ログの記録に失敗:', { ...log, error: error instanceof Error ? error.message : error });
+      return null;
+    }
+  }
+
+  /**
+   * 監査ログを新しい順に検索
+   */
+  async query(query: CacheAuditQuery = {}): Promise<CacheAuditQueryResult> {
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+
+    if ((query.from && !DATE_PATTERN.test(query.from)) || (query.to && !DATE_PATTERN.test(query.to))) {
+      throw new TranslationError(`無効な期間です: ${query.from} 〜 ${query.to}`, 'INVALID_CACHE_AUDIT_QUERY');
+    }
+    if (query.from && query.to && query.from > query.to) {
+      throw new TranslationError(`無効な期間です: ${query.from} 〜 ${query.to}`, 'INVALID_CACHE_AUDIT_QUERY');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+      throw new TranslationError(`件数は1〜${MAX_QUERY_LIMIT}で指定してください`, 'INVALID_CACHE_AUDIT_QUERY');
+    }
+    if (query.operation && !CACHE_AUDIT_OPERATIONS.includes(query.operation as CacheAuditOperation)) {
+      throw new TranslationError(`無効な操作です: ${query.operation}`, 'INVALID_CACHE_AUDIT_QUERY');
+    }
+
+    const exclusiveStartKey = query.cursor ? decodePageCursor(query.cursor) : undefined;
+    if (exclusiveStartKey === null) {
+      throw new TranslationError('無効なカーソルです', 'INVALID_CACHE_AUDIT_QUERY');
+    }
+
+    const page = await this.auditModel.query({
+      from: query.from,
+      to: query.to,
+      actorId: query.actorId,
+      operation: query.operation as CacheAuditOperation | undefined,
+      limit,
+      exclusiveStartKey
+    });
+
+    return {
+      logs: page.logs,
+      ...(page.lastEvaluatedKey && { nextCursor: encodePageCursor(page.lastEvaluatedKey) })
+    };
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationCacheAuditService = new TranslationCacheAuditService();
@@ -0,0 +1,156 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TranslationCacheEntry, CacheEntryFilter } from '../models/translationCache';
+import { TranslationCacheInvalidationModel, CacheInvalidation } from '../models/translationCacheInvalidation';
+import { translationCacheService } from './translationCacheService';
+import { TranslationError } from './translationError';
+
+/**
+ * プレビューで返すエントリの件数
+ */
+const PREVIEW_SAMPLE_SIZE = 10;
+
+/**
+ * 対象のエントリを一覧から集めるときの1ページの件数
+ */
+const COLLECT_PAGE_SIZE = 100;
+
+/**
+ * 一括無効化のプレビュー
+ */
+export interface CacheInvalidationPreview {
+  filter: CacheEntryFilter;
+  affectedCount: number;
+  exceedsLimit: boolean; // maxEntries を超えるため実行できない（affectedCount は maxEntries + 1 で打ち切る）
+  maxEntries: number;
+  sample: TranslationCacheEntry[];
+}
+
+/**
+ * キャッシュエントリの一括無効化サービス
+ * 条件に一致するエントリをまとめて削除し、取り消せるよう削除前のエントリを保存する
+ */
+export class TranslationCacheInvalidationService {
+  private invalidationModel: TranslationCacheInvalidationModel;
+  private maxEntries: number;
+  private retentionDays: number;
+
+  constructor() {
+    this.invalidationModel = new TranslationCacheInvalidationModel();
+    this.maxEntries = parseInt(process.env.TRANSLATION_CACHE_INVALIDATION_MAX_ENTRIES || '10000');
+    this.retentionDays = parseInt(process.env.TRANSLATION_CACHE_INVALIDATION_RETENTION_DAYS || '30');
+  }
+
+  /**
+   * 削除せずに対象の件数と先頭のエントリを返す
+   */
+  async preview(filter: CacheEntryFilter): Promise<CacheInvalidationPreview> {
+    this.assertFilter(filter);
+    const entries = await this.collectEntries(filter);
+
+    return {
+      filter,
+      affectedCount: entries.length,
+      exceedsLimit: entries.length > this.maxEntries,
+      maxEntries: this.maxEntries,
+      sample: entries.slice(0, PREVIEW_SAMPLE_SIZE)
+    };
+  }
+
+  /**
+   * 条件に一致するエントリをまとめて削除
+   * 削除前のエントリを保存してから削除するため、削除が途中で失敗しても取り消せる
+   */
+  async invalidate(filter: CacheEntryFilter, actorId: string, requestId: string): Promise<CacheInvalidation> {
+    this.assertFilter(filter);
+    const entries = await this.collectEntries(filter);
+    if (entries.length > this.maxEntries) {
+      throw new TranslationError(
+        `対象のエントリが${this.maxEntries}件を超えています。条件を絞り込んでください`,
+        'INVALID_CACHE_ENTRY_FILTER'
+      );
+    }
+
+    const now = new Date();
+    const invalidation: CacheInvalidation = {
+      invalidationId: uuidv4(),
+      filter,
+      status: 'applied',
+      affectedCount: entries.length,
+      actorId,
+      requestId,
+      createdAt: now.toISOString(),
+      ttl: Math.floor(now.getTime() / 1000) + this.retentionDays * 86400
+    };
+
+    await this.invalidationModel.create(invalidation, entries);
+    await translationCacheService.deleteEntries(entries.map(entry => entry.contentHash));
+
+    console.log(`キャッシュエントリを一括無効化しました: ${invalidation.invalidationId}（${entries.length}件）`);
+    return invalidation;
+  }
+
+  /**
+   * 一括無効化の記録を取得
+   */
+  async get(invalidationId: string): Promise<CacheInvalidation> {
+    const invalidation = await this.invalidationModel.get(invalidationId);
+    if (!invalidation) {
+      throw new TranslationError(`一括無効化が見つかりません: ${invalidationId}`, 'CACHE_INVALIDATION_NOT_FOUND');
+    }
+    return invalidation;
+  }
+
+  /**
+   * 一括無効化を取り消し、削除したエントリを復元する
+   * 削除後に保存し直されたエントリは上書きしない
+   */
+  async undo(invalidationId: string, actorId: string): Promise<CacheInvalidation> {
+    const invalidation = await this.get(invalidationId);
+    if (invalidation.status === 'undone') {
+      throw new TranslationError(`一括無効化は取り消し済みです: ${invalidationId}`, 'CACHE_INVALIDATION_ALREADY_UNDONE');
+    }
+
+    // 復元は既存のエントリを上書きしないため、同時に取り消されても結果は変わらない
+    const entries = await this.invalidationModel.getEntries(invalidationId);
+    const restoredCount = await translationCacheService.restoreEntries(entries);
+
+    const undone = await this.invalidationModel.markUndone(invalidationId, actorId, restoredCount);
+    if (!undone) {
+      throw new TranslationError(`一括無効化は取り消し済みです: ${invalidationId}`, 'CACHE_INVALIDATION_ALREADY_UNDONE');
+    }
+
+    console.log(`キャッシュの一括無効化を取り消しました: ${invalidationId}（${restoredCount}/${entries.length}件を復元）`);
+    return undone;
+  }
+
+  /**
+   * 条件が1つも指定されていない場合はエラー（全件の削除は clearAll を使う）
+   */
+  private assertFilter(filter: CacheEntryFilter): void {
+    if (!Object.values(filter).some(value => value !== undefined && value !== '')) {
+      throw new TranslationError(
+        '条件を1つ以上指定してください（すべて削除する場合は DELETE /api/translation-cache/all）',
+        'INVALID_CACHE_ENTRY_FILTER'
+      );
+    }
+  }
+
+  /**
+   * 条件に一致するエントリを集める（maxEntries + 1 件で打ち切る）
+   */
+  private async collectEntries(filter: CacheEntryFilter): Promise<TranslationCacheEntry[]> {
+    const entries: TranslationCacheEntry[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await translationCacheService.listEntries(filter, COLLECT_PAGE_SIZE, cursor);
+      entries.push(...page.entries);
+      cursor = page.nextCursor;
+    } while (cursor && entries.length <= this.maxEntries);
+
+    return entries.slice(0, this.maxEntries + 1);
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationCacheInvalidationService = new TranslationCacheInvalidationService();
@@ -1,15 +1,109 @@
-import { TranslationCacheModel, TranslationCacheEntry, CacheStatistics } from '../models/translationCache';
+import {
+  TranslationCacheModel,
+  TranslationCacheEntry,
+  CacheStatistics,
+  CacheLookupKey,
+  CacheCorrection,
+  CacheTierName,
+  CacheTierStatistics,
+  CacheAccessCount,
+  CacheHitIncrement,
+  CacheDailyStatistics,
+  CacheHitRate,
+  CacheHitRateSeries,
+  CacheEntryFilter,
+  CacheImportConflictPolicy,
+  CacheImportOutcome,
+  createCacheEntry,
+  matchesCacheEntryFilter,
+  resolveImportConflict
+} from '../models/translationCache';
 import { generateContentHash, calculateTranslationQuality } from '../utils/translationUtils';
+import { TranslationCacheTier, MemoryCacheTier, RedisCacheTier, RedisCacheClient } from './translationCacheTiers';
+import { TranslationError } from './translationError';
+import { translationGlossaryService } from './translationGlossaryService';
+import { CacheTtlPolicy, loadCacheTtlPolicy, resolveCacheTtl } from './translationCacheTtlPolicy';
+import { encodePageCursor, decodePageCursor } from '../utils/pagination';
+
+/**
+ * 参照順に並べたキャッシュ階層
+ */
+const CACHE_TIER_NAMES: CacheTierName[] = ['memory', 'redis', 'dynamodb'];
+
+/**
+ * ヒット率の推移を取得できる最大日数
+ */
+const MAX_STATISTICS_DAYS = 92;
+
+/**
+ * 期間を省略した場合に返すヒット率の推移の日数
+ */
+const DEFAULT_STATISTICS_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * キャッシュエントリの一覧で1回に返す件数（既定値と上限）
+ */
+const DEFAULT_ENTRY_LIST_LIMIT = 50;
+const MAX_ENTRY_LIST_LIMIT = 100;
+
+/**
+ * 一括削除・復元で階層に並列に反映する件数
+ */
+const TIER_BATCH_SIZE = 100;
+
+/**
+ * DynamoDB より手前の階層でのヒットをためておく最大件数（超えた場合は待たずに DynamoDB に反映する）
+ */
+const MAX_PENDING_TIER_HITS = 100;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 /**
  * キャッシュ設定の型定義
  */
 export interface CacheConfig {
   enabled: boolean;
-  ttl: number; // 秒単位
+  ttl: number; // 秒単位（TTL ポリシーで倍率をかける前の TTL）
+  ttlPolicy: CacheTtlPolicy;
   maxEntries: number;
   cleanupInterval: number; // 秒単位
   qualityThreshold: number; // 品質スコアの閾値
+  tiers: CacheTierName[]; // 有効な階層（起動時に決定し、updateConfig では変更しない）
+  memoryMaxEntries: number;
+  memoryTtl: number; // 秒単位
+  redisTtl: number; // 秒単位
+  statisticsRetentionDays: number; // 日別の参照回数の保持期間（日）
+  hitCountFlushInterval: number; // 上位の階層でのヒットを DynamoDB のヒット数に反映する間隔（秒単位）
+}
+
+/**
+ * キャッシュ統計の取得条件（期間は YYYY-MM-DD、UTC）
+ */
+export interface CacheStatisticsQuery {
+  from?: string;
+  to?: string;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+}
+
+/**
+ * キャッシュエントリの一覧の1ページ
+ * nextCursor がある場合は続きがある（件数が limit に満たないページのこともある）
+ */
+export interface CacheEntryListResult {
+  entries: TranslationCacheEntry[];
+  nextCursor?: string;
+}
+
+/**
+ * キャッシュサービスの生成オプション（テストなどで環境変数の代わりに指定する）
+ */
+export interface TranslationCacheServiceOptions {
+  tiers?: CacheTierName[];
+  cacheModel?: TranslationCacheModel;
+  redisClient?: RedisCacheClient;
 }
 
 /**
@@ -19,28 +113,86 @@ export interface CacheOperationResult {
   success: boolean;
   fromCache: boolean;
   entry?: TranslationCacheEntry;
+  stale?: boolean; // 期限切れのエントリを返した場合
+  contentHash?: string; // 削除の対象にした（dryRun の場合は確認した）エントリのキー
+  affectedCount?: number; // 削除した（dryRun の場合は削除対象の）エントリ数
   error?: string;
 }
 
+/**
+ * 環境変数 TRANSLATION_CACHE_TIERS（カンマ区切り）から有効な階層を決定
+ * 未指定の場合はプロセス内キャッシュと DynamoDB、REDIS_URL があれば Redis も使う
+ */
+function parseCacheTiers(value: string | undefined): CacheTierName[] {
+  if (!value) {
+    return process.env.REDIS_URL ? ['memory', 'redis', 'dynamodb'] : ['memory', 'dynamodb'];
+  }
+
+  const names = value.split(',').map(name => name.trim());
+  return CACHE_TIER_NAMES.filter(name => names.includes(name));
+}
+
 /**
  * 翻訳キャッシュサービス
- * DynamoDBを使用した翻訳結果のキャッシュ機能を提供
+ * プロセス内キャッシュ → Redis → DynamoDB の順に参照し、
+ * 下位の階層でヒットしたエントリは上位の階層にも保存する。書き込み・削除はすべての階層に反映する
  */
 export class TranslationCacheService {
-  private cacheModel: TranslationCacheModel;
+  private cacheModel?: TranslationCacheModel;
+  private memoryTier?: MemoryCacheTier;
+  private redisTier?: RedisCacheTier;
+  private tiers: TranslationCacheTier[] = []; // DynamoDB より手前の階層（参照順）
+  private tierCounters: Record<CacheTierName, { hits: number; misses: number; errors: number }>;
+  private dailyCounters = new Map<string, CacheDailyStatistics>(); // DynamoDB を使わない構成の日別の参照回数
+  private pendingTierHits = new Map<string, CacheHitIncrement>(); // DynamoDB に未反映の上位の階層でのヒット
   private config: CacheConfig;
   private cleanupTimer?: NodeJS.Timeout;
+  private hitCountFlushTimer?: NodeJS.Timeout;
 
-  constructor() {
-    this.cacheModel = new TranslationCacheModel();
-    
+  constructor(options: TranslationCacheServiceOptions = {}) {
     // 設定の初期化
     this.config = {
       enabled: process.env.TRANSLATION_CACHE_ENABLED !== 'false',
       ttl: parseInt(process.env.TRANSLATION_CACHE_TTL || '86400'), // 24時間
+      ttlPolicy: loadCacheTtlPolicy(),
       maxEntries: parseInt(process.env.TRANSLATION_CACHE_MAX_ENTRIES || '10000'),
       cleanupInterval: parseInt(process.env.TRANSLATION_CACHE_CLEANUP_INTERVAL || '3600'), // 1時間
-      qualityThreshold: parseFloat(process.env.TRANSLATION_CACHE_QUALITY_THRESHOLD || '0.7')
+      qualityThreshold: parseFloat(process.env.TRANSLATION_CACHE_QUALITY_THRESHOLD || '0.7'),
+      tiers: options.tiers
+        ? CACHE_TIER_NAMES.filter(name => options.tiers!.includes(name))
+        : parseCacheTiers(process.env.TRANSLATION_CACHE_TIERS),
+      memoryMaxEntries: parseInt(process.env.TRANSLATION_CACHE_MEMORY_MAX_ENTRIES || '1000'),
+      memoryTtl: parseInt(process.env.TRANSLATION_CACHE_MEMORY_TTL || '300'), // 5分
+      redisTtl: parseInt(process.env.TRANSLATION_CACHE_REDIS_TTL || '3600'), // 1時間
+      statisticsRetentionDays: parseInt(process.env.TRANSLATION_CACHE_STATISTICS_RETENTION_DAYS || '400'),
+      hitCountFlushInterval: parseInt(process.env.TRANSLATION_CACHE_HIT_COUNT_FLUSH_INTERVAL || '10')
+    };
+
+    if (this.config.tiers.includes('redis') && !options.redisClient && !process.env.REDIS_URL) {
+      console.warn('REDIS_URL が設定されていないため、Redisキャッシュを使用しません');
+      this.config.tiers = this.config.tiers.filter(name => name !== 'redis');
+    }
+
+    // 階層の初期化
+    if (this.config.tiers.includes('memory')) {
+      this.memoryTier = new MemoryCacheTier(this.config.memoryMaxEntries, this.config.memoryTtl);
+      this.tiers.push(this.memoryTier);
+    }
+    if (this.config.tiers.includes('redis')) {
+      this.redisTier = new RedisCacheTier(this.config.redisTtl, {
+        url: process.env.REDIS_URL,
+        client: options.redisClient
+      });
+      this.tiers.push(this.redisTier);
+    }
+    if (this.config.tiers.includes('dynamodb')) {
+      this.cacheModel = options.cacheModel || new TranslationCacheModel();
+    }
+
+    this.tierCounters = {
+      memory: { hits: 0, misses: 0, errors: 0 },
+      redis: { hits: 0, misses: 0, errors: 0 },
+      dynamodb: { hits: 0, misses: 0, errors: 0 }
     };
 
     // 定期クリーンアップの開始
@@ -49,11 +201,13 @@ export class TranslationCacheService {
 
   /**
    * キャッシュから翻訳結果を取得
+   * stale-while-revalidate の期間内の期限切れエントリは stale: true で返す（呼び出し側で翻訳し直す）
    */
   async get(
     originalText: string,
     sourceLanguage: string,
-    targetLanguage: string
+    targetLanguage: string,
+    glossaryVersion?: string
   ): Promise<CacheOperationResult> {
     if (!this.config.enabled) {
       return {
@@ -63,22 +217,157 @@ export class TranslationCacheService {
     }
 
     try {
-      const entry = await this.cacheModel.get(originalText, sourceLanguage, targetLanguage);
+      const contentHash = generateContentHash(originalText, sourceLanguage, targetLanguage, glossaryVersion);
+      const allowStale = this.config.ttlPolicy.staleWhileRevalidate > 0;
+      // 上位の階層には有効期限内のエントリしかないため、期限切れは DynamoDB からのみ返る
+      const entry = await this.lookup(contentHash, async model => {
+        const found = await model.get(originalText, sourceLanguage, targetLanguage, glossaryVersion, allowStale);
+        return found && this.isServable(found) ? this.extendExpiry(model, found) : null;
+      });
+      void this.recordAccess([{ sourceLanguage, targetLanguage, hits: entry ? 1 : 0, misses: entry ? 0 : 1 }]);
       
       if (entry) {
-        console.log(`翻訳キャッシュヒット: ${generateContentHash(originalText, sourceLanguage, targetLanguage)}`);
+        const stale = this.isExpired(entry);
+        console.log(`翻訳キャッシュヒット: ${contentHash}${stale ? '（期限切れのため再検証）' : ''}`);
         return {
           success: true,
           fromCache: true,
-          entry
+          entry,
+          ...(stale ? { stale } : {})
         };
       } else {
-        console.log(`翻訳キャッシュミス: ${generateContentHash(originalText, sourceLanguage, targetLanguage)}`);
+        console.log(`翻訳キャッシュミス: ${contentHash}`);
+        return {
+          success: true,
+          fromCache: false
+        };
+      }
+    } catch (error) {
+      console.error('キャッシュ取得エラー:', error);
+      return {
+        success: false,
+        fromCache: false,
+        error: error instanceof Error ? error.message : 'Unknown cache error'
+      };
+    }
+  }
+
+  /**
+   * 複数の翻訳結果をまとめてキャッシュから取得
+   * 結果は keys と同じ順序で返す
+   */
+  async getMany(keys: CacheLookupKey[]): Promise<CacheOperationResult[]> {
+    if (!this.config.enabled || keys.length === 0) {
+      return keys.map(() => ({
+        success: true,
+        fromCache: false
+      }));
+    }
+
+    try {
+      const contentHashes = keys.map(key =>
+        generateContentHash(key.originalText, key.sourceLanguage, key.targetLanguage, key.glossaryVersion)
+      );
+      const entries = new Map<string, TranslationCacheEntry>();
+      const missedTiers: TranslationCacheTier[] = [];
+      let remaining = Array.from(new Set(contentHashes));
+
+      for (const tier of this.tiers) {
+        if (remaining.length === 0) {
+          break;
+        }
+
+        let found = new Map<string, TranslationCacheEntry>();
+        try {
+          found = await tier.getMany(remaining);
+        } catch (error) {
+          this.recordTierError(tier.name, error);
+        }
+        this.tierCounters[tier.name].hits += found.size;
+        this.tierCounters[tier.name].misses += remaining.length - found.size;
+        found.forEach(entry => this.recordTierHit(entry));
+
+        await Promise.all(Array.from(found.values()).map(entry => this.writeTiers(entry, missedTiers)));
+        found.forEach((entry, contentHash) => entries.set(contentHash, entry));
+        remaining = remaining.filter(contentHash => !found.has(contentHash));
+        missedTiers.push(tier);
+      }
+
+      if (remaining.length > 0 && this.cacheModel) {
+        const remainingHashes = new Set(remaining);
+        const found = await this.cacheModel.getMany(keys.filter((_, index) => remainingHashes.has(contentHashes[index]!)));
+        await Promise.all(Array.from(found.values()).map(entry => this.extendExpiry(this.cacheModel!, entry)));
+        this.tierCounters.dynamodb.hits += found.size;
+        this.tierCounters.dynamodb.misses += remaining.length - found.size;
+
+        await Promise.all(Array.from(found.values()).map(entry => this.writeTiers(entry, missedTiers)));
+        found.forEach((entry, contentHash) => entries.set(contentHash, entry));
+      }
+
+      const counts = new Map<string, CacheAccessCount>();
+      keys.forEach((key, index) => {
+        const pair = `${key.sourceLanguage}-${key.targetLanguage}`;
+        const count = counts.get(pair) || { sourceLanguage: key.sourceLanguage, targetLanguage: key.targetLanguage, hits: 0, misses: 0 };
+        count[entries.has(contentHashes[index]!) ? 'hits' : 'misses']++;
+        counts.set(pair, count);
+      });
+      void this.recordAccess(Array.from(counts.values()));
+
+      return contentHashes.map(contentHash => {
+        const entry = entries.get(contentHash);
+        return entry
+          ? { success: true, fromCache: true, entry }
+          : { success: true, fromCache: false };
+      });
+    } catch (error) {
+      console.error('キャッシュ一括取得エラー:', error);
+      return keys.map(() => ({
+        success: false,
+        fromCache: false,
+        error: error instanceof Error ? error.message : 'Unknown cache error'
+      }));
+    }
+  }
+
+  /**
+   * 期限切れを含めてキャッシュから翻訳結果を取得
+   * 翻訳プロバイダーの障害時に古い翻訳結果で応答するために使用する
+   */
+  async getStale(
+    originalText: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    glossaryVersion?: string
+  ): Promise<CacheOperationResult> {
+    if (!this.config.enabled) {
+      return {
+        success: true,
+        fromCache: false
+      };
+    }
+
+    try {
+      // 上位の階層には有効期限内のエントリしかないため、期限切れは DynamoDB からのみ返る
+      const entry = await this.lookup(
+        generateContentHash(originalText, sourceLanguage, targetLanguage, glossaryVersion),
+        model => model.get(originalText, sourceLanguage, targetLanguage, glossaryVersion, true)
+      );
+
+      if (!entry) {
         return {
           success: true,
           fromCache: false
         };
       }
+
+      const stale = this.isExpired(entry);
+      console.log(`障害時のキャッシュ参照: ${entry.contentHash}（期限切れ: ${stale}）`);
+      return {
+        success: true,
+        fromCache: true,
+        entry,
+        stale
+      };
     } catch (error) {
       console.error('キャッシュ取得エラー:', error);
       return {
@@ -91,6 +380,7 @@ export class TranslationCacheService {
 
   /**
    * 翻訳結果をキャッシュに保存
+   * qualityScore を省略した場合は逆翻訳なしの検査で品質を評価する
    */
   async put(
     originalText: string,
@@ -98,7 +388,9 @@ export class TranslationCacheService {
     sourceLanguage: string,
     targetLanguage: string,
     confidence?: number,
-    customTtl?: number
+    customTtl?: number,
+    glossaryVersion?: string,
+    qualityScore?: number
   ): Promise<CacheOperationResult> {
     if (!this.config.enabled) {
       return {
@@ -109,26 +401,69 @@ export class TranslationCacheService {
 
     try {
       // 翻訳品質を評価
-      const qualityScore = calculateTranslationQuality(originalText, translatedText, confidence);
+      const score = qualityScore ?? calculateTranslationQuality(originalText, translatedText, confidence);
       
       // 品質が閾値を下回る場合はキャッシュしない
-      if (qualityScore < this.config.qualityThreshold) {
-        console.log(`翻訳品質が低いためキャッシュしません: ${qualityScore} < ${this.config.qualityThreshold}`);
+      if (score < this.config.qualityThreshold) {
+        console.log(`翻訳品質が低いためキャッシュしません: ${score} < ${this.config.qualityThreshold}`);
         return {
           success: true,
           fromCache: false
         };
       }
 
-      const entry = await this.cacheModel.put(
-        originalText,
-        translatedText,
-        sourceLanguage,
-        targetLanguage,
-        confidence,
-        qualityScore,
-        customTtl || this.config.ttl
-      );
+      let entry: TranslationCacheEntry;
+      if (this.cacheModel) {
+        // 既存のエントリ（期限切れを翻訳し直した場合など）はヒット数・作成日時を残して翻訳結果を置き換える
+        // 残したヒット数は書き込むまで分からないため、ヒット数0の TTL で保存してから参照時と同じ計算で延長する
+        const ttl = customTtl ||
+          resolveCacheTtl(this.config.ttlPolicy, this.config.ttl, { qualityScore: score, hitCount: 0 }) ||
+          this.config.ttl;
+        entry = await this.cacheModel.refresh(
+          originalText,
+          translatedText,
+          sourceLanguage,
+          targetLanguage,
+          confidence,
+          score,
+          ttl,
+          glossaryVersion
+        );
+        if (!customTtl) {
+          entry = await this.extendExpiry(this.cacheModel, entry);
+        }
+      } else {
+        // DynamoDB を使わない構成では上位の階層にある既存のエントリからヒット数・作成日時を残す
+        const current = await this.findInTiers(
+          generateContentHash(originalText, sourceLanguage, targetLanguage, glossaryVersion)
+        );
+        const ttl = customTtl ||
+          resolveCacheTtl(this.config.ttlPolicy, this.config.ttl, { qualityScore: score, hitCount: current?.hitCount ?? 0 }) ||
+          this.config.ttl;
+
+        if (current?.correctedAt) {
+          // 人が修正したエントリは上書きしない
+          entry = current;
+        } else {
+          entry = createCacheEntry(
+            originalText,
+            translatedText,
+            sourceLanguage,
+            targetLanguage,
+            confidence,
+            score,
+            ttl,
+            glossaryVersion
+          );
+          if (current) {
+            entry.translatedAt = entry.createdAt;
+            entry.createdAt = current.createdAt;
+            entry.hitCount = current.hitCount;
+            entry.lastAccessedAt = current.lastAccessedAt;
+          }
+        }
+      }
+      await this.writeTiers(entry, this.tiers);
 
       console.log(`翻訳結果をキャッシュに保存: ${entry.contentHash}`);
       
@@ -152,27 +487,47 @@ export class TranslationCacheService {
 
   /**
    * 特定のキャッシュエントリを削除
+   * 保存時と同じく、言語ペアに適用中の用語集のバージョンをキーに含める
+   * dryRun が true の場合は削除せず、削除対象のエントリを返す
    */
   async delete(
     originalText: string,
     sourceLanguage: string,
-    targetLanguage: string
+    targetLanguage: string,
+    dryRun: boolean = false
   ): Promise<CacheOperationResult> {
     if (!this.config.enabled) {
       return {
         success: true,
-        fromCache: false
+        fromCache: false,
+        affectedCount: 0
       };
     }
 
     try {
-      const contentHash = generateContentHash(originalText, sourceLanguage, targetLanguage);
-      await this.cacheModel.delete(contentHash);
+      const glossary = await translationGlossaryService.getGlossary(sourceLanguage, targetLanguage);
+      const contentHash = generateContentHash(originalText, sourceLanguage, targetLanguage, glossary.version);
+      if (dryRun) {
+        const entry = await this.getEntry(contentHash);
+        return {
+          success: true,
+          fromCache: false,
+          contentHash,
+          ...(entry && { entry }),
+          affectedCount: entry ? 1 : 0
+        };
+      }
+
+      const tierEntry = this.cacheModel ? null : await this.findInTiers(contentHash);
+      await Promise.all(this.tiers.map(tier => tier.delete(contentHash)));
+      const deleted = this.cacheModel ? await this.cacheModel.delete(contentHash) : !!tierEntry;
 
       console.log(`キャッシュエントリを削除: ${contentHash}`);
       return {
         success: true,
-        fromCache: false
+        fromCache: false,
+        contentHash,
+        affectedCount: deleted ? 1 : 0
       };
     } catch (error) {
       console.error('キャッシュ削除エラー:', error);
@@ -184,6 +539,48 @@ export class TranslationCacheService {
     }
   }
 
+  /**
+   * contentHash でキャッシュエントリを取得（期限切れのエントリも含む）
+   * キャッシュの有効・無効に関わらず参照する（修正提案の対象確認用）
+   */
+  async getEntry(contentHash: string): Promise<TranslationCacheEntry | null> {
+    if (this.cacheModel) {
+      return this.cacheModel.getByHash(contentHash);
+    }
+    return this.findInTiers(contentHash);
+  }
+
+  /**
+   * 人による修正をキャッシュエントリに適用（期限なしで保持される）
+   */
+  async applyCorrection(contentHash: string, correction: CacheCorrection): Promise<TranslationCacheEntry> {
+    let entry: TranslationCacheEntry;
+    if (this.cacheModel) {
+      entry = await this.cacheModel.applyCorrection(contentHash, correction);
+    } else {
+      const current = await this.findInTiers(contentHash);
+      entry = {
+        contentHash,
+        createdAt: current?.createdAt ?? correction.correctedAt,
+        hitCount: current?.hitCount ?? 0,
+        lastAccessedAt: current?.lastAccessedAt ?? correction.correctedAt,
+        confidence: current?.confidence,
+        qualityScore: current?.qualityScore,
+        glossaryVersion: correction.glossaryVersion ?? current?.glossaryVersion,
+        originalText: correction.originalText,
+        translatedText: correction.translatedText,
+        sourceLanguage: correction.sourceLanguage,
+        targetLanguage: correction.targetLanguage,
+        correctionId: correction.correctionId,
+        correctedBy: correction.correctedBy,
+        correctedAt: correction.correctedAt
+      };
+    }
+
+    await this.writeTiers(entry, this.tiers);
+    return entry;
+  }
+
   /**
    * 言語ペア別のキャッシュエントリを取得
    */
@@ -197,6 +594,11 @@ export class TranslationCacheService {
     }
 
     try {
+      if (!this.cacheModel) {
+        return (this.memoryTier?.values() || [])
+          .filter(entry => entry.sourceLanguage === sourceLanguage && entry.targetLanguage === targetLanguage)
+          .slice(0, limit);
+      }
       return await this.cacheModel.getByLanguagePair(sourceLanguage, targetLanguage, limit);
     } catch (error) {
       console.error('言語ペア別キャッシュ取得エラー:', error);
@@ -204,10 +606,187 @@ export class TranslationCacheService {
     }
   }
 
+  /**
+   * 条件に一致するキャッシュエントリを取得（管理用、期限切れのエントリも含む）
+   * 言語ペアを指定した場合は作成日時の新しい順、それ以外は最終参照日時の新しい順
+   * DynamoDB を使わない構成ではプロセス内キャッシュのエントリを作成日時の新しい順に返す
+   */
+  async listEntries(
+    filter: CacheEntryFilter = {},
+    limit: number = DEFAULT_ENTRY_LIST_LIMIT,
+    cursor?: string
+  ): Promise<CacheEntryListResult> {
+    this.validateEntryFilter(filter);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ENTRY_LIST_LIMIT) {
+      throw new TranslationError(`件数は1〜${MAX_ENTRY_LIST_LIMIT}で指定してください`, 'INVALID_CACHE_ENTRY_FILTER');
+    }
+    const startKey = cursor ? decodePageCursor(cursor) : undefined;
+    if (startKey === null) {
+      throw new TranslationError('無効なカーソルです', 'INVALID_CACHE_ENTRY_FILTER');
+    }
+
+    if (!this.config.enabled) {
+      return { entries: [] };
+    }
+
+    if (!this.cacheModel) {
+      const sortKey = (entry: { createdAt: string; contentHash: string }) => `${entry.createdAt}#${entry.contentHash}`;
+      const matched = (this.memoryTier?.values() || [])
+        .filter(entry => matchesCacheEntryFilter(entry, filter))
+        .filter(entry => !startKey || sortKey(entry) < sortKey(startKey as TranslationCacheEntry))
+        .sort((a, b) => sortKey(b).localeCompare(sortKey(a)));
+      const entries = matched.slice(0, limit);
+      const last = entries[entries.length - 1];
+
+      return {
+        entries,
+        ...(matched.length > limit && last && {
+          nextCursor: encodePageCursor({ createdAt: last.createdAt, contentHash: last.contentHash })
+        })
+      };
+    }
+
+    const page = await this.cacheModel.listEntries(filter, limit, startKey);
+    return {
+      entries: page.entries,
+      ...(page.lastEvaluatedKey && { nextCursor: encodePageCursor(page.lastEvaluatedKey) })
+    };
+  }
+
+  /**
+   * contentHash を指定してエントリをまとめて削除し、削除件数を返す（一括無効化用）
+   */
+  async deleteEntries(contentHashes: string[]): Promise<number> {
+    let deletedCount = 0;
+
+    for (let i = 0; i < contentHashes.length; i += TIER_BATCH_SIZE) {
+      const batch = contentHashes.slice(i, i + TIER_BATCH_SIZE);
+      if (!this.cacheModel) {
+        deletedCount += (await this.memoryTier?.getMany(batch))?.size || 0;
+      }
+      await Promise.all(batch.flatMap(contentHash => this.tiers.map(tier => tier.delete(contentHash))));
+    }
+
+    if (this.cacheModel) {
+      deletedCount = await this.cacheModel.deleteEntries(contentHashes);
+    }
+    console.log(`キャッシュエントリを${deletedCount}件削除しました`);
+    return deletedCount;
+  }
+
+  /**
+   * 削除したエントリを元の内容で保存し直し、復元した件数を返す（一括無効化の取り消し用）
+   * 削除後に保存し直されたエントリは上書きしない。上位の階層には次に参照されたときに保存される
+   */
+  async restoreEntries(entries: TranslationCacheEntry[]): Promise<number> {
+    if (this.cacheModel) {
+      return this.cacheModel.restoreEntries(entries);
+    }
+
+    let restoredCount = 0;
+    for (const entry of entries) {
+      if (this.memoryTier && !(await this.memoryTier.get(entry.contentHash))) {
+        await this.memoryTier.set(entry);
+        restoredCount += (await this.memoryTier.get(entry.contentHash)) ? 1 : 0;
+      }
+    }
+    return restoredCount;
+  }
+
+  /**
+   * 別の環境から書き出したエントリを内容を変えずに保存し、エントリごとの結果を返す（取り込み用）
+   * 同じ contentHash のエントリがある場合は policy に従う。上書きしたエントリは上位の階層から削除する
+   */
+  async importEntries(
+    entries: TranslationCacheEntry[],
+    policy: CacheImportConflictPolicy,
+    dryRun: boolean = false
+  ): Promise<CacheImportOutcome[]> {
+    if (this.cacheModel) {
+      const outcomes = await this.cacheModel.importEntries(entries, policy, dryRun);
+      if (!dryRun) {
+        await Promise.all(entries
+          .filter((_, index) => outcomes[index] === 'overwritten')
+          .flatMap(entry => this.tiers.map(tier => tier.delete(entry.contentHash))));
+      }
+      return outcomes;
+    }
+
+    const outcomes: CacheImportOutcome[] = [];
+    for (const entry of entries) {
+      const existing = await this.memoryTier?.get(entry.contentHash);
+      const outcome = resolveImportConflict(entry, existing || undefined, policy);
+      if (!dryRun && outcome !== 'skipped') {
+        await this.memoryTier?.set(entry);
+      }
+      outcomes.push(outcome);
+    }
+    return outcomes;
+  }
+
+  /**
+   * 最近参照されたエントリのうちヒット数の多いものを取得（ウォームアップ用）
+   */
+  async getHotEntries(limit: number): Promise<TranslationCacheEntry[]> {
+    if (!this.config.enabled) {
+      return [];
+    }
+
+    try {
+      if (!this.cacheModel) {
+        return (this.memoryTier?.values() || [])
+          .sort((a, b) => b.hitCount - a.hitCount)
+          .slice(0, limit);
+      }
+      return await this.cacheModel.getHotEntries(limit);
+    } catch (error) {
+      console.error('よく参照されるキャッシュエントリの取得エラー:', error);
+      return [];
+    }
+  }
+
+  /**
+   * キャッシュに保存済みかどうかを keys と同じ順序で返す
+   * ヒット率・ヒット数には含めず、上位の階層への昇格も行わない
+   */
+  async findCached(keys: CacheLookupKey[]): Promise<boolean[]> {
+    if (!this.config.enabled || keys.length === 0) {
+      return keys.map(() => false);
+    }
+
+    const contentHashes = keys.map(key =>
+      generateContentHash(key.originalText, key.sourceLanguage, key.targetLanguage, key.glossaryVersion)
+    );
+    const cached = new Set<string>();
+
+    for (const tier of this.tiers) {
+      const remaining = contentHashes.filter(contentHash => !cached.has(contentHash));
+      if (remaining.length === 0) {
+        break;
+      }
+
+      try {
+        (await tier.getMany(remaining)).forEach((_, contentHash) => cached.add(contentHash));
+      } catch (error) {
+        this.recordTierError(tier.name, error);
+      }
+    }
+
+    if (this.cacheModel && contentHashes.some(contentHash => !cached.has(contentHash))) {
+      const remainingKeys = keys.filter((_, index) => !cached.has(contentHashes[index]!));
+      (await this.cacheModel.getMany(remainingKeys, false)).forEach((_, contentHash) => cached.add(contentHash));
+    }
+
+    return contentHashes.map(contentHash => cached.has(contentHash));
+  }
+
   /**
    * キャッシュ統計情報を取得
+   * query を指定した場合は期間内の日別・言語ペア別のヒット率（timeSeries）も返す
    */
-  async getStatistics(): Promise<CacheStatistics> {
+  async getStatistics(query?: CacheStatisticsQuery): Promise<CacheStatistics> {
+    const dates = query ? this.listStatisticsDates(query.from, query.to) : [];
+
     if (!this.config.enabled) {
       return {
         totalEntries: 0,
@@ -218,7 +797,14 @@ export class TranslationCacheService {
     }
 
     try {
-      return await this.cacheModel.getStatistics();
+      const statistics = this.cacheModel
+        ? await this.cacheModel.getStatistics()
+        : this.getTierOnlyStatistics();
+      return {
+        ...statistics,
+        tiers: this.getTierStatistics(),
+        ...(query && { timeSeries: await this.getHitRateSeries(dates, query) })
+      };
     } catch (error) {
       console.error('キャッシュ統計取得エラー:', error);
       return {
@@ -232,14 +818,19 @@ export class TranslationCacheService {
 
   /**
    * 期限切れエントリのクリーンアップ
+   * dryRun が true の場合は削除せず、対象の件数だけを返す
    */
-  async cleanupExpiredEntries(): Promise<number> {
+  async cleanupExpiredEntries(dryRun: boolean = false): Promise<number> {
     if (!this.config.enabled) {
       return 0;
     }
 
     try {
-      const deletedCount = await this.cacheModel.cleanupExpiredEntries();
+      const prunedCount = this.memoryTier?.prune(dryRun) || 0;
+      const deletedCount = this.cacheModel ? await this.cacheModel.cleanupExpiredEntries(dryRun) : prunedCount;
+      if (dryRun) {
+        return deletedCount;
+      }
       console.log(`期限切れキャッシュエントリを${deletedCount}件削除しました`);
       return deletedCount;
     } catch (error) {
@@ -252,6 +843,10 @@ export class TranslationCacheService {
    * キャッシュサイズ制限の実行
    */
   private async enforceCacheSizeLimit(): Promise<void> {
+    if (!this.cacheModel) {
+      return; // プロセス内キャッシュは保存時に件数を制限している
+    }
+
     try {
       const deletedCount = await this.cacheModel.limitCacheSize(this.config.maxEntries);
       if (deletedCount > 0) {
@@ -296,22 +891,36 @@ export class TranslationCacheService {
   }
 
   /**
-   * 全キャッシュエントリを削除（テスト用）
+   * 全キャッシュエントリを削除
+   * 削除件数は DynamoDB（DynamoDB を使わない構成ではプロセス内キャッシュ）のエントリ数
+   * dryRun が true の場合は削除せず、対象の件数だけを返す
    */
-  async clearAll(): Promise<CacheOperationResult> {
+  async clearAll(dryRun: boolean = false): Promise<CacheOperationResult> {
     if (!this.config.enabled) {
       return {
         success: true,
-        fromCache: false
+        fromCache: false,
+        affectedCount: 0
       };
     }
 
     try {
-      await this.cacheModel.clearAll();
-      console.log('全キャッシュエントリを削除しました');
+      if (dryRun) {
+        return {
+          success: true,
+          fromCache: false,
+          affectedCount: this.cacheModel ? await this.cacheModel.clearAll(true) : this.memoryTier?.values().length || 0
+        };
+      }
+
+      const tierCount = this.memoryTier?.values().length || 0;
+      await Promise.all(this.tiers.map(tier => tier.clear()));
+      const deletedCount = this.cacheModel ? await this.cacheModel.clearAll() : tierCount;
+      console.log(`全キャッシュエントリを削除しました（${deletedCount}件）`);
       return {
         success: true,
-        fromCache: false
+        fromCache: false,
+        affectedCount: deletedCount
       };
     } catch (error) {
       console.error('全キャッシュクリアエラー:', error);
@@ -323,6 +932,353 @@ export class TranslationCacheService {
     }
   }
 
+  /**
+   * 定期クリーンアップを停止し、未反映のヒット数を DynamoDB に反映してから Redis の接続を閉じる
+   */
+  async close(): Promise<void> {
+    this.stopPeriodicCleanup();
+    await this.flushTierHits();
+    await this.redisTier?.close();
+  }
+
+  /**
+   * 上位の階層から順に参照し、ヒットした階層より上の階層にエントリを保存する
+   * どの階層でもヒットしなければ load で DynamoDB を参照する
+   */
+  private async lookup(
+    contentHash: string,
+    load: (model: TranslationCacheModel) => Promise<TranslationCacheEntry | null>
+  ): Promise<TranslationCacheEntry | null> {
+    const missedTiers: TranslationCacheTier[] = [];
+
+    for (const tier of this.tiers) {
+      let entry: TranslationCacheEntry | null = null;
+      try {
+        entry = await tier.get(contentHash);
+      } catch (error) {
+        this.recordTierError(tier.name, error);
+      }
+
+      if (entry) {
+        this.tierCounters[tier.name].hits++;
+        this.recordTierHit(entry);
+        await this.writeTiers(entry, missedTiers);
+        return entry;
+      }
+      this.tierCounters[tier.name].misses++;
+      missedTiers.push(tier);
+    }
+
+    if (!this.cacheModel) {
+      return null;
+    }
+
+    const entry = await load(this.cacheModel);
+    if (entry) {
+      this.tierCounters.dynamodb.hits++;
+      await this.writeTiers(entry, missedTiers);
+    } else {
+      this.tierCounters.dynamodb.misses++;
+    }
+    return entry;
+  }
+
+  /**
+   * エントリの有効期限が過ぎているか（人が修正したエントリは期限なし）
+   */
+  private isExpired(entry: TranslationCacheEntry): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt < Math.floor(Date.now() / 1000);
+  }
+
+  /**
+   * 有効期限内か、期限切れでも stale-while-revalidate の期間内のエントリか
+   */
+  private isServable(entry: TranslationCacheEntry): boolean {
+    return entry.expiresAt === undefined ||
+      entry.expiresAt + this.config.ttlPolicy.staleWhileRevalidate >= Math.floor(Date.now() / 1000);
+  }
+
+  /**
+   * ヒット数が増えて TTL ポリシーの TTL が長くなったエントリの有効期限を延長する
+   * 有効期限は翻訳結果を保存した日時（translatedAt、ない場合は作成日時）からの TTL で決め、参照のたびには延長しない
+   */
+  private async extendExpiry(model: TranslationCacheModel, entry: TranslationCacheEntry): Promise<TranslationCacheEntry> {
+    const ttl = resolveCacheTtl(this.config.ttlPolicy, this.config.ttl, entry);
+    if (ttl === undefined || entry.expiresAt === undefined) {
+      return entry;
+    }
+
+    const expiresAt = Math.floor(Date.parse(entry.translatedAt ?? entry.createdAt) / 1000) + ttl;
+    if (expiresAt > entry.expiresAt) {
+      await model.extendExpiry(entry, expiresAt);
+    }
+    return entry;
+  }
+
+  /**
+   * DynamoDB より手前の階層でのヒットをためておき、DynamoDB のヒット数にまとめて反映する
+   * 上位の階層でヒットし続けるエントリも、ヒット数・最終アクセス日時・TTL の延長が DynamoDB での参照と同じように進む
+   */
+  private recordTierHit(entry: TranslationCacheEntry): void {
+    if (!this.cacheModel) {
+      return;
+    }
+
+    const pending = this.pendingTierHits.get(entry.contentHash);
+    this.pendingTierHits.set(entry.contentHash, {
+      entry,
+      count: (pending?.count || 0) + 1,
+      lastAccessedAt: new Date().toISOString()
+    });
+
+    if (this.pendingTierHits.size >= MAX_PENDING_TIER_HITS) {
+      void this.flushTierHits();
+    } else if (!this.hitCountFlushTimer) {
+      this.hitCountFlushTimer = setTimeout(() => {
+        this.hitCountFlushTimer = undefined;
+        void this.flushTierHits();
+      }, this.config.hitCountFlushInterval * 1000);
+      // ヒット数の反映を待つためにプロセスの終了を遅らせない（終了時は close で反映する）
+      this.hitCountFlushTimer.unref();
+    }
+  }
+
+  /**
+   * ためておいた上位の階層でのヒットを DynamoDB のヒット数に加算し、TTL が長くなったエントリの有効期限を延長する
+   * 反映に失敗してもキャッシュ処理は継続する
+   */
+  private async flushTierHits(): Promise<void> {
+    if (this.hitCountFlushTimer) {
+      clearTimeout(this.hitCountFlushTimer);
+      this.hitCountFlushTimer = undefined;
+    }
+    if (!this.cacheModel || this.pendingTierHits.size === 0) {
+      return;
+    }
+
+    const increments = Array.from(this.pendingTierHits.values());
+    this.pendingTierHits.clear();
+    try {
+      const entries = await this.cacheModel.addHitCounts(increments);
+      await Promise.all(entries.map(entry => this.extendExpiry(this.cacheModel!, entry)));
+    } catch (error) {
+      console.error('上位の階層でのヒット数の反映に失敗:', error);
+    }
+  }
+
+  /**
+   * 統計に数えずに DynamoDB 以外の階層からエントリを探す
+   */
+  private async findInTiers(contentHash: string): Promise<TranslationCacheEntry | null> {
+    for (const tier of this.tiers) {
+      try {
+        const entry = await tier.get(contentHash);
+        if (entry) {
+          return entry;
+        }
+      } catch (error) {
+        this.recordTierError(tier.name, error);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 指定した階層にエントリを保存（失敗してもキャッシュ処理は継続）
+   */
+  private async writeTiers(entry: TranslationCacheEntry, tiers: TranslationCacheTier[]): Promise<void> {
+    await Promise.all(tiers.map(async tier => {
+      try {
+        await tier.set(entry);
+      } catch (error) {
+        this.recordTierError(tier.name, error);
+      }
+    }));
+  }
+
+  private recordTierError(tierName: CacheTierName, error: unknown): void {
+    this.tierCounters[tierName].errors++;
+    console.warn(`キャッシュ階層（${tierName}）の操作に失敗:`, error instanceof Error ? error.message : error);
+  }
+
+  /**
+   * 言語ペア別のヒット数・ミス数を日別に記録（記録の失敗は翻訳処理に影響させない）
+   */
+  private async recordAccess(counts: CacheAccessCount[]): Promise<void> {
+    const now = new Date();
+    const date = now.toISOString().slice(0, 10);
+
+    if (!this.cacheModel) {
+      const daily = this.dailyCounters.get(date) || { date, hitCount: 0, missCount: 0, byLanguagePair: {} };
+      for (const count of counts) {
+        const { sourceLanguage, targetLanguage } = count;
+        const pair = daily.byLanguagePair[`${sourceLanguage}-${targetLanguage}`] ??=
+          { sourceLanguage, targetLanguage, hitCount: 0, missCount: 0 };
+        pair.hitCount += count.hits;
+        pair.missCount += count.misses;
+        daily.hitCount += count.hits;
+        daily.missCount += count.misses;
+      }
+      this.dailyCounters.set(date, daily);
+      return;
+    }
+
+    const ttl = Math.floor(now.getTime() / 1000) + this.config.statisticsRetentionDays * 24 * 60 * 60;
+    try {
+      await this.cacheModel.recordAccess(date, counts, ttl);
+    } catch (error) {
+      console.error('キャッシュ参照回数の記録に失敗:', error);
+    }
+  }
+
+  /**
+   * 期間内の日別・言語ペア別のヒット率
+   * sourceLanguage・targetLanguage を指定した場合は該当する言語ペアだけを集計する
+   */
+  private async getHitRateSeries(dates: string[], query: CacheStatisticsQuery): Promise<CacheHitRateSeries> {
+    const records = this.cacheModel
+      ? await this.cacheModel.getDailyStatistics(dates)
+      : dates.map(date => this.dailyCounters.get(date) || { date, hitCount: 0, missCount: 0, byLanguagePair: {} });
+    const filtered = Boolean(query.sourceLanguage || query.targetLanguage);
+
+    const totals = { hitCount: 0, missCount: 0 };
+    const byLanguagePair: Record<string, { hitCount: number; missCount: number }> = {};
+    const daily = records.map(record => {
+      const day = filtered ? { hitCount: 0, missCount: 0 } : { hitCount: record.hitCount, missCount: record.missCount };
+
+      for (const [pair, counters] of Object.entries(record.byLanguagePair)) {
+        if ((query.sourceLanguage && query.sourceLanguage !== counters.sourceLanguage) ||
+          (query.targetLanguage && query.targetLanguage !== counters.targetLanguage)) {
+          continue;
+        }
+        const pairTotals = byLanguagePair[pair] ??= { hitCount: 0, missCount: 0 };
+        pairTotals.hitCount += counters.hitCount;
+        pairTotals.missCount += counters.missCount;
+        if (filtered) {
+          day.hitCount += counters.hitCount;
+          day.missCount += counters.missCount;
+        }
+      }
+
+      totals.hitCount += day.hitCount;
+      totals.missCount += day.missCount;
+      return { date: record.date, ...this.toHitRate(day) };
+    });
+
+    return {
+      from: dates[0]!,
+      to: dates[dates.length - 1]!,
+      ...(query.sourceLanguage && { sourceLanguage: query.sourceLanguage }),
+      ...(query.targetLanguage && { targetLanguage: query.targetLanguage }),
+      totals: this.toHitRate(totals),
+      daily,
+      byLanguagePair: Object.fromEntries(
+        Object.entries(byLanguagePair).map(([pair, counters]) => [pair, this.toHitRate(counters)])
+      )
+    };
+  }
+
+  private toHitRate(counters: { hitCount: number; missCount: number }): CacheHitRate {
+    const lookups = counters.hitCount + counters.missCount;
+    return {
+      hitCount: counters.hitCount,
+      missCount: counters.missCount,
+      hitRate: lookups > 0 ? counters.hitCount / lookups : 0
+    };
+  }
+
+  /**
+   * 統計の期間内の日付（YYYY-MM-DD）を列挙
+   * to の既定は今日、from の既定は to を含む直近7日間
+   */
+  private listStatisticsDates(from?: string, to?: string): string[] {
+    const end = new Date(`${to || new Date().toISOString().slice(0, 10)}T00:00:00.000Z`);
+    const start = from
+      ? new Date(`${from}T00:00:00.000Z`)
+      : new Date(end.getTime() - (DEFAULT_STATISTICS_DAYS - 1) * DAY_MS);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      throw new TranslationError(`無効な期間です: ${from} 〜 ${to}`, 'INVALID_CACHE_STATISTICS_PERIOD');
+    }
+
+    const days = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+    if (days > MAX_STATISTICS_DAYS) {
+      throw new TranslationError(`期間は${MAX_STATISTICS_DAYS}日以内で指定してください`, 'INVALID_CACHE_STATISTICS_PERIOD');
+    }
+
+    return Array.from({ length: days }, (_, index) =>
+      new Date(start.getTime() + index * DAY_MS).toISOString().slice(0, 10)
+    );
+  }
+
+  /**
+   * キャッシュエントリの検索条件を検証
+   */
+  private validateEntryFilter(filter: CacheEntryFilter): void {
+    const invalid = (message: string) => new TranslationError(message, 'INVALID_CACHE_ENTRY_FILTER');
+
+    for (const date of [filter.from, filter.to]) {
+      if (date !== undefined && (!DATE_PATTERN.test(date) || isNaN(new Date(`${date}T00:00:00.000Z`).getTime()))) {
+        throw invalid(`無効な日付です: ${date}`);
+      }
+    }
+    if (filter.from && filter.to && filter.from > filter.to) {
+      throw invalid(`無効な期間です: ${filter.from} 〜 ${filter.to}`);
+    }
+    for (const score of [filter.minQualityScore, filter.maxQualityScore]) {
+      if (score !== undefined && !(score >= 0 && score <= 1)) {
+        throw invalid(`品質スコアは0〜1で指定してください: ${score}`);
+      }
+    }
+    for (const count of [filter.minHitCount, filter.maxHitCount]) {
+      if (count !== undefined && !(Number.isInteger(count) && count >= 0)) {
+        throw invalid(`ヒット数は0以上の整数で指定してください: ${count}`);
+      }
+    }
+  }
+
+  /**
+   * 階層ごとのヒット・ミス統計
+   */
+  private getTierStatistics(): Record<CacheTierName, CacheTierStatistics> {
+    const statistics = {} as Record<CacheTierName, CacheTierStatistics>;
+
+    for (const name of CACHE_TIER_NAMES) {
+      const { hits, misses, errors } = this.tierCounters[name];
+      statistics[name] = {
+        enabled: this.config.tiers.includes(name),
+        hits,
+        misses,
+        hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+        errors
+      };
+    }
+    if (this.memoryTier) {
+      statistics.memory.entries = this.memoryTier.size();
+    }
+    return statistics;
+  }
+
+  /**
+   * DynamoDB を使わない構成の統計情報（プロセス内キャッシュの内容から集計）
+   */
+  private getTierOnlyStatistics(): CacheStatistics {
+    const entries = this.memoryTier?.values() || [];
+    const hitCount = this.tiers.reduce((sum, tier) => sum + this.tierCounters[tier.name].hits, 0);
+    const lastTier = this.tiers[this.tiers.length - 1];
+    const missCount = lastTier ? this.tierCounters[lastTier.name].misses : 0;
+    const createdAt = entries.map(entry => entry.createdAt).sort();
+
+    return {
+      totalEntries: entries.length,
+      hitCount,
+      missCount,
+      hitRate: hitCount + missCount > 0 ? hitCount / (hitCount + missCount) : 0,
+      oldestEntry: createdAt[0],
+      newestEntry: createdAt[createdAt.length - 1]
+    };
+  }
+
   /**
    * キャッシュ設定を取得
    */
@@ -334,7 +1290,7 @@ export class TranslationCacheService {
    * キャッシュ設定を更新
    */
   updateConfig(newConfig: Partial<CacheConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+    this.config = { ...this.config, ...newConfig, tiers: this.config.tiers };
     
     // クリーンアップ間隔が変更された場合は再起動
     if (newConfig.cleanupInterval !== undefined) {
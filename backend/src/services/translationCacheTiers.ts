@@ -0,0 +1,271 @@
+import { createClient } from 'redis';
+import { CacheTierName, TranslationCacheEntry } from '../models/translationCache';
+
+/**
+ * DynamoDB の手前に置くキャッシュ階層
+ * 参照に失敗した場合は例外を投げ、呼び出し側でミスとして扱う
+ */
+export interface TranslationCacheTier {
+  readonly name: Exclude<CacheTierName, 'dynamodb'>;
+  get(contentHash: string): Promise<TranslationCacheEntry | null>;
+  getMany(contentHashes: string[]): Promise<Map<string, TranslationCacheEntry>>;
+  set(entry: TranslationCacheEntry): Promise<void>;
+  delete(contentHash: string): Promise<void>;
+  clear(): Promise<void>;
+  size?(): number;
+}
+
+/**
+ * 階層に保持する秒数を計算
+ * エントリ自体の有効期限を超えて保持しない（人が修正したエントリは期限なし）
+ */
+function getTierTtl(entry: TranslationCacheEntry, tierTtl: number): number {
+  if (entry.expiresAt === undefined) {
+    return tierTtl;
+  }
+  return Math.min(tierTtl, entry.expiresAt - Math.floor(Date.now() / 1000));
+}
+
+/**
+ * プロセス内のLRUキャッシュ
+ * Map の挿入順を利用し、参照したエントリを末尾に移動する
+ */
+export class MemoryCacheTier implements TranslationCacheTier {
+  readonly name = 'memory' as const;
+  private entries = new Map<string, { entry: TranslationCacheEntry; expiresAt: number }>();
+
+  constructor(
+    private maxEntries: number,
+    private ttl: number // 秒単位
+  ) {}
+
+  async get(contentHash: string): Promise<TranslationCacheEntry | null> {
+    const item = this.entries.get(contentHash);
+    if (!item) {
+      return null;
+    }
+
+    this.entries.delete(contentHash);
+    if (item.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    this.entries.set(contentHash, item);
+    return { ...item.entry };
+  }
+
+  async getMany(contentHashes: string[]): Promise<Map<string, TranslationCacheEntry>> {
+    const entries = new Map<string, TranslationCacheEntry>();
+    for (const contentHash of contentHashes) {
+      const entry = await this.get(contentHash);
+      if (entry) {
+        entries.set(contentHash, entry);
+      }
+    }
+    return entries;
+  }
+
+  async set(entry: TranslationCacheEntry): Promise<void> {
+    this.entries.delete(entry.contentHash);
+
+    const ttl = getTierTtl(entry, this.ttl);
+    if (ttl <= 0 || this.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.set(entry.contentHash, { entry: { ...entry }, expiresAt: Date.now() + ttl * 1000 });
+
+    // 上限を超えた分は最も長く参照されていないエントリから削除
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(contentHash: string): Promise<void> {
+    this.entries.delete(contentHash);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * 有効期限切れのエントリを削除し、削除件数を返す（dryRun が true の場合は数えるだけ）
+   */
+  prune(dryRun: boolean = false): number {
+    const now = Date.now();
+    let deletedCount = 0;
+    for (const [contentHash, item] of this.entries) {
+      if (item.expiresAt <= now) {
+        if (!dryRun) {
+          this.entries.delete(contentHash);
+        }
+        deletedCount++;
+      }
+    }
+    return deletedCount;
+  }
+
+  /**
+   * 有効期限内のエントリを列挙（DynamoDB を使わない構成での一覧・統計用）
+   */
+  values(): TranslationCacheEntry[] {
+    this.prune();
+    return Array.from(this.entries.values(), item => ({ ...item.entry }));
+  }
+}
+
+/**
+ * Redis への接続に失敗した後、次に接続を試みるまでの待機時間（ミリ秒）
+ * 失敗が続くたびに2倍にし、上限で止める
+ */
+const REDIS_RECONNECT_BASE_DELAY = 1000;
+const REDIS_RECONNECT_MAX_DELAY = 30000;
+
+/**
+ * RedisCacheTier が使う Redis クライアントの操作
+ */
+export interface RedisCacheClient {
+  readonly isReady: boolean;
+  connect(): Promise<unknown>;
+  get(key: string): Promise<string | null>;
+  mGet(keys: string[]): Promise<(string | null)[]>;
+  set(key: string, value: string, options: { EX: number }): Promise<unknown>;
+  del(keys: string | string[]): Promise<number>;
+  scanIterator(options: { MATCH: string; COUNT: number }): AsyncIterable<string>;
+  quit(): Promise<unknown>;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+}
+
+/**
+ * Redis のキャッシュ階層
+ * 複数のAPIサーバーでキャッシュを共有する。接続できない間はすべてミスとして扱い、
+ * 翻訳処理を待たせない（再接続はクライアントがバックグラウンドで行う）
+ */
+export class RedisCacheTier implements TranslationCacheTier {
+  readonly name = 'redis' as const;
+  private client: RedisCacheClient;
+  private keyPrefix: string;
+  private connecting = false;
+  private connectFailures = 0;
+  private nextConnectAt = 0;
+
+  constructor(
+    private ttl: number, // 秒単位
+    options: { url?: string; client?: RedisCacheClient; keyPrefix?: string } = {}
+  ) {
+    this.keyPrefix = options.keyPrefix || 'translation-cache:';
+    this.client = options.client || (createClient({
+      url: options.url,
+      disableOfflineQueue: true
+    }) as unknown as RedisCacheClient);
+
+    this.client.on('error', error => {
+      console.warn('Redisキャッシュの接続エラー:', error.message);
+    });
+  }
+
+  async get(contentHash: string): Promise<TranslationCacheEntry | null> {
+    if (!this.isAvailable()) {
+      return null;
+    }
+
+    const value = await this.client.get(this.key(contentHash));
+    return value ? JSON.parse(value) as TranslationCacheEntry : null;
+  }
+
+  async getMany(contentHashes: string[]): Promise<Map<string, TranslationCacheEntry>> {
+    const entries = new Map<string, TranslationCacheEntry>();
+    if (contentHashes.length === 0 || !this.isAvailable()) {
+      return entries;
+    }
+
+    const values = await this.client.mGet(contentHashes.map(contentHash => this.key(contentHash)));
+    values.forEach((value, index) => {
+      if (value) {
+        entries.set(contentHashes[index]!, JSON.parse(value) as TranslationCacheEntry);
+      }
+    });
+    return entries;
+  }
+
+  async set(entry: TranslationCacheEntry): Promise<void> {
+    if (!this.isAvailable()) {
+      return;
+    }
+
+    const ttl = getTierTtl(entry, this.ttl);
+    if (ttl <= 0) {
+      await this.client.del(this.key(entry.contentHash));
+      return;
+    }
+    await this.client.set(this.key(entry.contentHash), JSON.stringify(entry), { EX: ttl });
+  }
+
+  async delete(contentHash: string): Promise<void> {
+    if (!this.isAvailable()) {
+      return;
+    }
+    await this.client.del(this.key(contentHash));
+  }
+
+  async clear(): Promise<void> {
+    if (!this.isAvailable()) {
+      return;
+    }
+
+    const keys: string[] = [];
+    for await (const key of this.client.scanIterator({ MATCH: `${this.keyPrefix}*`, COUNT: 500 })) {
+      keys.push(key);
+    }
+    for (let i = 0; i < keys.length; i += 500) {
+      await this.client.del(keys.slice(i, i + 500));
+    }
+  }
+
+  /**
+   * 接続を閉じる
+   */
+  async close(): Promise<void> {
+    if (!this.client.isReady) {
+      return;
+    }
+
+    try {
+      await this.client.quit();
+    } catch (error) {
+      console.warn('Redisキャッシュの切断に失敗:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * 接続済みかどうかを返し、未接続なら接続を開始する
+   * 接続後の再接続はクライアントに任せる。最初の接続に失敗した場合は待機してから次の参照で接続し直す
+   */
+  private isAvailable(): boolean {
+    if (!this.client.isReady && !this.connecting && Date.now() >= this.nextConnectAt) {
+      this.connecting = true;
+      this.client.connect()
+        .then(() => {
+          this.connectFailures = 0;
+        })
+        .catch(error => {
+          console.warn('Redisキャッシュに接続できません:', error instanceof Error ? error.message : error);
+          this.connectFailures++;
+          this.nextConnectAt = Date.now() +
+            Math.min(REDIS_RECONNECT_MAX_DELAY, REDIS_RECONNECT_BASE_DELAY * 2 ** (this.connectFailures - 1));
+          this.connecting = false;
+        });
+    }
+    return this.client.isReady;
+  }
+
+  private key(contentHash: string): string {
+    return `${this.keyPrefix}${contentHash}`;
+  }
+}
@@ -0,0 +1,239 @@
+import {
+  TranslationCacheEntry,
+  CacheEntryFilter,
+  CacheImportConflictPolicy
+} from '../models/translationCache';
+import { translationCacheService } from './translationCacheService';
+import { TranslationError } from './translationError';
+import { generateContentHash } from '../utils/translationUtils';
+
+/**
+ * 取り込みで指定できる競合時の扱い
+ */
+export const CACHE_IMPORT_CONFLICT_POLICIES: CacheImportConflictPolicy[] = ['skip', 'overwrite', 'keep-higher-quality'];
+
+/**
+ * 書き出しで1回に読むエントリ数
+ */
+const EXPORT_PAGE_SIZE = 100;
+
+/**
+ * 取り込みで1回に保存するエントリ数
+ */
+const IMPORT_BATCH_SIZE = 25;
+
+/**
+ * 取り込み結果に含める不正な行の件数
+ */
+const MAX_REPORTED_ERRORS = 100;
+
+const REQUIRED_TEXT_FIELDS = [
+  'contentHash',
+  'originalText',
+  'translatedText',
+  'sourceLanguage',
+  'targetLanguage',
+  'createdAt',
+  'lastAccessedAt'
+] as const;
+const OPTIONAL_TEXT_FIELDS = ['glossaryVersion', 'correctionId', 'correctedBy', 'correctedAt'] as const;
+const OPTIONAL_NUMBER_FIELDS = ['confidence', 'qualityScore', 'expiresAt'] as const;
+
+/**
+ * 取り込みのオプション
+ */
+export interface CacheImportOptions {
+  conflictPolicy: CacheImportConflictPolicy;
+  dryRun?: boolean; // 保存せずに件数だけを数える
+}
+
+/**
+ * 取り込めなかった行
+ */
+export interface CacheImportLineError {
+  line: number; // 1始まりの行番号
+  reason: string;
+}
+
+/**
+ * 取り込みの結果
+ */
+export interface CacheImportResult {
+  conflictPolicy: CacheImportConflictPolicy;
+  dryRun: boolean;
+  total: number; // 空行を除いた行数
+  created: number;
+  overwritten: number;
+  skipped: number; // 同じ contentHash のエントリがあり、競合時の扱いにより残した
+  expired: number; // 有効期限を過ぎているため取り込まなかった
+  invalid: number;
+  errors: CacheImportLineError[]; // 先頭の MAX_REPORTED_ERRORS 件
+}
+
+/**
+ * 翻訳キャッシュの書き出し・取り込みサービス
+ * 環境間でエントリを移せるよう、TranslationCacheEntry を1行1件の JSON（NDJSON）で書き出し・取り込む
+ */
+export class TranslationCacheTransferService {
+  /**
+   * 条件に一致するエントリを NDJSON の行として順に write に渡し、書き出した件数を返す
+   * 条件が無効な場合は write を呼ぶ前にエラーになる
+   */
+  async exportEntries(
+    filter: CacheEntryFilter,
+    write: (line: string) => Promise<void> | void
+  ): Promise<number> {
+    let exportedCount = 0;
+    let cursor: string | undefined;
+
+    do {
+      const page = await translationCacheService.listEntries(filter, EXPORT_PAGE_SIZE, cursor);
+      for (const entry of page.entries) {
+        await write(`${JSON.stringify(entry)}\n`);
+        exportedCount++;
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    console.log(`翻訳キャッシュを${exportedCount}件書き出しました`);
+    return exportedCount;
+  }
+
+  /**
+   * NDJSON の行を読みながらエントリを取り込む
+   * contentHash を原文・言語・用語集のバージョンから計算し直し、一致しない行や形式が不正な行は取り込まない
+   * 正規化を導入する前の contentHash と一致するエントリは、正規化後の contentHash に置き換えて取り込む
+   */
+  async importEntries(lines: AsyncIterable<string>, options: CacheImportOptions): Promise<CacheImportResult> {
+    if (!CACHE_IMPORT_CONFLICT_POLICIES.includes(options.conflictPolicy)) {
+      throw new TranslationError(
+        `競合時の扱いは ${CACHE_IMPORT_CONFLICT_POLICIES.join(', ')} のいずれかを指定してください`,
+        'INVALID_CACHE_IMPORT_REQUEST'
+      );
+    }
+
+    const dryRun = options.dryRun === true;
+    const result: CacheImportResult = {
+      conflictPolicy: options.conflictPolicy,
+      dryRun,
+      total: 0,
+      created: 0,
+      overwritten: 0,
+      skipped: 0,
+      expired: 0,
+      invalid: 0,
+      errors: []
+    };
+    const now = Math.floor(Date.now() / 1000);
+    let batch: TranslationCacheEntry[] = [];
+    let lineNumber = 0;
+
+    const flush = async () => {
+      const outcomes = await translationCacheService.importEntries(batch, options.conflictPolicy, dryRun);
+      outcomes.forEach(outcome => {
+        result[outcome]++;
+      });
+      batch = [];
+    };
+
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) {
+        continue;
+      }
+      result.total++;
+
+      let entry: TranslationCacheEntry;
+      try {
+        entry = this.parseEntry(line);
+      } catch (error) {
+        result.invalid++;
+        if (result.errors.length < MAX_REPORTED_ERRORS) {
+          result.errors.push({ line: lineNumber, reason: error instanceof Error ? error.message : 'Unknown error' });
+        }
+        continue;
+      }
+
+      if (entry.expiresAt !== undefined && entry.expiresAt < now) {
+        result.expired++;
+        continue;
+      }
+
+      batch.push(entry);
+      if (batch.length >= IMPORT_BATCH_SIZE) {
+        await flush();
+      }
+    }
+    if (batch.length > 0) {
+      await flush();
+    }
+
+    console.log(
+      `翻訳キャッシュを取り込みました${dryRun ? '（ドライラン）' : ''}: ` +
+      `追加 ${result.created}件、上書き ${result.overwritten}件、既存を優先 ${result.skipped}件、` +
+      `期限切れ ${result.expired}件、不正 ${result.invalid}件`
+    );
+    return result;
+  }
+
+  /**
+   * 1行を検証してエントリに変換（インデックス用の属性など、エントリ以外の項目は除く）
+   */
+  private parseEntry(line: string): TranslationCacheEntry {
+    let item: Record<string, unknown>;
+    try {
+      item = JSON.parse(line);
+    } catch {
+      throw new Error('JSON として読めません');
+    }
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error('エントリのオブジェクトではありません');
+    }
+
+    const entry: Record<string, unknown> = {};
+    for (const field of REQUIRED_TEXT_FIELDS) {
+      if (typeof item[field] !== 'string' || !item[field]) {
+        throw new Error(`${field} がありません`);
+      }
+      entry[field] = item[field];
+    }
+    for (const field of OPTIONAL_TEXT_FIELDS) {
+      if (item[field] !== undefined && item[field] !== null) {
+        if (typeof item[field] !== 'string') {
+          throw new Error(`${field} は文字列で指定してください`);
+        }
+        entry[field] = item[field];
+      }
+    }
+    for (const field of OPTIONAL_NUMBER_FIELDS) {
+      if (item[field] !== undefined && item[field] !== null) {
+        if (typeof item[field] !== 'number' || !Number.isFinite(item[field])) {
+          throw new Error(`${field} は数値で指定してください`);
+        }
+        entry[field] = item[field];
+      }
+    }
+    if (!Number.isInteger(item.hitCount) || (item.hitCount as number) < 0) {
+      throw new Error('hitCount は0以上の整数で指定してください');
+    }
+    entry.hitCount = item.hitCount;
+
+    if (isNaN(Date.parse(entry.createdAt as string)) || isNaN(Date.parse(entry.lastAccessedAt as string))) {
+      throw new Error('createdAt・lastAccessedAt は日時で指定してください');
+    }
+
+    // テキストの正規化を導入する前に書き出したエントリは、正規化後の contentHash で保存する
+    const result = entry as unknown as TranslationCacheEntry;
+    const { originalText, sourceLanguage, targetLanguage, glossaryVersion } = result;
+    const contentHash = generateContentHash(originalText, sourceLanguage, targetLanguage, glossaryVersion);
+    const legacyContentHash = generateContentHash(originalText, sourceLanguage, targetLanguage, glossaryVersion, { normalize: false });
+    if (result.contentHash !== contentHash && result.contentHash !== legacyContentHash) {
+      throw new Error('contentHash が原文・言語・用語集のバージョンと一致しません');
+    }
+
+    return { ...result, contentHash };
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationCacheTransferService = new TranslationCacheTransferService();
@@ -0,0 +1,105 @@
+import { TranslationCacheEntry } from '../models/translationCache';
+
+/**
+ * TTL の決め方
+ * - fixed: すべてのエントリに TRANSLATION_CACHE_TTL を使う
+ * - adaptive: 品質スコアとヒット数に応じて TRANSLATION_CACHE_TTL に倍率をかける
+ */
+export type CacheTtlPolicyMode = 'fixed' | 'adaptive';
+
+/**
+ * 品質スコアによる TTL の倍率（minQualityScore 以上のエントリに適用）
+ */
+export interface CacheTtlQualityTier {
+  minQualityScore: number;
+  multiplier: number;
+}
+
+/**
+ * ヒット数による TTL の倍率（minHitCount 以上のエントリに適用）
+ */
+export interface CacheTtlHitCountTier {
+  minHitCount: number;
+  multiplier: number;
+}
+
+/**
+ * キャッシュの TTL ポリシー
+ * 人が修正したエントリはポリシーによらず期限なし
+ */
+export interface CacheTtlPolicy {
+  mode: CacheTtlPolicyMode;
+  maxTtl: number; // 倍率をかけた TTL の上限（秒単位）
+  qualityTiers: CacheTtlQualityTier[]; // minQualityScore の高い順
+  hitCountTiers: CacheTtlHitCountTier[]; // minHitCount の多い順
+  staleWhileRevalidate: number; // 期限切れ後もこの秒数の間は即座に返し、バックグラウンドで翻訳し直す（0 で無効）
+}
+
+const DEFAULT_QUALITY_TIERS = '0.9:2,0.8:1,0:0.5';
+const DEFAULT_HIT_COUNT_TIERS = '100:7,10:2';
+
+/**
+ * 「閾値:倍率」のカンマ区切りを解析（不正な項目は無視する）
+ */
+function parseTiers(value: string, name: string): Array<{ threshold: number; multiplier: number }> {
+  const tiers: Array<{ threshold: number; multiplier: number }> = [];
+
+  for (const item of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [threshold, multiplier] = item.split(':').map(part => Number(part));
+    if (!Number.isFinite(threshold) || !Number.isFinite(multiplier) || threshold! < 0 || multiplier! <= 0) {
+      console.warn(`${name} の項目が不正なため無視します: ${item}`);
+      continue;
+    }
+    tiers.push({ threshold: threshold!, multiplier: multiplier! });
+  }
+
+  return tiers.sort((a, b) => b.threshold - a.threshold);
+}
+
+/**
+ * 環境変数から TTL ポリシーを読み込む
+ */
+export function loadCacheTtlPolicy(): CacheTtlPolicy {
+  const mode: CacheTtlPolicyMode = process.env.TRANSLATION_CACHE_TTL_POLICY === 'fixed' ? 'fixed' : 'adaptive';
+
+  return {
+    mode,
+    maxTtl: parseInt(process.env.TRANSLATION_CACHE_MAX_TTL || '2592000'), // 30日間
+    qualityTiers: parseTiers(
+      process.env.TRANSLATION_CACHE_TTL_QUALITY_TIERS || DEFAULT_QUALITY_TIERS,
+      'TRANSLATION_CACHE_TTL_QUALITY_TIERS'
+    ).map(tier => ({ minQualityScore: tier.threshold, multiplier: tier.multiplier })),
+    hitCountTiers: parseTiers(
+      process.env.TRANSLATION_CACHE_TTL_HIT_COUNT_TIERS || DEFAULT_HIT_COUNT_TIERS,
+      'TRANSLATION_CACHE_TTL_HIT_COUNT_TIERS'
+    ).map(tier => ({ minHitCount: tier.threshold, multiplier: tier.multiplier })),
+    staleWhileRevalidate: parseInt(process.env.TRANSLATION_CACHE_STALE_WHILE_REVALIDATE || '86400') // 24時間
+  };
+}
+
+/**
+ * エントリに与える TTL（秒単位）を計算
+ * 人が修正したエントリは期限なしのため undefined を返す
+ */
+export function resolveCacheTtl(
+  policy: CacheTtlPolicy,
+  baseTtl: number,
+  entry: Pick<TranslationCacheEntry, 'qualityScore' | 'hitCount' | 'correctedAt'>
+): number | undefined {
+  if (entry.correctedAt) {
+    return undefined;
+  }
+  if (policy.mode === 'fixed') {
+    return baseTtl;
+  }
+
+  // 品質スコアがないエントリ（古いエントリなど）は倍率をかけない
+  const qualityTier = entry.qualityScore === undefined
+    ? undefined
+    : policy.qualityTiers.find(tier => entry.qualityScore! >= tier.minQualityScore);
+  const hitCountTier = policy.hitCountTiers.find(tier => entry.hitCount >= tier.minHitCount);
+  const ttl = baseTtl * (qualityTier?.multiplier ?? 1) * (hitCountTier?.multiplier ?? 1);
+
+  // 上限が TRANSLATION_CACHE_TTL より短く設定されている場合は TRANSLATION_CACHE_TTL を上限にする
+  return Math.min(Math.max(baseTtl, policy.maxTtl), Math.round(ttl));
+}
@@ -0,0 +1,394 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PostModel } from '../models/post';
+import { CacheLookupKey } from '../models/translationCache';
+import { calculateTranslationCost, TRANSLATION_CONFIG } from '../config/translation';
+import { getTextLength, splitTextByLength } from '../utils/translationUtils';
+import { SupportedLanguage } from '../types/translation';
+import { translationService } from './translationService';
+import { translationCacheService } from './translationCacheService';
+import { translationGlossaryService } from './translationGlossaryService';
+import { translationWorkerPool } from './translationWorkerPool';
+import { languageRegistry } from './languageRegistry';
+import { TranslationError } from './translationError';
+
+/**
+ * ウォームアップの翻訳を使用量に集計するときのルート
+ */
+const WARMUP_USAGE_ROUTE = 'POST /api/translation-cache/warmup';
+
+/**
+ * キャッシュの存在確認を1回にまとめる件数
+ */
+const LOOKUP_BATCH_SIZE = 100;
+
+/**
+ * メモリに保持する実行履歴の件数
+ */
+const MAX_RUN_HISTORY = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ウォームアップの実行条件（省略した項目は設定値を使う）
+ */
+export interface CacheWarmupOptions {
+  dryRun?: boolean;
+  maxCost?: number;       // 翻訳にかける概算コストの上限（USD）
+  postLimit?: number;     // 対象にする人気の投稿数
+  entryLimit?: number;    // 対象にするよく参照されるキャッシュエントリ数
+  lookbackDays?: number;  // この日数以内に作成された投稿が対象
+  targetLanguages?: SupportedLanguage[]; // 省略時は有効なすべての言語
+}
+
+/**
+ * ウォームアップの状態
+ * estimated はドライランの見積もりで、翻訳は行っていない
+ */
+export type CacheWarmupStatus = 'estimated' | 'running' | 'completed' | 'failed';
+
+/**
+ * ウォームアップの見積もりと進捗
+ */
+export interface CacheWarmupRun {
+  runId: string;
+  status: CacheWarmupStatus;
+  dryRun: boolean;
+  targetLanguages: SupportedLanguage[];
+  maxCost: number;
+  sources: {
+    posts: number;        // 読み込んだ人気の投稿数
+    cacheEntries: number; // 読み込んだキャッシュエントリ数
+    texts: number;        // 重複を除いた翻訳元テキスト数（長文はキャッシュと同じ単位に分割）
+    skippedTexts: number; // 翻訳元の言語が不明・無効なテキスト数
+  };
+  cachedTranslations: number;   // すでにキャッシュにある翻訳数
+  plannedTranslations: number;  // コストの上限内で翻訳する数
+  skippedByCostCap: number;     // コストの上限を超えるため翻訳しない数
+  estimatedCharacters: number;
+  estimatedCost: number;        // USD
+  completedTranslations: number;
+  failedTranslations: number;
+  translatedCharacters: number; // プロバイダーで翻訳した文字数（実行中に他のリクエストがキャッシュした分は含まない）
+  progress: number;             // 0〜100（%）
+  requestedBy?: string;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+/**
+ * ウォームアップの設定
+ */
+export interface CacheWarmupConfig {
+  maxCost: number;      // USD
+  postLimit: number;
+  entryLimit: number;
+  lookbackDays: number;
+  concurrency: number;  // 同時に実行する翻訳数（ワーカープールの low 優先度で実行）
+}
+
+/**
+ * 翻訳する1件（翻訳元テキスト × 翻訳先言語）
+ */
+interface CacheWarmupItem {
+  text: string;
+  sourceLanguage: SupportedLanguage;
+  targetLanguage: SupportedLanguage;
+  characters: number;
+}
+
+/**
+ * 翻訳キャッシュのウォームアップサービス
+ * 人気の投稿とよく参照されるキャッシュエントリを、有効なすべての言語に事前に翻訳する
+ * 言語の追加やキャッシュの全件削除の直後に、読者がキャッシュミスで待たされないようにする
+ */
+export class TranslationCacheWarmupService {
+  private postModel: PostModel;
+  private config: CacheWarmupConfig;
+  private runs = new Map<string, CacheWarmupRun>();
+
+  constructor() {
+    this.postModel = new PostModel();
+
+    this.config = {
+      maxCost: parseFloat(process.env.TRANSLATION_CACHE_WARMUP_MAX_COST || '5'),
+      postLimit: parseInt(process.env.TRANSLATION_CACHE_WARMUP_POST_LIMIT || '100'),
+      entryLimit: parseInt(process.env.TRANSLATION_CACHE_WARMUP_ENTRY_LIMIT || '200'),
+      lookbackDays: parseInt(process.env.TRANSLATION_CACHE_WARMUP_LOOKBACK_DAYS || '30'),
+      concurrency: Math.max(1, parseInt(process.env.TRANSLATION_CACHE_WARMUP_CONCURRENCY || '2'))
+    };
+  }
+
+  /**
+   * 翻訳する件数と概算コストを見積もる（ドライラン）
+   */
+  async estimate(options: CacheWarmupOptions = {}, requestedBy?: string): Promise<CacheWarmupRun> {
+    const { run } = await this.plan({ ...options, dryRun: true }, requestedBy);
+    return run;
+  }
+
+  /**
+   * ウォームアップを開始し、見積もりを返す
+   * 翻訳はバックグラウンドで実行し、進捗は getRun で取得する。同時に実行できるのは1件まで
+   */
+  async start(options: CacheWarmupOptions = {}, requestedBy?: string): Promise<CacheWarmupRun> {
+    if (options.dryRun) {
+      return this.estimate(options, requestedBy);
+    }
+
+    this.assertNotRunning();
+    const { run, items } = await this.plan(options, requestedBy);
+    // 見積もり中に別の実行が始まった場合
+    this.assertNotRunning();
+
+    this.saveRun(run);
+    void this.execute(run, items);
+    console.log(`翻訳キャッシュのウォームアップを開始しました [${run.runId}]: ${run.plannedTranslations}件、概算 $${run.estimatedCost.toFixed(4)}`);
+
+    return { ...run };
+  }
+
+  /**
+   * ウォームアップの進捗を取得
+   */
+  getRun(runId: string): CacheWarmupRun {
+    const run = this.runs.get(runId);
+    if (!run) {
+      throw new TranslationError(`ウォームアップの実行が見つかりません: ${runId}`, 'CACHE_WARMUP_NOT_FOUND');
+    }
+    return { ...run };
+  }
+
+  /**
+   * 最近のウォームアップを新しい順に取得
+   */
+  listRuns(): CacheWarmupRun[] {
+    return Array.from(this.runs.values())
+      .reverse()
+      .map(run => ({ ...run }));
+  }
+
+  /**
+   * 完了まで待つ（CLI 用）
+   */
+  async waitForRun(runId: string, onProgress?: (run: CacheWarmupRun) => void, interval: number = 1000): Promise<CacheWarmupRun> {
+    let run = this.getRun(runId);
+    while (run.status === 'running') {
+      onProgress?.(run);
+      await new Promise(resolve => setTimeout(resolve, interval));
+      run = this.getRun(runId);
+    }
+    return run;
+  }
+
+  getConfig(): CacheWarmupConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 翻訳元テキストを集め、キャッシュにない翻訳をコストの上限まで選ぶ
+   * 人気の投稿（閲覧数順）、よく参照されるキャッシュエントリ（ヒット数順）の順に優先する
+   */
+  private async plan(
+    options: CacheWarmupOptions,
+    requestedBy?: string
+  ): Promise<{ run: CacheWarmupRun; items: CacheWarmupItem[] }> {
+    await languageRegistry.ensureLoaded();
+
+    const maxCost = options.maxCost ?? this.config.maxCost;
+    const targetLanguages = (options.targetLanguages || languageRegistry.getEnabledLanguageCodes())
+      .filter(code => languageRegistry.isEnabled(code));
+    const lookbackDays = options.lookbackDays ?? this.config.lookbackDays;
+
+    const postLimit = options.postLimit ?? this.config.postLimit;
+    const posts = postLimit > 0
+      ? await this.postModel.getPopularPosts({
+          limit: postLimit,
+          since: new Date(Date.now() - lookbackDays * DAY_MS).toISOString(),
+          perCategoryLimit: postLimit
+        })
+      : [];
+    const entryLimit = options.entryLimit ?? this.config.entryLimit;
+    const entries = entryLimit > 0 ? await translationCacheService.getHotEntries(entryLimit) : [];
+
+    const sources = [
+      ...posts.flatMap(post => [post.title, post.content].map(text => ({ text, sourceLanguage: post.originalLanguage }))),
+      ...entries.map(entry => ({ text: entry.originalText, sourceLanguage: entry.sourceLanguage }))
+    ];
+
+    // 翻訳元テキストを重複なく集める
+    const texts = new Map<string, { text: string; sourceLanguage: SupportedLanguage }>();
+    let skippedTexts = 0;
+    for (const source of sources) {
+      if (!source.text || !source.text.trim()) {
+        continue;
+      }
+      if (!languageRegistry.isEnabled(source.sourceLanguage) || getTextLength(source.text) > TRANSLATION_CONFIG.MAX_DOCUMENT_LENGTH) {
+        skippedTexts++;
+        continue;
+      }
+      for (const text of this.splitForCache(source.text)) {
+        texts.set(`${source.sourceLanguage}\n${text}`, { text, sourceLanguage: source.sourceLanguage });
+      }
+    }
+
+    const candidates: CacheWarmupItem[] = [];
+    for (const { text, sourceLanguage } of texts.values()) {
+      for (const targetLanguage of targetLanguages) {
+        if (targetLanguage !== sourceLanguage) {
+          candidates.push({ text, sourceLanguage, targetLanguage, characters: getTextLength(text) });
+        }
+      }
+    }
+
+    const cached = await this.findCached(candidates);
+    const items: CacheWarmupItem[] = [];
+    let estimatedCost = 0;
+    let skippedByCostCap = 0;
+    candidates.forEach((candidate, index) => {
+      if (cached[index]) {
+        return;
+      }
+      const cost = calculateTranslationCost(candidate.characters);
+      // 上限を超えたら、優先度の低い残りの翻訳はすべて見送る
+      if (skippedByCostCap > 0 || estimatedCost + cost > maxCost) {
+        skippedByCostCap++;
+        return;
+      }
+      estimatedCost += cost;
+      items.push(candidate);
+    });
+
+    const run: CacheWarmupRun = {
+      runId: uuidv4(),
+      status: options.dryRun ? 'estimated' : 'running',
+      dryRun: !!options.dryRun,
+      targetLanguages,
+      maxCost,
+      sources: {
+        posts: posts.length,
+        cacheEntries: entries.length,
+        texts: texts.size,
+        skippedTexts
+      },
+      cachedTranslations: cached.filter(Boolean).length,
+      plannedTranslations: items.length,
+      skippedByCostCap,
+      estimatedCharacters: items.reduce((sum, item) => sum + item.characters, 0),
+      estimatedCost,
+      completedTranslations: 0,
+      failedTranslations: 0,
+      translatedCharacters: 0,
+      progress: options.dryRun || items.length > 0 ? 0 : 100,
+      requestedBy,
+      startedAt: new Date().toISOString()
+    };
+
+    return { run, items };
+  }
+
+  /**
+   * 選んだ翻訳を実行し、進捗を更新する
+   * 翻訳は TranslationService 経由で行うため、キャッシュへの保存と使用量・予算の集計は通常の翻訳と同じ
+   */
+  private async execute(run: CacheWarmupRun, items: CacheWarmupItem[]): Promise<void> {
+    try {
+      await Promise.all(items.map(item =>
+        translationWorkerPool.submit(async () => {
+          try {
+            const result = await translationService.translateText({
+              text: item.text,
+              sourceLanguage: item.sourceLanguage,
+              targetLanguage: item.targetLanguage,
+              usage: { userId: run.requestedBy, route: WARMUP_USAGE_ROUTE }
+            });
+            run.completedTranslations++;
+            if (!result.fromCache) {
+              run.translatedCharacters += item.characters;
+            }
+          } catch (error) {
+            run.failedTranslations++;
+            console.warn(`ウォームアップの翻訳に失敗 [${item.sourceLanguage}-${item.targetLanguage}]:`,
+              error instanceof Error ? error.message : error);
+          }
+          run.progress = Math.floor(((run.completedTranslations + run.failedTranslations) / items.length) * 100);
+        }, {
+          priority: 'low',
+          userId: run.requestedBy,
+          groupId: `warmup:${run.runId}`,
+          groupLimit: this.config.concurrency
+        })
+      ));
+
+      run.status = items.length > 0 && run.failedTranslations === items.length ? 'failed' : 'completed';
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    run.progress = 100;
+    run.finishedAt = new Date().toISOString();
+    console.log(`翻訳キャッシュのウォームアップが終了しました [${run.runId}]: ${run.status}（完了: ${run.completedTranslations}、失敗: ${run.failedTranslations}）`);
+  }
+
+  /**
+   * 翻訳サービスと同じ単位（長文はチャンク、前後の空白を除く）に分割
+   * 長文の翻訳結果はチャンクごとにキャッシュされるため、同じ単位で確認・翻訳する
+   */
+  private splitForCache(text: string): string[] {
+    if (getTextLength(text) <= TRANSLATION_CONFIG.MAX_TEXT_LENGTH) {
+      return [text];
+    }
+    return splitTextByLength(text, TRANSLATION_CONFIG.MAX_TEXT_LENGTH)
+      .map(chunk => chunk.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * キャッシュにあるかを candidates と同じ順序で返す（用語集のバージョンを含めて確認）
+   */
+  private async findCached(candidates: CacheWarmupItem[]): Promise<boolean[]> {
+    const glossaryVersions = new Map<string, string | undefined>();
+    const keys: CacheLookupKey[] = [];
+
+    for (const candidate of candidates) {
+      const pair = `${candidate.sourceLanguage}-${candidate.targetLanguage}`;
+      if (!glossaryVersions.has(pair)) {
+        const glossary = await translationGlossaryService.getGlossary(candidate.sourceLanguage, candidate.targetLanguage);
+        glossaryVersions.set(pair, glossary.version);
+      }
+      keys.push({
+        originalText: candidate.text,
+        sourceLanguage: candidate.sourceLanguage,
+        targetLanguage: candidate.targetLanguage,
+        glossaryVersion: glossaryVersions.get(pair)
+      });
+    }
+
+    const cached: boolean[] = [];
+    for (let i = 0; i < keys.length; i += LOOKUP_BATCH_SIZE) {
+      cached.push(...await translationCacheService.findCached(keys.slice(i, i + LOOKUP_BATCH_SIZE)));
+    }
+    return cached;
+  }
+
+  private assertNotRunning(): void {
+    const running = Array.from(this.runs.values()).find(run => run.status === 'running');
+    if (running) {
+      throw new TranslationError(`ウォームアップを実行中です: ${running.runId}`, 'CACHE_WARMUP_IN_PROGRESS');
+    }
+  }
+
+  /**
+   * 実行履歴に追加し、古いものから削除する
+   */
+  private saveRun(run: CacheWarmupRun): void {
+    this.runs.set(run.runId, run);
+    while (this.runs.size > MAX_RUN_HISTORY) {
+      this.runs.delete(this.runs.keys().next().value as string);
+    }
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationCacheWarmupService = new TranslationCacheWarmupService();
@@ -0,0 +1,173 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  TranslationCorrectionModel,
+  TranslationCorrection,
+  TranslationCorrectionStatus
+} from '../models/translationCorrection';
+import { TranslationCacheEntry } from '../models/translationCache';
+import { translationCacheService } from './translationCacheService';
+import { TranslationError } from './translationError';
+
+/**
+ * 修正提案の入力
+ */
+export interface TranslationCorrectionInput {
+  translatedText: string;
+  comment?: string;
+}
+
+/**
+ * キャッシュエントリの編集履歴
+ */
+export interface TranslationCorrectionHistory {
+  entry: TranslationCacheEntry;
+  corrections: TranslationCorrection[]; // 古い順
+}
+
+/**
+ * 一覧取得の最大件数
+ */
+const MAX_LIST_LIMIT = 100;
+
+/**
+ * 翻訳の修正提案サービス
+ * ユーザーがキャッシュ済みの翻訳に修正を提案し、モデレーターが承認するとキャッシュに反映する
+ * 承認された修正は有効期限なしで保持され、機械翻訳で上書きされない
+ */
+export class TranslationCorrectionService {
+  private correctionModel: TranslationCorrectionModel;
+
+  constructor() {
+    this.correctionModel = new TranslationCorrectionModel();
+  }
+
+  /**
+   * 修正を提案
+   */
+  async proposeCorrection(
+    contentHash: string,
+    input: TranslationCorrectionInput,
+    userId?: string
+  ): Promise<TranslationCorrection> {
+    const entry = await this.getEntryOrThrow(contentHash);
+    const proposedText = input.translatedText.trim();
+
+    if (proposedText === entry.translatedText.trim()) {
+      throw new TranslationError('現在の翻訳と同じ内容です', 'TRANSLATION_CORRECTION_UNCHANGED');
+    }
+
+    const now = new Date().toISOString();
+    const correction: TranslationCorrection = {
+      contentHash,
+      correctionId: `${now}_${uuidv4()}`,
+      status: 'pending',
+      originalText: entry.originalText,
+      sourceLanguage: entry.sourceLanguage,
+      targetLanguage: entry.targetLanguage,
+      ...(entry.glossaryVersion !== undefined && { glossaryVersion: entry.glossaryVersion }),
+      previousText: entry.translatedText,
+      proposedText,
+      ...(input.comment !== undefined && { comment: input.comment }),
+      ...(userId !== undefined && { proposedBy: userId }),
+      createdAt: now
+    };
+
+    return this.correctionModel.create(correction);
+  }
+
+  /**
+   * 修正提案を承認し、キャッシュエントリに反映
+   */
+  async approveCorrection(
+    contentHash: string,
+    correctionId: string,
+    moderatorId?: string,
+    reviewComment?: string
+  ): Promise<{ correction: TranslationCorrection; entry: TranslationCacheEntry }> {
+    const correction = await this.review(contentHash, correctionId, 'approved', moderatorId, reviewComment);
+
+    const entry = await translationCacheService.applyCorrection(contentHash, {
+      originalText: correction.originalText,
+      translatedText: correction.proposedText,
+      sourceLanguage: correction.sourceLanguage,
+      targetLanguage: correction.targetLanguage,
+      ...(correction.glossaryVersion !== undefined && { glossaryVersion: correction.glossaryVersion }),
+      correctionId: correction.correctionId,
+      ...(moderatorId !== undefined && { correctedBy: moderatorId }),
+      correctedAt: correction.reviewedAt!
+    });
+
+    return { correction, entry };
+  }
+
+  /**
+   * 修正提案を却下
+   */
+  async rejectCorrection(
+    contentHash: string,
+    correctionId: string,
+    moderatorId?: string,
+    reviewComment?: string
+  ): Promise<TranslationCorrection> {
+    return this.review(contentHash, correctionId, 'rejected', moderatorId, reviewComment);
+  }
+
+  /**
+   * キャッシュエントリと編集履歴を取得
+   */
+  async getHistory(contentHash: string): Promise<TranslationCorrectionHistory> {
+    const entry = await this.getEntryOrThrow(contentHash);
+    const corrections = await this.correctionModel.listByEntry(contentHash);
+
+    return { entry, corrections };
+  }
+
+  /**
+   * 状態別に修正提案を取得（既定は審査待ち）
+   */
+  async listCorrections(status: TranslationCorrectionStatus = 'pending', limit: number = 50): Promise<TranslationCorrection[]> {
+    return this.correctionModel.listByStatus(status, Math.min(Math.max(1, limit), MAX_LIST_LIMIT));
+  }
+
+  /**
+   * 審査結果を記録
+   */
+  private async review(
+    contentHash: string,
+    correctionId: string,
+    status: 'approved' | 'rejected',
+    moderatorId?: string,
+    reviewComment?: string
+  ): Promise<TranslationCorrection> {
+    const existing = await this.correctionModel.get(contentHash, correctionId);
+    if (!existing) {
+      throw new TranslationError(`修正提案が見つかりません: ${correctionId}`, 'TRANSLATION_CORRECTION_NOT_FOUND');
+    }
+
+    const reviewed = await this.correctionModel.review(contentHash, correctionId, status, {
+      ...(moderatorId !== undefined && { reviewedBy: moderatorId }),
+      reviewedAt: new Date().toISOString(),
+      ...(reviewComment !== undefined && { reviewComment })
+    });
+    if (!reviewed) {
+      throw new TranslationError(`修正提案は既に審査済みです: ${correctionId}`, 'TRANSLATION_CORRECTION_ALREADY_REVIEWED');
+    }
+
+    console.log(`修正提案を${status === 'approved' ? '承認' : '却下'}しました: ${contentHash} (${correctionId})`);
+    return reviewed;
+  }
+
+  /**
+   * キャッシュエントリを取得（存在しない場合はエラー）
+   */
+  private async getEntryOrThrow(contentHash: string): Promise<TranslationCacheEntry> {
+    const entry = await translationCacheService.getEntry(contentHash);
+    if (!entry) {
+      throw new TranslationError(`キャッシュエントリが見つかりません: ${contentHash}`, 'TRANSLATION_CACHE_ENTRY_NOT_FOUND');
+    }
+    return entry;
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationCorrectionService = new TranslationCorrectionService();
@@ -0,0 +1,17 @@
+import { TranslationErrorCode } from '../types/translation';
+
+/**
+ * 翻訳サービスのエラークラス
+ * retryable が true のエラー（スロットリング・一時的な障害）は再試行の対象になる
+ */
+export class TranslationError extends Error {
+  constructor(
+    message: string,
+    public code: TranslationErrorCode,
+    public originalError?: Error,
+    public retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'TranslationError';
+  }
+}
@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { TranslationGlossaryModel, GlossaryEntry, GLOSSARY_ANY_LANGUAGE } from '../models/translationGlossary';
+import { TranslationError } from './translationError';
+
+/**
+ * 用語集エントリの作成・更新入力
+ */
+export interface GlossaryEntryInput {
+  term: string;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  translation?: string;
+  doNotTranslate?: boolean;
+  caseSensitive?: boolean;
+  description?: string;
+}
+
+/**
+ * 言語ペアに適用する用語集
+ * version は適用される用語の内容から算出し、キャッシュキーに含める
+ */
+export interface ResolvedGlossary {
+  version?: string;
+  terms: Array<{
+    term: string;
+    replacement?: string; // 未指定の場合は原文のまま保持
+    caseSensitive: boolean;
+  }>;
+}
+
+/**
+ * 用語集設定の型定義
+ */
+export interface GlossaryConfig {
+  enabled: boolean;
+  refreshInterval: number; // 秒単位
+}
+
+/**
+ * 翻訳用語集サービス
+ * AWSサービス名などの固有名詞を翻訳させないための用語集を管理する
+ */
+export class TranslationGlossaryService {
+  private glossaryModel: TranslationGlossaryModel;
+  private config: GlossaryConfig;
+  private entries: GlossaryEntry[] = [];
+  private loadedAt = 0;
+  private loading?: Promise<GlossaryEntry[]>;
+
+  constructor() {
+    this.glossaryModel = new TranslationGlossaryModel();
+
+    this.config = {
+      enabled: process.env.TRANSLATION_GLOSSARY_ENABLED !== 'false',
+      refreshInterval: parseInt(process.env.TRANSLATION_GLOSSARY_REFRESH_INTERVAL || '60') // 1分
+    };
+  }
+
+  /**
+   * 言語ペアに適用する用語集を取得
+   * 用語集の読み込みに失敗した場合は最後に読み込んだ内容で翻訳を継続する
+   */
+  async getGlossary(sourceLanguage: string, targetLanguage: string): Promise<ResolvedGlossary> {
+    if (!this.config.enabled) {
+      return { terms: [] };
+    }
+
+    let entries: GlossaryEntry[];
+    try {
+      entries = await this.loadEntries();
+    } catch (error) {
+      console.warn('用語集の読み込みに失敗したため前回の内容を使用します:', error);
+      entries = this.entries;
+    }
+
+    // 同じ用語が複数ある場合は言語指定が具体的なエントリを優先
+    const applicable = new Map<string, GlossaryEntry>();
+    for (const entry of entries.filter(e => this.matchesPair(e, sourceLanguage, targetLanguage))) {
+      const key = entry.caseSensitive ? entry.term : entry.term.toLowerCase();
+      const current = applicable.get(key);
+      if (!current || this.specificity(entry) > this.specificity(current)) {
+        applicable.set(key, entry);
+      }
+    }
+
+    const terms = Array.from(applicable.values())
+      .sort((a, b) => a.term.localeCompare(b.term))
+      .map(entry => ({
+        term: entry.term,
+        replacement: entry.doNotTranslate ? undefined : entry.translation,
+        caseSensitive: entry.caseSensitive
+      }));
+
+    if (terms.length === 0) {
+      return { terms };
+    }
+
+    const version = crypto
+      .createHash('sha256')
+      .update(JSON.stringify(terms), 'utf8')
+      .digest('hex')
+      .slice(0, 16);
+
+    return { version, terms };
+  }
+
+  /**
+   * 用語集エントリの一覧を取得
+   */
+  async listEntries(sourceLanguage?: string, targetLanguage?: string): Promise<GlossaryEntry[]> {
+    const entries = await this.loadEntries(true);
+
+    return entries
+      .filter(entry => !sourceLanguage || entry.sourceLanguage === sourceLanguage || entry.sourceLanguage === GLOSSARY_ANY_LANGUAGE)
+      .filter(entry => !targetLanguage || entry.targetLanguage === targetLanguage || entry.targetLanguage === GLOSSARY_ANY_LANGUAGE)
+      .sort((a, b) => a.term.localeCompare(b.term));
+  }
+
+  /**
+   * 用語集エントリを取得
+   */
+  async getEntry(termId: string): Promise<GlossaryEntry> {
+    const entry = await this.glossaryModel.get(termId);
+
+    if (!entry) {
+      throw new TranslationError(
+        `用語集エントリが見つかりません: ${termId}`,
+        'GLOSSARY_TERM_NOT_FOUND'
+      );
+    }
+
+    return entry;
+  }
+
+  /**
+   * 用語集エントリを作成
+   */
+  async createEntry(input: GlossaryEntryInput, userId?: string): Promise<GlossaryEntry> {
+    const now = new Date().toISOString();
+    const entry: GlossaryEntry = {
+      ...this.normalizeInput(input),
+      termId: uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+      createdBy: userId,
+      updatedBy: userId
+    };
+
+    await this.assertNoDuplicate(entry);
+    await this.glossaryModel.put(entry);
+    this.invalidate();
+
+    return entry;
+  }
+
+  /**
+   * 用語集エントリを更新
+   */
+  async updateEntry(termId: string, input: GlossaryEntryInput, userId?: string): Promise<GlossaryEntry> {
+    const existing = await this.getEntry(termId);
+    const entry: GlossaryEntry = {
+      ...this.normalizeInput(input),
+      termId,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+      createdBy: existing.createdBy,
+      updatedBy: userId
+    };
+
+    await this.assertNoDuplicate(entry);
+    await this.glossaryModel.put(entry);
+    this.invalidate();
+
+    return entry;
+  }
+
+  /**
+   * 用語集エントリを削除
+   */
+  async deleteEntry(termId: string): Promise<void> {
+    await this.getEntry(termId);
+    await this.glossaryModel.delete(termId);
+    this.invalidate();
+  }
+
+  /**
+   * メモリ上の用語集を破棄し、次回参照時に再読み込みする
+   */
+  invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  /**
+   * 用語集設定を取得
+   */
+  getConfig(): GlossaryConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 用語集を読み込み（更新間隔内はメモリ上の内容を使用）
+   */
+  private async loadEntries(forceRefresh: boolean = false): Promise<GlossaryEntry[]> {
+    const isFresh = Date.now() - this.loadedAt < this.config.refreshInterval * 1000;
+    if (!forceRefresh && isFresh) {
+      return this.entries;
+    }
+
+    // 同時に複数の読み込みが走らないようにする
+    if (!this.loading) {
+      this.loading = this.glossaryModel.getAll()
+        .then(entries => {
+          this.entries = entries;
+          this.loadedAt = Date.now();
+          return entries;
+        })
+        .finally(() => {
+          this.loading = undefined;
+        });
+    }
+
+    return this.loading;
+  }
+
+  /**
+   * 入力値を正規化
+   */
+  private normalizeInput(input: GlossaryEntryInput): Omit<GlossaryEntry, 'termId' | 'createdAt' | 'updatedAt'> {
+    const doNotTranslate = input.doNotTranslate ?? !input.translation;
+
+    return {
+      term: input.term.trim(),
+      sourceLanguage: input.sourceLanguage || GLOSSARY_ANY_LANGUAGE,
+      targetLanguage: input.targetLanguage || GLOSSARY_ANY_LANGUAGE,
+      translation: doNotTranslate ? undefined : input.translation,
+      doNotTranslate,
+      caseSensitive: input.caseSensitive ?? true,
+      description: input.description
+    };
+  }
+
+  /**
+   * 同じ言語ペアに同じ用語が登録されていないか確認
+   */
+  private async assertNoDuplicate(entry: GlossaryEntry): Promise<void> {
+    const entries = await this.loadEntries(true);
+    const duplicate = entries.find(existing =>
+      existing.termId !== entry.termId &&
+      existing.sourceLanguage === entry.sourceLanguage &&
+      existing.targetLanguage === entry.targetLanguage &&
+      existing.term.toLowerCase() === entry.term.toLowerCase()
+    );
+
+    if (duplicate) {
+      throw new TranslationError(
+        `同じ言語ペアに既に登録されている用語です: ${entry.term}`,
+        'GLOSSARY_TERM_EXISTS'
+      );
+    }
+  }
+
+  /**
+   * エントリが言語ペアに適用されるか判定
+   */
+  private matchesPair(entry: GlossaryEntry, sourceLanguage: string, targetLanguage: string): boolean {
+    return (entry.sourceLanguage === GLOSSARY_ANY_LANGUAGE || entry.sourceLanguage === sourceLanguage) &&
+      (entry.targetLanguage === GLOSSARY_ANY_LANGUAGE || entry.targetLanguage === targetLanguage);
+  }
+
+  /**
+   * 言語指定の具体性（言語ペア指定 > 片方のみ指定 > 全言語）
+   */
+  private specificity(entry: GlossaryEntry): number {
+    return (entry.sourceLanguage === GLOSSARY_ANY_LANGUAGE ? 0 : 1) +
+      (entry.targetLanguage === GLOSSARY_ANY_LANGUAGE ? 0 : 1);
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationGlossaryService = new TranslationGlossaryService();
@@ -0,0 +1,407 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  TranslationJobModel,
+  TranslationJob,
+  TranslationJobItem,
+  TranslationJobStatus
+} from '../models/translationJob';
+import { translationService } from './translationService';
+import { translationWorkerPool } from './translationWorkerPool';
+import { TranslationError } from './translationError';
+import { SupportedLanguage, TranslationPriority } from '../types/translation';
+
+/**
+ * 翻訳ジョブの作成入力
+ */
+export interface TranslationJobInput {
+  texts: string[];
+  targetLanguage: SupportedLanguage;
+  sourceLanguage?: SupportedLanguage;
+  priority?: TranslationPriority;
+  preserveFormatting?: boolean;
+}
+
+/**
+ * 進捗と途中結果を含む翻訳ジョブ
+ */
+export interface TranslationJobDetail extends TranslationJob {
+  progress: number; // 0〜100（%）
+  items: TranslationJobItem[];
+}
+
+/**
+ * 翻訳ジョブ設定の型定義
+ */
+export interface TranslationJobConfig {
+  concurrency: number;     // 同時に実行するジョブ数
+  itemConcurrency: number; // 1ジョブあたりの同時翻訳数
+  retentionDays: number;   // ジョブの保持期間（日）
+  leaseSeconds: number;    // ジョブの実行権（リース）の有効期間（秒）
+  resumeIntervalSeconds: number; // 他のインスタンスが中断したジョブを探す間隔（秒）
+  defaultPriority: TranslationPriority;
+}
+
+/**
+ * 未完了とみなすジョブの状態（再起動時に再開する）
+ */
+const RESUMABLE_STATUSES: TranslationJobStatus[] = ['running', 'queued'];
+
+/**
+ * 非同期翻訳ジョブサービス
+ * ジョブはDynamoDBに保存し、プロセス内のワーカーが翻訳ワーカープール経由で実行する
+ * 翻訳結果はテキストごとに保存するため、再起動後は未処理のテキストから再開できる
+ */
+export class TranslationJobService {
+  private jobModel: TranslationJobModel;
+  private config: TranslationJobConfig;
+  private pendingJobIds: string[] = [];
+  private runningJobIds = new Set<string>();
+  private cancelledJobIds = new Set<string>(); // キャンセルされた、またはリースを失った実行中のジョブ
+  private started = false;
+  private resumeTimer: NodeJS.Timeout | null = null;
+  // ジョブのリースの所有者として記録するインスタンスID
+  private instanceId = uuidv4();
+
+  constructor() {
+    this.jobModel = new TranslationJobModel();
+
+    this.config = {
+      concurrency: Math.max(1, parseInt(process.env.TRANSLATION_JOB_CONCURRENCY || '2')),
+      itemConcurrency: Math.max(1, parseInt(process.env.TRANSLATION_JOB_ITEM_CONCURRENCY || '5')),
+      retentionDays: parseInt(process.env.TRANSLATION_JOB_RETENTION_DAYS || '7'),
+      leaseSeconds: Math.max(1, parseInt(process.env.TRANSLATION_JOB_LEASE_SECONDS || '60')),
+      resumeIntervalSeconds: Math.max(1, parseInt(process.env.TRANSLATION_JOB_RESUME_INTERVAL_SECONDS || '60')),
+      defaultPriority: 'low'
+    };
+  }
+
+  /**
+   * ワーカーを開始し、未完了のジョブを再開する
+   * 各ジョブはリースを取得できた1つのインスタンスだけが実行する
+   * リースが切れたジョブ（停止したインスタンスのジョブ）も定期的に探して引き継ぐ
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    await this.resumeUnfinishedJobs();
+    console.log(`翻訳ジョブワーカーを開始しました（再開候補: ${this.pendingJobIds.length + this.runningJobIds.size}件）`);
+
+    this.resumeTimer = setInterval(() => {
+      void this.resumeUnfinishedJobs();
+    }, this.config.resumeIntervalSeconds * 1000);
+    this.resumeTimer.unref();
+  }
+
+  /**
+   * ワーカーを停止する
+   * 実行中のテキストは完了まで待たず、再起動後に未処理分から再開する
+   */
+  stop(): void {
+    this.started = false;
+    this.pendingJobIds = [];
+    if (this.resumeTimer) {
+      clearInterval(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+  }
+
+  /**
+   * ジョブを作成してキューに投入
+   */
+  async createJob(input: TranslationJobInput, userId?: string): Promise<TranslationJob> {
+    const now = new Date();
+    const timestamp = now.toISOString();
+    const ttl = Math.floor(now.getTime() / 1000) + this.config.retentionDays * 86400;
+    const jobId = uuidv4();
+
+    const job: TranslationJob = {
+      jobId,
+      status: 'queued',
+      userId,
+      sourceLanguage: input.sourceLanguage,
+      targetLanguage: input.targetLanguage,
+      priority: input.priority || this.config.defaultPriority,
+      preserveFormatting: input.preserveFormatting,
+      totalCount: input.texts.length,
+      completedCount: 0,
+      errorCount: 0,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      ttl
+    };
+
+    const items: TranslationJobItem[] = input.texts.map((text, index) => ({
+      jobId,
+      index,
+      itemStatus: 'pending',
+      originalText: text,
+      updatedAt: timestamp,
+      ttl
+    }));
+
+    await this.jobModel.create(job, items);
+    this.schedule(jobId);
+
+    return job;
+  }
+
+  /**
+   * ジョブの進捗と途中結果を取得
+   * 他のユーザーのジョブは存在しないものとして扱う
+   */
+  async getJob(jobId: string, userId?: string): Promise<TranslationJobDetail> {
+    const job = await this.getOwnedJob(jobId, userId);
+    const items = await this.jobModel.getItems(jobId);
+
+    return {
+      ...job,
+      progress: this.calculateProgress(job),
+      items
+    };
+  }
+
+  /**
+   * ジョブをキャンセル
+   * 翻訳済みのテキストの結果は保持する
+   */
+  async cancelJob(jobId: string, userId?: string): Promise<TranslationJob> {
+    await this.getOwnedJob(jobId, userId);
+
+    const cancelled = await this.jobModel.updateStatus(
+      jobId,
+      'cancelled',
+      { finishedAt: new Date().toISOString() },
+      ['queued', 'running']
+    );
+
+    if (!cancelled) {
+      throw new TranslationError(`完了したジョブはキャンセルできません: ${jobId}`, 'TRANSLATION_JOB_NOT_CANCELLABLE');
+    }
+
+    if (this.runningJobIds.has(jobId)) {
+      this.cancelledJobIds.add(jobId);
+    }
+    this.pendingJobIds = this.pendingJobIds.filter(id => id !== jobId);
+    console.log(`翻訳ジョブをキャンセルしました: ${jobId}`);
+
+    return cancelled;
+  }
+
+  /**
+   * ワーカーの状態を取得
+   */
+  getStatus(): { running: number; queued: number; config: TranslationJobConfig } {
+    return {
+      running: this.runningJobIds.size,
+      queued: this.pendingJobIds.length,
+      config: { ...this.config }
+    };
+  }
+
+  /**
+   * 未完了のジョブを作成日時順に実行待ちに追加
+   * 実行するかどうかは processJob() でリースを取得できたかで決まる
+   */
+  private async resumeUnfinishedJobs(): Promise<void> {
+    try {
+      for (const status of RESUMABLE_STATUSES) {
+        const jobs = await this.jobModel.listByStatus(status);
+        jobs
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+          .forEach(job => this.schedule(job.jobId));
+      }
+    } catch (error) {
+      console.error('未完了の翻訳ジョブの再開に失敗:', error);
+    }
+  }
+
+  /**
+   * ジョブを実行待ちに追加
+   * ワーカー停止中に作成されたジョブは start() で再開する
+   */
+  private schedule(jobId: string): void {
+    if (!this.started || this.runningJobIds.has(jobId) || this.pendingJobIds.includes(jobId)) {
+      return;
+    }
+
+    this.pendingJobIds.push(jobId);
+    this.drain();
+  }
+
+  /**
+   * 空きがある限りジョブを実行
+   */
+  private drain(): void {
+    while (this.runningJobIds.size < this.config.concurrency && this.pendingJobIds.length > 0) {
+      const jobId = this.pendingJobIds.shift() as string;
+      this.runningJobIds.add(jobId);
+
+      this.processJob(jobId)
+        .catch(error => {
+          console.error(`翻訳ジョブの実行に失敗 [${jobId}]:`, error);
+        })
+        .finally(() => {
+          this.runningJobIds.delete(jobId);
+          this.cancelledJobIds.delete(jobId);
+          this.drain();
+        });
+    }
+  }
+
+  /**
+   * ジョブのリースを取得して実行
+   * 他のインスタンスがリースを保持しているジョブは実行しない
+   * 実行中はリースを延長し続け、失った場合は以降のテキストを翻訳せずに中断する
+   */
+  private async processJob(jobId: string): Promise<void> {
+    const job = await this.jobModel.get(jobId);
+    if (!job || !RESUMABLE_STATUSES.includes(job.status)) {
+      return;
+    }
+
+    const leaseMs = this.config.leaseSeconds * 1000;
+    if (!(await this.jobModel.claim(jobId, this.instanceId, Date.now() + leaseMs))) {
+      return;
+    }
+
+    const renewTimer = setInterval(() => {
+      this.jobModel.renewLease(jobId, this.instanceId, Date.now() + leaseMs)
+        .then(renewed => {
+          if (!renewed) {
+            console.warn(`翻訳ジョブのリースを失ったため中断します [${jobId}]`);
+            this.cancelledJobIds.add(jobId);
+          }
+        })
+        .catch(error => {
+          console.error(`翻訳ジョブのリースの延長に失敗 [${jobId}]:`, error);
+        });
+    }, Math.max(1000, Math.floor(leaseMs / 3)));
+
+    try {
+      await this.runJob(job);
+    } finally {
+      clearInterval(renewTimer);
+      await this.jobModel.releaseLease(jobId, this.instanceId);
+    }
+  }
+
+  /**
+   * ジョブを実行
+   * 翻訳済みのテキストは飛ばし、未処理のテキストのみ翻訳する
+   */
+  private async runJob(job: TranslationJob): Promise<void> {
+    const { jobId } = job;
+    const items = await this.jobModel.getItems(jobId);
+    const pendingItems = items.filter(item => item.itemStatus === 'pending');
+
+    // 再開時は保存済みの結果から進捗を数え直す
+    const running = await this.jobModel.updateStatus(jobId, 'running', {
+      completedCount: items.filter(item => item.itemStatus === 'completed').length,
+      errorCount: items.filter(item => item.itemStatus === 'failed').length,
+      startedAt: job.startedAt || new Date().toISOString()
+    }, RESUMABLE_STATUSES);
+    if (!running) {
+      return;
+    }
+
+    console.log(`翻訳ジョブを開始しました [${jobId}]: 未処理 ${pendingItems.length}/${job.totalCount}件`);
+
+    await Promise.all(pendingItems.map(item =>
+      translationWorkerPool.submit(async () => {
+        if (this.cancelledJobIds.has(jobId) || !this.started) {
+          return;
+        }
+
+        const updated = await this.jobModel.saveItemResult(await this.translateItem(job, item));
+        if (updated.status === 'cancelled') {
+          this.cancelledJobIds.add(jobId);
+        }
+      }, {
+        priority: job.priority,
+        userId: job.userId,
+        groupId: `job:${jobId}`,
+        groupLimit: this.config.itemConcurrency
+      })
+    ));
+
+    if (this.cancelledJobIds.has(jobId) || !this.started) {
+      return;
+    }
+
+    const latest = await this.jobModel.get(jobId);
+    const status: TranslationJobStatus = latest && latest.totalCount > 0 && latest.errorCount === latest.totalCount
+      ? 'failed'
+      : 'completed';
+    await this.jobModel.updateStatus(jobId, status, { finishedAt: new Date().toISOString() }, ['running']);
+
+    console.log(`翻訳ジョブが終了しました [${jobId}]: ${status}`);
+  }
+
+  /**
+   * ジョブ内のテキストを1件翻訳（キャッシュは TranslationService 側で利用）
+   */
+  private async translateItem(job: TranslationJob, item: TranslationJobItem): Promise<TranslationJobItem> {
+    const updatedAt = new Date().toISOString();
+
+    try {
+      const result = await translationService.translateText({
+        text: item.originalText.trim(),
+        sourceLanguage: job.sourceLanguage,
+        targetLanguage: job.targetLanguage,
+        ...(job.preserveFormatting !== undefined && { preserveFormatting: job.preserveFormatting }),
+        usage: { userId: job.userId, route: 'POST /api/translate/jobs' }
+      });
+
+      return {
+        ...item,
+        itemStatus: 'completed',
+        translatedText: result.translatedText,
+        sourceLanguage: result.sourceLanguage,
+        confidence: result.confidence,
+        fromCache: result.fromCache,
+        processingTime: result.processingTime,
+        updatedAt
+      };
+    } catch (error) {
+      return {
+        ...item,
+        itemStatus: 'failed',
+        error: {
+          code: error instanceof TranslationError ? error.code : 'TRANSLATION_ERROR',
+          message: error instanceof Error ? error.message : '翻訳中にエラーが発生しました',
+          retryable: error instanceof TranslationError ? error.retryable : false
+        },
+        updatedAt
+      };
+    }
+  }
+
+  /**
+   * ジョブを取得し、所有者を確認
+   */
+  private async getOwnedJob(jobId: string, userId?: string): Promise<TranslationJob> {
+    const job = await this.jobModel.get(jobId);
+
+    if (!job || (job.userId && job.userId !== userId)) {
+      throw new TranslationError(`翻訳ジョブが見つかりません: ${jobId}`, 'TRANSLATION_JOB_NOT_FOUND');
+    }
+
+    return job;
+  }
+
+  /**
+   * 進捗率を算出
+   */
+  private calculateProgress(job: TranslationJob): number {
+    if (job.totalCount === 0) {
+      return 100;
+    }
+    return Math.floor(((job.completedCount + job.errorCount) / job.totalCount) * 100);
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationJobService = new TranslationJobService();
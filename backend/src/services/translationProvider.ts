@@ -0,0 +1,62 @@
+import { AmazonTranslateProvider } from './amazonTranslateProvider';
+import { LocalTranslationProvider } from './localTranslationProvider';
+import { LanguageDetectionResult } from '../types/translation';
+
+/**
+ * プロバイダーへの翻訳リクエスト
+ * sourceLanguage に 'auto' が渡された場合はプロバイダー側で自動検出する
+ */
+export interface ProviderTranslateRequest {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+/**
+ * プロバイダーからの翻訳結果
+ */
+export interface ProviderTranslateResult {
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+/**
+ * プロバイダーのヘルスチェック結果
+ */
+export interface ProviderHealthResult {
+  status: 'healthy' | 'unhealthy';
+  message: string;
+}
+
+/**
+ * 翻訳プロバイダーのインターフェース
+ * TranslationService は設定に応じていずれかの実装を使用する
+ */
+export interface TranslationProvider {
+  readonly name: string;
+  translate(request: ProviderTranslateRequest): Promise<ProviderTranslateResult>;
+  detect(text: string): Promise<LanguageDetectionResult>;
+  listLanguages(): Promise<string[]>;
+  healthCheck(): Promise<ProviderHealthResult>;
+}
+
+/**
+ * 利用可能なプロバイダー名
+ */
+export type TranslationProviderName = 'amazon' | 'local';
+
+/**
+ * 設定されたプロバイダー名から実装を生成
+ */
+export function createTranslationProvider(name: string): TranslationProvider {
+  switch (name) {
+    case 'local':
+      return new LocalTranslationProvider();
+    case 'amazon':
+      return new AmazonTranslateProvider();
+    default:
+      console.warn(`不明な翻訳プロバイダーです: ${name}（amazon を使用します）`);
+      return new AmazonTranslateProvider();
+  }
+}
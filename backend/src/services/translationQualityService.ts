@@ -0,0 +1,103 @@
+import { getTranslationConfig } from '../config/translation';
+import { TranslationError } from './translationError';
+import { assessTranslationQuality, getTextLength, TranslationQualityAssessment } from '../utils/translationUtils';
+
+/**
+ * 品質評価の対象となる翻訳
+ */
+export interface TranslationQualityInput {
+  originalText: string;
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  confidence?: number;
+}
+
+/**
+ * 翻訳品質の評価結果
+ */
+export interface TranslationQualityReport extends TranslationQualityAssessment {
+  backTranslated: boolean; // 逆翻訳で検証したか
+  suspicious: boolean;     // 警告があるか
+}
+
+/**
+ * 翻訳品質評価の設定
+ */
+export interface TranslationQualityConfig {
+  backTranslationRate: number;      // 逆翻訳で検証する割合（0〜1）
+  backTranslationMaxLength: number; // 逆翻訳で検証する最大文字数（長文はコストが高いため対象外）
+}
+
+/**
+ * 翻訳品質評価サービス
+ * 全ての翻訳を静的な検査（長さ・数値・URL・プレースホルダーの保持）で評価し、
+ * 一部を逆翻訳して原文との chrF でも評価する
+ */
+export class TranslationQualityService {
+  private config: TranslationQualityConfig;
+
+  constructor(private random: () => number = Math.random) {
+    const translationConfig = getTranslationConfig();
+
+    this.config = {
+      backTranslationRate: Math.min(1, Math.max(0, translationConfig.backTranslationRate)),
+      backTranslationMaxLength: translationConfig.backTranslationMaxLength
+    };
+  }
+
+  /**
+   * 翻訳品質を評価
+   * 逆翻訳に失敗した場合や予算を超える場合は静的な検査のみで評価する（翻訳自体は失敗させない）
+   */
+  async evaluate(
+    input: TranslationQualityInput,
+    backTranslate: (text: string) => Promise<string>
+  ): Promise<TranslationQualityReport> {
+    let backTranslatedText: string | undefined;
+
+    if (this.shouldBackTranslate(input.originalText)) {
+      try {
+        backTranslatedText = await backTranslate(input.translatedText);
+      } catch (error) {
+        if (error instanceof TranslationError && error.code === 'TRANSLATION_BUDGET_EXCEEDED') {
+          console.log(`翻訳予算を超えるため逆翻訳による品質検証を省略します (${input.targetLanguage} → ${input.sourceLanguage})`);
+        } else {
+          console.warn(`逆翻訳による品質検証に失敗しました (${input.targetLanguage} → ${input.sourceLanguage}):`, error);
+        }
+      }
+    }
+
+    const assessment = assessTranslationQuality(input.originalText, input.translatedText, {
+      confidence: input.confidence,
+      backTranslatedText
+    });
+    const report: TranslationQualityReport = {
+      ...assessment,
+      backTranslated: backTranslatedText !== undefined,
+      suspicious: assessment.flags.length > 0
+    };
+
+    if (report.suspicious) {
+      console.warn(`翻訳品質の警告 (${input.sourceLanguage} → ${input.targetLanguage}): スコア ${report.score}, ${report.flags.join(', ')}`);
+    }
+
+    return report;
+  }
+
+  /**
+   * 設定を取得
+   */
+  getConfig(): TranslationQualityConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 逆翻訳で検証するかを判定
+   */
+  private shouldBackTranslate(text: string): boolean {
+    return this.config.backTranslationRate > 0 &&
+      getTextLength(text) <= this.config.backTranslationMaxLength &&
+      this.random() < this.config.backTranslationRate;
+  }
+}
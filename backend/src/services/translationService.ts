@@ -1,96 +1,132 @@
-import { TranslateClient, TranslateTextCommand } from '@aws-sdk/client-translate';
 import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
 import { SSMClient, GetParameterCommand } from '@aws-sdk/client-ssm';
-import { translationCacheService } from './translationCacheService';
+import { translationCacheService, CacheOperationResult } from './translationCacheService';
+import { translationGlossaryService } from './translationGlossaryService';
+import { TranslationQualityService } from './translationQualityService';
+import { translationUsageService } from './translationUsageService';
+import { TranslationError } from './translationError';
+import { TranslationProvider, ProviderTranslateRequest, ProviderTranslateResult, createTranslationProvider } from './translationProvider';
+import { getTranslationConfig, TRANSLATION_CONFIG } from '../config/translation';
+import { languageRegistry } from './languageRegistry';
+import {
+  getTextLength,
+  splitIntoSentences,
+  splitTextByLength,
+  mergeTranslationResults,
+  protectMarkdown,
+  protectTerms,
+  restoreMarkdownWithReport,
+  splitMarkdownLines
+} from '../utils/translationUtils';
+import { withRetry } from '../utils/retry';
+import { CircuitBreaker, CircuitBreakerStatus, CircuitOpenError } from '../utils/circuitBreaker';
+import {
+  SupportedLanguage,
+  TranslationRequest,
+  TranslationResult,
+  MultiLanguageTranslationRequest,
+  MultiLanguageTranslationResult,
+  ChunkTranslationError,
+  TranslatedChunk,
+  LanguageDetectionResult,
+  LanguageDefinition,
+  TranslationQualityFlag,
+  TranslationUsageContext
+} from '../types/translation';
+
+export { TranslationError };
 
 /**
- * 翻訳サービスのエラークラス
+ * 期限切れのキャッシュをバックグラウンドで翻訳し直すときの使用量の集計先
+ * 期限切れのエントリを参照したユーザーではなく、システムの使用量として記録する
  */
-export class TranslationError extends Error {
-  constructor(
-    message: string,
-    public code: string,
-    public originalError?: Error
-  ) {
-    super(message);
-    this.name = 'TranslationError';
-  }
-}
+const REVALIDATE_USAGE: TranslationUsageContext = { route: 'cache:revalidate' };
 
 /**
- * 翻訳リクエストの型定義
+ * 逆翻訳による品質検証の使用量の集計先
+ * 翻訳を依頼したユーザーの予算は消費せず、システムの使用量として記録する
  */
-export interface TranslationRequest {
-  text: string;
-  sourceLanguage?: string; // 未指定の場合は自動検出
-  targetLanguage: string;
-}
-
-/**
- * 翻訳結果の型定義
- */
-export interface TranslationResult {
-  originalText: string;
-  translatedText: string;
-  sourceLanguage: string;
-  targetLanguage: string;
-  confidence?: number; // 言語検出の信頼度
-  fromCache?: boolean; // キャッシュから取得したか
-  processingTime?: number; // 処理時間（ミリ秒）
-}
-
-/**
- * 言語検出結果の型定義
- */
-export interface LanguageDetectionResult {
-  languageCode: string;
-  score: number;
-}
+const BACK_TRANSLATION_USAGE: TranslationUsageContext = { route: 'quality:back-translation' };
 
 /**
  * 翻訳サービス設定の型定義
  */
 interface TranslationConfig {
   region: string;
-  supportedLanguages: string[];
   maxTextLength: number;
+  maxDocumentLength: number;
   confidenceThreshold: number;
 }
 
 /**
- * Amazon Translateを使用した翻訳サービス
+ * 翻訳サービス
  * 言語検出、翻訳実行、エラーハンドリングを提供
+ * 実際の翻訳処理は設定（TRANSLATION_PROVIDER）で選択されたプロバイダーに委譲する
  */
 export class TranslationService {
-  private translateClient: TranslateClient;
+  private provider: TranslationProvider;
   private secretsClient: SecretsManagerClient;
   private ssmClient: SSMClient;
   private config: TranslationConfig | null = null;
+  private circuitBreaker: CircuitBreaker;
+  private retryConfig: { attempts: number; baseDelay: number; maxDelay: number };
+  private qualityService: TranslationQualityService;
+  private sentenceCache: boolean; // 文単位のキャッシュで編集された投稿の翻訳を組み立てる
+  private revalidating = new Set<string>(); // バックグラウンドで翻訳し直している contentHash
 
-  constructor() {
+  constructor(provider?: TranslationProvider) {
     // AWS クライアントの初期化
     const region = process.env.AWS_REGION || 'ap-northeast-1';
+    const translationConfig = getTranslationConfig();
     
-    this.translateClient = new TranslateClient({ region });
+    this.provider = provider || createTranslationProvider(translationConfig.provider);
     this.secretsClient = new SecretsManagerClient({ region });
     this.ssmClient = new SSMClient({ region });
+
+    // 再試行・サーキットブレーカーの初期化
+    this.retryConfig = {
+      attempts: translationConfig.retryAttempts,
+      baseDelay: translationConfig.retryDelay,
+      maxDelay: translationConfig.retryMaxDelay
+    };
+    this.circuitBreaker = new CircuitBreaker({
+      failureThreshold: translationConfig.circuitBreakerThreshold,
+      resetTimeout: translationConfig.circuitBreakerResetTimeout
+    });
+    this.qualityService = new TranslationQualityService();
+    this.sentenceCache = translationConfig.sentenceCache;
+  }
+
+  /**
+   * 使用中の翻訳プロバイダー名を取得
+   */
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * サーキットブレーカーの状態を取得
+   */
+  getCircuitBreakerStatus(): CircuitBreakerStatus {
+    return this.circuitBreaker.getStatus();
   }
 
   /**
    * 設定を初期化（Parameter Storeから取得）
+   * 対応言語は言語レジストリから取得するため、呼び出しごとに期限切れの定義を読み直す
    */
   private async initializeConfig(): Promise<void> {
+    await languageRegistry.ensureLoaded();
     if (this.config) return;
 
     try {
       // Parameter Storeから設定を取得
-      const regionParam = await this.getParameter('/multilingual-community/prod/app/region');
-      const languagesParam = await this.getParameter('/multilingual-community/prod/translate/source-languages');
+      const regionParam = await this.getParameter(TRANSLATION_CONFIG.PARAMETER_NAMES.REGION);
       
       this.config = {
         region: regionParam || 'ap-northeast-1',
-        supportedLanguages: languagesParam ? languagesParam.split(',') : ['ja', 'en', 'zh', 'ko'],
-        maxTextLength: 5000, // Amazon Translateの制限
+        maxTextLength: 5000, // Amazon Translateの制限（これを超えるとチャンク分割）
+        maxDocumentLength: TRANSLATION_CONFIG.MAX_DOCUMENT_LENGTH,
         confidenceThreshold: 0.7 // 言語検出の信頼度閾値
       };
 
@@ -101,8 +137,8 @@ export class TranslationService {
       // フォールバック設定
       this.config = {
         region: 'ap-northeast-1',
-        supportedLanguages: ['ja', 'en', 'zh', 'ko'],
         maxTextLength: 5000,
+        maxDocumentLength: TRANSLATION_CONFIG.MAX_DOCUMENT_LENGTH,
         confidenceThreshold: 0.7
       };
     }
@@ -127,7 +163,7 @@ export class TranslationService {
   }
 
   /**
-   * テキストの言語を検出（簡易版）
+   * テキストの言語を検出
    */
   async detectLanguage(text: string): Promise<LanguageDetectionResult> {
     await this.initializeConfig();
@@ -147,21 +183,7 @@ export class TranslationService {
     }
 
     try {
-      // 簡易的な言語検出（実際の実装ではAWS Comprehendを使用することを推奨）
-      const japanesePattern = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/;
-      const koreanPattern = /[\uAC00-\uD7AF]/;
-      const chinesePattern = /[\u4E00-\u9FFF]/;
-      
-      if (japanesePattern.test(text)) {
-        return { languageCode: 'ja', score: 0.8 };
-      } else if (koreanPattern.test(text)) {
-        return { languageCode: 'ko', score: 0.8 };
-      } else if (chinesePattern.test(text)) {
-        return { languageCode: 'zh', score: 0.7 };
-      } else {
-        // デフォルトは英語と仮定
-        return { languageCode: 'en', score: 0.6 };
-      }
+      return await this.provider.detect(text);
     } catch (error) {
       console.error('言語検出エラー:', error);
       throw new TranslationError(
@@ -174,157 +196,551 @@ export class TranslationService {
 
   /**
    * テキストを翻訳（キャッシュ機能付き）
+   * maxTextLength を超えるテキストは段落・文単位のチャンクに分割して翻訳する
+   * onChunk を指定すると、チャンクごとに翻訳が終わった時点で通知する（フォーマット保持翻訳では通知しない）
    */
-  async translateText(request: TranslationRequest): Promise<TranslationResult> {
+  async translateText(
+    request: TranslationRequest,
+    onChunk?: (chunk: TranslatedChunk) => void
+  ): Promise<TranslationResult> {
     const startTime = Date.now();
     await this.initializeConfig();
 
     // 入力値検証
-    if (!request.text || request.text.trim().length === 0) {
+    this.validateText(request.text);
+
+    if (!request.targetLanguage) {
       throw new TranslationError(
-        '翻訳対象のテキストが空です',
-        'EMPTY_TEXT'
+        '翻訳先言語が指定されていません',
+        'MISSING_TARGET_LANGUAGE'
       );
     }
 
-    if (!request.targetLanguage) {
+    const { sourceLanguage, confidence } = await this.resolveSourceLanguage(request.text, request.sourceLanguage);
+    this.validateLanguagePair(sourceLanguage, [request.targetLanguage]);
+    const usage = request.usage || {};
+
+    // 同じ言語の場合は翻訳をスキップ（使用量にも含めない）
+    if (sourceLanguage === request.targetLanguage) {
+      const processingTime = Date.now() - startTime;
+      return {
+        originalText: request.text,
+        translatedText: request.text,
+        sourceLanguage: sourceLanguage,
+        targetLanguage: request.targetLanguage,
+        confidence,
+        fromCache: false,
+        processingTime
+      };
+    }
+
+    if (request.preserveFormatting) {
+      return this.translatePreservingFormatting(request.text, sourceLanguage, request.targetLanguage, confidence, startTime, usage);
+    }
+
+    return this.translateContent(request.text, sourceLanguage, request.targetLanguage, confidence, startTime, false, onChunk, usage);
+  }
+
+  /**
+   * テキストを複数の言語に翻訳
+   * 言語検出は1回だけ行い、キャッシュは全言語分をまとめて確認する
+   * キャッシュにない言語の翻訳は schedule の中で実行する（ワーカープールで同時実行数を制限する場合など）
+   */
+  async translateToLanguages(
+    request: MultiLanguageTranslationRequest,
+    schedule: <T>(task: () => Promise<T>) => Promise<T> = task => task()
+  ): Promise<MultiLanguageTranslationResult> {
+    const startTime = Date.now();
+    await this.initializeConfig();
+
+    // 入力値検証
+    this.validateText(request.text);
+
+    if (!request.targetLanguages || request.targetLanguages.length === 0) {
       throw new TranslationError(
         '翻訳先言語が指定されていません',
         'MISSING_TARGET_LANGUAGE'
       );
     }
 
-    if (request.text.length > this.config!.maxTextLength) {
+    const targetLanguages = Array.from(new Set(request.targetLanguages));
+    const { sourceLanguage, confidence } = await this.resolveSourceLanguage(request.text, request.sourceLanguage);
+    this.validateLanguagePair(sourceLanguage, targetLanguages);
+    const results: MultiLanguageTranslationResult['results'] = {};
+    const errors: MultiLanguageTranslationResult['errors'] = {};
+    const usage = request.usage || {};
+
+    // 翻訳元と同じ言語はそのまま返す
+    let pendingLanguages = targetLanguages.filter(targetLanguage => {
+      if (targetLanguage !== sourceLanguage) {
+        return true;
+      }
+      results[targetLanguage] = {
+        originalText: request.text,
+        translatedText: request.text,
+        sourceLanguage,
+        targetLanguage,
+        confidence,
+        fromCache: false,
+        processingTime: Date.now() - startTime
+      };
+      return false;
+    });
+
+    // 分割・フォーマット保持が不要なテキストは、全言語のキャッシュをまとめて確認
+    const cacheChecked = !request.preserveFormatting && getTextLength(request.text) <= this.config!.maxTextLength;
+    if (cacheChecked && pendingLanguages.length > 0) {
+      const glossaries = await Promise.all(pendingLanguages.map(targetLanguage =>
+        translationGlossaryService.getGlossary(sourceLanguage, targetLanguage)
+      ));
+      const cacheResults = await translationCacheService.getMany(pendingLanguages.map((targetLanguage, index) => ({
+        originalText: request.text,
+        sourceLanguage,
+        targetLanguage,
+        glossaryVersion: glossaries[index]!.version
+      })));
+
+      pendingLanguages = pendingLanguages.filter((targetLanguage, index) => {
+        const entry = cacheResults[index]?.fromCache ? cacheResults[index]!.entry : undefined;
+        if (!entry) {
+          return true;
+        }
+        translationUsageService.recordCacheHit(usage, sourceLanguage, targetLanguage, getTextLength(request.text));
+        results[targetLanguage] = {
+          originalText: request.text, // 正規化して一致したエントリは原文の表記が異なることがある
+          translatedText: entry.translatedText,
+          sourceLanguage,
+          targetLanguage,
+          confidence: entry.confidence,
+          qualityScore: entry.qualityScore,
+          fromCache: true,
+          processingTime: Date.now() - startTime
+        };
+        return false;
+      });
+    }
+
+    // キャッシュにない言語を翻訳（一部の言語が失敗しても他の言語の結果は返す）
+    await Promise.all(pendingLanguages.map(targetLanguage => schedule(async () => {
+      const languageStartTime = Date.now();
+      try {
+        results[targetLanguage] = request.preserveFormatting
+          ? await this.translatePreservingFormatting(request.text, sourceLanguage, targetLanguage, confidence, languageStartTime, usage)
+          : await this.translateContent(request.text, sourceLanguage, targetLanguage, confidence, languageStartTime, cacheChecked, undefined, usage);
+      } catch (error) {
+        console.error(`多言語翻訳エラー [${targetLanguage}]:`, error);
+        errors[targetLanguage] = {
+          code: error instanceof TranslationError ? error.code : 'TRANSLATION_SERVICE_ERROR',
+          message: error instanceof Error ? error.message : '翻訳中にエラーが発生しました',
+          retryable: error instanceof TranslationError ? error.retryable : false
+        };
+      }
+    })));
+
+    const processingTime = Date.now() - startTime;
+    const cacheHits = Object.values(results).filter(result => result.fromCache).length;
+    console.log(`多言語翻訳完了: ${targetLanguages.length}言語（キャッシュ: ${cacheHits}、失敗: ${Object.keys(errors).length}）, ${processingTime}ms`);
+
+    // リクエストされた言語の順に並べる
+    const orderedResults: MultiLanguageTranslationResult['results'] = {};
+    for (const targetLanguage of targetLanguages) {
+      if (results[targetLanguage]) {
+        orderedResults[targetLanguage] = results[targetLanguage];
+      }
+    }
+
+    return {
+      originalText: request.text,
+      sourceLanguage,
+      confidence,
+      results: orderedResults,
+      errors,
+      processingTime
+    };
+  }
+
+  /**
+   * 翻訳対象のテキストを検証
+   */
+  private validateText(text: string): void {
+    if (!text || text.trim().length === 0) {
       throw new TranslationError(
-        `テキストが長すぎます（最大${this.config!.maxTextLength}文字）`,
+        '翻訳対象のテキストが空です',
+        'EMPTY_TEXT'
+      );
+    }
+
+    if (getTextLength(text) > this.config!.maxDocumentLength) {
+      throw new TranslationError(
+        `テキストが長すぎます（最大${this.config!.maxDocumentLength}文字）`,
         'TEXT_TOO_LONG'
       );
     }
+  }
+
+  /**
+   * 翻訳元・翻訳先の言語が言語レジストリで有効かチェック
+   */
+  private validateLanguagePair(sourceLanguage: string, targetLanguages: string[]): void {
+    const unsupported = [sourceLanguage, ...targetLanguages].find(code => !languageRegistry.isEnabled(code));
+    if (unsupported !== undefined) {
+      throw new TranslationError(
+        `サポートされていない言語です: ${unsupported}`,
+        'UNSUPPORTED_LANGUAGE_PAIR'
+      );
+    }
+  }
 
-    let sourceLanguage = request.sourceLanguage;
-    let confidence: number | undefined;
+  /**
+   * 翻訳元言語を決定
+   * 指定されていない場合は自動検出する（長文は先頭部分で判定）
+   * 言語検出はプロセス内で行うため、失敗した場合は翻訳元言語の指定を求める
+   */
+  private async resolveSourceLanguage(
+    text: string,
+    sourceLanguage?: SupportedLanguage
+  ): Promise<{ sourceLanguage: SupportedLanguage; confidence?: number }> {
+    if (sourceLanguage) {
+      return { sourceLanguage };
+    }
 
-    // 言語が指定されていない場合は自動検出
-    if (!sourceLanguage) {
-      try {
-        const detection = await this.detectLanguage(request.text);
-        sourceLanguage = detection.languageCode;
-        confidence = detection.score;
+    try {
+      const sample = Array.from(text).slice(0, this.config!.maxTextLength).join('');
+      const detection = await this.detectLanguage(sample);
 
-        // 信頼度が低い場合は警告
-        if (confidence < this.config!.confidenceThreshold) {
-          console.warn(`言語検出の信頼度が低いです: ${confidence} (閾値: ${this.config!.confidenceThreshold})`);
-        }
-      } catch (error) {
-        console.error('言語検出に失敗、デフォルト言語を使用:', error);
-        sourceLanguage = 'auto'; // Amazon Translateの自動検出を使用
+      // 信頼度が低い場合は警告
+      if (detection.confidence < this.config!.confidenceThreshold) {
+        console.warn(`言語検出の信頼度が低いです: ${detection.confidence} (閾値: ${this.config!.confidenceThreshold})`);
       }
+
+      return { sourceLanguage: detection.languageCode, confidence: detection.confidence };
+    } catch (error) {
+      console.error('言語検出に失敗しました:', error);
+      throw new TranslationError(
+        '言語の自動検出に失敗しました。翻訳元言語を指定してください',
+        'LANGUAGE_DETECTION_FAILED',
+        error as Error
+      );
     }
+  }
 
-    // 同じ言語の場合は翻訳をスキップ
-    if (sourceLanguage === request.targetLanguage) {
-      const processingTime = Date.now() - startTime;
-      return {
-        originalText: request.text,
-        translatedText: request.text,
-        sourceLanguage: sourceLanguage,
-        targetLanguage: request.targetLanguage,
+  /**
+   * マークダウン構造を保持して翻訳
+   * コード・CLIコマンド・URL・ARN・YAML はプレースホルダーで保護し、
+   * 見出し・リスト記号を除いた本文のみを翻訳する
+   */
+  private async translatePreservingFormatting(
+    text: string,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    confidence: number | undefined,
+    startTime: number,
+    usage: TranslationUsageContext = {}
+  ): Promise<TranslationResult> {
+    const { text: protectedText, placeholders } = protectMarkdown(text);
+    const lines = splitMarkdownLines(protectedText);
+    const translatableLines = lines.filter(line => line.translatable);
+
+    let result: TranslationResult;
+    let translatedContents: string[];
+
+    if (translatableLines.length === 0) {
+      result = {
+        originalText: text,
+        translatedText: text,
+        sourceLanguage,
+        targetLanguage,
         confidence,
-        fromCache: false,
-        processingTime
+        fromCache: false
       };
+      translatedContents = [];
+    } else {
+      // 本文を行単位でまとめて翻訳し、行数が一致しない場合は行ごとに翻訳し直す
+      result = await this.translateContent(
+        translatableLines.map(line => line.content).join('\n'),
+        sourceLanguage,
+        targetLanguage,
+        confidence,
+        startTime,
+        false,
+        undefined,
+        usage
+      );
+      translatedContents = result.translatedText.split(/\r?\n/);
+
+      if (translatedContents.length !== translatableLines.length) {
+        console.warn(`翻訳後の行数が一致しないため行単位で再翻訳します: ${translatedContents.length} != ${translatableLines.length}`);
+        translatedContents = [];
+        for (const line of translatableLines) {
+          const lineResult = await this.translateContent(line.content, sourceLanguage, targetLanguage, confidence, startTime, false, undefined, usage);
+          translatedContents.push(lineResult.translatedText);
+        }
+      }
     }
 
-    // キャッシュから翻訳結果を取得を試行
-    const cacheResult = await translationCacheService.get(
-      request.text,
+    let translatedIndex = 0;
+    const rebuilt = lines
+      .map(line => line.translatable
+        ? line.prefix + translatedContents[translatedIndex++]
+        : line.prefix + line.content)
+      .join('\n');
+
+    const restored = restoreMarkdownWithReport(rebuilt, placeholders);
+    if (restored.missing.length > 0) {
+      console.warn(`翻訳結果から欠落したプレースホルダーを末尾に復元しました: ${restored.missing.join(', ')}`);
+    }
+
+    return {
+      ...result,
+      originalText: text,
+      translatedText: restored.text,
+      processingTime: Date.now() - startTime
+    };
+  }
+
+  /**
+   * テキスト本体を翻訳（長文はチャンク分割）
+   */
+  private async translateContent(
+    text: string,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    confidence: number | undefined,
+    startTime: number,
+    cacheChecked: boolean = false,
+    onChunk?: (chunk: TranslatedChunk) => void,
+    usage: TranslationUsageContext = {}
+  ): Promise<TranslationResult> {
+    if (getTextLength(text) > this.config!.maxTextLength) {
+      return this.translateInChunks(text, sourceLanguage, targetLanguage, confidence, startTime, onChunk, usage);
+    }
+
+    const result = await this.translateWithCache(text, sourceLanguage, targetLanguage, confidence, cacheChecked, usage);
+    const processingTime = Date.now() - startTime;
+    onChunk?.({ index: 0, total: 1, translatedText: result.translatedText, fromCache: !!result.fromCache });
+
+    if (result.fromCache) {
+      console.log(`キャッシュから翻訳結果を取得: ${processingTime}ms`);
+    } else {
+      console.log(`翻訳プロバイダー(${this.provider.name})で翻訳完了: ${processingTime}ms`);
+    }
+
+    return {
+      ...result,
+      processingTime
+    };
+  }
+
+  /**
+   * 長文をチャンクに分割して翻訳し、結果を結合
+   * 一部のチャンクが失敗した場合は原文のまま残し、chunkErrors に記録する
+   */
+  private async translateInChunks(
+    text: string,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    confidence: number | undefined,
+    startTime: number,
+    onChunk?: (chunk: TranslatedChunk) => void,
+    usage: TranslationUsageContext = {}
+  ): Promise<TranslationResult> {
+    const chunks = splitTextByLength(text, this.config!.maxTextLength);
+    const translatedChunks: string[] = [];
+    const chunkErrors: ChunkTranslationError[] = [];
+    let allFromCache = true;
+    let anyStale = false;
+    let firstError: unknown;
+    // 品質スコアはチャンクの長さで加重平均し、警告はまとめる
+    let qualityWeightedSum = 0;
+    let qualityWeight = 0;
+    const qualityFlags = new Set<TranslationQualityFlag>();
+
+    for (const [index, chunk] of chunks.entries()) {
+      // 区切りの空白・改行は翻訳に渡さず、そのまま残す
+      const [, leading = '', body = '', trailing = ''] = chunk.match(/^(\s*)([\s\S]*?)(\s*)$/) || [];
+
+      if (!body) {
+        translatedChunks.push(chunk);
+        onChunk?.({ index, total: chunks.length, translatedText: chunk, fromCache: false });
+        continue;
+      }
+
+      try {
+        const result = await this.translateWithCache(body, sourceLanguage, targetLanguage, confidence, false, usage);
+        translatedChunks.push(leading + result.translatedText + trailing);
+        allFromCache = allFromCache && !!result.fromCache;
+        anyStale = anyStale || !!result.stale;
+        if (result.qualityScore !== undefined) {
+          qualityWeightedSum += result.qualityScore * getTextLength(body);
+          qualityWeight += getTextLength(body);
+        }
+        result.qualityFlags?.forEach(flag => qualityFlags.add(flag));
+        onChunk?.({ index, total: chunks.length, translatedText: leading + result.translatedText + trailing, fromCache: !!result.fromCache });
+      } catch (error) {
+        console.error(`チャンク翻訳エラー [${index + 1}/${chunks.length}]:`, error);
+        firstError = firstError ?? error;
+        const chunkError: ChunkTranslationError = {
+          index,
+          code: error instanceof TranslationError ? error.code : 'TRANSLATION_SERVICE_ERROR',
+          message: error instanceof Error ? error.message : '翻訳中にエラーが発生しました'
+        };
+        chunkErrors.push(chunkError);
+        translatedChunks.push(chunk);
+        allFromCache = false;
+        onChunk?.({ index, total: chunks.length, translatedText: chunk, fromCache: false, error: chunkError });
+      }
+    }
+
+    // 全チャンクが失敗した場合は最初のエラーをそのまま返す
+    if (chunkErrors.length === chunks.length) {
+      if (firstError instanceof TranslationError) {
+        throw firstError;
+      }
+      throw new TranslationError(
+        chunkErrors[0]!.message,
+        chunkErrors[0]!.code
+      );
+    }
+
+    const processingTime = Date.now() - startTime;
+    console.log(`チャンク分割翻訳完了: ${chunks.length}チャンク（失敗: ${chunkErrors.length}）, ${processingTime}ms`);
+
+    return {
+      originalText: text,
+      translatedText: mergeTranslationResults(translatedChunks),
       sourceLanguage,
-      request.targetLanguage
-    );
+      targetLanguage,
+      confidence,
+      fromCache: allFromCache,
+      stale: anyStale || undefined,
+      processingTime,
+      qualityScore: qualityWeight > 0 ? Math.round((qualityWeightedSum / qualityWeight) * 100) / 100 : undefined,
+      qualityFlags: qualityFlags.size > 0 ? Array.from(qualityFlags) : undefined,
+      chunkCount: chunks.length,
+      chunkErrors: chunkErrors.length > 0 ? chunkErrors : undefined
+    };
+  }
+
+  /**
+   * キャッシュを確認し、なければプロバイダーで翻訳してキャッシュに保存
+   * cacheChecked が true の場合は確認済みとしてキャッシュの参照を省略する
+   */
+  private async translateWithCache(
+    text: string,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    confidence: number | undefined,
+    cacheChecked: boolean = false,
+    usage: TranslationUsageContext = {}
+  ): Promise<TranslationResult> {
+    // 用語集のバージョンをキャッシュキーに含める
+    const glossary = await translationGlossaryService.getGlossary(sourceLanguage, targetLanguage);
+
+    // キャッシュから翻訳結果を取得を試行
+    const cacheResult: CacheOperationResult = cacheChecked
+      ? { success: true, fromCache: false }
+      : await translationCacheService.get(
+          text,
+          sourceLanguage,
+          targetLanguage,
+          glossary.version
+        );
 
     if (cacheResult.success && cacheResult.fromCache && cacheResult.entry) {
-      const processingTime = Date.now() - startTime;
-      console.log(`キャッシュから翻訳結果を取得: ${processingTime}ms`);
-      
+      translationUsageService.recordCacheHit(usage, sourceLanguage, targetLanguage, getTextLength(text));
+      // 期限切れのエントリはそのまま返し、バックグラウンドで翻訳し直す（stale-while-revalidate）
+      if (cacheResult.stale) {
+        this.revalidate(cacheResult.entry.contentHash, text, sourceLanguage, targetLanguage, confidence);
+      }
       return {
-        originalText: cacheResult.entry.originalText,
+        originalText: text, // 正規化して一致したエントリは原文の表記が異なることがある
         translatedText: cacheResult.entry.translatedText,
-        sourceLanguage: cacheResult.entry.sourceLanguage,
-        targetLanguage: cacheResult.entry.targetLanguage,
+        sourceLanguage,
+        targetLanguage,
         confidence: cacheResult.entry.confidence,
+        qualityScore: cacheResult.entry.qualityScore,
         fromCache: true,
-        processingTime
+        stale: cacheResult.stale
       };
     }
 
-    // キャッシュにない場合はAmazon Translateで翻訳
-    try {
-      const command = new TranslateTextCommand({
-        Text: request.text,
-        SourceLanguageCode: sourceLanguage,
-        TargetLanguageCode: request.targetLanguage
-      });
-
-      const response = await this.translateClient.send(command);
-
-      if (!response.TranslatedText) {
-        throw new TranslationError(
-          '翻訳結果が空です',
-          'EMPTY_TRANSLATION_RESULT'
-        );
-      }
+    // 文単位のキャッシュを使う場合は、キャッシュにない文だけを翻訳して組み立てる
+    const sentences = this.sentenceCache ? splitIntoSentences(text) : [];
+    if (sentences.length > 1) {
+      return this.translateBySentence(text, sentences, sourceLanguage, targetLanguage, confidence, glossary.version, usage);
+    }
 
-      const translatedText = response.TranslatedText;
-      const finalSourceLanguage = response.SourceLanguageCode || sourceLanguage;
-      const finalTargetLanguage = response.TargetLanguageCode || request.targetLanguage;
-      const processingTime = Date.now() - startTime;
+    // キャッシュにない場合はプロバイダーで翻訳（用語集の用語はプレースホルダーで保護）
+    try {
+      const { text: glossaryText, placeholders } = protectTerms(text, glossary.terms);
+      const response = await this.callProvider({
+        text: glossaryText,
+        sourceLanguage,
+        targetLanguage
+      }, usage);
+      const translatedText = placeholders.size > 0
+        ? restoreMarkdownWithReport(response.translatedText, placeholders).text
+        : response.translatedText;
+
+      // 翻訳品質を評価（一部は逆翻訳で検証。予算を超える場合は逆翻訳を省略する）
+      const quality = await this.qualityService.evaluate({
+        originalText: text,
+        translatedText,
+        sourceLanguage,
+        targetLanguage,
+        confidence
+      }, async backText => (await this.callProvider({
+        text: backText,
+        sourceLanguage: targetLanguage,
+        targetLanguage: sourceLanguage
+      }, BACK_TRANSLATION_USAGE)).translatedText);
 
-      // 翻訳結果をキャッシュに保存
+      // 翻訳結果をキャッシュに保存（品質スコアが閾値未満の場合は保存されない）
       await translationCacheService.put(
-        request.text,
+        text,
         translatedText,
-        finalSourceLanguage,
-        finalTargetLanguage,
-        confidence
+        sourceLanguage,
+        targetLanguage,
+        confidence,
+        undefined,
+        glossary.version,
+        quality.score
       );
 
-      console.log(`Amazon Translateで翻訳完了: ${processingTime}ms`);
-
       return {
-        originalText: request.text,
+        originalText: text,
         translatedText,
-        sourceLanguage: finalSourceLanguage,
-        targetLanguage: finalTargetLanguage,
+        sourceLanguage,
+        targetLanguage,
         confidence,
-        fromCache: false,
-        processingTime
+        qualityScore: quality.score,
+        qualityFlags: quality.flags.length > 0 ? quality.flags : undefined,
+        fromCache: false
       };
     } catch (error) {
+      // プロバイダー障害時は期限切れのキャッシュがあればそれで応答する
+      if (error instanceof TranslationError && error.retryable) {
+        const staleResult = await translationCacheService.getStale(text, sourceLanguage, targetLanguage, glossary.version);
+        if (staleResult.success && staleResult.fromCache && staleResult.entry) {
+          console.warn(`翻訳プロバイダー障害のためキャッシュで応答します: ${error.code}`);
+          return {
+            originalText: text,
+            translatedText: staleResult.entry.translatedText,
+            sourceLanguage,
+            targetLanguage,
+            confidence: staleResult.entry.confidence,
+            qualityScore: staleResult.entry.qualityScore,
+            fromCache: true,
+            stale: staleResult.stale
+          };
+        }
+      }
+
       if (error instanceof TranslationError) {
         throw error;
       }
 
       console.error('翻訳エラー:', error);
-      
-      // AWS Translateの特定エラーをハンドリング
-      if (error instanceof Error) {
-        if (error.message.includes('UnsupportedLanguagePairException')) {
-          throw new TranslationError(
-            `サポートされていない言語ペアです: ${sourceLanguage} → ${request.targetLanguage}`,
-            'UNSUPPORTED_LANGUAGE_PAIR',
-            error
-          );
-        }
-        
-        if (error.message.includes('TextSizeLimitExceededException')) {
-          throw new TranslationError(
-            'テキストサイズが制限を超えています',
-            'TEXT_SIZE_LIMIT_EXCEEDED',
-            error
-          );
-        }
-      }
-
       throw new TranslationError(
         '翻訳中にエラーが発生しました',
         'TRANSLATION_SERVICE_ERROR',
@@ -334,65 +750,231 @@ export class TranslationService {
   }
 
   /**
-   * サポートされている言語のリストを取得
+   * 期限切れのキャッシュで応答したテキストをバックグラウンドで翻訳し直し、キャッシュを更新する
+   * 同じエントリの翻訳し直しは同時に1つだけ行い、失敗した場合は次に参照されたときに再度行う
    */
-  async getSupportedLanguages(): Promise<string[]> {
-    await this.initializeConfig();
-    return this.config!.supportedLanguages;
+  private revalidate(
+    contentHash: string,
+    text: string,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    confidence: number | undefined
+  ): void {
+    if (this.revalidating.has(contentHash)) {
+      return;
+    }
+    this.revalidating.add(contentHash);
+
+    void this.translateWithCache(text, sourceLanguage, targetLanguage, confidence, true, REVALIDATE_USAGE)
+      .then(result => {
+        // プロバイダー障害時は期限切れのキャッシュで応答するため、キャッシュは更新されない
+        if (!result.stale) {
+          console.log(`期限切れのキャッシュを翻訳し直しました: ${contentHash}`);
+        }
+      })
+      .catch(error => console.warn(`期限切れのキャッシュの翻訳し直しに失敗: ${contentHash}`, error))
+      .finally(() => this.revalidating.delete(contentHash));
+  }
+
+  /**
+   * 文ごとにキャッシュを確認し、キャッシュにない文だけを翻訳して組み立てる（TRANSLATE_SENTENCE_CACHE=true の場合）
+   * 投稿の一部を編集した場合は、変更した文だけがプロバイダーに送られる。組み立てた翻訳は全文のキャッシュにも保存する
+   */
+  private async translateBySentence(
+    text: string,
+    sentences: string[],
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    confidence: number | undefined,
+    glossaryVersion: string | undefined,
+    usage: TranslationUsageContext
+  ): Promise<TranslationResult> {
+    // 区切りの空白・改行は翻訳に渡さず、そのまま残す
+    const parts = sentences.map(sentence => {
+      const [, leading = '', body = '', trailing = ''] = sentence.match(/^(\s*)([\s\S]*?)(\s*)$/) || [];
+      return { leading, body, trailing, translatedText: body };
+    });
+    const translatableParts = parts.filter(part => part.body);
+    const cacheResults = await translationCacheService.getMany(translatableParts.map(part => ({
+      originalText: part.body,
+      sourceLanguage,
+      targetLanguage,
+      glossaryVersion
+    })));
+
+    let cachedCount = 0;
+    let anyStale = false;
+    // 品質スコアは文の長さで加重平均し、警告はまとめる
+    let qualityWeightedSum = 0;
+    let qualityWeight = 0;
+    const qualityFlags = new Set<TranslationQualityFlag>();
+
+    for (const [index, part] of translatableParts.entries()) {
+      const entry = cacheResults[index]?.fromCache ? cacheResults[index]!.entry : undefined;
+      let qualityScore: number | undefined;
+
+      if (entry) {
+        translationUsageService.recordCacheHit(usage, sourceLanguage, targetLanguage, getTextLength(part.body));
+        part.translatedText = entry.translatedText;
+        qualityScore = entry.qualityScore;
+        cachedCount++;
+      } else {
+        const result = await this.translateWithCache(part.body, sourceLanguage, targetLanguage, confidence, true, usage);
+        part.translatedText = result.translatedText;
+        qualityScore = result.qualityScore;
+        anyStale = anyStale || !!result.stale;
+        result.qualityFlags?.forEach(flag => qualityFlags.add(flag));
+      }
+
+      if (qualityScore !== undefined) {
+        qualityWeightedSum += qualityScore * getTextLength(part.body);
+        qualityWeight += getTextLength(part.body);
+      }
+    }
+
+    const translatedText = parts.map(part => part.leading + part.translatedText + part.trailing).join('');
+    const qualityScore = qualityWeight > 0 ? Math.round((qualityWeightedSum / qualityWeight) * 100) / 100 : undefined;
+    console.log(`文単位で翻訳: ${translatableParts.length}文（キャッシュ: ${cachedCount}）`);
+
+    // 期限切れのキャッシュで補った翻訳は全文のキャッシュに保存しない
+    if (!anyStale) {
+      await translationCacheService.put(
+        text,
+        translatedText,
+        sourceLanguage,
+        targetLanguage,
+        confidence,
+        undefined,
+        glossaryVersion,
+        qualityScore
+      );
+    }
+
+    return {
+      originalText: text,
+      translatedText,
+      sourceLanguage,
+      targetLanguage,
+      confidence,
+      qualityScore,
+      qualityFlags: qualityFlags.size > 0 ? Array.from(qualityFlags) : undefined,
+      fromCache: cachedCount === translatableParts.length,
+      stale: anyStale || undefined
+    };
   }
 
   /**
-   * 言語コードから言語名を取得（表示用）
+   * サーキットブレーカーと再試行を通してプロバイダーを呼び出す
+   * 再試行は retryable なエラーのみ、ブレーカーは再試行を使い切った失敗のみを数える
+   * 呼び出し前に月間予算を確認し、成功した呼び出しの文字数を使用量として記録する
    */
-  getLanguageName(languageCode: string): string {
-    const languageNames: Record<string, string> = {
-      'ja': '日本語',
-      'en': 'English',
-      'zh': '中文',
-      'ko': '한국어',
-      'es': 'Español',
-      'fr': 'Français',
-      'de': 'Deutsch',
-      'it': 'Italiano',
-      'pt': 'Português',
-      'ru': 'Русский',
-      'ar': 'العربية',
-      'hi': 'हिन्दी'
+  private async callProvider(request: ProviderTranslateRequest, usage: TranslationUsageContext = {}): Promise<ProviderTranslateResult> {
+    const isRetryable = (error: unknown) => error instanceof TranslationError && error.retryable;
+    const characters = getTextLength(request.text);
+    const providerRequest: ProviderTranslateRequest = {
+      ...request,
+      sourceLanguage: languageRegistry.toProviderCode(request.sourceLanguage, this.provider.name),
+      targetLanguage: languageRegistry.toProviderCode(request.targetLanguage, this.provider.name)
     };
 
-    return languageNames[languageCode] || languageCode;
+    await translationUsageService.assertWithinBudget(usage, characters);
+
+    try {
+      const result = await this.circuitBreaker.execute(
+        () => withRetry(() => this.provider.translate(providerRequest), {
+          ...this.retryConfig,
+          isRetryable,
+          onRetry: (error, attempt, delay) => {
+            const code = error instanceof TranslationError ? error.code : 'UNKNOWN';
+            console.warn(`翻訳を再試行します（${attempt}回目失敗: ${code}、${delay}ms後）`);
+          }
+        }),
+        isRetryable
+      );
+
+      translationUsageService.recordProviderUsage(usage, request.sourceLanguage, request.targetLanguage, characters);
+      return result;
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        throw new TranslationError(
+          `翻訳サービスが一時的に停止しています（${error.nextAttemptAt.toISOString()}以降に再開）`,
+          'CIRCUIT_OPEN',
+          error,
+          true
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * サポートされている言語のリストを取得
+   * 言語レジストリで有効な言語のうち、プロバイダーが対応している言語を返す
+   */
+  async getSupportedLanguages(): Promise<SupportedLanguage[]> {
+    await this.initializeConfig();
+    const languages = languageRegistry.getEnabledLanguageCodes();
+
+    try {
+      // プロバイダーが対応していない言語は除外
+      const providerLanguages = await this.provider.listLanguages();
+      return languages.filter(code => providerLanguages.includes(languageRegistry.toProviderCode(code, this.provider.name)));
+    } catch (error) {
+      console.warn('プロバイダーの対応言語取得に失敗、言語レジストリの値を使用:', error);
+      return languages;
+    }
+  }
+
+  /**
+   * 言語コードから言語の定義（表示名・書字方向など）を取得
+   */
+  getLanguageDefinition(languageCode: string): LanguageDefinition | undefined {
+    return languageRegistry.getLanguage(languageCode);
   }
 
   /**
    * 翻訳サービスの健全性をチェック
    */
-  async healthCheck(): Promise<{ status: string; message: string }> {
+  async healthCheck(): Promise<{ status: string; message: string; provider: string; circuitBreaker: CircuitBreakerStatus }> {
+    const circuitBreaker = this.circuitBreaker.getStatus();
+
+    // 遮断中はプロバイダーを呼び出さずに異常を返す
+    if (circuitBreaker.state === 'open') {
+      return {
+        status: 'unhealthy',
+        message: `サーキットブレーカーが開いています: ${circuitBreaker.lastFailure || 'Unknown error'}`,
+        provider: this.provider.name,
+        circuitBreaker
+      };
+    }
+
     try {
       await this.initializeConfig();
-      
-      // 簡単な翻訳テストを実行
-      const testResult = await this.translateText({
-        text: 'Hello',
-        sourceLanguage: 'en',
-        targetLanguage: 'ja'
-      });
 
-      if (testResult.translatedText) {
+      const providerHealth = await this.provider.healthCheck();
+
+      if (providerHealth.status === 'healthy') {
         return {
           status: 'healthy',
-          message: '翻訳サービスは正常に動作しています'
+          message: '翻訳サービスは正常に動作しています',
+          provider: this.provider.name,
+          circuitBreaker
         };
       } else {
         return {
           status: 'unhealthy',
-          message: '翻訳サービスのテストに失敗しました'
+          message: `翻訳サービスのテストに失敗しました: ${providerHealth.message}`,
+          provider: this.provider.name,
+          circuitBreaker
         };
       }
     } catch (error) {
       console.error('翻訳サービスヘルスチェックエラー:', error);
       return {
         status: 'unhealthy',
-        message: `翻訳サービスでエラーが発生しました: ${error instanceof Error ? error.message : 'Unknown error'}`
+        message: `翻訳サービスでエラーが発生しました: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        provider: this.provider.name,
+        circuitBreaker
       };
     }
   }
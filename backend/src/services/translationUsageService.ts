@@ -0,0 +1,429 @@
+import {
+  TranslationUsageModel,
+  TranslationUsageCounters,
+  TranslationBudgetRecord
+} from '../models/translationUsage';
+import { calculateTranslationCost } from '../config/translation';
+import { TranslationError } from './translationError';
+import { TranslationUsageContext } from '../types/translation';
+
+/**
+ * 集計値とキャッシュによる節約額
+ */
+export interface TranslationUsageSummary extends TranslationUsageCounters {
+  savedCost: number;    // キャッシュで応答したことで節約できた概算コスト（USD）
+  cacheHitRate: number; // 0〜1
+}
+
+/**
+ * 月間予算の消化状況
+ */
+export interface TranslationBudgetStatus {
+  scope: string;
+  monthlyBudget: number; // USD（0 は無制限）
+  spent: number;
+  remaining?: number;    // 無制限の場合は undefined
+  exhausted: boolean;
+}
+
+/**
+ * 管理者向けの使用量レポート
+ */
+export interface TranslationUsageReport {
+  from: string;
+  to: string;
+  totals: TranslationUsageSummary;
+  daily: Array<TranslationUsageSummary & { date: string }>;
+  byUser: Record<string, TranslationUsageSummary>;
+  byRoute: Record<string, TranslationUsageSummary>;
+  byLanguagePair: Record<string, TranslationUsageSummary>;
+  budgets: {
+    global: TranslationBudgetStatus;
+    defaultUserMonthlyBudget: number;
+    overrides: TranslationBudgetRecord[];
+  };
+}
+
+/**
+ * 翻訳使用量設定の型定義
+ */
+export interface TranslationUsageConfig {
+  enabled: boolean;
+  globalMonthlyBudget: number; // USD（0 は無制限）
+  userMonthlyBudget: number;   // USD（0 は無制限、ユーザーごとに上書き可能）
+  refreshInterval: number;     // 秒単位（他のインスタンスの使用量・予算設定を反映する間隔）
+  retentionDays: number;       // 日別集計の保持期間（日）
+}
+
+/**
+ * 集計スコープ
+ */
+const GLOBAL_SCOPE = 'global';
+const ANONYMOUS_USER = 'anonymous';
+
+/**
+ * レポートの最大期間（日）
+ */
+const MAX_REPORT_DAYS = 92;
+
+const EMPTY_COUNTERS: TranslationUsageCounters = {
+  characters: 0,
+  cost: 0,
+  requests: 0,
+  cachedCharacters: 0,
+  cacheHits: 0
+};
+
+/**
+ * 翻訳使用量・予算サービス
+ * プロバイダーの呼び出しごとに文字数と概算コストを日別に集計し（キャッシュヒットは節約分として別に集計）、
+ * 全体・ユーザーごとの月間予算を超える翻訳を拒否する
+ */
+export class TranslationUsageService {
+  private usageModel: TranslationUsageModel;
+  private config: TranslationUsageConfig;
+  private monthlySpend = new Map<string, { month: string; cost: number; loadedAt: number }>();
+  private budgets = new Map<string, number>();
+  private budgetsLoadedAt = 0;
+  private budgetsLoading?: Promise<Map<string, number>>;
+
+  constructor() {
+    this.usageModel = new TranslationUsageModel();
+
+    this.config = {
+      enabled: process.env.TRANSLATION_USAGE_ENABLED !== 'false',
+      globalMonthlyBudget: parseFloat(process.env.TRANSLATION_MONTHLY_BUDGET || '0'),
+      userMonthlyBudget: parseFloat(process.env.TRANSLATION_USER_MONTHLY_BUDGET || '0'),
+      refreshInterval: parseInt(process.env.TRANSLATION_USAGE_REFRESH_INTERVAL || '60'), // 1分
+      retentionDays: parseInt(process.env.TRANSLATION_USAGE_RETENTION_DAYS || '400')
+    };
+  }
+
+  /**
+   * 予算内で翻訳できるかを確認（プロバイダーの呼び出し前）
+   * 使用量・予算を取得できない場合は翻訳を止めない
+   */
+  async assertWithinBudget(context: TranslationUsageContext, characters: number): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const cost = calculateTranslationCost(characters);
+    const [globalStatus, userStatus] = await Promise.all([
+      this.getBudgetStatus(GLOBAL_SCOPE),
+      this.getBudgetStatus(this.userScope(context.userId))
+    ]);
+
+    if (this.wouldExceed(globalStatus, cost)) {
+      throw new TranslationError(
+        '今月の翻訳予算を使い切りました。しばらくしてから再度お試しください',
+        'TRANSLATION_BUDGET_EXCEEDED'
+      );
+    }
+    if (this.wouldExceed(userStatus, cost)) {
+      throw new TranslationError(
+        `今月のユーザーごとの翻訳予算（$${userStatus.monthlyBudget}）を使い切りました`,
+        'TRANSLATION_BUDGET_EXCEEDED'
+      );
+    }
+  }
+
+  /**
+   * プロバイダーで翻訳した文字数を記録
+   */
+  recordProviderUsage(context: TranslationUsageContext, sourceLanguage: string, targetLanguage: string, characters: number): void {
+    this.record(context, sourceLanguage, targetLanguage, {
+      ...EMPTY_COUNTERS,
+      characters,
+      cost: calculateTranslationCost(characters),
+      requests: 1
+    });
+  }
+
+  /**
+   * キャッシュで応答した文字数を記録（節約額の算出用、予算は消費しない）
+   */
+  recordCacheHit(context: TranslationUsageContext, sourceLanguage: string, targetLanguage: string, characters: number): void {
+    this.record(context, sourceLanguage, targetLanguage, {
+      ...EMPTY_COUNTERS,
+      cachedCharacters: characters,
+      cacheHits: 1
+    });
+  }
+
+  /**
+   * 期間内の使用量レポートを取得（既定は今月）
+   */
+  async getReport(from?: string, to?: string): Promise<TranslationUsageReport> {
+    const today = this.formatDate(new Date());
+    const toDate = to || today;
+    const fromDate = from || `${toDate.slice(0, 7)}-01`;
+    const dates = this.listDates(fromDate, toDate);
+
+    const totals = { ...EMPTY_COUNTERS };
+    const daily: TranslationUsageReport['daily'] = [];
+    const byUser: Record<string, TranslationUsageCounters> = {};
+    const byRoute: Record<string, TranslationUsageCounters> = {};
+    const byLanguagePair: Record<string, TranslationUsageCounters> = {};
+
+    for (const date of dates) {
+      const records = await this.usageModel.listByDate(date);
+
+      for (const record of records) {
+        const separator = record.scope.indexOf('#');
+        const kind = separator === -1 ? record.scope : record.scope.slice(0, separator);
+        const key = record.scope.slice(separator + 1);
+
+        switch (kind) {
+          case GLOBAL_SCOPE:
+            this.addCounters(totals, record);
+            daily.push({ date, ...this.summarize(record) });
+            break;
+          case 'user':
+            this.addCounters(byUser[key] ??= { ...EMPTY_COUNTERS }, record);
+            break;
+          case 'route':
+            this.addCounters(byRoute[key] ??= { ...EMPTY_COUNTERS }, record);
+            break;
+          case 'pair':
+            this.addCounters(byLanguagePair[key] ??= { ...EMPTY_COUNTERS }, record);
+            break;
+        }
+      }
+    }
+
+    const summarizeAll = (counters: Record<string, TranslationUsageCounters>) =>
+      Object.fromEntries(Object.entries(counters).map(([key, value]) => [key, this.summarize(value)]));
+
+    return {
+      from: fromDate,
+      to: toDate,
+      totals: this.summarize(totals),
+      daily,
+      byUser: summarizeAll(byUser),
+      byRoute: summarizeAll(byRoute),
+      byLanguagePair: summarizeAll(byLanguagePair),
+      budgets: {
+        global: await this.getBudgetStatus(GLOBAL_SCOPE, true),
+        defaultUserMonthlyBudget: this.config.userMonthlyBudget,
+        overrides: await this.usageModel.listBudgets()
+      }
+    };
+  }
+
+  /**
+   * 月間予算を設定（userId を省略すると全体の予算）
+   * monthlyBudget に null を指定すると設定を削除し、環境変数の既定値に戻す
+   */
+  async setBudget(userId: string | undefined, monthlyBudget: number | null, updatedBy?: string): Promise<TranslationBudgetStatus> {
+    const scope = userId ? this.userScope(userId) : GLOBAL_SCOPE;
+
+    if (monthlyBudget === null) {
+      await this.usageModel.deleteBudget(scope);
+    } else {
+      await this.usageModel.putBudget({
+        scope,
+        monthlyBudget,
+        ...(updatedBy !== undefined && { updatedBy }),
+        updatedAt: new Date().toISOString()
+      });
+    }
+
+    // 次回の確認で設定を読み直す
+    this.budgetsLoadedAt = 0;
+    return this.getBudgetStatus(scope, true);
+  }
+
+  /**
+   * 設定を取得
+   */
+  getConfig(): TranslationUsageConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 予算の消化状況を取得
+   */
+  private async getBudgetStatus(scope: string, forceRefresh: boolean = false): Promise<TranslationBudgetStatus> {
+    let budgets: Map<string, number>;
+    try {
+      budgets = await this.loadBudgets(forceRefresh);
+    } catch (error) {
+      console.warn('翻訳予算の設定の読み込みに失敗したため前回の内容を使用します:', error);
+      budgets = this.budgets;
+    }
+
+    const defaultBudget = scope === GLOBAL_SCOPE ? this.config.globalMonthlyBudget : this.config.userMonthlyBudget;
+    const monthlyBudget = budgets.get(scope) ?? defaultBudget;
+    const spent = monthlyBudget > 0 ? await this.getMonthlySpend(scope, forceRefresh) : 0;
+
+    return {
+      scope,
+      monthlyBudget,
+      spent,
+      remaining: monthlyBudget > 0 ? Math.max(0, monthlyBudget - spent) : undefined,
+      exhausted: monthlyBudget > 0 && spent >= monthlyBudget
+    };
+  }
+
+  /**
+   * 翻訳すると予算を超えるかを判定
+   */
+  private wouldExceed(status: TranslationBudgetStatus, cost: number): boolean {
+    return status.monthlyBudget > 0 && status.spent + cost > status.monthlyBudget;
+  }
+
+  /**
+   * 今月の使用額を取得（更新間隔内はメモリ上の値に自インスタンスの使用分を加算して使用）
+   */
+  private async getMonthlySpend(scope: string, forceRefresh: boolean = false): Promise<number> {
+    const today = this.formatDate(new Date());
+    const month = today.slice(0, 7);
+    const cached = this.monthlySpend.get(scope);
+    const isFresh = cached && cached.month === month &&
+      Date.now() - cached.loadedAt < this.config.refreshInterval * 1000;
+
+    if (!forceRefresh && isFresh) {
+      return cached!.cost;
+    }
+
+    try {
+      const records = await this.usageModel.getByScope(scope, this.listDates(`${month}-01`, today));
+      const cost = records.reduce((sum, record) => sum + (record.cost || 0), 0);
+      this.monthlySpend.set(scope, { month, cost, loadedAt: Date.now() });
+      return cost;
+    } catch (error) {
+      console.warn(`翻訳の使用額の取得に失敗したため前回の値を使用します: ${scope}`, error);
+      return cached && cached.month === month ? cached.cost : 0;
+    }
+  }
+
+  /**
+   * 予算の設定を読み込み（更新間隔内はメモリ上の内容を使用）
+   */
+  private async loadBudgets(forceRefresh: boolean = false): Promise<Map<string, number>> {
+    const isFresh = Date.now() - this.budgetsLoadedAt < this.config.refreshInterval * 1000;
+    if (!forceRefresh && isFresh) {
+      return this.budgets;
+    }
+
+    // 同時に複数の読み込みが走らないようにする
+    if (!this.budgetsLoading) {
+      this.budgetsLoading = this.usageModel.listBudgets()
+        .then(records => {
+          this.budgets = new Map(records.map(record => [record.scope, record.monthlyBudget]));
+          this.budgetsLoadedAt = Date.now();
+          return this.budgets;
+        })
+        .finally(() => {
+          this.budgetsLoading = undefined;
+        });
+    }
+
+    return this.budgetsLoading;
+  }
+
+  /**
+   * 使用量を記録（保存に失敗しても翻訳は失敗させない）
+   */
+  private record(
+    context: TranslationUsageContext,
+    sourceLanguage: string,
+    targetLanguage: string,
+    increment: TranslationUsageCounters
+  ): void {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const now = new Date();
+    const date = this.formatDate(now);
+    const userScope = this.userScope(context.userId);
+    const scopes = [
+      GLOBAL_SCOPE,
+      userScope,
+      `route#${context.route || 'internal'}`,
+      `pair#${sourceLanguage}-${targetLanguage}`
+    ];
+
+    // 次の読み直しまでは自インスタンスの使用分をメモリ上で加算する
+    if (increment.cost > 0) {
+      for (const scope of [GLOBAL_SCOPE, userScope]) {
+        const cached = this.monthlySpend.get(scope);
+        if (cached && cached.month === date.slice(0, 7)) {
+          cached.cost += increment.cost;
+        }
+      }
+    }
+
+    const ttl = Math.floor(now.getTime() / 1000) + this.config.retentionDays * 24 * 60 * 60;
+    this.usageModel.addUsage(date, scopes, increment, ttl).catch(error => {
+      console.error('翻訳使用量の記録に失敗:', error);
+    });
+  }
+
+  /**
+   * 集計値にキャッシュによる節約額とヒット率を加える
+   */
+  private summarize(counters: TranslationUsageCounters): TranslationUsageSummary {
+    const lookups = counters.requests + counters.cacheHits;
+    return {
+      characters: counters.characters || 0,
+      cost: counters.cost || 0,
+      requests: counters.requests || 0,
+      cachedCharacters: counters.cachedCharacters || 0,
+      cacheHits: counters.cacheHits || 0,
+      savedCost: calculateTranslationCost(counters.cachedCharacters || 0),
+      cacheHitRate: lookups > 0 ? (counters.cacheHits || 0) / lookups : 0
+    };
+  }
+
+  /**
+   * 集計値を加算
+   */
+  private addCounters(target: TranslationUsageCounters, source: Partial<TranslationUsageCounters>): void {
+    target.characters += source.characters || 0;
+    target.cost += source.cost || 0;
+    target.requests += source.requests || 0;
+    target.cachedCharacters += source.cachedCharacters || 0;
+    target.cacheHits += source.cacheHits || 0;
+  }
+
+  /**
+   * 期間内の日付（YYYY-MM-DD）を列挙
+   */
+  private listDates(from: string, to: string): string[] {
+    const start = new Date(`${from}T00:00:00.000Z`);
+    const end = new Date(`${to}T00:00:00.000Z`);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      throw new TranslationError(`無効な期間です: ${from} 〜 ${to}`, 'INVALID_USAGE_PERIOD');
+    }
+
+    const days = Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+    if (days > MAX_REPORT_DAYS) {
+      throw new TranslationError(`期間は${MAX_REPORT_DAYS}日以内で指定してください`, 'INVALID_USAGE_PERIOD');
+    }
+
+    return Array.from({ length: days }, (_, index) =>
+      this.formatDate(new Date(start.getTime() + index * 24 * 60 * 60 * 1000))
+    );
+  }
+
+  /**
+   * 日付を YYYY-MM-DD（UTC）に変換
+   */
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * ユーザーの集計スコープ
+   */
+  private userScope(userId?: string): string {
+    return `user#${userId || ANONYMOUS_USER}`;
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationUsageService = new TranslationUsageService();
@@ -0,0 +1,205 @@
+import { getTranslationConfig } from '../config/translation';
+import { TranslationPriority } from '../types/translation';
+
+/**
+ * 優先度の高い順
+ */
+const PRIORITY_ORDER: TranslationPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * タスク投入時のオプション
+ * groupId/groupLimit を指定すると、同じグループ（バッチ）の同時実行数を制限できる
+ */
+export interface WorkerPoolTaskOptions {
+  priority?: TranslationPriority;
+  userId?: string;
+  groupId?: string;
+  groupLimit?: number;
+}
+
+/**
+ * ワーカープールのメトリクス
+ */
+export interface WorkerPoolMetrics {
+  concurrency: number;
+  active: number;
+  queueDepth: Record<TranslationPriority, number> & { total: number };
+  queuedUsers: number;
+  processed: number;
+  averageQueueWaitTime: number; // ミリ秒
+  maxQueueWaitTime: number;     // ミリ秒
+}
+
+/**
+ * キュー内のタスク
+ */
+interface QueuedTask {
+  run: (queueWaitTime: number) => Promise<void>;
+  enqueuedAt: number;
+  groupId?: string;
+  groupLimit?: number;
+}
+
+/**
+ * 翻訳ワーカープール
+ * プロセス内の全リクエストで共有し、翻訳プロバイダーへの同時呼び出し数を制限する
+ * 優先度の高いキューから取り出し、同じ優先度内ではユーザーごとにラウンドロビンで公平に処理する
+ */
+export class TranslationWorkerPool {
+  private concurrency: number;
+  private active = 0;
+  private queues: Record<TranslationPriority, Map<string, QueuedTask[]>> = {
+    high: new Map(),
+    normal: new Map(),
+    low: new Map()
+  };
+  private groupActive = new Map<string, number>();
+  private processed = 0;
+  private totalQueueWaitTime = 0;
+  private maxQueueWaitTime = 0;
+
+  constructor(concurrency: number = getTranslationConfig().workerConcurrency) {
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  /**
+   * タスクをキューに投入し、実行結果を返す
+   * タスクにはキューで待機した時間（ミリ秒）が渡される
+   */
+  submit<T>(task: (queueWaitTime: number) => Promise<T>, options: WorkerPoolTaskOptions = {}): Promise<T> {
+    const priority = options.priority || 'normal';
+    const userKey = options.userId || 'anonymous';
+
+    return new Promise<T>((resolve, reject) => {
+      const queued: QueuedTask = {
+        run: (queueWaitTime) => task(queueWaitTime).then(resolve, reject),
+        enqueuedAt: Date.now(),
+        groupId: options.groupId,
+        groupLimit: options.groupLimit
+      };
+
+      const userQueue = this.queues[priority].get(userKey);
+      if (userQueue) {
+        userQueue.push(queued);
+      } else {
+        this.queues[priority].set(userKey, [queued]);
+      }
+
+      this.drain();
+    });
+  }
+
+  /**
+   * メトリクスを取得
+   */
+  getMetrics(): WorkerPoolMetrics {
+    const depth = (priority: TranslationPriority) =>
+      Array.from(this.queues[priority].values()).reduce((sum, tasks) => sum + tasks.length, 0);
+    const queueDepth = {
+      high: depth('high'),
+      normal: depth('normal'),
+      low: depth('low'),
+      total: 0
+    };
+    queueDepth.total = queueDepth.high + queueDepth.normal + queueDepth.low;
+
+    const users = new Set<string>();
+    for (const priority of PRIORITY_ORDER) {
+      for (const userKey of this.queues[priority].keys()) {
+        users.add(userKey);
+      }
+    }
+
+    return {
+      concurrency: this.concurrency,
+      active: this.active,
+      queueDepth,
+      queuedUsers: users.size,
+      processed: this.processed,
+      averageQueueWaitTime: this.processed > 0 ? Math.round(this.totalQueueWaitTime / this.processed) : 0,
+      maxQueueWaitTime: this.maxQueueWaitTime
+    };
+  }
+
+  /**
+   * 空きがある限りキューからタスクを取り出して実行
+   */
+  private drain(): void {
+    while (this.active < this.concurrency) {
+      const task = this.dequeue();
+      if (!task) {
+        return;
+      }
+      this.start(task);
+    }
+  }
+
+  /**
+   * 次に実行するタスクを取り出す
+   * 同時実行数の上限に達したグループのタスクは飛ばす
+   */
+  private dequeue(): QueuedTask | undefined {
+    for (const priority of PRIORITY_ORDER) {
+      const queue = this.queues[priority];
+
+      for (const [userKey, tasks] of queue) {
+        const index = tasks.findIndex(task => this.hasGroupCapacity(task));
+        if (index === -1) {
+          continue;
+        }
+
+        const [task] = tasks.splice(index, 1);
+
+        // 処理したユーザーを末尾に回してラウンドロビンにする
+        queue.delete(userKey);
+        if (tasks.length > 0) {
+          queue.set(userKey, tasks);
+        }
+
+        return task;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * タスクを実行
+   */
+  private start(task: QueuedTask): void {
+    const queueWaitTime = Date.now() - task.enqueuedAt;
+    this.active++;
+    this.processed++;
+    this.totalQueueWaitTime += queueWaitTime;
+    this.maxQueueWaitTime = Math.max(this.maxQueueWaitTime, queueWaitTime);
+    if (task.groupId) {
+      this.groupActive.set(task.groupId, (this.groupActive.get(task.groupId) || 0) + 1);
+    }
+
+    task.run(queueWaitTime).finally(() => {
+      this.active--;
+      if (task.groupId) {
+        const remaining = (this.groupActive.get(task.groupId) || 1) - 1;
+        if (remaining > 0) {
+          this.groupActive.set(task.groupId, remaining);
+        } else {
+          this.groupActive.delete(task.groupId);
+        }
+      }
+      this.drain();
+    });
+  }
+
+  /**
+   * グループの同時実行数に空きがあるか
+   */
+  private hasGroupCapacity(task: QueuedTask): boolean {
+    if (!task.groupId || !task.groupLimit) {
+      return true;
+    }
+    return (this.groupActive.get(task.groupId) || 0) < task.groupLimit;
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const translationWorkerPool = new TranslationWorkerPool();
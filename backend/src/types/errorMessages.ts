@@ -0,0 +1,92 @@
+import { TranslationErrorCode } from './translation';
+
+/**
+ * エラーメッセージカタログの型定義
+ * API のエラーレスポンスの message は、code をキーにリクエストの言語のカタログから取得する
+ */
+
+/**
+ * 入力値検証の詳細メッセージのコード
+ * VALIDATION_ERROR の details に項目ごとのメッセージとして入る
+ */
+export type ValidationMessageCode =
+  | 'VALIDATION_REQUIRED'
+  | 'VALIDATION_EMPTY'
+  | 'VALIDATION_NOT_STRING'
+  | 'VALIDATION_NOT_BOOLEAN'
+  | 'VALIDATION_NOT_NUMBER'
+  | 'VALIDATION_NOT_ARRAY'
+  | 'VALIDATION_NOT_OBJECT'
+  | 'VALIDATION_TOO_LONG'         // {limit}
+  | 'VALIDATION_TOO_MANY_ITEMS'   // {limit}
+  | 'VALIDATION_TOO_SMALL'        // {limit}
+  | 'VALIDATION_TOO_LARGE'        // {limit}
+  | 'VALIDATION_INVALID_VALUE'    // {values}
+  | 'VALIDATION_UNSUPPORTED_LANGUAGE' // {value}
+  | 'VALIDATION_LANGUAGES_OR_ALL'
+  | 'VALIDATION_GLOSSARY_TARGET_LANGUAGE_REQUIRED'
+  | 'VALIDATION_GLOSSARY_TRANSLATION_REQUIRED'
+  | 'VALIDATION_BODY_NOT_OBJECT'
+  | 'VALIDATION_ITEM';            // {index}: {message}（配列の要素のエラー）
+
+/**
+ * エラーメッセージのコード
+ */
+export type ErrorMessageCode =
+  | TranslationErrorCode
+  | ValidationMessageCode
+  // 翻訳API
+  | 'INVALID_INPUT'
+  | 'INVALID_INPUT_TEXTS'         // INVALID_INPUT のメッセージ（バッチ翻訳）
+  | 'INVALID_INPUT_DETECTION'     // INVALID_INPUT のメッセージ（言語検出）
+  | 'INVALID_TARGET_LANGUAGE'
+  | 'TOO_MANY_TEXTS'              // {max}
+  | 'BATCH_TRANSLATION_ERROR'
+  | 'LANGUAGE_DETECTION_ERROR'
+  | 'LANGUAGE_LIST_ERROR'
+  | 'HEALTH_CHECK_ERROR'
+  | 'GLOSSARY_RETRIEVAL_ERROR'
+  | 'GLOSSARY_SAVE_ERROR'
+  | 'GLOSSARY_DELETE_ERROR'
+  | 'TRANSLATION_JOB_CREATE_ERROR'
+  | 'TRANSLATION_JOB_RETRIEVAL_ERROR'
+  | 'TRANSLATION_JOB_CANCEL_ERROR'
+  | 'TRANSLATION_CORRECTION_RETRIEVAL_ERROR'
+  | 'TRANSLATION_CORRECTION_CREATE_ERROR'
+  | 'TRANSLATION_CORRECTION_REVIEW_ERROR'
+  | 'TRANSLATION_USAGE_RETRIEVAL_ERROR'
+  | 'TRANSLATION_BUDGET_UPDATE_ERROR'
+  // 翻訳キャッシュ管理API
+  | 'MISSING_PARAMETERS'
+  | 'CACHE_STATISTICS_ERROR'
+  | 'CACHE_RETRIEVAL_ERROR'
+  | 'CACHE_DELETE_ERROR'
+  | 'CACHE_CLEANUP_ERROR'
+  | 'CACHE_CLEAR_ERROR'
+  | 'CONFIG_RETRIEVAL_ERROR'
+  | 'CACHE_WARMUP_ERROR'
+  | 'CACHE_AUDIT_LOG_RETRIEVAL_ERROR'
+  | 'CACHE_INVALIDATION_ERROR'
+  | 'CACHE_EXPORT_ERROR'
+  | 'CACHE_IMPORT_ERROR'
+  // リクエスト共通
+  | 'VALIDATION_ERROR'
+  | 'REQUEST_TOO_LARGE'
+  | 'INVALID_CONTENT_TYPE'
+  | 'RATE_LIMIT_EXCEEDED'
+  // 認証
+  | 'MISSING_AUTH_HEADER'
+  | 'INVALID_AUTH_FORMAT'
+  | 'AUTH_ERROR'
+  | 'TOKEN_EXPIRED'
+  | 'INVALID_TOKEN'
+  | 'AUTHENTICATION_REQUIRED'
+  | 'INSUFFICIENT_PERMISSIONS'
+  // カタログにないコード
+  | 'UNKNOWN_ERROR';
+
+/**
+ * 1言語分のエラーメッセージカタログ
+ * {name} の部分はメッセージ取得時にパラメータで置き換える
+ */
+export type ErrorMessageCatalog = Record<ErrorMessageCode, string>;
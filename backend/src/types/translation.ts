@@ -1,23 +1,99 @@
 /**
  * 翻訳関連の型定義
+ * HTTP の入出力からサービス・プロバイダーまで、翻訳のドメインモデルはこのファイルの型を使用する
  */
 
 /**
- * サポートされている言語コード
+ * 言語レジストリの言語コード（'ja'、'zh-TW' など）
+ * 言語は Parameter Store で追加できるため型では限定せず、定義されているか・有効かは実行時に languageRegistry で判定する
  */
-export type SupportedLanguage = 
-  | 'ja'    // 日本語
-  | 'en'    // 英語
-  | 'zh'    // 中国語
-  | 'ko'    // 韓国語
-  | 'es'    // スペイン語
-  | 'fr'    // フランス語
-  | 'de'    // ドイツ語
-  | 'it'    // イタリア語
-  | 'pt'    // ポルトガル語
-  | 'ru'    // ロシア語
-  | 'ar'    // アラビア語
-  | 'hi';   // ヒンディー語
+export type SupportedLanguage = string;
+
+/**
+ * 文字の書字方向
+ */
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * 言語レジストリの言語定義
+ * 翻訳に使用できるのは enabled の言語のみ
+ */
+export interface LanguageDefinition {
+  code: SupportedLanguage;
+  nativeName: string;           // その言語での名称（表示用）
+  englishName: string;
+  direction: TextDirection;
+  providerCodes: Partial<Record<string, string>>; // プロバイダー名 → プロバイダーの言語コード（未指定の場合は code）
+  enabled: boolean;
+}
+
+/**
+ * 翻訳の優先度（ワーカープールの実行順に影響する）
+ */
+export type TranslationPriority = 'low' | 'normal' | 'high';
+
+/**
+ * 翻訳の品質に関する警告
+ */
+export type TranslationQualityFlag =
+  | 'EMPTY_TRANSLATION'          // 翻訳結果が空
+  | 'UNTRANSLATED'               // 原文のまま返された
+  | 'LENGTH_RATIO'               // 原文との長さの比率が極端
+  | 'MISSING_NUMBERS'            // 数値が欠落・変化した
+  | 'MISSING_URLS'               // URLが欠落・変化した
+  | 'MISSING_PLACEHOLDERS'       // コード・プレースホルダーが欠落した
+  | 'LOW_BACK_TRANSLATION_SCORE'; // 逆翻訳が原文と大きく異なる
+
+/**
+ * 翻訳エラーのコード
+ * TranslationError と、API で返すエラー詳細の code に使用する
+ */
+export type TranslationErrorCode =
+  // 入力
+  | 'EMPTY_TEXT'
+  | 'TEXT_TOO_LONG'
+  | 'MISSING_TARGET_LANGUAGE'
+  | 'UNSUPPORTED_LANGUAGE_PAIR'
+  | 'LANGUAGE_DETECTION_FAILED'
+  // プロバイダー
+  | 'TRANSLATION_SERVICE_ERROR'
+  | 'DETECTION_SERVICE_ERROR'
+  | 'TEXT_SIZE_LIMIT_EXCEEDED'
+  | 'EMPTY_TRANSLATION_RESULT'
+  | 'THROTTLING_ERROR'
+  | 'SERVICE_UNAVAILABLE'
+  | 'CIRCUIT_OPEN'
+  // 使用量・予算
+  | 'TRANSLATION_BUDGET_EXCEEDED'
+  | 'INVALID_USAGE_PERIOD'
+  | 'INVALID_CACHE_STATISTICS_PERIOD'
+  // 用語集・ジョブ・修正提案
+  | 'GLOSSARY_TERM_EXISTS'
+  | 'GLOSSARY_TERM_NOT_FOUND'
+  | 'TRANSLATION_JOB_NOT_FOUND'
+  | 'TRANSLATION_JOB_NOT_CANCELLABLE'
+  | 'TRANSLATION_CACHE_ENTRY_NOT_FOUND'
+  | 'CACHE_WARMUP_IN_PROGRESS'
+  | 'CACHE_WARMUP_NOT_FOUND'
+  | 'INVALID_CACHE_AUDIT_QUERY'
+  | 'INVALID_CACHE_ENTRY_FILTER'
+  | 'CACHE_INVALIDATION_NOT_FOUND'
+  | 'CACHE_INVALIDATION_ALREADY_UNDONE'
+  | 'INVALID_CACHE_IMPORT_REQUEST'
+  | 'TRANSLATION_CORRECTION_NOT_FOUND'
+  | 'TRANSLATION_CORRECTION_UNCHANGED'
+  | 'TRANSLATION_CORRECTION_ALREADY_REVIEWED'
+  // コントローラー
+  | 'TRANSLATION_ERROR'          // 分類できないエラー
+  | 'REQUEST_ABORTED';           // クライアントの切断により実行しなかった
+
+/**
+ * 使用量・予算の集計先（ユーザー・APIルート）
+ */
+export interface TranslationUsageContext {
+  userId?: string;
+  route?: string; // 例: 'POST /api/translate'
+}
 
 /**
  * 翻訳リクエストの基本型
@@ -25,42 +101,78 @@ export type SupportedLanguage =
 export interface BaseTranslationRequest {
   text: string;
   targetLanguage: SupportedLanguage;
-  sourceLanguage?: SupportedLanguage;
+  sourceLanguage?: SupportedLanguage; // 未指定の場合は自動検出
 }
 
 /**
- * 拡張翻訳リクエスト（オプション付き）
+ * 翻訳サービスへの翻訳リクエスト
+ */
+export interface TranslationRequest extends BaseTranslationRequest {
+  preserveFormatting?: boolean; // マークダウン構造・コード類を保持して翻訳
+  usage?: TranslationUsageContext; // 使用量・予算の集計先
+}
+
+/**
+ * 拡張翻訳リクエスト（POST /api/translate のリクエストボディ）
  */
 export interface ExtendedTranslationRequest extends BaseTranslationRequest {
   preserveFormatting?: boolean;  // フォーマット保持
   useCache?: boolean;           // キャッシュ使用
-  priority?: 'low' | 'normal' | 'high'; // 優先度
+  priority?: TranslationPriority; // 優先度
   metadata?: Record<string, any>; // メタデータ
 }
 
 /**
- * 翻訳結果の基本型
+ * 分割翻訳で失敗したチャンクの情報
  */
-export interface BaseTranslationResult {
-  originalText: string;
-  translatedText: string;
-  sourceLanguage: SupportedLanguage;
-  targetLanguage: SupportedLanguage;
-  timestamp: Date;
+export interface ChunkTranslationError {
+  index: number;
+  code: TranslationErrorCode;
+  message: string;
 }
 
 /**
- * 拡張翻訳結果（詳細情報付き）
+ * 翻訳サービスの翻訳結果
  */
-export interface ExtendedTranslationResult extends BaseTranslationResult {
+export interface TranslationResult {
+  originalText: string;
+  translatedText: string;
+  sourceLanguage: SupportedLanguage;
+  targetLanguage: SupportedLanguage;
   confidence?: number;          // 言語検出の信頼度
-  qualityScore?: number;        // 翻訳品質スコア
+  qualityScore?: number;        // 翻訳品質スコア（0〜1）
+  qualityFlags?: TranslationQualityFlag[]; // 翻訳品質の警告（数値の欠落、未翻訳など）
   processingTime?: number;      // 処理時間（ミリ秒）
   fromCache?: boolean;          // キャッシュから取得したか
+  stale?: boolean;              // 期限切れのキャッシュで応答したか（プロバイダー障害時、または翻訳し直している間）
   chunkCount?: number;          // 分割された場合のチャンク数
+  chunkErrors?: ChunkTranslationError[]; // 翻訳に失敗したチャンク（原文のまま結合）
+}
+
+/**
+ * 拡張翻訳結果（API で返す翻訳結果）
+ */
+export interface ExtendedTranslationResult extends TranslationResult {
+  timestamp: Date;
+  queueWaitTime?: number;       // ワーカープールのキューで待機した時間（ミリ秒）
   metadata?: Record<string, any>; // メタデータ
 }
 
+/**
+ * 翻訳エラーの詳細情報（API で返すエラー）
+ */
+export interface TranslationErrorDetail {
+  code: TranslationErrorCode;
+  message: string;
+  retryable: boolean;
+  originalText?: string;
+  sourceLanguage?: SupportedLanguage;
+  targetLanguage?: SupportedLanguage;
+  index?: number;               // バッチ内の位置（順序保持時）
+  queueWaitTime?: number;
+  details?: Record<string, any>;
+}
+
 /**
  * バッチ翻訳リクエスト
  */
@@ -70,6 +182,7 @@ export interface BatchTranslationRequest {
   sourceLanguage?: SupportedLanguage;
   preserveOrder?: boolean;      // 順序保持
   maxConcurrency?: number;      // 最大同時実行数
+  priority?: TranslationPriority; // 優先度
 }
 
 /**
@@ -80,7 +193,97 @@ export interface BatchTranslationResult {
   totalProcessingTime: number;
   successCount: number;
   errorCount: number;
-  errors?: TranslationError[];
+  errors?: TranslationErrorDetail[];
+}
+
+/**
+ * ストリーミング翻訳の進捗イベント
+ * 単一テキストではチャンク数、バッチではテキスト数を total とする
+ */
+export interface TranslationProgressEvent {
+  completed: number;
+  total: number;
+  percentage: number;           // 0〜100
+  successCount: number;
+  errorCount: number;
+}
+
+/**
+ * 翻訳済みチャンクの通知（POST /api/translate/stream の chunk イベント）
+ * translatedText は区切りの空白を含むため、index 順に連結すると翻訳結果全体になる
+ */
+export interface TranslatedChunk {
+  index: number;
+  total: number;
+  translatedText: string;
+  fromCache: boolean;
+  error?: ChunkTranslationError; // 失敗したチャンクは原文のまま
+}
+
+/**
+ * ストリーミングバッチ翻訳のアイテムイベント（POST /api/translate/batch/stream）
+ * 完了した順に送信するため、index で元の順序を判別する
+ */
+export interface BatchTranslationItemEvent {
+  index: number;
+  success: boolean;
+  result?: ExtendedTranslationResult;
+  error?: TranslationErrorDetail;
+}
+
+/**
+ * 複数言語への翻訳リクエスト（POST /api/translate/multi のリクエストボディ）
+ */
+export interface MultiTargetTranslationRequest {
+  text: string;
+  targetLanguages: SupportedLanguage[] | 'all'; // 'all' はサポートされている全言語
+  sourceLanguage?: SupportedLanguage;
+  preserveFormatting?: boolean;
+  priority?: TranslationPriority; // 優先度
+}
+
+/**
+ * 翻訳サービスへの複数言語の翻訳リクエスト
+ */
+export interface MultiLanguageTranslationRequest {
+  text: string;
+  sourceLanguage?: SupportedLanguage; // 未指定の場合は自動検出（全言語で1回のみ）
+  targetLanguages: SupportedLanguage[];
+  preserveFormatting?: boolean;
+  usage?: TranslationUsageContext;
+}
+
+/**
+ * 言語ごとの翻訳エラー
+ */
+export type LanguageTranslationError = Pick<TranslationErrorDetail, 'code' | 'message' | 'retryable'>;
+
+/**
+ * 翻訳サービスの複数言語の翻訳結果
+ * 翻訳に失敗した言語は errors に入る
+ */
+export interface MultiLanguageTranslationResult {
+  originalText: string;
+  sourceLanguage: SupportedLanguage;
+  confidence?: number;
+  results: Record<SupportedLanguage, TranslationResult>;
+  errors: Record<SupportedLanguage, LanguageTranslationError>;
+  processingTime: number;
+}
+
+/**
+ * 複数言語への翻訳結果（API で返す結果）
+ */
+export interface MultiTargetTranslationResult {
+  originalText: string;
+  sourceLanguage: SupportedLanguage;
+  confidence?: number;
+  translations: Record<SupportedLanguage, ExtendedTranslationResult>;
+  errors: Record<SupportedLanguage, LanguageTranslationError>;
+  totalProcessingTime: number;
+  successCount: number;
+  errorCount: number;
+  cacheHitCount: number;
 }
 
 /**
@@ -89,36 +292,23 @@ export interface BatchTranslationResult {
 export interface LanguageDetectionResult {
   languageCode: SupportedLanguage;
   confidence: number;
-  alternatives?: Array<{
+  alternatives: Array<{         // 次点の候補言語（確率の高い順）
     languageCode: SupportedLanguage;
     confidence: number;
   }>;
 }
 
 /**
- * 翻訳エラーの詳細情報
+ * 翻訳APIのレスポンス
+ * /api/translate 配下のすべてのルートはこの形式で応答する（data の型はルートごとに異なる）
  */
-export interface TranslationError {
-  code: string;
-  message: string;
-  originalText?: string;
-  sourceLanguage?: SupportedLanguage;
-  targetLanguage?: SupportedLanguage;
-  timestamp: Date;
-  retryable: boolean;
-  details?: Record<string, any>;
-}
-
-/**
- * API レスポンス用の翻訳結果
- */
-export interface TranslationApiResponse {
+export interface TranslationApiResponse<T = ExtendedTranslationResult> {
   success: boolean;
-  data?: ExtendedTranslationResult;
+  data?: T;
   error?: {
     code: string;
     message: string;
-    details?: Record<string, any>;
+    details?: any;
   };
   metadata: {
     requestId: string;
@@ -126,4 +316,4 @@ export interface TranslationApiResponse {
     processingTime: number;
     version: string;
   };
-}
\ No newline at end of file
+}
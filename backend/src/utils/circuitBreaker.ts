@@ -0,0 +1,157 @@
+/**
+ * サーキットブレーカーの状態
+ * closed: 通常稼働 / open: 呼び出しを遮断 / half_open: 試行呼び出しで回復を確認中
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * サーキットブレーカーの設定
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // open に遷移する連続失敗回数
+  resetTimeout: number;     // open から half_open に遷移するまでの時間（ミリ秒）
+  now?: () => number;
+}
+
+/**
+ * サーキットブレーカーの状態情報（ヘルスチェック用）
+ */
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  failureCount: number;
+  failureThreshold: number;
+  openedAt?: string;
+  nextAttemptAt?: string;
+  lastFailure?: string;
+}
+
+/**
+ * 遮断中に呼び出された場合のエラー
+ */
+export class CircuitOpenError extends Error {
+  constructor(public nextAttemptAt: Date) {
+    super('サーキットブレーカーが開いているため呼び出しを遮断しました');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * 連続した失敗で外部サービスの呼び出しを一時的に遮断するサーキットブレーカー
+ * half_open 状態では1件のみ試行を許可し、成功すれば closed、失敗すれば再び open に戻る
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failureCount = 0;
+  private openedAt?: number;
+  private lastFailure?: string;
+  private trialInProgress = false;
+  private now: () => number;
+
+  constructor(private options: CircuitBreakerOptions) {
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * ブレーカーを通して処理を実行
+   * isFailure が true を返したエラーのみ失敗として数える（入力エラーなどは数えない）
+   */
+  async execute<T>(operation: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    this.acquire();
+
+    try {
+      const result = await operation();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.recordFailure(error);
+      } else {
+        this.recordSuccess();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 現在の状態を取得
+   */
+  getStatus(): CircuitBreakerStatus {
+    const state = this.currentState();
+
+    return {
+      state,
+      failureCount: this.failureCount,
+      failureThreshold: this.options.failureThreshold,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt).toISOString() : undefined,
+      nextAttemptAt: state === 'open' ? this.nextAttemptAt().toISOString() : undefined,
+      lastFailure: this.lastFailure
+    };
+  }
+
+  /**
+   * 呼び出し可能か判定（遮断中は CircuitOpenError を投げる）
+   */
+  private acquire(): void {
+    const state = this.currentState();
+
+    if (state === 'open') {
+      throw new CircuitOpenError(this.nextAttemptAt());
+    }
+
+    if (state === 'half_open') {
+      // 回復確認中は1件のみ通す
+      if (this.trialInProgress) {
+        throw new CircuitOpenError(new Date(this.now() + this.options.resetTimeout));
+      }
+      this.state = 'half_open';
+      this.trialInProgress = true;
+    }
+  }
+
+  /**
+   * 成功を記録
+   */
+  private recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log('サーキットブレーカーを閉じました（翻訳プロバイダーが回復）');
+    }
+
+    this.state = 'closed';
+    this.failureCount = 0;
+    this.openedAt = undefined;
+    this.trialInProgress = false;
+  }
+
+  /**
+   * 失敗を記録
+   */
+  private recordFailure(error: unknown): void {
+    this.failureCount++;
+    this.lastFailure = error instanceof Error ? error.message : String(error);
+
+    if (this.state === 'half_open' || this.failureCount >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+      console.warn(`サーキットブレーカーを開きました（連続失敗: ${this.failureCount}回）`);
+    }
+    this.trialInProgress = false;
+  }
+
+  /**
+   * 経過時間を考慮した現在の状態
+   */
+  private currentState(): CircuitState {
+    if (this.state === 'open' && this.openedAt !== undefined &&
+        this.now() >= this.openedAt + this.options.resetTimeout) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+
+  /**
+   * 次に試行可能になる時刻
+   */
+  private nextAttemptAt(): Date {
+    return new Date((this.openedAt ?? this.now()) + this.options.resetTimeout);
+  }
+}
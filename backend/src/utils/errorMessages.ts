@@ -0,0 +1,100 @@
+import { Request } from 'express';
+import { SupportedLanguage } from '../types/translation';
+import { ErrorMessageCode } from '../types/errorMessages';
+import { ERROR_MESSAGE_CATALOGS, DEFAULT_ERROR_LOCALE } from '../config/errorMessages';
+
+/**
+ * エラーメッセージのローカライズ
+ * エラーレスポンスの code は言語によらず固定で、message だけをリクエストの言語で返す
+ */
+
+/**
+ * 繁体字として扱う中国語の言語タグ
+ */
+const TRADITIONAL_CHINESE_TAGS = ['zh-tw', 'zh-hk', 'zh-mo', 'zh-hant'];
+
+/**
+ * エラーコードに対応するメッセージを指定言語で取得
+ * {limit} などのプレースホルダーは params の値で置き換える
+ * カタログにないコードは UNKNOWN_ERROR のメッセージを返す
+ */
+export function getLocalizedErrorMessage(
+  errorCode: ErrorMessageCode | string,
+  locale: SupportedLanguage = DEFAULT_ERROR_LOCALE,
+  params: Record<string, string | number> = {}
+): string {
+  const catalog = ERROR_MESSAGE_CATALOGS[locale] || ERROR_MESSAGE_CATALOGS[DEFAULT_ERROR_LOCALE]!;
+  const template = catalog[errorCode as ErrorMessageCode] || catalog.UNKNOWN_ERROR;
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * 言語タグ（ja-JP、zh-Hant など）をエラーメッセージの言語に変換
+ * 対応する言語がない場合は undefined を返す
+ */
+export function matchErrorLocale(languageTag: string): SupportedLanguage | undefined {
+  const tag = languageTag.trim().toLowerCase();
+  if (!tag) {
+    return undefined;
+  }
+
+  if (TRADITIONAL_CHINESE_TAGS.some(prefix => tag === prefix || tag.startsWith(`${prefix}-`))) {
+    return 'zh-TW';
+  }
+
+  const primary = tag.split('-')[0];
+  return primary && Object.prototype.hasOwnProperty.call(ERROR_MESSAGE_CATALOGS, primary) ? primary : undefined;
+}
+
+/**
+ * Accept-Language ヘッダーを解析し、品質値（q）の高い順に対応する言語を返す
+ */
+export function parseAcceptLanguage(header: string | undefined): SupportedLanguage[] {
+  if (!header) {
+    return [];
+  }
+
+  const candidates = header
+    .split(',')
+    .map((part, index) => {
+      const [tag = '', ...parameters] = part.split(';').map(value => value.trim());
+      const quality = parameters
+        .map(parameter => parameter.match(/^q=([0-9.]+)$/i)?.[1])
+        .find(Boolean);
+      return { tag, quality: quality ? parseFloat(quality) : 1, index };
+    })
+    .filter(candidate => candidate.tag && candidate.tag !== '*' && candidate.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  const locales: SupportedLanguage[] = [];
+  for (const candidate of candidates) {
+    const locale = matchErrorLocale(candidate.tag);
+    if (locale && !locales.includes(locale)) {
+      locales.push(locale);
+    }
+  }
+  return locales;
+}
+
+/**
+ * リクエストのエラーメッセージの言語を決定
+ * 1. 認証済みユーザーのプロフィールの言語設定（JWT の locale クレーム）
+ * 2. Accept-Language ヘッダー
+ * 3. DEFAULT_ERROR_LOCALE
+ */
+export function resolveErrorLocale(req: Request): SupportedLanguage {
+  const preferred = (req as Request & { user?: { locale?: string } }).user?.locale;
+  if (preferred) {
+    const locale = matchErrorLocale(preferred);
+    if (locale) {
+      return locale;
+    }
+  }
+
+  const header = req.headers?.['accept-language'];
+  const [locale] = parseAcceptLanguage(Array.isArray(header) ? header.join(',') : header);
+  return locale || DEFAULT_ERROR_LOCALE;
+}
@@ -0,0 +1,460 @@
+import { LanguageDetectionResult } from '../types/translation';
+
+/**
+ * プロセス内で動作する統計的言語検出
+ *
+ * 1. コードブロック・CLIコマンド・ARN・URL等を除去
+ * 2. 文字種（スクリプト）ごとの出現量で候補言語を絞り込み
+ * 3. ラテン文字はサンプルコーパスから作成した文字トライグラムのプロファイルで識別
+ * 4. 漢字のみのテキストは日本語／中国語（簡体字・繁体字）に固有の字体で識別
+ * 5. キリル文字はロシア語／ウクライナ語に固有の文字で識別
+ * 6. プロファイルのない文字種はどの言語にも割り当てず、その分だけ信頼度を下げる
+ * 7. テキスト量に応じて確率を平滑化し、信頼度として返す
+ */
+
+type Script = 'latin' | 'cyrillic' | 'arabic' | 'devanagari' | 'thai' | 'hangul' | 'kana' | 'han' | 'other';
+
+/**
+ * 判定できる言語（言語レジストリの言語のうち、文字種とプロファイルで判定できるもの）
+ */
+type DetectableLanguage =
+  | 'ja' | 'en' | 'zh' | 'ko' | 'es' | 'fr' | 'de' | 'it' | 'pt' | 'ru' | 'ar' | 'hi'
+  | 'zh-TW' | 'vi' | 'th' | 'id' | 'tr' | 'nl' | 'pl' | 'uk';
+
+const ALL_LANGUAGES: DetectableLanguage[] = [
+  'ja', 'en', 'zh', 'ko', 'es', 'fr', 'de', 'it', 'pt', 'ru', 'ar', 'hi',
+  'zh-TW', 'vi', 'th', 'id', 'tr', 'nl', 'pl', 'uk'
+];
+
+type LatinLanguage = 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt' | 'vi' | 'id' | 'tr' | 'nl' | 'pl';
+
+/**
+ * ラテン文字言語のトライグラムプロファイル作成用コーパス
+ */
+const LATIN_CORPORA: Record<LatinLanguage, string> = {
+  en: `Hello everyone, I have a question about the setup.
+    The community is a place where engineers from around the world can share what they have learned.
+    Please check the documentation before you post a question, and include the steps that you have already tried.
+    We are going to migrate the database to a new instance this weekend, so the service will be unavailable for a few hours.
+    I think the problem is that the function does not have permission to read from the bucket.
+    When the deployment finished, the application started to return errors for every request.
+    How do you handle configuration for multiple environments? Is there a better way to do this?
+    Thank you for the detailed answer, it was very helpful and solved my issue.
+    This should work with the latest version, but you need to update the settings first.
+    It would be great if someone could explain why the cost increased so much last month.
+    They were able to reduce the response time by adding a cache in front of the service.`,
+  es: `Hola a todos, tengo una pregunta sobre la instalación.
+    La comunidad es un lugar donde los ingenieros de todo el mundo pueden compartir lo que han aprendido.
+    Por favor, revisa la documentación antes de publicar una pregunta e incluye los pasos que ya has intentado.
+    Vamos a migrar la base de datos a una nueva instancia este fin de semana, así que el servicio no estará disponible durante unas horas.
+    Creo que el problema es que la función no tiene permiso para leer del bucket.
+    Cuando terminó el despliegue, la aplicación empezó a devolver errores en cada solicitud.
+    ¿Cómo manejas la configuración para varios entornos? ¿Hay una mejor manera de hacerlo?
+    Gracias por la respuesta tan detallada, fue muy útil y resolvió mi problema.
+    Esto debería funcionar con la última versión, pero primero necesitas actualizar la configuración.
+    Sería genial si alguien pudiera explicar por qué el costo aumentó tanto el mes pasado.
+    Ellos lograron reducir el tiempo de respuesta añadiendo una caché delante del servicio.`,
+  fr: `Bonjour à tous, j'ai une question sur l'installation.
+    La communauté est un endroit où les ingénieurs du monde entier peuvent partager ce qu'ils ont appris.
+    Merci de consulter la documentation avant de publier une question et d'indiquer les étapes que vous avez déjà essayées.
+    Nous allons migrer la base de données vers une nouvelle instance ce week-end, le service sera donc indisponible pendant quelques heures.
+    Je pense que le problème est que la fonction n'a pas la permission de lire depuis le bucket.
+    Quand le déploiement s'est terminé, l'application a commencé à renvoyer des erreurs pour chaque requête.
+    Comment gérez-vous la configuration pour plusieurs environnements ? Est-ce qu'il y a une meilleure façon de faire ?
+    Merci pour cette réponse détaillée, elle m'a beaucoup aidé et a résolu mon problème.
+    Cela devrait fonctionner avec la dernière version, mais vous devez d'abord mettre à jour les paramètres.
+    Ce serait super si quelqu'un pouvait expliquer pourquoi le coût a autant augmenté le mois dernier.
+    Ils ont réussi à réduire le temps de réponse en ajoutant un cache devant le service.`,
+  de: `Hallo zusammen, ich habe eine Frage zur Einrichtung.
+    Die Community ist ein Ort, an dem Ingenieure aus der ganzen Welt teilen können, was sie gelernt haben.
+    Bitte lies die Dokumentation, bevor du eine Frage stellst, und beschreibe die Schritte, die du schon versucht hast.
+    Wir werden die Datenbank an diesem Wochenende auf eine neue Instanz migrieren, daher ist der Dienst einige Stunden nicht verfügbar.
+    Ich glaube, das Problem ist, dass die Funktion keine Berechtigung hat, aus dem Bucket zu lesen.
+    Als das Deployment fertig war, hat die Anwendung bei jeder Anfrage Fehler zurückgegeben.
+    Wie verwaltet ihr die Konfiguration für mehrere Umgebungen? Gibt es einen besseren Weg, das zu machen?
+    Vielen Dank für die ausführliche Antwort, sie war sehr hilfreich und hat mein Problem gelöst.
+    Das sollte mit der neuesten Version funktionieren, aber zuerst musst du die Einstellungen aktualisieren.
+    Es wäre toll, wenn jemand erklären könnte, warum die Kosten im letzten Monat so stark gestiegen sind.
+    Sie konnten die Antwortzeit verringern, indem sie einen Cache vor den Dienst geschaltet haben.`,
+  it: `Ciao a tutti, ho una domanda sulla configurazione iniziale.
+    La comunità è un luogo dove gli ingegneri di tutto il mondo possono condividere quello che hanno imparato.
+    Per favore, controlla la documentazione prima di pubblicare una domanda e includi i passaggi che hai già provato.
+    Questo fine settimana migreremo il database su una nuova istanza, quindi il servizio non sarà disponibile per alcune ore.
+    Penso che il problema sia che la funzione non ha il permesso di leggere dal bucket.
+    Quando il rilascio è terminato, l'applicazione ha cominciato a restituire errori per ogni richiesta.
+    Come gestite la configurazione per più ambienti? C'è un modo migliore per farlo?
+    Grazie per la risposta così dettagliata, è stata molto utile e ha risolto il mio problema.
+    Questo dovrebbe funzionare con l'ultima versione, ma prima devi aggiornare le impostazioni.
+    Sarebbe bello se qualcuno potesse spiegare perché il costo è aumentato così tanto il mese scorso.
+    Sono riusciti a ridurre il tempo di risposta aggiungendo una cache davanti al servizio.`,
+  pt: `Olá a todos, tenho uma dúvida sobre a instalação.
+    A comunidade é um lugar onde engenheiros do mundo inteiro podem compartilhar o que aprenderam.
+    Por favor, verifique a documentação antes de publicar uma pergunta e inclua os passos que você já tentou.
+    Vamos migrar o banco de dados para uma nova instância neste fim de semana, então o serviço ficará indisponível por algumas horas.
+    Acho que o problema é que a função não tem permissão para ler do bucket.
+    Quando a implantação terminou, a aplicação começou a retornar erros em todas as requisições.
+    Como vocês lidam com a configuração para vários ambientes? Existe uma maneira melhor de fazer isso?
+    Obrigado pela resposta detalhada, foi muito útil e resolveu o meu problema.
+    Isso deve funcionar com a versão mais recente, mas você precisa atualizar as configurações primeiro.
+    Seria ótimo se alguém pudesse explicar por que o custo aumentou tanto no mês passado.
+    Eles conseguiram reduzir o tempo de resposta adicionando um cache na frente do serviço.`,
+  vi: `Xin chào mọi người, tôi có một câu hỏi về việc cài đặt.
+    Cộng đồng là nơi các kỹ sư trên khắp thế giới có thể chia sẻ những gì họ đã học được.
+    Vui lòng xem tài liệu trước khi đăng câu hỏi và cho biết các bước mà bạn đã thử.
+    Chúng tôi sẽ chuyển cơ sở dữ liệu sang một phiên bản mới vào cuối tuần này, vì vậy dịch vụ sẽ không khả dụng trong vài giờ.
+    Tôi nghĩ vấn đề là hàm không có quyền đọc dữ liệu từ bucket.
+    Khi quá trình triển khai kết thúc, ứng dụng bắt đầu trả về lỗi cho mọi yêu cầu.
+    Các bạn quản lý cấu hình cho nhiều môi trường như thế nào? Có cách nào tốt hơn để làm việc này không?
+    Cảm ơn vì câu trả lời chi tiết, nó rất hữu ích và đã giải quyết được vấn đề của tôi.
+    Cách này sẽ hoạt động với phiên bản mới nhất, nhưng trước tiên bạn cần cập nhật cài đặt.
+    Sẽ thật tuyệt nếu ai đó có thể giải thích tại sao chi phí lại tăng nhiều như vậy vào tháng trước.
+    Họ đã giảm được thời gian phản hồi bằng cách thêm bộ nhớ đệm phía trước dịch vụ.`,
+  id: `Halo semuanya, saya punya pertanyaan tentang pengaturan awal.
+    Komunitas ini adalah tempat para insinyur dari seluruh dunia dapat berbagi apa yang telah mereka pelajari.
+    Silakan periksa dokumentasi sebelum memposting pertanyaan, dan sertakan langkah-langkah yang sudah kamu coba.
+    Kami akan memindahkan basis data ke instans baru akhir pekan ini, jadi layanan tidak akan tersedia selama beberapa jam.
+    Saya rasa masalahnya adalah fungsi tersebut tidak memiliki izin untuk membaca dari bucket.
+    Ketika deployment selesai, aplikasi mulai mengembalikan kesalahan untuk setiap permintaan.
+    Bagaimana kalian mengelola konfigurasi untuk beberapa lingkungan? Apakah ada cara yang lebih baik untuk melakukannya?
+    Terima kasih atas jawaban yang sangat rinci, sangat membantu dan sudah menyelesaikan masalah saya.
+    Ini seharusnya berfungsi dengan versi terbaru, tetapi kamu perlu memperbarui pengaturannya terlebih dahulu.
+    Akan sangat bagus jika seseorang bisa menjelaskan mengapa biayanya naik begitu banyak bulan lalu.
+    Mereka berhasil mengurangi waktu respons dengan menambahkan cache di depan layanan.`,
+  tr: `Herkese merhaba, kurulum hakkında bir sorum var.
+    Topluluk, dünyanın her yerinden mühendislerin öğrendiklerini paylaşabileceği bir yerdir.
+    Lütfen bir soru göndermeden önce belgeleri kontrol edin ve daha önce denediğiniz adımları ekleyin.
+    Bu hafta sonu veritabanını yeni bir örneğe taşıyacağız, bu yüzden hizmet birkaç saat boyunca kullanılamayacak.
+    Bence sorun, fonksiyonun bucket üzerinden okuma iznine sahip olmaması.
+    Dağıtım bittiğinde uygulama her istekte hata döndürmeye başladı.
+    Birden fazla ortam için yapılandırmayı nasıl yönetiyorsunuz? Bunu yapmanın daha iyi bir yolu var mı?
+    Ayrıntılı cevap için teşekkür ederim, çok faydalı oldu ve sorunumu çözdü.
+    Bu en son sürümle çalışmalı, ancak önce ayarları güncellemeniz gerekiyor.
+    Birisi geçen ay maliyetin neden bu kadar arttığını açıklayabilirse harika olur.
+    Hizmetin önüne bir önbellek ekleyerek yanıt süresini azaltmayı başardılar.`,
+  nl: `Hallo allemaal, ik heb een vraag over de installatie.
+    De community is een plek waar ingenieurs van over de hele wereld kunnen delen wat ze hebben geleerd.
+    Bekijk de documentatie voordat je een vraag plaatst, en beschrijf de stappen die je al hebt geprobeerd.
+    We gaan de database dit weekend naar een nieuwe instantie migreren, dus de dienst is een paar uur niet beschikbaar.
+    Ik denk dat het probleem is dat de functie geen toestemming heeft om uit de bucket te lezen.
+    Toen de deployment klaar was, begon de applicatie bij elk verzoek fouten terug te geven.
+    Hoe beheren jullie de configuratie voor meerdere omgevingen? Is er een betere manier om dit te doen?
+    Bedankt voor het uitgebreide antwoord, het was erg nuttig en heeft mijn probleem opgelost.
+    Dit zou moeten werken met de nieuwste versie, maar je moet eerst de instellingen bijwerken.
+    Het zou geweldig zijn als iemand kon uitleggen waarom de kosten vorige maand zo sterk zijn gestegen.
+    Ze konden de responstijd verkorten door een cache voor de dienst te plaatsen.`,
+  pl: `Cześć wszystkim, mam pytanie dotyczące konfiguracji.
+    Społeczność to miejsce, w którym inżynierowie z całego świata mogą dzielić się tym, czego się nauczyli.
+    Zanim opublikujesz pytanie, sprawdź dokumentację i opisz kroki, które już wypróbowałeś.
+    W ten weekend przeniesiemy bazę danych na nową instancję, więc usługa będzie niedostępna przez kilka godzin.
+    Myślę, że problem polega na tym, że funkcja nie ma uprawnień do odczytu z bucketu.
+    Kiedy wdrożenie się zakończyło, aplikacja zaczęła zwracać błędy dla każdego żądania.
+    Jak zarządzacie konfiguracją dla wielu środowisk? Czy jest lepszy sposób, żeby to zrobić?
+    Dziękuję za szczegółową odpowiedź, była bardzo pomocna i rozwiązała mój problem.
+    To powinno działać z najnowszą wersją, ale najpierw musisz zaktualizować ustawienia.
+    Byłoby świetnie, gdyby ktoś mógł wyjaśnić, dlaczego koszt tak bardzo wzrósł w zeszłym miesiącu.
+    Udało im się skrócić czas odpowiedzi, dodając pamięć podręczną przed usługą.`
+};
+
+/**
+ * 中国語（簡体字）でのみ使われる、または中国語で頻出する漢字
+ */
+const ZH_MARKERS = new Set(Array.from(
+  '的是了们这个说为对时么吗呢吧没还过经进发现实问题务从关开动网络据库户设请该样让谁哪给在我你他很着被把边吗里只应该么况结构报错误运云服务器'
+));
+
+/**
+ * 中国語（簡体字）でのみ使われる漢字（ZH_MARKERS のうち繁体字では別の字体になるもの）
+ */
+const ZH_HANS_MARKERS = new Set(Array.from(
+  '们这个说为对时么吗没还过经进发现实问题务从关开动网络据库户设请该样让谁给边应况结构报错误运云'
+));
+
+/**
+ * 中国語（繁体字）でのみ使われる漢字（日本語の新字体とも異なるもの）
+ */
+const ZH_HANT_MARKERS = new Set(Array.from(
+  '們這說對麼嗎沒從經發實關據戶樣讓裡應變圖價單驗證處權轉傳總體與來'
+));
+
+/**
+ * キリル文字のうちウクライナ語／ロシア語でのみ使われる文字
+ */
+const UK_MARKERS = new Set(Array.from('іїєґ'));
+const RU_MARKERS = new Set(Array.from('ыэъё'));
+
+/**
+ * 日本語（新字体・国字）でのみ使われる漢字
+ */
+const JA_MARKERS = new Set(Array.from(
+  '実発様気対関経済変図県駅広売読続円価働込枠歳単営覧検証処権転伝総歩黒楽薬応説認設録択帰鉄隣険戻払届際鮮'
+));
+
+/**
+ * テキスト量による平滑化の基準（重み付き文字数）
+ */
+const EVIDENCE_SATURATION = 30;
+
+/**
+ * トライグラム尤度に掛ける有効サンプル数の上限（過信を防ぐ）
+ */
+const MAX_EFFECTIVE_TRIGRAMS = 25;
+
+/**
+ * ラテン文字言語の事前確率（コミュニティの投稿は英語が最も多い）
+ */
+const LATIN_PRIORS: Record<LatinLanguage, number> = {
+  en: 0.45, es: 0.08, fr: 0.08, de: 0.08, it: 0.08, pt: 0.08,
+  vi: 0.03, id: 0.03, tr: 0.03, nl: 0.03, pl: 0.03
+};
+
+let latinProfiles: Record<LatinLanguage, { counts: Map<string, number>; total: number }> | null = null;
+
+/**
+ * 文字列から単語境界付きのトライグラムを抽出
+ */
+function extractTrigrams(text: string): string[] {
+  const trigrams: string[] = [];
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+
+  for (const word of words) {
+    const padded = ` ${word} `;
+    const chars = Array.from(padded);
+    for (let i = 0; i + 3 <= chars.length; i++) {
+      trigrams.push(chars.slice(i, i + 3).join(''));
+    }
+  }
+
+  return trigrams;
+}
+
+/**
+ * コーパスからトライグラムプロファイルを作成（初回のみ）
+ */
+function getLatinProfiles(): Record<LatinLanguage, { counts: Map<string, number>; total: number }> {
+  if (latinProfiles) {
+    return latinProfiles;
+  }
+
+  const profiles = {} as Record<LatinLanguage, { counts: Map<string, number>; total: number }>;
+
+  for (const [language, corpus] of Object.entries(LATIN_CORPORA) as Array<[LatinLanguage, string]>) {
+    const counts = new Map<string, number>();
+    const trigrams = extractTrigrams(corpus);
+    for (const trigram of trigrams) {
+      counts.set(trigram, (counts.get(trigram) || 0) + 1);
+    }
+    profiles[language] = { counts, total: trigrams.length };
+  }
+
+  latinProfiles = profiles;
+  return profiles;
+}
+
+/**
+ * 言語判定を歪めるコード・識別子類を除去
+ */
+export function stripNonLinguisticContent(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, ' ')                               // フェンス付きコードブロック
+    .replace(/`[^`\n]*`/g, ' ')                                    // インラインコード
+    .replace(/^\s*(\$\s+|>\s+)?(aws|sam|cdk|kubectl|eksctl|terraform|docker|npm|git)\s.*$/gm, ' ') // CLIコマンド行
+    .replace(/^( {4}|\t).*$/gm, ' ')                               // インデントされたコード
+    .replace(/arn:aws[a-z-]*:[^\s]*/gi, ' ')                       // ARN
+    .replace(/https?:\/\/[^\s]+/gi, ' ')                           // URL
+    .replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, ' ')                     // メールアドレス
+    .replace(/(^|\s)--?[a-z][\w-]*/gi, ' ')                        // CLIオプション
+    .replace(/[\x21-\x7e]*[/\\_=.:{}[\]<>][\x21-\x7e]*/g, (token) => // パス・ドメイン・キー=値など
+      /^\p{L}+[.:!?,]?$/u.test(token) ? token : ' ')
+    .replace(/\b[A-Z0-9]{2,}\b/g, ' ')                             // EC2, IAM, S3 等の略語
+    .replace(/\b\w*\d\w*\b/g, ' ');                                // 数字を含むトークン
+}
+
+/**
+ * 文字のスクリプトを判定
+ */
+function getScript(char: string): Script | null {
+  if (/[぀-ゟ゠-ヿㇰ-ㇿｦ-ﾟ]/.test(char)) return 'kana';
+  if (/[一-鿿㐀-䶿豈-﫿]/.test(char)) return 'han';
+  if (/[가-힯ᄀ-ᇿ㄰-㆏]/.test(char)) return 'hangul';
+  if (/[؀-ۿݐ-ݿﭐ-﷿ﹰ-﻿]/.test(char)) return 'arabic';
+  if (/[ऀ-ॿ]/.test(char)) return 'devanagari';
+  if (/[\u0E00-\u0E7F]/.test(char)) return 'thai';
+  if (/[Ѐ-ӿ]/.test(char)) return 'cyrillic';
+  if (/\p{Script=Latin}/u.test(char)) return 'latin';
+  if (/\p{L}/u.test(char)) return 'other';
+  return null;
+}
+
+/**
+ * スクリプトごとの重み
+ * 表音文字は1文字あたりの情報量が少ないため、単語単位に近くなるよう重みを下げる
+ */
+const SCRIPT_WEIGHTS: Record<Script, number> = {
+  latin: 0.25,
+  cyrillic: 0.25,
+  arabic: 0.25,
+  devanagari: 0.25,
+  thai: 0.25,
+  hangul: 0.5,
+  kana: 0.7,
+  han: 1,
+  other: 0.25
+};
+
+/**
+ * ラテン文字言語の事後確率を計算
+ */
+function scoreLatinLanguages(text: string): Record<LatinLanguage, number> {
+  const profiles = getLatinProfiles();
+  const trigrams = extractTrigrams(text);
+  const languages = Object.keys(profiles) as LatinLanguage[];
+
+  if (trigrams.length === 0) {
+    return Object.fromEntries(languages.map(l => [l, 1 / languages.length])) as Record<LatinLanguage, number>;
+  }
+
+  const vocabularySize = new Set(
+    languages.flatMap(l => Array.from(profiles[l].counts.keys()))
+  ).size;
+
+  const logPosteriors = languages.map(language => {
+    const { counts, total } = profiles[language];
+    let sum = 0;
+    for (const trigram of trigrams) {
+      sum += Math.log(((counts.get(trigram) || 0) + 0.5) / (total + 0.5 * vocabularySize));
+    }
+    // 平均対数尤度に有効サンプル数を掛けて過信を抑える
+    return (sum / trigrams.length) * Math.min(trigrams.length, MAX_EFFECTIVE_TRIGRAMS)
+      + Math.log(LATIN_PRIORS[language]);
+  });
+
+  const max = Math.max(...logPosteriors);
+  const exps = logPosteriors.map(v => Math.exp(v - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+
+  return Object.fromEntries(languages.map((l, i) => [l, exps[i]! / sum])) as Record<LatinLanguage, number>;
+}
+
+/**
+ * 漢字のみのテキストで日本語・中国語（簡体字・繁体字）の確率を計算
+ */
+function scoreHanLanguages(chars: string[]): { ja: number; zh: number; 'zh-TW': number } {
+  let jaHits = 0;
+  let zhHits = 0;
+  let hansHits = 0;
+  let hantHits = 0;
+
+  for (const char of chars) {
+    if (JA_MARKERS.has(char)) jaHits++;
+    if (ZH_MARKERS.has(char) || ZH_HANT_MARKERS.has(char)) zhHits++;
+    if (ZH_HANS_MARKERS.has(char)) hansHits++;
+    if (ZH_HANT_MARKERS.has(char)) hantHits++;
+  }
+
+  // かなを含まない漢字列は中国語である可能性がやや高い
+  const chinese = (zhHits + 0.6) / (zhHits + jaHits + 1);
+  // 字体の手がかりがない場合は簡体字を優先する
+  const traditional = (hantHits + 0.2) / (hantHits + hansHits + 1);
+  return { ja: 1 - chinese, zh: chinese * (1 - traditional), 'zh-TW': chinese * traditional };
+}
+
+/**
+ * キリル文字のテキストでロシア語・ウクライナ語の確率を計算
+ */
+function scoreCyrillicLanguages(text: string): { ru: number; uk: number } {
+  let ruHits = 0;
+  let ukHits = 0;
+
+  for (const char of Array.from(text.toLowerCase())) {
+    if (RU_MARKERS.has(char)) ruHits++;
+    if (UK_MARKERS.has(char)) ukHits++;
+  }
+
+  // 固有の文字がない場合はロシア語を優先する
+  const uk = (ukHits + 0.3) / (ukHits + ruHits + 1);
+  return { ru: 1 - uk, uk };
+}
+
+/**
+ * テキストの言語を検出
+ */
+export function detectLanguage(text: string): LanguageDetectionResult {
+  const cleaned = stripNonLinguisticContent(text);
+  // コードしか含まれない場合は元テキストで判定する
+  const target = /\p{L}/u.test(cleaned) ? cleaned : text;
+
+  const scriptWeights: Record<Script, number> = {
+    latin: 0, cyrillic: 0, arabic: 0, devanagari: 0, thai: 0, hangul: 0, kana: 0, han: 0, other: 0
+  };
+  const hanChars: string[] = [];
+
+  for (const char of Array.from(target)) {
+    const script = getScript(char);
+    if (!script) continue;
+    scriptWeights[script] += SCRIPT_WEIGHTS[script];
+    if (script === 'han') hanChars.push(char);
+  }
+
+  // かなを含む日本語テキストでは漢字も日本語として扱う
+  if (scriptWeights.kana > 0) {
+    scriptWeights.kana += scriptWeights.han;
+    scriptWeights.han = 0;
+  }
+
+  const totalWeight = Object.values(scriptWeights).reduce((a, b) => a + b, 0);
+  const probabilities = Object.fromEntries(ALL_LANGUAGES.map(l => [l, 0])) as Record<DetectableLanguage, number>;
+
+  if (totalWeight === 0) {
+    // 判定材料がない場合は一様分布
+    for (const language of ALL_LANGUAGES) {
+      probabilities[language] = 1 / ALL_LANGUAGES.length;
+    }
+  } else {
+    const share = (script: Script): number => scriptWeights[script] / totalWeight;
+
+    // プロファイルのない文字種（other）の分はどの言語にも割り当てない
+    probabilities.ar += share('arabic');
+    probabilities.hi += share('devanagari');
+    probabilities.th += share('thai');
+    probabilities.ko += share('hangul');
+    probabilities.ja += share('kana');
+
+    if (scriptWeights.cyrillic > 0) {
+      const cyrillic = scoreCyrillicLanguages(target);
+      probabilities.ru += share('cyrillic') * cyrillic.ru;
+      probabilities.uk += share('cyrillic') * cyrillic.uk;
+    }
+
+    if (scriptWeights.han > 0) {
+      const han = scoreHanLanguages(hanChars);
+      probabilities.ja += share('han') * han.ja;
+      probabilities.zh += share('han') * han.zh;
+      probabilities['zh-TW'] += share('han') * han['zh-TW'];
+    }
+
+    if (scriptWeights.latin > 0) {
+      const latin = scoreLatinLanguages(target);
+      for (const [language, p] of Object.entries(latin) as Array<[LatinLanguage, number]>) {
+        probabilities[language] += share('latin') * p;
+      }
+    }
+
+    // 判定材料が少ないほど一様分布に近づける
+    const smoothing = 0.5 * Math.max(0, 1 - totalWeight / EVIDENCE_SATURATION);
+    for (const language of ALL_LANGUAGES) {
+      probabilities[language] = (1 - smoothing) * probabilities[language] + smoothing / ALL_LANGUAGES.length;
+    }
+  }
+
+  const ranked = ALL_LANGUAGES
+    .map(languageCode => ({ languageCode, confidence: Math.round(probabilities[languageCode] * 1000) / 1000 }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const [best, ...rest] = ranked;
+
+  return {
+    languageCode: best!.languageCode,
+    confidence: best!.confidence,
+    alternatives: rest.filter(r => r.confidence >= 0.01).slice(0, 3)
+  };
+}
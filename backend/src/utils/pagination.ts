@@ -0,0 +1,23 @@
+/**
+ * 一覧APIのページングカーソル
+ * DynamoDB の LastEvaluatedKey などの続きの位置を、クエリ文字列で渡せる base64url の JSON にする
+ */
+
+/**
+ * 続きの位置をカーソルに変換
+ */
+export function encodePageCursor(key: Record<string, any>): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+/**
+ * カーソルを続きの位置に戻す（不正なカーソルは null）
+ */
+export function decodePageCursor(cursor: string): Record<string, any> | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return key && typeof key === 'object' && !Array.isArray(key) ? key : null;
+  } catch {
+    return null;
+  }
+}
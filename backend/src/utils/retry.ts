@@ -0,0 +1,73 @@
+/**
+ * 再試行設定の型定義
+ */
+export interface RetryOptions {
+  attempts: number;   // 最大試行回数（初回を含む）
+  baseDelay: number;  // 初回の待機時間の上限（ミリ秒）
+  maxDelay: number;   // 待機時間の上限（ミリ秒）
+  isRetryable: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delay: number) => void;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * DynamoDB の BatchGetCommand・BatchWriteCommand の未処理分を再送する回数と、待機時間の上限（ミリ秒）
+ */
+const UNPROCESSED_RETRY_ATTEMPTS = 8;
+const UNPROCESSED_RETRY_BASE_DELAY = 50;
+const UNPROCESSED_RETRY_MAX_DELAY = 5000;
+
+/**
+ * 指数バックオフ + フルジッターで待機時間を算出
+ * 0 〜 min(maxDelay, baseDelay * 2^(attempt-1)) の範囲でランダムに待機する
+ */
+export function calculateBackoffDelay(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+  return Math.floor(random() * exponential);
+}
+
+/**
+ * 指定時間待機
+ */
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 再試行可能なエラーの場合に指数バックオフで再試行する
+ * 再試行できないエラー、または試行回数を使い切った場合は最後のエラーをそのまま投げる
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const sleep = options.sleep || defaultSleep;
+  const attempts = Math.max(1, options.attempts);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= attempts || !options.isRetryable(error)) {
+        throw error;
+      }
+
+      const delay = calculateBackoffDelay(attempt, options.baseDelay, options.maxDelay);
+      options.onRetry?.(error, attempt, delay);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * DynamoDB の一括操作で未処理のキー・アイテムを再送する前に指数バックオフで待機する（attempt は何回目の再送か）
+ * 再送の回数を使い切った場合は、スロットリングが続いているとみなして中断する
+ */
+export async function waitBeforeUnprocessedRetry(attempt: number): Promise<void> {
+  if (attempt > UNPROCESSED_RETRY_ATTEMPTS) {
+    throw new Error(`${UNPROCESSED_RETRY_ATTEMPTS}回再送しても未処理のアイテムが残りました`);
+  }
+  await defaultSleep(calculateBackoffDelay(attempt, UNPROCESSED_RETRY_BASE_DELAY, UNPROCESSED_RETRY_MAX_DELAY));
+}
@@ -0,0 +1,76 @@
+import { Response } from 'express';
+
+/**
+ * 接続維持のためのコメント送信間隔（ミリ秒）
+ */
+const DEFAULT_HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * Server-Sent Events のストリーム
+ */
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  readonly closed: boolean;
+  readonly signal: AbortSignal; // クライアントが切断すると中断される
+}
+
+/**
+ * レスポンスを Server-Sent Events のストリームとして開始
+ * ヘッダー送信後はステータスコードを変更できないため、エラーもイベントとして送る
+ */
+export function openEventStream(res: Response, heartbeatInterval: number = DEFAULT_HEARTBEAT_INTERVAL): EventStream {
+  const abortController = new AbortController();
+  let closed = false;
+  let eventId = 0;
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // リバースプロキシでのバッファリングを無効化
+  });
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => {
+    if (!closed) {
+      res.write(': ping\n\n');
+    }
+  }, heartbeatInterval);
+
+  const finish = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeat);
+  };
+
+  // 送信完了前に接続が閉じた場合はクライアントの切断とみなす
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      abortController.abort();
+    }
+    finish();
+  });
+
+  return {
+    send(event: string, data: unknown): void {
+      if (closed) {
+        return;
+      }
+      res.write(`id: ${++eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close(): void {
+      if (closed) {
+        return;
+      }
+      finish();
+      res.end();
+    },
+    get closed() {
+      return closed;
+    },
+    signal: abortController.signal
+  };
+}
@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { TranslationApiResponse, SupportedLanguage, TranslationErrorCode } from '../types/translation';
+import { ErrorMessageCode } from '../types/errorMessages';
+import { TranslationError } from '../services/translationError';
+import { getLocalizedErrorMessage, resolveErrorLocale } from './errorMessages';
+
+/**
+ * 翻訳APIのレスポンス作成
+ * /api/translate 配下のルートはすべて TranslationApiResponse 形式で応答する
+ * エラーの message は code からリクエストの言語で作成する
+ */
+
+/**
+ * APIのバージョン
+ */
+const API_VERSION = '1.0.0';
+
+/**
+ * レスポンスのメタデータに含めるリクエスト情報
+ */
+export interface TranslationResponseContext {
+  requestId: string;
+  startTime: number;
+  locale: SupportedLanguage; // エラーメッセージの言語
+}
+
+/**
+ * エラーレスポンスの内容（message は code から作成する）
+ * messageCode を指定した場合は code の代わりにそのメッセージを使い、
+ * params でメッセージの {max} などのプレースホルダーを置き換える
+ */
+export interface TranslationErrorBody {
+  code: ErrorMessageCode;
+  messageCode?: ErrorMessageCode;
+  params?: Record<string, string | number>;
+  details?: any;
+}
+
+/**
+ * リクエストID・処理開始時刻・エラーメッセージの言語を取得
+ * クライアントが X-Request-Id を指定した場合はそれをリクエストIDとして使用する
+ */
+export function createResponseContext(req: Request): TranslationResponseContext {
+  const header = req.headers?.['x-request-id'];
+  return {
+    requestId: (Array.isArray(header) ? header[0] : header) || uuidv4(),
+    startTime: Date.now(),
+    locale: resolveErrorLocale(req)
+  };
+}
+
+/**
+ * 成功レスポンスを送信
+ */
+export function sendTranslationResponse<T>(
+  res: Response,
+  context: TranslationResponseContext,
+  data: T,
+  statusCode: number = 200
+): void {
+  const response: TranslationApiResponse<T> = {
+    success: true,
+    data,
+    metadata: createMetadata(context)
+  };
+  res.status(statusCode).json(response);
+}
+
+/**
+ * エラーレスポンスを送信
+ */
+export function sendTranslationError(
+  res: Response,
+  context: TranslationResponseContext,
+  statusCode: number,
+  error: TranslationErrorBody
+): void {
+  const response: TranslationApiResponse<never> = {
+    success: false,
+    error: {
+      code: error.code,
+      message: getLocalizedErrorMessage(error.messageCode || error.code, context.locale, error.params),
+      ...(error.details !== undefined && { details: error.details })
+    },
+    metadata: createMetadata(context)
+  };
+  res.status(statusCode).json(response);
+}
+
+/**
+ * サービスで発生したエラーのレスポンスを送信
+ * statusCodes に含まれるコードの TranslationError はそのコードとステータスで返し、
+ * それ以外は defaultCode の 500 で返す（details にエラーメッセージを含める）
+ */
+export function sendServiceError(
+  res: Response,
+  context: TranslationResponseContext,
+  error: unknown,
+  defaultCode: ErrorMessageCode,
+  statusCodes: Partial<Record<TranslationErrorCode, number>>
+): void {
+  const code = error instanceof TranslationError ? error.code : undefined;
+  const statusCode = code && statusCodes[code];
+
+  if (code && statusCode) {
+    sendTranslationError(res, context, statusCode, { code });
+    return;
+  }
+
+  sendTranslationError(res, context, 500, {
+    code: defaultCode,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+/**
+ * レスポンスのメタデータを作成
+ */
+function createMetadata(context: TranslationResponseContext): TranslationApiResponse['metadata'] {
+  return {
+    requestId: context.requestId,
+    timestamp: new Date(),
+    processingTime: Date.now() - context.startTime,
+    version: API_VERSION
+  };
+}
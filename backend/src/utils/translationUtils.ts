@@ -1,14 +1,61 @@
 import crypto from 'crypto';
+import { TranslationQualityFlag } from '../types/translation';
 
 /**
  * 翻訳関連のユーティリティ関数
  */
 
+/**
+ * キャッシュキー用に統一する記号（NFKC で統一されないもの）
+ */
+const PUNCTUATION_VARIANTS: Array<[RegExp, string]> = [
+  [/[\u2018\u2019\u201A\u201B\u2032]/g, "'"], // 引用符・プライム
+  [/[\u201C\u201D\u201E\u201F\u2033]/g, '"'],
+  [/[\u2010\u2011\u2012\u2043\u2212]/g, '-'], // ハイフン・マイナス
+  [/[\u2013\u2015]/g, '\u2014'], // ダッシュ
+  [/\u301C/g, '~'] // 波ダッシュ（全角チルダは NFKC で ~ になる）
+];
+
+/**
+ * キャッシュキー用にテキストを正規化
+ * 編集で生じやすい表記の揺れ（全角・半角、改行コード、空白の数、引用符・ハイフンの種類）を統一する
+ * 行頭のインデントと段落の区切りは翻訳結果に影響するため残す（3行以上の空行のみ2行にまとめる）
+ */
+export function normalizeCacheText(text: string): string {
+  let normalized = text.normalize('NFKC').replace(/\r\n?/g, '\n').replace(/[\u200B\uFEFF]/g, '');
+
+  for (const [pattern, replacement] of PUNCTUATION_VARIANTS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  return normalized
+    .split('\n')
+    .map(line => {
+      const [, indent = '', body = ''] = line.match(/^([ \t]*)(.*)$/) || [];
+      return indent + body.replace(/[ \t]+/g, ' ').trimEnd();
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
 /**
  * テキストのハッシュ値を生成（キャッシュキー用）
+ * テキストは normalizeCacheText で正規化してからハッシュにするため、表記の揺れだけの違いは同じエントリになる
+ * 用語集のバージョンを含めることで、用語集の変更時に既存キャッシュを無効化する
+ * normalize: false は正規化を導入する前のハッシュ（書き出したエントリの検証用）
  */
-export function generateContentHash(text: string, sourceLanguage: string, targetLanguage: string): string {
-  const content = `${text}|${sourceLanguage}|${targetLanguage}`;
+export function generateContentHash(
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  glossaryVersion?: string,
+  options: { normalize?: boolean } = {}
+): string {
+  const key = options.normalize === false ? text : normalizeCacheText(text);
+  const content = glossaryVersion
+    ? `${key}|${sourceLanguage}|${targetLanguage}|${glossaryVersion}`
+    : `${key}|${sourceLanguage}|${targetLanguage}`;
   return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
 }
 
@@ -36,8 +83,65 @@ export function getTextLength(text: string): number {
   return Array.from(text).length;
 }
 
+/**
+ * テキストを文単位に分割（句読点と後続の空白・改行は直前の文に含める）
+ */
+export function splitIntoSentences(text: string): string[] {
+  const sentences: string[] = [];
+  const chars = Array.from(text);
+  let current = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i]!;
+    const next = chars[i + 1];
+    current += char;
+
+    // 「.」はバージョン番号等と区別するため直後が空白・末尾の場合のみ文末とみなす
+    const isTerminal = /[。！？!?\n]/.test(char) || (char === '.' && (next === undefined || /\s/.test(next)));
+    if (isTerminal && (next === undefined || !/[。！？!?.]/.test(next))) {
+      while (i + 1 < chars.length && /\s/.test(chars[i + 1]!)) {
+        current += chars[++i];
+      }
+      sentences.push(current);
+      current = '';
+    }
+  }
+
+  if (current) {
+    sentences.push(current);
+  }
+
+  return sentences;
+}
+
+/**
+ * 分割単位を最大長以下になるまで細分化（段落 → 文 → 単語 → 文字）
+ */
+function splitIntoUnits(text: string, maxLength: number): string[] {
+  if (getTextLength(text) <= maxLength) {
+    return [text];
+  }
+
+  const levels: Array<(value: string) => string[]> = [
+    (value) => value.match(/[\s\S]*?(?:\n[ \t]*\n\s*|$)/g)?.filter(Boolean) || [value], // 段落
+    splitIntoSentences,                                                                 // 文
+    (value) => value.match(/\S+\s*|\s+/g) || [value],                                    // 単語
+    (value) => Array.from(value)                                                       // 文字
+  ];
+
+  for (const split of levels) {
+    const parts = split(text);
+    if (parts.length > 1) {
+      return parts.flatMap(part => splitIntoUnits(part, maxLength));
+    }
+  }
+
+  return [text];
+}
+
 /**
  * テキストを指定された長さで分割
+ * 段落・文の境界を優先して分割し、分割結果を連結すると元のテキストに戻る
  */
 export function splitTextByLength(text: string, maxLength: number): string[] {
   if (getTextLength(text) <= maxLength) {
@@ -46,77 +150,31 @@ export function splitTextByLength(text: string, maxLength: number): string[] {
 
   const chunks: string[] = [];
   let currentChunk = '';
-  
-  // 文を単位として分割を試行
-  const sentences = text.split(/[。！？\.\!\?]\s*/);
-  
-  for (const sentence of sentences) {
-    const sentenceWithPunctuation = sentence + (sentence.match(/[。！？\.\!\?]$/) ? '' : '。');
-    
-    if (getTextLength(currentChunk + sentenceWithPunctuation) <= maxLength) {
-      currentChunk += sentenceWithPunctuation;
+
+  for (const unit of splitIntoUnits(text, maxLength)) {
+    if (getTextLength(currentChunk + unit) <= maxLength) {
+      currentChunk += unit;
     } else {
       if (currentChunk) {
-        chunks.push(currentChunk.trim());
-        currentChunk = '';
-      }
-      
-      // 単一の文が長すぎる場合は強制的に分割
-      if (getTextLength(sentenceWithPunctuation) > maxLength) {
-        const words = sentenceWithPunctuation.split(/\s+/);
-        let wordChunk = '';
-        
-        for (const word of words) {
-          if (getTextLength(wordChunk + ' ' + word) <= maxLength) {
-            wordChunk += (wordChunk ? ' ' : '') + word;
-          } else {
-            if (wordChunk) {
-              chunks.push(wordChunk.trim());
-              wordChunk = word;
-            } else {
-              // 単語自体が長すぎる場合は文字単位で分割
-              const chars = Array.from(word);
-              let charChunk = '';
-              
-              for (const char of chars) {
-                if (getTextLength(charChunk + char) <= maxLength) {
-                  charChunk += char;
-                } else {
-                  if (charChunk) {
-                    chunks.push(charChunk);
-                    charChunk = char;
-                  }
-                }
-              }
-              
-              if (charChunk) {
-                wordChunk = charChunk;
-              }
-            }
-          }
-        }
-        
-        if (wordChunk) {
-          currentChunk = wordChunk;
-        }
-      } else {
-        currentChunk = sentenceWithPunctuation;
+        chunks.push(currentChunk);
       }
+      currentChunk = unit;
     }
   }
-  
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
+
+  if (currentChunk) {
+    chunks.push(currentChunk);
   }
-  
+
   return chunks.length > 0 ? chunks : [text];
 }
 
 /**
  * 翻訳結果を結合
+ * 各チャンクは元の区切り（空白・改行）を保持している前提
  */
 export function mergeTranslationResults(chunks: string[]): string {
-  return chunks.join(' ').trim();
+  return chunks.join('');
 }
 
 /**
@@ -135,93 +193,402 @@ export function stripHtmlTags(text: string): string {
   return text.replace(/<[^>]*>/g, '');
 }
 
+/**
+ * 翻訳から保護する要素のパターン（上から順に適用）
+ * コード・コマンド・識別子類は翻訳せず、そのまま復元する
+ */
+const PROTECTED_PATTERNS: RegExp[] = [
+  /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:\n\1[ \t]*(?=\n|$)|$(?![\s\S]))/gm,            // フェンス付きコードブロック（未終端は末尾まで）
+  /^---\n[\s\S]*?\n---[ \t]*(?=\n|$)/g,                                            // YAML フロントマター（先頭のみ）
+  /(?:^[ \t]*(?:- )?[A-Za-z_][\w.-]*:(?:[ \t].*)?$\n?){2,}/gm,                     // YAML 風のキー: 値ブロック（2行以上）
+  /(?:^(?: {4}|\t)(?![ \t]*(?:[-*+]|\d+[.)])[ \t]).*$\n?)+/gm,                       // インデントされたコードブロック
+  /^[ \t]*(?:\$|>|PS>)?[ \t]*(?:aws|sam|cdk|kubectl|eksctl|terraform|docker|npm|npx|git|curl|pip3?|python3?)[ \t].*$/gm, // CLIコマンド行
+  /`[^`\n]+`/g,                                                                    // インラインコード
+  /!\[[^\]\n]*\]\([^)\n]+\)/g,                                                     // 画像
+  /(?<=\])\([^)\s]+(?:[ \t]+"[^"\n]*")?\)/g,                                       // リンク先 URL（リンクテキストは翻訳する）
+  /https?:\/\/[^\s)<>\]`]+/g,                                                      // URL
+  /arn:aws[\w-]*:[^\s`'")\]]+/g                                                    // ARN
+];
+
+/**
+ * プレースホルダーを生成
+ */
+function createPlaceholder(index: number): string {
+  return `__PH_${index}__`;
+}
+
+/**
+ * 翻訳後に崩れたプレースホルダーも検出するパターン
+ * 大文字小文字・全角文字・空白の挿入・アンダースコアの欠落を許容する
+ */
+const PLACEHOLDER_PATTERN = /[_＿]{1,2}[ \t]?[PＰpｐ][ \t]?[HＨhｈ][ \t]?[_＿]?[ \t]?([0-9０-９]+)[ \t]?[_＿]{1,2}/g;
+
+/**
+ * YAML 風ブロックとみなす条件（入れ子構造があるもののみ）
+ */
+function looksLikeYamlBlock(block: string): boolean {
+  const lines = block.split('\n').filter(line => line.trim());
+  return lines.some(line => /:\s*$/.test(line)) || lines.some(line => /^[ \t]+/.test(line));
+}
+
 /**
  * マークダウン記法を一時的に置換（翻訳時の保護用）
+ * コードブロック・インラインコード・CLIコマンド・URL・ARN・YAML をプレースホルダーに置き換える
  */
 export function protectMarkdown(text: string): { text: string; placeholders: Map<string, string> } {
   const placeholders = new Map<string, string>();
   let counter = 0;
-  
-  // コードブロック、インラインコード、リンクなどを保護
-  const patterns = [
-    /```[\s\S]*?```/g,  // コードブロック
-    /`[^`]+`/g,         // インラインコード
-    /\[([^\]]+)\]\(([^)]+)\)/g,  // リンク
-    /!\[([^\]]*)\]\(([^)]+)\)/g, // 画像
-    /\*\*([^*]+)\*\*/g, // 太字
-    /\*([^*]+)\*/g,     // イタリック
-  ];
-  
   let protectedText = text;
-  
-  for (const pattern of patterns) {
+
+  for (const [patternIndex, pattern] of PROTECTED_PATTERNS.entries()) {
     protectedText = protectedText.replace(pattern, (match) => {
-      const placeholder = `__PROTECTED_${counter++}__`;
-      placeholders.set(placeholder, match);
-      return placeholder;
+      // YAML 風ブロックは入れ子構造がない場合（「注意: ...」等の文章）は対象外
+      if (patternIndex === 2 && !looksLikeYamlBlock(match)) {
+        return match;
+      }
+      // フロントマターは先頭にある場合のみ
+      if (patternIndex === 1 && !text.startsWith(match)) {
+        return match;
+      }
+
+      // ブロック末尾の改行はプレースホルダーの外に残す
+      const trailing = match.match(/\n*$/)?.[0] || '';
+      const body = match.slice(0, match.length - trailing.length);
+      const placeholder = createPlaceholder(counter++);
+      placeholders.set(placeholder, body);
+      return placeholder + trailing;
     });
   }
-  
+
   return { text: protectedText, placeholders };
 }
 
+/**
+ * 保護されたマークダウンを復元し、復元できなかったプレースホルダーを報告
+ * 翻訳によってプレースホルダーが並び替え・変形・欠落しても内容を失わない
+ */
+export function restoreMarkdownWithReport(
+  text: string,
+  placeholders: Map<string, string>
+): { text: string; missing: string[] } {
+  const restored = new Set<string>();
+
+  let restoredText = text.replace(PLACEHOLDER_PATTERN, (match, digits: string) => {
+    const index = parseInt(digits.normalize('NFKC'), 10);
+    const placeholder = createPlaceholder(index);
+    const original = placeholders.get(placeholder);
+
+    if (original === undefined) {
+      return match;
+    }
+
+    restored.add(placeholder);
+    return original;
+  });
+
+  // リンク先の直前に翻訳で挿入された空白を除去
+  restoredText = restoredText.replace(/\][ \t]+(?=\([^)\s]+(?:[ \t]+"[^"\n]*")?\))/g, ']');
+
+  // 欠落したプレースホルダーは末尾に追記して内容を失わないようにする
+  const missing = Array.from(placeholders.keys()).filter(placeholder => !restored.has(placeholder));
+  for (const placeholder of missing) {
+    const original = placeholders.get(placeholder)!;
+    restoredText += original.includes('\n') ? `\n\n${original}` : ` ${original}`;
+  }
+
+  return { text: restoredText, missing };
+}
+
 /**
  * 保護されたマークダウンを復元
  */
 export function restoreMarkdown(text: string, placeholders: Map<string, string>): string {
-  let restoredText = text;
-  
-  for (const [placeholder, original] of placeholders) {
-    restoredText = restoredText.replace(placeholder, original);
+  return restoreMarkdownWithReport(text, placeholders).text;
+}
+
+/**
+ * 用語をプレースホルダーに置換（用語集の適用用）
+ * 長い用語から順に置換し、復元時に replacement（未指定の場合は一致した原文）を差し込む
+ * テキスト中の既存プレースホルダーと番号が衝突しないよう、続きの番号から採番する
+ */
+export function protectTerms(
+  text: string,
+  terms: Array<{ term: string; replacement?: string; caseSensitive?: boolean }>
+): { text: string; placeholders: Map<string, string> } {
+  const placeholders = new Map<string, string>();
+  const existingIndexes = Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => parseInt((match[1] || '0').normalize('NFKC'), 10));
+  let counter = existingIndexes.length > 0 ? Math.max(...existingIndexes) + 1 : 0;
+  let protectedText = text;
+
+  const sortedTerms = [...terms]
+    .filter(({ term }) => term.trim().length > 0)
+    .sort((a, b) => b.term.length - a.term.length);
+
+  for (const { term, replacement, caseSensitive = true } of sortedTerms) {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // 英数字で始まる・終わる用語は単語の途中に一致させない
+    const leading = /^[A-Za-z0-9]/.test(term) ? '(?<![\\p{L}\\p{N}_])' : '';
+    const trailing = /[A-Za-z0-9]$/.test(term) ? '(?![\\p{L}\\p{N}_])' : '';
+    const pattern = new RegExp(`${leading}${escaped}${trailing}`, caseSensitive ? 'gu' : 'giu');
+
+    protectedText = protectedText.replace(pattern, (match) => {
+      const placeholder = createPlaceholder(counter++);
+      placeholders.set(placeholder, replacement ?? match);
+      return placeholder;
+    });
+  }
+
+  return { text: protectedText, placeholders };
+}
+
+/**
+ * マークダウンの行を構造部分（見出し・リスト記号・引用記号）と本文に分割
+ * translatable が false の行（空行・プレースホルダーのみの行）は翻訳しない
+ */
+export function splitMarkdownLines(text: string): Array<{ prefix: string; content: string; translatable: boolean }> {
+  return text.split('\n').map(line => {
+    const match = line.match(/^([ \t]*(?:(?:#{1,6}|[-*+]|\d{1,3}[.)]|>)[ \t]+)*(?:\[[ xX]\][ \t]+)?)([\s\S]*)$/);
+    const prefix = match?.[1] || '';
+    const content = match?.[2] || '';
+    const translatable = /\p{L}/u.test(content.replace(PLACEHOLDER_PATTERN, ''));
+
+    return { prefix, content, translatable };
+  });
+}
+
+/**
+ * 翻訳で保持されるべきトークン
+ */
+export interface PreservableTokens {
+  numbers: string[];
+  urls: string[];
+  placeholders: string[];
+}
+
+/**
+ * 翻訳品質の評価結果
+ */
+export interface TranslationQualityAssessment {
+  score: number; // 0〜1
+  flags: TranslationQualityFlag[];
+  missing: PreservableTokens; // 原文にあり翻訳結果にないトークン
+  backTranslationScore?: number; // 逆翻訳と原文の chrF（0〜1）
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'`）」』\])]+/g;
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*/g;
+const INLINE_CODE_PATTERN = /`[^`\n]+`/g;
+const TEMPLATE_PLACEHOLDER_PATTERN = /\{\{\s*[\w.]+\s*\}\}|\$\{[\w.]+\}|\{[\w.]+\}|%(?:\d+\$)?[sdif]/g;
+
+/**
+ * 品質スコアの各指標の重み
+ * 該当しない指標（信頼度なし、逆翻訳なしなど）は除いて加重平均する
+ */
+const QUALITY_WEIGHTS = {
+  length: 0.2,
+  preservation: 0.3,
+  changed: 0.3,
+  confidence: 0.1,
+  backTranslation: 0.4
+};
+
+const MIN_LENGTH_RATIO = 0.25;
+const MAX_LENGTH_RATIO = 4.0;
+const MIN_LENGTH_FOR_RATIO_CHECK = 10; // 短文は言語による長さの差が大きいため比率を見ない
+const LOW_BACK_TRANSLATION_SCORE = 0.35;
+
+/**
+ * テキストから保持されるべき数値・URL・プレースホルダーを抽出
+ * 数値は桁区切り・小数点の表記ゆれを吸収するため数字のみで比較する
+ */
+export function extractPreservableTokens(text: string): PreservableTokens {
+  const normalized = text.normalize('NFKC');
+  const urls = Array.from(normalized.matchAll(URL_PATTERN), match => match[0].replace(/[.,;:!?]+$/, ''));
+  const placeholders = [
+    ...Array.from(normalized.matchAll(PLACEHOLDER_PATTERN), match => createPlaceholder(parseInt(match[1] || '0', 10))),
+    ...Array.from(normalized.matchAll(INLINE_CODE_PATTERN), match => match[0]),
+    ...Array.from(normalized.matchAll(TEMPLATE_PLACEHOLDER_PATTERN), match => match[0].replace(/\s+/g, ''))
+  ];
+
+  // URL・プレースホルダー内の数字は数値として数えない
+  const remaining = normalized
+    .replace(URL_PATTERN, ' ')
+    .replace(PLACEHOLDER_PATTERN, ' ')
+    .replace(INLINE_CODE_PATTERN, ' ')
+    .replace(TEMPLATE_PLACEHOLDER_PATTERN, ' ');
+  const numbers = Array.from(remaining.matchAll(NUMBER_PATTERN), match => match[0].replace(/[.,]/g, ''));
+
+  return { numbers, urls, placeholders };
+}
+
+/**
+ * expected のうち actual に含まれないものを返す（重複は個数で比較）
+ */
+function findMissingTokens(expected: string[], actual: string[]): string[] {
+  const remaining = new Map<string, number>();
+  actual.forEach(token => remaining.set(token, (remaining.get(token) || 0) + 1));
+
+  return expected.filter(token => {
+    const count = remaining.get(token) || 0;
+    if (count === 0) {
+      return true;
+    }
+    remaining.set(token, count - 1);
+    return false;
+  });
+}
+
+/**
+ * 文字 n-gram の出現回数を数える
+ */
+function countCharacterNgrams(characters: string[], order: number): Map<string, number> {
+  const ngrams = new Map<string, number>();
+  for (let i = 0; i + order <= characters.length; i++) {
+    const ngram = characters.slice(i, i + order).join('');
+    ngrams.set(ngram, (ngrams.get(ngram) || 0) + 1);
   }
-  
-  return restoredText;
+  return ngrams;
 }
 
 /**
- * 翻訳エラーメッセージを日本語化
+ * chrF（文字 n-gram の F スコア）を計算
+ * 単語の区切りに依存しないため、日本語・中国語などでも使用できる
  */
-export function getLocalizedErrorMessage(errorCode: string): string {
-  const errorMessages: Record<string, string> = {
-    'EMPTY_TEXT': 'テキストが入力されていません',
-    'TEXT_TOO_LONG': 'テキストが長すぎます',
-    'MISSING_TARGET_LANGUAGE': '翻訳先の言語が指定されていません',
-    'UNSUPPORTED_LANGUAGE_PAIR': 'サポートされていない言語の組み合わせです',
-    'LANGUAGE_DETECTION_FAILED': '言語の自動検出に失敗しました',
-    'TRANSLATION_SERVICE_ERROR': '翻訳サービスでエラーが発生しました',
-    'DETECTION_SERVICE_ERROR': '言語検出サービスでエラーが発生しました',
-    'TEXT_SIZE_LIMIT_EXCEEDED': 'テキストサイズが制限を超えています',
-    'EMPTY_TRANSLATION_RESULT': '翻訳結果が取得できませんでした'
+export function calculateChrF(hypothesis: string, reference: string, maxOrder: number = 6, beta: number = 2): number {
+  const normalize = (text: string) => Array.from(text.normalize('NFKC').toLowerCase().replace(/\s+/g, ''));
+  const hypothesisChars = normalize(hypothesis);
+  const referenceChars = normalize(reference);
+
+  if (hypothesisChars.length === 0 || referenceChars.length === 0) {
+    return hypothesisChars.length === referenceChars.length ? 1 : 0;
+  }
+
+  let precisionSum = 0;
+  let recallSum = 0;
+  let orders = 0;
+
+  for (let order = 1; order <= maxOrder; order++) {
+    const hypothesisTotal = hypothesisChars.length - order + 1;
+    const referenceTotal = referenceChars.length - order + 1;
+    if (hypothesisTotal <= 0 || referenceTotal <= 0) {
+      break;
+    }
+
+    const hypothesisNgrams = countCharacterNgrams(hypothesisChars, order);
+    const referenceNgrams = countCharacterNgrams(referenceChars, order);
+    let matches = 0;
+    for (const [ngram, count] of hypothesisNgrams) {
+      matches += Math.min(count, referenceNgrams.get(ngram) || 0);
+    }
+
+    precisionSum += matches / hypothesisTotal;
+    recallSum += matches / referenceTotal;
+    orders++;
+  }
+
+  const precision = precisionSum / orders;
+  const recall = recallSum / orders;
+  if (precision + recall === 0) {
+    return 0;
+  }
+
+  const betaSquared = beta * beta;
+  return ((1 + betaSquared) * precision * recall) / (betaSquared * precision + recall);
+}
+
+/**
+ * 翻訳品質を評価
+ * 長さの比率、数値・URL・プレースホルダーの保持、原文からの変化、言語検出の信頼度、
+ * 逆翻訳（指定時）と原文の chrF を加重平均してスコアを算出する
+ */
+export function assessTranslationQuality(
+  originalText: string,
+  translatedText: string,
+  options: { confidence?: number; backTranslatedText?: string } = {}
+): TranslationQualityAssessment {
+  const flags: TranslationQualityFlag[] = [];
+  const expected = extractPreservableTokens(originalText);
+  const actual = extractPreservableTokens(translatedText);
+  const missing: PreservableTokens = {
+    numbers: findMissingTokens(expected.numbers, actual.numbers),
+    urls: findMissingTokens(expected.urls, actual.urls),
+    placeholders: findMissingTokens(expected.placeholders, actual.placeholders)
+  };
+
+  if (translatedText.trim().length === 0) {
+    return { score: 0, flags: ['EMPTY_TRANSLATION'], missing };
+  }
+
+  const components: Array<{ weight: number; value: number }> = [];
+
+  // 長さの比率（極端に短い/長い翻訳は品質が低い可能性）
+  const originalLength = getTextLength(originalText.trim());
+  if (originalLength >= MIN_LENGTH_FOR_RATIO_CHECK) {
+    const lengthRatio = getTextLength(translatedText.trim()) / originalLength;
+    const withinRange = lengthRatio >= MIN_LENGTH_RATIO && lengthRatio <= MAX_LENGTH_RATIO;
+    if (!withinRange) {
+      flags.push('LENGTH_RATIO');
+    }
+    components.push({ weight: QUALITY_WEIGHTS.length, value: withinRange ? 1 : 0 });
+  }
+
+  // 数値・URL・プレースホルダーの保持
+  const expectedCount = expected.numbers.length + expected.urls.length + expected.placeholders.length;
+  const missingCount = missing.numbers.length + missing.urls.length + missing.placeholders.length;
+  if (missing.numbers.length > 0) {
+    flags.push('MISSING_NUMBERS');
+  }
+  if (missing.urls.length > 0) {
+    flags.push('MISSING_URLS');
+  }
+  if (missing.placeholders.length > 0) {
+    flags.push('MISSING_PLACEHOLDERS');
+  }
+  components.push({
+    weight: QUALITY_WEIGHTS.preservation,
+    value: expectedCount > 0 ? (expectedCount - missingCount) / expectedCount : 1
+  });
+
+  // 文字を含むテキストが原文のまま返された場合は未翻訳とみなす
+  if (/\p{L}/u.test(originalText)) {
+    const changed = originalText.trim() !== translatedText.trim();
+    if (!changed) {
+      flags.push('UNTRANSLATED');
+    }
+    components.push({ weight: QUALITY_WEIGHTS.changed, value: changed ? 1 : 0 });
+  }
+
+  if (options.confidence !== undefined) {
+    components.push({ weight: QUALITY_WEIGHTS.confidence, value: options.confidence });
+  }
+
+  let backTranslationScore: number | undefined;
+  if (options.backTranslatedText !== undefined) {
+    backTranslationScore = Math.round(calculateChrF(options.backTranslatedText, originalText) * 1000) / 1000;
+    if (backTranslationScore < LOW_BACK_TRANSLATION_SCORE) {
+      flags.push('LOW_BACK_TRANSLATION_SCORE');
+    }
+    components.push({ weight: QUALITY_WEIGHTS.backTranslation, value: backTranslationScore });
+  }
+
+  const totalWeight = components.reduce((sum, component) => sum + component.weight, 0);
+  const score = components.reduce((sum, component) => sum + component.weight * component.value, 0) / totalWeight;
+
+  return {
+    score: Math.round(Math.min(1.0, Math.max(0.0, score)) * 100) / 100,
+    flags,
+    missing,
+    ...(backTranslationScore !== undefined && { backTranslationScore })
   };
-  
-  return errorMessages[errorCode] || '不明なエラーが発生しました';
 }
 
 /**
- * 翻訳品質のスコアを計算（簡易版）
+ * 翻訳品質のスコアを計算（逆翻訳なし）
  */
 export function calculateTranslationQuality(
   originalText: string,
   translatedText: string,
   confidence?: number
 ): number {
-  let score = 0.5; // ベーススコア
-  
-  // 言語検出の信頼度を考慮
-  if (confidence !== undefined) {
-    score += confidence * 0.3;
-  }
-  
-  // 長さの比率を考慮（極端に短い/長い翻訳は品質が低い可能性）
-  const lengthRatio = translatedText.length / originalText.length;
-  if (lengthRatio >= 0.3 && lengthRatio <= 3.0) {
-    score += 0.2;
-  }
-  
-  // 翻訳結果が元のテキストと同じでない場合は加点
-  if (originalText !== translatedText) {
-    score += 0.1;
-  }
-  
-  return Math.min(1.0, Math.max(0.0, score));
-}
\ No newline at end of file
+  return assessTranslationQuality(originalText, translatedText, { confidence }).score;
+}
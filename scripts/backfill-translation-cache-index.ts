@@ -0,0 +1,114 @@
+#!/usr/bin/env ts-node
+
+/**
+ * 翻訳キャッシュのインデックス用属性のバックフィルスクリプト
+ * last-accessed-index・expires-index・language-pair-index を追加する前に保存されたエントリは
+ * entryType・languagePair を持たず、インデックスを使う期限切れ削除・件数制限・全件削除・統計に含まれません
+ * 既存のエントリに属性を付与し、エントリ数を数え直してカウンターアイテムを置き換えます
+ * GSI をすべて作成した後、インデックスを読むバックエンドをデプロイする前に一度だけ実行してください
+ *
+ * 使い方:
+ *   ts-node scripts/backfill-translation-cache-index.ts --dry-run
+ *   ENVIRONMENT=prod ts-node scripts/backfill-translation-cache-index.ts
+ *
+ * オプション:
+ *   --dry-run                     属性を付与せずに件数だけを表示
+ */
+
+import type { CacheIndexBackfillPage } from '../backend/src/models/translationCache';
+
+// 環境変数の設定
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+const PROJECT_NAME = process.env.PROJECT_NAME || 'multilingual-community';
+const AWS_REGION = process.env.AWS_REGION || 'ap-northeast-1';
+const DYNAMODB_ENDPOINT = process.env.DYNAMODB_ENDPOINT || undefined;
+
+// テーブル名の生成
+const getTableName = (tableName: string) => `${PROJECT_NAME}-${ENVIRONMENT}-${tableName}`;
+
+/**
+ * コマンドライン引数を解析
+ */
+function parseArguments(args: string[]): { dryRun: boolean } {
+  for (const arg of args) {
+    if (arg !== '--dry-run') {
+      throw new Error(`不明な引数です: ${arg}`);
+    }
+  }
+  return { dryRun: args.includes('--dry-run') };
+}
+
+/**
+ * メイン処理
+ */
+async function main() {
+  console.log('🗂️ 翻訳キャッシュのインデックス用属性のバックフィルを開始...');
+  console.log(`環境: ${ENVIRONMENT}`);
+  console.log(`プロジェクト: ${PROJECT_NAME}`);
+  console.log(`リージョン: ${AWS_REGION}`);
+  if (DYNAMODB_ENDPOINT) {
+    console.log(`DynamoDBエンドポイント: ${DYNAMODB_ENDPOINT}`);
+  }
+  console.log('');
+
+  let args: { dryRun: boolean };
+  try {
+    args = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  // バックエンドのモデルが参照するテーブル名（未設定の場合のみ）
+  process.env.TRANSLATION_CACHE_TABLE = process.env.TRANSLATION_CACHE_TABLE || getTableName('translation-cache');
+  // DynamoDB Local は認証情報を検証しないため、未設定の場合はダミーを使う
+  if (DYNAMODB_ENDPOINT && !process.env.AWS_ACCESS_KEY_ID) {
+    process.env.AWS_ACCESS_KEY_ID = 'dummy';
+    process.env.AWS_SECRET_ACCESS_KEY = 'dummy';
+  }
+
+  // テーブル名を設定してから読み込む（モデルは読み込み時に環境変数を参照する）
+  const { translationCacheModel } = await import('../backend/src/models/translationCache');
+
+  const totals = { scanned: 0, entries: 0, updated: 0 };
+  let oldestEntry: string | undefined;
+  let newestEntry: string | undefined;
+  let startKey: Record<string, any> | undefined;
+
+  try {
+    do {
+      const page: CacheIndexBackfillPage = await translationCacheModel.backfillIndexAttributes(startKey, args.dryRun);
+      totals.scanned += page.scanned;
+      totals.entries += page.entries;
+      totals.updated += page.updated;
+      if (page.oldestEntry && (!oldestEntry || page.oldestEntry < oldestEntry)) {
+        oldestEntry = page.oldestEntry;
+      }
+      if (page.newestEntry && (!newestEntry || page.newestEntry > newestEntry)) {
+        newestEntry = page.newestEntry;
+      }
+      startKey = page.lastEvaluatedKey;
+
+      console.log(`  ${totals.scanned}件を確認（エントリ: ${totals.entries}件 / 属性の付与: ${totals.updated}件）`);
+    } while (startKey);
+    console.log('');
+
+    if (args.dryRun) {
+      console.log(`📝 ドライランのため属性の付与とエントリ数の更新は行いませんでした（エントリ: ${totals.entries}件）`);
+      return;
+    }
+
+    await translationCacheModel.resetEntryCount(totals.entries, oldestEntry, newestEntry);
+    console.log(`🎉 ${totals.updated}件に属性を付与し、エントリ数を${totals.entries}件に更新しました`);
+  } catch (error) {
+    console.error('❌ バックフィル中にエラーが発生しました:', error);
+    process.exitCode = 1;
+  }
+}
+
+// スクリプトが直接実行された場合のみ実行
+if (require.main === module) {
+  main();
+}
+
+export { main as backfillTranslationCacheIndex };
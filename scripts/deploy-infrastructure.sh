@@ -77,6 +77,33 @@ echo "   Private Subnets: $PRIVATE_SUBNETS"
 # 2. DynamoDBスタックのデプロイ
 echo "🗄️ DynamoDBスタックをデプロイ中..."
 DYNAMODB_STACK_NAME="$PROJECT_NAME-$ENVIRONMENT-dynamodb"
+# 既存の翻訳キャッシュテーブルには GSI を1回に1つしか追加できないため、デプロイ済みの段階から1つずつ上げる
+MAX_TRANSLATION_CACHE_INDEX_STAGE=3
+if aws cloudformation describe-stacks --stack-name "$DYNAMODB_STACK_NAME" --region "$AWS_REGION" &> /dev/null; then
+    DEPLOYED_INDEX_STAGE=$(aws cloudformation describe-stacks \
+        --stack-name "$DYNAMODB_STACK_NAME" \
+        --region "$AWS_REGION" \
+        --query 'Stacks[0].Parameters[?ParameterKey==`TranslationCacheIndexStage`].ParameterValue' \
+        --output text)
+    # パラメーターを追加する前のスタックには GSI がない
+    if [ -z "$DEPLOYED_INDEX_STAGE" ] || [ "$DEPLOYED_INDEX_STAGE" = "None" ]; then
+        DEPLOYED_INDEX_STAGE=0
+    fi
+    NEXT_INDEX_STAGE=$((DEPLOYED_INDEX_STAGE + 1))
+    if [ "$NEXT_INDEX_STAGE" -gt "$MAX_TRANSLATION_CACHE_INDEX_STAGE" ]; then
+        NEXT_INDEX_STAGE=$MAX_TRANSLATION_CACHE_INDEX_STAGE
+    fi
+else
+    # 新しく作るテーブルは GSI をまとめて作成できる
+    DEPLOYED_INDEX_STAGE=0
+    NEXT_INDEX_STAGE=$MAX_TRANSLATION_CACHE_INDEX_STAGE
+fi
+TRANSLATION_CACHE_INDEX_STAGE=${TRANSLATION_CACHE_INDEX_STAGE:-$NEXT_INDEX_STAGE}
+if [ "$TRANSLATION_CACHE_INDEX_STAGE" -gt "$NEXT_INDEX_STAGE" ]; then
+    echo "❌ TRANSLATION_CACHE_INDEX_STAGE=$TRANSLATION_CACHE_INDEX_STAGE は大きすぎます（デプロイ済み: $DEPLOYED_INDEX_STAGE、次に指定できる値: $NEXT_INDEX_STAGE まで）"
+    exit 1
+fi
+echo "   翻訳キャッシュのインデックス段階: $TRANSLATION_CACHE_INDEX_STAGE（デプロイ済み: $DEPLOYED_INDEX_STAGE）"
 
 aws cloudformation deploy \
     --template-file "$TEMPLATE_DIR/dynamodb.yml" \
@@ -84,6 +111,7 @@ aws cloudformation deploy \
     --parameter-overrides \
         Environment="$ENVIRONMENT" \
         ProjectName="$PROJECT_NAME" \
+        TranslationCacheIndexStage="$TRANSLATION_CACHE_INDEX_STAGE" \
     --region "$AWS_REGION" \
     --tags \
         Environment="$ENVIRONMENT" \
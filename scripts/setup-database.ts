@@ -156,6 +156,27 @@ Feel free to post any questions or suggestions!`,
   }
 ];
 
+// 翻訳用語集の初期データ（AWSサービス名は翻訳しない）
+const glossaryTerms = [
+  'AWS', 'Amazon EC2', 'EC2', 'AWS Lambda', 'Lambda', 'Amazon S3', 'S3', 'Amazon DynamoDB', 'DynamoDB',
+  'Amazon RDS', 'Amazon Aurora', 'Amazon VPC', 'VPC', 'Amazon CloudFront', 'CloudFront', 'Amazon Route 53',
+  'AWS Step Functions', 'Step Functions', 'AWS Security Hub', 'Security Hub', 'Amazon GuardDuty', 'AWS IAM', 'IAM',
+  'Amazon CloudWatch', 'CloudWatch', 'AWS CloudFormation', 'CloudFormation', 'Amazon ECS', 'Amazon EKS', 'AWS Fargate',
+  'Amazon SQS', 'Amazon SNS', 'Amazon EventBridge', 'EventBridge', 'Amazon API Gateway', 'API Gateway',
+  'Amazon Translate', 'Amazon Bedrock', 'AWS CDK', 'AWS SAM'
+].map((term, index) => ({
+  termId: `glossary-aws-${index + 1}`,
+  term,
+  sourceLanguage: '*',
+  targetLanguage: '*',
+  doNotTranslate: true,
+  caseSensitive: true,
+  description: 'AWSサービス名',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  createdBy: 'system'
+}));
+
 /**
  * カテゴリデータを投入
  */
@@ -194,6 +215,25 @@ async function insertSamplePosts() {
   }
 }
 
+/**
+ * 翻訳用語集データを投入
+ */
+async function insertGlossaryTerms() {
+  console.log('📖 翻訳用語集データを投入中...');
+
+  for (const glossaryTerm of glossaryTerms) {
+    try {
+      await docClient.send(new PutCommand({
+        TableName: getTableName('translation-glossary'),
+        Item: glossaryTerm
+      }));
+      console.log(`✅ 用語投入完了: ${glossaryTerm.term}`);
+    } catch (error) {
+      console.error(`❌ 用語投入エラー: ${glossaryTerm.term}`, error);
+    }
+  }
+}
+
 /**
  * メイン処理
  */
@@ -212,6 +252,8 @@ async function main() {
     console.log('');
     await insertSamplePosts();
     console.log('');
+    await insertGlossaryTerms();
+    console.log('');
     console.log('🎉 DynamoDBテーブル初期化が完了しました！');
   } catch (error) {
     console.error('❌ 初期化中にエラーが発生しました:', error);
@@ -0,0 +1,207 @@
+#!/usr/bin/env ts-node
+
+/**
+ * 翻訳キャッシュの書き出し・取り込みスクリプト
+ * 本番のキャッシュをステージングや DynamoDB Local に移す場合や、全件削除の前にスナップショットを取る場合に使います
+ * 形式は TranslationCacheEntry を1行1件の JSON にした NDJSON です
+ *
+ * 使い方:
+ *   ts-node scripts/transfer-translation-cache.ts export --output cache.ndjson --source-language en --target-language ja
+ *   ts-node scripts/transfer-translation-cache.ts import --input cache.ndjson --conflict-policy keep-higher-quality --dry-run
+ *   DYNAMODB_ENDPOINT=http://localhost:8000 ts-node scripts/transfer-translation-cache.ts import --input cache.ndjson
+ *
+ * オプション（export）:
+ *   --output <ファイル>           書き出し先（必須）
+ *   --source-language <言語>      翻訳元の言語
+ *   --target-language <言語>      翻訳先の言語
+ *   --from <YYYY-MM-DD>           この日以降に作成されたエントリ
+ *   --to <YYYY-MM-DD>             この日までに作成されたエントリ
+ *
+ * オプション（import）:
+ *   --input <ファイル>            読み込むファイル（必須）
+ *   --conflict-policy <扱い>      同じエントリがある場合の扱い（skip / overwrite / keep-higher-quality、デフォルト: skip）
+ *   --dry-run                     保存せずに件数だけを表示
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import { once } from 'events';
+import { createInterface } from 'readline';
+import type { CacheEntryFilter, CacheImportConflictPolicy } from '../backend/src/models/translationCache';
+import type { CacheImportResult } from '../backend/src/services/translationCacheTransferService';
+
+// 環境変数の設定
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+const PROJECT_NAME = process.env.PROJECT_NAME || 'multilingual-community';
+const AWS_REGION = process.env.AWS_REGION || 'ap-northeast-1';
+const DYNAMODB_ENDPOINT = process.env.DYNAMODB_ENDPOINT || undefined;
+
+// テーブル名の生成
+const getTableName = (tableName: string) => `${PROJECT_NAME}-${ENVIRONMENT}-${tableName}`;
+
+/**
+ * コマンドライン引数
+ */
+type TransferArguments =
+  | { command: 'export'; output: string; filter: CacheEntryFilter }
+  | { command: 'import'; input: string; conflictPolicy: CacheImportConflictPolicy; dryRun: boolean };
+
+/**
+ * コマンドライン引数を解析
+ */
+function parseArguments(args: string[]): TransferArguments {
+  const [command, ...rest] = args;
+  const options: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < rest.length; i++) {
+    const name = rest[i]!;
+    if (!name.startsWith('--')) {
+      throw new Error(`不明な引数です: ${name}`);
+    }
+    if (name === '--dry-run') {
+      options['dry-run'] = true;
+      continue;
+    }
+    const value = rest[i + 1];
+    if (!value || value.startsWith('--')) {
+      throw new Error(`${name} の値を指定してください`);
+    }
+    options[name.slice(2)] = value;
+    i++;
+  }
+
+  const text = (name: string) => typeof options[name] === 'string' ? options[name] as string : undefined;
+  const allowed = command === 'export'
+    ? ['output', 'source-language', 'target-language', 'from', 'to']
+    : ['input', 'conflict-policy', 'dry-run'];
+  for (const name of Object.keys(options)) {
+    if (!allowed.includes(name)) {
+      throw new Error(`${command} では指定できないオプションです: --${name}`);
+    }
+  }
+
+  switch (command) {
+    case 'export': {
+      const output = text('output');
+      if (!output) {
+        throw new Error('--output を指定してください');
+      }
+      return {
+        command,
+        output,
+        filter: {
+          sourceLanguage: text('source-language'),
+          targetLanguage: text('target-language'),
+          from: text('from'),
+          to: text('to')
+        }
+      };
+    }
+    case 'import': {
+      const input = text('input');
+      if (!input) {
+        throw new Error('--input を指定してください');
+      }
+      return {
+        command,
+        input,
+        conflictPolicy: (text('conflict-policy') || 'skip') as CacheImportConflictPolicy,
+        dryRun: options['dry-run'] === true
+      };
+    }
+    default:
+      throw new Error('export または import を指定してください');
+  }
+}
+
+/**
+ * 取り込みの結果を表示
+ */
+function printImportResult(result: CacheImportResult) {
+  console.log(`読み込んだエントリ: ${result.total}件（競合時の扱い: ${result.conflictPolicy}）`);
+  console.log(`追加: ${result.created}件 / 上書き: ${result.overwritten}件 / 既存を優先: ${result.skipped}件`);
+  console.log(`期限切れのため対象外: ${result.expired}件 / 不正な行: ${result.invalid}件`);
+  for (const error of result.errors) {
+    console.log(`  ${error.line}行目: ${error.reason}`);
+  }
+  if (result.invalid > result.errors.length) {
+    console.log(`  ...ほか${result.invalid - result.errors.length}件`);
+  }
+}
+
+/**
+ * メイン処理
+ */
+async function main() {
+  console.log('📦 翻訳キャッシュの書き出し・取り込みを開始...');
+  console.log(`環境: ${ENVIRONMENT}`);
+  console.log(`プロジェクト: ${PROJECT_NAME}`);
+  console.log(`リージョン: ${AWS_REGION}`);
+  if (DYNAMODB_ENDPOINT) {
+    console.log(`DynamoDBエンドポイント: ${DYNAMODB_ENDPOINT}`);
+  }
+  console.log('');
+
+  let args: TransferArguments;
+  try {
+    args = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  // バックエンドのモデルが参照するテーブル名（未設定の場合のみ）
+  process.env.TRANSLATION_CACHE_TABLE = process.env.TRANSLATION_CACHE_TABLE || getTableName('translation-cache');
+  // DynamoDB Local は認証情報を検証しないため、未設定の場合はダミーを使う
+  if (DYNAMODB_ENDPOINT && !process.env.AWS_ACCESS_KEY_ID) {
+    process.env.AWS_ACCESS_KEY_ID = 'dummy';
+    process.env.AWS_SECRET_ACCESS_KEY = 'dummy';
+  }
+
+  // テーブル名を設定してから読み込む（サービスは読み込み時に環境変数を参照する）
+  const { translationCacheTransferService } = await import('../backend/src/services/translationCacheTransferService');
+  const { translationCacheService } = await import('../backend/src/services/translationCacheService');
+
+  try {
+    if (args.command === 'export') {
+      const output = createWriteStream(args.output, { encoding: 'utf8' });
+      const exportedCount = await translationCacheTransferService.exportEntries(args.filter, async line => {
+        if (!output.write(line)) {
+          await once(output, 'drain');
+        }
+      });
+      output.end();
+      await once(output, 'finish');
+
+      console.log(`🎉 ${exportedCount}件を ${args.output} に書き出しました`);
+      return;
+    }
+
+    const result = await translationCacheTransferService.importEntries(
+      createInterface({ input: createReadStream(args.input, { encoding: 'utf8' }), crlfDelay: Infinity }),
+      { conflictPolicy: args.conflictPolicy, dryRun: args.dryRun }
+    );
+    printImportResult(result);
+    console.log('');
+
+    if (result.dryRun) {
+      console.log('📝 ドライランのため保存は行いませんでした');
+    } else {
+      console.log(`🎉 ${args.input} を取り込みました`);
+    }
+    if (result.invalid > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ 書き出し・取り込み中にエラーが発生しました:', error);
+    process.exitCode = 1;
+  } finally {
+    await translationCacheService.close();
+  }
+}
+
+// スクリプトが直接実行された場合のみ実行
+if (require.main === module) {
+  main();
+}
+
+export { main as transferTranslationCache };
@@ -0,0 +1,162 @@
+#!/usr/bin/env ts-node
+
+/**
+ * 翻訳キャッシュのウォームアップスクリプト
+ * 人気の投稿とよく参照されるキャッシュエントリを、有効なすべての言語に事前に翻訳します
+ * 言語を追加した後やキャッシュを全件削除した後に実行してください
+ *
+ * 使い方:
+ *   ts-node scripts/warm-translation-cache.ts --dry-run
+ *   ts-node scripts/warm-translation-cache.ts --max-cost 10 --languages ja,en,ko
+ *
+ * オプション:
+ *   --dry-run            翻訳せずに件数と概算コストだけを表示
+ *   --max-cost <USD>     翻訳にかける概算コストの上限
+ *   --post-limit <件>    対象にする人気の投稿数
+ *   --entry-limit <件>   対象にするよく参照されるキャッシュエントリ数
+ *   --lookback-days <日> この日数以内に作成された投稿が対象
+ *   --languages <a,b>    翻訳先の言語（省略時は有効なすべての言語）
+ */
+
+import type { CacheWarmupOptions, CacheWarmupRun } from '../backend/src/services/translationCacheWarmupService';
+import type { SupportedLanguage } from '../backend/src/types/translation';
+
+// 環境変数の設定
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+const PROJECT_NAME = process.env.PROJECT_NAME || 'multilingual-community';
+const AWS_REGION = process.env.AWS_REGION || 'ap-northeast-1';
+
+// テーブル名の生成
+const getTableName = (tableName: string) => `${PROJECT_NAME}-${ENVIRONMENT}-${tableName}`;
+
+// バックエンドのモデルが参照するテーブル名（未設定の場合のみ）
+const TABLE_ENVIRONMENT_VARIABLES: Record<string, string> = {
+  POSTS_TABLE: 'posts',
+  CATEGORIES_TABLE: 'categories',
+  TRANSLATION_CACHE_TABLE: 'translation-cache',
+  TRANSLATION_GLOSSARY_TABLE: 'translation-glossary',
+  TRANSLATION_USAGE_TABLE: 'translation-usage'
+};
+
+/**
+ * コマンドライン引数を解析
+ */
+function parseArguments(args: string[]): CacheWarmupOptions {
+  const options: CacheWarmupOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    switch (args[i]) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--max-cost':
+        options.maxCost = parseFloat(value || '');
+        i++;
+        break;
+      case '--post-limit':
+        options.postLimit = parseInt(value || '');
+        i++;
+        break;
+      case '--entry-limit':
+        options.entryLimit = parseInt(value || '');
+        i++;
+        break;
+      case '--lookback-days':
+        options.lookbackDays = parseInt(value || '');
+        i++;
+        break;
+      case '--languages':
+        options.targetLanguages = (value || '').split(',').map(code => code.trim()).filter(Boolean) as SupportedLanguage[];
+        i++;
+        break;
+      default:
+        throw new Error(`不明なオプションです: ${args[i]}`);
+    }
+  }
+
+  for (const [name, option] of Object.entries(options)) {
+    if (typeof option === 'number' && (isNaN(option) || option < 0)) {
+      throw new Error(`${name} には0以上の数値を指定してください`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * 見積もりを表示
+ */
+function printEstimate(run: CacheWarmupRun) {
+  console.log(`翻訳先の言語: ${run.targetLanguages.join(', ')}`);
+  console.log(`人気の投稿: ${run.sources.posts}件 / よく参照されるエントリ: ${run.sources.cacheEntries}件`);
+  console.log(`翻訳元テキスト: ${run.sources.texts}件（言語が不明なため対象外: ${run.sources.skippedTexts}件）`);
+  console.log(`キャッシュ済み: ${run.cachedTranslations}件`);
+  console.log(`翻訳予定: ${run.plannedTranslations}件（${run.estimatedCharacters}文字、概算 $${run.estimatedCost.toFixed(4)} / 上限 $${run.maxCost}）`);
+  if (run.skippedByCostCap > 0) {
+    console.log(`⚠️  コストの上限を超えるため見送り: ${run.skippedByCostCap}件`);
+  }
+}
+
+/**
+ * メイン処理
+ */
+async function main() {
+  console.log('🔥 翻訳キャッシュのウォームアップを開始...');
+  console.log(`環境: ${ENVIRONMENT}`);
+  console.log(`プロジェクト: ${PROJECT_NAME}`);
+  console.log(`リージョン: ${AWS_REGION}`);
+  console.log('');
+
+  let options: CacheWarmupOptions;
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  for (const [name, tableName] of Object.entries(TABLE_ENVIRONMENT_VARIABLES)) {
+    process.env[name] = process.env[name] || getTableName(tableName);
+  }
+
+  // テーブル名を設定してから読み込む（サービスは読み込み時に環境変数を参照する）
+  const { translationCacheWarmupService } = await import('../backend/src/services/translationCacheWarmupService');
+  const { translationCacheService } = await import('../backend/src/services/translationCacheService');
+
+  try {
+    const run = await translationCacheWarmupService.start(options);
+    printEstimate(run);
+    console.log('');
+
+    if (run.dryRun) {
+      console.log('📝 ドライランのため翻訳は行いませんでした');
+      return;
+    }
+
+    const finished = await translationCacheWarmupService.waitForRun(run.runId, progress => {
+      console.log(`⏳ ${progress.progress}%（完了: ${progress.completedTranslations}、失敗: ${progress.failedTranslations} / ${progress.plannedTranslations}）`);
+    });
+
+    console.log('');
+    console.log(`翻訳した文字数: ${finished.translatedCharacters}文字`);
+    if (finished.status === 'completed') {
+      console.log(`🎉 ウォームアップが完了しました！（完了: ${finished.completedTranslations}、失敗: ${finished.failedTranslations}）`);
+    } else {
+      console.error(`❌ ウォームアップに失敗しました: ${finished.error || `${finished.failedTranslations}件の翻訳に失敗`}`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ ウォームアップ中にエラーが発生しました:', error);
+    process.exitCode = 1;
+  } finally {
+    await translationCacheService.close();
+  }
+}
+
+// スクリプトが直接実行された場合のみ実行
+if (require.main === module) {
+  main();
+}
+
+export { main as warmTranslationCache };